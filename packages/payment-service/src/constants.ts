@@ -14,6 +14,8 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
+import { DEFAULT_REQUEST_NONCE_TTL_MS } from "@ar-io-bundler/shared";
+
 import { ByteCount } from "./types/byteCount";
 import { SupportedFiatPaymentCurrencyType } from "./types/supportedCurrencies";
 
@@ -34,6 +36,14 @@ export const oneARInWinston = 1e12;
 export const maxAllowedChargebackDisputes = +(
   process.env.MAX_ALLOWED_CHARGE_BACKS ?? 1
 );
+// how far the timestamp of a signed request's nonce may be from now, and how long the nonce is remembered to reject replays
+export const requestNonceTtlMs = +(
+  process.env.REQUEST_NONCE_TTL_MS ?? DEFAULT_REQUEST_NONCE_TTL_MS
+);
+
+// accepts signed requests whose nonce is not scoped to a service and timestamp, as sent by older clients. Off unless enabled, as legacy nonces can be replayed once they expire
+export const acceptLegacyRequestNonces =
+  process.env.ACCEPT_LEGACY_REQUEST_NONCES === "true";
 
 export const stripePaymentMethods = [
   paymentIntentStripeMethod,
@@ -332,6 +342,19 @@ export const promoCodeBackfills = {
 
 export const maxGiftMessageLength = process.env.MAX_GIFT_MESSAGE_LENGTH ?? 250;
 
+export const defaultAuditLedgerPageSize = 100;
+export const maxAuditLedgerPageSize = 1000;
+
+// requests per minute allowed for API keys issued without their own rate limit
+export const defaultApiKeyRateLimitPerMinute = +(
+  process.env.API_KEY_RATE_LIMIT_PER_MINUTE ?? 600
+);
+export const maxApiKeyRateLimitPerMinute = 100_000;
+
+export const defaultAdjustmentCatalogPriority = 500;
+export const maxGeneratedPromoCodesPerRequest = 1000;
+export const generatedPromoCodeLength = 10;
+
 export const giftingEmailAddress =
   process.env.GIFTING_EMAIL_ADDRESS ?? "gift@ardrive.io";
 
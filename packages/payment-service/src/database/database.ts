@@ -14,24 +14,33 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
+import { ClaimRequestNonceParams } from "@ar-io-bundler/shared";
 import { Knex } from "knex";
 
 import { TransactionId, Winston } from "../types";
 import { WC } from "../types/arc";
 import {
+  AddOrganizationMemberParams,
+  AdjustmentCatalogType,
+  AdjustmentCatalogsByType,
+  ApiKey,
   ArNSPurchase,
   ArNSPurchaseParams,
   ArNSPurchaseQuote,
   ArNSPurchaseQuoteParams,
   ArNSPurchaseStatusResult,
   AuditChangeReason,
+  AuditLedgerEntry,
+  AuditStatement,
   ChargebackReceipt,
   ChargebackReceiptId,
+  CreateApiKeyParams,
   CreateBalanceReservationParams,
   CreateBypassedPaymentReceiptParams,
   CreateChargebackReceiptParams,
   CreateDelegatedPaymentApprovalParams,
   CreateNewCreditedTransactionParams,
+  CreateOrganizationParams,
   CreatePaymentReceiptParams,
   CreatePendingTransactionParams,
   CreateTopUpQuoteParams,
@@ -43,15 +52,19 @@ import {
   FinalizeX402PaymentParams,
   GetBalanceResult,
   IntervalUnit,
+  Organization,
+  OrganizationMember,
   PaymentAdjustmentCatalog,
   PaymentReceipt,
   PaymentReceiptId,
   PendingPaymentTransaction,
   PromotionalInfo,
   SingleUseCodePaymentCatalog,
+  Timestamp,
   TopUpQuote,
   TopUpQuoteId,
   UnredeemedGift,
+  UpdateOrganizationMemberParams,
   UploadAdjustmentCatalog,
   User,
   UserAddress,
@@ -67,6 +80,16 @@ export type WincUsedForUploadAdjustmentParams = {
   limitationIntervalUnit: IntervalUnit;
 };
 
+export type GetAuditLedgerParams = {
+  userAddress: UserAddress;
+  limit: number;
+  changeReasons?: AuditChangeReason[];
+  fromDate?: Timestamp;
+  toDate?: Timestamp;
+  /** Only return entries older than this audit ID, used to page through the ledger */
+  beforeAuditId?: number;
+};
+
 export interface Database {
   createTopUpQuote: (topUpQuote: CreateTopUpQuoteParams) => Promise<void>;
 
@@ -130,6 +153,32 @@ export interface Database {
 
   getPaymentAdjustmentCatalogs(): Promise<PaymentAdjustmentCatalog[]>;
 
+  /**
+   * Get the adjustment catalogs of a type, including scheduled and expired catalogs unless activeOnly is set
+   */
+  getAdjustmentCatalogs: <T extends AdjustmentCatalogType>(
+    type: T,
+    activeOnly?: boolean
+  ) => Promise<AdjustmentCatalogsByType[T][]>;
+
+  getAdjustmentCatalog: <T extends AdjustmentCatalogType>(
+    type: T,
+    catalogId: string
+  ) => Promise<AdjustmentCatalogsByType[T]>;
+
+  /**
+   * Insert adjustment catalogs in a single transaction. Promo codes must not be shared with any unexpired promo code
+   */
+  createAdjustmentCatalogs: <T extends AdjustmentCatalogType>(
+    type: T,
+    catalogs: AdjustmentCatalogsByType[T][]
+  ) => Promise<void>;
+
+  updateAdjustmentCatalog: <T extends AdjustmentCatalogType>(
+    type: T,
+    catalog: AdjustmentCatalogsByType[T]
+  ) => Promise<void>;
+
   redeemGift: (params: {
     paymentReceiptId: string;
     recipientEmail: string;
@@ -206,6 +255,84 @@ export interface Database {
     receivedApprovals: DelegatedPaymentApproval[];
   }>;
 
+  /** Create an organization with its creator as the first admin member */
+  createOrganization: (
+    params: CreateOrganizationParams
+  ) => Promise<Organization>;
+
+  getOrganization: (organizationId: string) => Promise<Organization>;
+
+  getOrganizationMembers: (
+    organizationId: string
+  ) => Promise<OrganizationMember[]>;
+
+  /** Get the membership of a wallet, which belongs to at most one organization */
+  getOrganizationMembership: (
+    userAddress: UserAddress
+  ) => Promise<OrganizationMember | undefined>;
+
+  addOrganizationMember: (
+    params: AddOrganizationMemberParams
+  ) => Promise<OrganizationMember>;
+
+  updateOrganizationMember: (
+    params: UpdateOrganizationMemberParams
+  ) => Promise<OrganizationMember>;
+
+  removeOrganizationMember: (params: {
+    organizationId: string;
+    userAddress: UserAddress;
+  }) => Promise<void>;
+
+  /** Move winc from a member's balance to the balance of their organization */
+  depositToOrganization: (params: {
+    organizationId: string;
+    userAddress: UserAddress;
+    wincAmount: WC;
+  }) => Promise<Organization>;
+
+  /**
+   * Record the nonce of a signed request for the signer until its time to live passes.
+   * Returns false when the signer has already used the nonce and it has not expired
+   */
+  claimRequestNonce: (params: ClaimRequestNonceParams) => Promise<boolean>;
+
+  createApiKey: (params: CreateApiKeyParams) => Promise<ApiKey>;
+
+  /** Get an API key by ID, including revoked keys */
+  getApiKey: (apiKeyId: string) => Promise<ApiKey | undefined>;
+
+  /** Get the API keys issued to an account newest first, including revoked keys */
+  getApiKeys: (userAddress: UserAddress) => Promise<ApiKey[]>;
+
+  /** Revoke an active API key, only if issued to the given account when one is provided */
+  revokeApiKey: (params: {
+    apiKeyId: string;
+    userAddress?: UserAddress;
+  }) => Promise<ApiKey>;
+
+  /**
+   * Record a request made with an API key, updating its last used date and its count of
+   * requests in the current one minute rate limit window. Returns the count including this request
+   */
+  recordApiKeyUse: (apiKeyId: string) => Promise<number>;
+
+  /**
+   * Get a user's audit log entries newest first, each with the running balance
+   * computed over all of the user's entries regardless of the given filters
+   */
+  getAuditLedger: (params: GetAuditLedgerParams) => Promise<AuditLedgerEntry[]>;
+
+  /**
+   * Aggregate a user's audit log entries between fromDate (inclusive) and toDate
+   * (exclusive) by change reason, along with the balances on either side of the range
+   */
+  getAuditStatement: (params: {
+    userAddress: UserAddress;
+    fromDate: Timestamp;
+    toDate: Timestamp;
+  }) => Promise<AuditStatement>;
+
   createArNSPurchaseReceipt: (
     createPendingArNSPurchaseParams: ArNSPurchaseParams
   ) => Promise<ArNSPurchase>;
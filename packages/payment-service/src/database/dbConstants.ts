@@ -48,6 +48,13 @@ export const tableNames = {
 
   x402PaymentTransaction: "x402_payment_transaction",
   x402PaymentReservation: "x402_payment_reservation",
+
+  organization: "organization",
+  organizationMember: "organization_member",
+
+  requestNonce: "request_nonce",
+
+  apiKey: "api_key",
 } as const;
 
 export const columnNames = {
@@ -185,4 +192,38 @@ export const columnNames = {
   messageId: "message_id",
   excessWinc: "excess_winc",
   paidBy: "paid_by", // CSV of user addresses
+
+  // Organization
+  organizationId: "organization_id",
+  organizationName: "organization_name",
+  // winstonCreditBalance: "winston_credit_balance",
+  // creationDate: "creation_date",
+
+  // Organization Member
+  // organizationId: "organization_id",
+  // userAddress: "user_address", // unique, a wallet belongs to at most one organization
+  // userAddressType: "user_address_type",
+  memberRole: "member_role", // 'admin', 'uploader'
+  wincSpendingLimit: "winc_spending_limit", // nullable, no limit when null
+  // usedWincAmount: "used_winc_amount",
+  // creationDate: "creation_date",
+
+  // Request Nonce
+  signerAddress: "signer_address",
+  // nonce: "nonce",
+  // expirationDate: "expiration_date",
+
+  // API Key
+  apiKeyId: "api_key_id",
+  hashedSecret: "hashed_secret", // hex SHA-256 of the key secret, the secret itself is never stored
+  // userAddress: "user_address",
+  // userAddressType: "user_address_type",
+  apiKeyName: "api_key_name",
+  scopes: "scopes", // CSV of 'read_balance', 'create_approvals', 'upload', 'admin'
+  rateLimitPerMinute: "rate_limit_per_minute", // nullable, default rate limit when null
+  rateLimitWindowStart: "rate_limit_window_start",
+  rateLimitWindowCount: "rate_limit_window_count",
+  lastUsedDate: "last_used_date",
+  revokedDate: "revoked_date",
+  // creationDate: "creation_date",
 } as const;
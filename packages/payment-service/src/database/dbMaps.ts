@@ -21,7 +21,11 @@ import { PositiveFiniteInteger, TokenType } from "../types";
 import { W, Winston } from "../types/winston";
 import {
   AdjustmentCatalog,
+  AdjustmentCatalogDBInsert,
   AdjustmentCatalogDBResult,
+  ApiKey,
+  ApiKeyDBResult,
+  ApiKeyScope,
   ArNSNameType,
   ArNSPurchase,
   ArNSPurchaseDBResult,
@@ -31,6 +35,10 @@ import {
   ArNSPurchaseQuoteDBResult,
   ArNSPurchaseQuoteParams,
   ArNSPurchaseStatusResult,
+  AuditLedgerEntry,
+  AuditLedgerEntryDBResult,
+  AuditStatementReasonDBResult,
+  AuditStatementReasonSummary,
   ChargebackReceipt,
   ChargebackReceiptDBResult,
   CreditedPaymentTransaction,
@@ -48,7 +56,12 @@ import {
   InactiveDelegatedPaymentApprovalDBResult,
   InactiveDelegatedPaymentReason,
   IntervalUnit,
+  Organization,
+  OrganizationDBResult,
+  OrganizationMember,
+  OrganizationMemberDBResult,
   PaymentAdjustmentCatalog,
+  PaymentAdjustmentCatalogDBInsert,
   PaymentAdjustmentCatalogDBResult,
   PaymentReceipt,
   PaymentReceiptDBResult,
@@ -56,12 +69,14 @@ import {
   PendingPaymentTransactionDBResult,
   PromotionalInfo,
   SingleUseCodePaymentCatalog,
+  SingleUseCodePaymentCatalogDBInsert,
   SingleUseCodePaymentCatalogDBResult,
   TopUpQuote,
   TopUpQuoteDBResult,
   UnredeemedGift,
   UnredeemedGiftDBResult,
   UploadAdjustmentCatalog,
+  UploadAdjustmentCatalogDBInsert,
   UploadAdjustmentCatalogDBResult,
   User,
   UserAddressType,
@@ -202,6 +217,62 @@ export function singleUseCodePaymentCatalogDBMap(
   };
 }
 
+function priceAdjustmentCatalogDBInsertFromCatalog({
+  catalogId,
+  name,
+  description,
+  startDate,
+  endDate,
+  priority,
+  operator,
+  operatorMagnitude,
+}: AdjustmentCatalog): AdjustmentCatalogDBInsert {
+  return {
+    catalog_id: catalogId,
+    adjustment_name: name,
+    adjustment_description: description,
+    adjustment_start_date: startDate,
+    adjustment_end_date: endDate,
+    adjustment_priority: priority,
+    operator,
+    operator_magnitude: operatorMagnitude.toString(),
+  };
+}
+
+export function uploadAdjustmentCatalogDBInsertFromCatalog(
+  catalog: UploadAdjustmentCatalog
+): UploadAdjustmentCatalogDBInsert {
+  return {
+    ...priceAdjustmentCatalogDBInsertFromCatalog(catalog),
+    byte_count_threshold: catalog.byteCountThreshold.toString(),
+    winc_limitation: catalog.wincLimitation.toString(),
+    limitation_interval: catalog.limitationInterval.toString(),
+    limitation_interval_unit: catalog.limitationIntervalUnit,
+  };
+}
+
+export function paymentAdjustmentCatalogDBInsertFromCatalog(
+  catalog: PaymentAdjustmentCatalog
+): PaymentAdjustmentCatalogDBInsert {
+  return {
+    ...priceAdjustmentCatalogDBInsertFromCatalog(catalog),
+    adjustment_exclusivity: catalog.exclusivity,
+  };
+}
+
+export function singleUseCodePaymentCatalogDBInsertFromCatalog(
+  catalog: SingleUseCodePaymentCatalog
+): SingleUseCodePaymentCatalogDBInsert {
+  return {
+    ...paymentAdjustmentCatalogDBInsertFromCatalog(catalog),
+    code_value: catalog.codeValue,
+    target_user_group: catalog.targetUserGroup,
+    max_uses: catalog.maxUses,
+    minimum_payment_amount: catalog.minimumPaymentAmount,
+    maximum_discount_amount: catalog.maximumDiscountAmount,
+  };
+}
+
 export function unredeemedGiftDBMap(
   dbResult: UnredeemedGiftDBResult
 ): UnredeemedGift {
@@ -276,6 +347,76 @@ export function inactiveDelegatedPaymentApprovalDBMap(
   };
 }
 
+export function organizationDBMap(
+  dbResult: OrganizationDBResult
+): Organization {
+  return {
+    organizationId: dbResult.organization_id,
+    organizationName: dbResult.organization_name,
+    winc: W(dbResult.winston_credit_balance),
+    creationDate: dbResult.creation_date,
+  };
+}
+
+export function organizationMemberDBMap(
+  dbResult: OrganizationMemberDBResult
+): OrganizationMember {
+  return {
+    organizationId: dbResult.organization_id,
+    userAddress: dbResult.user_address,
+    userAddressType: dbResult.user_address_type,
+    role: dbResult.member_role,
+    wincSpendingLimit:
+      dbResult.winc_spending_limit === null
+        ? undefined
+        : W(dbResult.winc_spending_limit),
+    usedWincAmount: W(dbResult.used_winc_amount),
+    creationDate: dbResult.creation_date,
+  };
+}
+
+export function apiKeyDBMap(dbResult: ApiKeyDBResult): ApiKey {
+  return {
+    apiKeyId: dbResult.api_key_id,
+    hashedSecret: dbResult.hashed_secret,
+    userAddress: dbResult.user_address,
+    userAddressType: dbResult.user_address_type,
+    name: dbResult.api_key_name,
+    scopes: dbResult.scopes.split(",") as ApiKeyScope[],
+    rateLimitPerMinute: dbResult.rate_limit_per_minute ?? undefined,
+    creationDate: dbResult.creation_date,
+    lastUsedDate: dbResult.last_used_date ?? undefined,
+    revokedDate: dbResult.revoked_date ?? undefined,
+  };
+}
+
+export function auditLedgerEntryDBMap(
+  dbResult: AuditLedgerEntryDBResult
+): AuditLedgerEntry {
+  return {
+    auditId: dbResult.audit_id,
+    auditDate: dbResult.audit_date,
+    changeReason: dbResult.change_reason,
+    changeId: dbResult.change_id ?? undefined,
+    wincAmount: W(dbResult.winston_credit_amount),
+    runningBalance: W(dbResult.running_balance),
+  };
+}
+
+export function auditStatementReasonDBMap(
+  dbResult: AuditStatementReasonDBResult
+): AuditStatementReasonSummary {
+  const creditedWinc = W(dbResult.credited_winc);
+  const debitedWinc = W(dbResult.debited_winc);
+  return {
+    changeReason: dbResult.change_reason,
+    entryCount: +dbResult.entry_count,
+    creditedWinc,
+    debitedWinc,
+    netWinc: creditedWinc.minus(debitedWinc),
+  };
+}
+
 export function arnsPurchaseReceiptDBMap(
   dbResult: ArNSPurchaseDBResult
 ): ArNSPurchase {
@@ -344,6 +344,24 @@ export interface SingleUseCodePaymentCatalog extends PaymentAdjustmentCatalog {
   maximumDiscountAmount: number;
 }
 
+export const adjustmentCatalogTypes = [
+  "upload",
+  "payment",
+  "promo-code",
+] as const;
+export type AdjustmentCatalogType = (typeof adjustmentCatalogTypes)[number];
+
+export interface AdjustmentCatalogsByType {
+  upload: UploadAdjustmentCatalog;
+  payment: PaymentAdjustmentCatalog;
+  "promo-code": SingleUseCodePaymentCatalog;
+}
+
+/** Adjustment catalogs as validated from admin requests, before a catalog ID is assigned */
+export type AdjustmentCatalogInputsByType = {
+  [T in AdjustmentCatalogType]: Omit<AdjustmentCatalogsByType[T], "catalogId">;
+};
+
 export interface UserDBInsert {
   user_address: string;
   user_address_type: string;
@@ -376,7 +394,10 @@ export type AuditChangeReason =
   | "x402_topup"
   | "x402_hybrid_excess"
   | "x402_overpayment_refund"
-  | "x402_fraud_penalty";
+  | "x402_fraud_penalty"
+  | "organization_deposit"
+  | "organization_upload"
+  | "organization_arns_purchase_order";
 
 export interface AuditLogInsert {
   user_address: string;
@@ -390,6 +411,42 @@ export interface AuditLogDBResult extends AuditLogInsert {
   audit_date: string;
 }
 
+export interface AuditLedgerEntryDBResult extends AuditLogDBResult {
+  running_balance: string;
+}
+
+export interface AuditLedgerEntry {
+  auditId: number;
+  auditDate: Timestamp;
+  changeReason: AuditChangeReason;
+  changeId?: string;
+  wincAmount: WC;
+  /** The user's balance once this entry has been applied */
+  runningBalance: WC;
+}
+
+export interface AuditStatementReasonDBResult {
+  change_reason: AuditChangeReason;
+  entry_count: string;
+  credited_winc: string;
+  debited_winc: string;
+}
+
+export interface AuditStatementReasonSummary {
+  changeReason: AuditChangeReason;
+  entryCount: number;
+  creditedWinc: WC;
+  /** Sum of the debits for this reason, as a positive amount */
+  debitedWinc: WC;
+  netWinc: WC;
+}
+
+export interface AuditStatement {
+  openingBalance: WC;
+  closingBalance: WC;
+  reasons: AuditStatementReasonSummary[];
+}
+
 export interface UserDBResult extends UserDBInsert {
   promotional_info: JsonSerializable;
   user_creation_date: string;
@@ -452,7 +509,7 @@ export interface BalanceReservationDBResult
   overflow_spend?: OverflowSpendDBResult; // Store as a JSON string
 }
 
-interface AdjustmentCatalogDBInsert {
+export interface AdjustmentCatalogDBInsert {
   catalog_id: string;
   adjustment_name: string;
   adjustment_description?: string;
@@ -484,7 +541,8 @@ export interface PaymentAdjustmentCatalogDBInsert
   adjustment_exclusivity?: Exclusivity;
 }
 
-type TargetUserGroup = "all" | "new" | "existing";
+export const targetUserGroups = ["all", "new", "existing"] as const;
+export type TargetUserGroup = (typeof targetUserGroups)[number];
 
 export interface SingleUseCodePaymentCatalogDBInsert
   extends PaymentAdjustmentCatalogDBInsert {
@@ -589,7 +647,14 @@ export interface RedeemedGift extends UnredeemedGift {
   redemptionDate: Timestamp;
 }
 
-export type IntervalUnit = "year" | "month" | "day" | "hour" | "minute";
+export const intervalUnits = [
+  "year",
+  "month",
+  "day",
+  "hour",
+  "minute",
+] as const;
+export type IntervalUnit = (typeof intervalUnits)[number];
 
 export interface DelegatedPaymentApprovalDBInsert {
   approval_data_item_id: string;
@@ -637,6 +702,128 @@ export interface InactiveDelegatedPaymentApproval
   revokeDataItemId?: DataItemId;
 }
 
+export const organizationMemberRoles = ["admin", "uploader"] as const;
+export type OrganizationMemberRole = (typeof organizationMemberRoles)[number];
+
+export interface OrganizationDBInsert {
+  organization_id: string;
+  organization_name: string;
+  winston_credit_balance?: string;
+}
+
+export interface OrganizationDBResult extends Required<OrganizationDBInsert> {
+  creation_date: string;
+}
+
+export interface OrganizationMemberDBInsert {
+  organization_id: string;
+  user_address: string;
+  user_address_type: UserAddressType;
+  member_role: OrganizationMemberRole;
+  winc_spending_limit?: string | null;
+  used_winc_amount?: string;
+}
+
+export interface OrganizationMemberDBResult extends OrganizationMemberDBInsert {
+  winc_spending_limit: string | null;
+  used_winc_amount: string;
+  creation_date: string;
+}
+
+export interface Organization {
+  organizationId: string;
+  organizationName: string;
+  winc: WC;
+  creationDate: Timestamp;
+}
+
+export interface OrganizationMember {
+  organizationId: string;
+  userAddress: UserAddress;
+  userAddressType: UserAddressType;
+  role: OrganizationMemberRole;
+  /** Lifetime total of winc the member can charge to the organization, no limit when undefined */
+  wincSpendingLimit?: WC;
+  /** Winc charged to the organization by the member, less refunds. It is never reset */
+  usedWincAmount: WC;
+  creationDate: Timestamp;
+}
+
+export interface CreateOrganizationParams {
+  organizationId: string;
+  organizationName: string;
+  adminAddress: UserAddress;
+  adminAddressType: UserAddressType;
+}
+
+export interface AddOrganizationMemberParams {
+  organizationId: string;
+  userAddress: UserAddress;
+  userAddressType: UserAddressType;
+  role: OrganizationMemberRole;
+  wincSpendingLimit?: WC;
+}
+
+export interface UpdateOrganizationMemberParams {
+  organizationId: string;
+  userAddress: UserAddress;
+  role?: OrganizationMemberRole;
+  /** Removes the spending limit when null, keeps the current limit when undefined */
+  wincSpendingLimit?: WC | null;
+}
+
+export const apiKeyScopes = [
+  "read_balance",
+  "create_approvals",
+  "upload",
+  "admin",
+] as const;
+export type ApiKeyScope = (typeof apiKeyScopes)[number];
+
+export interface ApiKeyDBInsert {
+  api_key_id: string;
+  hashed_secret: string;
+  user_address: string;
+  user_address_type: UserAddressType;
+  api_key_name: string;
+  scopes: string;
+  rate_limit_per_minute?: number | null;
+}
+
+export interface ApiKeyDBResult extends ApiKeyDBInsert {
+  rate_limit_per_minute: number | null;
+  rate_limit_window_start: string | null;
+  rate_limit_window_count: number;
+  creation_date: string;
+  last_used_date: string | null;
+  revoked_date: string | null;
+}
+
+export interface ApiKey {
+  apiKeyId: string;
+  /** Hex SHA-256 of the key secret */
+  hashedSecret: string;
+  userAddress: UserAddress;
+  userAddressType: UserAddressType;
+  name: string;
+  scopes: ApiKeyScope[];
+  /** Requests allowed per minute, the service default applies when undefined */
+  rateLimitPerMinute?: number;
+  creationDate: Timestamp;
+  lastUsedDate?: Timestamp;
+  revokedDate?: Timestamp;
+}
+
+export interface CreateApiKeyParams {
+  apiKeyId: string;
+  hashedSecret: string;
+  userAddress: UserAddress;
+  userAddressType: UserAddressType;
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+}
+
 export interface CreateDelegatedPaymentApprovalParams {
   approvalDataItemId: DataItemId;
   approvedAddress: UserAddress;
@@ -929,9 +1116,19 @@ export const auditChangeReasons = [
   "approved_arns_purchase_order",
   "arns_purchase_order_failed",
   "x402_payment",
+  "x402_topup",
+  "x402_hybrid_excess",
   "x402_overpayment_refund",
   "x402_fraud_penalty",
+  "organization_deposit",
+  "organization_upload",
+  "organization_arns_purchase_order",
 ] as const;
 
+export const isAuditChangeReason = (
+  value: string
+): value is AuditChangeReason =>
+  auditChangeReasons.includes(value as AuditChangeReason);
+
 // Update the AuditChangeReason type to use the const array
 export type AuditChangeReasonNew = (typeof auditChangeReasons)[number];
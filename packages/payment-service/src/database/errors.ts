@@ -133,6 +133,12 @@ export class PromoCodeExceedsMaxUses extends PromoCodeError {
   }
 }
 
+export class PromoCodeAlreadyExists extends BaseError {
+  constructor(promoCode: string) {
+    super(`An unexpired promo code with code '${promoCode}' already exists`);
+  }
+}
+
 export class GiftRedemptionError extends BaseError {
   constructor(errorMessage = "Failure to redeem payment receipt!") {
     super(errorMessage);
@@ -229,6 +235,12 @@ export class ConflictingApprovalFound extends BadRequest {
   }
 }
 
+export class AdjustmentCatalogNotFound extends BaseError {
+  constructor(catalogId: string) {
+    super(`No adjustment catalog found in the database with ID '${catalogId}'`);
+  }
+}
+
 export class ArNSPurchaseNotFound extends BaseError {
   constructor(nonce: string) {
     super(`No ArNS name purchase found in the database with nonce '${nonce}'`);
@@ -248,3 +260,55 @@ export class InvalidArNSWalletType extends BaseError {
     super(`Wallet type not yet implemented for ArNS Purchases '${walletType}'`);
   }
 }
+
+export class OrganizationNotFound extends BaseError {
+  constructor(organizationId: string) {
+    super(`No organization found in the database with ID '${organizationId}'`);
+  }
+}
+
+export class OrganizationMemberNotFound extends BaseError {
+  constructor(organizationId: string, userAddress: UserAddress) {
+    super(
+      `No member with address '${userAddress}' found in organization '${organizationId}'`
+    );
+  }
+}
+
+export class OrganizationMemberAlreadyExists extends BaseError {
+  constructor(userAddress: UserAddress) {
+    super(`Address '${userAddress}' is already a member of an organization`);
+  }
+}
+
+export class LastOrganizationAdmin extends BadRequest {
+  constructor(organizationId: string) {
+    super(`Organization '${organizationId}' must keep at least one admin`);
+  }
+}
+
+export class ApiKeyNotFound extends BaseError {
+  constructor(apiKeyId: string) {
+    super(`No active API key found in the database with ID '${apiKeyId}'`);
+  }
+}
+
+export class InvalidApiKey extends Unauthorized {
+  constructor() {
+    super("Invalid or revoked API key");
+  }
+}
+
+export class ApiKeyScopeNotGranted extends BaseError {
+  constructor(scope: string) {
+    super(`API key is not granted the '${scope}' scope`);
+  }
+}
+
+export class ApiKeyRateLimited extends BaseError {
+  constructor(apiKeyId: string, rateLimitPerMinute: number) {
+    super(
+      `API key '${apiKeyId}' has exceeded its rate limit of ${rateLimitPerMinute} requests per minute`
+    );
+  }
+}
@@ -768,3 +768,137 @@ export class KyveFeeMigrator extends Migrator {
     });
   }
 }
+
+export class OrganizationsMigrator extends Migrator {
+  constructor(private readonly knex: Knex) {
+    super();
+  }
+
+  public migrate() {
+    return this.operate({
+      name: "migrate to organizations",
+      operation: async () => {
+        await this.knex.schema.createTable(tableNames.organization, (table) => {
+          table.string(columnNames.organizationId).primary();
+          table.string(columnNames.organizationName).notNullable();
+          table
+            .string(columnNames.winstonCreditBalance)
+            .notNullable()
+            .defaultTo("0");
+          table
+            .timestamp(columnNames.creationDate)
+            .notNullable()
+            .defaultTo(this.knex.fn.now());
+        });
+
+        await this.knex.schema.createTable(
+          tableNames.organizationMember,
+          (table) => {
+            // A wallet belongs to at most one organization, so its charges resolve to a single balance
+            table.string(columnNames.userAddress).primary();
+            table.string(columnNames.userAddressType).notNullable();
+            table
+              .string(columnNames.organizationId)
+              .notNullable()
+              .index()
+              .references(columnNames.organizationId)
+              .inTable(tableNames.organization)
+              .onDelete("CASCADE");
+            table.string(columnNames.memberRole).notNullable();
+            table.string(columnNames.wincSpendingLimit).nullable();
+            table
+              .string(columnNames.usedWincAmount)
+              .notNullable()
+              .defaultTo("0");
+            table
+              .timestamp(columnNames.creationDate)
+              .notNullable()
+              .defaultTo(this.knex.fn.now());
+          }
+        );
+      },
+    });
+  }
+
+  public rollback() {
+    return this.operate({
+      name: "rollback from organizations",
+      operation: async () => {
+        await this.knex.schema.dropTableIfExists(tableNames.organizationMember);
+        await this.knex.schema.dropTableIfExists(tableNames.organization);
+      },
+    });
+  }
+}
+
+export class RequestNoncesMigrator extends Migrator {
+  constructor(private readonly knex: Knex) {
+    super();
+  }
+
+  public migrate() {
+    return this.operate({
+      name: "migrate to request nonces",
+      operation: async () => {
+        await this.knex.schema.createTable(tableNames.requestNonce, (table) => {
+          table.string(columnNames.signerAddress).notNullable();
+          table.string(columnNames.nonce).notNullable();
+          table.timestamp(columnNames.expirationDate).notNullable().index();
+          table.primary([columnNames.signerAddress, columnNames.nonce]);
+        });
+      },
+    });
+  }
+
+  public rollback() {
+    return this.operate({
+      name: "rollback from request nonces",
+      operation: async () => {
+        await this.knex.schema.dropTableIfExists(tableNames.requestNonce);
+      },
+    });
+  }
+}
+
+export class ApiKeysMigrator extends Migrator {
+  constructor(private readonly knex: Knex) {
+    super();
+  }
+
+  public migrate() {
+    return this.operate({
+      name: "migrate to api keys",
+      operation: async () => {
+        await this.knex.schema.createTable(tableNames.apiKey, (table) => {
+          table.string(columnNames.apiKeyId).primary();
+          table.string(columnNames.hashedSecret).notNullable();
+          table.string(columnNames.userAddress).notNullable().index();
+          table.string(columnNames.userAddressType).notNullable();
+          table.string(columnNames.apiKeyName).notNullable();
+          table.string(columnNames.scopes).notNullable();
+          table.integer(columnNames.rateLimitPerMinute).nullable();
+          table.timestamp(columnNames.rateLimitWindowStart).nullable();
+          table
+            .integer(columnNames.rateLimitWindowCount)
+            .notNullable()
+            .defaultTo(0);
+          table
+            .timestamp(columnNames.creationDate)
+            .notNullable()
+            .defaultTo(this.knex.fn.now());
+          table.timestamp(columnNames.lastUsedDate).nullable();
+          table.timestamp(columnNames.revokedDate).nullable();
+        });
+      },
+    });
+  }
+
+  public rollback() {
+    return this.operate({
+      name: "rollback from api keys",
+      operation: async () => {
+        await this.knex.schema.dropTableIfExists(tableNames.apiKey);
+      },
+    });
+  }
+}
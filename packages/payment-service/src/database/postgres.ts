@@ -14,6 +14,7 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
+import { ClaimRequestNonceParams } from "@ar-io-bundler/shared";
 import { randomUUID } from "crypto";
 import knex, { Knex } from "knex";
 import path from "path";
@@ -21,29 +22,51 @@ import winston from "winston";
 
 import globalLogger from "../logger";
 import { ByteCount, TransactionId, W, WC, Winston } from "../types";
-import { remainingWincAmountFromApprovals } from "../utils/common";
-import { Database, WincUsedForUploadAdjustmentParams } from "./database";
+import {
+  remainingWincAmountFromApprovals,
+  spendableOrganizationWinc,
+} from "../utils/common";
+import {
+  Database,
+  GetAuditLedgerParams,
+  WincUsedForUploadAdjustmentParams,
+} from "./database";
 import { columnNames, tableNames } from "./dbConstants";
 import {
+  apiKeyDBMap,
   arnsPurchaseDBMap,
   arnsPurchaseQuoteDBInsertFromParams,
   arnsPurchaseQuoteDBMap,
   arnsPurchaseReceiptDBMap,
+  auditLedgerEntryDBMap,
+  auditStatementReasonDBMap,
   chargebackReceiptDBMap,
   creditedTransactionDBMap,
   delegatedPaymentApprovalDBMap,
   failedTransactionDBMap,
   inactiveDelegatedPaymentApprovalDBMap,
+  organizationDBMap,
+  organizationMemberDBMap,
+  paymentAdjustmentCatalogDBInsertFromCatalog,
   paymentAdjustmentCatalogDBMap,
   paymentReceiptDBMap,
   pendingPaymentTransactionDBMap,
+  singleUseCodePaymentCatalogDBInsertFromCatalog,
   singleUseCodePaymentCatalogDBMap,
   topUpQuoteDBMap,
   unredeemedGiftDBMap,
+  uploadAdjustmentCatalogDBInsertFromCatalog,
   uploadAdjustmentCatalogDBMap,
   userDBMap,
 } from "./dbMaps";
 import {
+  AddOrganizationMemberParams,
+  AdjustmentCatalogDBInsert,
+  AdjustmentCatalogType,
+  AdjustmentCatalogsByType,
+  ApiKey,
+  ApiKeyDBInsert,
+  ApiKeyDBResult,
   ArNSPurchase,
   ArNSPurchaseDBInsert,
   ArNSPurchaseDBResult,
@@ -53,16 +76,22 @@ import {
   ArNSPurchaseQuoteParams,
   ArNSPurchaseStatusResult,
   AuditChangeReason,
+  AuditLedgerEntry,
+  AuditLedgerEntryDBResult,
   AuditLogInsert,
+  AuditStatement,
+  AuditStatementReasonDBResult,
   BalanceReservationDBInsert,
   BalanceReservationDBResult,
   ChargebackReceipt,
   ChargebackReceiptDBResult,
+  CreateApiKeyParams,
   CreateBalanceReservationParams,
   CreateBypassedPaymentReceiptParams,
   CreateChargebackReceiptParams,
   CreateDelegatedPaymentApprovalParams,
   CreateNewCreditedTransactionParams,
+  CreateOrganizationParams,
   CreatePaymentReceiptParams,
   CreatePendingTransactionParams,
   CreateTopUpQuoteParams,
@@ -84,6 +113,12 @@ import {
   InactiveDelegatedPaymentApprovalDBInsert,
   InactiveDelegatedPaymentApprovalDBResult,
   KnexTransaction,
+  Organization,
+  OrganizationDBInsert,
+  OrganizationDBResult,
+  OrganizationMember,
+  OrganizationMemberDBInsert,
+  OrganizationMemberDBResult,
   OverflowSpendDBResult,
   PaymentAdjustment,
   PaymentAdjustmentCatalog,
@@ -103,12 +138,14 @@ import {
   RedeemedGiftDBResult,
   SingleUseCodePaymentCatalog,
   SingleUseCodePaymentCatalogDBResult,
+  Timestamp,
   TopUpQuote,
   TopUpQuoteDBInsert,
   TopUpQuoteDBResult,
   UnredeemedGift,
   UnredeemedGiftDBInsert,
   UnredeemedGiftDBResult,
+  UpdateOrganizationMemberParams,
   UploadAdjustmentCatalog,
   UploadAdjustmentCatalogDBResult,
   UploadAdjustmentDBInsert,
@@ -130,14 +167,21 @@ import {
   FinalizeX402PaymentParams,
 } from "./dbTypes";
 import {
+  AdjustmentCatalogNotFound,
+  ApiKeyNotFound,
   ArNSPurchaseAlreadyExists,
   ArNSPurchaseNotFound,
   ConflictingApprovalFound,
   GiftAlreadyRedeemed,
   GiftRedemptionError,
   InsufficientBalance,
+  LastOrganizationAdmin,
   NoApprovalsFound,
+  OrganizationMemberAlreadyExists,
+  OrganizationMemberNotFound,
+  OrganizationNotFound,
   PaymentTransactionNotFound,
+  PromoCodeAlreadyExists,
   PromoCodeExceedsMaxUses,
   PromoCodeExpired,
   PromoCodeNotFound,
@@ -146,6 +190,40 @@ import {
 } from "./errors";
 import { getReaderConfig, getWriterConfig } from "./knexConfig";
 
+interface AdjustmentCatalogDBResultsByType {
+  upload: UploadAdjustmentCatalogDBResult;
+  payment: PaymentAdjustmentCatalogDBResult;
+  "promo-code": SingleUseCodePaymentCatalogDBResult;
+}
+
+const adjustmentCatalogTables: {
+  [T in AdjustmentCatalogType]: {
+    tableName: string;
+    dbMap: (
+      dbResult: AdjustmentCatalogDBResultsByType[T]
+    ) => AdjustmentCatalogsByType[T];
+    dbInsert: (
+      catalog: AdjustmentCatalogsByType[T]
+    ) => AdjustmentCatalogDBInsert;
+  };
+} = {
+  upload: {
+    tableName: tableNames.uploadAdjustmentCatalog,
+    dbMap: uploadAdjustmentCatalogDBMap,
+    dbInsert: uploadAdjustmentCatalogDBInsertFromCatalog,
+  },
+  payment: {
+    tableName: tableNames.paymentAdjustmentCatalog,
+    dbMap: paymentAdjustmentCatalogDBMap,
+    dbInsert: paymentAdjustmentCatalogDBInsertFromCatalog,
+  },
+  "promo-code": {
+    tableName: tableNames.singleUseCodePaymentAdjustmentCatalog,
+    dbMap: singleUseCodePaymentCatalogDBMap,
+    dbInsert: singleUseCodePaymentCatalogDBInsertFromCatalog,
+  },
+};
+
 export class PostgresDatabase implements Database {
   private log: winston.Logger;
   private writer: Knex;
@@ -1104,6 +1182,123 @@ export class PostgresDatabase implements Database {
     ).map(paymentAdjustmentCatalogDBMap);
   }
 
+  public async getAdjustmentCatalogs<T extends AdjustmentCatalogType>(
+    type: T,
+    activeOnly = false
+  ): Promise<AdjustmentCatalogsByType[T][]> {
+    const { tableName, dbMap } = adjustmentCatalogTables[type];
+    let query = this.reader(tableName)
+      .orderBy(columnNames.adjustmentPriority, "asc")
+      .orderBy(columnNames.adjustmentStartDate, "asc");
+
+    if (activeOnly) {
+      const currentDate = new Date().toISOString();
+      query = query.whereRaw(
+        `'${currentDate}' >= ${columnNames.adjustmentStartDate} and (
+          ${columnNames.adjustmentEndDate} is null or '${currentDate}' < ${columnNames.adjustmentEndDate}
+        )`
+      );
+    }
+
+    const dbResults: AdjustmentCatalogDBResultsByType[T][] = await query;
+    return dbResults.map(dbMap);
+  }
+
+  public async getAdjustmentCatalog<T extends AdjustmentCatalogType>(
+    type: T,
+    catalogId: string
+  ): Promise<AdjustmentCatalogsByType[T]> {
+    const { tableName, dbMap } = adjustmentCatalogTables[type];
+    const dbResult: AdjustmentCatalogDBResultsByType[T] | undefined =
+      await this.reader(tableName)
+        .where({ [columnNames.catalogId]: catalogId })
+        .first();
+
+    if (dbResult === undefined) {
+      throw new AdjustmentCatalogNotFound(catalogId);
+    }
+    return dbMap(dbResult);
+  }
+
+  public async createAdjustmentCatalogs<T extends AdjustmentCatalogType>(
+    type: T,
+    catalogs: AdjustmentCatalogsByType[T][]
+  ): Promise<void> {
+    const { tableName, dbInsert } = adjustmentCatalogTables[type];
+    await this.writer.transaction(async (knexTransaction) => {
+      if (type === "promo-code") {
+        await this.assertPromoCodesAreUnused(
+          catalogs as SingleUseCodePaymentCatalog[],
+          knexTransaction
+        );
+      }
+      await knexTransaction.batchInsert(tableName, catalogs.map(dbInsert));
+    });
+  }
+
+  public async updateAdjustmentCatalog<T extends AdjustmentCatalogType>(
+    type: T,
+    catalog: AdjustmentCatalogsByType[T]
+  ): Promise<void> {
+    const { tableName, dbInsert } = adjustmentCatalogTables[type];
+    await this.writer.transaction(async (knexTransaction) => {
+      if (type === "promo-code") {
+        await this.assertPromoCodesAreUnused(
+          [catalog as SingleUseCodePaymentCatalog],
+          knexTransaction
+        );
+      }
+
+      const { catalog_id, ...dbUpdate } = dbInsert(catalog);
+      const updatedCount = await knexTransaction(tableName)
+        .where({ catalog_id })
+        .update({
+          ...dbUpdate,
+          // Clear the end date when the catalog no longer has one
+          adjustment_end_date: dbUpdate.adjustment_end_date ?? null,
+        });
+
+      if (updatedCount === 0) {
+        throw new AdjustmentCatalogNotFound(catalog_id);
+      }
+    });
+  }
+
+  /** Promo codes are looked up by value, so an unexpired code can only belong to a single catalog */
+  private async assertPromoCodesAreUnused(
+    catalogs: SingleUseCodePaymentCatalog[],
+    knexTransaction: KnexTransaction
+  ): Promise<void> {
+    const codeValues = catalogs.map(({ codeValue }) => codeValue);
+    const duplicateCodeValue = codeValues.find(
+      (codeValue, index) => codeValues.indexOf(codeValue) !== index
+    );
+    if (duplicateCodeValue !== undefined) {
+      throw new PromoCodeAlreadyExists(duplicateCodeValue);
+    }
+
+    const currentDate = new Date().toISOString();
+    const existingCatalog =
+      await knexTransaction<SingleUseCodePaymentCatalogDBResult>(
+        tableNames.singleUseCodePaymentAdjustmentCatalog
+      )
+        .whereIn(columnNames.adjustmentCodeValue, codeValues)
+        .whereNotIn(
+          columnNames.catalogId,
+          catalogs.map(({ catalogId }) => catalogId)
+        )
+        .where((query) => {
+          void query
+            .whereNull(columnNames.adjustmentEndDate)
+            .orWhere(columnNames.adjustmentEndDate, ">", currentDate);
+        })
+        .first();
+
+    if (existingCatalog !== undefined) {
+      throw new PromoCodeAlreadyExists(existingCatalog.code_value);
+    }
+  }
+
   private async checkForSingleUsePromoCodeEligibility(
     userAddress: string,
     catalogId: string,
@@ -2262,6 +2457,504 @@ export class PostgresDatabase implements Database {
     });
   }
 
+  public async createOrganization({
+    organizationId,
+    organizationName,
+    adminAddress,
+    adminAddressType,
+  }: CreateOrganizationParams): Promise<Organization> {
+    return this.writer.transaction(async (knexTransaction) => {
+      await this.assertNotOrganizationMember(adminAddress, knexTransaction);
+
+      const organizationDbInsert: OrganizationDBInsert = {
+        organization_id: organizationId,
+        organization_name: organizationName,
+      };
+      const organizationDbResults = await knexTransaction<OrganizationDBResult>(
+        tableNames.organization
+      )
+        .insert(organizationDbInsert)
+        .returning("*");
+
+      const memberDbInsert: OrganizationMemberDBInsert = {
+        organization_id: organizationId,
+        user_address: adminAddress,
+        user_address_type: adminAddressType,
+        member_role: "admin",
+      };
+      await knexTransaction<OrganizationMemberDBResult>(
+        tableNames.organizationMember
+      ).insert(memberDbInsert);
+
+      return organizationDBMap(organizationDbResults[0]);
+    });
+  }
+
+  public async getOrganization(organizationId: string): Promise<Organization> {
+    const organization = await this.reader<OrganizationDBResult>(
+      tableNames.organization
+    )
+      .where({ organization_id: organizationId })
+      .first();
+
+    if (!organization) {
+      throw new OrganizationNotFound(organizationId);
+    }
+
+    return organizationDBMap(organization);
+  }
+
+  public async getOrganizationMembers(
+    organizationId: string
+  ): Promise<OrganizationMember[]> {
+    const memberDbResults = await this.reader<OrganizationMemberDBResult>(
+      tableNames.organizationMember
+    )
+      .where({ organization_id: organizationId })
+      .orderBy(columnNames.creationDate, "asc");
+
+    return memberDbResults.map(organizationMemberDBMap);
+  }
+
+  public async getOrganizationMembership(
+    userAddress: UserAddress
+  ): Promise<OrganizationMember | undefined> {
+    const memberDbResult = await this.reader<OrganizationMemberDBResult>(
+      tableNames.organizationMember
+    )
+      .where({ user_address: userAddress })
+      .first();
+
+    return memberDbResult ? organizationMemberDBMap(memberDbResult) : undefined;
+  }
+
+  public async addOrganizationMember({
+    organizationId,
+    userAddress,
+    userAddressType,
+    role,
+    wincSpendingLimit,
+  }: AddOrganizationMemberParams): Promise<OrganizationMember> {
+    return this.writer.transaction(async (knexTransaction) => {
+      await this.getLockedOrganization(organizationId, knexTransaction);
+      await this.assertNotOrganizationMember(userAddress, knexTransaction);
+
+      const memberDbInsert: OrganizationMemberDBInsert = {
+        organization_id: organizationId,
+        user_address: userAddress,
+        user_address_type: userAddressType,
+        member_role: role,
+        winc_spending_limit: wincSpendingLimit?.toString(),
+      };
+      const memberDbResults = await knexTransaction<OrganizationMemberDBResult>(
+        tableNames.organizationMember
+      )
+        .insert(memberDbInsert)
+        .returning("*");
+
+      return organizationMemberDBMap(memberDbResults[0]);
+    });
+  }
+
+  public async updateOrganizationMember({
+    organizationId,
+    userAddress,
+    role,
+    wincSpendingLimit,
+  }: UpdateOrganizationMemberParams): Promise<OrganizationMember> {
+    return this.writer.transaction(async (knexTransaction) => {
+      const member = await this.getOrganizationMemberInTransaction(
+        { organizationId, userAddress },
+        knexTransaction
+      );
+      // Lock the organization so concurrent role changes cannot remove every admin
+      await this.getLockedOrganization(organizationId, knexTransaction);
+
+      if (member.role === "admin" && role !== undefined && role !== "admin") {
+        await this.assertOrganizationKeepsAnAdmin(
+          { organizationId, userAddress },
+          knexTransaction
+        );
+      }
+
+      const memberDbResults = await knexTransaction<OrganizationMemberDBResult>(
+        tableNames.organizationMember
+      )
+        .where({ user_address: userAddress })
+        .update({
+          member_role: role ?? member.role,
+          winc_spending_limit:
+            wincSpendingLimit === undefined
+              ? member.wincSpendingLimit?.toString() ?? null
+              : wincSpendingLimit?.toString() ?? null,
+        })
+        .returning("*");
+
+      return organizationMemberDBMap(memberDbResults[0]);
+    });
+  }
+
+  public async removeOrganizationMember({
+    organizationId,
+    userAddress,
+  }: {
+    organizationId: string;
+    userAddress: UserAddress;
+  }): Promise<void> {
+    await this.writer.transaction(async (knexTransaction) => {
+      const member = await this.getOrganizationMemberInTransaction(
+        { organizationId, userAddress },
+        knexTransaction
+      );
+      await this.getLockedOrganization(organizationId, knexTransaction);
+
+      if (member.role === "admin") {
+        await this.assertOrganizationKeepsAnAdmin(
+          { organizationId, userAddress },
+          knexTransaction
+        );
+      }
+
+      await knexTransaction<OrganizationMemberDBResult>(
+        tableNames.organizationMember
+      )
+        .where({ user_address: userAddress })
+        .del();
+    });
+  }
+
+  public async depositToOrganization({
+    organizationId,
+    userAddress,
+    wincAmount,
+  }: {
+    organizationId: string;
+    userAddress: UserAddress;
+    wincAmount: WC;
+  }): Promise<Organization> {
+    return this.writer.transaction(async (knexTransaction) => {
+      const user = await this.getLockedUser(userAddress, knexTransaction);
+      const organization = await this.getLockedOrganization(
+        organizationId,
+        knexTransaction
+      );
+
+      const newUserBalance = user.winstonCreditBalance.minus(wincAmount);
+      if (newUserBalance.isNonZeroNegativeInteger()) {
+        throw new InsufficientBalance(userAddress);
+      }
+
+      await knexTransaction<UserDBResult>(tableNames.user)
+        .where({ user_address: userAddress })
+        .update({ winston_credit_balance: newUserBalance.toString() });
+      const organizationDbResults = await knexTransaction<OrganizationDBResult>(
+        tableNames.organization
+      )
+        .where({ organization_id: organizationId })
+        .update({
+          winston_credit_balance: organization.winc.plus(wincAmount).toString(),
+        })
+        .returning("*");
+
+      const auditLogInserts: AuditLogInsert[] = [
+        {
+          user_address: userAddress,
+          winston_credit_amount: `-${wincAmount.toString()}`,
+          change_reason: "organization_deposit",
+          change_id: organizationId,
+        },
+        {
+          user_address: organizationId,
+          winston_credit_amount: wincAmount.toString(),
+          change_reason: "organization_deposit",
+          change_id: userAddress,
+        },
+      ];
+      await knexTransaction(tableNames.auditLog).insert(auditLogInserts);
+
+      return organizationDBMap(organizationDbResults[0]);
+    });
+  }
+
+  /**
+   * Organization rows are locked after the user and organization member rows of the same
+   * transaction, the order reserving balance locks them in, so that concurrent transactions
+   * cannot deadlock
+   */
+  private async getLockedOrganization(
+    organizationId: string,
+    knexTransaction: KnexTransaction
+  ): Promise<Organization> {
+    const organization = await knexTransaction<OrganizationDBResult>(
+      tableNames.organization
+    )
+      .where({ organization_id: organizationId })
+      .forUpdate()
+      .first();
+
+    if (!organization) {
+      throw new OrganizationNotFound(organizationId);
+    }
+
+    return organizationDBMap(organization);
+  }
+
+  private async getOrganizationMemberInTransaction(
+    {
+      organizationId,
+      userAddress,
+    }: { organizationId: string; userAddress: UserAddress },
+    knexTransaction: KnexTransaction
+  ): Promise<OrganizationMember> {
+    const member = await knexTransaction<OrganizationMemberDBResult>(
+      tableNames.organizationMember
+    )
+      .where({ organization_id: organizationId, user_address: userAddress })
+      .forUpdate()
+      .first();
+
+    if (!member) {
+      throw new OrganizationMemberNotFound(organizationId, userAddress);
+    }
+
+    return organizationMemberDBMap(member);
+  }
+
+  private async assertNotOrganizationMember(
+    userAddress: UserAddress,
+    knexTransaction: KnexTransaction
+  ): Promise<void> {
+    const existingMember = await knexTransaction<OrganizationMemberDBResult>(
+      tableNames.organizationMember
+    )
+      .where({ user_address: userAddress })
+      .first();
+
+    if (existingMember) {
+      throw new OrganizationMemberAlreadyExists(userAddress);
+    }
+  }
+
+  private async assertOrganizationKeepsAnAdmin(
+    {
+      organizationId,
+      userAddress,
+    }: { organizationId: string; userAddress: UserAddress },
+    knexTransaction: KnexTransaction
+  ): Promise<void> {
+    const otherAdmin = await knexTransaction<OrganizationMemberDBResult>(
+      tableNames.organizationMember
+    )
+      .where({ organization_id: organizationId, member_role: "admin" })
+      .whereNot({ user_address: userAddress })
+      .first();
+
+    if (!otherAdmin) {
+      throw new LastOrganizationAdmin(organizationId);
+    }
+  }
+
+  public async claimRequestNonce({
+    signerAddress,
+    nonce,
+    ttlMs,
+  }: ClaimRequestNonceParams): Promise<boolean> {
+    const now = new Date();
+
+    // Expired nonces of the signer are pruned, as their signed timestamps are too old to be accepted again
+    await this.writer(tableNames.requestNonce)
+      .where({ signer_address: signerAddress })
+      .andWhere(columnNames.expirationDate, "<", now.toISOString())
+      .del();
+
+    const claimedNonces = await this.writer(tableNames.requestNonce)
+      .insert({
+        signer_address: signerAddress,
+        nonce,
+        expiration_date: new Date(now.getTime() + ttlMs).toISOString(),
+      })
+      .onConflict([columnNames.signerAddress, columnNames.nonce])
+      .ignore()
+      .returning(columnNames.nonce);
+
+    return claimedNonces.length > 0;
+  }
+
+  public async createApiKey({
+    apiKeyId,
+    hashedSecret,
+    userAddress,
+    userAddressType,
+    name,
+    scopes,
+    rateLimitPerMinute,
+  }: CreateApiKeyParams): Promise<ApiKey> {
+    const apiKeyDbInsert: ApiKeyDBInsert = {
+      api_key_id: apiKeyId,
+      hashed_secret: hashedSecret,
+      user_address: userAddress,
+      user_address_type: userAddressType,
+      api_key_name: name,
+      scopes: scopes.join(","),
+      rate_limit_per_minute: rateLimitPerMinute ?? null,
+    };
+    const apiKeyDbResults = await this.writer<ApiKeyDBResult>(tableNames.apiKey)
+      .insert(apiKeyDbInsert)
+      .returning("*");
+
+    return apiKeyDBMap(apiKeyDbResults[0]);
+  }
+
+  public async getApiKey(apiKeyId: string): Promise<ApiKey | undefined> {
+    const apiKeyDbResult = await this.reader<ApiKeyDBResult>(tableNames.apiKey)
+      .where({ api_key_id: apiKeyId })
+      .first();
+
+    return apiKeyDbResult ? apiKeyDBMap(apiKeyDbResult) : undefined;
+  }
+
+  public async getApiKeys(userAddress: UserAddress): Promise<ApiKey[]> {
+    const apiKeyDbResults = await this.reader<ApiKeyDBResult>(tableNames.apiKey)
+      .where({ user_address: userAddress })
+      .orderBy(columnNames.creationDate, "desc");
+
+    return apiKeyDbResults.map(apiKeyDBMap);
+  }
+
+  public async revokeApiKey({
+    apiKeyId,
+    userAddress,
+  }: {
+    apiKeyId: string;
+    userAddress?: UserAddress;
+  }): Promise<ApiKey> {
+    let query = this.writer<ApiKeyDBResult>(tableNames.apiKey)
+      .where({ api_key_id: apiKeyId })
+      .whereNull(columnNames.revokedDate);
+    if (userAddress) {
+      query = query.andWhere({ user_address: userAddress });
+    }
+
+    const apiKeyDbResults = await query
+      .update({ revoked_date: new Date().toISOString() })
+      .returning("*");
+    if (apiKeyDbResults.length === 0) {
+      throw new ApiKeyNotFound(apiKeyId);
+    }
+
+    return apiKeyDBMap(apiKeyDbResults[0]);
+  }
+
+  public async recordApiKeyUse(apiKeyId: string): Promise<number> {
+    const { rateLimitWindowStart, rateLimitWindowCount } = columnNames;
+    // Each key counts its requests in fixed one minute windows. The update is a single
+    // statement so concurrent requests are all counted against the same window
+    const isInCurrentWindow = `${rateLimitWindowStart} > now() - interval '1 minute'`;
+
+    const apiKeyDbResults = await this.writer<ApiKeyDBResult>(tableNames.apiKey)
+      .where({ api_key_id: apiKeyId })
+      .update({
+        last_used_date: this.writer.fn.now(),
+        rate_limit_window_start: this.writer.raw(
+          `case when ${isInCurrentWindow} then ${rateLimitWindowStart} else now() end`
+        ),
+        rate_limit_window_count: this.writer.raw(
+          `case when ${isInCurrentWindow} then ${rateLimitWindowCount} + 1 else 1 end`
+        ),
+      })
+      .returning(rateLimitWindowCount);
+    if (apiKeyDbResults.length === 0) {
+      throw new ApiKeyNotFound(apiKeyId);
+    }
+
+    return apiKeyDbResults[0].rate_limit_window_count;
+  }
+
+  public async getAuditLedger({
+    userAddress,
+    limit,
+    changeReasons,
+    fromDate,
+    toDate,
+    beforeAuditId,
+  }: GetAuditLedgerParams): Promise<AuditLedgerEntry[]> {
+    // Window the running balance over all of the user's entries before filtering
+    const ledger = this.reader(tableNames.auditLog)
+      .select(
+        "*",
+        this.reader.raw(
+          `sum(${columnNames.winstonCreditAmount}::numeric) over (order by ${columnNames.auditId}) as running_balance`
+        )
+      )
+      .where({ [columnNames.userAddress]: userAddress })
+      .as("ledger");
+
+    let query = this.reader
+      .select<AuditLedgerEntryDBResult[]>("*")
+      .from(ledger)
+      .orderBy(columnNames.auditId, "desc")
+      .limit(limit);
+
+    if (changeReasons && changeReasons.length > 0) {
+      query = query.whereIn(columnNames.changeReason, changeReasons);
+    }
+    if (fromDate) {
+      query = query.where(columnNames.auditDate, ">=", fromDate);
+    }
+    if (toDate) {
+      query = query.where(columnNames.auditDate, "<", toDate);
+    }
+    if (beforeAuditId !== undefined) {
+      query = query.where(columnNames.auditId, "<", beforeAuditId);
+    }
+
+    const dbResults = await query;
+    return dbResults.map(auditLedgerEntryDBMap);
+  }
+
+  public async getAuditStatement({
+    userAddress,
+    fromDate,
+    toDate,
+  }: {
+    userAddress: UserAddress;
+    fromDate: Timestamp;
+    toDate: Timestamp;
+  }): Promise<AuditStatement> {
+    const creditAmount = `${columnNames.winstonCreditAmount}::numeric`;
+
+    const openingBalanceResult = await this.reader(tableNames.auditLog)
+      .select<{ opening_balance: string }[]>(
+        this.reader.raw(`coalesce(sum(${creditAmount}), 0) as opening_balance`)
+      )
+      .where({ [columnNames.userAddress]: userAddress })
+      .where(columnNames.auditDate, "<", fromDate);
+    const openingBalance = W(openingBalanceResult[0].opening_balance);
+
+    const reasonDbResults = await this.reader(tableNames.auditLog)
+      .select<AuditStatementReasonDBResult[]>(
+        columnNames.changeReason,
+        this.reader.raw("count(*) as entry_count"),
+        this.reader.raw(`sum(greatest(${creditAmount}, 0)) as credited_winc`),
+        this.reader.raw(`sum(greatest(-(${creditAmount}), 0)) as debited_winc`)
+      )
+      .where({ [columnNames.userAddress]: userAddress })
+      .where(columnNames.auditDate, ">=", fromDate)
+      .where(columnNames.auditDate, "<", toDate)
+      .groupBy(columnNames.changeReason)
+      .orderBy(columnNames.changeReason);
+    const reasons = reasonDbResults.map(auditStatementReasonDBMap);
+
+    return {
+      openingBalance,
+      closingBalance: reasons.reduce(
+        (acc, { netWinc }) => acc.plus(netWinc),
+        openingBalance
+      ),
+      reasons,
+    };
+  }
+
   private async useBalanceAndApprovals({
     wincAmount,
     changeId,
@@ -2291,6 +2984,31 @@ export class PostgresDatabase implements Database {
       .first();
     const signerBalance = W(signer?.winston_credit_balance ?? 0);
 
+    // Locks the membership and organization of the signer, if any
+    const memberDbResult = await knexTransaction<OrganizationMemberDBResult>(
+      tableNames.organizationMember
+    )
+      .forUpdate()
+      .where({
+        user_address: signerAddress,
+      })
+      .first();
+    const member = memberDbResult
+      ? organizationMemberDBMap(memberDbResult)
+      : undefined;
+    const organization = member
+      ? await this.getLockedOrganization(member.organizationId, knexTransaction)
+      : undefined;
+
+    if (
+      paidBy.length === 0 &&
+      organization &&
+      wincAmount.isNonZeroPositiveInteger()
+    ) {
+      // Charge members' organization first when no payers are specified, with the signer's balance as overflow
+      paidBy = [organization.organizationId];
+    }
+
     const pendingSpend: {
       payingAddress: UserAddress;
       wincAmount: WC;
@@ -2348,6 +3066,33 @@ export class PostgresDatabase implements Database {
           continue;
         }
 
+        if (
+          organization &&
+          member &&
+          payingAddress === organization.organizationId
+        ) {
+          const spendableWinc = spendableOrganizationWinc(organization, member);
+          const organizationSpendAmount = spendableWinc.isGreaterThanOrEqualTo(
+            remainingWincAmount
+          )
+            ? remainingWincAmount
+            : spendableWinc;
+
+          remainingWincAmount = remainingWincAmount.minus(
+            organizationSpendAmount
+          );
+
+          if (!organizationSpendAmount.isZero()) {
+            pendingSpend.push({
+              payingAddress,
+              wincAmount: organizationSpendAmount,
+              delegatedApprovals: [],
+            });
+          }
+
+          continue;
+        }
+
         const approvalsFromPayer = receivedApprovals.filter(
           (approval) => approval.payingAddress === payingAddress
         );
@@ -2420,7 +3165,38 @@ export class PostgresDatabase implements Database {
       wincAmount,
       delegatedApprovals,
     } of pendingSpend) {
-      if (payingAddress !== signerAddress) {
+      if (
+        organization &&
+        member &&
+        payingAddress === organization.organizationId
+      ) {
+        await knexTransaction<OrganizationDBResult>(tableNames.organization)
+          .where({
+            organization_id: payingAddress,
+          })
+          .update({
+            winston_credit_balance: organization.winc
+              .minus(wincAmount)
+              .toString(),
+          });
+        await knexTransaction<OrganizationMemberDBResult>(
+          tableNames.organizationMember
+        )
+          .where({
+            user_address: signerAddress,
+          })
+          .update({
+            used_winc_amount: member.usedWincAmount.plus(wincAmount).toString(),
+          });
+
+        const auditLogInsert: AuditLogInsert = {
+          user_address: payingAddress,
+          winston_credit_amount: `-${wincAmount.toString()}`, // a negative value because this amount was withdrawn from the organization balance
+          change_reason: `organization_${changeReason}`,
+          change_id: changeId,
+        };
+        await knexTransaction(tableNames.auditLog).insert(auditLogInsert);
+      } else if (payingAddress !== signerAddress) {
         let remainingWincToCreditToApprovals = wincAmount;
 
         // Increment used_winc_amount on each approval, marking to "used" if the entire approval was used
@@ -2558,8 +3334,39 @@ export class PostgresDatabase implements Database {
       }
     }
 
+    if (payers.some(({ paying_address }) => paying_address !== signerAddress)) {
+      // Lock the signer and their membership before any organization they were charged through
+      await knexTransaction<UserDBResult>(tableNames.user)
+        .forUpdate()
+        .where({ user_address: signerAddress });
+      await knexTransaction<OrganizationMemberDBResult>(
+        tableNames.organizationMember
+      )
+        .forUpdate()
+        .where({ user_address: signerAddress });
+    }
+
     for (const { paying_address, winc_amount } of payers) {
-      if (paying_address !== signerAddress) {
+      const organization =
+        paying_address !== signerAddress
+          ? await knexTransaction<OrganizationDBResult>(tableNames.organization)
+              .forUpdate()
+              .where({
+                organization_id: paying_address,
+              })
+              .first()
+          : undefined;
+
+      if (organization) {
+        await this.refundWincToOrganization({
+          organization: organizationDBMap(organization),
+          signerAddress,
+          wincAmount: winc_amount,
+          changeId,
+          changeReason,
+          knexTransaction,
+        });
+      } else if (paying_address !== signerAddress) {
         let remainingWincToRefundToApprovals = winc_amount;
         const approvalsFromPayer =
           await this.safeGetApprovalsFromPayerForAddress(
@@ -2702,6 +3509,64 @@ export class PostgresDatabase implements Database {
     }
   }
 
+  private async refundWincToOrganization({
+    organization,
+    signerAddress,
+    wincAmount,
+    changeId,
+    changeReason,
+    knexTransaction,
+  }: {
+    organization: Organization;
+    signerAddress: UserAddress;
+    wincAmount: WC;
+    changeId: string;
+    changeReason: AuditChangeReason;
+    knexTransaction: KnexTransaction;
+  }): Promise<void> {
+    const { organizationId } = organization;
+    await knexTransaction<OrganizationDBResult>(tableNames.organization)
+      .where({
+        organization_id: organizationId,
+      })
+      .update({
+        winston_credit_balance: organization.winc.plus(wincAmount).toString(),
+      });
+
+    // Give the refunded winc back to the member's spending limit, unless they have since left the organization
+    const member = await knexTransaction<OrganizationMemberDBResult>(
+      tableNames.organizationMember
+    )
+      .forUpdate()
+      .where({
+        organization_id: organizationId,
+        user_address: signerAddress,
+      })
+      .first();
+    if (member) {
+      const newUsedWincAmount = W(member.used_winc_amount).minus(wincAmount);
+      await knexTransaction<OrganizationMemberDBResult>(
+        tableNames.organizationMember
+      )
+        .where({
+          user_address: signerAddress,
+        })
+        .update({
+          used_winc_amount: newUsedWincAmount.isNonZeroNegativeInteger()
+            ? "0"
+            : newUsedWincAmount.toString(),
+        });
+    }
+
+    const auditLogInsert: AuditLogInsert = {
+      user_address: organizationId,
+      winston_credit_amount: wincAmount.toString(),
+      change_reason: changeReason,
+      change_id: changeId,
+    };
+    await knexTransaction(tableNames.auditLog).insert(auditLogInsert);
+  }
+
   // x402 Payment Methods
 
   async createX402Payment(
@@ -0,0 +1,60 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import {
+  ADMIN_AUTH_CHALLENGE,
+  adminCredentialsFromEnv,
+  authenticateAdminRequest,
+} from "@ar-io-bundler/shared";
+import { Next } from "koa";
+
+import { KoaContext } from "../server";
+import { apiKeyAuth } from "./apiKeyAuth";
+
+/**
+ * Guards the admin routes with the Basic Auth credentials shared with the upload service admin
+ * routes, ADMIN_USERNAME (default: admin) and ADMIN_PASSWORD, or an admin scoped API key in the
+ * x-api-key header. Responds 503 while ADMIN_PASSWORD is unset
+ */
+export async function requireAdminAuth(ctx: KoaContext, next: Next) {
+  const adminCredentials = adminCredentialsFromEnv();
+  if (!adminCredentials) {
+    ctx.status = 503;
+    ctx.body = "Admin routes are not configured, ADMIN_PASSWORD must be set";
+    return;
+  }
+
+  if (typeof ctx.request.headers["x-api-key"] === "string") {
+    return apiKeyAuth("admin")(ctx, next);
+  }
+
+  if (
+    !authenticateAdminRequest(
+      ctx.request.headers.authorization,
+      adminCredentials
+    ).isAuthenticated
+  ) {
+    ctx.state.logger.warn("Failed admin authentication attempt.", {
+      ip: ctx.ip,
+    });
+    ctx.status = 401;
+    ctx.set("WWW-Authenticate", ADMIN_AUTH_CHALLENGE);
+    ctx.body = "Admin authentication required";
+    return;
+  }
+
+  return next();
+}
@@ -0,0 +1,76 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { Next } from "koa";
+
+import { ApiKeyScope } from "../database/dbTypes";
+import {
+  ApiKeyRateLimited,
+  ApiKeyScopeNotGranted,
+  InvalidApiKey,
+} from "../database/errors";
+import { KoaContext } from "../server";
+import { authenticateApiKey } from "../utils/apiKeys";
+
+export function respondWithApiKeyError(ctx: KoaContext, error: unknown) {
+  if (error instanceof InvalidApiKey) {
+    ctx.status = 401;
+    ctx.body = error.message;
+  } else if (error instanceof ApiKeyScopeNotGranted) {
+    ctx.status = 403;
+    ctx.body = error.message;
+  } else if (error instanceof ApiKeyRateLimited) {
+    ctx.status = 429;
+    ctx.set("Retry-After", "60");
+    ctx.body = error.message;
+  } else {
+    ctx.state.logger.error("Error authenticating API key", error);
+    ctx.status = 503;
+    ctx.body = "Cloud Database Unavailable";
+  }
+}
+
+/**
+ * Authenticates the x-api-key header for the scope, acting as the key's account on success.
+ * Requests without the header continue unauthenticated so routes can fall back to signed requests
+ */
+export function apiKeyAuth(scope: ApiKeyScope) {
+  return async function (ctx: KoaContext, next: Next) {
+    const rawApiKey = ctx.request.headers["x-api-key"];
+    if (typeof rawApiKey !== "string") {
+      return next();
+    }
+
+    try {
+      const apiKey = await authenticateApiKey({
+        paymentDatabase: ctx.state.paymentDatabase,
+        apiKey: rawApiKey,
+        scope,
+      });
+      ctx.state.apiKey = apiKey;
+      ctx.state.walletAddress = apiKey.userAddress;
+    } catch (error) {
+      ctx.state.logger.warn("API key authentication failed.", {
+        scope,
+        reason: error instanceof Error ? error.message : error,
+      });
+      respondWithApiKeyError(ctx, error);
+      return;
+    }
+
+    return next();
+  };
+}
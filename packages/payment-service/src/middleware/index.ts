@@ -14,6 +14,8 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
+export * from "./adminAuth";
+export * from "./apiKeyAuth";
 export * from "./architecture";
 export * from "./logger";
 export * from "./verifySignature";
@@ -14,84 +14,51 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
-import { SignatureConfig } from "@dha-team/arbundles";
+import {
+  SERVICE_NAMES,
+  authenticateSignedRequest,
+} from "@ar-io-bundler/shared";
 import jwt from "jsonwebtoken";
 import { Context, Next } from "koa";
 import winston from "winston";
 
-import { verifySigAndGetNativeAddress } from "../utils/verifyArweaveSignature";
+import { acceptLegacyRequestNonces, requestNonceTtlMs } from "../constants";
+import { Database } from "../database/database";
 
 // You should use a secure and secret key for JWT token generation
 const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
 
 export async function verifySignature(ctx: Context, next: Next): Promise<void> {
-  const signature = ctx.request.headers["x-signature"] as string;
-  const rawSigType = ctx.request.headers["x-signature-type"] as
-    | string
-    | undefined;
-  const publicKey = ctx.request.headers["x-public-key"] as string;
-  const nonce = ctx.request.headers["x-nonce"] as string;
+  const publicKey = ctx.request.headers["x-public-key"];
+  const nonce = ctx.request.headers["x-nonce"];
   const logger = (ctx.state.logger as winston.Logger).child({
-    signature,
     publicKey,
     nonce,
   });
 
   try {
-    let signatureType: number;
-    if (rawSigType) {
-      signatureType = +rawSigType;
-      if (isNaN(signatureType)) {
-        logger.debug("Invalid signature type", { rawSigType });
-        return next();
-      }
-    } else {
-      signatureType = SignatureConfig.ARWEAVE;
-    }
-
-    const supportedSignatureTypes: SignatureConfig[] = [
-      SignatureConfig.ARWEAVE,
-      SignatureConfig.ETHEREUM,
-    ];
-    if (
-      !signature ||
-      !publicKey ||
-      !nonce ||
-      supportedSignatureTypes.indexOf(signatureType as SignatureConfig) === -1
-    ) {
-      logger.debug(
-        "Missing signature, public key, nonce, or unsupported token.",
-        {
-          signature: !!signature,
-          publicKey: !!publicKey,
-          nonce: !!nonce,
-          signatureType,
-          supportedSignatureTypes,
-        }
-      );
-      return next();
-    }
-
-    const maybeWalletAddress = await verifySigAndGetNativeAddress({
-      signatureType,
-      publicKey,
-      signature,
-      // TODO: Verify from additional DATA on POST
-      additionalData: undefined,
-      nonce: nonce,
+    const authentication = await authenticateSignedRequest({
+      headers: ctx.request.headers,
+      service: SERVICE_NAMES.PAYMENT,
+      // Used nonces are recorded so a captured signed request cannot be replayed
+      nonceStore: ctx.state.paymentDatabase as Database,
+      nonceTtlMs: requestNonceTtlMs,
+      acceptLegacyNonces: acceptLegacyRequestNonces,
     });
 
-    const isVerified = maybeWalletAddress !== false;
-
     logger.debug("Signature verification result computed.", {
-      isVerified,
-      maybeWalletAddress,
+      isVerified: authentication.isAuthenticated,
+      reason: authentication.isAuthenticated
+        ? undefined
+        : authentication.reason,
     });
 
-    if (isVerified) {
+    if (authentication.isAuthenticated) {
       // Attach wallet address for the next middleware
-      ctx.state.walletAddress = maybeWalletAddress;
-      ctx.state.nonce = nonce;
+      ctx.state.walletAddress = authentication.nativeAddress;
+      ctx.state.signatureType = authentication.signatureType;
+      // Signed write actions use the unique part of the nonce, such as an ArNS purchase's UUID
+      ctx.state.nonce = authentication.nonceId;
       // Generate a JWT token for subsequent requests
       logger.debug("Generating JWT token for wallet.", {
         wallet: ctx.state.walletAddress,
@@ -17,8 +17,32 @@
 import Router from "koa-router";
 import * as promClient from "prom-client";
 
-import { addressFromQuery, verifySignature } from "./middleware";
+import {
+  addressFromQuery,
+  apiKeyAuth,
+  requireAdminAuth,
+  verifySignature,
+} from "./middleware";
+import {
+  accountLedgerRoute,
+  accountStatementRoute,
+} from "./routes/accountLedger";
 import { addPendingPaymentTx } from "./routes/addPendingPaymentTx";
+import {
+  createAdminAdjustmentCatalog,
+  expireAdminAdjustmentCatalog,
+  getAdminAdjustmentCatalog,
+  getAdminAdjustmentCatalogs,
+  updateAdminAdjustmentCatalog,
+} from "./routes/adminAdjustmentCatalogs";
+import {
+  createAdminApiKeyRoute,
+  createApiKeyRoute,
+  currentApiKeyRoute,
+  getApiKeysRoute,
+  revokeAdminApiKeyRoute,
+  revokeApiKeyRoute,
+} from "./routes/apiKeys";
 import { arnsPurchaseQuote } from "./routes/arnsPurchaseQuote";
 import { arweaveCompatiblePrice } from "./routes/arweaveCompatiblePrice";
 import { balanceRoute } from "./routes/balance";
@@ -31,6 +55,15 @@ import { getApprovals } from "./routes/getApprovals";
 import { getArNSPurchaseStatus } from "./routes/getArNSPurchaseStatus";
 import { rootResponse } from "./routes/info";
 import { initiateArNSPurchase } from "./routes/initiateArNSPurchase";
+import {
+  addOrganizationMemberRoute,
+  createOrganizationRoute,
+  depositToOrganizationRoute,
+  getOrganizationRoute,
+  getOrganizationsRoute,
+  removeOrganizationMemberRoute,
+  updateOrganizationMemberRoute,
+} from "./routes/organizations";
 import { priceArNSPurchaseHandler } from "./routes/priceArNSName";
 import { priceRoutes } from "./routes/priceRoutes";
 import { fiatToArRateHandler, ratesHandler } from "./routes/rates";
@@ -88,10 +121,48 @@ router.get(
 
 router.get("/v1/redeem", redeem);
 
-// TODO: Add API for admin routes that create and manage promotions
+// Admin routes for the upload, payment and promo code adjustment catalogs
+const adminAdjustmentCatalogsRoute = "/v1/admin/adjustments/:catalogType";
+router.get(
+  adminAdjustmentCatalogsRoute,
+  requireAdminAuth,
+  getAdminAdjustmentCatalogs
+);
+router.post(
+  adminAdjustmentCatalogsRoute,
+  requireAdminAuth,
+  createAdminAdjustmentCatalog
+);
+router.get(
+  `${adminAdjustmentCatalogsRoute}/:catalogId`,
+  requireAdminAuth,
+  getAdminAdjustmentCatalog
+);
+router.patch(
+  `${adminAdjustmentCatalogsRoute}/:catalogId`,
+  requireAdminAuth,
+  updateAdminAdjustmentCatalog
+);
+router.delete(
+  `${adminAdjustmentCatalogsRoute}/:catalogId`,
+  requireAdminAuth,
+  expireAdminAdjustmentCatalog
+);
+
+router.post("/v1/admin/api-keys", requireAdminAuth, createAdminApiKeyRoute);
+router.delete(
+  "/v1/admin/api-keys/:apiKeyId",
+  requireAdminAuth,
+  revokeAdminApiKeyRoute
+);
 
 router.post("/v1/stripe-webhook", stripeRoute);
-router.get("/v1/balance", verifySignature, balanceRoute);
+router.get(
+  "/v1/balance",
+  apiKeyAuth("read_balance"),
+  verifySignature,
+  balanceRoute
+);
 router.get("/v1/currencies", currenciesRoute);
 router.get("/v1/countries", countriesHandler);
 router.get("/v1/rates", ratesHandler);
@@ -125,12 +196,68 @@ router.get(
 );
 router.get("/v1/account/approvals/get", getAllApprovals);
 
+router.get(
+  "/v1/account/ledger",
+  apiKeyAuth("read_balance"),
+  verifySignature,
+  accountLedgerRoute
+);
+router.get(
+  "/v1/account/statement/:month",
+  apiKeyAuth("read_balance"),
+  verifySignature,
+  accountStatementRoute
+);
+
+// API key routes, managed by the signing wallet. Keys cannot manage other keys
+router.get("/v1/api-keys", verifySignature, getApiKeysRoute);
+router.post("/v1/api-keys", verifySignature, createApiKeyRoute);
+router.get("/v1/api-keys/current", currentApiKeyRoute);
+router.delete("/v1/api-keys/:apiKeyId", verifySignature, revokeApiKeyRoute);
+
+// Organization routes, signed by a member wallet
+router.get("/v1/organizations", verifySignature, getOrganizationsRoute);
+router.post("/v1/organizations", verifySignature, createOrganizationRoute);
+router.get(
+  "/v1/organizations/:organizationId",
+  verifySignature,
+  getOrganizationRoute
+);
+router.post(
+  "/v1/organizations/:organizationId/members",
+  verifySignature,
+  addOrganizationMemberRoute
+);
+router.patch(
+  "/v1/organizations/:organizationId/members/:userAddress",
+  verifySignature,
+  updateOrganizationMemberRoute
+);
+router.delete(
+  "/v1/organizations/:organizationId/members/:userAddress",
+  verifySignature,
+  removeOrganizationMemberRoute
+);
+router.post(
+  "/v1/organizations/:organizationId/deposit",
+  verifySignature,
+  depositToOrganizationRoute
+);
+
 // Protected routes
 router.get("/v1/reserve-balance/:token/:signerAddress", reserveBalance);
 router.get("/v1/refund-balance/:token/:signerAddress", refundBalance);
 router.get("/v1/check-balance/:token/:signerAddress", checkBalance);
-router.get("/v1/account/approvals/create", createApproval);
-router.get("/v1/account/approvals/revoke", revokeApprovals);
+router.get(
+  "/v1/account/approvals/create",
+  apiKeyAuth("create_approvals"),
+  createApproval
+);
+router.get(
+  "/v1/account/approvals/revoke",
+  apiKeyAuth("create_approvals"),
+  revokeApprovals
+);
 
 // x402 Payment Routes
 router.get("/v1/x402/price/:signatureType/:address", x402PriceRoute);
@@ -0,0 +1,155 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { Next } from "koa";
+
+import { AuditStatement } from "../database/dbTypes";
+import { BadRequest } from "../database/errors";
+import { KoaContext } from "../server";
+import {
+  getValidatedAccountLedgerParams,
+  getValidatedAccountStatementParams,
+} from "../utils/validators";
+
+export async function accountLedgerRoute(ctx: KoaContext, next: Next) {
+  const { paymentDatabase, logger, walletAddress } = ctx.state;
+
+  if (!walletAddress) {
+    ctx.status = 403;
+    ctx.body = "Invalid signature or missing required headers";
+    return next();
+  }
+
+  try {
+    const { limit, ...ledgerParams } = getValidatedAccountLedgerParams(ctx);
+
+    // Fetch one extra entry to learn whether another page exists
+    const ledgerEntries = await paymentDatabase.getAuditLedger({
+      ...ledgerParams,
+      userAddress: walletAddress,
+      limit: limit + 1,
+    });
+    const entries = ledgerEntries.slice(0, limit);
+    const hasMore = ledgerEntries.length > limit;
+
+    ctx.body = {
+      entries: entries.map((entry) => ({
+        auditId: entry.auditId,
+        date: entry.auditDate,
+        changeReason: entry.changeReason,
+        changeId: entry.changeId,
+        winc: entry.wincAmount.toString(),
+        balance: entry.runningBalance.toString(),
+      })),
+      nextCursor: hasMore
+        ? entries[entries.length - 1].auditId.toString()
+        : undefined,
+    };
+  } catch (error) {
+    if (error instanceof BadRequest) {
+      ctx.response.status = 400;
+      ctx.body = error.message;
+    } else {
+      logger.error("Error getting account ledger", error, {
+        walletAddress,
+        query: ctx.query,
+      });
+      ctx.response.status = 503;
+      ctx.body = "Cloud Database Unavailable";
+    }
+  }
+
+  return next();
+}
+
+export async function accountStatementRoute(ctx: KoaContext, next: Next) {
+  const { paymentDatabase, logger, walletAddress } = ctx.state;
+
+  if (!walletAddress) {
+    ctx.status = 403;
+    ctx.body = "Invalid signature or missing required headers";
+    return next();
+  }
+
+  try {
+    const { month, fromDate, toDate, format } =
+      getValidatedAccountStatementParams(ctx);
+
+    const statement = await paymentDatabase.getAuditStatement({
+      userAddress: walletAddress,
+      fromDate,
+      toDate,
+    });
+
+    if (format === "csv") {
+      ctx.set("Content-Type", "text/csv");
+      ctx.set(
+        "Content-Disposition",
+        `attachment; filename="statement-${month}.csv"`
+      );
+      ctx.body = statementToCsv(statement);
+    } else {
+      ctx.body = {
+        month,
+        fromDate,
+        toDate,
+        openingBalance: statement.openingBalance.toString(),
+        closingBalance: statement.closingBalance.toString(),
+        reasons: statement.reasons.map((reason) => ({
+          changeReason: reason.changeReason,
+          entryCount: reason.entryCount,
+          creditedWinc: reason.creditedWinc.toString(),
+          debitedWinc: reason.debitedWinc.toString(),
+          netWinc: reason.netWinc.toString(),
+        })),
+      };
+    }
+  } catch (error) {
+    if (error instanceof BadRequest) {
+      ctx.response.status = 400;
+      ctx.body = error.message;
+    } else {
+      logger.error("Error getting account statement", error, {
+        walletAddress,
+        params: ctx.params,
+      });
+      ctx.response.status = 503;
+      ctx.body = "Cloud Database Unavailable";
+    }
+  }
+
+  return next();
+}
+
+function statementToCsv({
+  openingBalance,
+  closingBalance,
+  reasons,
+}: AuditStatement): string {
+  const rows = [
+    ["reason", "entry_count", "credited_winc", "debited_winc", "net_winc"],
+    ["opening_balance", "", "", "", openingBalance.toString()],
+    ...reasons.map((reason) => [
+      reason.changeReason,
+      reason.entryCount.toString(),
+      reason.creditedWinc.toString(),
+      reason.debitedWinc.toString(),
+      reason.netWinc.toString(),
+    ]),
+    ["closing_balance", "", "", "", closingBalance.toString()],
+  ];
+  return rows.map((row) => row.join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,237 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { randomInt, randomUUID } from "crypto";
+import { Next } from "koa";
+
+import { generatedPromoCodeLength } from "../constants";
+import { AdjustmentCatalogsByType } from "../database/dbTypes";
+import {
+  AdjustmentCatalogNotFound,
+  BadRequest,
+  PromoCodeAlreadyExists,
+} from "../database/errors";
+import { KoaContext } from "../server";
+import {
+  getValidatedAdjustmentCatalog,
+  getValidatedAdjustmentCatalogType,
+  getValidatedPromoCodeGeneration,
+} from "../utils/validators";
+
+// Leaves out characters that are easily confused with one another, e.g. O and 0
+const promoCodeCharacters = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function generatePromoCodes(codeCount: number, codePrefix: string): string[] {
+  const codes = new Set<string>();
+  while (codes.size < codeCount) {
+    let code = codePrefix;
+    for (let i = 0; i < generatedPromoCodeLength; i++) {
+      code += promoCodeCharacters[randomInt(promoCodeCharacters.length)];
+    }
+    codes.add(code);
+  }
+  return [...codes];
+}
+
+function handleAdjustmentCatalogError(
+  ctx: KoaContext,
+  error: unknown,
+  logMessage: string
+) {
+  if (error instanceof BadRequest) {
+    ctx.response.status = 400;
+    ctx.body = error.message;
+  } else if (error instanceof AdjustmentCatalogNotFound) {
+    ctx.response.status = 404;
+    ctx.body = error.message;
+  } else if (error instanceof PromoCodeAlreadyExists) {
+    ctx.response.status = 409;
+    ctx.body = error.message;
+  } else {
+    ctx.state.logger.error(logMessage, error, {
+      params: ctx.params,
+    });
+    ctx.response.status = 503;
+    ctx.body = "Cloud Database Unavailable";
+  }
+}
+
+export async function getAdminAdjustmentCatalogs(ctx: KoaContext, next: Next) {
+  try {
+    const catalogType = getValidatedAdjustmentCatalogType(ctx);
+    ctx.body = await ctx.state.paymentDatabase.getAdjustmentCatalogs(
+      catalogType,
+      ctx.query.active === "true"
+    );
+  } catch (error) {
+    handleAdjustmentCatalogError(
+      ctx,
+      error,
+      "Error getting adjustment catalogs"
+    );
+  }
+
+  return next();
+}
+
+export async function getAdminAdjustmentCatalog(ctx: KoaContext, next: Next) {
+  try {
+    const catalogType = getValidatedAdjustmentCatalogType(ctx);
+    ctx.body = await ctx.state.paymentDatabase.getAdjustmentCatalog(
+      catalogType,
+      ctx.params.catalogId
+    );
+  } catch (error) {
+    handleAdjustmentCatalogError(
+      ctx,
+      error,
+      "Error getting adjustment catalog"
+    );
+  }
+
+  return next();
+}
+
+export async function createAdminAdjustmentCatalog(
+  ctx: KoaContext,
+  next: Next
+) {
+  const { paymentDatabase, logger } = ctx.state;
+
+  try {
+    const catalogType = getValidatedAdjustmentCatalogType(ctx);
+    const body = (ctx.request as { body?: Record<string, unknown> }).body ?? {};
+
+    const codeGeneration =
+      catalogType === "promo-code"
+        ? getValidatedPromoCodeGeneration(body)
+        : undefined;
+    const catalogBodies = codeGeneration
+      ? generatePromoCodes(
+          codeGeneration.codeCount,
+          codeGeneration.codePrefix
+        ).map((codeValue) => ({ ...body, codeValue }))
+      : [body];
+
+    // Each promo code gets its own catalog as max uses are counted per catalog
+    const catalogs = catalogBodies.map(
+      (catalogBody) =>
+        ({
+          catalogId: randomUUID(),
+          ...getValidatedAdjustmentCatalog(catalogType, catalogBody),
+        } as AdjustmentCatalogsByType[typeof catalogType])
+    );
+
+    await paymentDatabase.createAdjustmentCatalogs(catalogType, catalogs);
+    logger.info("Created adjustment catalogs", {
+      catalogType,
+      catalogIds: catalogs.map(({ catalogId }) => catalogId),
+    });
+
+    ctx.response.status = 201;
+    ctx.body = codeGeneration ? catalogs : catalogs[0];
+  } catch (error) {
+    handleAdjustmentCatalogError(
+      ctx,
+      error,
+      "Error creating adjustment catalog"
+    );
+  }
+
+  return next();
+}
+
+export async function updateAdminAdjustmentCatalog(
+  ctx: KoaContext,
+  next: Next
+) {
+  const { paymentDatabase, logger } = ctx.state;
+
+  try {
+    const catalogType = getValidatedAdjustmentCatalogType(ctx);
+    const existingCatalog = await paymentDatabase.getAdjustmentCatalog(
+      catalogType,
+      ctx.params.catalogId
+    );
+
+    const catalog = {
+      catalogId: existingCatalog.catalogId,
+      ...getValidatedAdjustmentCatalog(
+        catalogType,
+        (ctx.request as { body?: unknown }).body,
+        existingCatalog
+      ),
+    } as AdjustmentCatalogsByType[typeof catalogType];
+
+    await paymentDatabase.updateAdjustmentCatalog(catalogType, catalog);
+    logger.info("Updated adjustment catalog", {
+      catalogType,
+      catalogId: catalog.catalogId,
+    });
+
+    ctx.body = catalog;
+  } catch (error) {
+    handleAdjustmentCatalogError(
+      ctx,
+      error,
+      "Error updating adjustment catalog"
+    );
+  }
+
+  return next();
+}
+
+/**
+ * Ends an adjustment catalog now rather than deleting it, so the adjustments it already applied to
+ * payments and uploads keep pointing to an existing catalog
+ */
+export async function expireAdminAdjustmentCatalog(
+  ctx: KoaContext,
+  next: Next
+) {
+  const { paymentDatabase, logger } = ctx.state;
+
+  try {
+    const catalogType = getValidatedAdjustmentCatalogType(ctx);
+    const catalog = await paymentDatabase.getAdjustmentCatalog(
+      catalogType,
+      ctx.params.catalogId
+    );
+
+    const now = new Date();
+    if (!catalog.endDate || new Date(catalog.endDate) > now) {
+      // A catalog that has not started yet ends as soon as it starts
+      const startDate = new Date(catalog.startDate);
+      catalog.endDate = (startDate > now ? startDate : now).toISOString();
+
+      await paymentDatabase.updateAdjustmentCatalog(catalogType, catalog);
+      logger.info("Expired adjustment catalog", {
+        catalogType,
+        catalogId: catalog.catalogId,
+      });
+    }
+
+    ctx.body = catalog;
+  } catch (error) {
+    handleAdjustmentCatalogError(
+      ctx,
+      error,
+      "Error expiring adjustment catalog"
+    );
+  }
+
+  return next();
+}
@@ -0,0 +1,214 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { Next } from "koa";
+
+import { ApiKeyNotFound, BadRequest } from "../database/errors";
+import { respondWithApiKeyError } from "../middleware/apiKeyAuth";
+import { KoaContext } from "../server";
+import {
+  apiKeyResponse,
+  authenticateApiKey,
+  generateApiKey,
+} from "../utils/apiKeys";
+import {
+  getSignerAddressType,
+  getValidatedApiKeyScope,
+  getValidatedCreateAdminApiKeyParams,
+  getValidatedCreateApiKeyParams,
+} from "../utils/validators";
+
+function handleApiKeyError(
+  ctx: KoaContext,
+  error: unknown,
+  logMessage: string
+) {
+  if (error instanceof BadRequest) {
+    ctx.response.status = 400;
+    ctx.body = error.message;
+  } else if (error instanceof ApiKeyNotFound) {
+    ctx.response.status = 404;
+    ctx.body = error.message;
+  } else {
+    ctx.state.logger.error(logMessage, error, {
+      walletAddress: ctx.state.walletAddress,
+      params: ctx.params,
+    });
+    ctx.response.status = 503;
+    ctx.body = "Cloud Database Unavailable";
+  }
+}
+
+/** Issues an API key to the signer. The key is only included in this response */
+export async function createApiKeyRoute(ctx: KoaContext, next: Next) {
+  const { paymentDatabase, logger, walletAddress } = ctx.state;
+
+  if (!walletAddress) {
+    ctx.status = 403;
+    ctx.body = "Invalid signature or missing required headers";
+    return next();
+  }
+
+  try {
+    const params = getValidatedCreateApiKeyParams(ctx);
+    const { apiKeyId, hashedSecret, apiKey } = generateApiKey();
+
+    const createdApiKey = await paymentDatabase.createApiKey({
+      apiKeyId,
+      hashedSecret,
+      userAddress: walletAddress,
+      userAddressType: getSignerAddressType(ctx.state.signatureType),
+      ...params,
+    });
+    logger.info("Created API key", {
+      apiKeyId,
+      scopes: createdApiKey.scopes,
+      walletAddress,
+    });
+
+    ctx.status = 201;
+    ctx.body = { ...apiKeyResponse(createdApiKey), apiKey };
+  } catch (error) {
+    handleApiKeyError(ctx, error, "Error creating API key");
+  }
+
+  return next();
+}
+
+export async function getApiKeysRoute(ctx: KoaContext, next: Next) {
+  const { paymentDatabase, walletAddress } = ctx.state;
+
+  if (!walletAddress) {
+    ctx.status = 403;
+    ctx.body = "Invalid signature or missing required headers";
+    return next();
+  }
+
+  try {
+    const apiKeys = await paymentDatabase.getApiKeys(walletAddress);
+    ctx.body = apiKeys.map(apiKeyResponse);
+  } catch (error) {
+    handleApiKeyError(ctx, error, "Error getting API keys");
+  }
+
+  return next();
+}
+
+export async function revokeApiKeyRoute(ctx: KoaContext, next: Next) {
+  const { paymentDatabase, logger, walletAddress } = ctx.state;
+
+  if (!walletAddress) {
+    ctx.status = 403;
+    ctx.body = "Invalid signature or missing required headers";
+    return next();
+  }
+
+  try {
+    const apiKey = await paymentDatabase.revokeApiKey({
+      apiKeyId: ctx.params.apiKeyId,
+      userAddress: walletAddress,
+    });
+    logger.info("Revoked API key", {
+      apiKeyId: apiKey.apiKeyId,
+      walletAddress,
+    });
+
+    ctx.body = apiKeyResponse(apiKey);
+  } catch (error) {
+    handleApiKeyError(ctx, error, "Error revoking API key");
+  }
+
+  return next();
+}
+
+/** Issues an API key to any account, including admin scoped keys */
+export async function createAdminApiKeyRoute(ctx: KoaContext, next: Next) {
+  const { paymentDatabase, logger } = ctx.state;
+
+  try {
+    const params = getValidatedCreateAdminApiKeyParams(ctx);
+    const { apiKeyId, hashedSecret, apiKey } = generateApiKey();
+
+    const createdApiKey = await paymentDatabase.createApiKey({
+      apiKeyId,
+      hashedSecret,
+      ...params,
+    });
+    logger.info("Admin created API key", {
+      apiKeyId,
+      scopes: createdApiKey.scopes,
+      userAddress: createdApiKey.userAddress,
+    });
+
+    ctx.status = 201;
+    ctx.body = { ...apiKeyResponse(createdApiKey), apiKey };
+  } catch (error) {
+    handleApiKeyError(ctx, error, "Error creating API key");
+  }
+
+  return next();
+}
+
+export async function revokeAdminApiKeyRoute(ctx: KoaContext, next: Next) {
+  const { paymentDatabase, logger } = ctx.state;
+
+  try {
+    const apiKey = await paymentDatabase.revokeApiKey({
+      apiKeyId: ctx.params.apiKeyId,
+    });
+    logger.info("Admin revoked API key", {
+      apiKeyId: apiKey.apiKeyId,
+      userAddress: apiKey.userAddress,
+    });
+
+    ctx.body = apiKeyResponse(apiKey);
+  } catch (error) {
+    handleApiKeyError(ctx, error, "Error revoking API key");
+  }
+
+  return next();
+}
+
+/**
+ * Authenticates the x-api-key header for the scope in the query and describes the key. Used by
+ * the upload service to accept API keys, which counts toward the key's rate limit
+ */
+export async function currentApiKeyRoute(ctx: KoaContext, next: Next) {
+  const rawApiKey = ctx.request.headers["x-api-key"];
+  if (typeof rawApiKey !== "string") {
+    ctx.status = 401;
+    ctx.body = "Missing x-api-key header";
+    return next();
+  }
+
+  try {
+    const apiKey = await authenticateApiKey({
+      paymentDatabase: ctx.state.paymentDatabase,
+      apiKey: rawApiKey,
+      scope: getValidatedApiKeyScope(ctx.query.scope),
+    });
+    ctx.body = apiKeyResponse(apiKey);
+  } catch (error) {
+    if (error instanceof BadRequest) {
+      ctx.status = 400;
+      ctx.body = error.message;
+    } else {
+      respondWithApiKeyError(ctx, error);
+    }
+  }
+
+  return next();
+}
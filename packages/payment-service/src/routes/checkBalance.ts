@@ -26,7 +26,10 @@ import {
 import { FinalPrice } from "../pricing/price";
 import { KoaContext } from "../server";
 import { W } from "../types";
-import { remainingWincAmountFromApprovals } from "../utils/common";
+import {
+  remainingWincAmountFromApprovals,
+  spendableOrganizationWinc,
+} from "../utils/common";
 import { getValidatedCheckBalanceParams } from "../utils/validators";
 
 export async function checkBalance(ctx: KoaContext, next: Next) {
@@ -54,7 +57,30 @@ export async function checkBalance(ctx: KoaContext, next: Next) {
     if (finalPrice.winc.isZero() === false) {
       let remainingWincToCheckBalanceFor = finalPrice.winc;
 
+      if (paidBy.length === 0) {
+        // Uploads of organization members are charged to their organization first
+        const member = await paymentDatabase.getOrganizationMembership(
+          signerAddress
+        );
+        if (member) {
+          const organization = await paymentDatabase.getOrganization(
+            member.organizationId
+          );
+          const spendableWinc = spendableOrganizationWinc(organization, member);
+          remainingWincToCheckBalanceFor = spendableWinc.isGreaterThan(
+            remainingWincToCheckBalanceFor
+          )
+            ? W("0")
+            : remainingWincToCheckBalanceFor.minus(spendableWinc);
+        }
+      }
+
       for (const payingAddress of payers) {
+        if (!remainingWincToCheckBalanceFor.isNonZeroPositiveInteger()) {
+          // The organization or approvals already cover the cost, the signer may not even have a balance
+          break;
+        }
+
         if (payingAddress !== signerAddress) {
           const { givenApprovals } = await paymentDatabase.getBalance(
             payingAddress
@@ -24,6 +24,7 @@ import {
 } from "../database/errors";
 import { KoaContext } from "../server";
 import {
+  assertApiKeyCanActFor,
   assertAuthorizedRoute,
   getValidatedCreateApprovalParams,
 } from "../utils/validators";
@@ -34,8 +35,11 @@ export async function createApproval(ctx: KoaContext, next: Next) {
   try {
     assertAuthorizedRoute(ctx);
 
+    const approvalParams = getValidatedCreateApprovalParams(ctx);
+    assertApiKeyCanActFor(ctx, approvalParams.payingAddress);
+
     const approval = await paymentDatabase.createDelegatedPaymentApproval(
-      getValidatedCreateApprovalParams(ctx)
+      approvalParams
     );
     ctx.response.status = 200;
     ctx.response.message = "Approval created";
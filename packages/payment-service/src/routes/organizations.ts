@@ -0,0 +1,347 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { randomUUID } from "crypto";
+import { Next } from "koa";
+
+import { Organization, OrganizationMember } from "../database/dbTypes";
+import {
+  BadRequest,
+  InsufficientBalance,
+  OrganizationMemberAlreadyExists,
+  OrganizationMemberNotFound,
+  OrganizationNotFound,
+  Unauthorized,
+  UserNotFoundWarning,
+} from "../database/errors";
+import { KoaContext } from "../server";
+import {
+  getSignerAddressType,
+  getValidatedAddOrganizationMemberParams,
+  getValidatedCreateOrganizationParams,
+  getValidatedOrganizationDepositParams,
+  getValidatedOrganizationMemberAddressParam,
+  getValidatedUpdateOrganizationMemberParams,
+} from "../utils/validators";
+
+function organizationResponse(organization: Organization) {
+  return {
+    organizationId: organization.organizationId,
+    name: organization.organizationName,
+    winc: organization.winc.toString(),
+    creationDate: organization.creationDate,
+  };
+}
+
+function organizationMemberResponse(member: OrganizationMember) {
+  return {
+    address: member.userAddress,
+    addressType: member.userAddressType,
+    role: member.role,
+    wincSpendingLimit: member.wincSpendingLimit?.toString(),
+    usedWinc: member.usedWincAmount.toString(),
+    creationDate: member.creationDate,
+  };
+}
+
+/**
+ * Gets the signer's membership in the organization of the route. Organizations are reported
+ * as not found to wallets outside of them
+ */
+async function getSignerMembership(
+  ctx: KoaContext,
+  signerAddress: string,
+  { adminOnly = false }: { adminOnly?: boolean } = {}
+): Promise<OrganizationMember> {
+  const { organizationId } = ctx.params;
+  const member = await ctx.state.paymentDatabase.getOrganizationMembership(
+    signerAddress
+  );
+
+  if (!member || member.organizationId !== organizationId) {
+    throw new OrganizationNotFound(organizationId);
+  }
+  if (adminOnly && member.role !== "admin") {
+    throw new Unauthorized("Only organization admins can manage members");
+  }
+  return member;
+}
+
+function handleOrganizationError(
+  ctx: KoaContext,
+  error: unknown,
+  logMessage: string
+) {
+  if (error instanceof BadRequest) {
+    ctx.response.status = 400;
+    ctx.body = error.message;
+  } else if (
+    error instanceof InsufficientBalance ||
+    error instanceof UserNotFoundWarning
+  ) {
+    ctx.response.status = 402;
+    ctx.body = error.message;
+  } else if (error instanceof Unauthorized) {
+    ctx.response.status = 403;
+    ctx.body = error.message;
+  } else if (
+    error instanceof OrganizationNotFound ||
+    error instanceof OrganizationMemberNotFound
+  ) {
+    ctx.response.status = 404;
+    ctx.body = error.message;
+  } else if (error instanceof OrganizationMemberAlreadyExists) {
+    ctx.response.status = 409;
+    ctx.body = error.message;
+  } else {
+    ctx.state.logger.error(logMessage, error, {
+      walletAddress: ctx.state.walletAddress,
+      params: ctx.params,
+    });
+    ctx.response.status = 503;
+    ctx.body = "Cloud Database Unavailable";
+  }
+}
+
+export async function createOrganizationRoute(ctx: KoaContext, next: Next) {
+  const { paymentDatabase, logger, walletAddress } = ctx.state;
+
+  if (!walletAddress) {
+    ctx.status = 403;
+    ctx.body = "Invalid signature or missing required headers";
+    return next();
+  }
+
+  try {
+    const { organizationName } = getValidatedCreateOrganizationParams(ctx);
+
+    const organization = await paymentDatabase.createOrganization({
+      organizationId: randomUUID(),
+      organizationName,
+      adminAddress: walletAddress,
+      adminAddressType: getSignerAddressType(ctx.state.signatureType),
+    });
+    logger.info("Created organization", {
+      organizationId: organization.organizationId,
+      walletAddress,
+    });
+
+    ctx.status = 201;
+    ctx.body = organizationResponse(organization);
+  } catch (error) {
+    handleOrganizationError(ctx, error, "Error creating organization");
+  }
+
+  return next();
+}
+
+/** Lists the organization of the signer, a wallet belongs to at most one */
+export async function getOrganizationsRoute(ctx: KoaContext, next: Next) {
+  const { paymentDatabase, walletAddress } = ctx.state;
+
+  if (!walletAddress) {
+    ctx.status = 403;
+    ctx.body = "Invalid signature or missing required headers";
+    return next();
+  }
+
+  try {
+    const member = await paymentDatabase.getOrganizationMembership(
+      walletAddress
+    );
+    const organization = member
+      ? await paymentDatabase.getOrganization(member.organizationId)
+      : undefined;
+
+    ctx.body =
+      member && organization
+        ? [{ ...organizationResponse(organization), role: member.role }]
+        : [];
+  } catch (error) {
+    handleOrganizationError(ctx, error, "Error getting organizations");
+  }
+
+  return next();
+}
+
+export async function getOrganizationRoute(ctx: KoaContext, next: Next) {
+  const { paymentDatabase, walletAddress } = ctx.state;
+
+  if (!walletAddress) {
+    ctx.status = 403;
+    ctx.body = "Invalid signature or missing required headers";
+    return next();
+  }
+
+  try {
+    const { organizationId } = await getSignerMembership(ctx, walletAddress);
+
+    const [organization, members] = await Promise.all([
+      paymentDatabase.getOrganization(organizationId),
+      paymentDatabase.getOrganizationMembers(organizationId),
+    ]);
+
+    ctx.body = {
+      ...organizationResponse(organization),
+      members: members.map(organizationMemberResponse),
+    };
+  } catch (error) {
+    handleOrganizationError(ctx, error, "Error getting organization");
+  }
+
+  return next();
+}
+
+export async function addOrganizationMemberRoute(ctx: KoaContext, next: Next) {
+  const { paymentDatabase, logger, walletAddress } = ctx.state;
+
+  if (!walletAddress) {
+    ctx.status = 403;
+    ctx.body = "Invalid signature or missing required headers";
+    return next();
+  }
+
+  try {
+    const { organizationId } = await getSignerMembership(ctx, walletAddress, {
+      adminOnly: true,
+    });
+
+    const member = await paymentDatabase.addOrganizationMember({
+      organizationId,
+      ...getValidatedAddOrganizationMemberParams(ctx),
+    });
+    logger.info("Added organization member", {
+      organizationId,
+      memberAddress: member.userAddress,
+      role: member.role,
+      walletAddress,
+    });
+
+    ctx.status = 201;
+    ctx.body = organizationMemberResponse(member);
+  } catch (error) {
+    handleOrganizationError(ctx, error, "Error adding organization member");
+  }
+
+  return next();
+}
+
+export async function updateOrganizationMemberRoute(
+  ctx: KoaContext,
+  next: Next
+) {
+  const { paymentDatabase, logger, walletAddress } = ctx.state;
+
+  if (!walletAddress) {
+    ctx.status = 403;
+    ctx.body = "Invalid signature or missing required headers";
+    return next();
+  }
+
+  try {
+    const { organizationId } = await getSignerMembership(ctx, walletAddress, {
+      adminOnly: true,
+    });
+
+    const member = await paymentDatabase.updateOrganizationMember({
+      organizationId,
+      userAddress: getValidatedOrganizationMemberAddressParam(ctx),
+      ...getValidatedUpdateOrganizationMemberParams(ctx),
+    });
+    logger.info("Updated organization member", {
+      organizationId,
+      memberAddress: member.userAddress,
+      role: member.role,
+      walletAddress,
+    });
+
+    ctx.body = organizationMemberResponse(member);
+  } catch (error) {
+    handleOrganizationError(ctx, error, "Error updating organization member");
+  }
+
+  return next();
+}
+
+/** Admins can remove any member, and any member can leave the organization */
+export async function removeOrganizationMemberRoute(
+  ctx: KoaContext,
+  next: Next
+) {
+  const { paymentDatabase, logger, walletAddress } = ctx.state;
+
+  if (!walletAddress) {
+    ctx.status = 403;
+    ctx.body = "Invalid signature or missing required headers";
+    return next();
+  }
+
+  try {
+    const memberAddress = getValidatedOrganizationMemberAddressParam(ctx);
+    const { organizationId } = await getSignerMembership(ctx, walletAddress, {
+      adminOnly: memberAddress !== walletAddress,
+    });
+
+    await paymentDatabase.removeOrganizationMember({
+      organizationId,
+      userAddress: memberAddress,
+    });
+    logger.info("Removed organization member", {
+      organizationId,
+      memberAddress,
+      walletAddress,
+    });
+
+    ctx.status = 204;
+  } catch (error) {
+    handleOrganizationError(ctx, error, "Error removing organization member");
+  }
+
+  return next();
+}
+
+/** Moves winc from the signer's balance to their organization */
+export async function depositToOrganizationRoute(ctx: KoaContext, next: Next) {
+  const { paymentDatabase, logger, walletAddress } = ctx.state;
+
+  if (!walletAddress) {
+    ctx.status = 403;
+    ctx.body = "Invalid signature or missing required headers";
+    return next();
+  }
+
+  try {
+    const { organizationId } = await getSignerMembership(ctx, walletAddress);
+    const { wincAmount } = getValidatedOrganizationDepositParams(ctx);
+
+    const organization = await paymentDatabase.depositToOrganization({
+      organizationId,
+      userAddress: walletAddress,
+      wincAmount,
+    });
+    logger.info("Deposited to organization", {
+      organizationId,
+      wincAmount: wincAmount.toString(),
+      walletAddress,
+    });
+
+    ctx.body = organizationResponse(organization);
+  } catch (error) {
+    handleOrganizationError(ctx, error, "Error depositing to organization");
+  }
+
+  return next();
+}
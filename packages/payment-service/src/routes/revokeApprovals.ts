@@ -19,6 +19,7 @@ import { Next } from "koa";
 import { BadRequest, Unauthorized } from "../database/errors";
 import { KoaContext } from "../server";
 import {
+  assertApiKeyCanActFor,
   assertAuthorizedRoute,
   getValidatedRevokeApprovalParams,
 } from "../utils/validators";
@@ -30,6 +31,7 @@ export async function revokeApprovals(ctx: KoaContext, next: Next) {
     assertAuthorizedRoute(ctx);
     const { approvedAddress, payingAddress, revokeDataItemId } =
       getValidatedRevokeApprovalParams(ctx);
+    assertApiKeyCanActFor(ctx, payingAddress);
 
     const approvals = await paymentDatabase.revokeDelegatedPaymentApprovals({
       approvedAddress,
@@ -0,0 +1,119 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+
+import { defaultApiKeyRateLimitPerMinute } from "../constants";
+import { Database } from "../database/database";
+import { ApiKey, ApiKeyScope } from "../database/dbTypes";
+import {
+  ApiKeyRateLimited,
+  ApiKeyScopeNotGranted,
+  InvalidApiKey,
+} from "../database/errors";
+
+const apiKeySeparator = ".";
+
+function hashApiKeySecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+/**
+ * Generates a new API key in the form `<apiKeyId>.<secret>`. Only the hash of the secret is
+ * stored, so the key must be handed to its owner when it is created
+ */
+export function generateApiKey(): {
+  apiKeyId: string;
+  hashedSecret: string;
+  apiKey: string;
+} {
+  const apiKeyId = randomUUID();
+  const secret = randomBytes(32).toString("base64url");
+  return {
+    apiKeyId,
+    hashedSecret: hashApiKeySecret(secret),
+    apiKey: `${apiKeyId}${apiKeySeparator}${secret}`,
+  };
+}
+
+/** The admin scope grants every other scope */
+export function apiKeyHasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes(scope) || apiKey.scopes.includes("admin");
+}
+
+/**
+ * Authenticates an API key for a scope and records its use against the key's rate limit.
+ * Throws InvalidApiKey, ApiKeyScopeNotGranted or ApiKeyRateLimited
+ */
+export async function authenticateApiKey({
+  paymentDatabase,
+  apiKey: rawApiKey,
+  scope,
+}: {
+  paymentDatabase: Database;
+  apiKey: string;
+  scope: ApiKeyScope;
+}): Promise<ApiKey> {
+  const separatorIndex = rawApiKey.indexOf(apiKeySeparator);
+  if (separatorIndex === -1) {
+    throw new InvalidApiKey();
+  }
+
+  const apiKey = await paymentDatabase.getApiKey(
+    rawApiKey.slice(0, separatorIndex)
+  );
+  const givenHash = Buffer.from(
+    hashApiKeySecret(rawApiKey.slice(separatorIndex + 1))
+  );
+  if (
+    !apiKey ||
+    apiKey.revokedDate !== undefined ||
+    !timingSafeEqual(givenHash, Buffer.from(apiKey.hashedSecret))
+  ) {
+    throw new InvalidApiKey();
+  }
+
+  if (!apiKeyHasScope(apiKey, scope)) {
+    throw new ApiKeyScopeNotGranted(scope);
+  }
+
+  const rateLimitPerMinute =
+    apiKey.rateLimitPerMinute ?? defaultApiKeyRateLimitPerMinute;
+  const requestsInWindow = await paymentDatabase.recordApiKeyUse(
+    apiKey.apiKeyId
+  );
+  if (requestsInWindow > rateLimitPerMinute) {
+    throw new ApiKeyRateLimited(apiKey.apiKeyId, rateLimitPerMinute);
+  }
+
+  return apiKey;
+}
+
+/** API keys as returned to their owners, without the hash of their secret */
+export function apiKeyResponse(apiKey: ApiKey) {
+  return {
+    apiKeyId: apiKey.apiKeyId,
+    name: apiKey.name,
+    address: apiKey.userAddress,
+    addressType: apiKey.userAddressType,
+    scopes: apiKey.scopes,
+    rateLimitPerMinute:
+      apiKey.rateLimitPerMinute ?? defaultApiKeyRateLimitPerMinute,
+    creationDate: apiKey.creationDate,
+    lastUsedDate: apiKey.lastUsedDate,
+    revokedDate: apiKey.revokedDate,
+  };
+}
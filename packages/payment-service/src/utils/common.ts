@@ -17,6 +17,8 @@
 import {
   ArNSPurchaseIntent,
   DelegatedPaymentApproval,
+  Organization,
+  OrganizationMember,
   validArNSPurchaseIntents,
 } from "../database/dbTypes";
 import { BadRequest } from "../database/errors";
@@ -47,6 +49,24 @@ export function remainingWincAmountFromApprovals(
   return approvedAmount.minus(usedAmount);
 }
 
+/** The organization balance a member can charge, capped by what remains of their spending limit */
+export function spendableOrganizationWinc(
+  organization: Organization,
+  member: OrganizationMember
+): Winston {
+  if (member.wincSpendingLimit === undefined) {
+    return organization.winc;
+  }
+
+  const remainingLimit = member.wincSpendingLimit.minus(member.usedWincAmount);
+  if (!remainingLimit.isNonZeroPositiveInteger()) {
+    return W(0);
+  }
+  return remainingLimit.isLessThan(organization.winc)
+    ? remainingLimit
+    : organization.winc;
+}
+
 export function sleep(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -0,0 +1,115 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { expect } from "chai";
+
+import { BadRequest } from "../database/errors";
+import { KoaContext } from "../server";
+import {
+  getValidatedAdjustmentCatalog,
+  getValidatedAdjustmentCatalogType,
+} from "./validators";
+
+describe("getValidatedAdjustmentCatalogType", () => {
+  const ctxWithCatalogType = (catalogType: string) =>
+    ({ params: { catalogType } } as unknown as KoaContext);
+
+  for (const catalogType of ["upload", "payment", "promo-code"]) {
+    it(`should return the ${catalogType} catalog type`, () => {
+      expect(
+        getValidatedAdjustmentCatalogType(ctxWithCatalogType(catalogType))
+      ).to.equal(catalogType);
+    });
+  }
+
+  it("should throw a bad request for an unknown catalog type", () => {
+    expect(() =>
+      getValidatedAdjustmentCatalogType(ctxWithCatalogType("unknown"))
+    ).to.throw(BadRequest, "Invalid catalog type");
+  });
+});
+
+describe("getValidatedAdjustmentCatalog", () => {
+  const body = {
+    name: "Test Catalog",
+    operator: "multiply",
+    operatorMagnitude: 0.5,
+    startDate: "2024-01-01T00:00:00.000Z",
+  };
+
+  it("should default the limitation fields of an upload catalog", () => {
+    const catalog = getValidatedAdjustmentCatalog("upload", body);
+
+    expect(catalog.limitationInterval).to.equal(24);
+    expect(catalog.limitationIntervalUnit).to.equal("hour");
+    expect(catalog.wincLimitation.toString()).to.equal("0");
+    expect(+catalog.byteCountThreshold).to.equal(0);
+  });
+
+  it("should throw a bad request for an unknown limitation interval unit", () => {
+    expect(() =>
+      getValidatedAdjustmentCatalog("upload", {
+        ...body,
+        limitationIntervalUnit: "fortnight",
+      })
+    ).to.throw(BadRequest, "Invalid limitationIntervalUnit");
+  });
+
+  it("should default the exclusivity of a payment catalog", () => {
+    const catalog = getValidatedAdjustmentCatalog("payment", body);
+
+    expect(catalog.exclusivity).to.equal("inclusive");
+    expect(catalog.operatorMagnitude).to.equal(0.5);
+  });
+
+  it("should throw a bad request for an unknown exclusivity", () => {
+    expect(() =>
+      getValidatedAdjustmentCatalog("payment", {
+        ...body,
+        exclusivity: "sometimes",
+      })
+    ).to.throw(BadRequest, "Invalid exclusivity");
+  });
+
+  it("should validate a promo code catalog", () => {
+    const catalog = getValidatedAdjustmentCatalog("promo-code", {
+      ...body,
+      codeValue: "TEST_CODE",
+      maxUses: 10,
+    });
+
+    expect(catalog.codeValue).to.equal("TEST_CODE");
+    expect(catalog.targetUserGroup).to.equal("all");
+    expect(catalog.maxUses).to.equal(10);
+    expect(catalog.exclusivity).to.equal("inclusive");
+  });
+
+  it("should merge a partial update onto the existing catalog", () => {
+    const existingCatalog = {
+      catalogId: "existing-catalog-id",
+      ...getValidatedAdjustmentCatalog("payment", body),
+    };
+
+    const catalog = getValidatedAdjustmentCatalog(
+      "payment",
+      { exclusivity: "exclusive" },
+      existingCatalog
+    );
+
+    expect(catalog.name).to.equal("Test Catalog");
+    expect(catalog.exclusivity).to.equal("exclusive");
+  });
+});
@@ -14,25 +14,49 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
+import { SignatureConfig } from "@dha-team/arbundles";
+import { getAddress } from "ethers";
 import validator from "validator";
 
 import {
   StripePaymentMethod,
+  defaultAdjustmentCatalogPriority,
+  defaultAuditLedgerPageSize,
+  maxApiKeyRateLimitPerMinute,
+  maxAuditLedgerPageSize,
+  maxGeneratedPromoCodesPerRequest,
   maxGiftMessageLength,
   stripePaymentMethods,
 } from "../constants";
 import {
+  AddOrganizationMemberParams,
+  AdjustmentCatalog,
+  AdjustmentCatalogInputsByType,
+  AdjustmentCatalogType,
+  AdjustmentCatalogsByType,
+  ApiKeyScope,
   ArNSNameType,
   ArNSPurchaseParams,
   ArNSTokenCostParams,
+  AuditChangeReason,
   DataItemId,
   DestinationAddressType,
   PaymentDirective,
+  Timestamp,
+  UpdateOrganizationMemberParams,
   UserAddress,
   UserAddressType,
+  adjustmentCatalogTypes,
+  apiKeyScopes,
+  auditChangeReasons,
   destinationAddressTypes,
+  exclusivity,
+  intervalUnits,
+  isAuditChangeReason,
   isPaymentDirective,
+  organizationMemberRoles,
   paymentDirectives,
+  targetUserGroups,
   userAddressTypes,
 } from "../database/dbTypes";
 import { BadQueryParam, BadRequest, Unauthorized } from "../database/errors";
@@ -46,6 +70,7 @@ import {
 import {
   isAnyValidUserAddress,
   isValidArweaveBase64URL,
+  isValidEthAddress,
   isValidUserAddress,
 } from "./base64";
 import { formatRawIntent } from "./common";
@@ -87,7 +112,11 @@ export function validateAuthorizedRoute(ctx: KoaContext): boolean {
   return true;
 }
 
+/** Protected routes accept the service JWT or an API key authenticated by apiKeyAuth */
 export function assertAuthorizedRoute(ctx: KoaContext): void {
+  if (ctx.state.apiKey) {
+    return;
+  }
   if (!ctx.request.headers.authorization || !ctx.state.user) {
     ctx.state.logger.error(
       "No authorization or user provided for authorized route!",
@@ -101,6 +130,23 @@ export function assertAuthorizedRoute(ctx: KoaContext): void {
   }
 }
 
+/** Only admin API keys can act for accounts other than the one they were issued to */
+export function assertApiKeyCanActFor(
+  ctx: KoaContext,
+  userAddress: UserAddress
+): void {
+  const { apiKey } = ctx.state;
+  if (
+    apiKey &&
+    !apiKey.scopes.includes("admin") &&
+    apiKey.userAddress !== userAddress
+  ) {
+    throw new Unauthorized(
+      "API key can only act for the account it was issued to"
+    );
+  }
+}
+
 export function validateByteCount(
   ctx: KoaContext,
   stringByteCount: string
@@ -770,3 +816,533 @@ export function getValidatedArNSPurchaseQuoteParams(ctx: KoaContext): Omit<
     destinationAddress: address,
   };
 }
+
+function validatedOptionalQueryDate(
+  ctx: KoaContext,
+  parameterName: string
+): Timestamp | undefined {
+  const rawDate = ctx.query[parameterName];
+  if (rawDate === undefined) {
+    return undefined;
+  }
+  const date = Array.isArray(rawDate) ? undefined : new Date(rawDate);
+  if (date === undefined || isNaN(date.getTime())) {
+    throw new BadRequest(
+      `Invalid ${parameterName} parameter. Provide an ISO 8601 date`
+    );
+  }
+  return date.toISOString();
+}
+
+export function getValidatedAccountLedgerParams(ctx: KoaContext): {
+  limit: number;
+  changeReasons?: AuditChangeReason[];
+  fromDate?: Timestamp;
+  toDate?: Timestamp;
+  beforeAuditId?: number;
+} {
+  const { limit: rawLimit, reason: rawReasons, cursor: rawCursor } = ctx.query;
+
+  const limit =
+    rawLimit === undefined ? defaultAuditLedgerPageSize : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > maxAuditLedgerPageSize) {
+    throw new BadRequest(
+      `Invalid limit parameter. Provide an integer between 1 and ${maxAuditLedgerPageSize}`
+    );
+  }
+
+  let changeReasons: AuditChangeReason[] | undefined;
+  if (rawReasons !== undefined) {
+    const reasons = (Array.isArray(rawReasons) ? rawReasons : [rawReasons])
+      .flatMap((reason) => reason.split(","))
+      .map((reason) => reason.trim());
+    const invalidReasons = reasons.filter(
+      (reason) => !isAuditChangeReason(reason)
+    );
+    if (invalidReasons.length > 0) {
+      throw new BadRequest(
+        `Invalid reason parameter: ${invalidReasons}. Try one of these: ${auditChangeReasons}`
+      );
+    }
+    changeReasons = reasons as AuditChangeReason[];
+  }
+
+  let beforeAuditId: number | undefined;
+  if (rawCursor !== undefined) {
+    beforeAuditId = Number(rawCursor);
+    if (!Number.isInteger(beforeAuditId) || beforeAuditId < 1) {
+      throw new BadRequest("Invalid cursor parameter");
+    }
+  }
+
+  const fromDate = validatedOptionalQueryDate(ctx, "from");
+  const toDate = validatedOptionalQueryDate(ctx, "to");
+  if (fromDate && toDate && fromDate >= toDate) {
+    throw new BadRequest("The from date must be before the to date");
+  }
+
+  return { limit, changeReasons, fromDate, toDate, beforeAuditId };
+}
+
+export function getValidatedAccountStatementParams(ctx: KoaContext): {
+  month: string;
+  fromDate: Timestamp;
+  toDate: Timestamp;
+  format: "json" | "csv";
+} {
+  const { month } = ctx.params;
+  const { format = "json" } = ctx.query;
+
+  const monthMatch = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month ?? "");
+  if (!monthMatch) {
+    throw new BadRequest("Invalid month parameter. Use the YYYY-MM format");
+  }
+
+  if (format !== "json" && format !== "csv") {
+    throw new BadRequest(
+      "Invalid format parameter. Try one of these: json,csv"
+    );
+  }
+
+  // Statements cover whole calendar months in UTC
+  const year = +monthMatch[1];
+  const monthIndex = +monthMatch[2] - 1;
+  return {
+    month,
+    fromDate: new Date(Date.UTC(year, monthIndex, 1)).toISOString(),
+    toDate: new Date(Date.UTC(year, monthIndex + 1, 1)).toISOString(),
+    format,
+  };
+}
+
+export function getValidatedAdjustmentCatalogType(
+  ctx: KoaContext
+): AdjustmentCatalogType {
+  const { catalogType } = ctx.params;
+  if (!adjustmentCatalogTypes.includes(catalogType as AdjustmentCatalogType)) {
+    throw new BadRequest(
+      `Invalid catalog type. Try one of these: ${adjustmentCatalogTypes}`
+    );
+  }
+  return catalogType as AdjustmentCatalogType;
+}
+
+function validatedInteger(
+  value: unknown,
+  fieldName: string,
+  { min, max }: { min?: number; max?: number } = {}
+): number {
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    (min !== undefined && value < min) ||
+    (max !== undefined && value > max)
+  ) {
+    throw new BadRequest(
+      `Invalid ${fieldName}. Provide an integer` +
+        (min !== undefined ? ` of at least ${min}` : "") +
+        (max !== undefined ? ` of at most ${max}` : "")
+    );
+  }
+  return value;
+}
+
+function validatedOneOf<T extends string>(
+  value: unknown,
+  fieldName: string,
+  allowedValues: readonly T[]
+): T {
+  if (!allowedValues.includes(value as T)) {
+    throw new BadRequest(
+      `Invalid ${fieldName}. Try one of these: ${allowedValues}`
+    );
+  }
+  return value as T;
+}
+
+function validatedString(
+  value: unknown,
+  fieldName: string,
+  pattern = /^.{1,255}$/s
+): string {
+  if (typeof value !== "string" || !pattern.test(value)) {
+    throw new BadRequest(`Invalid ${fieldName}`);
+  }
+  return value;
+}
+
+function validatedCatalogDate(value: unknown, fieldName: string): Timestamp {
+  const date = typeof value === "string" ? new Date(value) : undefined;
+  if (date === undefined || isNaN(date.getTime())) {
+    throw new BadRequest(`Invalid ${fieldName}. Provide an ISO 8601 date`);
+  }
+  return date.toISOString();
+}
+
+function validatedNonNegativeWinc(value: unknown, fieldName: string): Winston {
+  try {
+    if (typeof value === "string" || typeof value === "number") {
+      const winc = W(value);
+      if (!winc.isLessThan(W(0))) {
+        return winc;
+      }
+    }
+  } catch {
+    // Fall through to the bad request below
+  }
+  throw new BadRequest(
+    `Invalid ${fieldName}. Provide a non-negative integer amount of winc`
+  );
+}
+
+/**
+ * Validates an adjustment catalog from an admin request body. When an existing catalog is given,
+ * the body is merged onto it so that partial updates are validated as a whole catalog
+ */
+export function getValidatedAdjustmentCatalog<T extends AdjustmentCatalogType>(
+  type: T,
+  body: unknown,
+  existingCatalog?: AdjustmentCatalogsByType[T]
+): AdjustmentCatalogInputsByType[T] {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new BadRequest("Invalid request body");
+  }
+  // Serialize the existing catalog so its winc, byte count and date values compare as request values
+  const fields: Record<string, unknown> = {
+    ...(existingCatalog ? JSON.parse(JSON.stringify(existingCatalog)) : {}),
+    ...body,
+  };
+
+  const operator = validatedOneOf(fields.operator, "operator", [
+    "add",
+    "multiply",
+  ] as const);
+  const { operatorMagnitude } = fields;
+  if (
+    typeof operatorMagnitude !== "number" ||
+    !Number.isFinite(operatorMagnitude)
+  ) {
+    throw new BadRequest("Invalid operatorMagnitude. Provide a number");
+  }
+  if (operator === "add" && !Number.isInteger(operatorMagnitude)) {
+    // Added to the winc price of uploads, or to the USD cents of payments
+    throw new BadRequest(
+      "Invalid operatorMagnitude. Provide an integer for the add operator"
+    );
+  }
+  if (
+    operator === "multiply" &&
+    (operatorMagnitude < 0 || (type !== "upload" && operatorMagnitude === 0))
+  ) {
+    // Payment multipliers are divided by on the rates endpoint
+    throw new BadRequest(
+      `Invalid operatorMagnitude. Provide a ${
+        type === "upload" ? "non-negative" : "positive"
+      } number for the multiply operator`
+    );
+  }
+
+  const startDate =
+    fields.startDate === undefined
+      ? new Date().toISOString()
+      : validatedCatalogDate(fields.startDate, "startDate");
+  const endDate =
+    fields.endDate === undefined || fields.endDate === null
+      ? undefined
+      : validatedCatalogDate(fields.endDate, "endDate");
+  if (endDate !== undefined && endDate <= startDate) {
+    throw new BadRequest("The endDate must be after the startDate");
+  }
+
+  const catalog: Omit<AdjustmentCatalog, "catalogId"> = {
+    name: validatedString(fields.name, "name"),
+    description: validatedString(
+      fields.description ?? "",
+      "description",
+      /^.{0,255}$/s
+    ),
+    operator,
+    operatorMagnitude,
+    priority: validatedInteger(
+      fields.priority ?? defaultAdjustmentCatalogPriority,
+      "priority",
+      { min: 0 }
+    ),
+    startDate,
+    endDate,
+  };
+
+  if (type === "upload") {
+    const uploadCatalog: AdjustmentCatalogInputsByType["upload"] = {
+      ...catalog,
+      // 0 applies the adjustment to uploads of any size
+      byteCountThreshold: ByteCount(
+        validatedInteger(fields.byteCountThreshold ?? 0, "byteCountThreshold", {
+          min: 0,
+        })
+      ),
+      // 0 applies the adjustment without limiting the winc used per user
+      wincLimitation: validatedNonNegativeWinc(
+        fields.wincLimitation ?? 0,
+        "wincLimitation"
+      ),
+      limitationInterval: validatedInteger(
+        fields.limitationInterval ?? 24,
+        "limitationInterval",
+        { min: 1 }
+      ),
+      limitationIntervalUnit: validatedOneOf(
+        fields.limitationIntervalUnit ?? "hour",
+        "limitationIntervalUnit",
+        intervalUnits
+      ),
+    };
+    return uploadCatalog as AdjustmentCatalogInputsByType[T];
+  }
+
+  const paymentCatalog: AdjustmentCatalogInputsByType["payment"] = {
+    ...catalog,
+    exclusivity: validatedOneOf(
+      fields.exclusivity ?? "inclusive",
+      "exclusivity",
+      exclusivity
+    ),
+  };
+  if (type === "payment") {
+    return paymentCatalog as AdjustmentCatalogInputsByType[T];
+  }
+
+  const promoCodeCatalog: AdjustmentCatalogInputsByType["promo-code"] = {
+    ...paymentCatalog,
+    codeValue: validatedString(
+      fields.codeValue,
+      "codeValue",
+      /^[A-Za-z0-9_-]{1,64}$/
+    ),
+    targetUserGroup: validatedOneOf(
+      fields.targetUserGroup ?? "all",
+      "targetUserGroup",
+      targetUserGroups
+    ),
+    // 0 allows unlimited uses
+    maxUses: validatedInteger(fields.maxUses ?? 0, "maxUses", { min: 0 }),
+    // Compared against the payment amount in USD cents
+    minimumPaymentAmount: validatedInteger(
+      fields.minimumPaymentAmount ?? 0,
+      "minimumPaymentAmount",
+      { min: 0 }
+    ),
+    // 0 does not cap the discount, otherwise caps it in USD cents
+    maximumDiscountAmount: validatedInteger(
+      fields.maximumDiscountAmount ?? 0,
+      "maximumDiscountAmount",
+      { min: 0 }
+    ),
+  };
+  return promoCodeCatalog as AdjustmentCatalogInputsByType[T];
+}
+
+/** Returns the bulk promo code generation requested by an admin request body, if any */
+export function getValidatedPromoCodeGeneration(
+  body: Record<string, unknown>
+): { codeCount: number; codePrefix: string } | undefined {
+  const { codeCount, codePrefix = "", codeValue } = body;
+  if (codeCount === undefined) {
+    return undefined;
+  }
+  if (codeValue !== undefined) {
+    throw new BadRequest("Provide either a codeValue or a codeCount, not both");
+  }
+  return {
+    codeCount: validatedInteger(codeCount, "codeCount", {
+      min: 1,
+      max: maxGeneratedPromoCodesPerRequest,
+    }),
+    codePrefix: validatedString(
+      codePrefix,
+      "codePrefix",
+      /^[A-Za-z0-9_-]{0,32}$/
+    ),
+  };
+}
+
+function validatedRequestBody(ctx: KoaContext): Record<string, unknown> {
+  const { body } = ctx.request as { body?: unknown };
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new BadRequest("Invalid request body");
+  }
+  return body as Record<string, unknown>;
+}
+
+/** Returns the address type of the wallet that signed a request, see verifySignature */
+export function getSignerAddressType(signatureType: number): UserAddressType {
+  switch (signatureType) {
+    case SignatureConfig.ARWEAVE:
+      return "arweave";
+    case SignatureConfig.ETHEREUM:
+      return "ethereum";
+    case SignatureConfig.SOLANA:
+      return "solana";
+    case SignatureConfig.ED25519:
+      return "ed25519";
+    case SignatureConfig.KYVE:
+      return "kyve";
+    default:
+      throw new BadRequest(`Unsupported signature type '${signatureType}'`);
+  }
+}
+
+export function getValidatedCreateOrganizationParams(ctx: KoaContext): {
+  organizationName: string;
+} {
+  const { name } = validatedRequestBody(ctx);
+  return {
+    organizationName: validatedString(
+      typeof name === "string" ? name.trim() : name,
+      "name",
+      /^.{1,128}$/s
+    ),
+  };
+}
+
+function validatedAccountAddress(
+  address: unknown,
+  addressType: unknown
+): { userAddress: UserAddress; userAddressType: UserAddressType } {
+  const userAddressType = validatedOneOf(
+    addressType,
+    "addressType",
+    userAddressTypes
+  );
+  const userAddress = validatedString(address, "address");
+  if (!isValidUserAddress(userAddress, userAddressType)) {
+    throw new BadRequest(
+      `Invalid address for address type '${userAddressType}'`
+    );
+  }
+
+  return {
+    userAddress: normalizedMemberAddress(userAddress),
+    userAddressType,
+  };
+}
+
+/** Data items of EVM wallets are charged to their checksummed address */
+function normalizedMemberAddress(userAddress: UserAddress): UserAddress {
+  return isValidEthAddress(userAddress)
+    ? getAddress(userAddress.toLowerCase())
+    : userAddress;
+}
+
+export function getValidatedOrganizationMemberAddressParam(
+  ctx: KoaContext
+): UserAddress {
+  return normalizedMemberAddress(ctx.params.userAddress);
+}
+
+export function getValidatedAddOrganizationMemberParams(
+  ctx: KoaContext
+): Omit<AddOrganizationMemberParams, "organizationId"> {
+  const { address, addressType, role, wincSpendingLimit } =
+    validatedRequestBody(ctx);
+
+  return {
+    ...validatedAccountAddress(address, addressType),
+    role: validatedOneOf(role ?? "uploader", "role", organizationMemberRoles),
+    wincSpendingLimit:
+      wincSpendingLimit === undefined || wincSpendingLimit === null
+        ? undefined
+        : validatedNonNegativeWinc(wincSpendingLimit, "wincSpendingLimit"),
+  };
+}
+
+export function getValidatedUpdateOrganizationMemberParams(
+  ctx: KoaContext
+): Pick<UpdateOrganizationMemberParams, "role" | "wincSpendingLimit"> {
+  const { role, wincSpendingLimit } = validatedRequestBody(ctx);
+  if (role === undefined && wincSpendingLimit === undefined) {
+    throw new BadRequest("Provide a role or a wincSpendingLimit to update");
+  }
+
+  return {
+    role:
+      role === undefined
+        ? undefined
+        : validatedOneOf(role, "role", organizationMemberRoles),
+    wincSpendingLimit:
+      wincSpendingLimit === undefined || wincSpendingLimit === null
+        ? wincSpendingLimit
+        : validatedNonNegativeWinc(wincSpendingLimit, "wincSpendingLimit"),
+  };
+}
+
+export function getValidatedOrganizationDepositParams(ctx: KoaContext): {
+  wincAmount: Winston;
+} {
+  const { winc } = validatedRequestBody(ctx);
+  const wincAmount = validatedNonNegativeWinc(winc, "winc");
+  if (wincAmount.isZero()) {
+    throw new BadRequest("Invalid winc. Provide a positive amount of winc");
+  }
+  return { wincAmount };
+}
+
+export function getValidatedApiKeyScope(scope: unknown): ApiKeyScope {
+  return validatedOneOf(scope, "scope", apiKeyScopes);
+}
+
+function validatedApiKeyParams(body: Record<string, unknown>): {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+} {
+  const { name, scopes, rateLimitPerMinute } = body;
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    throw new BadRequest(
+      `Invalid scopes. Provide a list of these: ${apiKeyScopes}`
+    );
+  }
+
+  return {
+    name: validatedString(
+      typeof name === "string" ? name.trim() : name,
+      "name",
+      /^.{1,128}$/s
+    ),
+    scopes: [...new Set(scopes.map(getValidatedApiKeyScope))],
+    rateLimitPerMinute:
+      rateLimitPerMinute === undefined || rateLimitPerMinute === null
+        ? undefined
+        : validatedInteger(rateLimitPerMinute, "rateLimitPerMinute", {
+            min: 1,
+            max: maxApiKeyRateLimitPerMinute,
+          }),
+  };
+}
+
+/** Accounts issue their own keys, admin scoped keys can only be issued by an admin */
+export function getValidatedCreateApiKeyParams(ctx: KoaContext): {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+} {
+  const params = validatedApiKeyParams(validatedRequestBody(ctx));
+  if (params.scopes.includes("admin")) {
+    throw new BadRequest("Admin API keys can only be issued by an admin");
+  }
+  return params;
+}
+
+export function getValidatedCreateAdminApiKeyParams(ctx: KoaContext): {
+  userAddress: UserAddress;
+  userAddressType: UserAddressType;
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+} {
+  const body = validatedRequestBody(ctx);
+  return {
+    ...validatedAccountAddress(body.address, body.addressType),
+    ...validatedApiKeyParams(body),
+  };
+}
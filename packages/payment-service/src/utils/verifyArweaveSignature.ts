@@ -14,7 +14,6 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
-import { SignatureConfig } from "@dha-team/arbundles";
 import Arweave from "arweave/node/common.js";
 import { stringToBuffer } from "arweave/node/lib/utils";
 import {
@@ -26,41 +25,12 @@ import crypto from "node:crypto";
 
 import { PublicKeyString } from "../types";
 import { fromB64UrlToBuffer, toB64Url } from "./base64";
-import { arweaveRSAModulusToAddress } from "./jwkUtils";
 
 export interface VerifySignatureParams {
   publicKey: PublicKeyString;
   signature: string;
   additionalData?: string;
   nonce: string;
-  signatureType: SignatureConfig;
-}
-
-export async function verifySigAndGetNativeAddress({
-  nonce,
-  publicKey,
-  signature,
-  additionalData,
-  signatureType,
-}: VerifySignatureParams): Promise<string | false> {
-  const data = additionalData ? additionalData + nonce : nonce;
-  switch (signatureType) {
-    case SignatureConfig.ARWEAVE:
-      return (await verifyArweaveSignature({
-        publicKey,
-        signature,
-        additionalData,
-        nonce,
-      }))
-        ? arweaveRSAModulusToAddress(publicKey)
-        : false;
-    case SignatureConfig.ETHEREUM:
-      return verifyEthereumSignature(publicKey, signature, data)
-        ? computeAddress(publicKey)
-        : false;
-    default:
-      return false;
-  }
 }
 
 export async function verifyArweaveSignature({
@@ -68,7 +38,7 @@ export async function verifyArweaveSignature({
   signature,
   additionalData,
   nonce,
-}: Omit<VerifySignatureParams, "signatureType">): Promise<boolean> {
+}: VerifySignatureParams): Promise<boolean> {
   const dataToVerify = additionalData ? additionalData + nonce : nonce;
   const data = stringToBuffer(dataToVerify);
   const isVerified = await Arweave.crypto.verify(
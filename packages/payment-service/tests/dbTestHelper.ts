@@ -21,6 +21,7 @@ import { tableNames } from "../src/database/dbConstants";
 import {
   ArNSPurchaseDBInsert,
   ArNSPurchaseQuoteDBInsert,
+  AuditLogInsert,
   ChargebackReceiptDBInsert,
   DelegatedPaymentApprovalDBInsert,
   DelegatedPaymentApprovalDBResult,
@@ -251,6 +252,24 @@ function stubUserInsert({
   };
 }
 
+type StubAuditLogParams = Partial<AuditLogInsert> & { audit_date?: string };
+
+function stubAuditLogInsert({
+  user_address = "The Stubbiest User",
+  winston_credit_amount = "1337",
+  change_reason = "payment",
+  change_id = "The Stubbiest Change",
+  audit_date = new Date().toISOString(),
+}: StubAuditLogParams): AuditLogInsert & { audit_date: string } {
+  return {
+    user_address,
+    winston_credit_amount,
+    change_reason,
+    change_id,
+    audit_date,
+  };
+}
+
 export class DbTestHelper {
   constructor(public readonly db: PostgresDatabase) {}
 
@@ -318,6 +337,14 @@ export class DbTestHelper {
     });
   }
 
+  public async insertStubAuditLogs(
+    insertParams: StubAuditLogParams[]
+  ): Promise<void> {
+    return this.knex(tableNames.auditLog).insert(
+      insertParams.map(stubAuditLogInsert)
+    );
+  }
+
   public async insertStubPaymentAdjustment(
     insertParams: StubPaymentAdjustmentParams
   ): Promise<void> {
@@ -14,12 +14,13 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
+import { SERVICE_NAMES, createRequestNonce } from "@ar-io-bundler/shared";
 import { SignatureConfig } from "@dha-team/arbundles";
 import Arweave from "arweave/node/common";
 import { stringToBuffer } from "arweave/node/lib/utils";
 import { RawAxiosRequestHeaders } from "axios";
 import { Buffer } from "buffer";
-import { randomUUID } from "crypto";
+import { KeyObject, sign } from "crypto";
 import { HDNodeWallet } from "ethers";
 
 import { JWKInterface } from "../../src/types/jwkTypes";
@@ -37,7 +38,7 @@ export async function signArweaveData(
 
 export async function signedRequestHeadersFromJwk(
   jwk: JWKInterface,
-  nonce: string = randomUUID(),
+  nonce: string = createRequestNonce(SERVICE_NAMES.PAYMENT),
   data = ""
 ): Promise<RawAxiosRequestHeaders> {
   const signature = await signArweaveData(jwk, data + nonce);
@@ -51,7 +52,7 @@ export async function signedRequestHeadersFromJwk(
 
 export async function signedRequestHeadersFromEthWallet(
   wallet: HDNodeWallet,
-  nonce: string = randomUUID(),
+  nonce: string = createRequestNonce(SERVICE_NAMES.PAYMENT),
   data = ""
 ): Promise<RawAxiosRequestHeaders> {
   const signature = await signEthereumData(wallet, data + nonce);
@@ -63,3 +64,17 @@ export async function signedRequestHeadersFromEthWallet(
     "x-signature-type": SignatureConfig.ETHEREUM,
   };
 }
+
+export function signedRequestHeadersFromSolanaKeys(
+  { privateKey, publicKey }: { privateKey: KeyObject; publicKey: KeyObject },
+  nonce: string = createRequestNonce(SERVICE_NAMES.PAYMENT)
+): RawAxiosRequestHeaders {
+  const signature = sign(null, Buffer.from(nonce), privateKey);
+
+  return {
+    "x-public-key": publicKey.export({ format: "jwk" }).x as string,
+    "x-nonce": nonce,
+    "x-signature": toB64Url(signature),
+    "x-signature-type": SignatureConfig.SOLANA,
+  };
+}
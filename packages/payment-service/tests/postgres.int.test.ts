@@ -30,14 +30,17 @@ import {
   InactiveDelegatedPaymentApprovalDBResult,
   PaymentAdjustmentDBResult,
   PaymentReceiptDBResult,
+  SingleUseCodePaymentCatalog,
   SingleUseCodePaymentCatalogDBResult,
   TopUpQuoteDBResult,
   UploadAdjustment,
+  UploadAdjustmentCatalog,
   UploadAdjustmentDBInsert,
   UserDBResult,
 } from "../src/database/dbTypes";
 import { PostgresDatabase } from "../src/database/postgres";
 import { FinalPrice, NetworkPrice } from "../src/pricing/price";
+import { ByteCount } from "../src/types";
 import { W, Winston } from "../src/types/winston";
 import { sleep } from "../src/utils/common";
 import {
@@ -2973,4 +2976,605 @@ describe("PostgresDatabase class", () => {
       });
     });
   });
+
+  describe("audit ledger methods", () => {
+    const ledgerUserAddress = "Unique User -- Audit Ledger";
+
+    before(async () => {
+      await dbTestHelper.insertStubAuditLogs([
+        {
+          user_address: ledgerUserAddress,
+          winston_credit_amount: "1000",
+          change_reason: "account_creation",
+          change_id: "creation",
+          audit_date: "2024-01-15T00:00:00.000Z",
+        },
+        {
+          user_address: ledgerUserAddress,
+          winston_credit_amount: "-100",
+          change_reason: "upload",
+          change_id: "upload 1",
+          audit_date: "2024-01-31T23:59:59.999Z",
+        },
+        {
+          user_address: ledgerUserAddress,
+          winston_credit_amount: "500",
+          change_reason: "payment",
+          change_id: "payment",
+          audit_date: "2024-02-01T00:00:00.000Z",
+        },
+        {
+          user_address: ledgerUserAddress,
+          winston_credit_amount: "-200",
+          change_reason: "upload",
+          change_id: "upload 2",
+          audit_date: "2024-02-10T00:00:00.000Z",
+        },
+        {
+          user_address: ledgerUserAddress,
+          winston_credit_amount: "50",
+          change_reason: "refunded_upload",
+          change_id: "upload 2",
+          audit_date: "2024-02-11T00:00:00.000Z",
+        },
+        {
+          user_address: "Another User -- Audit Ledger",
+          winston_credit_amount: "999",
+          change_reason: "payment",
+          audit_date: "2024-02-12T00:00:00.000Z",
+        },
+      ]);
+    });
+
+    it("getAuditLedger returns the entries of the user newest first with running balances", async () => {
+      const entries = await db.getAuditLedger({
+        userAddress: ledgerUserAddress,
+        limit: 10,
+      });
+
+      expect(entries.map((e) => e.changeId)).to.deep.equal([
+        "upload 2",
+        "upload 2",
+        "payment",
+        "upload 1",
+        "creation",
+      ]);
+      expect(entries.map((e) => e.wincAmount.toString())).to.deep.equal([
+        "50",
+        "-200",
+        "500",
+        "-100",
+        "1000",
+      ]);
+      expect(entries.map((e) => e.runningBalance.toString())).to.deep.equal([
+        "1250",
+        "1200",
+        "1400",
+        "900",
+        "1000",
+      ]);
+      expect(entries[0].changeReason).to.equal("refunded_upload");
+    });
+
+    it("getAuditLedger keeps the running balance of every entry when filtering and paging", async () => {
+      const firstPage = await db.getAuditLedger({
+        userAddress: ledgerUserAddress,
+        changeReasons: ["upload", "payment"],
+        fromDate: "2024-01-20T00:00:00.000Z",
+        limit: 2,
+      });
+      expect(
+        firstPage.map(({ changeReason, runningBalance }) => [
+          changeReason,
+          runningBalance.toString(),
+        ])
+      ).to.deep.equal([
+        ["upload", "1200"],
+        ["payment", "1400"],
+      ]);
+
+      const secondPage = await db.getAuditLedger({
+        userAddress: ledgerUserAddress,
+        changeReasons: ["upload", "payment"],
+        fromDate: "2024-01-20T00:00:00.000Z",
+        beforeAuditId: firstPage[1].auditId,
+        limit: 2,
+      });
+      expect(secondPage.length).to.equal(1);
+      expect(secondPage[0].changeId).to.equal("upload 1");
+      expect(secondPage[0].runningBalance.toString()).to.equal("900");
+    });
+
+    it("getAuditStatement aggregates the entries of the range by reason", async () => {
+      const statement = await db.getAuditStatement({
+        userAddress: ledgerUserAddress,
+        fromDate: "2024-02-01T00:00:00.000Z",
+        toDate: "2024-03-01T00:00:00.000Z",
+      });
+
+      expect(statement.openingBalance.toString()).to.equal("900");
+      expect(statement.closingBalance.toString()).to.equal("1250");
+      expect(
+        statement.reasons.map((reason) => ({
+          changeReason: reason.changeReason,
+          entryCount: reason.entryCount,
+          creditedWinc: reason.creditedWinc.toString(),
+          debitedWinc: reason.debitedWinc.toString(),
+          netWinc: reason.netWinc.toString(),
+        }))
+      ).to.deep.equal([
+        {
+          changeReason: "payment",
+          entryCount: 1,
+          creditedWinc: "500",
+          debitedWinc: "0",
+          netWinc: "500",
+        },
+        {
+          changeReason: "refunded_upload",
+          entryCount: 1,
+          creditedWinc: "50",
+          debitedWinc: "0",
+          netWinc: "50",
+        },
+        {
+          changeReason: "upload",
+          entryCount: 1,
+          creditedWinc: "0",
+          debitedWinc: "200",
+          netWinc: "-200",
+        },
+      ]);
+    });
+
+    it("getAuditStatement returns the opening balance as closing balance for a month without entries", async () => {
+      const statement = await db.getAuditStatement({
+        userAddress: ledgerUserAddress,
+        fromDate: "2024-06-01T00:00:00.000Z",
+        toDate: "2024-07-01T00:00:00.000Z",
+      });
+
+      expect(statement.openingBalance.toString()).to.equal("1250");
+      expect(statement.closingBalance.toString()).to.equal("1250");
+      expect(statement.reasons).to.deep.equal([]);
+    });
+  });
+
+  describe("adjustment catalog admin methods", () => {
+    // Far future start dates keep these catalogs from applying to any other test
+    const futureStartDate = "2099-01-01T00:00:00.000Z";
+
+    const stubUploadCatalog: UploadAdjustmentCatalog = {
+      catalogId: "Unique Upload Catalog -- Admin Methods",
+      name: "Future Upload Subsidy",
+      description: "Scheduled upload subsidy",
+      startDate: futureStartDate,
+      endDate: "2099-02-01T00:00:00.000Z",
+      operator: "multiply",
+      operatorMagnitude: 0.5,
+      priority: 100,
+      byteCountThreshold: ByteCount(1024),
+      wincLimitation: W(1000),
+      limitationInterval: 1,
+      limitationIntervalUnit: "day",
+    };
+
+    const stubPromoCodeCatalog: SingleUseCodePaymentCatalog = {
+      catalogId: "Unique Promo Code Catalog -- Admin Methods",
+      name: "Future Promo Code",
+      description: "",
+      startDate: futureStartDate,
+      operator: "multiply",
+      operatorMagnitude: 0.9,
+      priority: 500,
+      exclusivity: "exclusive",
+      codeValue: "ADMIN_METHODS_CODE",
+      targetUserGroup: "new",
+      maxUses: 10,
+      minimumPaymentAmount: 500,
+      maximumDiscountAmount: 1000,
+    };
+
+    before(async () => {
+      await db.createAdjustmentCatalogs("upload", [stubUploadCatalog]);
+      await db.createAdjustmentCatalogs("promo-code", [stubPromoCodeCatalog]);
+    });
+
+    it("getAdjustmentCatalog returns a created catalog", async () => {
+      const catalog = await db.getAdjustmentCatalog(
+        "upload",
+        stubUploadCatalog.catalogId
+      );
+
+      expect(catalog.name).to.equal(stubUploadCatalog.name);
+      expect(new Date(catalog.startDate).toISOString()).to.equal(
+        futureStartDate
+      );
+      expect(catalog.operatorMagnitude).to.equal(0.5);
+      expect(catalog.byteCountThreshold.valueOf()).to.equal(1024);
+      expect(catalog.wincLimitation.toString()).to.equal("1000");
+      expect(catalog.limitationInterval).to.equal(1);
+      expect(catalog.limitationIntervalUnit).to.equal("day");
+    });
+
+    it("getAdjustmentCatalog throws AdjustmentCatalogNotFound for an unknown catalog", async () => {
+      await expectAsyncErrorThrow({
+        promiseToError: db.getAdjustmentCatalog("payment", "unknown catalog"),
+        errorType: "AdjustmentCatalogNotFound",
+      });
+    });
+
+    it("getAdjustmentCatalogs returns scheduled catalogs unless only active catalogs are requested", async () => {
+      const catalogIds = (await db.getAdjustmentCatalogs("upload")).map(
+        ({ catalogId }) => catalogId
+      );
+      expect(catalogIds).to.include(stubUploadCatalog.catalogId);
+
+      const activeCatalogIds = (
+        await db.getAdjustmentCatalogs("upload", true)
+      ).map(({ catalogId }) => catalogId);
+      expect(activeCatalogIds).to.not.include(stubUploadCatalog.catalogId);
+    });
+
+    it("updateAdjustmentCatalog updates the catalog and clears a removed end date", async () => {
+      await db.updateAdjustmentCatalog("upload", {
+        ...stubUploadCatalog,
+        name: "Renamed Upload Subsidy",
+        endDate: undefined,
+      });
+
+      const catalog = await db.getAdjustmentCatalog(
+        "upload",
+        stubUploadCatalog.catalogId
+      );
+      expect(catalog.name).to.equal("Renamed Upload Subsidy");
+      expect(catalog.endDate).to.be.null;
+    });
+
+    it("createAdjustmentCatalogs throws PromoCodeAlreadyExists for an unexpired promo code", async () => {
+      await expectAsyncErrorThrow({
+        promiseToError: db.createAdjustmentCatalogs("promo-code", [
+          {
+            ...stubPromoCodeCatalog,
+            catalogId: "Another Promo Code Catalog -- Admin Methods",
+          },
+        ]),
+        errorType: "PromoCodeAlreadyExists",
+      });
+    });
+
+    it("createAdjustmentCatalogs allows reusing the code of an expired promo code", async () => {
+      await db.updateAdjustmentCatalog("promo-code", {
+        ...stubPromoCodeCatalog,
+        startDate: "2000-01-01T00:00:00.000Z",
+        endDate: "2000-01-02T00:00:00.000Z",
+      });
+
+      const reissuedCatalog = {
+        ...stubPromoCodeCatalog,
+        catalogId: "Reissued Promo Code Catalog -- Admin Methods",
+      };
+      await db.createAdjustmentCatalogs("promo-code", [reissuedCatalog]);
+
+      const catalog = await db.getAdjustmentCatalog(
+        "promo-code",
+        reissuedCatalog.catalogId
+      );
+      expect(catalog.codeValue).to.equal(stubPromoCodeCatalog.codeValue);
+      expect(catalog.exclusivity).to.equal("exclusive");
+      expect(catalog.targetUserGroup).to.equal("new");
+      expect(catalog.maxUses).to.equal(10);
+    });
+  });
+
+  describe("organization methods", () => {
+    const organizationId = "Organization ID -- Organization Methods";
+    const adminAddress = "Admin Address -- Organization Methods";
+    const uploaderAddress = "Uploader Address -- Organization Methods";
+
+    before(async () => {
+      await dbTestHelper.insertStubUser({
+        user_address: adminAddress,
+        winston_credit_balance: "1000",
+      });
+      await dbTestHelper.insertStubUser({
+        user_address: uploaderAddress,
+        winston_credit_balance: "1000",
+      });
+
+      await db.createOrganization({
+        organizationId,
+        organizationName: "Test Organization",
+        adminAddress,
+        adminAddressType: "arweave",
+      });
+      await db.addOrganizationMember({
+        organizationId,
+        userAddress: uploaderAddress,
+        userAddressType: "arweave",
+        role: "uploader",
+        wincSpendingLimit: W(300),
+      });
+    });
+
+    it("createOrganization adds the creator as the first admin", async () => {
+      const organization = await db.getOrganization(organizationId);
+      expect(organization.organizationName).to.equal("Test Organization");
+      expect(+organization.winc).to.equal(0);
+
+      const members = await db.getOrganizationMembers(organizationId);
+      expect(
+        members.map(({ userAddress, role }) => [userAddress, role])
+      ).to.deep.equal([
+        [adminAddress, "admin"],
+        [uploaderAddress, "uploader"],
+      ]);
+    });
+
+    it("addOrganizationMember throws OrganizationMemberAlreadyExists for a wallet that is already in an organization", async () => {
+      await expectAsyncErrorThrow({
+        promiseToError: db.createOrganization({
+          organizationId: "Second Organization ID -- Organization Methods",
+          organizationName: "Second Organization",
+          adminAddress: uploaderAddress,
+          adminAddressType: "arweave",
+        }),
+        errorType: "OrganizationMemberAlreadyExists",
+        errorMessage: `Address '${uploaderAddress}' is already a member of an organization`,
+      });
+    });
+
+    it("removeOrganizationMember throws LastOrganizationAdmin for the last admin", async () => {
+      await expectAsyncErrorThrow({
+        promiseToError: db.removeOrganizationMember({
+          organizationId,
+          userAddress: adminAddress,
+        }),
+        errorType: "LastOrganizationAdmin",
+      });
+      await expectAsyncErrorThrow({
+        promiseToError: db.updateOrganizationMember({
+          organizationId,
+          userAddress: adminAddress,
+          role: "uploader",
+        }),
+        errorType: "LastOrganizationAdmin",
+      });
+    });
+
+    it("depositToOrganization moves winc from the member to the organization", async () => {
+      const organization = await db.depositToOrganization({
+        organizationId,
+        userAddress: adminAddress,
+        wincAmount: W(500),
+      });
+      expect(+organization.winc).to.equal(500);
+
+      const adminUser = await db.getUser(adminAddress);
+      expect(+adminUser.winstonCreditBalance).to.equal(500);
+
+      const auditLogs = await dbTestHelper
+        .knex<AuditLogDBResult>(tableNames.auditLog)
+        .whereIn("user_address", [adminAddress, organizationId])
+        .where({ change_reason: "organization_deposit" })
+        .orderBy("audit_id");
+      expect(
+        auditLogs.map(({ user_address, winston_credit_amount }) => [
+          user_address,
+          winston_credit_amount,
+        ])
+      ).to.deep.equal([
+        [adminAddress, "-500"],
+        [organizationId, "500"],
+      ]);
+
+      await expectAsyncErrorThrow({
+        promiseToError: db.depositToOrganization({
+          organizationId,
+          userAddress: adminAddress,
+          wincAmount: W(501),
+        }),
+        errorType: "InsufficientBalance",
+      });
+    });
+
+    it("reserveBalance charges the organization of a member up to their spending limit and the signer for the overflow", async () => {
+      const dataItemId = "Unique Data Item ID -- Organization Reserve Test";
+
+      await db.reserveBalance({
+        signerAddress: uploaderAddress,
+        reservedWincAmount: new FinalPrice(new Winston(400)),
+        networkWincAmount: new NetworkPrice(new Winston(400)),
+        dataItemId,
+        adjustments: [],
+        signerAddressType: "arweave",
+      });
+
+      const organization = await db.getOrganization(organizationId);
+      expect(+organization.winc).to.equal(200);
+
+      const member = await db.getOrganizationMembership(uploaderAddress);
+      expect(+(member?.usedWincAmount ?? 0)).to.equal(300);
+
+      const uploaderUser = await db.getUser(uploaderAddress);
+      expect(+uploaderUser.winstonCreditBalance).to.equal(900);
+
+      const balanceReservationDbResult = (
+        await dbTestHelper
+          .knex<BalanceReservationDBResult>(tableNames.balanceReservation)
+          .where({ data_item_id: dataItemId })
+      )[0];
+      expect(balanceReservationDbResult.overflow_spend).to.deep.equal([
+        { paying_address: organizationId, winc_amount: "300" },
+        { paying_address: uploaderAddress, winc_amount: "100" },
+      ]);
+
+      const organizationAuditLog = await dbTestHelper
+        .knex<AuditLogDBResult>(tableNames.auditLog)
+        .where({ user_address: organizationId, change_id: dataItemId })
+        .first();
+      expect(organizationAuditLog?.change_reason).to.equal(
+        "organization_upload"
+      );
+      expect(organizationAuditLog?.winston_credit_amount).to.equal("-300");
+    });
+
+    it("refundBalance returns the organization's share to its balance and to the member's spending limit", async () => {
+      const dataItemId = "Unique Data Item ID -- Organization Reserve Test";
+
+      await db.refundBalance(uploaderAddress, W(400), dataItemId);
+
+      const organization = await db.getOrganization(organizationId);
+      expect(+organization.winc).to.equal(500);
+
+      const member = await db.getOrganizationMembership(uploaderAddress);
+      expect(+(member?.usedWincAmount ?? 1)).to.equal(0);
+
+      const uploaderUser = await db.getUser(uploaderAddress);
+      expect(+uploaderUser.winstonCreditBalance).to.equal(1000);
+    });
+
+    it("reserveBalance only charges the signer once they leave the organization", async () => {
+      await db.removeOrganizationMember({
+        organizationId,
+        userAddress: uploaderAddress,
+      });
+
+      await db.reserveBalance({
+        signerAddress: uploaderAddress,
+        reservedWincAmount: new FinalPrice(new Winston(100)),
+        networkWincAmount: new NetworkPrice(new Winston(100)),
+        dataItemId: "Unique Data Item ID -- Organization Leave Test",
+        adjustments: [],
+        signerAddressType: "arweave",
+      });
+
+      const organization = await db.getOrganization(organizationId);
+      expect(+organization.winc).to.equal(500);
+
+      const uploaderUser = await db.getUser(uploaderAddress);
+      expect(+uploaderUser.winstonCreditBalance).to.equal(900);
+    });
+  });
+
+  describe("claimRequestNonce method", () => {
+    const signerAddress = "Unique User -- Request Nonce";
+
+    it("claims a nonce once per signer", async () => {
+      const nonce = "Unique Nonce -- Claim Once";
+
+      expect(
+        await db.claimRequestNonce({ signerAddress, nonce, ttlMs: 60_000 })
+      ).to.be.true;
+      expect(
+        await db.claimRequestNonce({ signerAddress, nonce, ttlMs: 60_000 })
+      ).to.be.false;
+      expect(
+        await db.claimRequestNonce({
+          signerAddress: "Unique User -- Request Nonce Other Signer",
+          nonce,
+          ttlMs: 60_000,
+        })
+      ).to.be.true;
+    });
+
+    it("claims an expired nonce again", async () => {
+      const nonce = "Unique Nonce -- Expired";
+      await dbTestHelper.knex(tableNames.requestNonce).insert({
+        signer_address: signerAddress,
+        nonce,
+        expiration_date: new Date(Date.now() - 1000).toISOString(),
+      });
+
+      expect(
+        await db.claimRequestNonce({ signerAddress, nonce, ttlMs: 60_000 })
+      ).to.be.true;
+
+      const nonceRows = await dbTestHelper
+        .knex(tableNames.requestNonce)
+        .where({ signer_address: signerAddress, nonce });
+      expect(nonceRows).to.have.length(1);
+      expect(
+        new Date(nonceRows[0].expiration_date).getTime()
+      ).to.be.greaterThan(Date.now());
+    });
+  });
+
+  describe("API key methods", () => {
+    const userAddress = "Unique User -- API Keys";
+
+    it("createApiKey and getApiKeys store keys with their scopes", async () => {
+      await db.createApiKey({
+        apiKeyId: "Unique API Key -- Create",
+        hashedSecret: "stub-hashed-secret",
+        userAddress,
+        userAddressType: "arweave",
+        name: "Router Key",
+        scopes: ["read_balance", "upload"],
+        rateLimitPerMinute: 30,
+      });
+
+      const apiKeys = await db.getApiKeys(userAddress);
+      expect(apiKeys).to.have.length(1);
+      expect(apiKeys[0].scopes).to.deep.equal(["read_balance", "upload"]);
+      expect(apiKeys[0].rateLimitPerMinute).to.equal(30);
+      expect(apiKeys[0].lastUsedDate).to.be.undefined;
+      expect(apiKeys[0].revokedDate).to.be.undefined;
+    });
+
+    it("recordApiKeyUse counts requests within the rate limit window", async () => {
+      const apiKeyId = "Unique API Key -- Record Use";
+      await db.createApiKey({
+        apiKeyId,
+        hashedSecret: "stub-hashed-secret",
+        userAddress,
+        userAddressType: "arweave",
+        name: "Counted Key",
+        scopes: ["read_balance"],
+      });
+
+      expect(await db.recordApiKeyUse(apiKeyId)).to.equal(1);
+      expect(await db.recordApiKeyUse(apiKeyId)).to.equal(2);
+      expect((await db.getApiKey(apiKeyId))?.lastUsedDate).to.exist;
+
+      // Requests in an earlier window no longer count toward the limit
+      await dbTestHelper
+        .knex(tableNames.apiKey)
+        .where({ api_key_id: apiKeyId })
+        .update({
+          rate_limit_window_start: new Date(Date.now() - 120_000).toISOString(),
+        });
+      expect(await db.recordApiKeyUse(apiKeyId)).to.equal(1);
+    });
+
+    it("revokeApiKey only revokes active keys of the given account", async () => {
+      const apiKeyId = "Unique API Key -- Revoke";
+      await db.createApiKey({
+        apiKeyId,
+        hashedSecret: "stub-hashed-secret",
+        userAddress,
+        userAddressType: "arweave",
+        name: "Revoked Key",
+        scopes: ["create_approvals"],
+      });
+
+      await expectAsyncErrorThrow({
+        promiseToError: db.revokeApiKey({
+          apiKeyId,
+          userAddress: "Unique User -- API Keys Other Account",
+        }),
+        errorType: "ApiKeyNotFound",
+        errorMessage: `No active API key found in the database with ID '${apiKeyId}'`,
+      });
+
+      const revokedApiKey = await db.revokeApiKey({ apiKeyId, userAddress });
+      expect(revokedApiKey.revokedDate).to.exist;
+
+      await expectAsyncErrorThrow({
+        promiseToError: db.revokeApiKey({ apiKeyId }),
+        errorType: "ApiKeyNotFound",
+        errorMessage: `No active API key found in the database with ID '${apiKeyId}'`,
+      });
+    });
+  });
 });
@@ -18,10 +18,11 @@ import { ARIOToken, mARIOToken } from "@ar.io/sdk";
 import Arweave from "arweave/node/common";
 import axiosPackage from "axios";
 import BigNumber from "bignumber.js";
+import bs58 from "bs58";
 import { expect } from "chai";
 import { Server } from "http";
 import { sign } from "jsonwebtoken";
-import { randomUUID } from "node:crypto";
+import { generateKeyPairSync, randomUUID } from "node:crypto";
 import { spy, stub, useFakeTimers } from "sinon";
 import Stripe from "stripe";
 
@@ -63,6 +64,7 @@ import {
 } from "../src/pricing/pricing";
 import { walletAddresses } from "../src/routes/info";
 import { createServer } from "../src/server";
+import { JWKInterface } from "../src/types/jwkTypes";
 import { supportedFiatPaymentCurrencyTypes } from "../src/types/supportedCurrencies";
 import { W, Winston } from "../src/types/winston";
 import { filterKeysFromObject } from "../src/utils/common";
@@ -70,6 +72,7 @@ import { arweaveRSAModulusToAddress } from "../src/utils/jwkUtils";
 import {
   signedRequestHeadersFromEthWallet,
   signedRequestHeadersFromJwk,
+  signedRequestHeadersFromSolanaKeys,
 } from "../tests/helpers/signData";
 import {
   oneHourAgo,
@@ -418,7 +421,7 @@ describe("Router tests", () => {
         validateStatus: () => true,
       })
       .get(`/v1/price/USD/123?promoCode=${routerTestPromoCode}`, {
-        headers: await signedRequestHeadersFromJwk(testArweaveWallet, "123"),
+        headers: await signedRequestHeadersFromJwk(testArweaveWallet),
       });
 
     expect(status).to.equal(200);
@@ -517,7 +520,7 @@ describe("Router tests", () => {
       .get(
         `/v1/price/USD/1234?promoCode=${routerTestPromoCode}&promoCode=${routerTestPromoCode}`,
         {
-          headers: await signedRequestHeadersFromJwk(testArweaveWallet, "123"),
+          headers: await signedRequestHeadersFromJwk(testArweaveWallet),
         }
       );
 
@@ -566,7 +569,7 @@ describe("Router tests", () => {
         validateStatus: () => true,
       })
       .get(`/v1/price/USD/100?promoCode=fakeCodeLOL`, {
-        headers: await signedRequestHeadersFromJwk(testArweaveWallet, "123"),
+        headers: await signedRequestHeadersFromJwk(testArweaveWallet),
       });
 
     expect(data).to.equal("No promo code found with code 'fakeCodeLOL'");
@@ -596,7 +599,7 @@ describe("Router tests", () => {
       })
       // This wallet just used this code above... So we should now fail
       .get(`/v1/price/USD/100?promoCode=${routerTestPromoCode}`, {
-        headers: await signedRequestHeadersFromJwk(jwk, "123"),
+        headers: await signedRequestHeadersFromJwk(jwk),
       });
 
     expect(data).to.equal(
@@ -652,7 +655,7 @@ describe("Router tests", () => {
 
   it("GET /balance returns 200 for correct signature", async () => {
     const { status, statusText, data } = await axios.get(`/v1/balance`, {
-      headers: await signedRequestHeadersFromJwk(testArweaveWallet, "123"),
+      headers: await signedRequestHeadersFromJwk(testArweaveWallet),
     });
 
     const balance = Number(data.winc);
@@ -710,7 +713,7 @@ describe("Router tests", () => {
     const jwk = await Arweave.crypto.generateJWK();
 
     const { status, statusText, data } = await axios.get(`/v1/balance`, {
-      headers: await signedRequestHeadersFromJwk(jwk, "123"),
+      headers: await signedRequestHeadersFromJwk(jwk),
     });
 
     expect(status).to.equal(404);
@@ -733,6 +736,40 @@ describe("Router tests", () => {
     expect(data).to.equal("Invalid signature or missing required headers");
   });
 
+  it("GET /balance returns 403 when signed request headers are replayed", async () => {
+    const headers = await signedRequestHeadersFromJwk(testArweaveWallet);
+
+    const { status: firstStatus } = await axios.get(`/v1/balance`, {
+      headers,
+    });
+    expect(firstStatus).to.equal(200);
+
+    const { status, data } = await axios.get(`/v1/balance`, { headers });
+    expect(status).to.equal(403);
+    expect(data).to.equal("Invalid signature or missing required headers");
+  });
+
+  it("GET /balance returns 200 for a solana signature", async () => {
+    const solanaKeys = generateKeyPairSync("ed25519");
+    const solanaAddress = bs58.encode(
+      Buffer.from(
+        solanaKeys.publicKey.export({ format: "jwk" }).x as string,
+        "base64url"
+      )
+    );
+    await dbTestHelper.insertStubUser({
+      user_address: solanaAddress,
+      winston_credit_balance: "1000",
+    });
+
+    const { status, data } = await axios.get(`/v1/balance`, {
+      headers: signedRequestHeadersFromSolanaKeys(solanaKeys),
+    });
+
+    expect(status).to.equal(200);
+    expect(data.winc).to.equal("1000");
+  });
+
   it("GET /balance returns 503 when the database cannot be reached", async () => {
     stub(paymentDatabase, "getBalance").throws(Error("Whoops!"));
     const { status, data, statusText } = await axios.get(`/v1/balance`, {
@@ -962,7 +999,7 @@ describe("Router tests", () => {
       .get(
         `/v1/top-up/payment-intent/${testAddress}/usd/${topUpAmount}?promoCode=${routerTestPromoCode}`,
         {
-          headers: await signedRequestHeadersFromJwk(testArweaveWallet, "123"),
+          headers: await signedRequestHeadersFromJwk(testArweaveWallet),
         }
       );
 
@@ -1036,7 +1073,7 @@ describe("Router tests", () => {
       .get(
         `/v1/top-up/payment-intent/${testAddress}/usd/1000?promoCode=fakeCodeLOL`,
         {
-          headers: await signedRequestHeadersFromJwk(testArweaveWallet, "123"),
+          headers: await signedRequestHeadersFromJwk(testArweaveWallet),
         }
       );
 
@@ -1069,7 +1106,7 @@ describe("Router tests", () => {
       .get(
         `/v1/top-up/payment-intent/${userAddress}/usd/1000?promoCode=${routerTestPromoCode}`,
         {
-          headers: await signedRequestHeadersFromJwk(jwk, "123"),
+          headers: await signedRequestHeadersFromJwk(jwk),
         }
       );
 
@@ -3434,6 +3471,753 @@ describe("Router tests", () => {
       expect(paymentAmount).to.equal(8355);
     });
   });
+
+  describe("GET /v1/account/ledger and /v1/account/statement/:month", () => {
+    let jwk: JWKInterface;
+    let userAddress: string;
+
+    before(async function () {
+      this.timeout(5_000);
+      jwk = await Arweave.crypto.generateJWK();
+      userAddress = arweaveRSAModulusToAddress(jwk.n);
+
+      await dbTestHelper.insertStubAuditLogs([
+        {
+          user_address: userAddress,
+          winston_credit_amount: "1000",
+          change_reason: "payment",
+          change_id: "ledger payment",
+          audit_date: "2024-03-05T00:00:00.000Z",
+        },
+        {
+          user_address: userAddress,
+          winston_credit_amount: "-300",
+          change_reason: "upload",
+          change_id: "ledger upload 1",
+          audit_date: "2024-03-06T00:00:00.000Z",
+        },
+        {
+          user_address: userAddress,
+          winston_credit_amount: "-200",
+          change_reason: "upload",
+          change_id: "ledger upload 2",
+          audit_date: "2024-04-01T00:00:00.000Z",
+        },
+      ]);
+    });
+
+    it("GET /v1/account/ledger returns paginated entries with running balances", async () => {
+      const { status, data } = await axios.get(`/v1/account/ledger?limit=2`, {
+        headers: await signedRequestHeadersFromJwk(jwk),
+      });
+
+      expect(status).to.equal(200);
+      expect(
+        data.entries.map(
+          ({ changeId, winc, balance }: Record<string, string>) => ({
+            changeId,
+            winc,
+            balance,
+          })
+        )
+      ).to.deep.equal([
+        { changeId: "ledger upload 2", winc: "-200", balance: "500" },
+        { changeId: "ledger upload 1", winc: "-300", balance: "700" },
+      ]);
+      expect(data.nextCursor).to.equal(data.entries[1].auditId.toString());
+
+      const { data: nextPage } = await axios.get(
+        `/v1/account/ledger?limit=2&cursor=${data.nextCursor}`,
+        { headers: await signedRequestHeadersFromJwk(jwk) }
+      );
+      expect(nextPage.entries.length).to.equal(1);
+      expect(nextPage.entries[0].changeReason).to.equal("payment");
+      expect(nextPage.entries[0].balance).to.equal("1000");
+      expect(nextPage.nextCursor).to.be.undefined;
+    });
+
+    it("GET /v1/account/ledger filters entries by reason and date", async () => {
+      const { status, data } = await axios.get(
+        `/v1/account/ledger?reason=upload&from=2024-03-01&to=2024-04-01`,
+        { headers: await signedRequestHeadersFromJwk(jwk) }
+      );
+
+      expect(status).to.equal(200);
+      expect(data.entries.length).to.equal(1);
+      expect(data.entries[0].changeId).to.equal("ledger upload 1");
+      expect(data.entries[0].balance).to.equal("700");
+    });
+
+    it("GET /v1/account/ledger returns 400 for an unknown reason", async () => {
+      const { status, data } = await axios.get(
+        `/v1/account/ledger?reason=upload,not_a_reason`,
+        { headers: await signedRequestHeadersFromJwk(jwk) }
+      );
+
+      expect(status).to.equal(400);
+      expect(data).to.contain("Invalid reason parameter: not_a_reason");
+    });
+
+    it("GET /v1/account/ledger returns 403 without a signature", async () => {
+      const { status, data } = await axios.get(`/v1/account/ledger`);
+
+      expect(status).to.equal(403);
+      expect(data).to.equal("Invalid signature or missing required headers");
+    });
+
+    it("GET /v1/account/statement/:month returns the statement of the month", async () => {
+      const { status, data } = await axios.get(
+        `/v1/account/statement/2024-04`,
+        { headers: await signedRequestHeadersFromJwk(jwk) }
+      );
+
+      expect(status).to.equal(200);
+      expect(data).to.deep.equal({
+        month: "2024-04",
+        fromDate: "2024-04-01T00:00:00.000Z",
+        toDate: "2024-05-01T00:00:00.000Z",
+        openingBalance: "700",
+        closingBalance: "500",
+        reasons: [
+          {
+            changeReason: "upload",
+            entryCount: 1,
+            creditedWinc: "0",
+            debitedWinc: "200",
+            netWinc: "-200",
+          },
+        ],
+      });
+    });
+
+    it("GET /v1/account/statement/:month exports the statement as CSV", async () => {
+      const { status, data, headers } = await axios.get(
+        `/v1/account/statement/2024-03?format=csv`,
+        { headers: await signedRequestHeadersFromJwk(jwk) }
+      );
+
+      expect(status).to.equal(200);
+      expect(headers["content-type"]).to.contain("text/csv");
+      expect(headers["content-disposition"]).to.equal(
+        'attachment; filename="statement-2024-03.csv"'
+      );
+      expect(data).to.equal(
+        [
+          "reason,entry_count,credited_winc,debited_winc,net_winc",
+          "opening_balance,,,,0",
+          "payment,1,1000,0,1000",
+          "upload,1,0,300,-300",
+          "closing_balance,,,,700",
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("GET /v1/account/statement/:month returns 400 for a malformed month", async () => {
+      const { status, data } = await axios.get(
+        `/v1/account/statement/2024-13`,
+        { headers: await signedRequestHeadersFromJwk(jwk) }
+      );
+
+      expect(status).to.equal(400);
+      expect(data).to.equal("Invalid month parameter. Use the YYYY-MM format");
+    });
+  });
+
+  describe("organization routes", () => {
+    let adminJwk: JWKInterface;
+    let adminAddress: string;
+    let uploaderJwk: JWKInterface;
+    let uploaderAddress: string;
+    let organizationId: string;
+
+    before(async function () {
+      this.timeout(10_000);
+      adminJwk = await Arweave.crypto.generateJWK();
+      adminAddress = arweaveRSAModulusToAddress(adminJwk.n);
+      uploaderJwk = await Arweave.crypto.generateJWK();
+      uploaderAddress = arweaveRSAModulusToAddress(uploaderJwk.n);
+
+      await dbTestHelper.insertStubUser({
+        user_address: adminAddress,
+        winston_credit_balance: "1000",
+      });
+    });
+
+    it("POST /v1/organizations returns 403 without a signature", async () => {
+      const { status } = await axios.post(`/v1/organizations`, {
+        name: "Unsigned Organization",
+      });
+
+      expect(status).to.equal(403);
+    });
+
+    it("POST /v1/organizations creates an organization with the signer as admin", async () => {
+      const { status, data } = await axios.post(
+        `/v1/organizations`,
+        { name: "Router Test Organization" },
+        { headers: await signedRequestHeadersFromJwk(adminJwk) }
+      );
+
+      expect(status).to.equal(201);
+      expect(data.name).to.equal("Router Test Organization");
+      expect(data.winc).to.equal("0");
+      organizationId = data.organizationId;
+
+      const { data: organizations } = await axios.get(`/v1/organizations`, {
+        headers: await signedRequestHeadersFromJwk(adminJwk),
+      });
+      expect(organizations).to.deep.equal([{ ...data, role: "admin" }]);
+    });
+
+    it("POST /v1/organizations/:organizationId/members adds a member with a spending limit", async () => {
+      const { status, data } = await axios.post(
+        `/v1/organizations/${organizationId}/members`,
+        {
+          address: uploaderAddress,
+          addressType: "arweave",
+          wincSpendingLimit: "250",
+        },
+        { headers: await signedRequestHeadersFromJwk(adminJwk) }
+      );
+
+      expect(status).to.equal(201);
+      expect(data).to.deep.include({
+        address: uploaderAddress,
+        addressType: "arweave",
+        role: "uploader",
+        wincSpendingLimit: "250",
+        usedWinc: "0",
+      });
+    });
+
+    it("POST /v1/organizations/:organizationId/members stores EVM addresses checksummed", async () => {
+      const { status, data } = await axios.post(
+        `/v1/organizations/${organizationId}/members`,
+        {
+          address: "0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed",
+          addressType: "ethereum",
+        },
+        { headers: await signedRequestHeadersFromJwk(adminJwk) }
+      );
+
+      expect(status).to.equal(201);
+      expect(data.address).to.equal(
+        "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed"
+      );
+    });
+
+    it("POST /v1/organizations/:organizationId/members returns 403 for an uploader", async () => {
+      const { status, data } = await axios.post(
+        `/v1/organizations/${organizationId}/members`,
+        { address: randomCharString(), addressType: "arweave" },
+        { headers: await signedRequestHeadersFromJwk(uploaderJwk) }
+      );
+
+      expect(status).to.equal(403);
+      expect(data).to.equal("Only organization admins can manage members");
+    });
+
+    it("POST /v1/organizations/:organizationId/deposit moves winc from the signer to the organization", async () => {
+      const { status, data } = await axios.post(
+        `/v1/organizations/${organizationId}/deposit`,
+        { winc: "600" },
+        { headers: await signedRequestHeadersFromJwk(adminJwk) }
+      );
+
+      expect(status).to.equal(200);
+      expect(data.winc).to.equal("600");
+
+      const adminUser = await paymentDatabase.getUser(adminAddress);
+      expect(+adminUser.winstonCreditBalance).to.equal(400);
+    });
+
+    it("GET /v1/check-balance counts the organization balance of a member", async () => {
+      stub(pricingService, "getWCForBytes").resolves({
+        finalPrice: new FinalPrice(W(200)),
+        networkPrice: new NetworkPrice(W(200)),
+        deprecatedChunkBasedNetworkPrice: new NetworkPrice(W(200)),
+        adjustments: [],
+      });
+
+      // The uploader has no balance of their own
+      const { status, data } = await axios.get(
+        `/v1/check-balance/arweave/${uploaderAddress}?byteCount=1000`,
+        authHeaders
+      );
+
+      expect(status).to.equal(200);
+      expect(data.userHasSufficientBalance).to.be.true;
+    });
+
+    it("PATCH /v1/organizations/:organizationId/members/:userAddress updates the role and removes the spending limit", async () => {
+      const { status, data } = await axios.patch(
+        `/v1/organizations/${organizationId}/members/${uploaderAddress}`,
+        { role: "admin", wincSpendingLimit: null },
+        { headers: await signedRequestHeadersFromJwk(adminJwk) }
+      );
+
+      expect(status).to.equal(200);
+      expect(data.role).to.equal("admin");
+      expect(data.wincSpendingLimit).to.be.undefined;
+    });
+
+    it("GET /v1/organizations/:organizationId returns 404 for a wallet outside of the organization", async () => {
+      const outsiderJwk = await Arweave.crypto.generateJWK();
+      const { status } = await axios.get(
+        `/v1/organizations/${organizationId}`,
+        {
+          headers: await signedRequestHeadersFromJwk(outsiderJwk),
+        }
+      );
+
+      expect(status).to.equal(404);
+    });
+
+    it("DELETE /v1/organizations/:organizationId/members/:userAddress lets a member leave", async () => {
+      const { status } = await axios.delete(
+        `/v1/organizations/${organizationId}/members/${uploaderAddress}`,
+        { headers: await signedRequestHeadersFromJwk(uploaderJwk) }
+      );
+      expect(status).to.equal(204);
+
+      const { data } = await axios.get(`/v1/organizations/${organizationId}`, {
+        headers: await signedRequestHeadersFromJwk(adminJwk),
+      });
+      expect(
+        data.members.map(({ address }: { address: string }) => address)
+      ).to.not.include(uploaderAddress);
+    });
+  });
+
+  describe("API key routes", () => {
+    const adminPassword = "router-test-api-key-admin-password";
+    let ownerJwk: JWKInterface;
+    let ownerAddress: string;
+    let readBalanceApiKey: string;
+    let readBalanceApiKeyId: string;
+
+    let previousAdminPassword: string | undefined;
+    before(async function () {
+      this.timeout(10_000);
+      ownerJwk = await Arweave.crypto.generateJWK();
+      ownerAddress = arweaveRSAModulusToAddress(ownerJwk.n);
+      await dbTestHelper.insertStubUser({
+        user_address: ownerAddress,
+        winston_credit_balance: "1000",
+      });
+
+      previousAdminPassword = process.env.ADMIN_PASSWORD;
+      process.env.ADMIN_PASSWORD = adminPassword;
+    });
+
+    after(() => {
+      if (previousAdminPassword === undefined) {
+        delete process.env.ADMIN_PASSWORD;
+      } else {
+        process.env.ADMIN_PASSWORD = previousAdminPassword;
+      }
+    });
+
+    it("POST /v1/api-keys returns 403 without a signature", async () => {
+      const { status } = await axios.post(`/v1/api-keys`, {
+        name: "Unsigned Key",
+        scopes: ["read_balance"],
+      });
+
+      expect(status).to.equal(403);
+    });
+
+    it("POST /v1/api-keys returns 400 for an admin scope", async () => {
+      const { status, data } = await axios.post(
+        `/v1/api-keys`,
+        { name: "Admin Key", scopes: ["admin"] },
+        { headers: await signedRequestHeadersFromJwk(ownerJwk) }
+      );
+
+      expect(status).to.equal(400);
+      expect(data).to.equal("Admin API keys can only be issued by an admin");
+    });
+
+    it("POST /v1/api-keys issues a key to the signer that reads its balance", async () => {
+      const { status, data } = await axios.post(
+        `/v1/api-keys`,
+        { name: "Balance Reader", scopes: ["read_balance"] },
+        { headers: await signedRequestHeadersFromJwk(ownerJwk) }
+      );
+
+      expect(status).to.equal(201);
+      expect(data.address).to.equal(ownerAddress);
+      expect(data.addressType).to.equal("arweave");
+      expect(data.scopes).to.deep.equal(["read_balance"]);
+      expect(data.apiKey.startsWith(`${data.apiKeyId}.`)).to.be.true;
+      readBalanceApiKey = data.apiKey;
+      readBalanceApiKeyId = data.apiKeyId;
+
+      const { status: balanceStatus, data: balance } = await axios.get(
+        `/v1/balance`,
+        { headers: { "x-api-key": readBalanceApiKey } }
+      );
+      expect(balanceStatus).to.equal(200);
+      expect(balance.winc).to.equal("1000");
+
+      const { data: apiKeys } = await axios.get(`/v1/api-keys`, {
+        headers: await signedRequestHeadersFromJwk(ownerJwk),
+      });
+      expect(apiKeys).to.have.length(1);
+      expect(apiKeys[0].apiKeyId).to.equal(readBalanceApiKeyId);
+      expect(apiKeys[0].lastUsedDate).to.exist;
+      expect(apiKeys[0].apiKey).to.be.undefined;
+    });
+
+    it("GET /v1/api-keys/current returns 403 for a scope the key is not granted", async () => {
+      const { status, data } = await axios.get(
+        `/v1/api-keys/current?scope=upload`,
+        { headers: { "x-api-key": readBalanceApiKey } }
+      );
+
+      expect(status).to.equal(403);
+      expect(data).to.equal("API key is not granted the 'upload' scope");
+    });
+
+    it("GET /v1/account/approvals/create accepts a key only for its own account", async () => {
+      const { data: apiKey } = await axios.post(
+        `/v1/api-keys`,
+        { name: "Approver", scopes: ["create_approvals"] },
+        { headers: await signedRequestHeadersFromJwk(ownerJwk) }
+      );
+      const approvedAddress = "43CharacterStubApiKeyApprovedAddress1234567";
+
+      const { status: otherAccountStatus } = await axios.get(
+        `/v1/account/approvals/create?payingAddress=${testAddress}&approvedAddress=${approvedAddress}&dataItemId=43CharacterStubApiKeyApprovalId123456789012&winc=100`,
+        { headers: { "x-api-key": apiKey.apiKey } }
+      );
+      expect(otherAccountStatus).to.equal(401);
+
+      const { status, data } = await axios.get(
+        `/v1/account/approvals/create?payingAddress=${ownerAddress}&approvedAddress=${approvedAddress}&dataItemId=43CharacterStubApiKeyApprovalId123456789013&winc=100`,
+        { headers: { "x-api-key": apiKey.apiKey } }
+      );
+      expect(status).to.equal(200);
+      expect(data.payingAddress).to.equal(ownerAddress);
+    });
+
+    it("returns 429 once a key exceeds its rate limit", async () => {
+      const { data: apiKey } = await axios.post(
+        `/v1/api-keys`,
+        { name: "Limited", scopes: ["read_balance"], rateLimitPerMinute: 1 },
+        { headers: await signedRequestHeadersFromJwk(ownerJwk) }
+      );
+
+      const { status: firstStatus } = await axios.get(`/v1/balance`, {
+        headers: { "x-api-key": apiKey.apiKey },
+      });
+      expect(firstStatus).to.equal(200);
+
+      const { status, headers } = await axios.get(`/v1/balance`, {
+        headers: { "x-api-key": apiKey.apiKey },
+      });
+      expect(status).to.equal(429);
+      expect(headers["retry-after"]).to.equal("60");
+    });
+
+    it("DELETE /v1/api-keys/:apiKeyId revokes the key", async () => {
+      const { status, data } = await axios.delete(
+        `/v1/api-keys/${readBalanceApiKeyId}`,
+        { headers: await signedRequestHeadersFromJwk(ownerJwk) }
+      );
+      expect(status).to.equal(200);
+      expect(data.revokedDate).to.exist;
+
+      const { status: balanceStatus } = await axios.get(`/v1/balance`, {
+        headers: { "x-api-key": readBalanceApiKey },
+      });
+      expect(balanceStatus).to.equal(401);
+    });
+
+    it("POST /v1/admin/api-keys issues admin keys accepted by the admin routes", async () => {
+      const { status, data } = await axios.post(
+        `/v1/admin/api-keys`,
+        {
+          address: ownerAddress,
+          addressType: "arweave",
+          name: "Operator",
+          scopes: ["admin"],
+        },
+        {
+          headers: {
+            Authorization: `Basic ${Buffer.from(
+              `admin:${adminPassword}`
+            ).toString("base64")}`,
+          },
+        }
+      );
+      expect(status).to.equal(201);
+
+      const { status: catalogsStatus } = await axios.get(
+        `/v1/admin/adjustments/upload`,
+        { headers: { "x-api-key": data.apiKey } }
+      );
+      expect(catalogsStatus).to.equal(200);
+
+      const { data: readOnlyApiKey } = await axios.post(
+        `/v1/api-keys`,
+        { name: "Read Only", scopes: ["read_balance"] },
+        { headers: await signedRequestHeadersFromJwk(ownerJwk) }
+      );
+      const { status: readOnlyStatus } = await axios.get(
+        `/v1/admin/adjustments/upload`,
+        { headers: { "x-api-key": readOnlyApiKey.apiKey } }
+      );
+      expect(readOnlyStatus).to.equal(403);
+    });
+  });
+
+  describe("admin adjustment catalog routes", () => {
+    const adminPassword = "router-test-admin-password";
+    const adminAuthHeaders = {
+      headers: {
+        Authorization: `Basic ${Buffer.from(`admin:${adminPassword}`).toString(
+          "base64"
+        )}`,
+      },
+    };
+    // Far future start dates keep these catalogs from applying to any other test
+    const futureStartDate = "2099-01-01T00:00:00.000Z";
+
+    let previousAdminPassword: string | undefined;
+    before(() => {
+      previousAdminPassword = process.env.ADMIN_PASSWORD;
+      process.env.ADMIN_PASSWORD = adminPassword;
+    });
+
+    after(() => {
+      if (previousAdminPassword === undefined) {
+        delete process.env.ADMIN_PASSWORD;
+      } else {
+        process.env.ADMIN_PASSWORD = previousAdminPassword;
+      }
+    });
+
+    it("POST /v1/admin/adjustments/upload creates an upload adjustment catalog with defaults", async () => {
+      const { status, data } = await axios.post(
+        `/v1/admin/adjustments/upload`,
+        {
+          name: "Router Test Upload Subsidy",
+          operator: "multiply",
+          operatorMagnitude: 0.5,
+          startDate: futureStartDate,
+          wincLimitation: "1000000",
+        },
+        adminAuthHeaders
+      );
+
+      expect(status).to.equal(201);
+      expect(data.catalogId).to.be.a("string");
+      expect(data).to.deep.include({
+        name: "Router Test Upload Subsidy",
+        description: "",
+        operator: "multiply",
+        operatorMagnitude: 0.5,
+        priority: 500,
+        startDate: futureStartDate,
+        byteCountThreshold: 0,
+        wincLimitation: "1000000",
+        limitationInterval: 24,
+        limitationIntervalUnit: "hour",
+      });
+
+      const { status: getStatus, data: catalog } = await axios.get(
+        `/v1/admin/adjustments/upload/${data.catalogId}`,
+        adminAuthHeaders
+      );
+      expect(getStatus).to.equal(200);
+      expect(catalog.name).to.equal("Router Test Upload Subsidy");
+    });
+
+    it("POST /v1/admin/adjustments/payment returns 400 for a multiplier of zero", async () => {
+      const { status, data } = await axios.post(
+        `/v1/admin/adjustments/payment`,
+        {
+          name: "Router Test Payment Adjustment",
+          operator: "multiply",
+          operatorMagnitude: 0,
+          startDate: futureStartDate,
+        },
+        adminAuthHeaders
+      );
+
+      expect(status).to.equal(400);
+      expect(data).to.equal(
+        "Invalid operatorMagnitude. Provide a positive number for the multiply operator"
+      );
+    });
+
+    it("POST /v1/admin/adjustments/payment returns 400 for an end date before the start date", async () => {
+      const { status, data } = await axios.post(
+        `/v1/admin/adjustments/payment`,
+        {
+          name: "Router Test Payment Adjustment",
+          operator: "add",
+          operatorMagnitude: -100,
+          startDate: futureStartDate,
+          endDate: "2098-01-01T00:00:00.000Z",
+        },
+        adminAuthHeaders
+      );
+
+      expect(status).to.equal(400);
+      expect(data).to.equal("The endDate must be after the startDate");
+    });
+
+    it("POST /v1/admin/adjustments/promo-code generates promo codes in bulk", async () => {
+      const { status, data } = await axios.post(
+        `/v1/admin/adjustments/promo-code`,
+        {
+          name: "Router Test Bulk Promo Codes",
+          operator: "multiply",
+          operatorMagnitude: 0.8,
+          startDate: futureStartDate,
+          exclusivity: "exclusive",
+          maxUses: 1,
+          codeCount: 5,
+          codePrefix: "ROUTERBULK-",
+        },
+        adminAuthHeaders
+      );
+
+      expect(status).to.equal(201);
+      expect(data.length).to.equal(5);
+      const codeValues = data.map(
+        ({ codeValue }: { codeValue: string }) => codeValue
+      );
+      expect(new Set(codeValues).size).to.equal(5);
+      for (const codeValue of codeValues) {
+        expect(codeValue).to.match(/^ROUTERBULK-[A-Z2-9]{10}$/);
+      }
+      expect(
+        new Set(data.map(({ catalogId }: { catalogId: string }) => catalogId))
+          .size
+      ).to.equal(5);
+    });
+
+    it("POST /v1/admin/adjustments/promo-code returns 409 for a promo code that is already in use", async () => {
+      const promoCodeBody = {
+        name: "Router Test Promo Code",
+        operator: "multiply",
+        operatorMagnitude: 0.8,
+        startDate: futureStartDate,
+        codeValue: "ROUTER_ADMIN_CODE",
+      };
+      const { status } = await axios.post(
+        `/v1/admin/adjustments/promo-code`,
+        promoCodeBody,
+        adminAuthHeaders
+      );
+      expect(status).to.equal(201);
+
+      const { status: conflictStatus, data } = await axios.post(
+        `/v1/admin/adjustments/promo-code`,
+        promoCodeBody,
+        adminAuthHeaders
+      );
+      expect(conflictStatus).to.equal(409);
+      expect(data).to.equal(
+        "An unexpired promo code with code 'ROUTER_ADMIN_CODE' already exists"
+      );
+    });
+
+    it("PATCH /v1/admin/adjustments/:catalogType/:catalogId updates only the given fields", async () => {
+      const { data: created } = await axios.post(
+        `/v1/admin/adjustments/payment`,
+        {
+          name: "Router Test Payment Adjustment To Update",
+          operator: "add",
+          operatorMagnitude: -100,
+          startDate: futureStartDate,
+          exclusivity: "exclusive",
+        },
+        adminAuthHeaders
+      );
+
+      const { status, data } = await axios.patch(
+        `/v1/admin/adjustments/payment/${created.catalogId}`,
+        { operatorMagnitude: -200, endDate: "2099-06-01T00:00:00.000Z" },
+        adminAuthHeaders
+      );
+
+      expect(status).to.equal(200);
+      expect(data).to.deep.include({
+        catalogId: created.catalogId,
+        name: "Router Test Payment Adjustment To Update",
+        operatorMagnitude: -200,
+        exclusivity: "exclusive",
+        startDate: futureStartDate,
+        endDate: "2099-06-01T00:00:00.000Z",
+      });
+    });
+
+    it("DELETE /v1/admin/adjustments/:catalogType/:catalogId expires a scheduled catalog", async () => {
+      const { data: created } = await axios.post(
+        `/v1/admin/adjustments/upload`,
+        {
+          name: "Router Test Upload Adjustment To Expire",
+          operator: "add",
+          operatorMagnitude: -1000,
+          startDate: futureStartDate,
+        },
+        adminAuthHeaders
+      );
+
+      const { status, data } = await axios.delete(
+        `/v1/admin/adjustments/upload/${created.catalogId}`,
+        adminAuthHeaders
+      );
+
+      expect(status).to.equal(200);
+      // A catalog that has not started yet ends as soon as it starts
+      expect(new Date(data.endDate).toISOString()).to.equal(futureStartDate);
+    });
+
+    it("GET /v1/admin/adjustments/:catalogType/:catalogId returns 404 for an unknown catalog", async () => {
+      const { status } = await axios.get(
+        `/v1/admin/adjustments/payment/unknown-catalog`,
+        adminAuthHeaders
+      );
+
+      expect(status).to.equal(404);
+    });
+
+    it("GET /v1/admin/adjustments/:catalogType returns 400 for an unknown catalog type", async () => {
+      const { status, data } = await axios.get(
+        `/v1/admin/adjustments/storage`,
+        adminAuthHeaders
+      );
+
+      expect(status).to.equal(400);
+      expect(data).to.equal(
+        "Invalid catalog type. Try one of these: upload,payment,promo-code"
+      );
+    });
+
+    it("GET /v1/admin/adjustments/:catalogType returns 401 for wrong credentials", async () => {
+      const { status, headers } = await axios.get(
+        `/v1/admin/adjustments/upload`,
+        {
+          headers: {
+            Authorization: `Basic ${Buffer.from("admin:wrong").toString(
+              "base64"
+            )}`,
+          },
+        }
+      );
+
+      expect(status).to.equal(401);
+      expect(headers["www-authenticate"]).to.equal(
+        'Basic realm="AR.IO Bundler Admin"'
+      );
+    });
+  });
 });
 
 describe("Caching behavior tests", () => {
@@ -0,0 +1,12 @@
+"use-strict";
+
+// Mocha configuration file
+// Reference for options: https://github.com/mochajs/mocha/blob/master/example/config/.mocharc.js
+module.exports = {
+  extension: ["ts"],
+  require: ["ts-node/register/transpile-only"],
+  timeout: "20000", // 20 seconds
+  parallel: false,
+  exit: true,
+  recursive: true,
+};
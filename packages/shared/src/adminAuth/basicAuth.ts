@@ -0,0 +1,76 @@
+/**
+ * Basic Auth with the admin credentials shared by the payment and upload services
+ */
+import { timingSafeEqual } from 'crypto';
+
+import { DEFAULT_ADMIN_USERNAME } from '../constants';
+
+export interface AdminCredentials {
+  username: string;
+  password: string;
+}
+
+export type AdminAuthRejection = 'admin_not_configured' | 'invalid_credentials';
+
+export type AdminAuthentication =
+  | { isAuthenticated: true }
+  | { isAuthenticated: false; reason: AdminAuthRejection };
+
+/**
+ * Gets the admin credentials from ADMIN_USERNAME (default: admin) and ADMIN_PASSWORD.
+ * Returns undefined while ADMIN_PASSWORD is unset, which leaves the admin routes unavailable
+ */
+export function adminCredentialsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): AdminCredentials | undefined {
+  return env.ADMIN_PASSWORD
+    ? {
+        username: env.ADMIN_USERNAME || DEFAULT_ADMIN_USERNAME,
+        password: env.ADMIN_PASSWORD,
+      }
+    : undefined;
+}
+
+function credentialMatches(given: string, expected: string): boolean {
+  const givenBuffer = Buffer.from(given);
+  const expectedBuffer = Buffer.from(expected);
+  return (
+    givenBuffer.length === expectedBuffer.length &&
+    timingSafeEqual(givenBuffer, expectedBuffer)
+  );
+}
+
+/**
+ * Checks the Basic Auth credentials of an Authorization header against the admin credentials in
+ * constant time. Rejected requests should be answered 401 with a WWW-Authenticate header of
+ * ADMIN_AUTH_CHALLENGE, or 503 when the admin credentials are not configured
+ */
+export function authenticateAdminRequest(
+  authorizationHeader: string | undefined,
+  adminCredentials: AdminCredentials | undefined = adminCredentialsFromEnv()
+): AdminAuthentication {
+  if (!adminCredentials) {
+    return { isAuthenticated: false, reason: 'admin_not_configured' };
+  }
+
+  const [scheme, encodedCredentials] = (authorizationHeader ?? '').split(' ');
+  const credentials =
+    scheme === 'Basic' && encodedCredentials
+      ? Buffer.from(encodedCredentials, 'base64').toString()
+      : '';
+  const separatorIndex = credentials.indexOf(':');
+  if (
+    separatorIndex === -1 ||
+    !credentialMatches(
+      credentials.slice(0, separatorIndex),
+      adminCredentials.username
+    ) ||
+    !credentialMatches(
+      credentials.slice(separatorIndex + 1),
+      adminCredentials.password
+    )
+  ) {
+    return { isAuthenticated: false, reason: 'invalid_credentials' };
+  }
+  return { isAuthenticated: true };
+}
@@ -0,0 +1,4 @@
+/**
+ * Admin route authentication shared by the payment and upload services
+ */
+export * from './basicAuth';
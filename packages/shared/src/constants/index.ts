@@ -12,6 +12,14 @@ export const MS_PER_DAY = 24 * MS_PER_HOUR;
 export const DATA_ITEM_ID_LENGTH = 43;
 export const MAX_DATA_ITEM_SIZE = 10 * 1024 * 1024 * 1024; // 10GB default
 
+// Signed request constants
+export const DEFAULT_REQUEST_NONCE_TTL_MS = 5 * MS_PER_MINUTE;
+export const MAX_REQUEST_NONCE_LENGTH = 128;
+
+// Admin route constants
+export const DEFAULT_ADMIN_USERNAME = 'admin';
+export const ADMIN_AUTH_CHALLENGE = 'Basic realm="AR.IO Bundler Admin"';
+
 // HTTP status codes
 export const HTTP_STATUS = {
   OK: 200,
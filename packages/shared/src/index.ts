@@ -13,5 +13,11 @@ export * from './utils';
 // Export constants
 export * from './constants';
 
+// Export signed request authentication
+export * from './signatures';
+
+// Export admin route authentication
+export * from './adminAuth';
+
 // Export middleware (when created)
 // export * from './middleware';
@@ -0,0 +1,9 @@
+/**
+ * Signed request authentication shared by the payment and upload services
+ */
+export {
+  ownerToNativeAddress,
+  ownerToNormalizedB64Address,
+} from './nativeAddress';
+export * from './requestSignature';
+export * from './signedRequest';
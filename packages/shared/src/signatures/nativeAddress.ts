@@ -0,0 +1,56 @@
+/**
+ * Address derivation for the owners of signed requests and data items
+ */
+import { pubkeyToAddress } from '@cosmjs/amino';
+import { Secp256k1 } from '@cosmjs/crypto';
+import { toBase64 } from '@cosmjs/encoding';
+import { SignatureConfig } from '@dha-team/arbundles';
+import bs58 from 'bs58';
+import { createHash } from 'crypto';
+import { computeAddress, hexlify } from 'ethers';
+
+export function fromB64Url(input: string): Buffer {
+  return Buffer.from(input, 'base64url');
+}
+
+export function toB64Url(buffer: Buffer): string {
+  return buffer.toString('base64url');
+}
+
+/**
+ * Returns the base64url SHA-256 of an owner, which is the arweave address for arweave owners
+ */
+export function ownerToNormalizedB64Address(owner: string): string {
+  return toB64Url(createHash('sha256').update(fromB64Url(owner)).digest());
+}
+
+/**
+ * Returns the address of a base64url owner on its native chain, falling back to the normalized
+ * base64url address for signature types without a native address format
+ */
+export function ownerToNativeAddress(
+  owner: string,
+  signatureType: number
+): string {
+  switch (signatureType) {
+    case SignatureConfig.ED25519:
+    case SignatureConfig.SOLANA:
+      return bs58.encode(fromB64Url(owner));
+
+    case SignatureConfig.ETHEREUM:
+      return computeAddress(hexlify(fromB64Url(owner)));
+
+    case SignatureConfig.KYVE:
+      return pubkeyToAddress(
+        {
+          type: 'tendermint/PubKeySecp256k1',
+          value: toBase64(Secp256k1.compressPubkey(fromB64Url(owner))),
+        },
+        'kyve'
+      );
+
+    case SignatureConfig.ARWEAVE:
+    default:
+      return ownerToNormalizedB64Address(owner);
+  }
+}
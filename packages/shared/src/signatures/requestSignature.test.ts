@@ -0,0 +1,162 @@
+import {
+  InjectedAptosSigner,
+  KyveSigner,
+  MultiSignatureAptosSigner,
+  SignatureConfig,
+  TypedEthereumSigner,
+} from '@dha-team/arbundles';
+import { expect } from 'chai';
+import { KeyObject, generateKeyPairSync, randomBytes, sign } from 'crypto';
+import { hexlify } from 'ethers';
+
+import { SERVICE_NAMES } from '../constants';
+import { toB64Url } from './nativeAddress';
+import { verifyRequestSignature } from './requestSignature';
+import { createRequestNonce } from './signedRequest';
+
+function ed25519KeyPair(): { privateKey: KeyObject; publicKey: Buffer } {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+  return {
+    privateKey,
+    publicKey: Buffer.from(
+      publicKey.export({ format: 'jwk' }).x as string,
+      'base64url'
+    ),
+  };
+}
+
+describe('verifyRequestSignature function', () => {
+  const nonce = createRequestNonce(SERVICE_NAMES.UPLOAD);
+
+  it('verifies a nonce signed by an ed25519 key', async () => {
+    const { privateKey, publicKey } = ed25519KeyPair();
+
+    const signer = await verifyRequestSignature({
+      signatureType: SignatureConfig.ED25519,
+      publicKey: toB64Url(publicKey),
+      signature: toB64Url(sign(null, Buffer.from(nonce), privateKey)),
+      nonce,
+    });
+
+    expect(signer).to.not.be.false;
+  });
+
+  it('verifies a nonce signed by an injected Aptos wallet', async () => {
+    const { privateKey, publicKey } = ed25519KeyPair();
+    // Aptos wallets sign the hex message wrapped in their own envelope
+    const signer = new InjectedAptosSigner(
+      {
+        signMessage: async ({
+          message,
+          nonce: envelopeNonce,
+        }: {
+          message: string;
+          nonce: string;
+        }) => ({
+          signature: sign(
+            null,
+            Buffer.from(`APTOS\nmessage: ${message}\nnonce: ${envelopeNonce}`),
+            privateKey
+          ).toString('hex'),
+        }),
+      } as unknown as ConstructorParameters<typeof InjectedAptosSigner>[0],
+      publicKey
+    );
+
+    expect(
+      await verifyRequestSignature({
+        signatureType: SignatureConfig.INJECTEDAPTOS,
+        publicKey: toB64Url(publicKey),
+        signature: toB64Url(Buffer.from(await signer.sign(Buffer.from(nonce)))),
+        nonce,
+      })
+    ).to.not.be.false;
+  });
+
+  it('verifies a nonce signed by the keys of an Aptos multi signature account', async () => {
+    const keyPairs = [ed25519KeyPair(), ed25519KeyPair()];
+    // 32 public key slots followed by the signature threshold
+    const publicKey = Buffer.alloc(32 * 32 + 1);
+    keyPairs.forEach(({ publicKey: keyPairPublicKey }, index) =>
+      publicKey.set(keyPairPublicKey, index * 32)
+    );
+    publicKey[32 * 32] = keyPairs.length;
+    const signer = new MultiSignatureAptosSigner(
+      publicKey,
+      async (message: Uint8Array) => ({
+        signatures: keyPairs.map(({ privateKey }) =>
+          sign(null, Buffer.from(message), privateKey)
+        ),
+        bitmap: keyPairs.map((_, index) => index),
+      })
+    );
+
+    expect(
+      await verifyRequestSignature({
+        signatureType: SignatureConfig.MULTIAPTOS,
+        publicKey: toB64Url(publicKey),
+        signature: toB64Url(Buffer.from(await signer.sign(Buffer.from(nonce)))),
+        nonce,
+      })
+    ).to.not.be.false;
+  });
+
+  it('verifies a nonce signed as typed Ethereum data by the address', async () => {
+    const signer = new TypedEthereumSigner(randomBytes(32).toString('hex'));
+
+    expect(
+      await verifyRequestSignature({
+        signatureType: SignatureConfig.TYPEDETHEREUM,
+        publicKey: signer.publicKey.toString(),
+        signature: toB64Url(Buffer.from(await signer.sign(Buffer.from(nonce)))),
+        nonce,
+      })
+    ).to.not.be.false;
+  });
+
+  it('verifies a nonce signed by a KYVE key and returns its KYVE address', async () => {
+    const signer = new KyveSigner(randomBytes(32).toString('hex'));
+    const signature = toB64Url(
+      Buffer.from(await signer.sign(Buffer.from(nonce)))
+    );
+
+    const verifiedSigner = await verifyRequestSignature({
+      signatureType: SignatureConfig.KYVE,
+      publicKey: hexlify(signer.publicKey),
+      signature,
+      nonce,
+    });
+
+    expect(verifiedSigner).to.not.be.false;
+    expect(verifiedSigner && verifiedSigner.nativeAddress).to.match(
+      /^kyve1[a-z0-9]+$/
+    );
+    expect(
+      await verifyRequestSignature({
+        signatureType: SignatureConfig.KYVE,
+        publicKey: toB64Url(signer.publicKey),
+        signature,
+        nonce,
+      })
+    ).to.deep.equal(verifiedSigner);
+  });
+
+  it('rejects a signature of another nonce', async () => {
+    const { privateKey, publicKey } = ed25519KeyPair();
+
+    expect(
+      await verifyRequestSignature({
+        signatureType: SignatureConfig.ED25519,
+        publicKey: toB64Url(publicKey),
+        signature: toB64Url(
+          sign(
+            null,
+            Buffer.from(createRequestNonce(SERVICE_NAMES.UPLOAD)),
+            privateKey
+          )
+        ),
+        nonce,
+      })
+    ).to.be.false;
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Verification of requests signed with the x-signature, x-public-key and x-nonce headers
+ */
+import {
+  Curve25519,
+  EthereumSigner,
+  SignatureConfig,
+  indexToType,
+} from '@dha-team/arbundles';
+import { webcrypto } from 'crypto';
+import { SigningKey, getBytes, isHexString } from 'ethers';
+
+import {
+  fromB64Url,
+  ownerToNativeAddress,
+  ownerToNormalizedB64Address,
+  toB64Url,
+} from './nativeAddress';
+
+export interface VerifyRequestSignatureParams {
+  signatureType: number;
+  /** Base64url public key of the signer. Ethereum and KYVE keys may also be hex encoded */
+  publicKey: string;
+  /** Base64url signature of the nonce */
+  signature: string;
+  nonce: string;
+}
+
+export interface VerifiedRequestSigner {
+  nativeAddress: string;
+  /** Normalized address of the signer's owner, as stored on its data items */
+  ownerPublicAddress: string;
+}
+
+/** Every signature type accepted on ANS-104 data items can sign requests */
+export const supportedRequestSignatureTypes: number[] = [
+  SignatureConfig.ARWEAVE,
+  SignatureConfig.ED25519,
+  SignatureConfig.ETHEREUM,
+  SignatureConfig.SOLANA,
+  SignatureConfig.INJECTEDAPTOS,
+  SignatureConfig.MULTIAPTOS,
+  SignatureConfig.TYPEDETHEREUM,
+  SignatureConfig.KYVE,
+];
+
+/**
+ * Verifies the signature of a nonce with the signer class arbundles uses for the signature type,
+ * so a request is signed the same way as a data item. Returns the signer's addresses, or false
+ * when the signature is invalid
+ */
+export async function verifyRequestSignature({
+  signatureType,
+  publicKey,
+  signature,
+  nonce,
+}: VerifyRequestSignatureParams): Promise<VerifiedRequestSigner | false> {
+  if (!supportedRequestSignatureTypes.includes(signatureType)) {
+    return false;
+  }
+
+  try {
+    const owner = publicKeyToOwner(publicKey, signatureType);
+    const message = Buffer.from(nonce);
+    const signatureBytes = fromB64Url(signature);
+
+    const isVerified =
+      (await signatureVerifier(signatureType).verify(
+        owner,
+        message,
+        signatureBytes
+      )) ||
+      (signatureType === SignatureConfig.ARWEAVE &&
+        (await verifyBrowserArweaveSignature(owner, message, signatureBytes)));
+    if (!isVerified) {
+      return false;
+    }
+
+    const b64Owner = toB64Url(owner);
+    return {
+      nativeAddress: ownerToNativeAddress(b64Owner, signatureType),
+      ownerPublicAddress: ownerToNormalizedB64Address(b64Owner),
+    };
+  } catch {
+    return false;
+  }
+}
+
+interface SignatureVerifier {
+  verify(pk: Buffer, message: Buffer, signature: Buffer): Promise<boolean>;
+}
+
+/**
+ * Wallets sign the raw nonce, so ed25519 keys are verified without the hex encoding arbundles' injected
+ * Solana signer expects. KYVE keys sign like Ethereum keys but have no entry in arbundles' signer index
+ */
+function signatureVerifier(signatureType: number): SignatureVerifier {
+  switch (signatureType) {
+    case SignatureConfig.ED25519:
+    case SignatureConfig.SOLANA:
+      return Curve25519;
+
+    case SignatureConfig.KYVE:
+      return EthereumSigner;
+
+    default:
+      return indexToType[signatureType];
+  }
+}
+
+/** Returns the owner bytes a data item signed by the same wallet would carry */
+function publicKeyToOwner(publicKey: string, signatureType: number): Buffer {
+  switch (signatureType) {
+    case SignatureConfig.ETHEREUM:
+    case SignatureConfig.KYVE:
+      return isHexString(publicKey)
+        ? Buffer.from(getBytes(SigningKey.computePublicKey(publicKey, false)))
+        : fromB64Url(publicKey);
+
+    case SignatureConfig.TYPEDETHEREUM:
+      // Typed ethereum owners are the signer's address rather than a public key
+      return isHexString(publicKey, 20)
+        ? Buffer.from(publicKey)
+        : fromB64Url(publicKey);
+
+    default:
+      return fromB64Url(publicKey);
+  }
+}
+
+/** Browser wallets sign the SHA-256 digest of the data with RSA-PSS */
+async function verifyBrowserArweaveSignature(
+  owner: Buffer,
+  message: Buffer,
+  signature: Buffer
+): Promise<boolean> {
+  const verificationKey = await webcrypto.subtle.importKey(
+    'jwk',
+    { e: 'AQAB', ext: true, kty: 'RSA', n: toB64Url(owner) },
+    { name: 'RSA-PSS', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+  return webcrypto.subtle.verify(
+    { name: 'RSA-PSS', saltLength: 32 },
+    verificationKey,
+    signature,
+    await webcrypto.subtle.digest('SHA-256', message)
+  );
+}
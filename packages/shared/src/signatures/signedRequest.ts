@@ -0,0 +1,179 @@
+/**
+ * Authentication of signed requests with nonce replay protection
+ */
+import { SignatureConfig } from '@dha-team/arbundles';
+import { randomUUID } from 'crypto';
+
+import {
+  DEFAULT_REQUEST_NONCE_TTL_MS,
+  MAX_REQUEST_NONCE_LENGTH,
+} from '../constants';
+import {
+  VerifiedRequestSigner,
+  supportedRequestSignatureTypes,
+  verifyRequestSignature,
+} from './requestSignature';
+
+export interface ClaimRequestNonceParams {
+  signerAddress: string;
+  nonce: string;
+  ttlMs: number;
+}
+
+/**
+ * Records the nonces of signed requests. Services back it with their own storage
+ */
+export interface RequestNonceStore {
+  /**
+   * Records the nonce for the signer. Resolves false when the signer has already used the nonce
+   * within its time to live, meaning the request is a replay
+   */
+  claimRequestNonce(params: ClaimRequestNonceParams): Promise<boolean>;
+}
+
+export type SignedRequestHeaders = Record<
+  string,
+  string | string[] | undefined
+>;
+
+export type SignedRequestRejection =
+  | 'missing_headers'
+  | 'unsupported_signature_type'
+  | 'invalid_nonce'
+  | 'expired_nonce'
+  | 'invalid_signature'
+  | 'replayed_nonce';
+
+export type SignedRequestAuthentication =
+  | (VerifiedRequestSigner & {
+      isAuthenticated: true;
+      signatureType: number;
+      nonce: string;
+      /** The unique part of the nonce, after its service and timestamp. The whole nonce when legacy */
+      nonceId: string;
+      isLegacyNonce: boolean;
+    })
+  | { isAuthenticated: false; reason: SignedRequestRejection };
+
+export interface AuthenticateSignedRequestParams {
+  headers: SignedRequestHeaders;
+  /** Name of the authenticating service, which signed nonces must be scoped to */
+  service: string;
+  nonceStore: RequestNonceStore;
+  nonceTtlMs?: number;
+  /**
+   * Accepts nonces that are not in the `<service>:<timestamp>:<id>` format, such as the plain UUIDs
+   * sent by clients that predate scoped nonces. Legacy nonces are only remembered for the nonce time to
+   * live, after which the same signed request is accepted again, so this defaults to false
+   */
+  acceptLegacyNonces?: boolean;
+  now?: number;
+}
+
+/**
+ * Returns a nonce for a request to the service: `<service>:<unix timestamp in ms>:<unique id>`.
+ * Signing the service and timestamp with the nonce stops a captured request from being replayed
+ * against another service, or after the nonce time to live has passed
+ */
+export function createRequestNonce(
+  service: string,
+  timestamp = Date.now(),
+  nonceId: string = randomUUID()
+): string {
+  return `${service}:${timestamp}:${nonceId}`;
+}
+
+/**
+ * Verifies the x-signature, x-signature-type, x-public-key and x-nonce headers of a request and
+ * claims its nonce so the same signed headers cannot be replayed. Nonces must be created for this
+ * service within the nonce time to live of now, and are only claimed once the signature is verified.
+ * Legacy nonces carry no service or timestamp, so they are only remembered for the nonce time to live
+ */
+export async function authenticateSignedRequest({
+  headers,
+  service,
+  nonceStore,
+  nonceTtlMs = DEFAULT_REQUEST_NONCE_TTL_MS,
+  acceptLegacyNonces = false,
+  now = Date.now(),
+}: AuthenticateSignedRequestParams): Promise<SignedRequestAuthentication> {
+  const signature = headerValue(headers, 'x-signature');
+  const publicKey = headerValue(headers, 'x-public-key');
+  const nonce = headerValue(headers, 'x-nonce');
+  const rawSignatureType = headerValue(headers, 'x-signature-type');
+
+  if (!signature || !publicKey || !nonce) {
+    return { isAuthenticated: false, reason: 'missing_headers' };
+  }
+
+  const signatureType = rawSignatureType
+    ? +rawSignatureType
+    : SignatureConfig.ARWEAVE;
+  if (!supportedRequestSignatureTypes.includes(signatureType)) {
+    return { isAuthenticated: false, reason: 'unsupported_signature_type' };
+  }
+
+  const nonceParts = parseRequestNonce(nonce);
+  if (
+    nonce.length > MAX_REQUEST_NONCE_LENGTH ||
+    (nonceParts ? nonceParts.service !== service : !acceptLegacyNonces)
+  ) {
+    return { isAuthenticated: false, reason: 'invalid_nonce' };
+  }
+
+  // Legacy nonces have no timestamp, so they are remembered for the nonce time to live from now
+  const nonceTimestamp = nonceParts?.timestamp ?? now;
+  // Nonces are accepted within their time to live either side of now to allow for clock skew
+  const nonceExpiresAt = nonceTimestamp + nonceTtlMs;
+  if (nonceExpiresAt <= now || nonceTimestamp - now > nonceTtlMs) {
+    return { isAuthenticated: false, reason: 'expired_nonce' };
+  }
+
+  const signer = await verifyRequestSignature({
+    signatureType,
+    publicKey,
+    signature,
+    nonce,
+  });
+  if (!signer) {
+    return { isAuthenticated: false, reason: 'invalid_signature' };
+  }
+
+  // The nonce only needs to be remembered until it expires, after which it is rejected as expired
+  const isNewNonce = await nonceStore.claimRequestNonce({
+    signerAddress: signer.nativeAddress,
+    nonce,
+    ttlMs: nonceExpiresAt - now,
+  });
+  if (!isNewNonce) {
+    return { isAuthenticated: false, reason: 'replayed_nonce' };
+  }
+
+  return {
+    isAuthenticated: true,
+    signatureType,
+    nonce,
+    nonceId: nonceParts?.nonceId ?? nonce,
+    isLegacyNonce: !nonceParts,
+    ...signer,
+  };
+}
+
+function parseRequestNonce(
+  nonce: string
+): { service: string; timestamp: number; nonceId: string } | undefined {
+  const match = /^([^:]+):(\d{1,15}):(.+)$/.exec(nonce);
+  if (!match) {
+    return undefined;
+  }
+  const [, service, timestamp, nonceId] = match;
+  return { service, timestamp: +timestamp, nonceId };
+}
+
+function headerValue(
+  headers: SignedRequestHeaders,
+  name: string
+): string | undefined {
+  const value = headers[name];
+  return typeof value === 'string' ? value : undefined;
+}
@@ -10,6 +10,9 @@ const lambdas = [
   "optical-post",
   "unbundle-bdi",
   "cleanup-fs",
+  "tier-storage",
+  "forecast-wallet-reserve",
+  "verify-chunks",
 ];
 
 lambdas.forEach((lambda) => {
@@ -0,0 +1,191 @@
+/**
+ * Replays a snapshot (or a synthetic distribution) of new_data_item rows through the bundle planning
+ * used by the plan job and reports the bundles, fill ratios, rewards and data item latencies it would produce.
+ *
+ * Planning limits are read from the same environment variables as the service, e.g.:
+ *
+ *   MAX_BUNDLE_SIZE=1073741824 OVERDUE_DATA_ITEM_THRESHOLD_MS=600000 \
+ *     yarn simulate:bundle-plans --snapshot ./new_data_items.json --price
+ *
+ * Options:
+ *   --snapshot <path>              JSON array of new_data_item rows (camelCase or snake_case columns)
+ *   --from-db                      Snapshot the new_data_item table and config table bundle types of the configured database
+ *   --synthetic-count <n>          Generate n synthetic data items instead of replaying a snapshot
+ *   --synthetic-duration-ms <ms>   Window the synthetic uploads are spread across (default: 1 hour)
+ *   --synthetic-mean-bytes <n>     Mean synthetic data item byte count (default: 100 KiB)
+ *   --synthetic-lanes <weights>    Premium feature type weights, e.g. "default=9,ao_dedicated_bundles=1"
+ *   --planning-interval-ms <ms>    Simulated plan job interval (default: 1 minute)
+ *   --price                        Price each bundle with the configured Arweave gateway
+ *   --output <path>                Write the simulated bundles and latencies as JSON
+ */
+import fs from "fs";
+import knex from "knex";
+
+import { ArweaveGateway } from "../src/arch/arweaveGateway";
+import { tableNames } from "../src/arch/db/dbConstants";
+import { getReaderConfig } from "../src/arch/db/knexConfig";
+import { PostgresDatabase } from "../src/arch/db/postgres";
+import {
+  SimulatedDataItem,
+  generateSyntheticDataItems,
+  priceSimulatedBundles,
+  simulateBundlePlanning,
+  summarizeBundlePlanSimulation,
+} from "../src/bundles/bundlePlanSimulator";
+import {
+  dedicatedBundleTypes as compileTimeDedicatedBundleTypes,
+  gatewayUrl,
+} from "../src/constants";
+import { DedicatedBundleTypes } from "../src/types/types";
+import { getDedicatedBundleTypes } from "../src/utils/dedicatedBundleTypes";
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith("--")) {
+      args[arg.slice(2)] = true;
+    } else {
+      args[arg.slice(2)] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+function numberArg(
+  args: Record<string, string | true>,
+  name: string,
+  defaultValue: number
+): number {
+  const value = args[name];
+  if (value === undefined) {
+    return defaultValue;
+  }
+  if (value === true || isNaN(+value)) {
+    throw new Error(`--${name} must be a number!`);
+  }
+  return +value;
+}
+
+function toSimulatedDataItem(row: Record<string, unknown>): SimulatedDataItem {
+  return {
+    dataItemId: String(row.dataItemId ?? row.data_item_id),
+    byteCount: +(row.byteCount ?? row.byte_count ?? 0),
+    uploadedDate: String(row.uploadedDate ?? row.uploaded_date),
+    premiumFeatureType: String(
+      row.premiumFeatureType ?? row.premium_feature_type ?? "default"
+    ),
+  };
+}
+
+async function snapshotNewDataItemsFromDb(): Promise<SimulatedDataItem[]> {
+  const reader = knex(getReaderConfig());
+  try {
+    // Read uploaded_date in UTC, matching PostgresDatabase.getNewDataItems
+    const { rows } = await reader.raw(
+      `SELECT data_item_id, byte_count, premium_feature_type,
+        uploaded_date AT TIME ZONE 'UTC' as uploaded_date
+        FROM ${tableNames.newDataItem}`
+    );
+    return rows.map(toSimulatedDataItem);
+  } finally {
+    await reader.destroy();
+  }
+}
+
+(async () => {
+  const args = parseArgs(process.argv.slice(2));
+
+  let bundleTypes: DedicatedBundleTypes = compileTimeDedicatedBundleTypes;
+  let dataItems: SimulatedDataItem[];
+  if (typeof args.snapshot === "string") {
+    const rows = JSON.parse(fs.readFileSync(args.snapshot, "utf-8"));
+    if (!Array.isArray(rows)) {
+      throw new Error("--snapshot file must contain a JSON array of rows!");
+    }
+    dataItems = rows.map(toSimulatedDataItem);
+  } else if (args["from-db"]) {
+    dataItems = await snapshotNewDataItemsFromDb();
+    bundleTypes = await getDedicatedBundleTypes(new PostgresDatabase());
+  } else if (args["synthetic-count"] !== undefined) {
+    const lanes =
+      typeof args["synthetic-lanes"] === "string"
+        ? Object.fromEntries(
+            args["synthetic-lanes"].split(",").map((lane) => {
+              const [premiumFeatureType, weight] = lane.split("=");
+              return [premiumFeatureType, +(weight ?? 1)];
+            })
+          )
+        : undefined;
+    dataItems = generateSyntheticDataItems({
+      count: numberArg(args, "synthetic-count", 0),
+      durationMs: numberArg(args, "synthetic-duration-ms", 60 * 60 * 1000),
+      meanByteCount: numberArg(args, "synthetic-mean-bytes", 100 * 1024),
+      premiumFeatureTypeWeights: lanes,
+    });
+  } else {
+    throw new Error(
+      "Provide one of --snapshot <path>, --from-db, or --synthetic-count <n>"
+    );
+  }
+
+  const simulation = simulateBundlePlanning({
+    dataItems,
+    bundleTypes,
+    planningIntervalMs: numberArg(args, "planning-interval-ms", 60_000),
+  });
+  const summary = summarizeBundlePlanSimulation(simulation);
+
+  const totalReward = args.price
+    ? await priceSimulatedBundles(
+        simulation.bundles,
+        new ArweaveGateway({ endpoint: gatewayUrl })
+      )
+    : undefined;
+
+  console.log(
+    JSON.stringify(
+      {
+        settings: {
+          maxBundleSize: process.env.MAX_BUNDLE_SIZE,
+          maxDataItemLimit: process.env.MAX_DATA_ITEM_LIMIT,
+          overdueThresholdMs: process.env.OVERDUE_DATA_ITEM_THRESHOLD_MS,
+          minBundleFillRatio: process.env.MIN_BUNDLE_FILL_RATIO,
+        },
+        dataItemCount: dataItems.length,
+        ...summary,
+        totalReward: totalReward?.toString(),
+      },
+      null,
+      2
+    )
+  );
+
+  if (typeof args.output === "string") {
+    fs.writeFileSync(
+      args.output,
+      JSON.stringify(
+        {
+          bundles: simulation.bundles.map(({ reward, ...bundle }) => ({
+            ...bundle,
+            reward: reward?.toString(),
+          })),
+          dataItemLatenciesMs: simulation.dataItemLatenciesMs,
+          unplannedDataItemIds: simulation.unplannedDataItemIds,
+        },
+        null,
+        2
+      )
+    );
+  }
+
+  process.exit(0);
+})().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
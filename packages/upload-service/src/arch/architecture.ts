@@ -21,8 +21,12 @@ import winston from "winston";
 
 import { gatewayUrl, migrateOnStartup } from "../constants";
 import globalLogger from "../logger";
+import {
+  BundlerWalletRegistry,
+  getBundlerWalletRegistry,
+} from "../utils/bundlerWallets";
 import { getArweaveWallet, getRawDataItemWallet } from "../utils/getArweaveWallet";
-import { getS3ObjectStore } from "../utils/objectStoreUtils";
+import { getObjectStore } from "../utils/objectStoreUtils";
 import { ArweaveGateway } from "./arweaveGateway";
 import { CacheService } from "./cacheServiceTypes";
 import { Database } from "./db/database";
@@ -45,25 +49,29 @@ export interface Architecture {
   arweaveGateway: ArweaveGateway;
   getArweaveWallet: () => Promise<JWKInterface>;
   getRawDataItemWallet: () => Promise<JWKInterface>;
+  getBundlerWalletRegistry: () => BundlerWalletRegistry;
   tracer?: Tracer;
 }
 
 const writerKnex = knex(getWriterConfig());
 
+const database = new PostgresDatabase({
+  migrate: migrateOnStartup,
+  writer: writerKnex,
+  reader: knex(getReaderConfig()),
+});
+
 export const defaultArchitecture: Architecture = {
-  database: new PostgresDatabase({
-    migrate: migrateOnStartup,
-    writer: writerKnex,
-    reader: knex(getReaderConfig()),
-  }),
+  database,
   dataItemOffsetsDB: new DataItemOffsetsDB(writerKnex, globalLogger),
-  objectStore: getS3ObjectStore(),
+  objectStore: getObjectStore(database),
   cacheService: getElasticacheService(),
   paymentService: new TurboPaymentService(),
   x402Service: new X402Service(x402Networks),
   logger: globalLogger,
   getArweaveWallet: () => getArweaveWallet(),
   getRawDataItemWallet: () => getRawDataItemWallet(),
+  getBundlerWalletRegistry: () => getBundlerWalletRegistry(),
   arweaveGateway: new ArweaveGateway({
     endpoint: gatewayUrl,
   }),
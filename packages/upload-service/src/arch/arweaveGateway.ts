@@ -34,6 +34,12 @@ import {
   RetryStrategy,
 } from "./retryStrategy";
 
+/** Weave offset of the last byte of a transaction's data, and the data size */
+export interface TransactionOffset {
+  offset: number;
+  size: number;
+}
+
 interface GatewayAPIConstParams {
   endpoint?: URL;
   retryStrategy?: RetryStrategy<AxiosResponse>;
@@ -60,7 +66,16 @@ export interface Gateway {
   getBlockHash(): Promise<string>;
   getBlockHeightForTxAnchor(txAnchor: string): Promise<number>;
   getCurrentBlockHeight(): Promise<number>;
+  /** Returns the IDs among the given data items that GraphQL has indexed as bundled in the bundle */
+  getDataItemIdsIndexedInBundle(
+    bundleId: TransactionId,
+    dataItemIds: TransactionId[]
+  ): Promise<TransactionId[]>;
   getBalanceForWallet(wallet: PublicArweaveAddress): Promise<Winston>;
+  getTransactionOffset(
+    transactionId: TransactionId
+  ): Promise<TransactionOffset | undefined>;
+  isChunkAvailable(weaveOffset: number): Promise<boolean>;
   postBundleTxToAdminQueue(bundleTxId: TransactionId): Promise<void>;
 }
 
@@ -230,6 +245,32 @@ export class ArweaveGateway implements Gateway {
     }
   }
 
+  public async getDataItemIdsIndexedInBundle(
+    bundleId: TransactionId,
+    dataItemIds: TransactionId[]
+  ): Promise<TransactionId[]> {
+    const response = await this.retryStrategy.sendRequest(() =>
+      this.axiosInstance.post(this.endpoint.href + "graphql", {
+        query: `
+          query ($ids: [ID!], $bundleId: ID!, $first: Int) {
+            transactions(ids: $ids, bundledIn: [$bundleId], first: $first) {
+              edges {
+                node {
+                  id
+                }
+              }
+            }
+          }
+        `,
+        variables: { ids: dataItemIds, bundleId, first: dataItemIds.length },
+      })
+    );
+
+    const edges: { node: { id: TransactionId } }[] =
+      response?.data?.data?.transactions?.edges ?? [];
+    return edges.map(({ node }) => node.id);
+  }
+
   public async getCurrentBlockHeight(): Promise<number> {
     return (
       await currentBlockInfoCache.get(this.endpoint.href, {
@@ -257,6 +298,35 @@ export class ArweaveGateway implements Gateway {
     return new Winston(res.data);
   }
 
+  /** Returns the weave offset of a mined transaction, or undefined when the node does not know it yet */
+  public async getTransactionOffset(
+    transactionId: TransactionId
+  ): Promise<TransactionOffset | undefined> {
+    const response = await new ExponentialBackoffRetryStrategy<AxiosResponse>({
+      validStatusCodes: [200, 404],
+    }).sendRequest(() =>
+      this.axiosInstance.get<{ offset: string; size: string }>(
+        `${this.endpoint.href}tx/${transactionId}/offset`,
+        { validateStatus: () => true }
+      )
+    );
+    if (response.status === 404) {
+      return undefined;
+    }
+    return { offset: +response.data.offset, size: +response.data.size };
+  }
+
+  public async isChunkAvailable(weaveOffset: number): Promise<boolean> {
+    const response = await new ExponentialBackoffRetryStrategy<AxiosResponse>({
+      validStatusCodes: [200, 404],
+    }).sendRequest(() =>
+      this.axiosInstance.get(`${this.endpoint.href}chunk/${weaveOffset}`, {
+        validateStatus: () => true,
+      })
+    );
+    return response.status === 200;
+  }
+
   /** Optionally posts a prepared bundle to the ar.io gateway's priority bundle queue if an admin key exists */
   public async postBundleTxToAdminQueue(
     bundleTxId: TransactionId
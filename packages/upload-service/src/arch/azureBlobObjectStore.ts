@@ -0,0 +1,673 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { AxiosInstance, AxiosResponse, RawAxiosRequestHeaders } from "axios";
+import { createHmac, randomUUID } from "crypto";
+import { Readable } from "stream";
+import winston from "winston";
+
+import {
+  BundleHeaderInfo,
+  bundleHeaderInfoFromBuffer,
+} from "../bundles/assembleBundleHeader";
+import {
+  payloadContentTypeS3MetaDataTag,
+  payloadDataStartS3MetaDataTag,
+} from "../constants";
+import globalLogger from "../logger";
+import { PayloadInfo, UploadId } from "../types/types";
+import { sleep } from "../utils/common";
+import { MultiPartUploadNotFound } from "../utils/errors";
+import { streamToBuffer } from "../utils/streamToBuffer";
+import { createAxiosInstance } from "./axiosClient";
+import {
+  MoveObjectParams,
+  ObjectStore,
+  ObjectStoreOptions,
+} from "./objectStore";
+
+const azureStorageApiVersion = "2021-08-06";
+
+// Azure metadata names must be valid C# identifiers, so the S3 metadata tags are stored with underscores
+const payloadDataStartMetadataName = payloadDataStartS3MetaDataTag.replace(
+  /-/g,
+  "_"
+);
+const payloadContentTypeMetadataName = payloadContentTypeS3MetaDataTag.replace(
+  /-/g,
+  "_"
+);
+
+const defaultBlockByteCount = 8 * 1024 * 1024; // 8 MiB
+const copyStatusPollIntervalMs = 500;
+// Part numbers are zero padded so that all block IDs of a blob have the same length, as Azure requires
+const maxPartNumberDigits = 5;
+
+export class AzureBlobError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string | undefined,
+    message: string
+  ) {
+    super(message);
+    this.name = code ?? "AzureBlobError";
+  }
+}
+
+/**
+ * Builds the Shared Key authorization header of a Blob service request.
+ * Reference: https://learn.microsoft.com/en-us/rest/api/storageservices/authorize-with-shared-key
+ */
+export function azureSharedKeyAuthorization({
+  accountName,
+  accountKey,
+  method,
+  url,
+  headers,
+}: {
+  accountName: string;
+  accountKey: string;
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+}): string {
+  const header = (name: string) => {
+    const value = headers[name.toLowerCase()] ?? "";
+    // Content-Length is signed as an empty string when zero
+    return name === "content-length" && value === "0" ? "" : value;
+  };
+
+  const canonicalizedHeaders = Object.keys(headers)
+    .filter((name) => name.startsWith("x-ms-"))
+    .sort()
+    .map((name) => `${name}:${headers[name].trim()}\n`)
+    .join("");
+
+  const queryParams = new Map<string, string[]>();
+  url.searchParams.forEach((value, name) => {
+    const key = name.toLowerCase();
+    queryParams.set(key, [...(queryParams.get(key) ?? []), value]);
+  });
+  const canonicalizedResource =
+    `/${accountName}${url.pathname}` +
+    [...queryParams.keys()]
+      .sort()
+      .map(
+        (name) =>
+          `\n${name}:${(queryParams.get(name) as string[]).sort().join(",")}`
+      )
+      .join("");
+
+  const stringToSign = [
+    method.toUpperCase(),
+    header("content-encoding"),
+    header("content-language"),
+    header("content-length"),
+    header("content-md5"),
+    header("content-type"),
+    "", // Date, superseded by x-ms-date
+    header("if-modified-since"),
+    header("if-match"),
+    header("if-none-match"),
+    header("if-unmodified-since"),
+    header("range"),
+    canonicalizedHeaders + canonicalizedResource,
+  ].join("\n");
+
+  const signature = createHmac("sha256", Buffer.from(accountKey, "base64"))
+    .update(stringToSign, "utf8")
+    .digest("base64");
+  return `SharedKey ${accountName}:${signature}`;
+}
+
+/** Encodes each segment of an object key while keeping its slashes as blob path separators */
+function encodeBlobName(Key: string): string {
+  return Key.split("/").map(encodeURIComponent).join("/");
+}
+
+function partBlockId(uploadId: UploadId, partNumber: number): string {
+  return Buffer.from(
+    `${uploadId}-${`${partNumber}`.padStart(maxPartNumberDigits, "0")}`
+  ).toString("base64");
+}
+
+function partNumberFromBlockId(
+  uploadId: UploadId,
+  blockId: string
+): number | undefined {
+  const [blockUploadId, partNumber] = Buffer.from(blockId, "base64")
+    .toString()
+    .split(/-(?=\d+$)/);
+  return blockUploadId === uploadId ? +partNumber : undefined;
+}
+
+function blockListXml(blockIds: string[]): string {
+  return `<?xml version="1.0" encoding="utf-8"?><BlockList>${blockIds
+    .map((blockId) => `<Latest>${blockId}</Latest>`)
+    .join("")}</BlockList>`;
+}
+
+/** Extracts the name and size of every block in a Get Block List response body */
+function blocksFromBlockListXml(xml: string): { name: string; size: number }[] {
+  return [
+    ...xml.matchAll(
+      /<Block>\s*<Name>([^<]*)<\/Name>\s*<Size>(\d+)<\/Size>\s*<\/Block>/g
+    ),
+  ].map(([, name, size]) => ({ name, size: +size }));
+}
+
+function stripEtagQuotes(etag: string | undefined): string | undefined {
+  return etag?.replace(/^"|"$/g, "");
+}
+
+/**
+ * Object store backed by the Azure Blob Storage REST API. Objects are block blobs: whole objects are
+ * staged block by block and committed with a block list, and multipart upload parts are uncommitted
+ * blocks whose IDs carry the upload ID and part number
+ */
+export class AzureBlobObjectStore implements ObjectStore {
+  private readonly endpoint: string;
+  private readonly accountName: string;
+  private readonly accountKey: string;
+  private readonly containerName: string;
+  private readonly blockByteCount: number;
+  private readonly axios: AxiosInstance;
+  private readonly logger: winston.Logger;
+
+  constructor({
+    accountName,
+    accountKey,
+    containerName,
+    endpoint = `https://${accountName}.blob.core.windows.net`,
+    blockByteCount = defaultBlockByteCount,
+    axios = createAxiosInstance({
+      config: { maxBodyLength: Infinity, maxContentLength: Infinity },
+    }),
+    logger = globalLogger,
+  }: {
+    accountName: string;
+    accountKey: string;
+    containerName: string;
+    endpoint?: string;
+    blockByteCount?: number;
+    axios?: AxiosInstance;
+    logger?: winston.Logger;
+  }) {
+    this.endpoint = endpoint.replace(/\/+$/, "");
+    this.accountName = accountName;
+    this.accountKey = accountKey;
+    this.containerName = containerName;
+    this.blockByteCount = blockByteCount;
+    this.axios = axios;
+    this.logger = logger.child({
+      containerName,
+      objectStore: "AzureBlobObjectStore",
+    });
+  }
+
+  private blobUrl(Key: string, query: Record<string, string> = {}): URL {
+    const url = new URL(
+      `${this.endpoint}/${this.containerName}/${encodeBlobName(Key)}`
+    );
+    for (const [name, value] of Object.entries(query)) {
+      url.searchParams.set(name, value);
+    }
+    return url;
+  }
+
+  private async request({
+    method,
+    url,
+    headers = {},
+    data,
+    contentLength = 0,
+    stream = false,
+  }: {
+    method: "GET" | "HEAD" | "PUT" | "DELETE";
+    url: URL;
+    headers?: Record<string, string>;
+    data?: Buffer | string | Readable;
+    contentLength?: number;
+    stream?: boolean;
+  }): Promise<AxiosResponse> {
+    const requestHeaders: Record<string, string> = {
+      "x-ms-date": new Date().toUTCString(),
+      "x-ms-version": azureStorageApiVersion,
+      ...Object.fromEntries(
+        Object.entries(headers).map(([name, value]) => [
+          name.toLowerCase(),
+          value,
+        ])
+      ),
+    };
+    if (method === "PUT") {
+      requestHeaders["content-length"] = `${contentLength}`;
+      // Axios otherwise picks a content type after the request is signed, which breaks the signature
+      requestHeaders["content-type"] ??= "application/octet-stream";
+    }
+    requestHeaders["authorization"] = azureSharedKeyAuthorization({
+      accountName: this.accountName,
+      accountKey: this.accountKey,
+      method,
+      url,
+      headers: requestHeaders,
+    });
+
+    try {
+      return await this.axios.request({
+        method,
+        url: url.toString(),
+        headers: requestHeaders as RawAxiosRequestHeaders,
+        data: data ?? (method === "PUT" ? "" : undefined),
+        responseType: stream ? "stream" : "text",
+        // Bodies are streams that cannot be replayed, and the Blob API reports errors rather than dropping requests
+        "axios-retry": { retries: 0 },
+      });
+    } catch (error) {
+      throw await this.toAzureBlobError(error);
+    }
+  }
+
+  private async toAzureBlobError(error: unknown): Promise<unknown> {
+    const response = (error as { response?: AxiosResponse }).response;
+    if (!response) {
+      return error;
+    }
+    const code = response.headers["x-ms-error-code"] as string | undefined;
+    const body =
+      response.data instanceof Readable
+        ? (await streamToBuffer(response.data)).toString()
+        : `${response.data ?? ""}`;
+    return new AzureBlobError(
+      response.status,
+      code,
+      `Azure Blob request failed with status ${response.status}${
+        code ? ` (${code})` : ""
+      }${body ? `: ${body}` : ""}`
+    );
+  }
+
+  private metadataHeaders({
+    contentType,
+    payloadInfo,
+  }: ObjectStoreOptions): Record<string, string> {
+    return {
+      ...(contentType ? { "x-ms-blob-content-type": contentType } : {}),
+      ...(payloadInfo
+        ? {
+            [`x-ms-meta-${payloadDataStartMetadataName}`]: `${payloadInfo.payloadDataStart}`,
+            [`x-ms-meta-${payloadContentTypeMetadataName}`]:
+              payloadInfo.payloadContentType,
+          }
+        : {}),
+    };
+  }
+
+  private async putBlock(
+    Key: string,
+    blockId: string,
+    Body: Buffer | Readable,
+    ContentLength: number
+  ): Promise<AxiosResponse> {
+    return this.request({
+      method: "PUT",
+      url: this.blobUrl(Key, { comp: "block", blockid: blockId }),
+      data: Body,
+      contentLength: ContentLength,
+    });
+  }
+
+  private async putBlockList(
+    Key: string,
+    blockIds: string[],
+    Options: ObjectStoreOptions = {}
+  ): Promise<AxiosResponse> {
+    const body = blockListXml(blockIds);
+    return this.request({
+      method: "PUT",
+      url: this.blobUrl(Key, { comp: "blocklist" }),
+      headers: {
+        "content-type": "application/xml; charset=utf-8",
+        ...this.metadataHeaders(Options),
+      },
+      data: body,
+      contentLength: Buffer.byteLength(body),
+    });
+  }
+
+  public async putObject(
+    Key: string,
+    Body: Readable,
+    Options: ObjectStoreOptions = {}
+  ): Promise<void> {
+    if (Body.errored) {
+      throw new Error("Object body read stream errored");
+    }
+
+    this.logger.debug("Putting read stream for Azure blob...", { Key });
+
+    // Stage the stream in fixed size blocks so that objects of unknown length can be uploaded
+    const putId = randomUUID();
+    const blockIds: string[] = [];
+    let pendingChunks: Buffer[] = [];
+    let pendingByteCount = 0;
+    const stageBlock = async (block: Buffer) => {
+      const blockId = partBlockId(putId, blockIds.length + 1);
+      await this.putBlock(Key, blockId, block, block.byteLength);
+      blockIds.push(blockId);
+    };
+
+    try {
+      for await (const chunk of Body) {
+        pendingChunks.push(chunk);
+        pendingByteCount += chunk.length;
+        while (pendingByteCount >= this.blockByteCount) {
+          const pending = Buffer.concat(pendingChunks);
+          await stageBlock(pending.subarray(0, this.blockByteCount));
+          pendingChunks = [pending.subarray(this.blockByteCount)];
+          pendingByteCount -= this.blockByteCount;
+        }
+      }
+      if (pendingByteCount > 0) {
+        await stageBlock(Buffer.concat(pendingChunks));
+      }
+
+      await this.putBlockList(Key, blockIds, Options);
+    } catch (error) {
+      this.logger.error("Failed to put object!", {
+        error: error instanceof Error ? error.message : error,
+        Key,
+      });
+      throw error;
+    }
+  }
+
+  public async getObject(
+    Key: string,
+    Range?: string
+  ): Promise<{ readable: Readable; etag: string | undefined }> {
+    this.logger.debug("Getting read stream for Azure blob...", { Key, Range });
+
+    try {
+      const response = await this.request({
+        method: "GET",
+        url: this.blobUrl(Key),
+        headers: Range ? { "x-ms-range": Range } : {},
+        stream: true,
+      });
+      const readable = response.data as Readable;
+      return {
+        readable: readable.on("error", (err: Error) => {
+          this.logger.error(`Failed to stream object!`, { err, Key, Range });
+        }),
+        etag: stripEtagQuotes(response.headers["etag"]),
+      };
+    } catch (error) {
+      this.logger.debug(`Failed to get object!`, { error, Key, Range });
+      throw error;
+    }
+  }
+
+  public async headObject(Key: string): Promise<{
+    etag: string | undefined;
+    ContentLength: number;
+    ContentType: string | undefined;
+    Metadata: Record<string, string>;
+  }> {
+    this.logger.debug("Heading Azure blob...", { Key });
+
+    const { headers } = await this.request({
+      method: "HEAD",
+      url: this.blobUrl(Key),
+    });
+
+    const Metadata: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (name.startsWith("x-ms-meta-")) {
+        Metadata[name.slice("x-ms-meta-".length)] = `${value}`;
+      }
+    }
+    return {
+      etag: stripEtagQuotes(headers["etag"]),
+      ContentLength: +(headers["content-length"] ?? 0),
+      ContentType: headers["content-type"] as string | undefined,
+      Metadata,
+    };
+  }
+
+  public async getObjectByteCount(Key: string): Promise<number> {
+    return (await this.headObject(Key)).ContentLength;
+  }
+
+  public async getObjectPayloadInfo(Key: string): Promise<PayloadInfo> {
+    try {
+      const { Metadata } = await this.headObject(Key);
+      const payloadDataStart = Metadata[payloadDataStartMetadataName];
+      const payloadContentType = Metadata[payloadContentTypeMetadataName];
+      if (!payloadDataStart || !payloadContentType) {
+        throw Error("No payload info found");
+      }
+
+      return {
+        payloadDataStart: +payloadDataStart,
+        payloadContentType,
+      };
+    } catch (error) {
+      this.logger.debug(`Failed to get object metadata!`, { error, Key });
+      throw error;
+    }
+  }
+
+  public async moveObject({
+    sourceKey,
+    destinationKey,
+    Options = {},
+  }: MoveObjectParams): Promise<void> {
+    const fnLogger = this.logger.child({ sourceKey, destinationKey });
+    fnLogger.debug("Moving Azure blob...");
+
+    try {
+      const { headers } = await this.request({
+        method: "PUT",
+        url: this.blobUrl(destinationKey),
+        headers: {
+          "x-ms-copy-source": this.blobUrl(sourceKey).toString(),
+          ...this.metadataHeaders({ payloadInfo: Options.payloadInfo }),
+        },
+      });
+
+      // Copies within an account usually complete synchronously, but large blobs may be copied asynchronously
+      let copyStatus = headers["x-ms-copy-status"];
+      while (copyStatus === "pending") {
+        await sleep(copyStatusPollIntervalMs);
+        copyStatus = (
+          await this.request({
+            method: "HEAD",
+            url: this.blobUrl(destinationKey),
+          })
+        ).headers["x-ms-copy-status"];
+      }
+      if (copyStatus !== "success") {
+        throw new Error(`Blob copy finished with status ${copyStatus}`);
+      }
+
+      if (Options.contentType) {
+        await this.request({
+          method: "PUT",
+          url: this.blobUrl(destinationKey, { comp: "properties" }),
+          headers: this.metadataHeaders({ contentType: Options.contentType }),
+        });
+      }
+
+      await this.request({ method: "DELETE", url: this.blobUrl(sourceKey) });
+      fnLogger.debug("Moved Azure blob!");
+    } catch (error) {
+      fnLogger.error(`Failed to move object!`, { error });
+      throw error;
+    }
+  }
+
+  public async deleteObject(Key: string): Promise<void> {
+    try {
+      await this.request({ method: "DELETE", url: this.blobUrl(Key) });
+    } catch (error) {
+      if (error instanceof AzureBlobError && error.status === 404) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  // multipart uploads
+  public async createMultipartUpload(Key: string): Promise<string> {
+    // Uncommitted blocks need no upload session, so the upload ID only namespaces the part block IDs
+    const uploadId = randomUUID();
+    this.logger.debug("Created multipart upload", { Key, uploadId });
+    return uploadId;
+  }
+
+  public async uploadPart(
+    Key: string,
+    Body: Readable,
+    uploadId: UploadId,
+    partNumber: number,
+    ContentLength: number
+  ): Promise<string> {
+    this.logger.debug("Uploading part", {
+      Key,
+      uploadId,
+      partNumber,
+      ContentLength,
+    });
+
+    try {
+      const { headers } = await this.putBlock(
+        Key,
+        partBlockId(uploadId, partNumber),
+        Body,
+        ContentLength
+      );
+      return (
+        headers["content-md5"] ??
+        headers["x-ms-content-crc64"] ??
+        partBlockId(uploadId, partNumber)
+      );
+    } catch (error) {
+      this.logger.error("Failed to upload part!", { error, Key, uploadId });
+      throw error;
+    }
+  }
+
+  private async getUncommittedParts(
+    Key: string,
+    uploadId: UploadId
+  ): Promise<{ blockId: string; partNumber: number; size: number }[]> {
+    let blockListXml: string;
+    try {
+      blockListXml = (
+        await this.request({
+          method: "GET",
+          url: this.blobUrl(Key, {
+            comp: "blocklist",
+            blocklisttype: "uncommitted",
+          }),
+        })
+      ).data;
+    } catch (error) {
+      // A blob without committed or uncommitted blocks does not exist yet
+      if (error instanceof AzureBlobError && error.status === 404) {
+        return [];
+      }
+      throw error;
+    }
+
+    return blocksFromBlockListXml(blockListXml)
+      .map(({ name, size }) => ({
+        blockId: name,
+        partNumber: partNumberFromBlockId(uploadId, name),
+        size,
+      }))
+      .filter(
+        (part): part is { blockId: string; partNumber: number; size: number } =>
+          part.partNumber !== undefined
+      )
+      .sort((a, b) => a.partNumber - b.partNumber);
+  }
+
+  public async getMultipartUploadParts(
+    Key: string,
+    uploadId: UploadId
+  ): Promise<
+    {
+      size: number;
+      partNumber: number;
+    }[]
+  > {
+    try {
+      const parts = await this.getUncommittedParts(Key, uploadId);
+      return parts.map(({ size, partNumber }) => ({ size, partNumber }));
+    } catch (error) {
+      this.logger.debug("Failed to get multipart upload chunks!", {
+        error,
+        Key,
+        uploadId,
+      });
+      throw error;
+    }
+  }
+
+  public async completeMultipartUpload(
+    Key: string,
+    uploadId: UploadId
+  ): Promise<string> {
+    this.logger.debug("Completing multipart upload", { Key, uploadId });
+
+    try {
+      const parts = await this.getUncommittedParts(Key, uploadId);
+      if (parts.length === 0) {
+        throw new MultiPartUploadNotFound(uploadId);
+      }
+
+      const { headers } = await this.putBlockList(
+        Key,
+        parts.map(({ blockId }) => blockId)
+      );
+      const etag = stripEtagQuotes(headers["etag"]);
+      if (!etag) {
+        throw Error("No ETag returned from Azure Blob Storage");
+      }
+      return etag;
+    } catch (error) {
+      this.logger.error("Failed to complete multipart upload!", {
+        error,
+        Key,
+        uploadId,
+      });
+      throw error;
+    }
+  }
+
+  public async getBundleHeaderInfo(
+    Key: string,
+    range: string
+  ): Promise<BundleHeaderInfo> {
+    const stream = await this.getObject(Key, range).then(
+      ({ readable }) => readable
+    );
+    const buffer = await streamToBuffer(stream);
+    return bundleHeaderInfoFromBuffer(buffer);
+  }
+}
@@ -64,6 +64,12 @@ export class DataItemOffsetsDB {
     return result;
   }
 
+  async getOffsets(dataItemIds: string[]): Promise<DataItemOffset[]> {
+    if (dataItemIds.length === 0) return [];
+
+    return this.knex("data_item_offsets").whereIn("data_item_id", dataItemIds);
+  }
+
   async getOffsetsByRootBundle(rootBundleId: string): Promise<DataItemOffset[]> {
     return this.knex("data_item_offsets")
       .where({ root_bundle_id: rootBundleId })
@@ -15,7 +15,15 @@
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
 import {
+  BundleDataItem,
+  BundleLifecycle,
+  BundleLifecyclesCursor,
+  BundleState,
   DataItemFailedReason,
+  DataItemInfo,
+  DataItemStatus,
+  DataItemUpload,
+  DataItemUploadsCursor,
   FinishedMultiPartUpload,
   InFlightMultiPartUpload,
   InsertNewBundleParams,
@@ -27,14 +35,23 @@ import {
   PostedBundle,
   PostedNewDataItem,
   SeededBundle,
+  StorageTieringCandidate,
+  UpdateNewBundleRewardParams,
+  WebhookDeadLetter,
+  WebhookRegistration,
   X402Payment,
 } from "../../types/dbTypes";
 import {
+  BundlePlanSlaTrigger,
   DataItemId,
+  PublicArweaveAddress,
+  StorageTier,
   TransactionId,
   UploadId,
+  WalletReserveForecast,
   Winston,
 } from "../../types/types";
+import { DedicatedBundleTypeOverrides } from "../../utils/dedicatedBundleTypes";
 
 // TODO: this could be an interface since no functions have a default implementation
 export interface Database {
@@ -44,8 +61,15 @@ export interface Database {
   /** Stores a batch of new data items that have been enqueued for insert */
   insertNewDataItemBatch(dataItemBatch: PostedNewDataItem[]): Promise<void>;
 
-  /**  Gets MAX_DATA_ITEM_LIMIT * 5 (75,000 as of this commit) new data items in the database sorted by uploadedDate */
-  getNewDataItems(): Promise<NewDataItem[]>;
+  /**
+   * Gets MAX_DATA_ITEM_LIMIT * 5 (75,000 as of this commit) new data items in the database sorted by uploadedDate.
+   * When max waits are provided per premium feature type, data items are instead sorted by their SLA deadline.
+   * When premium feature types are provided, only data items of those types are returned
+   */
+  getNewDataItems(
+    maxWaitMsByPremiumFeatureType?: Record<string, number>,
+    premiumFeatureTypes?: string[]
+  ): Promise<NewDataItem[]>;
 
   /**
    * Creates a bundle plan transaction
@@ -55,7 +79,11 @@ export interface Database {
    *   - Deletes NewDataItem
    *   - Adds PlannedDataItem
    */
-  insertBundlePlan(planId: PlanId, dataItemIds: TransactionId[]): Promise<void>;
+  insertBundlePlan(
+    planId: PlanId,
+    dataItemIds: TransactionId[],
+    slaTrigger?: BundlePlanSlaTrigger
+  ): Promise<void>;
 
   getPlannedDataItemsForPlanId(planId: PlanId): Promise<PlannedDataItem[]>;
 
@@ -75,6 +103,20 @@ export interface Database {
     reward,
   }: InsertNewBundleParams): Promise<void>;
 
+  /**
+   * Replaces the transaction of a new bundle with one re-signed at a higher reward
+   *
+   * - Updates NewBundle bundle ID, reward and transaction byte count
+   * - Moves data item offsets onto the re-signed bundle ID
+   */
+  updateNewBundleReward(params: UpdateNewBundleRewardParams): Promise<void>;
+
+  /** Whether every data item planned into the bundle has its offsets recorded against the bundle ID */
+  hasBundleDataItemOffsets(params: {
+    planId: PlanId;
+    bundleId: TransactionId;
+  }): Promise<boolean>;
+
   getNextBundleToPostByPlanId(planId: PlanId): Promise<NewBundle>;
 
   /**
@@ -106,6 +148,11 @@ export interface Database {
 
   getSeededBundles(limit?: number): Promise<SeededBundle[]>;
 
+  /** Gets a bundle that has finished seeding, whether or not it has since become permanent */
+  getSeededOrPermanentBundle(
+    bundleId: TransactionId
+  ): Promise<SeededBundle | undefined>;
+
   updateBundleAsPermanent(
     planId: PlanId,
     blockHeight: number,
@@ -130,21 +177,45 @@ export interface Database {
   ): Promise<void>;
 
   /** Gets latest status of a data item from the database */
-  getDataItemInfo(dataItemId: TransactionId): Promise<
-    | {
-        status: "new" | "pending" | "permanent" | "failed";
-        assessedWinstonPrice: Winston;
-        bundleId?: TransactionId;
-        uploadedTimestamp: number;
-        deadlineHeight?: number;
-        failedReason?: DataItemFailedReason;
-        owner: string;
-      }
-    | undefined
-  >;
+  getDataItemInfo(dataItemId: TransactionId): Promise<DataItemInfo | undefined>;
+
+  /** Gets the latest status of many data items with a single query. Data items not found are omitted */
+  getDataItemInfos(
+    dataItemIds: TransactionId[]
+  ): Promise<Record<TransactionId, DataItemInfo>>;
+
+  /**
+   * Gets a page of an owner's data items across the new, planned, permanent and failed tables,
+   * newest first. The returned cursor is set when more data items may follow the page
+   */
+  getDataItemUploadsByOwner(params: GetDataItemUploadsByOwnerParams): Promise<{
+    uploads: DataItemUpload[];
+    nextCursor?: DataItemUploadsCursor;
+  }>;
 
   getLastDataItemInBundle(planId: PlanId): Promise<PlannedDataItem>;
 
+  // Bundle Explorer Methods
+  /** Gets a bundle by its plan ID or bundle ID from whichever state table it is in */
+  getBundleLifecycle(
+    bundleIdOrPlanId: string
+  ): Promise<BundleLifecycle | undefined>;
+
+  /**
+   * Gets a page of bundles across the bundle plan and bundle state tables, newest plan first.
+   * The returned cursor is set when more bundles may follow the page
+   */
+  getBundleLifecycles(params: GetBundleLifecyclesParams): Promise<{
+    bundles: BundleLifecycle[];
+    nextCursor?: BundleLifecyclesCursor;
+  }>;
+
+  /**
+   * Gets the data items of a bundle plan that are pending, permanent or failed under it. Data items
+   * re-packed after the bundle failed are no longer linked to its plan and are not included
+   */
+  getBundleDataItems(planId: PlanId): Promise<BundleDataItem[]>;
+
   /**
    * Multipart uploads
    */
@@ -152,10 +223,12 @@ export interface Database {
     uploadId,
     uploadKey,
     chunkSize,
+    uploadLength,
   }: {
     uploadId: UploadId;
     uploadKey: string;
     chunkSize?: number;
+    uploadLength?: number;
   }): Promise<InFlightMultiPartUpload>;
   finalizeMultiPartUpload(params: {
     uploadId: UploadId;
@@ -165,6 +238,8 @@ export interface Database {
   getInflightMultiPartUpload(
     uploadId: UploadId
   ): Promise<InFlightMultiPartUpload>;
+  /** Removes an in-flight upload that will never be finalized, throws MultiPartUploadNotFound when there is none */
+  deleteInflightMultiPartUpload(uploadId: UploadId): Promise<void>;
   failInflightMultiPartUpload({
     uploadId,
     failedReason,
@@ -213,8 +288,102 @@ export interface Database {
 
   /** Check if data item IDs already exist in the database (across all tables) */
   getExistingDataItemIds(dataItemIds: TransactionId[]): Promise<Set<TransactionId>>;
+
+  /** Gets the operator defined dedicated bundle types from the config table */
+  getDedicatedBundleTypeOverrides(): Promise<DedicatedBundleTypeOverrides>;
+
+  // Webhook Methods
+  getWebhookRegistration(
+    ownerPublicAddress: PublicArweaveAddress
+  ): Promise<WebhookRegistration | undefined>;
+
+  /** Creates or replaces the wallet level webhook of an owner */
+  putWebhookRegistration(params: {
+    ownerPublicAddress: PublicArweaveAddress;
+    webhookUrl: string;
+  }): Promise<WebhookRegistration>;
+
+  /** Returns false when the owner had no webhook registered */
+  deleteWebhookRegistration(
+    ownerPublicAddress: PublicArweaveAddress
+  ): Promise<boolean>;
+
+  insertDataItemWebhook(params: {
+    dataItemId: DataItemId;
+    webhookUrl: string;
+  }): Promise<void>;
+
+  /**
+   * Resolves the webhook url of each data item that has one. Per upload webhooks take
+   * precedence over the wallet level webhook of the data item's owner
+   */
+  getWebhookUrlsForDataItems(
+    dataItems: { dataItemId: DataItemId; ownerPublicAddress: string }[]
+  ): Promise<Record<DataItemId, string>>;
+
+  /** Removes the per upload webhooks of data items that have reached a final state */
+  deleteDataItemWebhooks(dataItemIds: DataItemId[]): Promise<void>;
+
+  insertWebhookDeadLetter(deadLetter: WebhookDeadLetter): Promise<void>;
+
+  // Storage Tiering Methods
+  /** Returns undefined when the payload is still where it was stored on upload */
+  getDataItemStorageTier(
+    dataItemId: TransactionId
+  ): Promise<StorageTier | undefined>;
+
+  /** Records the tier now holding a data item's payload and resets its access count */
+  putDataItemStorageTier(params: {
+    dataItemId: TransactionId;
+    storageTier: StorageTier;
+  }): Promise<void>;
+
+  /** Counts a client access of a data item. No-op for data items without a recorded tier */
+  recordDataItemAccess(dataItemId: TransactionId): Promise<void>;
+
+  /** Gets permanent data items, oldest first, that have passed one of the thresholds of the tiering policy */
+  getStorageTieringCandidates(
+    params: GetStorageTieringCandidatesParams
+  ): Promise<StorageTieringCandidate[]>;
+
+  // Wallet Reserve Methods
+  /** Sums the rewards of bundles signed but not yet posted, and of bundles posted since the given date */
+  getBundleRewardTotals(postedSince: Date): Promise<{
+    pendingRewards: Winston;
+    postedRewards: Winston;
+  }>;
+
+  getWalletReserveForecast(): Promise<WalletReserveForecast | undefined>;
+
+  /** Stores the latest wallet reserve forecast in the config table */
+  putWalletReserveForecast(forecast: WalletReserveForecast): Promise<void>;
 }
 
+export type GetStorageTieringCandidatesParams = {
+  fsBackupCutoff: Date;
+  objectStoreCutoff: Date;
+  idleCutoff: Date;
+  promoteMinAccessCount: number;
+  limit: number;
+};
+
+export type GetDataItemUploadsByOwnerParams = {
+  ownerPublicAddress: string;
+  limit: number;
+  cursor?: DataItemUploadsCursor;
+  statuses?: DataItemStatus[];
+  fromDate?: Date;
+  toDate?: Date;
+};
+
+export type GetBundleLifecyclesParams = {
+  limit: number;
+  cursor?: BundleLifecyclesCursor;
+  states?: BundleState[];
+  fromDate?: Date;
+  toDate?: Date;
+};
+
 export type UpdateDataItemsToPermanentParams = {
   dataItemIds: string[];
   blockHeight: number;
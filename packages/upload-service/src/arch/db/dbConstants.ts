@@ -33,6 +33,18 @@ export const tableNames = {
   // multipart
   inFlightMultiPartUpload: "in_flight_multi_part_upload",
   finishedMultiPartUpload: "finished_multi_part_upload",
+
+  config: "config",
+
+  dataItemOffsets: "data_item_offsets",
+
+  // webhooks
+  webhookRegistration: "webhook_registration",
+  dataItemWebhook: "data_item_webhook",
+  webhookDeadLetter: "webhook_dead_letter",
+
+  // storage tiering
+  dataItemStorageLocation: "data_item_storage_location",
 } as const;
 
 export const columnNames = {
@@ -54,11 +66,14 @@ export const columnNames = {
   planId: "plan_id",
   plannedDate: "planned_date",
   postedDate: "posted_date",
+  preparedReward: "prepared_reward",
   reward: "reward",
+  rootBundleId: "root_bundle_id",
   seededDate: "seeded_date",
   signature: "signature",
   signatureType: "signature_type",
   signedDate: "signed_date",
+  slaTrigger: "sla_trigger",
   transactionByteCount: "transaction_byte_count",
   winstonPrice: "assessed_winston_price",
   uploadedDate: "uploaded_date",
@@ -72,9 +87,21 @@ export const columnNames = {
   finalizedAt: "finalized_at",
   etag: "etag",
   chunkSize: "chunk_size",
+  uploadLength: "upload_length",
 
   premiumFeatureType: "premium_feature_type",
 
+  // webhooks
+  webhookUrl: "webhook_url",
+  createdDate: "created_date",
+  updatedDate: "updated_date",
+
+  // storage tiering
+  storageTier: "storage_tier",
+  tieredDate: "tiered_date",
+  lastAccessedDate: "last_accessed_date",
+  accessCount: "access_count",
+
   /** @deprecated */
   seedResultStatus: "seed_result_status",
 } as const;
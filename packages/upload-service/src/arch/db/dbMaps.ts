@@ -14,9 +14,18 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
-import { defaultPremiumFeatureType } from "../../constants";
+import { defaultPremiumFeatureType, failedReasons } from "../../constants";
 import {
+  BundleDataItem,
+  BundleDataItemDBResult,
+  BundleFailedReason,
+  BundleLifecycle,
+  BundleLifecycleDBResult,
   DataItemFailedReason,
+  DataItemInfo,
+  DataItemInfoDBResult,
+  DataItemUpload,
+  DataItemUploadDBResult,
   FailedBundle,
   FailedBundleDBResult,
   FailedDataItem,
@@ -35,7 +44,12 @@ import {
   PostedBundleDBResult,
   SeededBundle,
   SeededBundleDBResult,
+  StorageTieringCandidate,
+  StorageTieringCandidateDBResult,
+  WebhookRegistration,
+  WebhookRegistrationDBResult,
 } from "../../types/dbTypes";
+import { BundlePlanSlaTrigger } from "../../types/types";
 import { W } from "../../types/winston";
 
 export function newBundleDbResultToNewBundleMap({
@@ -43,6 +57,7 @@ export function newBundleDbResultToNewBundleMap({
   plan_id,
   planned_date,
   reward,
+  prepared_reward,
   signed_date,
   header_byte_count,
   payload_byte_count,
@@ -53,6 +68,7 @@ export function newBundleDbResultToNewBundleMap({
     planId: plan_id,
     plannedDate: planned_date,
     reward: W(reward),
+    preparedReward: prepared_reward ? W(prepared_reward) : undefined,
     signedDate: signed_date,
     // bigInteger types come back as strings, so we convert them to numbers here
     headerByteCount: header_byte_count ? +header_byte_count : undefined,
@@ -214,3 +230,156 @@ export function failedDataItemDbResultToFailedDataItemMap({
     failedReason: failed_reason as DataItemFailedReason,
   };
 }
+
+export function webhookRegistrationDbResultToWebhookRegistrationMap({
+  owner_public_address,
+  webhook_url,
+  created_date,
+  updated_date,
+}: WebhookRegistrationDBResult): WebhookRegistration {
+  return {
+    ownerPublicAddress: owner_public_address,
+    webhookUrl: webhook_url,
+    createdDate: created_date,
+    updatedDate: updated_date,
+  };
+}
+
+export function dataItemInfoDbResultToDataItemInfoMap({
+  status,
+  assessed_winston_price,
+  uploaded_date,
+  deadline_height,
+  owner_public_address,
+  bundle_id,
+  failed_reason,
+}: DataItemInfoDBResult): DataItemInfo {
+  return {
+    status,
+    assessedWinstonPrice: W(assessed_winston_price),
+    bundleId: bundle_id ?? undefined,
+    uploadedTimestamp: new Date(uploaded_date).getTime(),
+    deadlineHeight: deadline_height ? +deadline_height : undefined,
+    failedReason: (failed_reason as DataItemFailedReason) ?? undefined,
+    owner: owner_public_address,
+  };
+}
+
+export function dataItemUploadDbResultToDataItemUploadMap({
+  data_item_id,
+  status,
+  byte_count,
+  assessed_winston_price,
+  uploaded_date,
+  bundle_id,
+  failed_reason,
+}: DataItemUploadDBResult): DataItemUpload {
+  return {
+    dataItemId: data_item_id,
+    status,
+    byteCount: +byte_count,
+    assessedWinstonPrice: W(assessed_winston_price),
+    bundleId: bundle_id ?? undefined,
+    uploadedTimestamp: new Date(uploaded_date).getTime(),
+    failedReason: (failed_reason as DataItemFailedReason) ?? undefined,
+  };
+}
+
+export function storageTieringCandidateDbResultToCandidateMap({
+  data_item_id,
+  uploaded_date,
+  storage_tier,
+  tiered_date,
+  last_accessed_date,
+  access_count,
+}: StorageTieringCandidateDBResult): StorageTieringCandidate {
+  return {
+    dataItemId: data_item_id,
+    uploadedDate: uploaded_date,
+    storageTier: storage_tier ?? undefined,
+    tieredDate: tiered_date ?? undefined,
+    lastAccessedDate: last_accessed_date ?? undefined,
+    accessCount: access_count ?? 0,
+  };
+}
+
+function timestampOrUndefined(date: string | null): number | undefined {
+  return date ? new Date(date).getTime() : undefined;
+}
+
+export function bundleLifecycleDbResultToBundleLifecycleMap({
+  plan_id,
+  state,
+  bundle_id,
+  sla_trigger,
+  reward,
+  prepared_reward,
+  transaction_byte_count,
+  header_byte_count,
+  payload_byte_count,
+  usd_to_ar_rate,
+  block_height,
+  indexed_on_gql,
+  failed_reason,
+  planned_date,
+  signed_date,
+  posted_date,
+  seeded_date,
+  permanent_date,
+  failed_date,
+}: BundleLifecycleDBResult): BundleLifecycle {
+  // Bundles that failed to post carry their planned date as a stand-in for the posted and seeded dates
+  const neverPosted = failed_reason === failedReasons.failedToPost;
+
+  return {
+    planId: plan_id,
+    state,
+    bundleId: bundle_id ?? undefined,
+    slaTrigger: (sla_trigger as BundlePlanSlaTrigger) ?? undefined,
+    reward: reward ? W(reward) : undefined,
+    preparedReward: prepared_reward ? W(prepared_reward) : undefined,
+    transactionByteCount: transaction_byte_count
+      ? +transaction_byte_count
+      : undefined,
+    headerByteCount: header_byte_count ? +header_byte_count : undefined,
+    payloadByteCount: payload_byte_count ? +payload_byte_count : undefined,
+    usdToArRate: usd_to_ar_rate ? +usd_to_ar_rate : undefined,
+    blockHeight: block_height ? +block_height : undefined,
+    indexedOnGQL: indexed_on_gql ?? undefined,
+    failedReason: (failed_reason as BundleFailedReason) ?? undefined,
+    timeline: {
+      plannedTimestamp: new Date(planned_date).getTime(),
+      signedTimestamp: timestampOrUndefined(signed_date),
+      postedTimestamp: neverPosted
+        ? undefined
+        : timestampOrUndefined(posted_date),
+      seededTimestamp: neverPosted
+        ? undefined
+        : timestampOrUndefined(seeded_date),
+      permanentTimestamp: timestampOrUndefined(permanent_date),
+      failedTimestamp: timestampOrUndefined(failed_date),
+    },
+  };
+}
+
+export function bundleDataItemDbResultToBundleDataItemMap({
+  data_item_id,
+  status,
+  owner_public_address,
+  byte_count,
+  assessed_winston_price,
+  premium_feature_type,
+  uploaded_date,
+  failed_reason,
+}: BundleDataItemDBResult): BundleDataItem {
+  return {
+    dataItemId: data_item_id,
+    status,
+    ownerPublicAddress: owner_public_address,
+    byteCount: +byte_count,
+    assessedWinstonPrice: W(assessed_winston_price),
+    premiumFeatureType: premium_feature_type ?? undefined,
+    uploadedTimestamp: new Date(uploaded_date).getTime(),
+    failedReason: (failed_reason as DataItemFailedReason) ?? undefined,
+  };
+}
@@ -349,6 +349,64 @@ export class IndexDataItemOwner extends Migrator {
   }
 }
 
+export class IndexFailedDataItemOwner extends Migrator {
+  constructor(private readonly knex: Knex) {
+    super();
+  }
+
+  public migrate() {
+    return this.operate({
+      name: "migration to index failed data item owner concurrently",
+      operation: async () => {
+        // failed_data_item was created like planned_data_item, which does not copy its indexes
+        await this.knex.raw(`
+          CREATE INDEX CONCURRENTLY IF NOT EXISTS ${tableNames.failedDataItem}_${columnNames.owner}_index ON ${tableNames.failedDataItem} (${columnNames.owner});
+        `);
+      },
+    });
+  }
+
+  public rollback() {
+    return this.operate({
+      name: "rollback from index failed data item owner",
+      operation: async () => {
+        await this.knex.raw(`
+          DROP INDEX CONCURRENTLY IF EXISTS ${tableNames.failedDataItem}_${columnNames.owner}_index;
+        `);
+      },
+    });
+  }
+}
+
+export class IndexNewDataItemPremiumFeatureType extends Migrator {
+  constructor(private readonly knex: Knex) {
+    super();
+  }
+
+  public migrate() {
+    return this.operate({
+      name: "migration to index new data item premium feature type and upload date concurrently",
+      operation: async () => {
+        // Bundle planning fetches the oldest new data items of each premium feature type lane
+        await this.knex.raw(`
+          CREATE INDEX CONCURRENTLY IF NOT EXISTS ${tableNames.newDataItem}_${columnNames.premiumFeatureType}_${columnNames.uploadedDate}_index ON ${tableNames.newDataItem} (${columnNames.premiumFeatureType}, ${columnNames.uploadedDate});
+        `);
+      },
+    });
+  }
+
+  public rollback() {
+    return this.operate({
+      name: "rollback from index new data item premium feature type and upload date",
+      operation: async () => {
+        await this.knex.raw(`
+          DROP INDEX CONCURRENTLY IF EXISTS ${tableNames.newDataItem}_${columnNames.premiumFeatureType}_${columnNames.uploadedDate}_index;
+        `);
+      },
+    });
+  }
+}
+
 export class MultiPartFailureReasonMigrator extends Migrator {
   constructor(private readonly knex: Knex) {
     super();
@@ -1172,6 +1230,245 @@ export class ConfigTableMigrator extends Migrator {
   }
 }
 
+export class BundlePlanSlaTriggerMigrator extends Migrator {
+  constructor(private readonly knex: Knex) {
+    super();
+  }
+
+  // The sla_trigger column is carried along as a plan moves through each of the bundle tables
+  private bundleTables = [
+    tableNames.bundlePlan,
+    tableNames.newBundle,
+    tableNames.postedBundle,
+    tableNames.seededBundle,
+    tableNames.permanentBundle,
+    tableNames.failedBundle,
+  ];
+
+  public migrate() {
+    return this.operate({
+      name: "migrate to bundle plan sla trigger",
+      operation: async () => {
+        for (const tableName of this.bundleTables) {
+          await this.knex.schema.alterTable(tableName, (table) => {
+            table.string(columnNames.slaTrigger).nullable();
+          });
+        }
+      },
+    });
+  }
+
+  public rollback() {
+    return this.operate({
+      name: "rollback from bundle plan sla trigger",
+      operation: async () => {
+        for (const tableName of this.bundleTables) {
+          await this.knex.schema.alterTable(tableName, (table) => {
+            table.dropColumn(columnNames.slaTrigger);
+          });
+        }
+      },
+    });
+  }
+}
+
+export class WebhookMigrator extends Migrator {
+  constructor(private readonly knex: Knex) {
+    super();
+  }
+  private noTimeZone = { useTz: false };
+
+  public migrate() {
+    return this.operate({
+      name: "migrate to webhooks",
+      operation: async () => {
+        // wallet level webhooks, registered with a signed request
+        await this.knex.schema.createTable(
+          tableNames.webhookRegistration,
+          (table) => {
+            table.string(columnNames.owner).primary();
+            table.string(columnNames.webhookUrl, 2048).notNullable();
+            table
+              .timestamp(columnNames.createdDate, this.noTimeZone)
+              .notNullable()
+              .defaultTo(this.knex.fn.now());
+            table
+              .timestamp(columnNames.updatedDate, this.noTimeZone)
+              .notNullable()
+              .defaultTo(this.knex.fn.now());
+          }
+        );
+
+        // per upload webhooks, provided with the x-webhook-url header
+        await this.knex.schema.createTable(
+          tableNames.dataItemWebhook,
+          (table) => {
+            table.string(columnNames.dataItemId, 43).primary();
+            table.string(columnNames.webhookUrl, 2048).notNullable();
+            table
+              .timestamp(columnNames.createdDate, this.noTimeZone)
+              .notNullable()
+              .defaultTo(this.knex.fn.now());
+          }
+        );
+
+        // deliveries that exhausted all of their attempts
+        await this.knex.schema.createTable(
+          tableNames.webhookDeadLetter,
+          (table) => {
+            table.increments("id").primary();
+            table.string(columnNames.dataItemId, 43).notNullable().index();
+            table.string(columnNames.webhookUrl, 2048).notNullable();
+            table.string("event").notNullable();
+            table.jsonb("payload").notNullable();
+            table.text(columnNames.failedReason).notNullable();
+            table.integer("attempts_made").notNullable();
+            table
+              .timestamp(columnNames.failedDate, this.noTimeZone)
+              .notNullable()
+              .defaultTo(this.knex.fn.now());
+          }
+        );
+      },
+    });
+  }
+
+  public rollback() {
+    return this.operate({
+      name: "rollback from webhooks",
+      operation: async () => {
+        await this.knex.schema.dropTableIfExists(
+          tableNames.webhookRegistration
+        );
+        await this.knex.schema.dropTableIfExists(tableNames.dataItemWebhook);
+        await this.knex.schema.dropTableIfExists(tableNames.webhookDeadLetter);
+      },
+    });
+  }
+}
+
+export class DataItemStorageLocationMigrator extends Migrator {
+  constructor(private readonly knex: Knex) {
+    super();
+  }
+  private noTimeZone = { useTz: false };
+
+  public migrate() {
+    return this.operate({
+      name: "migrate to data item storage location",
+      operation: async () => {
+        // Only data items moved by the tier-storage job have a row
+        await this.knex.schema.createTable(
+          tableNames.dataItemStorageLocation,
+          (table) => {
+            table.string(columnNames.dataItemId, 43).primary();
+            table.string(columnNames.storageTier).notNullable().index();
+            table
+              .timestamp(columnNames.tieredDate, this.noTimeZone)
+              .notNullable()
+              .defaultTo(this.knex.fn.now());
+            table
+              .timestamp(columnNames.lastAccessedDate, this.noTimeZone)
+              .nullable();
+            table.integer(columnNames.accessCount).notNullable().defaultTo(0);
+          }
+        );
+      },
+    });
+  }
+
+  public rollback() {
+    return this.operate({
+      name: "rollback from data item storage location",
+      operation: async () => {
+        await this.knex.schema.dropTableIfExists(
+          tableNames.dataItemStorageLocation
+        );
+      },
+    });
+  }
+}
+
+export class MultiPartUploadLengthMigrator extends Migrator {
+  constructor(private readonly knex: Knex) {
+    super();
+  }
+
+  public migrate() {
+    return this.operate({
+      name: "migrate to multipart upload length",
+      operation: async () => {
+        // Finalizing copies the in flight row into the finished table, so both need the column
+        for (const tableName of [
+          tableNames.inFlightMultiPartUpload,
+          tableNames.finishedMultiPartUpload,
+        ]) {
+          await this.knex.schema.alterTable(tableName, (table) => {
+            table.string(columnNames.uploadLength).nullable();
+          });
+        }
+      },
+    });
+  }
+
+  public rollback() {
+    return this.operate({
+      name: "rollback from multipart upload length",
+      operation: async () => {
+        for (const tableName of [
+          tableNames.inFlightMultiPartUpload,
+          tableNames.finishedMultiPartUpload,
+        ]) {
+          await this.knex.schema.alterTable(tableName, (table) => {
+            table.dropColumn(columnNames.uploadLength);
+          });
+        }
+      },
+    });
+  }
+}
+
+export class BundlePreparedRewardMigrator extends Migrator {
+  constructor(private readonly knex: Knex) {
+    super();
+  }
+
+  // The reward signed at prepare time is kept alongside the reward the bundle was posted with
+  private bundleTables = [
+    tableNames.newBundle,
+    tableNames.postedBundle,
+    tableNames.seededBundle,
+    tableNames.permanentBundle,
+    tableNames.failedBundle,
+  ];
+
+  public migrate() {
+    return this.operate({
+      name: "migrate to bundle prepared reward",
+      operation: async () => {
+        for (const tableName of this.bundleTables) {
+          await this.knex.schema.alterTable(tableName, (table) => {
+            table.string(columnNames.preparedReward).nullable();
+          });
+        }
+      },
+    });
+  }
+
+  public rollback() {
+    return this.operate({
+      name: "rollback from bundle prepared reward",
+      operation: async () => {
+        for (const tableName of this.bundleTables) {
+          await this.knex.schema.alterTable(tableName, (table) => {
+            table.dropColumn(columnNames.preparedReward);
+          });
+        }
+      },
+    });
+  }
+}
+
 export class X402PaymentsMigrator extends Migrator {
   constructor(private readonly knex: Knex) {
     super();
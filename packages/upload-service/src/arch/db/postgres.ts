@@ -20,16 +20,33 @@ import winston from "winston";
 
 import {
   batchingSize,
+  dedicatedBundleTypesConfigKey,
+  defaultBundlePlanningSla,
   failedReasons,
   maxDataItemsPerBundle,
   retryLimitForFailedDataItems,
+  walletReserveForecastConfigKey,
 } from "../../constants";
 import logger from "../../logger";
 import { MetricRegistry } from "../../metricRegistry";
 import {
+  BundleDataItem,
+  BundleDataItemDBResult,
+  BundleLifecycle,
+  BundleLifecycleDBResult,
+  BundleLifecyclesCursor,
   BundlePlanDBResult,
+  BundleState,
+  ConfigDBResult,
   DataItemDbResults,
   DataItemFailedReason,
+  DataItemInfo,
+  DataItemInfoDBResult,
+  DataItemStatus,
+  DataItemUpload,
+  DataItemUploadDBResult,
+  DataItemUploadsCursor,
+  DataItemWebhookDBResult,
   FailedBundleDbInsert,
   FailedDataItemDBInsert,
   FailedDataItemDBResult,
@@ -61,17 +78,32 @@ import {
   RePackDataItemDbInsert,
   SeededBundle,
   SeededBundleDBResult,
+  StorageTieringCandidate,
+  StorageTieringCandidateDBResult,
+  UpdateNewBundleRewardParams,
+  WebhookDeadLetter,
+  WebhookDeadLetterDBInsert,
+  WebhookRegistration,
+  WebhookRegistrationDBResult,
   X402Payment,
 } from "../../types/dbTypes";
 import {
+  BundlePlanSlaTrigger,
   DataItemId,
+  PublicArweaveAddress,
+  StorageTier,
   TransactionId,
   UploadId,
   W,
+  WalletReserveForecast,
   Winston,
 } from "../../types/types";
 import { isValidArweaveBase64URL } from "../../utils/base64";
 import { generateArrayChunks } from "../../utils/common";
+import {
+  DedicatedBundleTypeOverrides,
+  parseDedicatedBundleTypeOverrides,
+} from "../../utils/dedicatedBundleTypes";
 import {
   BundlePlanExistsInAnotherStateWarning,
   DataItemExistsWarning,
@@ -80,17 +112,86 @@ import {
   postgresInsertFailedPrimaryKeyNotUniqueCode,
   postgresTableRowsLockedUniqueCode,
 } from "../../utils/errors";
-import { Database, UpdateDataItemsToPermanentParams } from "./database";
+import {
+  Database,
+  GetBundleLifecyclesParams,
+  GetDataItemUploadsByOwnerParams,
+  GetStorageTieringCandidatesParams,
+  UpdateDataItemsToPermanentParams,
+} from "./database";
 import { columnNames, tableNames } from "./dbConstants";
 import {
+  bundleDataItemDbResultToBundleDataItemMap,
+  bundleLifecycleDbResultToBundleLifecycleMap,
+  dataItemInfoDbResultToDataItemInfoMap,
+  dataItemUploadDbResultToDataItemUploadMap,
   newBundleDbResultToNewBundleMap,
   newDataItemDbResultToNewDataItemMap,
   plannedDataItemDbResultToPlannedDataItemMap,
   postedBundleDbResultToPostedBundleMap,
   seededBundleDbResultToSeededBundleMap,
+  storageTieringCandidateDbResultToCandidateMap,
+  webhookRegistrationDbResultToWebhookRegistrationMap,
 } from "./dbMaps";
 import { getReaderConfig, getWriterConfig } from "./knexConfig";
 
+const bundleStates: BundleState[] = [
+  "planned",
+  "new",
+  "posted",
+  "seeded",
+  "permanent",
+  "failed",
+];
+
+const bundleStateTableNames: Record<BundleState, string> = {
+  planned: tableNames.bundlePlan,
+  new: tableNames.newBundle,
+  posted: tableNames.postedBundle,
+  seeded: tableNames.seededBundle,
+  permanent: tableNames.permanentBundle,
+  failed: tableNames.failedBundle,
+};
+
+// Each bundle table carries the columns of the tables before it, as rows are spread from one to the next
+const newBundleColumns = [
+  columnNames.bundleId,
+  columnNames.reward,
+  columnNames.preparedReward,
+  columnNames.transactionByteCount,
+  columnNames.headerByteCount,
+  columnNames.payloadByteCount,
+  columnNames.signedDate,
+];
+const postedBundleColumns = [
+  ...newBundleColumns,
+  columnNames.usdToArRate,
+  columnNames.postedDate,
+];
+const seededBundleColumns = [...postedBundleColumns, columnNames.seededDate];
+const bundleStateColumns: Record<BundleState, string[]> = {
+  planned: [],
+  new: newBundleColumns,
+  posted: postedBundleColumns,
+  seeded: seededBundleColumns,
+  permanent: [
+    ...seededBundleColumns,
+    columnNames.blockHeight,
+    columnNames.indexedOnGQL,
+    columnNames.permanentDate,
+  ],
+  failed: [
+    ...seededBundleColumns,
+    columnNames.failedReason,
+    columnNames.failedDate,
+  ],
+};
+const bundleLifecycleColumns = [
+  ...bundleStateColumns.permanent,
+  columnNames.failedReason,
+  columnNames.failedDate,
+];
+
 export class PostgresDatabase implements Database {
   private log: winston.Logger;
   private reader: Knex;
@@ -341,33 +442,65 @@ export class PostgresDatabase implements Database {
     };
   }
 
-  public async getNewDataItems(): Promise<NewDataItem[]> {
-    this.log.debug("Getting new data items from database...");
+  public async getNewDataItems(
+    maxWaitMsByPremiumFeatureType: Record<string, number> = {},
+    premiumFeatureTypes?: string[]
+  ): Promise<NewDataItem[]> {
+    this.log.debug("Getting new data items from database...", {
+      maxWaitMsByPremiumFeatureType,
+      premiumFeatureTypes,
+    });
+
+    // Each lane is fetched by uploaded_date from the premium feature type and upload date index, then lanes
+    // are merged by SLA deadline so lanes with short max waits aren't starved by a backlog of older bulk data items
+    const lanes = newDataItemLanes(
+      maxWaitMsByPremiumFeatureType,
+      premiumFeatureTypes
+    );
+    const limit = maxDataItemsPerBundle * 5;
 
     try {
-      // Using a raw query here due to the db driver's behavior of returning uploaded_date in the "wrong" UTC timezone
       const fetchStartTimestamp = Date.now();
-      const dbResult: (NewDataItemDBResult & { uploaded_date_utc: string })[] =
-        (
-          (await this.reader.raw(
-            `SELECT *, uploaded_date AT TIME ZONE 'UTC' as uploaded_date_utc
-              FROM ${tableNames.newDataItem}
-              ORDER BY uploaded_date
-              LIMIT ${maxDataItemsPerBundle * 5}
-            `
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          )) as any
-        ).rows;
-      dbResult.forEach((result) => {
-        result.uploaded_date = result.uploaded_date_utc;
-      });
+      const laneResults = await Promise.all(
+        lanes.map(async ({ where, bindings, maxWaitMs }) => {
+          // Using a raw query here due to the db driver's behavior of returning uploaded_date in the "wrong" UTC timezone
+          const dbResult: (NewDataItemDBResult & {
+            uploaded_date_utc: string;
+          })[] = (
+            (await this.reader.raw(
+              `SELECT *, uploaded_date AT TIME ZONE 'UTC' as uploaded_date_utc
+                FROM ${tableNames.newDataItem}
+                ${where}
+                ORDER BY uploaded_date
+                LIMIT ${limit}
+              `,
+              bindings
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            )) as any
+          ).rows;
+          return dbResult.map((result) => {
+            result.uploaded_date = result.uploaded_date_utc;
+            const dataItem = newDataItemDbResultToNewDataItemMap(result);
+            return {
+              dataItem,
+              deadlineMs: new Date(dataItem.uploadedDate).getTime() + maxWaitMs,
+            };
+          });
+        })
+      );
+      const newDataItems = laneResults
+        .flat()
+        .sort((a, b) => a.deadlineMs - b.deadlineMs)
+        .slice(0, limit)
+        .map(({ dataItem }) => dataItem);
       const durationMs = Date.now() - fetchStartTimestamp;
       this.log.info(`Fetched new data items from database.`, {
-        count: dbResult.length,
+        count: newDataItems.length,
+        laneCount: lanes.length,
         durationMs,
-        msPerRow: durationMs / dbResult.length,
+        msPerRow: durationMs / newDataItems.length,
       });
-      return dbResult.map(newDataItemDbResultToNewDataItemMap);
+      return newDataItems;
     } catch (error) {
       if ((error as PostgresError).code === postgresTableRowsLockedUniqueCode) {
         this.log.warn("Table rows are locked by another execution...skipping");
@@ -382,11 +515,13 @@ export class PostgresDatabase implements Database {
 
   public async insertBundlePlan(
     planId: PlanId,
-    dataItemIds: TransactionId[]
+    dataItemIds: TransactionId[],
+    slaTrigger?: BundlePlanSlaTrigger
   ): Promise<void> {
     this.log.debug("Inserting bundle plan...", {
       planId,
       dataItemIds,
+      slaTrigger,
     });
 
     const dataItemIdBatches = [
@@ -395,7 +530,7 @@ export class PostgresDatabase implements Database {
 
     const { planned_date } = (
       await this.writer<BundlePlanDBResult>(tableNames.bundlePlan)
-        .insert({ plan_id: planId })
+        .insert({ plan_id: planId, sla_trigger: slaTrigger })
         .returning("planned_date")
     )[0];
 
@@ -590,7 +725,9 @@ export class PostgresDatabase implements Database {
         bundle_id: bundleId,
         plan_id: planId,
         planned_date: bundlePlanDbResults[0].planned_date,
+        sla_trigger: bundlePlanDbResults[0].sla_trigger,
         reward: reward.toString(),
+        prepared_reward: reward.toString(),
         header_byte_count: headerByteCount.toString(),
         payload_byte_count: payloadByteCount.toString(),
         transaction_byte_count: transactionByteCount.toString(),
@@ -600,6 +737,71 @@ export class PostgresDatabase implements Database {
     });
   }
 
+  public updateNewBundleReward({
+    planId,
+    bundleId,
+    rePricedBundleId,
+    reward,
+    transactionByteCount,
+  }: UpdateNewBundleRewardParams): Promise<void> {
+    this.log.debug("Updating new bundle reward...", {
+      planId,
+      bundleId,
+      rePricedBundleId,
+      reward: reward.toString(),
+    });
+
+    return this.writer.transaction(async (knexTransaction) => {
+      const updatedRowCount = await knexTransaction(tableNames.newBundle)
+        .where({ plan_id: planId, bundle_id: bundleId })
+        .update({
+          [columnNames.bundleId]: rePricedBundleId,
+          // Bundles prepared before prepared rewards were recorded keep their original reward here
+          [columnNames.preparedReward]: knexTransaction.raw(
+            "coalesce(??, ??)",
+            [columnNames.preparedReward, columnNames.reward]
+          ),
+          [columnNames.reward]: reward.toString(),
+          [columnNames.transactionByteCount]: transactionByteCount.toString(),
+          [columnNames.signedDate]: knexTransaction.fn.now(),
+        });
+      if (updatedRowCount === 0) {
+        throw Error(
+          `No new_bundle exists for plan id ${planId} and bundle id ${bundleId}!`
+        );
+      }
+
+      // Offsets are recorded against the bundle ID signed at prepare time
+      await knexTransaction(tableNames.dataItemOffsets)
+        .where({ [columnNames.rootBundleId]: bundleId })
+        .update({ [columnNames.rootBundleId]: rePricedBundleId });
+    });
+  }
+
+  public async hasBundleDataItemOffsets({
+    planId,
+    bundleId,
+  }: {
+    planId: PlanId;
+    bundleId: TransactionId;
+  }): Promise<boolean> {
+    // Offsets are written by the put-offsets queue, so read them from the writer
+    const dataItemWithoutOffsets = await this.writer(tableNames.plannedDataItem)
+      .where({ [columnNames.planId]: planId })
+      .whereNotExists(
+        this.writer(tableNames.dataItemOffsets)
+          .select(columnNames.dataItemId)
+          .whereRaw("?? = ??", [
+            `${tableNames.dataItemOffsets}.${columnNames.dataItemId}`,
+            `${tableNames.plannedDataItem}.${columnNames.dataItemId}`,
+          ])
+          .where({ [columnNames.rootBundleId]: bundleId })
+      )
+      .first(columnNames.dataItemId);
+
+    return dataItemWithoutOffsets === undefined;
+  }
+
   public async getNextBundleToPostByPlanId(planId: PlanId): Promise<NewBundle> {
     this.log.debug("Getting new_bundle from database...", { planId });
 
@@ -758,6 +960,29 @@ export class PostgresDatabase implements Database {
       throw error;
     }
   }
+  public async getSeededOrPermanentBundle(
+    bundleId: TransactionId
+  ): Promise<SeededBundle | undefined> {
+    this.log.debug("Getting seeded or permanent bundle from database...", {
+      bundleId,
+    });
+
+    const [seededBundleDbResult, permanentBundleDbResult] = await Promise.all([
+      this.reader<SeededBundleDBResult>(tableNames.seededBundle).where({
+        bundle_id: bundleId,
+      }),
+      this.reader<PermanentBundleDBResult>(tableNames.permanentBundle).where({
+        bundle_id: bundleId,
+      }),
+    ]);
+    const bundleDbResult =
+      seededBundleDbResult[0] ?? permanentBundleDbResult[0];
+
+    return bundleDbResult
+      ? seededBundleDbResultToSeededBundleMap(bundleDbResult)
+      : undefined;
+  }
+
 
   public async updateBundleAsPermanent(
     planId: string,
@@ -949,18 +1174,9 @@ export class PostgresDatabase implements Database {
     }
   }
 
-  public async getDataItemInfo(dataItemId: string): Promise<
-    | {
-        status: "new" | "pending" | "permanent" | "failed";
-        assessedWinstonPrice: Winston;
-        bundleId?: string | undefined;
-        uploadedTimestamp: number;
-        deadlineHeight?: number;
-        failedReason?: DataItemFailedReason;
-        owner: string;
-      }
-    | undefined
-  > {
+  public async getDataItemInfo(
+    dataItemId: string
+  ): Promise<DataItemInfo | undefined> {
     this.log.debug("Getting data item info...", {
       dataItemId,
     });
@@ -1069,6 +1285,432 @@ export class PostgresDatabase implements Database {
     return undefined;
   }
 
+  public async getDataItemInfos(
+    dataItemIds: TransactionId[]
+  ): Promise<Record<TransactionId, DataItemInfo>> {
+    this.log.debug("Getting data item infos...", {
+      dataItemCount: dataItemIds.length,
+    });
+
+    if (dataItemIds.length === 0) {
+      return {};
+    }
+
+    const dataItemColumns = [
+      columnNames.dataItemId,
+      columnNames.winstonPrice,
+      columnNames.uploadedDate,
+      columnNames.deadlineHeight,
+      columnNames.owner,
+    ];
+    const raw = (sql: string) => this.reader.raw(sql);
+
+    const dbResults = await this.reader
+      .select<DataItemInfoDBResult[]>(
+        ...dataItemColumns,
+        raw("'new' as status"),
+        raw("null as bundle_id"),
+        raw("null as failed_reason")
+      )
+      .from(tableNames.newDataItem)
+      .whereIn(columnNames.dataItemId, dataItemIds)
+      .unionAll((query) => {
+        // Planned data items take the bundle id of whichever bundle state their plan is in
+        void query
+          .select(
+            ...dataItemColumns.map((column) => `pdi.${column}`),
+            raw("'pending' as status"),
+            raw(
+              "coalesce(nb.bundle_id, pb.bundle_id, sb.bundle_id) as bundle_id"
+            ),
+            raw("null as failed_reason")
+          )
+          .from(`${tableNames.plannedDataItem} as pdi`)
+          .leftJoin(
+            `${tableNames.newBundle} as nb`,
+            "nb.plan_id",
+            "pdi.plan_id"
+          )
+          .leftJoin(
+            `${tableNames.postedBundle} as pb`,
+            "pb.plan_id",
+            "pdi.plan_id"
+          )
+          .leftJoin(
+            `${tableNames.seededBundle} as sb`,
+            "sb.plan_id",
+            "pdi.plan_id"
+          )
+          .whereIn(`pdi.${columnNames.dataItemId}`, dataItemIds);
+      })
+      .unionAll((query) => {
+        void query
+          .select(
+            ...dataItemColumns,
+            raw("'permanent' as status"),
+            columnNames.bundleId,
+            raw("null as failed_reason")
+          )
+          .from(tableNames.permanentDataItems)
+          .whereIn(columnNames.dataItemId, dataItemIds);
+      })
+      .unionAll((query) => {
+        void query
+          .select(
+            ...dataItemColumns,
+            raw("'failed' as status"),
+            raw("null as bundle_id"),
+            columnNames.failedReason
+          )
+          .from(tableNames.failedDataItem)
+          .whereIn(columnNames.dataItemId, dataItemIds);
+      });
+
+    // A data item caught mid transition can be in two tables, so prefer the same order as getDataItemInfo
+    const statusPrecedence: DataItemStatus[] = [
+      "new",
+      "pending",
+      "permanent",
+      "failed",
+    ];
+    const dataItemInfos: Record<TransactionId, DataItemInfo> = {};
+    for (const dbResult of dbResults) {
+      const existingInfo = dataItemInfos[dbResult.data_item_id];
+      if (
+        existingInfo &&
+        statusPrecedence.indexOf(existingInfo.status) <=
+          statusPrecedence.indexOf(dbResult.status)
+      ) {
+        continue;
+      }
+      dataItemInfos[dbResult.data_item_id] =
+        dataItemInfoDbResultToDataItemInfoMap(dbResult);
+    }
+    return dataItemInfos;
+  }
+
+  public async getDataItemUploadsByOwner({
+    ownerPublicAddress,
+    limit,
+    cursor,
+    statuses = ["new", "pending", "permanent", "failed"],
+    fromDate,
+    toDate,
+  }: GetDataItemUploadsByOwnerParams): Promise<{
+    uploads: DataItemUpload[];
+    nextCursor?: DataItemUploadsCursor;
+  }> {
+    this.log.debug("Getting data item uploads by owner...", {
+      ownerPublicAddress,
+      limit,
+      cursor,
+      statuses,
+    });
+
+    const raw = (sql: string) => this.reader.raw(sql);
+    const { uploadedDate, dataItemId } = columnNames;
+    const uploadColumns = (alias: string) =>
+      [
+        dataItemId,
+        columnNames.byteCount,
+        columnNames.winstonPrice,
+        uploadedDate,
+      ].map((column) => `${alias}.${column}`);
+    const whereOwnerUploads = (query: Knex.QueryBuilder, alias: string) => {
+      query = query.where(`${alias}.${columnNames.owner}`, ownerPublicAddress);
+      if (fromDate) {
+        query = query.where(
+          `${alias}.${uploadedDate}`,
+          ">=",
+          fromDate.toISOString()
+        );
+      }
+      if (toDate) {
+        query = query.where(
+          `${alias}.${uploadedDate}`,
+          "<=",
+          toDate.toISOString()
+        );
+      }
+      if (cursor) {
+        // Row comparison keeps pages stable as data items move between tables, since neither value changes
+        query = query.whereRaw(
+          `(${alias}.${uploadedDate}, ${alias}.${dataItemId}) < (?::timestamp, ?)`,
+          [cursor.uploadedDate, cursor.dataItemId]
+        );
+      }
+      return query;
+    };
+
+    const uploadQueries: Record<DataItemStatus, Knex.QueryBuilder> = {
+      new: whereOwnerUploads(
+        this.reader
+          .select(
+            ...uploadColumns("ndi"),
+            raw("'new' as status"),
+            raw("0 as status_rank"),
+            raw("null as bundle_id"),
+            raw("null as failed_reason")
+          )
+          .from(`${tableNames.newDataItem} as ndi`),
+        "ndi"
+      ),
+      pending: whereOwnerUploads(
+        this.reader
+          .select(
+            ...uploadColumns("pdi"),
+            raw("'pending' as status"),
+            raw("1 as status_rank"),
+            raw(
+              "coalesce(nb.bundle_id, pb.bundle_id, sb.bundle_id) as bundle_id"
+            ),
+            raw("null as failed_reason")
+          )
+          .from(`${tableNames.plannedDataItem} as pdi`)
+          .leftJoin(
+            `${tableNames.newBundle} as nb`,
+            "nb.plan_id",
+            "pdi.plan_id"
+          )
+          .leftJoin(
+            `${tableNames.postedBundle} as pb`,
+            "pb.plan_id",
+            "pdi.plan_id"
+          )
+          .leftJoin(
+            `${tableNames.seededBundle} as sb`,
+            "sb.plan_id",
+            "pdi.plan_id"
+          ),
+        "pdi"
+      ),
+      permanent: whereOwnerUploads(
+        this.reader
+          .select(
+            ...uploadColumns("pdis"),
+            raw("'permanent' as status"),
+            raw("2 as status_rank"),
+            `pdis.${columnNames.bundleId}`,
+            raw("null as failed_reason")
+          )
+          .from(`${tableNames.permanentDataItems} as pdis`),
+        "pdis"
+      ),
+      failed: whereOwnerUploads(
+        this.reader
+          .select(
+            ...uploadColumns("fdi"),
+            raw("'failed' as status"),
+            raw("3 as status_rank"),
+            raw("null as bundle_id"),
+            `fdi.${columnNames.failedReason}`
+          )
+          .from(`${tableNames.failedDataItem} as fdi`),
+        "fdi"
+      ),
+    };
+
+    const [firstQuery, ...otherQueries] = statuses.map(
+      (status) => uploadQueries[status]
+    );
+    const unionQuery =
+      otherQueries.length > 0 ? firstQuery.unionAll(otherQueries) : firstQuery;
+
+    // Fetch one extra row to learn whether another page follows. A data item caught mid
+    // transition can be in two tables, so keep only its row with the same precedence as getDataItemInfo
+    const dbResults = await this.reader
+      .distinctOn(uploadedDate, dataItemId)
+      .select<DataItemUploadDBResult[]>(
+        "*",
+        raw(`${uploadedDate}::text as uploaded_date_cursor`)
+      )
+      .from(unionQuery.as("uploads"))
+      .orderBy([
+        { column: uploadedDate, order: "desc" },
+        { column: dataItemId, order: "desc" },
+        { column: "status_rank", order: "asc" },
+      ])
+      .limit(limit + 1);
+
+    const pageResults = dbResults.slice(0, limit);
+    const lastResult = pageResults[pageResults.length - 1];
+    return {
+      uploads: pageResults.map(dataItemUploadDbResultToDataItemUploadMap),
+      nextCursor:
+        dbResults.length > limit
+          ? {
+              uploadedDate: lastResult.uploaded_date_cursor,
+              dataItemId: lastResult.data_item_id,
+            }
+          : undefined,
+    };
+  }
+
+  /** Selects the bundles of each given state table with the same columns, so they can be unioned */
+  private bundleLifecycleQuery(
+    states: BundleState[],
+    whereBundles: (
+      query: Knex.QueryBuilder,
+      state: BundleState
+    ) => Knex.QueryBuilder
+  ): Knex.QueryBuilder {
+    const raw = (sql: string) => this.reader.raw(sql);
+    const [firstQuery, ...otherQueries] = states.map((state) => {
+      const query = this.reader
+        .select(
+          `b.${columnNames.planId}`,
+          `b.${columnNames.plannedDate}`,
+          `b.${columnNames.slaTrigger}`,
+          raw(`'${state}' as state`),
+          ...bundleLifecycleColumns.map((column) =>
+            bundleStateColumns[state].includes(column)
+              ? `b.${column}`
+              : raw(`null as ${column}`)
+          )
+        )
+        .from(`${bundleStateTableNames[state]} as b`);
+      return whereBundles(query, state);
+    });
+    return otherQueries.length > 0
+      ? firstQuery.unionAll(otherQueries)
+      : firstQuery;
+  }
+
+  public async getBundleLifecycle(
+    bundleIdOrPlanId: string
+  ): Promise<BundleLifecycle | undefined> {
+    this.log.debug("Getting bundle lifecycle...", { bundleIdOrPlanId });
+
+    const dbResults = await this.reader
+      .select<BundleLifecycleDBResult[]>(
+        "*",
+        this.reader.raw(
+          `${columnNames.plannedDate}::text as planned_date_cursor`
+        )
+      )
+      .from(
+        this.bundleLifecycleQuery(bundleStates, (query, state) => {
+          query = query.where(`b.${columnNames.planId}`, bundleIdOrPlanId);
+          if (state !== "planned") {
+            query = query.orWhere(
+              `b.${columnNames.bundleId}`,
+              bundleIdOrPlanId
+            );
+          }
+          return query;
+        }).as("bundles")
+      );
+
+    return dbResults.length > 0
+      ? bundleLifecycleDbResultToBundleLifecycleMap(dbResults[0])
+      : undefined;
+  }
+
+  public async getBundleLifecycles({
+    limit,
+    cursor,
+    states = bundleStates,
+    fromDate,
+    toDate,
+  }: GetBundleLifecyclesParams): Promise<{
+    bundles: BundleLifecycle[];
+    nextCursor?: BundleLifecyclesCursor;
+  }> {
+    this.log.debug("Getting bundle lifecycles...", {
+      limit,
+      cursor,
+      states,
+    });
+
+    const { plannedDate, planId } = columnNames;
+    const unionQuery = this.bundleLifecycleQuery(states, (query) => {
+      if (fromDate) {
+        query = query.where(`b.${plannedDate}`, ">=", fromDate.toISOString());
+      }
+      if (toDate) {
+        query = query.where(`b.${plannedDate}`, "<=", toDate.toISOString());
+      }
+      if (cursor) {
+        query = query.whereRaw(
+          `(b.${plannedDate}, b.${planId}) < (?::timestamp, ?)`,
+          [cursor.plannedDate, cursor.planId]
+        );
+      }
+      return query;
+    });
+
+    // Fetch one extra row to learn whether another page follows
+    const dbResults = await this.reader
+      .select<BundleLifecycleDBResult[]>(
+        "*",
+        this.reader.raw(`${plannedDate}::text as planned_date_cursor`)
+      )
+      .from(unionQuery.as("bundles"))
+      .orderBy([
+        { column: plannedDate, order: "desc" },
+        { column: planId, order: "desc" },
+      ])
+      .limit(limit + 1);
+
+    const pageResults = dbResults.slice(0, limit);
+    const lastResult = pageResults[pageResults.length - 1];
+    return {
+      bundles: pageResults.map(bundleLifecycleDbResultToBundleLifecycleMap),
+      nextCursor:
+        dbResults.length > limit
+          ? {
+              plannedDate: lastResult.planned_date_cursor,
+              planId: lastResult.plan_id,
+            }
+          : undefined,
+    };
+  }
+
+  public async getBundleDataItems(planId: PlanId): Promise<BundleDataItem[]> {
+    this.log.debug("Getting bundle data items...", { planId });
+
+    const raw = (sql: string) => this.reader.raw(sql);
+    const dataItemColumns = (alias: string) =>
+      [
+        columnNames.dataItemId,
+        columnNames.owner,
+        columnNames.byteCount,
+        columnNames.winstonPrice,
+        columnNames.premiumFeatureType,
+        columnNames.uploadedDate,
+      ].map((column) => `${alias}.${column}`);
+
+    const dbResults = await this.reader
+      .select<BundleDataItemDBResult[]>(
+        ...dataItemColumns("pdi"),
+        raw("'pending' as status"),
+        raw("null as failed_reason")
+      )
+      .from(`${tableNames.plannedDataItem} as pdi`)
+      .where(`pdi.${columnNames.planId}`, planId)
+      .unionAll([
+        this.reader
+          .select(
+            ...dataItemColumns("pdis"),
+            raw("'permanent' as status"),
+            raw("null as failed_reason")
+          )
+          .from(`${tableNames.permanentDataItems} as pdis`)
+          .where(`pdis.${columnNames.planId}`, planId),
+        this.reader
+          .select(
+            ...dataItemColumns("fdi"),
+            raw("'failed' as status"),
+            `fdi.${columnNames.failedReason}`
+          )
+          .from(`${tableNames.failedDataItem} as fdi`)
+          .where(`fdi.${columnNames.planId}`, planId),
+      ])
+      .orderBy([columnNames.uploadedDate, columnNames.dataItemId]);
+
+    return dbResults.map(bundleDataItemDbResultToBundleDataItemMap);
+  }
+
   public async getLastDataItemInBundle(
     plan_id: string
   ): Promise<PlannedDataItem> {
@@ -1092,6 +1734,7 @@ export class PostgresDatabase implements Database {
     uploadId,
     uploadKey,
     chunkSize,
+    uploadLength,
   }: InFlightMultiPartUploadParams): Promise<InFlightMultiPartUpload> {
     this.log.debug("Inserting in flight multipart upload...", {
       uploadId,
@@ -1108,6 +1751,8 @@ export class PostgresDatabase implements Database {
             upload_key: uploadKey,
             chunk_size:
               chunkSize === undefined ? undefined : chunkSize.toString(),
+            upload_length:
+              uploadLength === undefined ? undefined : uploadLength.toString(),
           })
           .returning("*"); // Returning the inserted row
 
@@ -1180,6 +1825,22 @@ export class PostgresDatabase implements Database {
     return entityToInFlightMultiPartUpload(inFlightUpload);
   }
 
+  public async deleteInflightMultiPartUpload(uploadId: UploadId) {
+    this.log.debug("Deleting in flight multipart upload...", {
+      uploadId,
+    });
+
+    const numDeletedRows = await this.writer<InFlightMultiPartUploadDBResult>(
+      tableNames.inFlightMultiPartUpload
+    )
+      .where({ upload_id: uploadId })
+      .del();
+
+    if (numDeletedRows === 0) {
+      throw new MultiPartUploadNotFound(uploadId);
+    }
+  }
+
   public async failInflightMultiPartUpload({
     uploadId,
     failedReason,
@@ -1306,6 +1967,9 @@ export class PostgresDatabase implements Database {
       finalizedAt: finalizedUpload.finalized_at,
       etag: finalizedUpload.etag,
       dataItemId: finalizedUpload.data_item_id,
+      uploadLength: finalizedUpload.upload_length
+        ? +finalizedUpload.upload_length
+        : undefined,
       failedReason: isMultipartUploadFailedReason(finalizedUpload.failed_reason)
         ? finalizedUpload.failed_reason
         : undefined,
@@ -1449,6 +2113,328 @@ export class PostgresDatabase implements Database {
       settledAt: row.settled_at,
     }));
   }
+
+  public async getDedicatedBundleTypeOverrides(): Promise<DedicatedBundleTypeOverrides> {
+    this.log.debug("Getting dedicated bundle type overrides...");
+
+    const configDbResult = await this.reader<ConfigDBResult>(tableNames.config)
+      .where({ key: dedicatedBundleTypesConfigKey })
+      .first();
+
+    if (!configDbResult) {
+      return {};
+    }
+
+    return parseDedicatedBundleTypeOverrides(configDbResult.value, this.log);
+  }
+
+  public async getWebhookRegistration(
+    ownerPublicAddress: PublicArweaveAddress
+  ): Promise<WebhookRegistration | undefined> {
+    const registration = await this.reader<WebhookRegistrationDBResult>(
+      tableNames.webhookRegistration
+    )
+      .where({ [columnNames.owner]: ownerPublicAddress })
+      .first();
+
+    return registration
+      ? webhookRegistrationDbResultToWebhookRegistrationMap(registration)
+      : undefined;
+  }
+
+  public async putWebhookRegistration({
+    ownerPublicAddress,
+    webhookUrl,
+  }: {
+    ownerPublicAddress: PublicArweaveAddress;
+    webhookUrl: string;
+  }): Promise<WebhookRegistration> {
+    this.log.debug("Putting webhook registration...", {
+      ownerPublicAddress,
+      webhookUrl,
+    });
+
+    const [registration] = await this.writer<WebhookRegistrationDBResult>(
+      tableNames.webhookRegistration
+    )
+      .insert({
+        [columnNames.owner]: ownerPublicAddress,
+        [columnNames.webhookUrl]: webhookUrl,
+      })
+      .onConflict(columnNames.owner)
+      .merge({
+        [columnNames.webhookUrl]: webhookUrl,
+        [columnNames.updatedDate]: this.writer.fn.now(),
+      })
+      .returning("*");
+
+    return webhookRegistrationDbResultToWebhookRegistrationMap(registration);
+  }
+
+  public async deleteWebhookRegistration(
+    ownerPublicAddress: PublicArweaveAddress
+  ): Promise<boolean> {
+    const deletedCount = await this.writer(tableNames.webhookRegistration)
+      .where({ [columnNames.owner]: ownerPublicAddress })
+      .del();
+
+    return deletedCount > 0;
+  }
+
+  public async insertDataItemWebhook({
+    dataItemId,
+    webhookUrl,
+  }: {
+    dataItemId: DataItemId;
+    webhookUrl: string;
+  }): Promise<void> {
+    await this.writer(tableNames.dataItemWebhook)
+      .insert({
+        [columnNames.dataItemId]: dataItemId,
+        [columnNames.webhookUrl]: webhookUrl,
+      })
+      .onConflict(columnNames.dataItemId)
+      .ignore();
+  }
+
+  public async getWebhookUrlsForDataItems(
+    dataItems: { dataItemId: DataItemId; ownerPublicAddress: string }[]
+  ): Promise<Record<DataItemId, string>> {
+    if (dataItems.length === 0) {
+      return {};
+    }
+
+    const owners = [
+      ...new Set(dataItems.map(({ ownerPublicAddress }) => ownerPublicAddress)),
+    ];
+    const [dataItemWebhooks, registrations] = await Promise.all([
+      this.reader<DataItemWebhookDBResult>(tableNames.dataItemWebhook).whereIn(
+        columnNames.dataItemId,
+        dataItems.map(({ dataItemId }) => dataItemId)
+      ),
+      this.reader<WebhookRegistrationDBResult>(
+        tableNames.webhookRegistration
+      ).whereIn(columnNames.owner, owners),
+    ]);
+
+    const urlsByOwner = new Map<string, string>(
+      registrations.map((r) => [r.owner_public_address, r.webhook_url])
+    );
+    const urlsByDataItemId = new Map<DataItemId, string>(
+      dataItemWebhooks.map((w) => [w.data_item_id, w.webhook_url])
+    );
+
+    const webhookUrls: Record<DataItemId, string> = {};
+    for (const { dataItemId, ownerPublicAddress } of dataItems) {
+      const webhookUrl =
+        urlsByDataItemId.get(dataItemId) ?? urlsByOwner.get(ownerPublicAddress);
+      if (webhookUrl) {
+        webhookUrls[dataItemId] = webhookUrl;
+      }
+    }
+    return webhookUrls;
+  }
+
+  public async deleteDataItemWebhooks(
+    dataItemIds: DataItemId[]
+  ): Promise<void> {
+    if (dataItemIds.length === 0) {
+      return;
+    }
+
+    await this.writer(tableNames.dataItemWebhook)
+      .whereIn(columnNames.dataItemId, dataItemIds)
+      .del();
+  }
+
+  public async insertWebhookDeadLetter({
+    webhookUrl,
+    payload,
+    failedReason,
+    attemptsMade,
+  }: WebhookDeadLetter): Promise<void> {
+    this.log.warn("Inserting webhook dead letter...", {
+      webhookUrl,
+      payload,
+      failedReason,
+      attemptsMade,
+    });
+
+    await this.writer(
+      tableNames.webhookDeadLetter
+    ).insert<WebhookDeadLetterDBInsert>({
+      data_item_id: payload.dataItemId,
+      webhook_url: webhookUrl,
+      event: payload.event,
+      payload: JSON.stringify(payload),
+      failed_reason: failedReason,
+      attempts_made: attemptsMade,
+    });
+  }
+
+  public async getDataItemStorageTier(
+    dataItemId: TransactionId
+  ): Promise<StorageTier | undefined> {
+    const location = await this.reader(tableNames.dataItemStorageLocation)
+      .select(columnNames.storageTier)
+      .where({ [columnNames.dataItemId]: dataItemId })
+      .first();
+    return location?.[columnNames.storageTier];
+  }
+
+  public async putDataItemStorageTier({
+    dataItemId,
+    storageTier,
+  }: {
+    dataItemId: TransactionId;
+    storageTier: StorageTier;
+  }): Promise<void> {
+    this.log.debug("Putting data item storage tier...", {
+      dataItemId,
+      storageTier,
+    });
+
+    const location = {
+      [columnNames.storageTier]: storageTier,
+      [columnNames.tieredDate]: this.writer.fn.now(),
+      [columnNames.lastAccessedDate]: null,
+      [columnNames.accessCount]: 0,
+    };
+    await this.writer(tableNames.dataItemStorageLocation)
+      .insert({ [columnNames.dataItemId]: dataItemId, ...location })
+      .onConflict(columnNames.dataItemId)
+      .merge(location);
+  }
+
+  public async recordDataItemAccess(dataItemId: TransactionId): Promise<void> {
+    await this.writer(tableNames.dataItemStorageLocation)
+      .where({ [columnNames.dataItemId]: dataItemId })
+      .update({
+        [columnNames.accessCount]: this.writer.raw("?? + 1", [
+          columnNames.accessCount,
+        ]),
+        [columnNames.lastAccessedDate]: this.writer.fn.now(),
+      });
+  }
+
+  public async getStorageTieringCandidates({
+    fsBackupCutoff,
+    objectStoreCutoff,
+    idleCutoff,
+    promoteMinAccessCount,
+    limit,
+  }: GetStorageTieringCandidatesParams): Promise<StorageTieringCandidate[]> {
+    const candidates = await this.reader<StorageTieringCandidateDBResult>(
+      `${tableNames.permanentDataItems} as p`
+    )
+      .leftJoin(
+        `${tableNames.dataItemStorageLocation} as l`,
+        "p.data_item_id",
+        "l.data_item_id"
+      )
+      .select(
+        "p.data_item_id",
+        "p.uploaded_date",
+        "l.storage_tier",
+        "l.tiered_date",
+        "l.last_accessed_date",
+        "l.access_count"
+      )
+      .where((qb) => {
+        void qb
+          // Payloads still where they were stored on upload
+          .where((q) => {
+            void q
+              .whereNull("l.storage_tier")
+              .andWhere("p.uploaded_date", "<", fsBackupCutoff.toISOString());
+          })
+          // Idle payloads due for the archive
+          .orWhere((q) => {
+            void q
+              .where("l.storage_tier", "object_store")
+              .andWhere("p.uploaded_date", "<", objectStoreCutoff.toISOString())
+              .andWhereRaw(
+                "coalesce(l.last_accessed_date, l.tiered_date) < ?",
+                [idleCutoff.toISOString()]
+              );
+          })
+          // Archived payloads accessed often enough to be promoted
+          .orWhere((q) => {
+            void q
+              .where("l.storage_tier", "archive")
+              .andWhere("l.access_count", ">=", promoteMinAccessCount);
+          });
+      })
+      .orderBy("p.uploaded_date")
+      .limit(limit);
+
+    return candidates.map(storageTieringCandidateDbResultToCandidateMap);
+  }
+
+  public async getBundleRewardTotals(postedSince: Date): Promise<{
+    pendingRewards: Winston;
+    postedRewards: Winston;
+  }> {
+    // Rewards are stored as strings, sum them as numerics
+    const sumRewards = (query: Knex.QueryBuilder) =>
+      query
+        .select(
+          this.reader.raw(
+            `coalesce(sum(${columnNames.reward}::numeric), 0)::text as total`
+          )
+        )
+        .first()
+        .then((result: { total: string } | undefined) => W(result?.total ?? 0));
+
+    const [pendingRewards, ...postedRewardsByTable] = await Promise.all([
+      sumRewards(this.reader(tableNames.newBundle)),
+      ...[
+        tableNames.postedBundle,
+        tableNames.seededBundle,
+        tableNames.permanentBundle,
+      ].map((tableName) =>
+        sumRewards(
+          this.reader(tableName).where(
+            columnNames.postedDate,
+            ">=",
+            postedSince.toISOString()
+          )
+        )
+      ),
+    ]);
+
+    return {
+      pendingRewards,
+      postedRewards: postedRewardsByTable.reduce(
+        (total, rewards) => total.plus(rewards),
+        W(0)
+      ),
+    };
+  }
+
+  public async getWalletReserveForecast(): Promise<
+    WalletReserveForecast | undefined
+  > {
+    const configDbResult = await this.reader<ConfigDBResult>(tableNames.config)
+      .where({ key: walletReserveForecastConfigKey })
+      .first();
+
+    return configDbResult ? JSON.parse(configDbResult.value) : undefined;
+  }
+
+  public async putWalletReserveForecast(
+    forecast: WalletReserveForecast
+  ): Promise<void> {
+    await this.writer(tableNames.config)
+      .insert({
+        key: walletReserveForecastConfigKey,
+        value: JSON.stringify(forecast),
+        description: "Latest forecast of the bundler wallet AR reserve",
+        updated_at: new Date().toISOString(),
+      })
+      .onConflict("key")
+      .merge();
+  }
 }
 
 function isMultipartUploadFailedReason(
@@ -1466,6 +2452,7 @@ function entityToInFlightMultiPartUpload(
     createdAt: entity.created_at,
     expiresAt: entity.expires_at,
     chunkSize: entity.chunk_size ? +entity.chunk_size : undefined,
+    uploadLength: entity.upload_length ? +entity.upload_length : undefined,
     failedReason: isMultipartUploadFailedReason(entity.failed_reason)
       ? entity.failed_reason
       : undefined,
@@ -1482,3 +2469,56 @@ function isPostgresError(error: unknown): error is PostgresError {
     typeof (error as PostgresError).detail === "string"
   );
 }
+
+interface NewDataItemLane {
+  where: string;
+  bindings: (string | string[])[];
+  maxWaitMs: number;
+}
+
+/**
+ * Splits the new data items to fetch into a lane per premium feature type with a max wait, and a
+ * lane of every other premium feature type on the default bundle planning SLA
+ */
+function newDataItemLanes(
+  maxWaitMsByPremiumFeatureType: Record<string, number>,
+  premiumFeatureTypes: string[] | undefined
+): NewDataItemLane[] {
+  const slaPremiumFeatureTypes = Object.keys(maxWaitMsByPremiumFeatureType);
+  const lanes: NewDataItemLane[] = slaPremiumFeatureTypes
+    .filter(
+      (premiumFeatureType) =>
+        premiumFeatureTypes === undefined ||
+        premiumFeatureTypes.includes(premiumFeatureType)
+    )
+    .map((premiumFeatureType) => ({
+      where: "WHERE premium_feature_type = ?",
+      bindings: [premiumFeatureType],
+      maxWaitMs: maxWaitMsByPremiumFeatureType[premiumFeatureType],
+    }));
+
+  const maxWaitMs = defaultBundlePlanningSla.maxWaitMs;
+  if (premiumFeatureTypes !== undefined) {
+    const otherPremiumFeatureTypes = premiumFeatureTypes.filter(
+      (premiumFeatureType) =>
+        !slaPremiumFeatureTypes.includes(premiumFeatureType)
+    );
+    if (otherPremiumFeatureTypes.length > 0) {
+      lanes.push({
+        where: "WHERE premium_feature_type IN (?)",
+        bindings: [otherPremiumFeatureTypes],
+        maxWaitMs,
+      });
+    }
+  } else if (slaPremiumFeatureTypes.length > 0) {
+    lanes.push({
+      where:
+        "WHERE premium_feature_type IS NULL OR premium_feature_type NOT IN (?)",
+      bindings: [slaPremiumFeatureTypes],
+      maxWaitMs,
+    });
+  } else {
+    lanes.push({ where: "", bindings: [], maxWaitMs });
+  }
+  return lanes;
+}
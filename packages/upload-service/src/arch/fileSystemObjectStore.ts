@@ -14,16 +14,26 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
-import { createHash } from "crypto";
+import { createHash, randomUUID } from "crypto";
 import {
   ReadStream,
   createReadStream,
+  createWriteStream,
   existsSync,
   mkdirSync,
   statSync,
 } from "fs";
-import { writeFile } from "fs/promises";
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "fs/promises";
 import { Readable } from "stream";
+import { pipeline } from "stream/promises";
 
 import {
   BundleHeaderInfo,
@@ -31,8 +41,13 @@ import {
 } from "../bundles/assembleBundleHeader";
 import logger from "../logger";
 import { PayloadInfo, UploadId } from "../types/types";
+import { MultiPartUploadNotFound } from "../utils/errors";
 import { streamToBuffer } from "../utils/streamToBuffer";
-import { MoveObjectParams, ObjectStore } from "./objectStore";
+import {
+  MoveObjectParams,
+  ObjectStore,
+  ObjectStoreOptions,
+} from "./objectStore";
 import path from "path";
 
 // Configurable temp directory for FileSystemObjectStore
@@ -48,6 +63,27 @@ const localDirectories = [
   path.join(TEMP_DIR, "multipart-uploads"),
 ];
 
+// Object options and in progress multipart upload parts are kept outside of the object key space
+const metadataDir = path.join(TEMP_DIR, ".object-metadata");
+const multipartPartsDir = path.join(TEMP_DIR, ".multipart-parts");
+
+interface FileSystemObjectMetadata {
+  contentType?: string;
+  payloadInfo?: PayloadInfo;
+}
+
+function objectPath(Key: string): string {
+  return path.join(TEMP_DIR, Key);
+}
+
+function metadataPath(Key: string): string {
+  return path.join(metadataDir, `${Key}.json`);
+}
+
+function multipartUploadDir(uploadId: UploadId): string {
+  return path.join(multipartPartsDir, uploadId);
+}
+
 export class FileSystemObjectStore implements ObjectStore {
   constructor() {
     // create the directories if they don't exist
@@ -58,7 +94,11 @@ export class FileSystemObjectStore implements ObjectStore {
     }
   }
 
-  public async putObject(Key: string, fileReadStream: Readable) {
+  public async putObject(
+    Key: string,
+    fileReadStream: Readable,
+    Options: ObjectStoreOptions = {}
+  ) {
     logger.debug(`Writing file to ${path.join(TEMP_DIR, Key)} `);
 
     if (fileReadStream.errored) {
@@ -76,7 +116,9 @@ export class FileSystemObjectStore implements ObjectStore {
     });
 
     try {
-      await writeFile(path.join(TEMP_DIR, Key), fileReadStream, { signal });
+      await mkdir(path.dirname(objectPath(Key)), { recursive: true });
+      await writeFile(objectPath(Key), fileReadStream, { signal });
+      await this.putMetadata(Key, Options);
       logger.debug("File written successfully");
     } catch (error) {
       if (error instanceof Error && error.name === "AbortError") {
@@ -122,39 +164,127 @@ export class FileSystemObjectStore implements ObjectStore {
     return Promise.resolve(statSync(path.join(TEMP_DIR, Key)).size);
   }
 
-  public getObjectPayloadInfo(_Key: string): Promise<PayloadInfo> {
-    throw new Error("Method not implemented.");
+  private async putMetadata(
+    Key: string,
+    { contentType, payloadInfo }: ObjectStoreOptions
+  ): Promise<void> {
+    await rm(metadataPath(Key), { force: true });
+    if (contentType === undefined && payloadInfo === undefined) {
+      return;
+    }
+    const metadata: FileSystemObjectMetadata = { contentType, payloadInfo };
+    await mkdir(path.dirname(metadataPath(Key)), { recursive: true });
+    await writeFile(metadataPath(Key), JSON.stringify(metadata));
   }
 
-  /* eslint-disable @typescript-eslint/no-unused-vars */
-  // multipart uploads
-  public async createMultipartUpload(_Key: string): Promise<string> {
-    throw new Error("Method not implemented.");
+  private async getMetadata(Key: string): Promise<FileSystemObjectMetadata> {
+    try {
+      return JSON.parse(await readFile(metadataPath(Key), "utf-8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
   }
 
-  public async uploadPart(
-    _Key: string,
-    _Body: Readable,
-    _uploadId: UploadId,
-    _partNumber: number
-  ): Promise<string> {
-    throw new Error("Method not implemented.");
+  public async getObjectPayloadInfo(Key: string): Promise<PayloadInfo> {
+    // Surface a missing object rather than missing metadata
+    await stat(objectPath(Key));
+    const { payloadInfo } = await this.getMetadata(Key);
+    if (!payloadInfo) {
+      throw Error("No payload info found");
+    }
+    return payloadInfo;
   }
 
   async moveObject({
-    sourceKey: _sourceKey,
-    destinationKey: _destinationKey,
+    sourceKey,
+    destinationKey,
+    Options = {},
   }: MoveObjectParams): Promise<void> {
-    throw new Error("Method not implemented.");
+    await mkdir(path.dirname(objectPath(destinationKey)), { recursive: true });
+    await rename(objectPath(sourceKey), objectPath(destinationKey));
+    await rm(metadataPath(sourceKey), { force: true });
+    await this.putMetadata(destinationKey, Options);
+  }
+
+  public async deleteObject(Key: string): Promise<void> {
+    await rm(objectPath(Key), { force: true });
+    await rm(metadataPath(Key), { force: true });
+  }
+
+  // multipart uploads
+  public async createMultipartUpload(Key: string): Promise<string> {
+    const uploadId = randomUUID();
+    await mkdir(multipartUploadDir(uploadId), { recursive: true });
+    await writeFile(path.join(multipartUploadDir(uploadId), "key"), Key);
+    return uploadId;
+  }
+
+  private async assertMultipartUploadExists(
+    Key: string,
+    uploadId: UploadId
+  ): Promise<void> {
+    const uploadKey = await readFile(
+      path.join(multipartUploadDir(uploadId), "key"),
+      "utf-8"
+    ).catch(() => undefined);
+    if (uploadKey !== Key) {
+      throw new MultiPartUploadNotFound(uploadId);
+    }
+  }
+
+  public async uploadPart(
+    Key: string,
+    Body: Readable,
+    uploadId: UploadId,
+    partNumber: number
+  ): Promise<string> {
+    await this.assertMultipartUploadExists(Key, uploadId);
+
+    const partPath = path.join(multipartUploadDir(uploadId), `${partNumber}`);
+    // Stage the part so that a failed stream neither leaves a partial part nor replaces a previous one
+    const stagedPartPath = `${partPath}.${randomUUID()}.tmp`;
+    try {
+      await pipeline(Body, createWriteStream(stagedPartPath));
+    } catch (error) {
+      await rm(stagedPartPath, { force: true });
+      throw error;
+    }
+    await rename(stagedPartPath, partPath);
+    return calculateMD5(createReadStream(partPath));
   }
 
   async completeMultipartUpload(
-    _Key: string,
-    _uploadId: UploadId
+    Key: string,
+    uploadId: UploadId
   ): Promise<string> {
-    throw new Error("Method not implemented.");
+    const parts = await this.getMultipartUploadParts(Key, uploadId);
+
+    await mkdir(path.dirname(objectPath(Key)), { recursive: true });
+    const writeStream = createWriteStream(objectPath(Key));
+    for (const { partNumber } of parts) {
+      await pipeline(
+        createReadStream(
+          path.join(multipartUploadDir(uploadId), `${partNumber}`)
+        ),
+        writeStream,
+        { end: false }
+      );
+    }
+    await new Promise<void>((resolve, reject) =>
+      writeStream.end((error?: Error | null) =>
+        error ? reject(error) : resolve()
+      )
+    );
+    await this.putMetadata(Key, {});
+    await rm(multipartUploadDir(uploadId), { recursive: true, force: true });
+
+    return calculateMD5(createReadStream(objectPath(Key)));
   }
 
+  /* eslint-disable @typescript-eslint/no-unused-vars */
   async copyPartialObject(
     _sourceKey: string,
     _destinationKey: string,
@@ -163,17 +293,31 @@ export class FileSystemObjectStore implements ObjectStore {
   ): Promise<void> {
     throw new Error("Method not implemented.");
   }
+  /* eslint-enable @typescript-eslint/no-unused-vars */
 
   async getMultipartUploadParts(
-    _Key: string,
-    _uploadId: UploadId
+    Key: string,
+    uploadId: UploadId
   ): Promise<
     {
       size: number;
       partNumber: number;
     }[]
   > {
-    throw new Error("Method not implemented.");
+    await this.assertMultipartUploadExists(Key, uploadId);
+
+    const partFileNames = (await readdir(multipartUploadDir(uploadId))).filter(
+      (fileName) => /^\d+$/.test(fileName)
+    );
+    const parts = await Promise.all(
+      partFileNames.map(async (fileName) => ({
+        partNumber: +fileName,
+        size: (
+          await stat(path.join(multipartUploadDir(uploadId), fileName))
+        ).size,
+      }))
+    );
+    return parts.sort((a, b) => a.partNumber - b.partNumber);
   }
 
   async headObject(Key: string): Promise<{
@@ -188,10 +332,11 @@ export class FileSystemObjectStore implements ObjectStore {
     });
 
     const etag = await calculateMD5(readable);
+    const { contentType } = await this.getMetadata(Key);
     return {
       etag,
       ContentLength: await this.getObjectByteCount(Key),
-      ContentType: "application/octet-stream", // TODO: undefined better?
+      ContentType: contentType ?? "application/octet-stream", // TODO: undefined better?
     };
   }
 
@@ -0,0 +1,186 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { expect } from "chai";
+import { stub } from "sinon";
+
+import { TransactionStatus } from "../types/txStatus";
+import { GatewayConsensusError } from "../utils/errors";
+import { GatewayConsensus, VerificationGateway } from "./gatewayConsensus";
+
+const txId = "Xx4DHBtmvzQ2BnSfyBJOTqIZ0Nm9ukhEqV5zYt5gRpY";
+const dataItemIds = ["firstDataItemId", "lastDataItemId"];
+
+function foundStatus(
+  block_height: number,
+  number_of_confirmations: number
+): TransactionStatus {
+  return {
+    status: "found",
+    transactionStatus: {
+      block_height,
+      block_indep_hash: "",
+      number_of_confirmations,
+    },
+  };
+}
+
+function stubGateway(
+  answers: Partial<{
+    transactionStatus: TransactionStatus | Error;
+    txAnchorBlockHeight: number;
+    currentBlockHeight: number;
+    indexedDataItemIds: string[];
+  }>
+): VerificationGateway {
+  const { transactionStatus } = answers;
+  return {
+    getTransactionStatus:
+      transactionStatus instanceof Error
+        ? stub().rejects(transactionStatus)
+        : stub().resolves(transactionStatus),
+    getBlockHeightForTxAnchor: stub().resolves(answers.txAnchorBlockHeight),
+    getCurrentBlockHeight: stub().resolves(answers.currentBlockHeight),
+    getDataItemIdsIndexedInBundle: stub().resolves(answers.indexedDataItemIds),
+  };
+}
+
+function consensusOf(gateways: VerificationGateway[], quorum: number) {
+  return new GatewayConsensus(
+    gateways.map((gateway, index) => ({ name: `gateway-${index}`, gateway })),
+    quorum
+  );
+}
+
+describe("GatewayConsensus", () => {
+  it("rejects a quorum larger than the number of gateways", () => {
+    expect(() => consensusOf([stubGateway({})], 2)).to.throw(
+      "Verification quorum must be between 1 and the 1 verification gateways!"
+    );
+  });
+
+  describe("getTransactionStatus method", () => {
+    it("returns the confirmations that a quorum of gateways report at least", async () => {
+      const consensus = consensusOf(
+        [
+          stubGateway({ transactionStatus: foundStatus(100, 20) }),
+          stubGateway({ transactionStatus: foundStatus(100, 18) }),
+          stubGateway({ transactionStatus: foundStatus(100, 2) }),
+        ],
+        2
+      );
+
+      expect(await consensus.getTransactionStatus(txId)).to.deep.equal(
+        foundStatus(100, 18)
+      );
+    });
+
+    it("ignores gateways that disagree on the block height or fail to answer", async () => {
+      const consensus = consensusOf(
+        [
+          stubGateway({ transactionStatus: foundStatus(100, 20) }),
+          stubGateway({ transactionStatus: foundStatus(99, 21) }),
+          stubGateway({ transactionStatus: new Error("timeout") }),
+          stubGateway({ transactionStatus: foundStatus(100, 19) }),
+        ],
+        2
+      );
+
+      expect(await consensus.getTransactionStatus(txId)).to.deep.equal(
+        foundStatus(100, 19)
+      );
+    });
+
+    it("returns not found only when a quorum of gateways can't find the transaction", async () => {
+      const consensus = consensusOf(
+        [
+          stubGateway({ transactionStatus: { status: "not found" } }),
+          stubGateway({ transactionStatus: { status: "not found" } }),
+          stubGateway({ transactionStatus: foundStatus(100, 2) }),
+        ],
+        2
+      );
+
+      expect(await consensus.getTransactionStatus(txId)).to.deep.equal({
+        status: "not found",
+      });
+    });
+
+    it("throws a GatewayConsensusError when no status reaches the quorum", async () => {
+      const consensus = consensusOf(
+        [
+          stubGateway({ transactionStatus: { status: "not found" } }),
+          stubGateway({ transactionStatus: foundStatus(100, 2) }),
+          stubGateway({ transactionStatus: new Error("timeout") }),
+        ],
+        2
+      );
+
+      let error: unknown;
+      try {
+        await consensus.getTransactionStatus(txId);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(GatewayConsensusError);
+    });
+  });
+
+  describe("block height methods", () => {
+    it("returns the tx anchor block height agreed on by a quorum", async () => {
+      const consensus = consensusOf(
+        [
+          stubGateway({ txAnchorBlockHeight: 100 }),
+          stubGateway({ txAnchorBlockHeight: 101 }),
+          stubGateway({ txAnchorBlockHeight: 100 }),
+        ],
+        2
+      );
+
+      expect(await consensus.getBlockHeightForTxAnchor("anchor")).to.equal(100);
+    });
+
+    it("returns the highest current block height reached by a quorum", async () => {
+      const consensus = consensusOf(
+        [
+          stubGateway({ currentBlockHeight: 110 }),
+          stubGateway({ currentBlockHeight: 108 }),
+          stubGateway({ currentBlockHeight: 109 }),
+        ],
+        2
+      );
+
+      expect(await consensus.getCurrentBlockHeight()).to.equal(109);
+    });
+  });
+
+  describe("getDataItemIdsIndexedInBundle method", () => {
+    it("returns the data items indexed by a quorum of gateways", async () => {
+      const consensus = consensusOf(
+        [
+          stubGateway({ indexedDataItemIds: dataItemIds }),
+          stubGateway({ indexedDataItemIds: ["firstDataItemId"] }),
+          stubGateway({ indexedDataItemIds: [] }),
+        ],
+        2
+      );
+
+      expect(
+        await consensus.getDataItemIdsIndexedInBundle(txId, dataItemIds)
+      ).to.deep.equal(["firstDataItemId"]);
+    });
+  });
+});
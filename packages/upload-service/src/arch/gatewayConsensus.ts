@@ -0,0 +1,253 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import winston from "winston";
+
+import { verificationGatewayUrls, verificationQuorum } from "../constants";
+import defaultLogger from "../logger";
+import { MetricRegistry } from "../metricRegistry";
+import { TransactionStatus } from "../types/txStatus";
+import { TransactionId } from "../types/types";
+import { GatewayConsensusError } from "../utils/errors";
+import { ArweaveGateway, Gateway } from "./arweaveGateway";
+
+/** The gateway reads the verify-bundle job relies on */
+export type VerificationGateway = Pick<
+  Gateway,
+  | "getTransactionStatus"
+  | "getBlockHeightForTxAnchor"
+  | "getCurrentBlockHeight"
+  | "getDataItemIdsIndexedInBundle"
+>;
+
+type VerificationCheck =
+  | "transaction_status"
+  | "tx_anchor_block_height"
+  | "current_block_height"
+  | "gql_indexing";
+
+interface NamedGateway {
+  name: string;
+  gateway: VerificationGateway;
+}
+
+/**
+ * Answers verification reads from a quorum of gateways rather than trusting a single one. Gateways
+ * that error don't vote, and answers that disagree with the quorum are counted per gateway
+ */
+export class GatewayConsensus implements VerificationGateway {
+  private readonly gateways: NamedGateway[];
+
+  constructor(
+    gateways: NamedGateway[] = verificationGatewayUrls.map((endpoint) => ({
+      name: endpoint.host,
+      gateway: new ArweaveGateway({ endpoint }),
+    })),
+    private readonly quorum: number = verificationQuorum,
+    private readonly logger: winston.Logger = defaultLogger.child({
+      class: "GatewayConsensus",
+    })
+  ) {
+    if (quorum < 1 || quorum > gateways.length) {
+      throw new Error(
+        `Verification quorum must be between 1 and the ${gateways.length} verification gateways!`
+      );
+    }
+    this.gateways = gateways;
+  }
+
+  public async getTransactionStatus(
+    transactionId: TransactionId
+  ): Promise<TransactionStatus> {
+    const answers = await this.askGateways("transaction_status", (gateway) =>
+      gateway.getTransactionStatus(transactionId)
+    );
+
+    const confirmedStatuses = answers.flatMap(({ result }) =>
+      result.status === "found" ? [result.transactionStatus] : []
+    );
+    if (confirmedStatuses.length >= this.quorum) {
+      const blockHeight = this.mostCommon(
+        confirmedStatuses.map(({ block_height }) => block_height)
+      );
+      this.countDisagreements(
+        "transaction_status",
+        answers,
+        ({ result }) =>
+          result.status !== "found" ||
+          result.transactionStatus.block_height !== blockHeight.value
+      );
+      if (blockHeight.count < this.quorum) {
+        throw new GatewayConsensusError(
+          `the block height of ${transactionId}`,
+          this.quorum
+        );
+      }
+
+      const agreeingStatuses = confirmedStatuses.filter(
+        ({ block_height }) => block_height === blockHeight.value
+      );
+      // At least a quorum of gateways report this many confirmations or more
+      const numberOfConfirmations = agreeingStatuses
+        .map(({ number_of_confirmations }) => number_of_confirmations)
+        .sort((a, b) => b - a)[this.quorum - 1];
+      return {
+        status: "found",
+        transactionStatus: {
+          ...agreeingStatuses[0],
+          number_of_confirmations: numberOfConfirmations,
+        },
+      };
+    }
+
+    // Bundles are dropped on this answer, so a quorum must also agree the transaction isn't found
+    const unconfirmedStatuses = answers.flatMap(({ result }) =>
+      result.status !== "found" ? [result.status] : []
+    );
+    this.countDisagreements(
+      "transaction_status",
+      answers,
+      ({ result }) => result.status === "found"
+    );
+    if (unconfirmedStatuses.length < this.quorum) {
+      throw new GatewayConsensusError(
+        `the status of ${transactionId}`,
+        this.quorum
+      );
+    }
+    return { status: this.mostCommon(unconfirmedStatuses).value };
+  }
+
+  public async getBlockHeightForTxAnchor(txAnchor: string): Promise<number> {
+    const answers = await this.askGateways(
+      "tx_anchor_block_height",
+      (gateway) => gateway.getBlockHeightForTxAnchor(txAnchor)
+    );
+    const blockHeight = this.mostCommon(answers.map(({ result }) => result));
+    this.countDisagreements(
+      "tx_anchor_block_height",
+      answers,
+      ({ result }) => result !== blockHeight.value
+    );
+    if (blockHeight.count < this.quorum) {
+      throw new GatewayConsensusError(
+        `the block height of tx anchor ${txAnchor}`,
+        this.quorum
+      );
+    }
+    return blockHeight.value;
+  }
+
+  /** Returns the highest block height that a quorum of gateways have reached */
+  public async getCurrentBlockHeight(): Promise<number> {
+    const answers = await this.askGateways("current_block_height", (gateway) =>
+      gateway.getCurrentBlockHeight()
+    );
+    if (answers.length < this.quorum) {
+      throw new GatewayConsensusError("the current block height", this.quorum);
+    }
+    return answers.map(({ result }) => result).sort((a, b) => b - a)[
+      this.quorum - 1
+    ];
+  }
+
+  /** Returns the data items that a quorum of gateways have indexed as bundled in the bundle */
+  public async getDataItemIdsIndexedInBundle(
+    bundleId: TransactionId,
+    dataItemIds: TransactionId[]
+  ): Promise<TransactionId[]> {
+    const answers = await this.askGateways("gql_indexing", (gateway) =>
+      gateway.getDataItemIdsIndexedInBundle(bundleId, dataItemIds)
+    );
+    if (answers.length < this.quorum) {
+      throw new GatewayConsensusError(
+        `the indexing of bundle ${bundleId}`,
+        this.quorum
+      );
+    }
+
+    const indexedIds = dataItemIds.filter(
+      (dataItemId) =>
+        answers.filter(({ result }) => result.includes(dataItemId)).length >=
+        this.quorum
+    );
+    this.countDisagreements(
+      "gql_indexing",
+      answers,
+      ({ result }) =>
+        result.length !== indexedIds.length ||
+        !indexedIds.every((dataItemId) => result.includes(dataItemId))
+    );
+    return indexedIds;
+  }
+
+  /** Queries every gateway in parallel, keeping the answers of those that respond */
+  private async askGateways<T>(
+    check: VerificationCheck,
+    read: (gateway: VerificationGateway) => Promise<T>
+  ): Promise<{ name: string; result: T }[]> {
+    const settled = await Promise.allSettled(
+      this.gateways.map(({ gateway }) => read(gateway))
+    );
+
+    const answers: { name: string; result: T }[] = [];
+    settled.forEach((outcome, index) => {
+      const { name } = this.gateways[index];
+      if (outcome.status === "fulfilled") {
+        answers.push({ name, result: outcome.value });
+      } else {
+        this.logger.warn("Verification gateway failed to answer.", {
+          gateway: name,
+          check,
+          error:
+            outcome.reason instanceof Error
+              ? outcome.reason.message
+              : outcome.reason,
+        });
+      }
+    });
+    return answers;
+  }
+
+  private mostCommon<T>(values: T[]): { value: T; count: number } {
+    const counts = new Map<T, number>();
+    for (const value of values) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    let mostCommon = { value: values[0], count: 0 };
+    for (const [value, count] of counts) {
+      if (count > mostCommon.count) {
+        mostCommon = { value, count };
+      }
+    }
+    return mostCommon;
+  }
+
+  private countDisagreements<T>(
+    check: VerificationCheck,
+    answers: { name: string; result: T }[],
+    disagrees: (answer: { name: string; result: T }) => boolean
+  ): void {
+    for (const answer of answers) {
+      if (disagrees(answer)) {
+        MetricRegistry.verificationGatewayDisagreement.inc({
+          gateway: answer.name,
+          check,
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import {
+  AzureBlobEmulator,
+  emulatorAccountKey,
+  emulatorAccountName,
+} from "../../tests/helpers/azureBlobEmulator";
+import { describeObjectStoreConformance } from "../../tests/helpers/objectStoreConformance";
+import { AzureBlobObjectStore } from "./azureBlobObjectStore";
+import { FileSystemObjectStore } from "./fileSystemObjectStore";
+
+describeObjectStoreConformance(
+  "FileSystemObjectStore",
+  () => new FileSystemObjectStore()
+);
+
+describe("AzureBlobObjectStore against the local blob emulator", () => {
+  const emulator = new AzureBlobEmulator();
+  let endpoint: string;
+
+  before(async () => {
+    endpoint = await emulator.start();
+  });
+
+  after(async () => {
+    await emulator.stop();
+  });
+
+  describeObjectStoreConformance(
+    "AzureBlobObjectStore",
+    () =>
+      new AzureBlobObjectStore({
+        accountName: emulatorAccountName,
+        accountKey: emulatorAccountKey,
+        containerName: "conformance",
+        endpoint,
+        // Small blocks exercise staging objects across several blocks
+        blockByteCount: 100,
+      })
+  );
+});
@@ -53,16 +53,20 @@ export interface ObjectStore {
     Options?: ObjectStoreOptions;
   }): Promise<void>;
   getObjectPayloadInfo(Key: string): Promise<PayloadInfo>;
+  /** Resolves without error when the object does not exist */
+  deleteObject(Key: string): Promise<void>;
 
   // multipart uploads
   createMultipartUpload(Key: string): Promise<string>;
   completeMultipartUpload(key: string, uploadId: UploadId): Promise<string>;
+  /** Stores that support it reject the part when it does not match the optional base64 SHA-256 checksum */
   uploadPart(
     Key: string,
     Body: Readable,
     uploadId: UploadId,
     partNumber: number,
-    ContentLength: number
+    ContentLength: number,
+    ChecksumSHA256?: string
   ): Promise<string>;
   // NOTE: this may be better moved to database interface. We may not want to make object stores responsible for keep tracking of their parts.
   getMultipartUploadParts(
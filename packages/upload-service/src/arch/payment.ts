@@ -36,7 +36,7 @@ import {
   W,
   Winston,
 } from "../types/types";
-import { PaymentServiceReturnedError } from "../utils/errors";
+import { ApiKeyRejected, PaymentServiceReturnedError } from "../utils/errors";
 import { createAxiosInstance } from "./axiosClient";
 
 // TODO: Payment service response API
@@ -97,6 +97,25 @@ interface ReserveBalanceParams extends CheckBalanceParams {
   dataItemId: TransactionId;
 }
 
+export type ApiKeyScope =
+  | "read_balance"
+  | "create_approvals"
+  | "upload"
+  | "admin";
+
+/** An API key as authenticated by the payment service, acting for the account it was issued to */
+export interface AuthenticatedApiKey {
+  apiKeyId: string;
+  address: NativeAddress;
+  addressType: string;
+  scopes: ApiKeyScope[];
+}
+
+interface AuthenticateApiKeyParams {
+  apiKey: string;
+  scope: ApiKeyScope;
+}
+
 export interface RefundBalanceResponse {
   walletExists: boolean;
 }
@@ -181,6 +200,9 @@ export interface PaymentService {
   revokeDelegatedPaymentApprovals(
     params: RevokeDelegatedPaymentApprovalsParams
   ): Promise<DelegatedPaymentApproval[]>;
+  authenticateApiKey(
+    params: AuthenticateApiKeyParams
+  ): Promise<AuthenticatedApiKey>;
 
   // x402 Payment Methods
   getX402PriceQuote(
@@ -548,6 +570,46 @@ export class TurboPaymentService implements PaymentService {
     return data;
   }
 
+  /**
+   * Authenticates an API key for a scope with the payment service, which stores the keys and
+   * enforces their rate limits. Throws ApiKeyRejected when the key is refused
+   */
+  public async authenticateApiKey({
+    apiKey,
+    scope,
+  }: AuthenticateApiKeyParams): Promise<AuthenticatedApiKey> {
+    if (!this.paymentServiceURL) {
+      throw new ApiKeyRejected(
+        503,
+        "API keys are unavailable without a payment service"
+      );
+    }
+
+    const url = new URL(`${this.paymentServiceURL}/v1/api-keys/current`);
+    url.searchParams.append("scope", scope);
+
+    const { status, data } = await this.axios.get<AuthenticatedApiKey | string>(
+      url.href,
+      {
+        headers: { "x-api-key": apiKey },
+        validateStatus: (status) => status < 500,
+      }
+    );
+
+    if (status !== 200 || typeof data === "string") {
+      this.logger.debug("Payment service rejected API key.", {
+        status,
+        scope,
+      });
+      throw new ApiKeyRejected(
+        status === 200 ? 502 : status,
+        typeof data === "string" ? data : "Invalid API key response"
+      );
+    }
+
+    return data;
+  }
+
   // x402 Payment Methods
 
   public async getX402PriceQuote({
@@ -54,7 +54,7 @@ export class PricingService {
 }
 
 /** Calculate the bundled size from the total dataItem byteCount and the number of dataItems */
-function bundledByteCountOfBundleToPack(
+export function bundledByteCountOfBundleToPack(
   totalDataItemByteCount: ByteCount,
   numberOfDataItems: number
 ): ByteCount {
@@ -14,10 +14,19 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
-import { jobLabels } from "../constants";
+import {
+  jobLabels,
+  webhookDeliveryBackoffMs,
+  webhookDeliveryMaxAttempts,
+} from "../constants";
 import { UnbundleBDIMessageBody } from "../jobs/unbundle-bdi";
 import { PlanId, PostedNewDataItem } from "../types/dbTypes";
-import { DataItemOffsetsInfo, UploadId } from "../types/types";
+import {
+  DataItemOffsetsInfo,
+  TransactionId,
+  UploadId,
+  WebhookPayload,
+} from "../types/types";
 import { DatedSignedDataItemHeader } from "../utils/opticalUtils";
 import { getQueue } from "./queues/config";
 
@@ -34,6 +43,14 @@ export type EnqueueFinalizeUpload = {
 export type EnqueuedOffsetsBatch = {
   offsets: DataItemOffsetsInfo[];
 };
+/** Checks the given bundles exhaustively, or samples every seeded bundle when none are given */
+export type EnqueuedVerifyChunksJob = {
+  bundleIds?: TransactionId[];
+};
+export type EnqueuedWebhookDelivery = {
+  webhookUrl: string;
+  payload: WebhookPayload;
+};
 type QueueTypeToMessageType = {
   [jobLabels.planBundle]: PlanMessage;
   [jobLabels.prepareBundle]: PlanMessage;
@@ -46,10 +63,23 @@ type QueueTypeToMessageType = {
   [jobLabels.newDataItem]: EnqueuedNewDataItem;
   [jobLabels.putOffsets]: EnqueuedOffsetsBatch;
   [jobLabels.cleanupFs]: Record<string, never>;
+  [jobLabels.tierStorage]: Record<string, never>;
+  [jobLabels.forecastWalletReserve]: Record<string, never>;
+  [jobLabels.verifyChunks]: EnqueuedVerifyChunksJob;
+  [jobLabels.webhookDelivery]: EnqueuedWebhookDelivery;
 };
 
 export type QueueType = keyof QueueTypeToMessageType;
 
+// Webhook receivers can be down for a while, so deliveries retry for longer than the default job options
+const webhookDeliveryJobOptions = {
+  attempts: webhookDeliveryMaxAttempts,
+  backoff: {
+    type: "exponential",
+    delay: webhookDeliveryBackoffMs,
+  },
+};
+
 export const enqueue = async <T extends QueueType>(
   queueType: T,
   message: QueueTypeToMessageType[T],
@@ -62,6 +92,9 @@ export const enqueue = async <T extends QueueType>(
   if (queueType === jobLabels.seedBundle) {
     jobOptions.timeout = 300000; // 5 minutes for seed jobs
   }
+  if (queueType === jobLabels.webhookDelivery) {
+    Object.assign(jobOptions, webhookDeliveryJobOptions);
+  }
 
   // Apply custom options if provided
   if (options?.delay) {
@@ -85,6 +118,10 @@ export const enqueueBatch = async <T extends QueueType>(
     messages.map((message) => ({
       name: queueType,
       data: message,
+      opts:
+        queueType === jobLabels.webhookDelivery
+          ? webhookDeliveryJobOptions
+          : undefined,
     }))
   );
 };
@@ -31,6 +31,10 @@ export const QUEUE_NAMES = {
   [jobLabels.unbundleBdi]: "upload-unbundle-bdi",
   [jobLabels.finalizeUpload]: "upload-finalize-upload",
   [jobLabels.cleanupFs]: "upload-cleanup-fs",
+  [jobLabels.tierStorage]: "upload-tier-storage",
+  [jobLabels.forecastWalletReserve]: "upload-forecast-wallet-reserve",
+  [jobLabels.verifyChunks]: "upload-verify-chunks",
+  [jobLabels.webhookDelivery]: "upload-webhook-delivery",
 } as const;
 
 const defaultQueueOptions: QueueOptions = {
@@ -347,7 +347,8 @@ export class S3ObjectStore implements ObjectStore {
     Body: Readable,
     uploadId: UploadId,
     partNumber: number,
-    ContentLength: number
+    ContentLength: number,
+    ChecksumSHA256?: string
   ): Promise<string> {
     this.logger.debug("Uploading part", {
       Key,
@@ -364,6 +365,7 @@ export class S3ObjectStore implements ObjectStore {
         Body,
         PartNumber: partNumber,
         ContentLength,
+        ChecksumSHA256,
       });
       return await s3ClientForBucket(bucketName).send(uploadPartCommand);
     };
@@ -662,6 +664,19 @@ export class S3ObjectStore implements ObjectStore {
     }
   }
 
+  public async deleteObject(Key: string): Promise<void> {
+    this.logger.debug(`Deleting S3 object...`, {
+      Key,
+      Bucket: this.bucketName,
+    });
+    await s3ClientForBucket(this.bucketName).send(
+      new DeleteObjectCommand({
+        Bucket: this.bucketName,
+        Key,
+      })
+    );
+  }
+
   public async getMultipartUploadParts(
     Key: string,
     uploadId: UploadId
@@ -0,0 +1,117 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { expect } from "chai";
+import { SinonStub, stub } from "sinon";
+import { Readable } from "stream";
+
+import { Database } from "./db/database";
+import { ObjectStore } from "./objectStore";
+import { TieredObjectStore } from "./tieredObjectStore";
+
+const dataItemId = "Xx4DHBtmvzQ2BnSfyBJOTqIZ0Nm9ukhEqV5zYt5gRpY";
+const dataItemKey = `raw-data-item/${dataItemId}`;
+
+function stubObjectStore(name: string): ObjectStore {
+  return {
+    getObject: stub().resolves({
+      readable: Readable.from(Buffer.from(name)),
+      etag: name,
+    }),
+    getObjectPayloadInfo: stub().resolves({
+      payloadDataStart: 0,
+      payloadContentType: name,
+    }),
+    putObject: stub().resolves(),
+    deleteObject: stub().resolves(),
+  } as unknown as ObjectStore;
+}
+
+describe("TieredObjectStore", () => {
+  let objectStore: ObjectStore;
+  let archiveObjectStore: ObjectStore;
+  let getDataItemStorageTier: SinonStub;
+  let tieredObjectStore: TieredObjectStore;
+
+  beforeEach(() => {
+    objectStore = stubObjectStore("hot");
+    archiveObjectStore = stubObjectStore("archive");
+    getDataItemStorageTier = stub().resolves(undefined);
+    tieredObjectStore = new TieredObjectStore({
+      objectStore,
+      archiveObjectStore,
+      database: { getDataItemStorageTier } as unknown as Database,
+      dataItemKeyPrefix: "raw-data-item",
+    });
+  });
+
+  it("reads data items without a recorded tier from the object store", async () => {
+    const { etag } = await tieredObjectStore.getObject(dataItemKey);
+
+    expect(etag).to.equal("hot");
+    expect(getDataItemStorageTier.calledOnceWith(dataItemId)).to.be.true;
+  });
+
+  it("reads archived data items from the archive", async () => {
+    getDataItemStorageTier.resolves("archive");
+
+    const { etag } = await tieredObjectStore.getObject(dataItemKey, "bytes=0-");
+    const payloadInfo = await tieredObjectStore.getObjectPayloadInfo(
+      dataItemKey
+    );
+
+    expect(etag).to.equal("archive");
+    expect(
+      (archiveObjectStore.getObject as SinonStub).calledOnceWith(
+        dataItemKey,
+        "bytes=0-"
+      )
+    ).to.be.true;
+    expect(payloadInfo.payloadContentType).to.equal("archive");
+  });
+
+  it("reads data items promoted back to the object store from the object store", async () => {
+    getDataItemStorageTier.resolves("object_store");
+
+    const { etag } = await tieredObjectStore.getObject(dataItemKey);
+
+    expect(etag).to.equal("hot");
+  });
+
+  it("does not look up a tier for objects other than raw data items", async () => {
+    await tieredObjectStore.getObject("bundle-payload/some-plan-id");
+
+    expect(getDataItemStorageTier.called).to.be.false;
+    expect((objectStore.getObject as SinonStub).calledOnce).to.be.true;
+  });
+
+  it("falls back to the object store when the tier lookup fails", async () => {
+    getDataItemStorageTier.rejects(new Error("database unavailable"));
+
+    const { etag } = await tieredObjectStore.getObject(dataItemKey);
+
+    expect(etag).to.equal("hot");
+  });
+
+  it("writes new objects to the object store", async () => {
+    getDataItemStorageTier.resolves("archive");
+
+    await tieredObjectStore.putObject(dataItemKey, Readable.from("data"));
+
+    expect((objectStore.putObject as SinonStub).calledOnce).to.be.true;
+    expect((archiveObjectStore.putObject as SinonStub).called).to.be.false;
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { Readable } from "stream";
+import winston from "winston";
+
+import { BundleHeaderInfo } from "../bundles/assembleBundleHeader";
+import globalLogger from "../logger";
+import { PayloadInfo, StorageTier, UploadId } from "../types/types";
+import { Database } from "./db/database";
+import {
+  MoveObjectParams,
+  ObjectStore,
+  ObjectStoreOptions,
+} from "./objectStore";
+
+/**
+ * Object store that reads raw data items from whichever tier the tier-storage job recorded for them.
+ * Everything else, including all writes, goes to the object store tier
+ */
+export class TieredObjectStore implements ObjectStore {
+  private readonly objectStore: ObjectStore;
+  private readonly archiveObjectStore: ObjectStore;
+  private readonly database: Database;
+  private readonly dataItemKeyPrefix: string;
+  private readonly logger: winston.Logger;
+
+  constructor({
+    objectStore,
+    archiveObjectStore,
+    database,
+    dataItemKeyPrefix,
+    logger = globalLogger,
+  }: {
+    objectStore: ObjectStore;
+    archiveObjectStore: ObjectStore;
+    database: Database;
+    dataItemKeyPrefix: string;
+    logger?: winston.Logger;
+  }) {
+    this.objectStore = objectStore;
+    this.archiveObjectStore = archiveObjectStore;
+    this.database = database;
+    this.dataItemKeyPrefix = dataItemKeyPrefix;
+    this.logger = logger.child({ objectStore: "TieredObjectStore" });
+  }
+
+  private dataItemIdForKey(Key: string): string | undefined {
+    return Key.startsWith(`${this.dataItemKeyPrefix}/`)
+      ? Key.slice(this.dataItemKeyPrefix.length + 1)
+      : undefined;
+  }
+
+  private async storageTierForKey(
+    Key: string
+  ): Promise<StorageTier | undefined> {
+    const dataItemId = this.dataItemIdForKey(Key);
+    if (dataItemId === undefined) {
+      return undefined;
+    }
+    try {
+      return await this.database.getDataItemStorageTier(dataItemId);
+    } catch (error) {
+      // Most data items are still in the object store tier, so it's the best guess while the database is unavailable
+      this.logger.error("Failed to get storage tier of data item!", {
+        dataItemId,
+        error,
+      });
+      return undefined;
+    }
+  }
+
+  private async objectStoreForKey(Key: string): Promise<ObjectStore> {
+    return (await this.storageTierForKey(Key)) === "archive"
+      ? this.archiveObjectStore
+      : this.objectStore;
+  }
+
+  public putObject(
+    Key: string,
+    Body: Readable,
+    Options?: ObjectStoreOptions
+  ): Promise<void> {
+    return this.objectStore.putObject(Key, Body, Options);
+  }
+
+  public async getObject(
+    Key: string,
+    Range?: string
+  ): Promise<{ readable: Readable; etag: string | undefined }> {
+    return (await this.objectStoreForKey(Key)).getObject(Key, Range);
+  }
+
+  public async headObject(Key: string): Promise<{
+    etag: string | undefined;
+    ContentLength: number;
+    ContentType: string | undefined;
+  }> {
+    return (await this.objectStoreForKey(Key)).headObject(Key);
+  }
+
+  public async getObjectByteCount(Key: string): Promise<number> {
+    return (await this.objectStoreForKey(Key)).getObjectByteCount(Key);
+  }
+
+  public async getObjectPayloadInfo(Key: string): Promise<PayloadInfo> {
+    return (await this.objectStoreForKey(Key)).getObjectPayloadInfo(Key);
+  }
+
+  public async deleteObject(Key: string): Promise<void> {
+    return (await this.objectStoreForKey(Key)).deleteObject(Key);
+  }
+
+  public moveObject(params: MoveObjectParams): Promise<void> {
+    return this.objectStore.moveObject(params);
+  }
+
+  // multipart uploads
+  public createMultipartUpload(Key: string): Promise<string> {
+    return this.objectStore.createMultipartUpload(Key);
+  }
+
+  public completeMultipartUpload(
+    Key: string,
+    uploadId: UploadId
+  ): Promise<string> {
+    return this.objectStore.completeMultipartUpload(Key, uploadId);
+  }
+
+  public uploadPart(
+    Key: string,
+    Body: Readable,
+    uploadId: UploadId,
+    partNumber: number,
+    ContentLength: number,
+    ChecksumSHA256?: string
+  ): Promise<string> {
+    return this.objectStore.uploadPart(
+      Key,
+      Body,
+      uploadId,
+      partNumber,
+      ContentLength,
+      ChecksumSHA256
+    );
+  }
+
+  public getMultipartUploadParts(
+    Key: string,
+    uploadId: UploadId
+  ): Promise<{ size: number; partNumber: number }[]> {
+    return this.objectStore.getMultipartUploadParts(Key, uploadId);
+  }
+
+  public getBundleHeaderInfo(
+    Key: string,
+    range: string
+  ): Promise<BundleHeaderInfo> {
+    return this.objectStore.getBundleHeaderInfo(Key, range);
+  }
+}
@@ -30,7 +30,10 @@ import { arweaveUploadNode, gatewayUrl } from "./constants";
 import logger from "./logger";
 import { JWKInterface } from "./types/jwkTypes";
 import { TxAttributes } from "./types/types";
+import { toB64Url } from "./utils/base64";
+import { ChunkByteRange } from "./utils/bundleChunks";
 import { filterKeysFromObject } from "./utils/common";
+import { streamToBuffer } from "./utils/streamToBuffer";
 
 export class ArweaveInterface {
   private log: winston.Logger;
@@ -121,6 +124,55 @@ export class ArweaveInterface {
     });
   }
 
+  /** Re-uploads only the chunks at the given indexes of a bundle transaction to the upload node */
+  public async reseedChunks({
+    bundleTx,
+    chunkIndexes,
+    getPayloadStream,
+  }: {
+    bundleTx: Transaction;
+    chunkIndexes: number[];
+    getPayloadStream: (byteRange?: ChunkByteRange) => Promise<Readable>;
+  }): Promise<void> {
+    const bundleId = bundleTx.id;
+
+    // The chunk proofs are derived from the whole payload
+    const { data_root, chunks, proofs } = await pipeline(
+      await getPayloadStream(),
+      generateTransactionChunksAsync()
+    );
+    if (toB64Url(Buffer.from(data_root)) !== bundleTx.data_root) {
+      throw new Error(
+        `Bundle payload does not match the data root of bundle ${bundleId}!`
+      );
+    }
+
+    for (const chunkIndex of chunkIndexes) {
+      const { minByteRange, maxByteRange } = chunks[chunkIndex];
+      const chunkData = await streamToBuffer(
+        await getPayloadStream({ minByteRange, maxByteRange }),
+        maxByteRange - minByteRange
+      );
+      const response = await this.arweaveJsUpload.api.post("chunk", {
+        data_root: bundleTx.data_root,
+        data_size: bundleTx.data_size,
+        data_path: toB64Url(Buffer.from(proofs[chunkIndex].proof)),
+        offset: proofs[chunkIndex].offset.toString(),
+        chunk: toB64Url(chunkData),
+      });
+      if (response.status >= 300) {
+        throw new Error(
+          `Upload node rejected chunk ${chunkIndex} of bundle ${bundleId} with status ${response.status}!`
+        );
+      }
+    }
+
+    this.log.debug("Reseeded chunks!", {
+      bundleId,
+      chunkCount: chunkIndexes.length,
+    });
+  }
+
   public async createTransactionFromPayloadStream(
     payloadStream: Readable,
     txAttributes: TxAttributes,
@@ -360,4 +360,88 @@ describe("BundlePacker class", () => {
       });
     });
   });
+
+  describe("planMeetsMinFillRatio method", () => {
+    const halfFullPacker = new BundlePacker({
+      maxTotalDataItemsByteCount,
+      maxSingleDataItemByteCount,
+      maxDataItemsCount,
+      minFillRatio: 0.5,
+    });
+
+    [
+      [0, 0, false],
+      [1, maxTotalDataItemsByteCount / 2 - 1, false],
+      [1, maxTotalDataItemsByteCount / 2, true],
+      [2, 0, true], // 2 of 3 max data items
+      [maxDataItemsCount, maxTotalDataItemsByteCount, true],
+    ].forEach(([dataItemsCount, totalByteCount, expected]) => {
+      it(`returns ${expected} when provided a plan with dataItemsCount ${dataItemsCount} and totalByteCount ${totalByteCount}`, () => {
+        const bundlePlan: PackerBundlePlan = {
+          dataItemIds: new Array(dataItemsCount as number).fill(""),
+          totalByteCount: totalByteCount as number,
+          dataItemSizes: {},
+          containsOverdueDataItems: false,
+        };
+        expect(halfFullPacker.planMeetsMinFillRatio(bundlePlan)).to.equal(
+          expected
+        );
+      });
+    });
+
+    it("requires a full plan by default", () => {
+      const bundlePlan: PackerBundlePlan = {
+        dataItemIds: [stubTxId1],
+        totalByteCount: maxTotalDataItemsByteCount - 1,
+        dataItemSizes: {},
+        containsOverdueDataItems: false,
+      };
+      expect(bundlePacker.planMeetsMinFillRatio(bundlePlan)).to.be.false;
+    });
+  });
+
+  describe("withPlanningSla method", () => {
+    it("returns a packer that honors the planning SLA", () => {
+      const slaPacker = bundlePacker.withPlanningSla({
+        maxWaitMs: 30_000,
+        minFillRatio: 0.25,
+        maxBundleByteCount: 50,
+      });
+
+      expect(slaPacker.overdueDataItemThresholdMs).to.equal(30_000);
+      expect(slaPacker.minFillRatio).to.equal(0.25);
+      expect(slaPacker.maxTotalDataItemsByteCount).to.equal(50);
+      expect(slaPacker.maxDataItemsCount).to.equal(maxDataItemsCount);
+    });
+
+    it("never exceeds the max bundle byte count of the original packer", () => {
+      const slaPacker = bundlePacker.withPlanningSla({
+        maxWaitMs: 30_000,
+        minFillRatio: 1,
+        maxBundleByteCount: maxTotalDataItemsByteCount * 2,
+      });
+
+      expect(slaPacker.maxTotalDataItemsByteCount).to.equal(
+        maxTotalDataItemsByteCount
+      );
+    });
+
+    it("marks data items past the SLA max wait as overdue", () => {
+      const slaPacker = bundlePacker.withPlanningSla({
+        maxWaitMs: 30_000,
+        minFillRatio: 1,
+        maxBundleByteCount: maxTotalDataItemsByteCount,
+      });
+
+      const bundlePlans = slaPacker.packDataItemsIntoBundlePlans([
+        {
+          byteCount: 10,
+          dataItemId: stubTxId1,
+          uploadedDate: new Date(new Date().getTime() - 30_000).toISOString(),
+        },
+      ]);
+
+      expect(bundlePlans[0].containsOverdueDataItems).to.be.true;
+    });
+  });
 });
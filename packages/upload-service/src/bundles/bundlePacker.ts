@@ -22,7 +22,7 @@ import {
 } from "../constants";
 import logger from "../logger";
 import { Timestamp } from "../types/dbTypes";
-import { ByteCount, TransactionId } from "../types/types";
+import { BundlePlanningSla, ByteCount, TransactionId } from "../types/types";
 import { dataItemIsOverdue } from "../utils/planningUtils";
 
 export interface PackerBundlePlan {
@@ -33,7 +33,7 @@ export interface PackerBundlePlan {
 }
 [];
 
-interface PackerDataItem {
+export interface PackerDataItem {
   dataItemId: TransactionId;
   byteCount: ByteCount;
   uploadedDate: Timestamp;
@@ -44,6 +44,7 @@ interface BundlePackerParams {
   maxSingleDataItemByteCount?: ByteCount;
   maxDataItemsCount?: number;
   overdueDataItemThresholdMs?: number;
+  minFillRatio?: number;
 }
 
 export class BundlePacker {
@@ -51,17 +52,38 @@ export class BundlePacker {
   readonly maxSingleDataItemByteCount: ByteCount;
   readonly maxDataItemsCount: number;
   readonly overdueDataItemThresholdMs: number;
+  readonly minFillRatio: number;
 
   constructor({
     maxTotalDataItemsByteCount = maxBundleSizeConstant,
     maxSingleDataItemByteCount = maxDataItemSizeConstant,
     maxDataItemsCount = maxDataItemLimitConstant,
     overdueDataItemThresholdMs = defaultOverdueThresholdMs,
+    minFillRatio = 1,
   }: BundlePackerParams) {
     this.maxTotalDataItemsByteCount = maxTotalDataItemsByteCount;
     this.maxSingleDataItemByteCount = maxSingleDataItemByteCount;
     this.maxDataItemsCount = maxDataItemsCount;
     this.overdueDataItemThresholdMs = overdueDataItemThresholdMs;
+    this.minFillRatio = minFillRatio;
+  }
+
+  /** Returns a packer for a single premium feature type lane that honors the given planning SLA */
+  public withPlanningSla({
+    maxWaitMs,
+    minFillRatio,
+    maxBundleByteCount,
+  }: BundlePlanningSla): BundlePacker {
+    return new BundlePacker({
+      maxTotalDataItemsByteCount: Math.min(
+        maxBundleByteCount,
+        this.maxTotalDataItemsByteCount
+      ),
+      maxSingleDataItemByteCount: this.maxSingleDataItemByteCount,
+      maxDataItemsCount: this.maxDataItemsCount,
+      overdueDataItemThresholdMs: maxWaitMs,
+      minFillRatio,
+    });
   }
 
   public planHasCapacity(plan: PackerBundlePlan): boolean {
@@ -71,8 +93,25 @@ export class BundlePacker {
     );
   }
 
+  /** Fraction of either the max total byte count or the max data item count that the plan has filled */
+  public planFillRatio({
+    dataItemIds,
+    totalByteCount,
+  }: PackerBundlePlan): number {
+    return Math.max(
+      totalByteCount / this.maxTotalDataItemsByteCount,
+      dataItemIds.length / this.maxDataItemsCount
+    );
+  }
+
+  public planMeetsMinFillRatio(plan: PackerBundlePlan): boolean {
+    return this.planFillRatio(plan) >= this.minFillRatio;
+  }
+
+  /** Packs data items into bundle plans, judging overdue data items as of `nowMs` (defaults to the current time) */
   public packDataItemsIntoBundlePlans(
-    dataItems: PackerDataItem[]
+    dataItems: PackerDataItem[],
+    nowMs: number = new Date().getTime()
   ): PackerBundlePlan[] {
     let bundlePlans: PackerBundlePlan[] = [];
 
@@ -98,14 +137,15 @@ export class BundlePacker {
           totalByteCount: byteCount,
           containsOverdueDataItems: dataItemIsOverdue(
             dataItem,
-            this.overdueDataItemThresholdMs
+            this.overdueDataItemThresholdMs,
+            nowMs
           ),
           dataItemSizes: { [dataItemId]: byteCount },
         });
         continue;
       }
 
-      bundlePlans = this.packDataItem(dataItem, bundlePlans);
+      bundlePlans = this.packDataItem(dataItem, bundlePlans, nowMs);
     }
 
     // sort all data items from smallest to largest in each bundle
@@ -120,7 +160,8 @@ export class BundlePacker {
 
   private packDataItem(
     dataItem: PackerDataItem,
-    bundlePlans: PackerBundlePlan[]
+    bundlePlans: PackerBundlePlan[],
+    nowMs: number
   ): PackerBundlePlan[] {
     const { byteCount, dataItemId } = dataItem;
     for (let index = 0; index < bundlePlans.length; index++) {
@@ -134,7 +175,7 @@ export class BundlePacker {
 
         bundlePlan.containsOverdueDataItems =
           bundlePlan.containsOverdueDataItems ||
-          dataItemIsOverdue(dataItem, this.overdueDataItemThresholdMs);
+          dataItemIsOverdue(dataItem, this.overdueDataItemThresholdMs, nowMs);
 
         return bundlePlans;
       }
@@ -147,7 +188,8 @@ export class BundlePacker {
       dataItemSizes: { [dataItemId]: byteCount },
       containsOverdueDataItems: dataItemIsOverdue(
         dataItem,
-        this.overdueDataItemThresholdMs
+        this.overdueDataItemThresholdMs,
+        nowMs
       ),
     });
     return bundlePlans;
@@ -0,0 +1,246 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { expect } from "chai";
+
+import { stubTxId1, stubTxId2, stubTxId3 } from "../../tests/stubs";
+import { defaultOverdueThresholdMs } from "../constants";
+import { W } from "../types/types";
+import { BundlePacker } from "./bundlePacker";
+import {
+  generateSyntheticDataItems,
+  priceSimulatedBundles,
+  simulateBundlePlanning,
+  summarizeBundlePlanSimulation,
+} from "./bundlePlanSimulator";
+
+describe("simulateBundlePlanning function", () => {
+  const bundlePacker = new BundlePacker({
+    maxTotalDataItemsByteCount: 100,
+    maxSingleDataItemByteCount: 100,
+    maxDataItemsCount: 10,
+  });
+  const startDate = new Date("2024-01-01T00:00:00.000Z");
+  const msAfterStart = (ms: number) =>
+    new Date(startDate.getTime() + ms).toISOString();
+
+  it("returns no bundles when provided no data items", () => {
+    expect(
+      simulateBundlePlanning({ dataItems: [], bundlePacker, bundleTypes: {} })
+    ).to.deep.equal({
+      bundles: [],
+      dataItemLatenciesMs: {},
+      unplannedDataItemIds: [],
+    });
+  });
+
+  it("plans full bundles right away and waits out the max wait for underweight bundles", () => {
+    const planningIntervalMs = 60_000;
+    const { bundles, dataItemLatenciesMs, unplannedDataItemIds } =
+      simulateBundlePlanning({
+        dataItems: [
+          {
+            dataItemId: stubTxId1,
+            byteCount: 50,
+            uploadedDate: msAfterStart(0),
+            premiumFeatureType: "default",
+          },
+          {
+            dataItemId: stubTxId2,
+            byteCount: 50,
+            uploadedDate: msAfterStart(0),
+            premiumFeatureType: "default",
+          },
+          {
+            dataItemId: stubTxId3,
+            byteCount: 10,
+            uploadedDate: msAfterStart(0),
+            premiumFeatureType: "default",
+          },
+        ],
+        bundlePacker,
+        bundleTypes: {},
+        planningIntervalMs,
+      });
+
+    const overdueLatencyMs =
+      Math.ceil(defaultOverdueThresholdMs / planningIntervalMs) *
+      planningIntervalMs;
+
+    expect(bundles.length).to.equal(2);
+    expect(bundles[0].slaTrigger).to.equal("min_fill_ratio");
+    expect(bundles[0].fillRatio).to.equal(1);
+    expect(bundles[1].slaTrigger).to.equal("max_wait");
+    expect(bundles[1].dataItemIds).to.deep.equal([stubTxId3]);
+    expect(dataItemLatenciesMs).to.deep.equal({
+      [stubTxId1]: 0,
+      [stubTxId2]: 0,
+      [stubTxId3]: overdueLatencyMs,
+    });
+    expect(unplannedDataItemIds).to.deep.equal([]);
+  });
+
+  it("honors the max wait of each premium feature type's planning SLA", () => {
+    const { bundles, dataItemLatenciesMs } = simulateBundlePlanning({
+      dataItems: [
+        {
+          dataItemId: stubTxId1,
+          byteCount: 10,
+          uploadedDate: msAfterStart(0),
+          premiumFeatureType: "fast_lane",
+        },
+        {
+          dataItemId: stubTxId2,
+          byteCount: 10,
+          uploadedDate: msAfterStart(0),
+          premiumFeatureType: "default",
+        },
+      ],
+      bundlePacker,
+      bundleTypes: {
+        fast_lane: { allowedWallets: [], planningSla: { maxWaitMs: 30_000 } },
+      },
+      planningIntervalMs: 10_000,
+    });
+
+    expect(bundles.map((b) => b.premiumFeatureType)).to.deep.equal([
+      "fast_lane",
+      "default",
+    ]);
+    expect(dataItemLatenciesMs[stubTxId1]).to.equal(30_000);
+    expect(dataItemLatenciesMs[stubTxId2]).to.equal(
+      Math.ceil(defaultOverdueThresholdMs / 10_000) * 10_000
+    );
+  });
+
+  it("reports data items the packer can never plan as unplanned", () => {
+    const { bundles, unplannedDataItemIds } = simulateBundlePlanning({
+      dataItems: [
+        {
+          dataItemId: stubTxId1,
+          byteCount: 101,
+          uploadedDate: msAfterStart(0),
+          premiumFeatureType: "default",
+        },
+      ],
+      bundlePacker,
+      bundleTypes: {},
+    });
+
+    expect(bundles).to.deep.equal([]);
+    expect(unplannedDataItemIds).to.deep.equal([stubTxId1]);
+  });
+});
+
+describe("priceSimulatedBundles function", () => {
+  it("prices each bundle by its bundled byte count and returns the total reward", async () => {
+    const pricedByteCounts: number[] = [];
+    const gateway = {
+      getWinstonPriceForByteCount: async (byteCount: number) => {
+        pricedByteCounts.push(byteCount);
+        return W(byteCount);
+      },
+    };
+    const bundles = [
+      {
+        dataItemIds: [stubTxId1, stubTxId2],
+        totalByteCount: 100,
+        premiumFeatureType: "default",
+        slaTrigger: "min_fill_ratio" as const,
+        fillRatio: 1,
+        plannedAtMs: 0,
+      },
+    ];
+
+    const totalReward = await priceSimulatedBundles(bundles, gateway);
+
+    // 32 byte data item count + 100 data item bytes + 64 byte header per data item
+    expect(pricedByteCounts).to.deep.equal([260]);
+    expect(totalReward.toString()).to.equal("260");
+    expect(bundles[0]).to.have.property("reward");
+  });
+});
+
+describe("summarizeBundlePlanSimulation function", () => {
+  it("summarizes bundles and data item latencies", () => {
+    const summary = summarizeBundlePlanSimulation({
+      bundles: [
+        {
+          dataItemIds: [stubTxId1],
+          totalByteCount: 100,
+          premiumFeatureType: "default",
+          slaTrigger: "min_fill_ratio",
+          fillRatio: 1,
+          plannedAtMs: 0,
+        },
+        {
+          dataItemIds: [stubTxId2],
+          totalByteCount: 50,
+          premiumFeatureType: "ao_dedicated_bundles",
+          slaTrigger: "max_wait",
+          fillRatio: 0.5,
+          plannedAtMs: 0,
+        },
+      ],
+      dataItemLatenciesMs: { [stubTxId1]: 0, [stubTxId2]: 30_000 },
+      unplannedDataItemIds: [stubTxId3],
+    });
+
+    expect(summary).to.deep.equal({
+      bundleCount: 2,
+      bundleCountBySlaTrigger: { max_wait: 1, min_fill_ratio: 1 },
+      bundleCountByPremiumFeatureType: { default: 1, ao_dedicated_bundles: 1 },
+      plannedDataItemCount: 2,
+      unplannedDataItemCount: 1,
+      averageFillRatio: 0.75,
+      minFillRatio: 0.5,
+      latencyMs: { average: 15_000, p50: 0, p95: 30_000, max: 30_000 },
+    });
+  });
+});
+
+describe("generateSyntheticDataItems function", () => {
+  it("generates data items within the upload window using the premium feature type weights", () => {
+    const startDate = new Date("2024-01-01T00:00:00.000Z");
+    const durationMs = 60_000;
+    let seed = 0;
+    // Deterministic stand-in for Math.random
+    const random = () => (seed = (seed + 0.37) % 1);
+
+    const dataItems = generateSyntheticDataItems({
+      count: 100,
+      durationMs,
+      meanByteCount: 1024,
+      premiumFeatureTypeWeights: { default: 1, ao_dedicated_bundles: 1 },
+      startDate,
+      random,
+    });
+
+    expect(dataItems.length).to.equal(100);
+    expect(new Set(dataItems.map((d) => d.dataItemId)).size).to.equal(100);
+    for (const { uploadedDate, byteCount, premiumFeatureType } of dataItems) {
+      const uploadedMs = new Date(uploadedDate).getTime();
+      expect(uploadedMs).to.be.within(
+        startDate.getTime(),
+        startDate.getTime() + durationMs
+      );
+      expect(byteCount).to.be.at.least(1);
+      expect(["default", "ao_dedicated_bundles"]).to.include(
+        premiumFeatureType
+      );
+    }
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { Gateway } from "../arch/arweaveGateway";
+import { bundledByteCountOfBundleToPack } from "../arch/pricing";
+import {
+  dedicatedBundleTypes as compileTimeDedicatedBundleTypes,
+  defaultPremiumFeatureType,
+  maxDataItemsPerBundle,
+} from "../constants";
+import { Timestamp } from "../types/dbTypes";
+import {
+  BundlePlanSlaTrigger,
+  ByteCount,
+  DedicatedBundleTypes,
+  TransactionId,
+  W,
+  Winston,
+} from "../types/types";
+import {
+  getBundlePlanningSlas,
+  planDataItemsBySla,
+} from "../utils/planningUtils";
+import { BundlePacker } from "./bundlePacker";
+
+export interface SimulatedDataItem {
+  dataItemId: TransactionId;
+  byteCount: ByteCount;
+  uploadedDate: Timestamp;
+  premiumFeatureType: string;
+}
+
+export interface SimulatedBundle {
+  dataItemIds: TransactionId[];
+  totalByteCount: ByteCount;
+  premiumFeatureType: string;
+  slaTrigger: BundlePlanSlaTrigger;
+  fillRatio: number;
+  plannedAtMs: number;
+  reward?: Winston;
+}
+
+export interface BundlePlanSimulation {
+  bundles: SimulatedBundle[];
+  /** Milliseconds each data item waited between upload and being planned into a bundle */
+  dataItemLatenciesMs: Record<TransactionId, number>;
+  /** Data items still waiting on a bundle plan when the simulation ended */
+  unplannedDataItemIds: TransactionId[];
+}
+
+interface SimulateBundlePlanningParams {
+  dataItems: SimulatedDataItem[];
+  bundlePacker?: BundlePacker;
+  bundleTypes?: DedicatedBundleTypes;
+  /** How often the plan job is triggered, the cron schedule in production runs it every minute */
+  planningIntervalMs?: number;
+  /** Data items fetched per planning pass, mirrors the limit of `getNewDataItems` */
+  fetchLimit?: number;
+}
+
+/**
+ * Replays data items through the same SLA planning used by the plan job, triggering a
+ * planning run every `planningIntervalMs` of simulated time starting at the first upload.
+ * The simulation runs until every data item has waited out its lane's max wait
+ */
+export function simulateBundlePlanning({
+  dataItems,
+  bundlePacker = new BundlePacker({}),
+  bundleTypes = compileTimeDedicatedBundleTypes,
+  planningIntervalMs = 60_000,
+  fetchLimit = maxDataItemsPerBundle * 5,
+}: SimulateBundlePlanningParams): BundlePlanSimulation {
+  const planningSlas = getBundlePlanningSlas(bundleTypes);
+  const maxWaitMsOf = ({ premiumFeatureType }: SimulatedDataItem) =>
+    (
+      planningSlas[premiumFeatureType] ??
+      planningSlas[defaultPremiumFeatureType]
+    ).maxWaitMs;
+  const uploadedAtMs = (dataItem: SimulatedDataItem) =>
+    new Date(dataItem.uploadedDate).getTime();
+
+  const sortedDataItems = [...dataItems].sort(
+    (a, b) => uploadedAtMs(a) - uploadedAtMs(b)
+  );
+  const bundles: SimulatedBundle[] = [];
+  const dataItemLatenciesMs: Record<TransactionId, number> = {};
+  if (sortedDataItems.length === 0) {
+    return { bundles, dataItemLatenciesMs, unplannedDataItemIds: [] };
+  }
+
+  const firstUploadMs = uploadedAtMs(sortedDataItems[0]);
+  const lastDeadlineMs = sortedDataItems.reduce(
+    (acc, d) => Math.max(acc, uploadedAtMs(d) + maxWaitMsOf(d)),
+    firstUploadMs
+  );
+
+  const pendingDataItems = new Map<TransactionId, SimulatedDataItem>();
+  let nextUploadIndex = 0;
+  for (
+    let nowMs = firstUploadMs;
+    nowMs <= lastDeadlineMs + planningIntervalMs;
+    nowMs += planningIntervalMs
+  ) {
+    while (
+      nextUploadIndex < sortedDataItems.length &&
+      uploadedAtMs(sortedDataItems[nextUploadIndex]) <= nowMs
+    ) {
+      const dataItem = sortedDataItems[nextUploadIndex++];
+      pendingDataItems.set(dataItem.dataItemId, dataItem);
+    }
+
+    // Like the plan job, keep planning until no plans qualify for preparation
+    while (pendingDataItems.size > 0) {
+      const fetchedDataItems = [...pendingDataItems.values()]
+        .sort(
+          (a, b) =>
+            uploadedAtMs(a) +
+            maxWaitMsOf(a) -
+            (uploadedAtMs(b) + maxWaitMsOf(b))
+        )
+        .slice(0, fetchLimit);
+
+      const { bundlePlans } = planDataItemsBySla({
+        dataItems: fetchedDataItems,
+        bundlePacker,
+        bundleTypes,
+        nowMs,
+      });
+      if (bundlePlans.length === 0) {
+        break;
+      }
+
+      for (const plan of bundlePlans) {
+        const lanePacker = bundlePacker.withPlanningSla(
+          planningSlas[plan.premiumFeatureType]
+        );
+        bundles.push({
+          dataItemIds: plan.dataItemIds,
+          totalByteCount: plan.totalByteCount,
+          premiumFeatureType: plan.premiumFeatureType,
+          slaTrigger: plan.slaTrigger,
+          fillRatio: lanePacker.planFillRatio(plan),
+          plannedAtMs: nowMs,
+        });
+        for (const dataItemId of plan.dataItemIds) {
+          const dataItem = pendingDataItems.get(dataItemId);
+          if (dataItem) {
+            dataItemLatenciesMs[dataItemId] = nowMs - uploadedAtMs(dataItem);
+          }
+          pendingDataItems.delete(dataItemId);
+        }
+      }
+    }
+  }
+
+  return {
+    bundles,
+    dataItemLatenciesMs,
+    unplannedDataItemIds: [...pendingDataItems.keys()],
+  };
+}
+
+export interface BundlePlanSimulationSummary {
+  bundleCount: number;
+  bundleCountBySlaTrigger: Record<BundlePlanSlaTrigger, number>;
+  bundleCountByPremiumFeatureType: Record<string, number>;
+  plannedDataItemCount: number;
+  unplannedDataItemCount: number;
+  averageFillRatio: number;
+  minFillRatio: number;
+  latencyMs: { average: number; p50: number; p95: number; max: number };
+}
+
+function percentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) {
+    return 0;
+  }
+  const index = Math.ceil((p / 100) * sortedValues.length) - 1;
+  return sortedValues[Math.min(Math.max(index, 0), sortedValues.length - 1)];
+}
+
+export function summarizeBundlePlanSimulation({
+  bundles,
+  dataItemLatenciesMs,
+  unplannedDataItemIds,
+}: BundlePlanSimulation): BundlePlanSimulationSummary {
+  const latencies = Object.values(dataItemLatenciesMs).sort((a, b) => a - b);
+  const fillRatios = bundles.map(({ fillRatio }) => fillRatio);
+
+  const bundleCountBySlaTrigger: Record<BundlePlanSlaTrigger, number> = {
+    max_wait: 0,
+    min_fill_ratio: 0,
+  };
+  const bundleCountByPremiumFeatureType: Record<string, number> = {};
+  for (const { slaTrigger, premiumFeatureType } of bundles) {
+    bundleCountBySlaTrigger[slaTrigger]++;
+    bundleCountByPremiumFeatureType[premiumFeatureType] =
+      (bundleCountByPremiumFeatureType[premiumFeatureType] ?? 0) + 1;
+  }
+
+  return {
+    bundleCount: bundles.length,
+    bundleCountBySlaTrigger,
+    bundleCountByPremiumFeatureType,
+    plannedDataItemCount: latencies.length,
+    unplannedDataItemCount: unplannedDataItemIds.length,
+    averageFillRatio:
+      fillRatios.length === 0
+        ? 0
+        : fillRatios.reduce((a, b) => a + b, 0) / fillRatios.length,
+    minFillRatio: fillRatios.length === 0 ? 0 : Math.min(...fillRatios),
+    latencyMs: {
+      average:
+        latencies.length === 0
+          ? 0
+          : latencies.reduce((a, b) => a + b, 0) / latencies.length,
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+      max: latencies.length === 0 ? 0 : latencies[latencies.length - 1],
+    },
+  };
+}
+
+/** Prices each simulated bundle the same way bundles are priced when they are prepared */
+export async function priceSimulatedBundles(
+  bundles: SimulatedBundle[],
+  gateway: Pick<Gateway, "getWinstonPriceForByteCount">
+): Promise<Winston> {
+  let totalReward = W(0);
+  for (const bundle of bundles) {
+    bundle.reward = await gateway.getWinstonPriceForByteCount(
+      bundledByteCountOfBundleToPack(
+        bundle.totalByteCount,
+        bundle.dataItemIds.length
+      )
+    );
+    totalReward = totalReward.plus(bundle.reward);
+  }
+  return totalReward;
+}
+
+interface GenerateSyntheticDataItemsParams {
+  count: number;
+  /** Window of time that uploads are spread uniformly across */
+  durationMs: number;
+  /** Mean of the exponentially distributed data item byte counts */
+  meanByteCount: ByteCount;
+  /** Relative weights of the premium feature types to assign, defaults to all default bundles */
+  premiumFeatureTypeWeights?: Record<string, number>;
+  startDate?: Date;
+  random?: () => number;
+}
+
+export function generateSyntheticDataItems({
+  count,
+  durationMs,
+  meanByteCount,
+  premiumFeatureTypeWeights = { [defaultPremiumFeatureType]: 1 },
+  startDate = new Date(),
+  random = Math.random,
+}: GenerateSyntheticDataItemsParams): SimulatedDataItem[] {
+  const weightedTypes = Object.entries(premiumFeatureTypeWeights);
+  const totalWeight = weightedTypes.reduce((acc, [, w]) => acc + w, 0);
+  const pickPremiumFeatureType = () => {
+    let roll = random() * totalWeight;
+    for (const [premiumFeatureType, weight] of weightedTypes) {
+      roll -= weight;
+      if (roll < 0) {
+        return premiumFeatureType;
+      }
+    }
+    return weightedTypes[weightedTypes.length - 1][0];
+  };
+
+  const dataItems: SimulatedDataItem[] = [];
+  for (let i = 0; i < count; i++) {
+    dataItems.push({
+      dataItemId: `synthetic-data-item-${i}`,
+      byteCount: Math.max(
+        1,
+        Math.round(-Math.log(1 - random()) * meanByteCount)
+      ),
+      uploadedDate: new Date(
+        startDate.getTime() + Math.floor(random() * durationMs)
+      ).toISOString(),
+      premiumFeatureType: pickPremiumFeatureType(),
+    });
+  }
+  return dataItems;
+}
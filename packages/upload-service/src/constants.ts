@@ -14,13 +14,26 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
+import { DEFAULT_REQUEST_NONCE_TTL_MS } from "@ar-io-bundler/shared";
 import * as fs from "fs";
 
-import { PublicArweaveAddress, SigInfo, SignatureConfig } from "./types/types";
+import {
+  BundlePlanningSla,
+  BundlerWalletConfig,
+  BundlerWalletSelectionStrategy,
+  DedicatedBundleType,
+  PublicArweaveAddress,
+  SigInfo,
+  SignatureConfig,
+  StorageTieringPolicy,
+} from "./types/types";
 
 export const port = process.env.UPLOAD_SERVICE_PORT ? +process.env.UPLOAD_SERVICE_PORT : 3001;
 
 export const receiptVersion = "0.2.0";
+// Also signs dataCaches, fastFinalityIndexes and winc. Clients opt in with the Accept-Receipt-Version header
+export const fullySignedReceiptVersion = "0.3.0";
+export const acceptReceiptVersionHeader = "accept-receipt-version";
 
 export const deadlineHeightIncrement = 200;
 
@@ -83,6 +96,20 @@ export const gatewayUrl = new URL(
   process.env.ARWEAVE_GATEWAY || "https://arweave.net:443"
 );
 
+/** Gateways and nodes queried by the verify-bundle job, which requires a quorum of them to agree */
+export const verificationGatewayUrls: URL[] = process.env
+  .VERIFICATION_GATEWAY_URLS
+  ? process.env.VERIFICATION_GATEWAY_URLS.split(",").map(
+      (url) => new URL(url.trim())
+    )
+  : [gatewayUrl];
+
+/** Number of verification gateways that must agree on a result, a majority by default */
+export const verificationQuorum = +(
+  process.env.VERIFICATION_QUORUM ??
+  Math.floor(verificationGatewayUrls.length / 2) + 1
+);
+
 export const publicAccessGatewayUrl = new URL(
   process.env.PUBLIC_ACCESS_GATEWAY || "https://arweave.net:443"
 );
@@ -93,6 +120,11 @@ export const arweaveUploadNode = new URL(
   process.env.ARWEAVE_UPLOAD_NODE || "https://arweave.net:443"
 );
 
+/** Chunks of each seeded bundle the verify-chunks job checks on the upload node, 0 checks every chunk */
+export const chunkVerificationSampleSize = +(
+  process.env.CHUNK_VERIFICATION_SAMPLE_SIZE ?? 16
+);
+
 export const dataCaches = process.env.DATA_CACHES?.split(",") ?? [
   publicAccessGatewayUrl.host,
 ];
@@ -227,17 +259,21 @@ export const arioProcesses = [
   ...antRegistryTestnetProcesses,
 ];
 
+/**
+ * Compile-time dedicated bundle types. Operators can override these or define new bundle types
+ * at runtime with the `dedicated_bundle_types` key in the `config` table
+ */
 export const dedicatedBundleTypes: Record<
   PremiumPaidFeatureType,
-  {
-    allowedWallets: string[];
-    bundlerAppName?: string;
-    allowedProcesses?: string[];
-  }
+  DedicatedBundleType
 > = {
   [warpDedicatedBundlesPremiumFeatureType]: {
     allowedWallets: warpWalletAddresses,
     bundlerAppName: "Warp",
+    mustHaveOneOfTags: [
+      { name: "App-Name", value: "SmartWeaveAction" },
+      { name: "Sequencer", value: "Warp" },
+    ],
   },
 
   [redstoneOracleDedicatedBundlesPremiumFeatureType]: {
@@ -253,6 +289,9 @@ export const dedicatedBundleTypes: Record<
   [aoDedicatedBundlesPremiumFeatureType]: {
     allowedWallets: aoAddresses,
     bundlerAppName: "AO",
+    planningSla: {
+      maxWaitMs: +(process.env.AO_BUNDLE_MAX_WAIT_MS ?? 30_000),
+    },
   },
   [kyveDedicatedBundlesPremiumFeatureType]: {
     allowedWallets: kyveAddresses,
@@ -261,13 +300,46 @@ export const dedicatedBundleTypes: Record<
   [arDriveDedicatedBundlesPremiumFeatureType]: {
     allowedWallets: [] as string[],
     bundlerAppName: "ArDrive",
+    mustHaveOneOfTags: [{ name: "App-Name", valueStartsWith: "ArDrive" }],
   },
   [arioDedicatedBundlesPremiumFeatureType]: {
     allowedWallets: [] as string[],
     bundlerAppName: "AR.IO Network",
     allowedProcesses: arioProcesses,
   },
-} as const;
+};
+
+/** Config table key holding the latest forecast of the forecast-wallet-reserve job */
+export const walletReserveForecastConfigKey = "wallet_reserve_forecast";
+
+/** Window of recently posted bundles the wallet reserve burn rate is computed over */
+export const walletReserveForecastWindowMs =
+  +(process.env.WALLET_RESERVE_FORECAST_WINDOW_HOURS ?? 24) * 60 * 60 * 1000;
+
+/** Non-priority lanes stop being planned when the wallet reserve is forecast to last fewer hours than this */
+export const walletReserveMinHours = +(
+  process.env.WALLET_RESERVE_MIN_HOURS ?? 48
+);
+
+/** Forecasts older than this are ignored by the plan job, so a stalled forecast job can't pause planning */
+export const walletReserveForecastMaxAgeMs =
+  +(process.env.WALLET_RESERVE_FORECAST_MAX_AGE_MINUTES ?? 60) * 60 * 1000;
+
+/**
+ * Fraction the network reward for a bundle may rise above the reward signed at prepare time before
+ * post-bundle re-signs the transaction with the current reward
+ */
+export const bundleRewardRepriceTolerance = +(
+  process.env.BUNDLE_REWARD_REPRICE_TOLERANCE ?? 0.1
+);
+
+/** Config table key holding the JSON record of runtime dedicated bundle types */
+export const dedicatedBundleTypesConfigKey = "dedicated_bundle_types";
+
+/** How long runtime dedicated bundle types are cached in memory before being re-read from the config table */
+export const dedicatedBundleTypesCacheTtlMs = +(
+  process.env.DEDICATED_BUNDLE_TYPES_CACHE_TTL_MS ?? 60_000
+);
 
 /**
  * This is the limit of `signature` on `new_data_item` and `planned_data_item`
@@ -284,6 +356,13 @@ export const defaultOverdueThresholdMs = +(
   (process.env.OVERDUE_DATA_ITEM_THRESHOLD_MS ?? 5 * 60 * 1000) // 5 minutes
 );
 
+/** Planning SLA for the default bundles and for any dedicated bundle type without its own overrides */
+export const defaultBundlePlanningSla: BundlePlanningSla = {
+  maxWaitMs: defaultOverdueThresholdMs,
+  minFillRatio: +(process.env.MIN_BUNDLE_FILL_RATIO ?? 1),
+  maxBundleByteCount: maxBundleDataItemsByteCount,
+};
+
 export const blocklistedAddresses =
   process.env.BLOCKLISTED_ADDRESSES?.split(",") ?? [];
 
@@ -292,6 +371,17 @@ export const turboLocalJwk = process.env.TURBO_JWK_FILE
   ? JSON.parse(fs.readFileSync(process.env.TURBO_JWK_FILE, "utf-8"))
   : undefined;
 
+// Bundle signing wallets with their rotation schedule. When set, takes precedence over TURBO_JWK_FILE
+export const bundlerWalletsConfig: BundlerWalletConfig[] | undefined = process
+  .env.BUNDLER_WALLETS_FILE
+  ? JSON.parse(fs.readFileSync(process.env.BUNDLER_WALLETS_FILE, "utf-8"))
+  : undefined;
+
+export const bundlerWalletSelectionStrategy: BundlerWalletSelectionStrategy =
+  process.env.BUNDLER_WALLET_SELECTION === "balance"
+    ? "balance"
+    : "round-robin";
+
 // Raw data item wallet - used to sign data items for raw uploads (x402 flow)
 // This wallet should be separate from the bundler wallet and should be whitelisted
 export const rawDataItemJwk = process.env.RAW_DATA_ITEM_JWK_FILE
@@ -314,10 +404,51 @@ export const jobLabels = {
   seedBundle: "seed-bundle",
   verifyBundle: "verify-bundle",
   cleanupFs: "cleanup-fs",
+  tierStorage: "tier-storage",
+  forecastWalletReserve: "forecast-wallet-reserve",
+  verifyChunks: "verify-chunks",
   putOffsets: "put-offsets",
+  webhookDelivery: "webhook-delivery",
 } as const;
 export type JobLabel = (typeof jobLabels)[keyof typeof jobLabels];
 
+export const webhookUrlHeader = "x-webhook-url";
+export const webhookSignatureHeader = "x-webhook-signature";
+export const webhookPublicKeyHeader = "x-webhook-public-key";
+export const maxWebhookUrlLength = 2048;
+/** Delivery attempts made before a webhook is recorded in the dead letter table */
+export const webhookDeliveryMaxAttempts = +(
+  process.env.WEBHOOK_DELIVERY_MAX_ATTEMPTS ?? 8
+);
+/** Base delay of the exponential backoff between webhook delivery attempts */
+export const webhookDeliveryBackoffMs = +(
+  process.env.WEBHOOK_DELIVERY_BACKOFF_MS ?? 10_000
+);
+export const webhookDeliveryTimeoutMs = +(
+  process.env.WEBHOOK_DELIVERY_TIMEOUT_MS ?? 10_000
+);
+
+/** Maximum count of data item IDs accepted by a single batch status request */
+export const maxBatchStatusDataItemCount = +(
+  process.env.MAX_BATCH_STATUS_DATA_ITEM_IDS ?? 1000
+);
+
+const oneDayMs = 24 * 60 * 60 * 1000;
+
+/** When enabled, the tier-storage job owns payload placement after upload and reads follow each data item's recorded tier */
+export const storageTieringEnabled =
+  process.env.STORAGE_TIERING_ENABLED === "true";
+
+export const storageTieringPolicy: StorageTieringPolicy = {
+  fsBackupMaxAgeMs:
+    +(process.env.TIERING_FS_BACKUP_MAX_AGE_DAYS ?? 7) * oneDayMs,
+  objectStoreMaxAgeMs:
+    +(process.env.TIERING_OBJECT_STORE_MAX_AGE_DAYS ?? 90) * oneDayMs,
+  archiveMinIdleMs:
+    +(process.env.TIERING_ARCHIVE_MIN_IDLE_DAYS ?? 30) * oneDayMs,
+  promoteMinAccessCount: +(process.env.TIERING_PROMOTE_MIN_ACCESS_COUNT ?? 3),
+};
+
 export const createDelegatedPaymentApprovalTagName = "x-approve-payment";
 export const approvalAmountTagName = "x-amount";
 export const approvalExpiresBySecondsTagName = "x-expires-seconds";
@@ -326,6 +457,17 @@ export const revokeDelegatePaymentApprovalTagName = "x-delete-payment-approval";
 export const multipartChunkMinSize = 1024 * 1024 * 5; // 5MiB - AWS minimum
 export const multipartChunkMaxSize = 1024 * 1024 * 500; // 500MiB // NOTE: AWS supports upto 5GiB
 export const multipartDefaultChunkSize = 25_000_000; // 25MB
+/** Optional RFC 9530 digest of a multipart chunk, e.g. "sha-256=:<base64 digest>:", verified before the chunk is stored */
+export const chunkDigestHeader = "content-digest";
+
+/** How far the timestamp of a signed request's nonce may be from now, and how long the nonce is remembered to reject replays */
+export const requestNonceTtlMs = +(
+  process.env.REQUEST_NONCE_TTL_MS ?? DEFAULT_REQUEST_NONCE_TTL_MS
+);
+
+/** Accepts signed requests whose nonce is not scoped to a service and timestamp, as sent by older clients. Off unless enabled, as legacy nonces can be replayed once they expire */
+export const acceptLegacyRequestNonces =
+  process.env.ACCEPT_LEGACY_REQUEST_NONCES === "true";
 
 export const signatureTypeInfo: Record<number, SigInfo> = {
   [SignatureConfig.ARWEAVE]: {
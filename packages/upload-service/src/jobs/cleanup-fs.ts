@@ -24,7 +24,7 @@ import winston from "winston";
 import { ObjectStore } from "../arch/objectStore";
 import { columnNames, tableNames } from "../arch/db/dbConstants";
 import { getReaderConfig, getWriterConfig } from "../arch/db/knexConfig";
-import { jobLabels } from "../constants";
+import { jobLabels, storageTieringEnabled } from "../constants";
 import defaultLogger from "../logger";
 import { PermanentDataItemDBResult, Timestamp } from "../types/dbTypes";
 import { TransactionId } from "../types/types";
@@ -393,14 +393,20 @@ async function cleanupFsHandler({
 }
 
 export async function handler(eventPayload?: unknown) {
+  defaultLogger.info(`Cleanup job triggered with event payload:`, eventPayload);
+
+  if (storageTieringEnabled) {
+    // The tier-storage job moves payloads out of the FS backup and object store instead
+    defaultLogger.info("Storage tiering is enabled. Skipping cleanup.");
+    return;
+  }
+
   const knexClient = knex(getReaderConfig());
   const teardownComplete = new Deferred<void>();
 
-  // Import architecture to get objectStore
-  const { getS3ObjectStore } = await import("../utils/objectStoreUtils");
-  const objectStore = getS3ObjectStore();
-
-  defaultLogger.info(`Cleanup job triggered with event payload:`, eventPayload);
+  // Import architecture to get objectStore. Tiering is disabled here, so there are no tiers to route reads to
+  const { getHotObjectStore } = await import("../utils/objectStoreUtils");
+  const objectStore = getHotObjectStore();
 
   try {
     await cleanupFsHandler({
@@ -0,0 +1,105 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import winston from "winston";
+
+import { ArweaveGateway, Gateway } from "../arch/arweaveGateway";
+import { Database } from "../arch/db/database";
+import { PostgresDatabase } from "../arch/db/postgres";
+import {
+  gatewayUrl,
+  jobLabels,
+  walletReserveForecastWindowMs,
+  walletReserveMinHours,
+} from "../constants";
+import defaultLogger from "../logger";
+import { W } from "../types/winston";
+import {
+  BundlerWalletRegistry,
+  getBundlerWalletRegistry,
+} from "../utils/bundlerWallets";
+import {
+  forecastWalletReserve,
+  setWalletReserveGauges,
+} from "../utils/walletReserve";
+
+interface ForecastWalletReserveJobArch {
+  database?: Database;
+  arweaveGateway?: Pick<Gateway, "getBalanceForWallet">;
+  bundlerWalletRegistry?: BundlerWalletRegistry;
+  logger?: winston.Logger;
+}
+
+/**
+ * Tracks the balance of the active bundler wallets against pending and recent bundle rewards, and
+ * stores the forecast for the plan job, which pauses non-priority lanes while the reserve is low
+ */
+export async function forecastWalletReserveHandler({
+  database = new PostgresDatabase(),
+  arweaveGateway = new ArweaveGateway({ endpoint: gatewayUrl }),
+  bundlerWalletRegistry = getBundlerWalletRegistry(),
+  logger = defaultLogger.child({ job: jobLabels.forecastWalletReserve }),
+}: ForecastWalletReserveJobArch = {}): Promise<void> {
+  const now = new Date();
+
+  const walletBalances = await Promise.all(
+    bundlerWalletRegistry.activeWallets(now).map(async ({ address }) => ({
+      address,
+      balance: await arweaveGateway.getBalanceForWallet(address),
+    }))
+  );
+  const { pendingRewards, postedRewards } =
+    await database.getBundleRewardTotals(
+      new Date(now.getTime() - walletReserveForecastWindowMs)
+    );
+
+  const forecast = forecastWalletReserve({
+    balance: walletBalances.reduce(
+      (total, { balance }) => total.plus(balance),
+      W(0)
+    ),
+    pendingRewards,
+    recentRewards: postedRewards,
+    windowMs: walletReserveForecastWindowMs,
+    minReserveHours: walletReserveMinHours,
+    now,
+  });
+
+  await database.putWalletReserveForecast(forecast);
+  setWalletReserveGauges(forecast);
+
+  if (forecast.nonPriorityLanesPaused) {
+    logger.error(
+      "Bundler wallet reserve is low! Top up the bundler wallets. Planning of non-priority lanes is paused.",
+      { ...forecast, walletBalances, minReserveHours: walletReserveMinHours }
+    );
+  } else {
+    logger.info("Forecasted bundler wallet reserve.", {
+      ...forecast,
+      walletBalances,
+    });
+  }
+}
+
+export async function handler(eventPayload?: unknown) {
+  defaultLogger.info(
+    "Forecast wallet reserve job triggered with event payload:",
+    {
+      eventPayload,
+    }
+  );
+  return forecastWalletReserveHandler();
+}
@@ -21,12 +21,19 @@ import { defaultArchitecture } from "../arch/architecture";
 import { Database } from "../arch/db/database";
 import { PostgresDatabase } from "../arch/db/postgres";
 import { enqueue } from "../arch/queues";
-import { BundlePacker, PackerBundlePlan } from "../bundles/bundlePacker";
-import { dedicatedBundleTypes, jobLabels } from "../constants";
+import { BundlePacker } from "../bundles/bundlePacker";
+import { jobLabels } from "../constants";
 import defaultLogger from "../logger";
-import { NewDataItem } from "../types/dbTypes";
 import { generateArrayChunks } from "../utils/common";
-import { factorBundlesByTargetSize } from "../utils/planningUtils";
+import { getDedicatedBundleTypes } from "../utils/dedicatedBundleTypes";
+import {
+  getBundlePlanningSlas,
+  planDataItemsBySla,
+} from "../utils/planningUtils";
+import {
+  getRecentWalletReserveForecast,
+  priorityPremiumFeatureTypes,
+} from "../utils/walletReserve";
 
 // Jobs with full loads take ~10-15 seconds. Lambda timeout is 15 minutes.
 // Cancel the job if it runs for more than 14 minutes.
@@ -41,74 +48,77 @@ export async function planBundleHandler(
   const jobStartTime = Date.now();
 
   while (Date.now() - jobStartTime < REPEAT_JOB_LIMIT_MINS_MS) {
-    const dbDataItems = await database.getNewDataItems();
+    // Re-read on each loop so that bundle types changed in the config table are honored without a restart
+    const dedicatedBundleTypes = await getDedicatedBundleTypes(
+      database,
+      logger
+    );
+    const planningSlas = getBundlePlanningSlas(dedicatedBundleTypes);
+
+    // While the wallet reserve is low, only priority lanes are planned so the remaining AR goes to them
+    let plannedPremiumFeatureTypes: string[] | undefined;
+    const walletReserveForecast = await getRecentWalletReserveForecast(
+      database,
+      logger
+    );
+    if (walletReserveForecast?.nonPriorityLanesPaused) {
+      plannedPremiumFeatureTypes =
+        priorityPremiumFeatureTypes(dedicatedBundleTypes);
+      logger.warn(
+        "Wallet reserve is low! Planning of non-priority lanes is paused.",
+        {
+          hoursRemaining: walletReserveForecast.hoursRemaining,
+          forecastedAt: walletReserveForecast.forecastedAt,
+          plannedPremiumFeatureTypes,
+        }
+      );
+      if (plannedPremiumFeatureTypes.length === 0) {
+        break;
+      }
+    }
+
+    const dbDataItems = await database.getNewDataItems(
+      Object.fromEntries(
+        Object.entries(planningSlas).map(([premiumFeatureType, sla]) => [
+          premiumFeatureType,
+          sla.maxWaitMs,
+        ])
+      ),
+      plannedPremiumFeatureTypes
+    );
 
     if (dbDataItems.length === 0) {
       logger.info("No data items to bundle!");
       break;
     }
 
-    const splitDataItemsByFeatureType = dbDataItems.reduce(
-      (acc, dataItem) => {
-        const premiumFeatureType = dataItem.premiumFeatureType;
-        if (Object.keys(dedicatedBundleTypes).includes(premiumFeatureType)) {
-          acc[premiumFeatureType]
-            ? acc[premiumFeatureType].push(dataItem)
-            : (acc[premiumFeatureType] = [dataItem]);
-        } else {
-          acc["default"].push(dataItem);
-        }
-        return acc;
-      },
-      { default: [] } as Record<string, NewDataItem[]>
-    );
-
     logger.info("Planning data items.", {
       dataItemCount: dbDataItems.length,
     });
 
-    const allBundlePlans: PackerBundlePlan[] = [];
-    for (const featureType in splitDataItemsByFeatureType) {
-      const dataItems = splitDataItemsByFeatureType[featureType];
-      const bundlePlans = bundlePacker.packDataItemsIntoBundlePlans(dataItems);
-      allBundlePlans.push(...bundlePlans);
-    }
-
-    // Separate out the plans that contain overdue data items for expedited preparation
-    const { overdueBundlePlans, onTimeBundlePlans } = allBundlePlans.reduce(
-      (acc, bundlePlan) => {
-        if (bundlePlan.containsOverdueDataItems) {
-          acc.overdueBundlePlans.push(bundlePlan);
-        } else {
-          acc.onTimeBundlePlans.push(bundlePlan);
-        }
-        return acc;
-      },
-      {
-        overdueBundlePlans: new Array<PackerBundlePlan>(),
-        onTimeBundlePlans: new Array<PackerBundlePlan>(),
-      }
-    );
-
-    // Separate out the plans that aren't the target size
-    const { underweightBundlePlans, bundlePlans } = factorBundlesByTargetSize(
-      onTimeBundlePlans,
-      bundlePacker
-    );
+    const { bundlePlans, underweightBundlePlans } = planDataItemsBySla({
+      dataItems: dbDataItems,
+      bundlePacker,
+      bundleTypes: dedicatedBundleTypes,
+    });
 
     underweightBundlePlans.forEach((underweightBundlePlan) => {
       logger.info(`Not sending under-packed bundle plan for preparation.`, {
         firstDataItemId: underweightBundlePlan.dataItemIds[0],
+        premiumFeatureType: underweightBundlePlan.premiumFeatureType,
+        fillRatio: underweightBundlePlan.fillRatio,
       });
     });
 
-    // Expedite the plans containing overdue data item
-    overdueBundlePlans.forEach((overdueBundlePlan) => {
-      logger.debug(`Expediting bundle plan due to overdue data item.`, {
-        firstDataItemId: overdueBundlePlan.dataItemIds[0],
+    // Plans containing overdue data items are expedited
+    bundlePlans
+      .filter(({ slaTrigger }) => slaTrigger === "max_wait")
+      .forEach((overdueBundlePlan) => {
+        logger.debug(`Expediting bundle plan due to overdue data item.`, {
+          firstDataItemId: overdueBundlePlan.dataItemIds[0],
+          premiumFeatureType: overdueBundlePlan.premiumFeatureType,
+        });
       });
-      bundlePlans.push(overdueBundlePlan);
-    });
 
     if (bundlePlans.length === 0) {
       // Stop condition for exit the loop if there are no bundle plans to insert:
@@ -119,30 +129,33 @@ export async function planBundleHandler(
     }
 
     const parallelLimit = pLimit(PARALLEL_LIMIT);
-    const insertPromises = bundlePlans.map(({ dataItemIds, totalByteCount }) =>
-      parallelLimit(async () => {
-        const planId = randomUUID();
-        const logBatchSize = 100;
-        const dataItemIdBatches = generateArrayChunks(
-          dataItemIds,
-          logBatchSize
-        );
-        const numDataItemIdBatches = Math.ceil(
-          dataItemIds.length / logBatchSize
-        );
-        let batchNum = 1;
-        for (const batch of dataItemIdBatches) {
-          logger.info("Plan:", {
-            planId,
-            dataItemIds: batch,
-            totalByteCount,
-            numDataItems: dataItemIds.length,
-            logBatch: `${batchNum++}/${numDataItemIdBatches}`,
-          });
-        }
-        await database.insertBundlePlan(planId, dataItemIds);
-        await enqueue(jobLabels.prepareBundle, { planId });
-      })
+    const insertPromises = bundlePlans.map(
+      ({ dataItemIds, totalByteCount, premiumFeatureType, slaTrigger }) =>
+        parallelLimit(async () => {
+          const planId = randomUUID();
+          const logBatchSize = 100;
+          const dataItemIdBatches = generateArrayChunks(
+            dataItemIds,
+            logBatchSize
+          );
+          const numDataItemIdBatches = Math.ceil(
+            dataItemIds.length / logBatchSize
+          );
+          let batchNum = 1;
+          for (const batch of dataItemIdBatches) {
+            logger.info("Plan:", {
+              planId,
+              dataItemIds: batch,
+              totalByteCount,
+              premiumFeatureType,
+              slaTrigger,
+              numDataItems: dataItemIds.length,
+              logBatch: `${batchNum++}/${numDataItemIdBatches}`,
+            });
+          }
+          await database.insertBundlePlan(planId, dataItemIds, slaTrigger);
+          await enqueue(jobLabels.prepareBundle, { planId });
+        })
     );
 
     try {
@@ -14,6 +14,10 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
+import Transaction from "arweave/node/lib/transaction";
+import { Readable } from "stream";
+import winston from "winston";
+
 // import { defaultArchitecture } from "../arch/architecture"; // Unused - removed
 import { ArweaveGateway, Gateway } from "../arch/arweaveGateway";
 import { Database } from "../arch/db/database";
@@ -21,31 +25,156 @@ import { PostgresDatabase } from "../arch/db/postgres";
 import { ObjectStore } from "../arch/objectStore";
 import { PaymentService, TurboPaymentService } from "../arch/payment";
 import { enqueue } from "../arch/queues";
+import { ArweaveInterface } from "../arweaveJs";
 import { gatewayUrl, jobLabels } from "../constants";
 import defaultLogger from "../logger";
 import { MetricRegistry } from "../metricRegistry";
 import { NewBundle, PlanId } from "../types/dbTypes";
-import { Winston } from "../types/winston";
+import { W, Winston } from "../types/winston";
 import { ownerToNormalizedB64Address } from "../utils/base64";
+import { bundleRewardIsStale } from "../utils/bundleReward";
+import {
+  BundlerWalletRegistry,
+  getBundlerWalletRegistry,
+} from "../utils/bundlerWallets";
 import { BundlePlanExistsInAnotherStateWarning } from "../utils/errors";
-import { getBundleTx, getS3ObjectStore } from "../utils/objectStoreUtils";
+import {
+  getBundlePayload,
+  getBundleTx,
+  getObjectStore,
+  putBundleTx,
+} from "../utils/objectStoreUtils";
+import { rePackedWebhookNotifications } from "../utils/webhooks";
+import { enqueueWebhookDeliveries } from "./webhookDelivery";
 
 interface PostBundleJobInjectableArch {
   database?: Database;
   objectStore?: ObjectStore;
   arweaveGateway?: Gateway;
   paymentService?: PaymentService;
+  bundlerWalletRegistry?: BundlerWalletRegistry;
+  arweave?: ArweaveInterface;
+}
+
+/**
+ * Rebuilds and re-signs the bundle transaction with the current network reward and a fresh anchor when the reward
+ * signed at prepare time has gone stale. The prepared transaction is posted as is when the network
+ * reward can't be fetched, its signing wallet is no longer in the bundler wallet registry, or the
+ * put-offsets queue has not yet written every data item offset against the prepared bundle ID
+ */
+async function rePriceStaleBundleTx({
+  planId,
+  bundleTx,
+  database,
+  objectStore,
+  arweaveGateway,
+  arweave,
+  bundlerWalletRegistry,
+  logger,
+}: {
+  planId: PlanId;
+  bundleTx: Transaction;
+  database: Database;
+  objectStore: ObjectStore;
+  arweaveGateway: Gateway;
+  arweave: ArweaveInterface;
+  bundlerWalletRegistry?: BundlerWalletRegistry;
+  logger: winston.Logger;
+}): Promise<Transaction> {
+  const preparedReward = W(bundleTx.reward);
+  let networkReward: Winston;
+  try {
+    networkReward = await arweaveGateway.getWinstonPriceForByteCount(
+      +bundleTx.data_size,
+      bundleTx.target || undefined
+    );
+  } catch (error) {
+    logger.warn(
+      "Failed to fetch the network reward for bundle. Posting with the prepared reward.",
+      { error }
+    );
+    return bundleTx;
+  }
+  if (!bundleRewardIsStale(preparedReward, networkReward)) {
+    return bundleTx;
+  }
+
+  const signingWallet = (
+    bundlerWalletRegistry ?? getBundlerWalletRegistry()
+  ).findPublishedWallet(bundleTx.owner);
+  if (!signingWallet) {
+    logger.warn(
+      "Bundle reward is stale but its signing wallet is not in the bundler wallet registry. Posting with the prepared reward.",
+      { preparedReward, networkReward }
+    );
+    return bundleTx;
+  }
+
+  // Offsets still queued after the re-signed bundle ID replaces the prepared one would point at a
+  // transaction that is never posted
+  if (
+    !(await database.hasBundleDataItemOffsets({
+      planId,
+      bundleId: bundleTx.id,
+    }))
+  ) {
+    logger.warn(
+      "Bundle reward is stale but its data item offsets are not all written yet. Posting with the prepared reward.",
+      { preparedReward, networkReward }
+    );
+    return bundleTx;
+  }
+
+  // The anchor and reward of a transaction are read only, so the bundle transaction is rebuilt
+  // from its payload the way prepare-bundle created it, then signed with its original tags
+  const rePricedBundleTx = await arweave.createTransactionFromPayloadStream(
+    await getBundlePayload(objectStore, planId),
+    {
+      target: bundleTx.target,
+      quantity: bundleTx.quantity,
+      last_tx: await arweaveGateway.getBlockHash(),
+      reward: networkReward.toString(),
+    },
+    signingWallet.jwk
+  );
+  rePricedBundleTx.tags = bundleTx.tags;
+  await arweave.signTx(rePricedBundleTx, signingWallet.jwk);
+
+  const bundleTxBuffer = Buffer.from(JSON.stringify(rePricedBundleTx.toJSON()));
+  await putBundleTx(
+    objectStore,
+    rePricedBundleTx.id,
+    Readable.from(bundleTxBuffer)
+  );
+  await database.updateNewBundleReward({
+    planId,
+    bundleId: bundleTx.id,
+    rePricedBundleId: rePricedBundleTx.id,
+    reward: networkReward,
+    transactionByteCount: bundleTxBuffer.byteLength,
+  });
+
+  MetricRegistry.bundleRePriced.inc();
+  logger.info("Re-signed bundle with the network reward.", {
+    preparedBundleId: bundleTx.id,
+    bundleId: rePricedBundleTx.id,
+    preparedReward,
+    networkReward,
+  });
+  return rePricedBundleTx;
 }
 
 export async function postBundleHandler(
   planId: PlanId,
   {
     database = new PostgresDatabase(),
-    objectStore = getS3ObjectStore(),
+    objectStore = getObjectStore(database),
     arweaveGateway = new ArweaveGateway({
       endpoint: gatewayUrl,
     }),
     paymentService = new TurboPaymentService(),
+    bundlerWalletRegistry,
+    arweave = new ArweaveInterface(),
   }: PostBundleJobInjectableArch,
   logger = defaultLogger.child({ job: "post-bundle-job", planId })
 ) {
@@ -60,17 +189,27 @@ export async function postBundleHandler(
     logger.error("Failed to get next bundle to post.", { error });
     throw error;
   }
-  const { bundleId, transactionByteCount } = dbNextBundle;
+  const { transactionByteCount } = dbNextBundle;
 
   logger.info(`Posting bundle.`, {
     // Log entire NewBundle from database (includes planId and bundleId)
     bundle: dbNextBundle,
   });
-  const bundleTx = await getBundleTx(
+  const bundleTx = await rePriceStaleBundleTx({
+    planId,
+    bundleTx: await getBundleTx(
+      objectStore,
+      dbNextBundle.bundleId,
+      transactionByteCount
+    ),
+    database,
     objectStore,
-    bundleId,
-    transactionByteCount
-  );
+    arweaveGateway,
+    arweave,
+    bundlerWalletRegistry,
+    logger,
+  });
+  const bundleId = bundleTx.id;
 
   logger.debug(`Bundle Transaction details.`, { planId, bundleTx });
 
@@ -107,22 +246,52 @@ export async function postBundleHandler(
       error: message,
     });
 
+    const signingWalletAddress = ownerToNormalizedB64Address(bundleTx.owner);
     const balance = await arweaveGateway.getBalanceForWallet(
-      ownerToNormalizedB64Address(bundleTx.owner)
+      signingWalletAddress
     );
 
-    if (new Winston(bundleTx.reward).isGreaterThan(balance)) {
-      // During an error to post, if the wallet the signed the bundle does not have enough balance
-      // for the reward, we will throw an error so this job will go to DLQ and alert us
-      throw Error(
-        `Wallet does not have enough balance for this bundle post! Current Balance: ${balance}, Reward for Bundle: ${bundleTx.reward}`
+    const reward = new Winston(bundleTx.reward);
+    if (reward.isGreaterThan(balance)) {
+      const fundedWallet = await (
+        bundlerWalletRegistry ?? getBundlerWalletRegistry()
+      ).findFundedWallet({
+        reward,
+        arweaveGateway,
+        excludeAddress: signingWalletAddress,
+      });
+      if (!fundedWallet) {
+        // During an error to post, if no bundler wallet has enough balance for the reward,
+        // we will throw an error so this job will go to DLQ and alert us
+        throw Error(
+          `Wallet does not have enough balance for this bundle post! Current Balance: ${balance}, Reward for Bundle: ${bundleTx.reward}`
+        );
+      }
+
+      // Fail the bundle so that its data items are re-planned and signed by a funded wallet
+      logger.warn(
+        "Bundle signing wallet does not have enough balance for the reward. Failing bundle to re-sign it with another wallet.",
+        {
+          signingWalletAddress,
+          balance,
+          reward,
+          fundedWalletAddress: fundedWallet.address,
+        }
       );
     }
 
     // For other failure reasons, insert as a failed to post bundle without throwing error
     // The planned_data_items in the bundle will be demoted to new_data_items
     // We also do not care about the USD/AR rate if posting fails, so we do not pass it in
-    return database.updateNewBundleToFailedToPost(planId, bundleId);
+    const plannedDataItems = await database.getPlannedDataItemsForPlanId(
+      planId
+    );
+    await database.updateNewBundleToFailedToPost(planId, bundleId);
+    return enqueueWebhookDeliveries({
+      database,
+      notifications: rePackedWebhookNotifications(plannedDataItems, bundleId),
+      logger,
+    });
   }
 }
 // Legacy SQS handler - now using BullMQ workers in src/workers/allWorkers.ts
@@ -43,6 +43,7 @@ import { PlanId, PlannedDataItem } from "../types/dbTypes";
 import { JWKInterface } from "../types/jwkTypes";
 import { DataItemOffsetsInfo } from "../types/types";
 import { W } from "../types/winston";
+import { getBundlerWalletRegistry } from "../utils/bundlerWallets";
 import {
   filterKeysFromObject,
   generateArrayChunks,
@@ -54,15 +55,16 @@ import {
   getRawSignatureOfDataItem,
   getSignatureTypeOfDataItem,
 } from "../utils/dataItemUtils";
+import { getDedicatedBundleTypes } from "../utils/dedicatedBundleTypes";
 import { BundlePlanExistsInAnotherStateWarning } from "../utils/errors";
-import { getArweaveWallet } from "../utils/getArweaveWallet";
 import {
   getBundlePayload,
-  getS3ObjectStore,
+  getObjectStore,
   putBundlePayload,
   putBundleTx,
 } from "../utils/objectStoreUtils";
 import { streamToBuffer } from "../utils/streamToBuffer";
+import { enqueueWebhookDeliveries } from "./webhookDelivery";
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const { version } = require("../../package.json");
@@ -89,7 +91,7 @@ export async function prepareBundleHandler(
   planId: PlanId,
   {
     database = new PostgresDatabase(),
-    objectStore = getS3ObjectStore(),
+    objectStore = getObjectStore(database),
     cacheService = getElasticacheService(),
     jwk,
     arweaveGateway = new ArweaveGateway({
@@ -100,10 +102,6 @@ export async function prepareBundleHandler(
   }: PrepareBundleJobInjectableArch,
   logger = defaultLogger.child({ job: jobLabels.prepareBundle, planId })
 ): Promise<void> {
-  if (!jwk) {
-    jwk = await getArweaveWallet();
-  }
-
   let dbDataItems: PlannedDataItem[];
   try {
     dbDataItems = await database.getPlannedDataItemsForPlanId(planId);
@@ -179,6 +177,19 @@ export async function prepareBundleHandler(
   // Call pricing service to determine reward and tip settings for bundle
   const txAttributes = await pricing.getTxAttributesForDataItems(dbDataItems);
 
+  if (!jwk) {
+    const signingWallet =
+      await getBundlerWalletRegistry().selectBundleSigningWallet({
+        reward: W(txAttributes.reward ?? 0),
+        arweaveGateway,
+        logger,
+      });
+    logger.info("Selected bundler wallet to sign bundle.", {
+      walletAddress: signingWallet.address,
+    });
+    jwk = signingWallet.jwk;
+  }
+
   logger = logger.child({
     txAttributes,
     totalDataItemsSize,
@@ -218,6 +229,26 @@ export async function prepareBundleHandler(
         dataItemId,
         failedReason: "missing_from_object_store",
       });
+      const failedDataItem = dbDataItems.find(
+        (dataItem) => dataItem.dataItemId === dataItemId
+      );
+      if (failedDataItem) {
+        await enqueueWebhookDeliveries({
+          database,
+          notifications: [
+            {
+              ownerPublicAddress: failedDataItem.ownerPublicAddress,
+              payload: {
+                event: "failed",
+                dataItemId,
+                timestamp: Date.now(),
+                failedReason: "missing_from_object_store",
+              },
+            },
+          ],
+          logger,
+        });
+      }
 
       // TODO: This is a hack -- recurse to retry the job without the deleted data item
       await sleep(100); // Sleep to combat replication lag
@@ -254,7 +285,19 @@ export async function prepareBundleHandler(
   });
   bundleTx.addTag("Bundle-Format", "binary");
   bundleTx.addTag("Bundle-Version", "2.0.0");
-  bundleTx.addTag("App-Name", process.env.APP_NAME ?? "AR.IO Bundler");
+  // Dedicated bundles are tagged with the bundler app name of their bundle type
+  const { premiumFeatureType } = dbDataItems[0];
+  const isDedicatedBundle = dbDataItems.every(
+    (dataItem) => dataItem.premiumFeatureType === premiumFeatureType
+  );
+  const bundlerAppName = isDedicatedBundle
+    ? (await getDedicatedBundleTypes(database, logger))[premiumFeatureType]
+        ?.bundlerAppName
+    : undefined;
+  bundleTx.addTag(
+    "App-Name",
+    bundlerAppName ?? process.env.APP_NAME ?? "AR.IO Bundler"
+  );
   bundleTx.addTag("App-Version", version);
 
   await arweave.signTx(bundleTx, jwk);
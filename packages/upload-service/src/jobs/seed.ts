@@ -28,7 +28,7 @@ import { BundlePlanExistsInAnotherStateWarning } from "../utils/errors";
 import {
   getBundlePayload,
   getBundleTx,
-  getS3ObjectStore,
+  getObjectStore,
 } from "../utils/objectStoreUtils";
 
 interface SeedBundleJobInjectableArch {
@@ -41,7 +41,7 @@ export async function seedBundleHandler(
   planId: PlanId,
   {
     database = new PostgresDatabase(),
-    objectStore = getS3ObjectStore(),
+    objectStore = getObjectStore(database),
     arweave = new ArweaveInterface(),
   }: SeedBundleJobInjectableArch,
   logger = defaultLogger.child({ job: "seed-bundle-job", planId })
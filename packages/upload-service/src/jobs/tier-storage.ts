@@ -0,0 +1,256 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import pLimit from "p-limit";
+import { Readable } from "stream";
+import winston from "winston";
+
+import { Database } from "../arch/db/database";
+import { PostgresDatabase } from "../arch/db/postgres";
+import { ObjectStore } from "../arch/objectStore";
+import { jobLabels, storageTieringPolicy } from "../constants";
+import defaultLogger from "../logger";
+import { StorageTieringCandidate } from "../types/dbTypes";
+import {
+  PayloadInfo,
+  StorageTier,
+  StorageTieringPolicy,
+  TransactionId,
+} from "../types/types";
+import {
+  deleteDataItemFromBackupFs,
+  fsBackupDataItemMetadata,
+  fsBackupHasDataItem,
+  fsBackupRawDataItemReadable,
+} from "../utils/fileSystemUtils";
+import {
+  dataItemPrefix,
+  getArchiveObjectStore,
+  getDataItemPayloadInfo,
+  getHotObjectStore,
+  putDataItemRaw,
+  rawDataItemObjectExists,
+} from "../utils/objectStoreUtils";
+import {
+  nextStorageTier,
+  storageTieringCutoffs,
+} from "../utils/storageTiering";
+
+const TIERING_BATCH_SIZE = 500;
+const MOVE_CONCURRENCY_LIMIT = 8;
+const MAX_ERROR_COUNT = 10;
+// Cancel the job if it runs for more than 14 minutes
+const REPEAT_JOB_LIMIT_MS = 14 * 60 * 1000;
+
+interface TierStorageJobArch {
+  database?: Database;
+  objectStore?: ObjectStore;
+  archiveObjectStore?: ObjectStore;
+  policy?: StorageTieringPolicy;
+  batchSize?: number;
+  logger?: winston.Logger;
+}
+
+/** Moves the payloads of permanent data items to the storage tier chosen by the tiering policy */
+export async function tierStorageHandler({
+  database = new PostgresDatabase(),
+  objectStore = getHotObjectStore(),
+  archiveObjectStore = getArchiveObjectStore(),
+  policy = storageTieringPolicy,
+  batchSize = TIERING_BATCH_SIZE,
+  logger = defaultLogger.child({ job: jobLabels.tierStorage }),
+}: TierStorageJobArch = {}): Promise<void> {
+  const jobStartTime = Date.now();
+  const movedCounts: Partial<Record<StorageTier, number>> = {};
+  let errorCount = 0;
+
+  while (Date.now() - jobStartTime < REPEAT_JOB_LIMIT_MS) {
+    const nowMs = Date.now();
+    const candidates = await database.getStorageTieringCandidates({
+      ...storageTieringCutoffs(policy, nowMs),
+      limit: batchSize,
+    });
+    if (candidates.length === 0) {
+      logger.info("No data items to tier!");
+      break;
+    }
+
+    let batchMovedCount = 0;
+    const parallelLimit = pLimit(MOVE_CONCURRENCY_LIMIT);
+    await Promise.all(
+      candidates.map((candidate) =>
+        parallelLimit(async () => {
+          const storageTier = nextStorageTier(candidate, policy, nowMs);
+          if (storageTier === undefined) {
+            return;
+          }
+          try {
+            const movedTo = await moveDataItemPayload({
+              candidate,
+              storageTier,
+              database,
+              objectStore,
+              archiveObjectStore,
+              logger,
+            });
+            movedCounts[movedTo] = (movedCounts[movedTo] ?? 0) + 1;
+            batchMovedCount++;
+          } catch (error) {
+            errorCount++;
+            logger.error("Failed to move data item payload!", {
+              dataItemId: candidate.dataItemId,
+              fromStorageTier: candidate.storageTier,
+              toStorageTier: storageTier,
+              error,
+            });
+          }
+        })
+      )
+    );
+
+    if (errorCount > MAX_ERROR_COUNT) {
+      throw new Error(
+        `Too many storage tiering errors encountered. Aborting after ${errorCount} errors.`
+      );
+    }
+    if (batchMovedCount === 0) {
+      // Every remaining candidate failed to move, so stop rather than select them again
+      break;
+    }
+    logger.info("Progress:", { movedCounts, errorCount });
+  }
+
+  logger.info("Finished tiering data item payloads.", {
+    movedCounts,
+    errorCount,
+  });
+}
+
+async function readDataItemPayload({
+  dataItemId,
+  storageTier,
+  objectStore,
+  archiveObjectStore,
+  logger,
+}: {
+  dataItemId: TransactionId;
+  storageTier: StorageTier | undefined;
+  objectStore: ObjectStore;
+  archiveObjectStore: ObjectStore;
+  logger: winston.Logger;
+}): Promise<{ readable: Readable; payloadInfo: PayloadInfo } | undefined> {
+  const tierObjectStore =
+    storageTier === "archive" ? archiveObjectStore : objectStore;
+  if (await rawDataItemObjectExists(tierObjectStore, dataItemId)) {
+    return {
+      payloadInfo: await getDataItemPayloadInfo(tierObjectStore, dataItemId),
+      readable: (
+        await tierObjectStore.getObject(`${dataItemPrefix}/${dataItemId}`)
+      ).readable,
+    };
+  }
+
+  // Payloads still in their upload placement may only have been written to the FS backup
+  if (
+    storageTier === undefined &&
+    (await fsBackupHasDataItem(dataItemId, logger))
+  ) {
+    return {
+      payloadInfo: await fsBackupDataItemMetadata(dataItemId),
+      readable: (await fsBackupRawDataItemReadable({ dataItemId })).readable,
+    };
+  }
+  return undefined;
+}
+
+/** Copies a payload to its new tier, records the move, then removes the copies left in colder or hotter tiers */
+async function moveDataItemPayload({
+  candidate: { dataItemId, storageTier: fromStorageTier },
+  storageTier,
+  database,
+  objectStore,
+  archiveObjectStore,
+  logger,
+}: {
+  candidate: StorageTieringCandidate;
+  storageTier: StorageTier;
+  database: Database;
+  objectStore: ObjectStore;
+  archiveObjectStore: ObjectStore;
+  logger: winston.Logger;
+}): Promise<StorageTier> {
+  const isInObjectStore =
+    fromStorageTier === undefined &&
+    storageTier === "object_store" &&
+    (await rawDataItemObjectExists(objectStore, dataItemId));
+
+  if (!isInObjectStore) {
+    const payload = await readDataItemPayload({
+      dataItemId,
+      storageTier: fromStorageTier,
+      objectStore,
+      archiveObjectStore,
+      logger,
+    });
+    if (!payload) {
+      logger.warn(
+        "No copy of data item payload found. Only Arweave holds it.",
+        {
+          dataItemId,
+          fromStorageTier,
+        }
+      );
+      await database.putDataItemStorageTier({
+        dataItemId,
+        storageTier: "arweave",
+      });
+      return "arweave";
+    }
+    await putDataItemRaw(
+      storageTier === "archive" ? archiveObjectStore : objectStore,
+      dataItemId,
+      payload.readable,
+      payload.payloadInfo.payloadContentType,
+      payload.payloadInfo.payloadDataStart
+    );
+  }
+
+  // Record the new tier before removing the old copies so reads never miss the payload
+  await database.putDataItemStorageTier({ dataItemId, storageTier });
+  const Key = `${dataItemPrefix}/${dataItemId}`;
+  if (fromStorageTier === undefined) {
+    await deleteDataItemFromBackupFs(dataItemId);
+  }
+  if (storageTier === "archive") {
+    await objectStore.deleteObject(Key);
+  }
+  if (fromStorageTier === "archive") {
+    await archiveObjectStore.deleteObject(Key);
+  }
+  logger.debug("Moved data item payload.", {
+    dataItemId,
+    fromStorageTier,
+    toStorageTier: storageTier,
+  });
+  return storageTier;
+}
+
+export async function handler(eventPayload?: unknown) {
+  defaultLogger.info("Tier storage job triggered with event payload:", {
+    eventPayload,
+  });
+  return tierStorageHandler();
+}
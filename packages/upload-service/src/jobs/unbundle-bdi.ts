@@ -20,6 +20,7 @@ import { Readable } from "stream";
 import winston from "winston";
 
 import { CacheService } from "../arch/cacheServiceTypes";
+import { ObjectStore } from "../arch/objectStore";
 import { enqueue } from "../arch/queues";
 import { rawDataItemStartFromParsedHeader } from "../bundles/rawDataItemStartFromParsedHeader";
 import { StreamingDataItem } from "../bundles/streamingDataItem";
@@ -34,8 +35,6 @@ import {
   getPayloadOfDataItem,
   shouldCacheNestedDataItemToObjStore,
 } from "../utils/dataItemUtils";
-// PostgreSQL is now used instead of DynamoDB - always available via database connection
-import { getS3ObjectStore } from "../utils/objectStoreUtils";
 import {
   encodeTagsForOptical,
   signDataItemHeader,
@@ -54,7 +53,8 @@ type IncomingBDIMessageBody = string | UnbundleBDIMessageBody;
 export async function unbundleBDIBatchHandler(
   messages: { MessageId?: string; Body?: string }[],
   logger: winston.Logger,
-  cacheService: CacheService
+  cacheService: CacheService,
+  objectStore: ObjectStore
 ) {
   const bdisToUnpack: UnbundleBDIMessageBody[] = [];
 
@@ -78,7 +78,8 @@ export async function unbundleBDIBatchHandler(
   const handledBdiIds = await unbundleBDIHandler(
     bdisToUnpack,
     logger,
-    cacheService
+    cacheService,
+    objectStore
   );
 
   if (bdisToUnpack.length !== handledBdiIds.length) {
@@ -95,12 +96,12 @@ export async function unbundleBDIBatchHandler(
 export async function unbundleBDIHandler(
   bdisToUnpack: UnbundleBDIMessageBody[],
   logger: winston.Logger,
-  cacheService: CacheService
+  cacheService: CacheService,
+  objectStore: ObjectStore
 ) {
   logger.debug("Go!", { bdisToUnpack });
 
   const bdiParallelLimit = pLimit(10);
-  const objectStore = getS3ObjectStore();
 
   // Make a best effort to unpack the BDI and stash its nested data items' payloads in the object store
   const handledBdiIds: string[] = [];
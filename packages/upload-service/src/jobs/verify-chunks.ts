@@ -0,0 +1,193 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import pLimit from "p-limit";
+import winston from "winston";
+
+import { ArweaveGateway, Gateway } from "../arch/arweaveGateway";
+import { Database } from "../arch/db/database";
+import { PostgresDatabase } from "../arch/db/postgres";
+import { ObjectStore } from "../arch/objectStore";
+import { ArweaveInterface } from "../arweaveJs";
+import {
+  arweaveUploadNode,
+  chunkVerificationSampleSize,
+  jobLabels,
+} from "../constants";
+import defaultLogger from "../logger";
+import { MetricRegistry } from "../metricRegistry";
+import { SeededBundle } from "../types/dbTypes";
+import { TransactionId } from "../types/types";
+import {
+  ChunkByteRange,
+  chunkByteRanges,
+  sampleChunkIndexes,
+} from "../utils/bundleChunks";
+import {
+  getBundlePayload,
+  getBundleTx,
+  getObjectStore,
+} from "../utils/objectStoreUtils";
+
+const CHUNK_CHECK_CONCURRENCY_LIMIT = 10;
+
+interface VerifyChunksJobArch {
+  database?: Database;
+  objectStore?: ObjectStore;
+  uploadNode?: Pick<Gateway, "getTransactionOffset" | "isChunkAvailable">;
+  arweave?: ArweaveInterface;
+  /** Bundles to check every chunk of. When omitted, a sample of chunks is checked for each seeded bundle */
+  bundleIds?: TransactionId[];
+  sampleSize?: number;
+  logger?: winston.Logger;
+}
+
+async function findMissingChunkIndexes({
+  uploadNode,
+  txStartOffset,
+  byteRanges,
+  chunkIndexes,
+}: {
+  uploadNode: Pick<Gateway, "isChunkAvailable">;
+  txStartOffset: number;
+  byteRanges: ChunkByteRange[];
+  chunkIndexes: number[];
+}): Promise<number[]> {
+  const parallelLimit = pLimit(CHUNK_CHECK_CONCURRENCY_LIMIT);
+  const chunkAvailability = await Promise.all(
+    chunkIndexes.map((chunkIndex) =>
+      parallelLimit(() =>
+        // Any weave offset within a chunk resolves to that chunk, probe its last byte
+        uploadNode.isChunkAvailable(
+          txStartOffset + byteRanges[chunkIndex].maxByteRange - 1
+        )
+      )
+    )
+  );
+  return chunkIndexes.filter((_, i) => !chunkAvailability[i]);
+}
+
+/**
+ * Checks that the chunks of seeded bundles are available on the upload node and reseeds only the
+ * missing chunks from the bundle payload in the object store. A sampled check that finds a missing
+ * chunk falls back to checking every chunk of the bundle before reseeding
+ */
+export async function verifyChunksHandler({
+  database = new PostgresDatabase(),
+  objectStore = getObjectStore(database),
+  uploadNode = new ArweaveGateway({ endpoint: arweaveUploadNode }),
+  arweave = new ArweaveInterface(),
+  bundleIds,
+  sampleSize = chunkVerificationSampleSize,
+  logger = defaultLogger.child({ job: jobLabels.verifyChunks }),
+}: VerifyChunksJobArch = {}): Promise<void> {
+  let bundles: SeededBundle[];
+  if (bundleIds) {
+    bundles = [];
+    for (const bundleId of bundleIds) {
+      const bundle = await database.getSeededOrPermanentBundle(bundleId);
+      if (bundle) {
+        bundles.push(bundle);
+      } else {
+        logger.warn("No seeded or permanent bundle found, skipping.", {
+          bundleId,
+        });
+      }
+    }
+  } else {
+    bundles = await database.getSeededBundles();
+  }
+
+  for (const { bundleId, planId, transactionByteCount } of bundles) {
+    const bundleLogger = logger.child({ bundleId, planId });
+    try {
+      const txOffset = await uploadNode.getTransactionOffset(bundleId);
+      if (!txOffset) {
+        bundleLogger.info(
+          "Bundle transaction offset is not yet known to the upload node, skipping."
+        );
+        continue;
+      }
+      const txStartOffset = txOffset.offset - txOffset.size + 1;
+
+      const bundleTx = await getBundleTx(
+        objectStore,
+        bundleId,
+        transactionByteCount
+      );
+      const byteRanges = chunkByteRanges(+bundleTx.data_size);
+      const allChunkIndexes = [...byteRanges.keys()];
+
+      const checkedChunkIndexes = bundleIds
+        ? allChunkIndexes
+        : sampleChunkIndexes(byteRanges.length, sampleSize);
+      let missingChunkIndexes = await findMissingChunkIndexes({
+        uploadNode,
+        txStartOffset,
+        byteRanges,
+        chunkIndexes: checkedChunkIndexes,
+      });
+      if (
+        missingChunkIndexes.length > 0 &&
+        checkedChunkIndexes.length < allChunkIndexes.length
+      ) {
+        bundleLogger.warn(
+          "Sampled chunks are missing, checking every chunk of the bundle...",
+          { missingChunkIndexes }
+        );
+        missingChunkIndexes = await findMissingChunkIndexes({
+          uploadNode,
+          txStartOffset,
+          byteRanges,
+          chunkIndexes: allChunkIndexes,
+        });
+      }
+
+      if (missingChunkIndexes.length === 0) {
+        bundleLogger.info("All checked chunks are available.", {
+          checkedChunkCount: checkedChunkIndexes.length,
+          chunkCount: byteRanges.length,
+        });
+        continue;
+      }
+
+      MetricRegistry.missingBundleChunks.inc(missingChunkIndexes.length);
+      bundleLogger.warn("Reseeding missing chunks...", {
+        missingChunkIndexes,
+        chunkCount: byteRanges.length,
+      });
+      await arweave.reseedChunks({
+        bundleTx,
+        chunkIndexes: missingChunkIndexes,
+        getPayloadStream: (byteRange) =>
+          getBundlePayload(objectStore, planId, byteRange),
+      });
+      MetricRegistry.reseededBundleChunks.inc(missingChunkIndexes.length);
+      bundleLogger.info("Reseeded missing chunks.", {
+        reseededChunkCount: missingChunkIndexes.length,
+      });
+    } catch (error) {
+      bundleLogger.error("Failed to verify bundle chunks!", { error });
+    }
+  }
+}
+
+export async function handler(eventPayload?: unknown) {
+  defaultLogger.info("Verify chunks job triggered with event payload:", {
+    eventPayload,
+  });
+  return verifyChunksHandler();
+}
@@ -18,17 +18,19 @@ import pLimit from "p-limit";
 import winston from "winston";
 
 import { defaultArchitecture } from "../arch/architecture";
-import { ArweaveGateway, Gateway } from "../arch/arweaveGateway";
 import { CacheService } from "../arch/cacheServiceTypes";
 import { Database } from "../arch/db/database";
 import { PostgresDatabase } from "../arch/db/postgres";
 import { getElasticacheService } from "../arch/elasticacheService";
+import {
+  GatewayConsensus,
+  VerificationGateway,
+} from "../arch/gatewayConsensus";
 import { ObjectStore } from "../arch/objectStore";
 import { BundleHeaderInfo } from "../bundles/assembleBundleHeader";
 import {
   batchingSize,
   dropBundleTxThresholdNumberOfBlocks,
-  gatewayUrl,
   txPermanentThreshold,
 } from "../constants";
 import defaultLogger from "../logger";
@@ -43,13 +45,18 @@ import { DataItemsStillPendingWarning } from "../utils/errors";
 import {
   getBundleHeaderInfo,
   getBundleTx,
-  getS3ObjectStore,
+  getObjectStore,
 } from "../utils/objectStoreUtils";
+import {
+  permanentWebhookNotifications,
+  rePackedWebhookNotifications,
+} from "../utils/webhooks";
+import { enqueueWebhookDeliveries } from "./webhookDelivery";
 
 interface VerifyBundleJobArch {
   database?: Database;
   objectStore?: ObjectStore;
-  arweaveGateway?: Gateway;
+  arweaveGateway?: VerificationGateway;
   logger?: winston.Logger;
   batchSize?: number;
   cacheService?: CacheService;
@@ -57,7 +64,7 @@ interface VerifyBundleJobArch {
 
 async function hasBundleBeenPostedLongerThanTheDroppedThreshold(
   objectStore: ObjectStore,
-  arweaveGateway: Gateway,
+  arweaveGateway: VerificationGateway,
   bundleId: TransactionId,
   transactionByteCount?: ByteCount
 ): Promise<boolean> {
@@ -79,10 +86,46 @@ async function hasBundleBeenPostedLongerThanTheDroppedThreshold(
   );
 }
 
+/**
+ * Checks GraphQL indexing of the first and last data items of the bundle header as a sample of the
+ * bundle's data items. Indexing is reported as incomplete when the gateways can't be checked
+ */
+async function isBundleIndexedOnGQL(
+  arweaveGateway: VerificationGateway,
+  bundleId: TransactionId,
+  bundleHeaderInfo: BundleHeaderInfo,
+  logger: winston.Logger
+): Promise<boolean> {
+  const { dataItems } = bundleHeaderInfo;
+  if (dataItems.length === 0) {
+    return false;
+  }
+  const sampledDataItemIds = [
+    ...new Set([dataItems[0].id, dataItems[dataItems.length - 1].id]),
+  ];
+
+  try {
+    const indexedDataItemIds =
+      await arweaveGateway.getDataItemIdsIndexedInBundle(
+        bundleId,
+        sampledDataItemIds
+      );
+    return sampledDataItemIds.every((dataItemId) =>
+      indexedDataItemIds.includes(dataItemId)
+    );
+  } catch (error) {
+    logger.warn("Unable to check GraphQL indexing of bundle data items.", {
+      bundleId,
+      error: error instanceof Error ? error.message : error,
+    });
+    return false;
+  }
+}
+
 export async function verifyBundleHandler({
   database = new PostgresDatabase(),
-  objectStore = getS3ObjectStore(),
-  arweaveGateway = new ArweaveGateway({ endpoint: gatewayUrl }),
+  objectStore = getObjectStore(database),
+  arweaveGateway = new GatewayConsensus(),
   logger = defaultLogger.child({ job: "verify-bundle-job" }),
   batchSize = batchingSize,
   cacheService = getElasticacheService(),
@@ -124,7 +167,18 @@ export async function verifyBundleHandler({
             planId,
             bundleId,
           });
+          const droppedDataItems = await database.getPlannedDataItemsForPlanId(
+            planId
+          );
           await database.updateSeededBundleToDropped(planId, bundleId);
+          await enqueueWebhookDeliveries({
+            database,
+            notifications: rePackedWebhookNotifications(
+              droppedDataItems,
+              bundleId
+            ),
+            logger,
+          });
         }
       } else {
         // We found the bundle transaction from the arweaveGateway
@@ -201,7 +255,12 @@ export async function verifyBundleHandler({
             continue;
           }
 
-          const isLastDataItemIndexedOnGQL = false; // TBD: Depends on which gateway
+          const isLastDataItemIndexedOnGQL = await isBundleIndexedOnGQL(
+            arweaveGateway,
+            bundleId,
+            bundleHeaderInfo,
+            logger
+          );
           logger.info("Updating bundle as permanent", {
             planId,
             block_height,
@@ -228,7 +287,10 @@ export async function handler(eventPayload?: unknown) {
     `Verify bundle job has been triggered with event payload:`,
     eventPayload
   );
-  return verifyBundleHandler(defaultArchitecture);
+  return verifyBundleHandler({
+    ...defaultArchitecture,
+    arweaveGateway: new GatewayConsensus(),
+  });
 }
 
 async function checkHeaderForItemsThenUpdateDataItemBatch(
@@ -274,6 +336,14 @@ async function checkHeaderForItemsThenUpdateDataItemBatch(
     blockHeight: block_height,
     bundleId,
   });
+  await enqueueWebhookDeliveries({
+    database,
+    notifications: permanentWebhookNotifications(dataItemsInHeader, {
+      bundleId,
+      blockHeight: block_height,
+    }),
+    logger,
+  });
   const numRemovedItems =
     dataItemIdsInHeader.length > 0
       ? await removeDataItemsFromCache(
@@ -332,5 +402,13 @@ async function checkHeaderForItemsThenUpdateDataItemBatch(
     });
 
     await database.updateDataItemsToBeRePacked(notFoundDataItemIds, bundleId);
+    await enqueueWebhookDeliveries({
+      database,
+      notifications: rePackedWebhookNotifications(
+        dataItemsNotInHeader,
+        bundleId
+      ),
+      logger,
+    });
   }
 }
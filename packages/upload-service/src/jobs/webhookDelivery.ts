@@ -0,0 +1,194 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { AxiosInstance } from "axios";
+import winston from "winston";
+
+import { createAxiosInstance } from "../arch/axiosClient";
+import { Database } from "../arch/db/database";
+import { EnqueuedWebhookDelivery, enqueueBatch } from "../arch/queues";
+import {
+  jobLabels,
+  webhookDeliveryTimeoutMs,
+  webhookPublicKeyHeader,
+  webhookSignatureHeader,
+} from "../constants";
+import defaultLogger from "../logger";
+import { JWKInterface } from "../types/jwkTypes";
+import { getPublicKeyFromJwk } from "../utils/common";
+import { NonPublicWebhookHost } from "../utils/errors";
+import { getArweaveWallet as defaultGetArweaveWallet } from "../utils/getArweaveWallet";
+import {
+  WebhookHostLookup,
+  WebhookNotification,
+  resolvePublicWebhookAddress,
+  signWebhookBody,
+} from "../utils/webhooks";
+
+interface WebhookDeliveryJobArch {
+  database: Database;
+  getArweaveWallet?: () => Promise<JWKInterface>;
+  logger?: winston.Logger;
+  axios?: AxiosInstance;
+  lookup?: WebhookHostLookup;
+  /** Number of attempts made before this one */
+  attemptsMade: number;
+  maxAttempts: number;
+}
+
+// Retries are handled by the BullMQ job options
+const defaultWebhookAxios = createAxiosInstance({
+  retries: 0,
+  config: { timeout: webhookDeliveryTimeoutMs },
+});
+
+/**
+ * Enqueues a delivery for each notification whose data item or owner has a webhook. Deliveries
+ * that cannot be enqueued are recorded in the dead letter table, as the calling bundle job has
+ * already moved their data items and will not notify them again
+ */
+export async function enqueueWebhookDeliveries({
+  database,
+  notifications,
+  logger = defaultLogger,
+}: {
+  database: Database;
+  notifications: WebhookNotification[];
+  logger?: winston.Logger;
+}): Promise<void> {
+  if (notifications.length === 0) {
+    return;
+  }
+
+  const webhookUrls = await database.getWebhookUrlsForDataItems(
+    notifications.map(({ ownerPublicAddress, payload }) => ({
+      dataItemId: payload.dataItemId,
+      ownerPublicAddress,
+    }))
+  );
+
+  const deliveries: EnqueuedWebhookDelivery[] = notifications
+    .filter(({ payload }) => webhookUrls[payload.dataItemId] !== undefined)
+    .map(({ payload }) => ({
+      webhookUrl: webhookUrls[payload.dataItemId],
+      payload,
+    }));
+
+  if (deliveries.length > 0) {
+    logger.debug("Enqueueing webhook deliveries...", {
+      deliveryCount: deliveries.length,
+    });
+    try {
+      await enqueueBatch(jobLabels.webhookDelivery, deliveries);
+    } catch (error) {
+      const failedReason =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error(
+        "Failed to enqueue webhook deliveries! Recording them as dead letters.",
+        {
+          failedReason,
+          dataItemIds: deliveries.map(({ payload }) => payload.dataItemId),
+        }
+      );
+      for (const { webhookUrl, payload } of deliveries) {
+        await database.insertWebhookDeadLetter({
+          webhookUrl,
+          payload,
+          failedReason,
+          attemptsMade: 0,
+        });
+      }
+    }
+  }
+
+  try {
+    // Per upload webhooks are no longer needed once their data item has reached a final state
+    await database.deleteDataItemWebhooks(
+      notifications
+        .filter(({ payload }) => payload.event !== "requeued")
+        .map(({ payload }) => payload.dataItemId)
+    );
+  } catch (error) {
+    // Every delivery is already enqueued or recorded, so a left over webhook only costs a row
+    logger.error("Failed to delete data item webhooks!", {
+      error,
+      dataItemIds: notifications.map(({ payload }) => payload.dataItemId),
+    });
+  }
+}
+
+export async function webhookDeliveryHandler(
+  { webhookUrl, payload }: EnqueuedWebhookDelivery,
+  {
+    database,
+    getArweaveWallet = defaultGetArweaveWallet,
+    logger = defaultLogger.child({ job: "webhook-delivery-job" }),
+    axios = defaultWebhookAxios,
+    lookup,
+    attemptsMade,
+    maxAttempts,
+  }: WebhookDeliveryJobArch
+): Promise<void> {
+  logger = logger.child({
+    webhookUrl,
+    dataItemId: payload.dataItemId,
+    event: payload.event,
+  });
+
+  const body = JSON.stringify(payload);
+  const jwk = await getArweaveWallet();
+
+  try {
+    const address = await resolvePublicWebhookAddress(webhookUrl, lookup);
+    await axios.post(webhookUrl, body, {
+      headers: {
+        "Content-Type": "application/json",
+        [webhookSignatureHeader]: await signWebhookBody(body, jwk),
+        [webhookPublicKeyHeader]: getPublicKeyFromJwk(jwk),
+      },
+      // Connect to the checked address, and don't follow redirects to hosts that were not checked
+      lookup: async () => address,
+      maxRedirects: 0,
+    });
+    logger.debug("Delivered webhook.");
+  } catch (error) {
+    const failedReason =
+      error instanceof Error ? error.message : "Unknown error";
+
+    // Non public hosts are not retried
+    if (
+      error instanceof NonPublicWebhookHost ||
+      attemptsMade + 1 >= maxAttempts
+    ) {
+      logger.error("Webhook delivery has failed permanently!", {
+        failedReason,
+      });
+      await database.insertWebhookDeadLetter({
+        webhookUrl,
+        payload,
+        failedReason,
+        attemptsMade: attemptsMade + 1,
+      });
+      return;
+    }
+
+    logger.warn("Webhook delivery failed, will retry.", {
+      failedReason,
+      attemptsMade,
+    });
+    throw error;
+  }
+}
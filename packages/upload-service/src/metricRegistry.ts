@@ -117,6 +117,27 @@ export class MetricRegistry {
     help: "Count of failed API calls to the USD/AR endpoint of the payment service",
   });
 
+  public static bundleRePriced = MetricRegistry.createCounter({
+    name: "bundle_re_priced_count",
+    help: "Count of bundles re-signed with the network reward before post because their reward was stale",
+  });
+
+  public static verificationGatewayDisagreement = MetricRegistry.createCounter({
+    name: "verification_gateway_disagreement_count",
+    help: "Count of verification gateway answers that disagreed with the quorum, by gateway and check",
+    labelNames: ["gateway", "check"],
+  });
+
+  public static missingBundleChunks = MetricRegistry.createCounter({
+    name: "missing_bundle_chunks_count",
+    help: "Count of seeded bundle chunks found missing on the upload node",
+  });
+
+  public static reseededBundleChunks = MetricRegistry.createCounter({
+    name: "reseeded_bundle_chunks_count",
+    help: "Count of missing bundle chunks reseeded to the upload node",
+  });
+
   public static localCacheDataItemHit = MetricRegistry.createCounter({
     name: "local_cache_data_item_hit_count",
     help: "Count of data items that were found already in the local cache",
@@ -205,6 +226,37 @@ export class MetricRegistry {
     },
   });
 
+  public static walletReserveBalance = MetricRegistry.createGauge({
+    name: "wallet_reserve_balance_winston",
+    help: "Summed balance of the active bundler wallets, in winston",
+  });
+
+  public static walletReservePendingRewards = MetricRegistry.createGauge({
+    name: "wallet_reserve_pending_rewards_winston",
+    help: "Rewards of bundles signed but not yet posted, in winston",
+  });
+
+  public static walletReserveBurnRate = MetricRegistry.createGauge({
+    name: "wallet_reserve_burn_rate_winston_per_hour",
+    help: "Winston spent per hour on bundle rewards over the forecast window",
+  });
+
+  public static walletReserveHoursRemaining = MetricRegistry.createGauge({
+    name: "wallet_reserve_hours_remaining",
+    help: "Forecast hours until the bundler wallets run dry, -1 when nothing was spent within the forecast window",
+  });
+
+  public static walletReserveNonPriorityLanesPaused =
+    MetricRegistry.createGauge({
+      name: "wallet_reserve_non_priority_lanes_paused",
+      help: "1 when planning of non-priority bundle lanes is paused to conserve the wallet reserve, 0 otherwise",
+    });
+
+  public static walletReserveForecastStale = MetricRegistry.createGauge({
+    name: "wallet_reserve_forecast_stale",
+    help: "1 when no wallet reserve forecast was stored recently and the other wallet reserve gauges are reset, 0 otherwise",
+  });
+
   public static cacheQuarantineSuccess = MetricRegistry.createCounter({
     name: "cache_quarantine_success_count",
     help: "Number of times a data item was successfully quarantined from the cache successfully",
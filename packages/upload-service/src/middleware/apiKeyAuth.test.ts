@@ -0,0 +1,85 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { expect } from "chai";
+
+import { AuthenticatedApiKey, PaymentService } from "../arch/payment";
+import logger from "../logger";
+import { KoaContext } from "../server";
+import { SignatureConfig } from "../types/types";
+import { apiKeyAuth } from "./apiKeyAuth";
+
+describe("apiKeyAuth", () => {
+  function stubContext(
+    headers: Record<string, string>,
+    authenticatedApiKey: AuthenticatedApiKey
+  ): KoaContext {
+    return {
+      request: { headers },
+      state: {
+        logger,
+        paymentService: {
+          authenticateApiKey: async () => authenticatedApiKey,
+        } as unknown as PaymentService,
+      },
+      set: () => undefined,
+    } as unknown as KoaContext;
+  }
+
+  const solanaApiKey: AuthenticatedApiKey = {
+    apiKeyId: "stubApiKeyId",
+    address: "stubSolanaAddress",
+    addressType: "solana",
+    scopes: ["upload"],
+  };
+
+  it("continues unauthenticated without an x-api-key header", async () => {
+    const ctx = stubContext({}, solanaApiKey);
+    let calledNext = false;
+
+    await apiKeyAuth("upload")(ctx, async () => {
+      calledNext = true;
+    });
+
+    expect(calledNext).to.be.true;
+    expect(ctx.state.walletAddress).to.be.undefined;
+  });
+
+  it("acts as the key's account with the signature type of its address type", async () => {
+    const ctx = stubContext({ "x-api-key": "stub.key" }, solanaApiKey);
+
+    await apiKeyAuth("upload")(ctx, async () => undefined);
+
+    expect(ctx.state.walletAddress).to.equal("stubSolanaAddress");
+    expect(ctx.state.signatureType).to.equal(SignatureConfig.SOLANA);
+  });
+
+  it("responds 403 for accounts whose address type cannot pay for uploads", async () => {
+    const ctx = stubContext(
+      { "x-api-key": "stub.key" },
+      { ...solanaApiKey, addressType: "matic" }
+    );
+    let calledNext = false;
+
+    await apiKeyAuth("upload")(ctx, async () => {
+      calledNext = true;
+    });
+
+    expect(calledNext).to.be.false;
+    expect(ctx.status).to.equal(403);
+    expect(ctx.state.walletAddress).to.be.undefined;
+  });
+});
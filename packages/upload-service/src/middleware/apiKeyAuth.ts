@@ -0,0 +1,81 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { Next } from "koa";
+
+import { ApiKeyScope } from "../arch/payment";
+import { signatureTypeInfo } from "../constants";
+import { KoaContext } from "../server";
+import { ApiKeyRejected } from "../utils/errors";
+
+/** Uploads are charged to the account type matching the signature type name, see reserveBalanceForData */
+function signatureTypeForAddressType(addressType: string): number | undefined {
+  const signatureType = Object.entries(signatureTypeInfo).find(
+    ([, { name }]) => name === addressType
+  )?.[0];
+  return signatureType === undefined ? undefined : +signatureType;
+}
+
+export function respondWithApiKeyError(ctx: KoaContext, error: unknown) {
+  if (error instanceof ApiKeyRejected) {
+    ctx.status = error.status;
+    if (error.status === 429) {
+      ctx.set("Retry-After", "60");
+    }
+    ctx.body = error.message;
+  } else {
+    ctx.state.logger.error("Failed to authenticate API key!", { error });
+    ctx.status = 503;
+    ctx.body = "Payment service unavailable";
+  }
+}
+
+/**
+ * Authenticates the x-api-key header for the scope with the payment service and acts as the key's
+ * account, the way verifySignature attaches a signer. Requests without the header continue
+ * unauthenticated
+ */
+export function apiKeyAuth(scope: ApiKeyScope) {
+  return async function (ctx: KoaContext, next: Next) {
+    const apiKey = ctx.request.headers["x-api-key"];
+    if (typeof apiKey !== "string") {
+      return next();
+    }
+
+    try {
+      const authenticatedApiKey =
+        await ctx.state.paymentService.authenticateApiKey({ apiKey, scope });
+      const signatureType = signatureTypeForAddressType(
+        authenticatedApiKey.addressType
+      );
+      if (signatureType === undefined) {
+        throw new ApiKeyRejected(
+          403,
+          `API keys of ${authenticatedApiKey.addressType} accounts cannot be used for uploads`
+        );
+      }
+
+      ctx.state.apiKeyId = authenticatedApiKey.apiKeyId;
+      ctx.state.walletAddress = authenticatedApiKey.address;
+      ctx.state.signatureType = signatureType;
+    } catch (error) {
+      respondWithApiKeyError(ctx, error);
+      return;
+    }
+
+    return next();
+  };
+}
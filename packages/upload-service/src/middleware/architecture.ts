@@ -32,6 +32,7 @@ export async function architectureMiddleware(
   ctx.state.x402Service = arch.x402Service;
   ctx.state.getArweaveWallet = arch.getArweaveWallet;
   ctx.state.getRawDataItemWallet = arch.getRawDataItemWallet;
+  ctx.state.getBundlerWalletRegistry = arch.getBundlerWalletRegistry;
   ctx.state.arweaveGateway = arch.arweaveGateway;
   return next();
 }
@@ -17,3 +17,6 @@
 export * from "./logger";
 export * from "./architecture";
 export * from "./request";
+export * from "./verifySignature";
+export * from "./adminAuth";
+export * from "./apiKeyAuth";
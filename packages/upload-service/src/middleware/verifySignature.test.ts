@@ -0,0 +1,275 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import {
+  SERVICE_NAMES,
+  authenticateSignedRequest,
+  createRequestNonce,
+  verifyRequestSignature,
+} from "@ar-io-bundler/shared";
+import { EthereumSigner, SolanaSigner, createData } from "@dha-team/arbundles";
+import Arweave from "arweave";
+import base58 from "bs58";
+import { expect } from "chai";
+import { randomUUID } from "crypto";
+import { Wallet } from "ethers";
+import { readFileSync } from "fs";
+
+import { testArweaveJWK } from "../../tests/test_helpers";
+import { CacheService } from "../arch/cacheServiceTypes";
+import { SignatureConfig } from "../types/types";
+import {
+  jwkToPublicArweaveAddress,
+  ownerToNormalizedB64Address,
+  toB64Url,
+} from "../utils/base64";
+import { cacheServiceNonceStore } from "./verifySignature";
+
+describe("verifyRequestSignature", () => {
+  const nonce = "stub nonce";
+
+  it("returns the signer addresses for a valid arweave signature", async () => {
+    const signature = toB64Url(
+      Buffer.from(await Arweave.crypto.sign(testArweaveJWK, Buffer.from(nonce)))
+    );
+
+    const signer = await verifyRequestSignature({
+      signatureType: SignatureConfig.ARWEAVE,
+      publicKey: testArweaveJWK.n,
+      signature,
+      nonce,
+    });
+
+    expect(signer).to.deep.equal({
+      nativeAddress: jwkToPublicArweaveAddress(testArweaveJWK),
+      ownerPublicAddress: jwkToPublicArweaveAddress(testArweaveJWK),
+    });
+  });
+
+  it("returns the owner address of the wallet's data items for a valid ethereum signature", async () => {
+    const wallet = Wallet.createRandom();
+    const signature = toB64Url(
+      Buffer.from((await wallet.signMessage(nonce)).slice(2), "hex")
+    );
+
+    const signer = new EthereumSigner(wallet.privateKey);
+    const dataItem = createData("data", signer);
+    await dataItem.sign(signer);
+
+    expect(
+      await verifyRequestSignature({
+        signatureType: SignatureConfig.ETHEREUM,
+        publicKey: wallet.signingKey.publicKey,
+        signature,
+        nonce,
+      })
+    ).to.deep.equal({
+      nativeAddress: wallet.address,
+      ownerPublicAddress: ownerToNormalizedB64Address(dataItem.owner),
+    });
+  });
+
+  it("returns the signer addresses for a valid solana signature", async () => {
+    const signer = new SolanaSigner(
+      base58.encode(
+        JSON.parse(
+          readFileSync(
+            "tests/stubFiles/testSolanaWallet.5aUnUVi1HcUK3uuSV92otUEG5MiWYmUuMfpxmPMf96y4.json",
+            { encoding: "utf-8" }
+          )
+        )
+      )
+    );
+    const publicKey = toB64Url(signer.publicKey);
+
+    expect(
+      await verifyRequestSignature({
+        signatureType: SignatureConfig.SOLANA,
+        publicKey,
+        signature: toB64Url(Buffer.from(await signer.sign(Buffer.from(nonce)))),
+        nonce,
+      })
+    ).to.deep.equal({
+      nativeAddress: "5aUnUVi1HcUK3uuSV92otUEG5MiWYmUuMfpxmPMf96y4",
+      ownerPublicAddress: ownerToNormalizedB64Address(publicKey),
+    });
+  });
+
+  it("returns false when the nonce does not match the signature", async () => {
+    const wallet = Wallet.createRandom();
+    const signature = toB64Url(
+      Buffer.from((await wallet.signMessage(nonce)).slice(2), "hex")
+    );
+
+    expect(
+      await verifyRequestSignature({
+        signatureType: SignatureConfig.ETHEREUM,
+        publicKey: wallet.signingKey.publicKey,
+        signature,
+        nonce: "another nonce",
+      })
+    ).to.be.false;
+  });
+
+  it("returns false for unsupported signature types", async () => {
+    expect(
+      await verifyRequestSignature({
+        signatureType: 99,
+        publicKey: "stub public key",
+        signature: "stub signature",
+        nonce,
+      })
+    ).to.be.false;
+  });
+});
+
+describe("cacheServiceNonceStore", () => {
+  const claimedKeys = new Set<string>();
+  const cacheService = {
+    set: async (key: string) => {
+      if (claimedKeys.has(key)) {
+        return null;
+      }
+      claimedKeys.add(key);
+      return "OK";
+    },
+  } as unknown as CacheService;
+
+  async function signedHeaders(nonce: string) {
+    return {
+      "x-signature": toB64Url(
+        Buffer.from(
+          await Arweave.crypto.sign(testArweaveJWK, Buffer.from(nonce))
+        )
+      ),
+      "x-public-key": testArweaveJWK.n,
+      "x-nonce": nonce,
+    };
+  }
+
+  it("rejects a replayed signed request", async () => {
+    const nonce = createRequestNonce(SERVICE_NAMES.UPLOAD);
+    const headers = await signedHeaders(nonce);
+    const nonceStore = cacheServiceNonceStore(cacheService);
+    const service = SERVICE_NAMES.UPLOAD;
+
+    expect(
+      await authenticateSignedRequest({ headers, service, nonceStore })
+    ).to.deep.include({
+      isAuthenticated: true,
+      nativeAddress: jwkToPublicArweaveAddress(testArweaveJWK),
+      signatureType: SignatureConfig.ARWEAVE,
+      nonce,
+    });
+    expect(
+      await authenticateSignedRequest({ headers, service, nonceStore })
+    ).to.deep.equal({ isAuthenticated: false, reason: "replayed_nonce" });
+  });
+
+  it("rejects a signed request with a nonce created for another service", async () => {
+    const headers = await signedHeaders(
+      createRequestNonce(SERVICE_NAMES.PAYMENT)
+    );
+
+    expect(
+      await authenticateSignedRequest({
+        headers,
+        service: SERVICE_NAMES.UPLOAD,
+        nonceStore: cacheServiceNonceStore(cacheService),
+      })
+    ).to.deep.equal({ isAuthenticated: false, reason: "invalid_nonce" });
+  });
+
+  it("rejects a signed request with a nonce without a timestamp unless legacy nonces are accepted", async () => {
+    const headers = await signedHeaders("stub nonce");
+
+    expect(
+      await authenticateSignedRequest({
+        headers,
+        service: SERVICE_NAMES.UPLOAD,
+        nonceStore: cacheServiceNonceStore(cacheService),
+      })
+    ).to.deep.equal({ isAuthenticated: false, reason: "invalid_nonce" });
+  });
+
+  it("claims a legacy nonce for the nonce time to live when legacy nonces are accepted", async () => {
+    const nonce = randomUUID();
+    const claimedTtls: number[] = [];
+    const headers = await signedHeaders(nonce);
+
+    expect(
+      await authenticateSignedRequest({
+        headers,
+        service: SERVICE_NAMES.UPLOAD,
+        nonceStore: {
+          claimRequestNonce: async ({ ttlMs }) => {
+            claimedTtls.push(ttlMs);
+            return true;
+          },
+        },
+        nonceTtlMs: 60_000,
+        acceptLegacyNonces: true,
+      })
+    ).to.deep.include({
+      isAuthenticated: true,
+      nonce,
+      nonceId: nonce,
+      isLegacyNonce: true,
+    });
+    expect(claimedTtls).to.deep.equal([60_000]);
+  });
+
+  it("rejects a signed request with a nonce outside of its time to live", async () => {
+    const now = Date.now();
+    const headers = await signedHeaders(
+      createRequestNonce(SERVICE_NAMES.UPLOAD, now - 60_000)
+    );
+
+    expect(
+      await authenticateSignedRequest({
+        headers,
+        service: SERVICE_NAMES.UPLOAD,
+        nonceStore: cacheServiceNonceStore(cacheService),
+        nonceTtlMs: 60_000,
+        now,
+      })
+    ).to.deep.equal({ isAuthenticated: false, reason: "expired_nonce" });
+  });
+
+  it("claims the nonce only until it expires", async () => {
+    const now = Date.now();
+    const claimedTtls: number[] = [];
+    const headers = await signedHeaders(
+      createRequestNonce(SERVICE_NAMES.UPLOAD, now - 45_000)
+    );
+
+    expect(
+      await authenticateSignedRequest({
+        headers,
+        service: SERVICE_NAMES.UPLOAD,
+        nonceStore: {
+          claimRequestNonce: async ({ ttlMs }) => {
+            claimedTtls.push(ttlMs);
+            return true;
+          },
+        },
+        nonceTtlMs: 60_000,
+        now,
+      })
+    ).to.deep.include({ isAuthenticated: true });
+    expect(claimedTtls).to.deep.equal([15_000]);
+  });
+});
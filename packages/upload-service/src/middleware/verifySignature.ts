@@ -0,0 +1,79 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import {
+  RequestNonceStore,
+  SERVICE_NAMES,
+  authenticateSignedRequest,
+} from "@ar-io-bundler/shared";
+import { Next } from "koa";
+
+import { CacheService } from "../arch/cacheServiceTypes";
+import { acceptLegacyRequestNonces, requestNonceTtlMs } from "../constants";
+import { KoaContext } from "../server";
+
+/** Claims request nonces in the cache, which expires them after their time to live */
+export function cacheServiceNonceStore(
+  cacheService: CacheService
+): RequestNonceStore {
+  return {
+    claimRequestNonce: async ({ signerAddress, nonce, ttlMs }) =>
+      (await cacheService.set(
+        `request-nonce:${signerAddress}:${nonce}`,
+        1,
+        "PX",
+        ttlMs,
+        "NX"
+      )) === "OK",
+  };
+}
+
+/**
+ * Attaches the signer's wallet and owner addresses to the state when the request carries a valid
+ * signature with an unused nonce. Routes requiring a signed request are responsible for rejecting
+ * unsigned ones
+ */
+export async function verifySignature(ctx: KoaContext, next: Next) {
+  const logger = ctx.state.logger.child({
+    publicKey: ctx.request.headers["x-public-key"],
+    nonce: ctx.request.headers["x-nonce"],
+  });
+
+  try {
+    const authentication = await authenticateSignedRequest({
+      headers: ctx.request.headers,
+      service: SERVICE_NAMES.UPLOAD,
+      nonceStore: cacheServiceNonceStore(ctx.state.cacheService),
+      nonceTtlMs: requestNonceTtlMs,
+      acceptLegacyNonces: acceptLegacyRequestNonces,
+    });
+
+    if (!authentication.isAuthenticated) {
+      logger.debug("Request is not authenticated.", {
+        reason: authentication.reason,
+      });
+      return next();
+    }
+
+    ctx.state.walletAddress = authentication.nativeAddress;
+    ctx.state.ownerPublicAddress = authentication.ownerPublicAddress;
+    ctx.state.signatureType = authentication.signatureType;
+    ctx.state.nonce = authentication.nonce;
+  } catch (error) {
+    logger.error("Failed to verify request signature!", { error });
+  }
+  return next();
+}
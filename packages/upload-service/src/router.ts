@@ -19,6 +19,9 @@ import Router from "koa-router";
 import * as promClient from "prom-client";
 
 import { MetricRegistry } from "./metricRegistry";
+import { apiKeyAuth, requireAdminAuth, verifySignature } from "./middleware";
+import { getAccountUploads } from "./routes/accountUploads";
+import { getAdminBundle, getAdminBundles } from "./routes/adminBundles";
 import { dataItemRoute } from "./routes/dataItemPost";
 import { rootResponse } from "./routes/info";
 import { rawDataUploadRoute } from "./routes/rawDataPost";
@@ -26,17 +29,37 @@ import {
   createMultiPartUpload,
   finalizeMultipartUploadWithHttpRequest,
   getMultipartUpload,
+  getMultipartUploadMissingRanges,
   getMultipartUploadStatus,
   postDataItemChunk,
 } from "./routes/multiPartUploads";
 import { offsetsHandler } from "./routes/offsets";
-import { statusHandler } from "./routes/status";
+import { receiptKeysHandler, verifyReceiptHandler } from "./routes/receipts";
+import { batchStatusHandler, statusHandler } from "./routes/status";
 import { swaggerDocs, swaggerDocsJSON } from "./routes/swagger";
+import {
+  tusCreateUpload,
+  tusGetUploadOffset,
+  tusOptions,
+  tusPatchUpload,
+  tusResumable,
+  tusTerminateUpload,
+} from "./routes/tus";
+import {
+  deleteWebhookRegistration,
+  getWebhookRegistration,
+  putWebhookRegistration,
+} from "./routes/webhooks";
 import {
   x402DataItemPricing,
   x402RawDataPricing,
 } from "./routes/x402Pricing";
 import { KoaContext } from "./server";
+import {
+  getRecentWalletReserveForecast,
+  resetWalletReserveGauges,
+  setWalletReserveGauges,
+} from "./utils/walletReserve";
 
 const metricsRegistry = MetricRegistry.getInstance().getRegistry();
 promClient.collectDefaultMetrics({ register: metricsRegistry });
@@ -47,12 +70,20 @@ const router = new Router() as any;
 const serveRoutesAndV1 = (path: string[]) =>
   path.flatMap((p) => [p, `/v1${p}`]);
 
+// Batch status must be registered before the "/tx/:token" upload route would match it
+router.post(serveRoutesAndV1(["/tx/status"]), batchStatusHandler);
+
 // Raw data post routes
 router.post(serveRoutesAndV1(["/tx", "/tx/:token"]), dataItemRoute);
 
 // x402 upload routes
 router.post(serveRoutesAndV1(["/x402/upload/signed", "/x402/data-item/signed"]), dataItemRoute);
-router.post(serveRoutesAndV1(["/x402/upload/unsigned"]), rawDataUploadRoute);
+router.post(
+  serveRoutesAndV1(["/x402/upload/unsigned"]),
+  apiKeyAuth("upload"),
+  verifySignature,
+  rawDataUploadRoute
+);
 
 // x402 Pricing Routes
 router.get(
@@ -84,6 +115,46 @@ router.get("/account/balance/:rest", (ctx: KoaContext, next: Next) => {
 router.get(serveRoutesAndV1(["/tx/:id/status"]), statusHandler);
 router.get(serveRoutesAndV1(["/tx/:id/offsets"]), offsetsHandler);
 
+// Receipt routes
+router.post(serveRoutesAndV1(["/receipts/verify"]), verifyReceiptHandler);
+router.get(serveRoutesAndV1(["/receipts/keys"]), receiptKeysHandler);
+
+// Webhook routes
+router.get(
+  serveRoutesAndV1(["/account/webhook"]),
+  verifySignature,
+  getWebhookRegistration
+);
+router.put(
+  serveRoutesAndV1(["/account/webhook"]),
+  verifySignature,
+  putWebhookRegistration
+);
+router.delete(
+  serveRoutesAndV1(["/account/webhook"]),
+  verifySignature,
+  deleteWebhookRegistration
+);
+
+// Account upload history routes
+router.get(
+  serveRoutesAndV1(["/account/uploads"]),
+  verifySignature,
+  getAccountUploads
+);
+
+// Admin bundle explorer routes
+router.get(
+  serveRoutesAndV1(["/admin/bundles"]),
+  requireAdminAuth,
+  getAdminBundles
+);
+router.get(
+  serveRoutesAndV1(["/admin/bundles/:bundleIdOrPlanId"]),
+  requireAdminAuth,
+  getAdminBundle
+);
+
 // Multi-part upload routes
 router.get(serveRoutesAndV1(["/chunks/:token/-1/-1"]), createMultiPartUpload);
 router.get(
@@ -94,6 +165,10 @@ router.get(
   serveRoutesAndV1(["/chunks/:token/:uploadId/status"]),
   getMultipartUploadStatus
 );
+router.get(
+  serveRoutesAndV1(["/chunks/:token/:uploadId/missing"]),
+  getMultipartUploadMissingRanges
+);
 router.post(
   serveRoutesAndV1(["/chunks/:token/:uploadId/-1"]),
   finalizeMultipartUploadWithHttpRequest
@@ -110,11 +185,44 @@ router.post(
   postDataItemChunk
 );
 
+// tus resumable upload routes, backed by the multi-part upload routes above
+router.options(
+  serveRoutesAndV1(["/tus/:token", "/tus/:token/:uploadId"]),
+  tusResumable,
+  tusOptions
+);
+router.post(serveRoutesAndV1(["/tus/:token"]), tusResumable, tusCreateUpload);
+router.head(
+  serveRoutesAndV1(["/tus/:token/:uploadId"]),
+  tusResumable,
+  tusGetUploadOffset
+);
+router.patch(
+  serveRoutesAndV1(["/tus/:token/:uploadId"]),
+  tusResumable,
+  tusPatchUpload
+);
+router.delete(
+  serveRoutesAndV1(["/tus/:token/:uploadId"]),
+  tusResumable,
+  tusTerminateUpload
+);
+
 // info routes
 router.get(serveRoutesAndV1(["/", "/info"]), rootResponse);
 
 // Prometheus
 router.get("/bundler_metrics", async (ctx: KoaContext, next: Next) => {
+  // The wallet reserve is forecast by a worker, so report its latest stored forecast from here
+  const walletReserveForecast = await getRecentWalletReserveForecast(
+    ctx.state.database,
+    ctx.state.logger
+  );
+  if (walletReserveForecast) {
+    setWalletReserveGauges(walletReserveForecast);
+  } else {
+    resetWalletReserveGauges();
+  }
   ctx.body = await metricsRegistry.metrics();
   return next();
 });
@@ -0,0 +1,197 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { Next } from "koa";
+
+import { KoaContext } from "../server";
+import { DataItemStatus, DataItemUploadsCursor } from "../types/dbTypes";
+import { fromB64Url, toB64Url } from "../utils/base64";
+
+const defaultUploadsPageLimit = 100;
+const maxUploadsPageLimit = 1000;
+const dataItemStatuses: DataItemStatus[] = [
+  "new",
+  "pending",
+  "permanent",
+  "failed",
+];
+
+export function encodeUploadsCursor(cursor: DataItemUploadsCursor): string {
+  return toB64Url(Buffer.from(JSON.stringify(cursor)));
+}
+
+export function decodeUploadsCursor(
+  encodedCursor: string
+): DataItemUploadsCursor | undefined {
+  try {
+    const { uploadedDate, dataItemId } = JSON.parse(
+      fromB64Url(encodedCursor).toString()
+    );
+    if (
+      typeof uploadedDate !== "string" ||
+      !isCursorTimestamp(uploadedDate) ||
+      typeof dataItemId !== "string"
+    ) {
+      return undefined;
+    }
+    return { uploadedDate, dataItemId };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a cursor value is the text of a Postgres timestamp, e.g. "2023-11-14 22:13:20.123456",
+ * so that hand-made cursors are rejected instead of failing their timestamp cast in the query
+ */
+export function isCursorTimestamp(value: string): boolean {
+  const match =
+    /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?$/.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [year, month, day, hours, minutes, seconds] = match
+    .slice(1, 7)
+    .map(Number);
+  const date = new Date(
+    Date.UTC(year, month - 1, day, hours, minutes, seconds)
+  );
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day &&
+    date.getUTCHours() === hours &&
+    date.getUTCMinutes() === minutes &&
+    date.getUTCSeconds() === seconds
+  );
+}
+
+/** Parses a query date given as milliseconds since epoch or as an ISO 8601 string */
+export function parseQueryDate(value: string): Date | undefined {
+  const date = new Date(/^\d+$/.test(value) ? +value : value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+export function badRequest(ctx: KoaContext, message: string) {
+  ctx.status = 400;
+  ctx.body = message;
+}
+
+export async function getAccountUploads(ctx: KoaContext, next: Next) {
+  const { logger, database } = ctx.state;
+  const ownerPublicAddress = ctx.state.ownerPublicAddress as string | undefined;
+  const walletAddress = ctx.state.walletAddress as string | undefined;
+
+  if (!ownerPublicAddress) {
+    ctx.status = 401;
+    ctx.body =
+      "Listing uploads requires a signed request (x-signature, x-public-key and x-nonce headers)";
+    return next();
+  }
+
+  const { owner, cursor, status, from, to, limit } = ctx.query;
+  for (const [name, value] of Object.entries({
+    owner,
+    cursor,
+    status,
+    from,
+    to,
+    limit,
+  })) {
+    if (Array.isArray(value)) {
+      badRequest(ctx, `Query parameter '${name}' may only be given once`);
+      return next();
+    }
+  }
+
+  // Signers may only list their own uploads, by either their native or their normalized address
+  if (
+    typeof owner === "string" &&
+    owner !== ownerPublicAddress &&
+    owner !== walletAddress
+  ) {
+    ctx.status = 403;
+    ctx.body = "Signed requests may only list the signer's own uploads";
+    return next();
+  }
+
+  let decodedCursor: DataItemUploadsCursor | undefined;
+  if (typeof cursor === "string") {
+    decodedCursor = decodeUploadsCursor(cursor);
+    if (!decodedCursor) {
+      badRequest(ctx, "Invalid cursor");
+      return next();
+    }
+  }
+
+  let statuses: DataItemStatus[] | undefined;
+  if (typeof status === "string") {
+    statuses = status.split(",") as DataItemStatus[];
+    if (statuses.some((s) => !dataItemStatuses.includes(s))) {
+      badRequest(
+        ctx,
+        `Invalid status! Must be one or more of: ${dataItemStatuses.join(",")}`
+      );
+      return next();
+    }
+  }
+
+  const fromDate = typeof from === "string" ? parseQueryDate(from) : undefined;
+  const toDate = typeof to === "string" ? parseQueryDate(to) : undefined;
+  if ((from !== undefined && !fromDate) || (to !== undefined && !toDate)) {
+    badRequest(
+      ctx,
+      "Invalid date! Use milliseconds since epoch or an ISO 8601 date"
+    );
+    return next();
+  }
+
+  const pageLimit = limit === undefined ? defaultUploadsPageLimit : +limit;
+  if (
+    !Number.isInteger(pageLimit) ||
+    pageLimit < 1 ||
+    pageLimit > maxUploadsPageLimit
+  ) {
+    badRequest(
+      ctx,
+      `Invalid limit! Must be an integer from 1 to ${maxUploadsPageLimit}`
+    );
+    return next();
+  }
+
+  try {
+    const { uploads, nextCursor } = await database.getDataItemUploadsByOwner({
+      ownerPublicAddress,
+      limit: pageLimit,
+      cursor: decodedCursor,
+      statuses: statuses && [...new Set(statuses)],
+      fromDate,
+      toDate,
+    });
+    ctx.body = {
+      uploads,
+      nextCursor: nextCursor ? encodeUploadsCursor(nextCursor) : undefined,
+    };
+  } catch (error) {
+    logger.error("Error getting account uploads!", {
+      error,
+      ownerPublicAddress,
+    });
+    ctx.status = 503;
+    ctx.body = "Internal Server Error";
+  }
+  return next();
+}
@@ -0,0 +1,166 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { Next } from "koa";
+
+import { KoaContext } from "../server";
+import { BundleLifecyclesCursor, BundleState } from "../types/dbTypes";
+import { fromB64Url, toB64Url } from "../utils/base64";
+import {
+  badRequest,
+  isCursorTimestamp,
+  parseQueryDate,
+} from "./accountUploads";
+
+const defaultBundlesPageLimit = 100;
+const maxBundlesPageLimit = 1000;
+const bundleStates: BundleState[] = [
+  "planned",
+  "new",
+  "posted",
+  "seeded",
+  "permanent",
+  "failed",
+];
+
+export function encodeBundlesCursor(cursor: BundleLifecyclesCursor): string {
+  return toB64Url(Buffer.from(JSON.stringify(cursor)));
+}
+
+export function decodeBundlesCursor(
+  encodedCursor: string
+): BundleLifecyclesCursor | undefined {
+  try {
+    const { plannedDate, planId } = JSON.parse(
+      fromB64Url(encodedCursor).toString()
+    );
+    if (
+      typeof plannedDate !== "string" ||
+      !isCursorTimestamp(plannedDate) ||
+      typeof planId !== "string"
+    ) {
+      return undefined;
+    }
+    return { plannedDate, planId };
+  } catch {
+    return undefined;
+  }
+}
+
+export async function getAdminBundle(ctx: KoaContext, next: Next) {
+  const { logger, database } = ctx.state;
+  const { bundleIdOrPlanId } = ctx.params;
+
+  try {
+    const bundle = await database.getBundleLifecycle(bundleIdOrPlanId);
+    if (!bundle) {
+      ctx.status = 404;
+      ctx.body = "Bundle Not Found";
+      return next();
+    }
+
+    ctx.body = {
+      ...bundle,
+      dataItems: await database.getBundleDataItems(bundle.planId),
+    };
+  } catch (error) {
+    logger.error("Error getting bundle!", { error, bundleIdOrPlanId });
+    ctx.status = 503;
+    ctx.body = "Internal Server Error";
+  }
+  return next();
+}
+
+export async function getAdminBundles(ctx: KoaContext, next: Next) {
+  const { logger, database } = ctx.state;
+
+  const { cursor, state, from, to, limit } = ctx.query;
+  for (const [name, value] of Object.entries({
+    cursor,
+    state,
+    from,
+    to,
+    limit,
+  })) {
+    if (Array.isArray(value)) {
+      badRequest(ctx, `Query parameter '${name}' may only be given once`);
+      return next();
+    }
+  }
+
+  let decodedCursor: BundleLifecyclesCursor | undefined;
+  if (typeof cursor === "string") {
+    decodedCursor = decodeBundlesCursor(cursor);
+    if (!decodedCursor) {
+      badRequest(ctx, "Invalid cursor");
+      return next();
+    }
+  }
+
+  let states: BundleState[] | undefined;
+  if (typeof state === "string") {
+    states = state.split(",") as BundleState[];
+    if (states.some((s) => !bundleStates.includes(s))) {
+      badRequest(
+        ctx,
+        `Invalid state! Must be one or more of: ${bundleStates.join(",")}`
+      );
+      return next();
+    }
+  }
+
+  const fromDate = typeof from === "string" ? parseQueryDate(from) : undefined;
+  const toDate = typeof to === "string" ? parseQueryDate(to) : undefined;
+  if ((from !== undefined && !fromDate) || (to !== undefined && !toDate)) {
+    badRequest(
+      ctx,
+      "Invalid date! Use milliseconds since epoch or an ISO 8601 date"
+    );
+    return next();
+  }
+
+  const pageLimit = limit === undefined ? defaultBundlesPageLimit : +limit;
+  if (
+    !Number.isInteger(pageLimit) ||
+    pageLimit < 1 ||
+    pageLimit > maxBundlesPageLimit
+  ) {
+    badRequest(
+      ctx,
+      `Invalid limit! Must be an integer from 1 to ${maxBundlesPageLimit}`
+    );
+    return next();
+  }
+
+  try {
+    const { bundles, nextCursor } = await database.getBundleLifecycles({
+      limit: pageLimit,
+      cursor: decodedCursor,
+      states: states && [...new Set(states)],
+      fromDate,
+      toDate,
+    });
+    ctx.body = {
+      bundles,
+      nextCursor: nextCursor ? encodeBundlesCursor(nextCursor) : undefined,
+    };
+  } catch (error) {
+    logger.error("Error getting bundles!", { error });
+    ctx.status = 503;
+    ctx.body = "Internal Server Error";
+  }
+  return next();
+}
@@ -32,6 +32,7 @@ import {
 } from "../bundles/streamingDataItem";
 import { signatureTypeInfo } from "../constants";
 import {
+  acceptReceiptVersionHeader,
   anchorLength,
   approvalAmountTagName,
   approvalExpiresBySecondsTagName,
@@ -45,11 +46,11 @@ import {
   jobLabels,
   maxSingleDataItemByteCount,
   octetStreamContentType,
-  receiptVersion,
   revokeDelegatePaymentApprovalTagName,
   signatureTypeLength,
   skipOpticalPostAddresses,
   targetLength,
+  webhookUrlHeader,
 } from "../constants";
 import globalLogger from "../logger";
 import { MetricRegistry } from "../metricRegistry";
@@ -71,6 +72,7 @@ import {
   quarantineDataItem,
   streamsForDataItemStorage,
 } from "../utils/dataItemUtils";
+import { getDedicatedBundleTypes } from "../utils/dedicatedBundleTypes";
 import {
   DataItemExistsWarning,
   InsufficientBalance,
@@ -94,9 +96,12 @@ import { ownerToNativeAddress } from "../utils/ownerToNativeAddress";
 import {
   SignedReceipt,
   UnsignedReceipt,
+  negotiateReceiptVersion,
   signReceipt,
 } from "../utils/signReceipt";
 import { streamToBuffer } from "../utils/streamToBuffer";
+import { peekStream } from "../utils/streamUtils";
+import { isValidWebhookUrl } from "../utils/webhooks";
 
 const shouldSkipBalanceCheck = process.env.SKIP_BALANCE_CHECKS === "true";
 const opticalBridgingEnabled = process.env.OPTICAL_BRIDGING_ENABLED !== "false";
@@ -132,24 +137,18 @@ export async function dataItemRoute(ctx: KoaContext, next: Next) {
 
     if (likelyRawData) {
       logger.info("Detected raw data upload request (non-ANS104)");
-      // Buffer the entire body for raw data handling
-      const chunks: Buffer[] = [];
-      for await (const chunk of ctx.req) {
-        chunks.push(chunk);
-      }
-      const rawBody = Buffer.concat(chunks);
+      // Peek at the signature type bytes without consuming the body
+      const { head, stream } = await peekStream(ctx.req, 2);
 
       // Verify it's not actually ANS-104
-      if (!isANS104DataItem(rawBody)) {
-        return handleRawDataUpload(ctx, rawBody);
+      if (!isANS104DataItem(head)) {
+        return handleRawDataUpload(ctx, stream);
       }
 
       // False positive - it's actually ANS-104, continue with normal flow
       logger.info("False positive on raw data detection, proceeding as ANS-104");
-      // Need to recreate the stream since we consumed it
-      // For now, create a readable stream from the buffer
-      const { Readable } = await import("stream");
-      ctx.request.req = Readable.from(rawBody) as any;
+      // The peeked bytes are pushed back onto the request stream unless it had already ended
+      ctx.request.req = stream as any;
     }
   }
 
@@ -202,6 +201,14 @@ export async function dataItemRoute(ctx: KoaContext, next: Next) {
     }
   }
 
+  // Optional per upload webhook, takes precedence over the uploading wallet's registered webhook
+  const webhookUrl = ctx.req.headers?.[webhookUrlHeader] as string | undefined;
+  if (webhookUrl !== undefined && !isValidWebhookUrl(webhookUrl)) {
+    return errorResponse(ctx, {
+      errorMessage: `Invalid ${webhookUrlHeader} header!`,
+    });
+  }
+
   const paidBys: string[] = [];
   let x402PaymentHeader: string | undefined;
   ctx.request.req.rawHeaders.forEach((header, index) => {
@@ -948,7 +955,9 @@ export async function dataItemRoute(ctx: KoaContext, next: Next) {
       id: dataItemId,
       timestamp: uploadTimestamp,
       winc: paymentResponse.costOfDataItem.toString(),
-      version: receiptVersion,
+      version: negotiateReceiptVersion(
+        ctx.req.headers?.[acceptReceiptVersionHeader] as string | undefined
+      ),
       deadlineHeight,
       ...confirmedFeatures,
     };
@@ -997,7 +1006,8 @@ export async function dataItemRoute(ctx: KoaContext, next: Next) {
     tags,
     signatureType,
     nestedDataItemHeaders,
-    targetPublicAddress
+    targetPublicAddress,
+    await getDedicatedBundleTypes(database, logger)
   );
 
   const dbInsertStart = Date.now();
@@ -1047,6 +1057,18 @@ export async function dataItemRoute(ctx: KoaContext, next: Next) {
     return next();
   }
 
+  if (webhookUrl) {
+    await database
+      .insertDataItemWebhook({ dataItemId, webhookUrl })
+      .catch((error) => {
+        // The upload has been accepted, so only the webhook notifications are lost
+        logger.error("Failed to store webhook url for data item!", {
+          error,
+          webhookUrl,
+        });
+      });
+  }
+
   ctx.status = 200;
 
   let body: Record<
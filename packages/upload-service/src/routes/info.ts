@@ -23,12 +23,20 @@ import {
 } from "../constants";
 import { KoaContext } from "../server";
 import { jwkToPublicArweaveAddress } from "../utils/base64";
+import { bundlerSigningKeyInfo } from "../utils/bundlerWallets";
 
 export async function rootResponse(ctx: KoaContext, next: Next) {
   const signingWalletAddress = jwkToPublicArweaveAddress(
     await ctx.state.getArweaveWallet()
   );
 
+  // Keys of the active and retired bundler wallets, so that bundles and receipts signed by a
+  // rotated out wallet can still be verified
+  const signingKeys = ctx.state
+    .getBundlerWalletRegistry()
+    .publishedWallets()
+    .map((wallet) => bundlerSigningKeyInfo(wallet));
+
   // Get public-facing gateway FQDNs from environment
   const gateways = process.env.PUBLIC_GATEWAY_FQDNS
     ? process.env.PUBLIC_GATEWAY_FQDNS.split(",").map((url) => url.trim())
@@ -43,6 +51,7 @@ export async function rootResponse(ctx: KoaContext, next: Next) {
       matic: process.env.MATIC_ADDRESS,
       kyve: process.env.KYVE_ADDRESS,
     },
+    signingKeys,
     gateway: gateways[0], // Primary gateway
     gateways: gateways, // All gateways
     freeUploadLimitBytes: freeUploadLimitBytes,
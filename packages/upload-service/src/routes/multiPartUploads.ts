@@ -18,6 +18,8 @@ import { ReadThroughPromiseCache } from "@ardrive/ardrive-promise-cache";
 import { JWKInterface, SignatureConfig, Tag } from "@dha-team/arbundles";
 import { Base64UrlString } from "arweave/node/lib/utils";
 import crypto from "node:crypto";
+import { Readable, pipeline } from "stream";
+import { finished } from "stream/promises";
 import winston from "winston";
 
 import { ArweaveGateway } from "../arch/arweaveGateway";
@@ -28,9 +30,11 @@ import { PaymentService, ReserveBalanceResponse } from "../arch/payment";
 import { EnqueueFinalizeUpload, enqueue } from "../arch/queues";
 import { StreamingDataItem } from "../bundles/streamingDataItem";
 import {
+  acceptReceiptVersionHeader,
   approvalAmountTagName,
   approvalExpiresBySecondsTagName,
   blocklistedAddresses,
+  chunkDigestHeader,
   createDelegatedPaymentApprovalTagName,
   dataCaches,
   deadlineHeightIncrement,
@@ -56,8 +60,10 @@ import {
   sleep,
 } from "../utils/common";
 import { quarantineDataItem } from "../utils/dataItemUtils";
+import { getDedicatedBundleTypes } from "../utils/dedicatedBundleTypes";
 import {
   BlocklistedAddressError,
+  ChunkDigestMismatch,
   DataItemExistsWarning,
   EnqueuedForValidationError,
   InsufficientBalance,
@@ -67,6 +73,12 @@ import {
   MultiPartUploadNotFound,
   PaymentServiceReturnedError,
 } from "../utils/errors";
+import {
+  ChunkDigest,
+  chunkDigestVerifier,
+  missingChunkRanges,
+  parseChunkDigestHeader,
+} from "../utils/multipartChunks";
 import {
   completeMultipartUpload,
   createMultipartUpload,
@@ -89,6 +101,7 @@ import {
   IrysSignedReceipt,
   IrysUnsignedReceipt,
   SignedReceipt,
+  negotiateReceiptVersion,
   signIrysReceipt,
   signReceipt,
 } from "../utils/signReceipt";
@@ -137,6 +150,37 @@ export async function createMultiPartUpload(ctx: KoaContext) {
     return;
   }
 
+  const newUploadId = await createInFlightMultipartUpload({
+    database,
+    objectStore,
+    logger,
+    chunkSize,
+  });
+
+  ctx.body = {
+    id: newUploadId,
+    max: multipartChunkMaxSize,
+    min: multipartChunkMinSize,
+    chunkSize: chunkSize,
+  };
+
+  return; // do not return next()
+}
+
+/** Creates the object store multipart upload and its in-flight record, returning the new upload id */
+export async function createInFlightMultipartUpload({
+  database,
+  objectStore,
+  logger,
+  chunkSize,
+  uploadLength,
+}: {
+  database: Database;
+  objectStore: ObjectStore;
+  logger: winston.Logger;
+  chunkSize?: number;
+  uploadLength?: number;
+}): Promise<UploadId> {
   logger.debug("Creating new multipart upload");
   const uploadKey = crypto.randomUUID();
   const newUploadId = await createMultipartUpload(objectStore, uploadKey);
@@ -149,6 +193,7 @@ export async function createMultiPartUpload(ctx: KoaContext) {
       uploadId: newUploadId,
       uploadKey,
       chunkSize,
+      uploadLength,
     })
   );
 
@@ -158,15 +203,22 @@ export async function createMultiPartUpload(ctx: KoaContext) {
   await sleep(250); // TODO: Lower this after Service Level Cache is implemented for multi-part uploads
 
   logger.info("Inserted new multipart upload into database", { newUploadId });
+  return newUploadId;
+}
 
-  ctx.body = {
-    id: newUploadId,
-    max: multipartChunkMaxSize,
-    min: multipartChunkMinSize,
-    chunkSize: chunkSize,
-  };
-
-  return; // do not return next()
+/**
+ * Drops the in-flight record of an upload so that it can no longer receive chunks or be finalized.
+ * Its uploaded parts are left to the object store's expiry of incomplete multipart uploads
+ */
+export async function terminateMultipartUpload({
+  uploadId,
+  database,
+}: {
+  uploadId: UploadId;
+  database: Database;
+}): Promise<void> {
+  inFlightUploadCache.remove(uploadId);
+  await database.deleteInflightMultiPartUpload(uploadId);
 }
 
 export async function getMultipartUpload(ctx: KoaContext) {
@@ -191,11 +243,7 @@ export async function getMultipartUpload(ctx: KoaContext) {
       max: multipartChunkMaxSize,
       min: multipartChunkMinSize,
       size: chunkSize,
-      chunks: chunks
-        // sort chunks in ascending order
-        .sort((a, b) => a.partNumber - b.partNumber)
-        // 0-index based offsets
-        .map((chunk) => [chunkSize * (chunk.partNumber - 1), chunk.size]),
+      chunks: uploadedChunkRanges(chunks, chunkSize),
       failedReason: upload.failedReason,
     };
   } catch (error) {
@@ -218,6 +266,77 @@ export async function getMultipartUpload(ctx: KoaContext) {
   return; // do not return next();
 }
 
+export async function getMultipartUploadMissingRanges(ctx: KoaContext) {
+  const { uploadId } = ctx.params;
+  const { database, logger, objectStore } = ctx.state;
+
+  // The trailing missing range can only be computed when the client tells us the total size
+  const totalByteCountRaw = ctx.query.size;
+  const totalByteCount =
+    typeof totalByteCountRaw === "string" ? +totalByteCountRaw : undefined;
+  if (
+    totalByteCount !== undefined &&
+    (!Number.isInteger(totalByteCount) || totalByteCount <= 0)
+  ) {
+    ctx.status = 400;
+    ctx.message = "Query parameter 'size' must be a positive integer.";
+    return;
+  }
+
+  try {
+    logger.debug("Getting missing ranges of multipart upload", {
+      uploadId,
+      totalByteCount,
+    });
+
+    const upload = await database.getInflightMultiPartUpload(uploadId);
+    const chunks = await getMultipartUploadParts(
+      objectStore,
+      upload.uploadKey,
+      uploadId
+    );
+
+    const chunkSize = upload.chunkSize || multipartDefaultChunkSize;
+    ctx.body = {
+      id: upload.uploadId,
+      size: chunkSize,
+      missing: missingChunkRanges({
+        chunks: uploadedChunkRanges(chunks, chunkSize),
+        totalByteCount,
+      }),
+      failedReason: upload.failedReason,
+    };
+  } catch (error) {
+    logger.error("Error getting missing ranges of multipart upload", {
+      uploadId,
+      error: error instanceof Error ? error.message : error,
+    });
+    if (error instanceof MultiPartUploadNotFound) {
+      ctx.status = 404;
+      ctx.message = error.message;
+    } else {
+      ctx.status = 503;
+      ctx.message = "Internal Server Error";
+    }
+  }
+
+  return; // do not return next();
+}
+
+/** Maps uploaded parts to [offset, byteCount] pairs sorted by offset */
+export function uploadedChunkRanges(
+  chunks: { size: number; partNumber: number }[],
+  chunkSize: number
+): [number, number][] {
+  return (
+    chunks
+      // sort chunks in ascending order
+      .sort((a, b) => a.partNumber - b.partNumber)
+      // 0-index based offsets
+      .map((chunk) => [chunkSize * (chunk.partNumber - 1), chunk.size])
+  );
+}
+
 export async function getMultipartUploadStatus(ctx: KoaContext) {
   const { uploadId } = ctx.params;
   const { database, logger, objectStore, getArweaveWallet } = ctx.state;
@@ -299,7 +418,11 @@ export async function getMultipartUploadStatus(ctx: KoaContext) {
               winc: fulfillmentInfo.assessedWinstonPrice.toString(),
               timestamp: fulfillmentInfo.uploadedTimestamp,
               deadlineHeight: fulfillmentInfo.deadlineHeight,
-              version: receiptVersion,
+              version: negotiateReceiptVersion(
+                ctx.req.headers?.[acceptReceiptVersionHeader] as
+                  | string
+                  | undefined
+              ),
             },
             await getArweaveWallet()
           );
@@ -367,70 +490,21 @@ export async function postDataItemChunk(ctx: KoaContext) {
   logger.debug("Posting data item chunk", { uploadId, chunkOffset });
   // check that upload exists
   try {
-    const upload = await inFlightUploadCache.get(uploadId, database);
-    logger.debug("Got multipart upload", { ...upload });
-
-    // No need to proceed if this upload has already failed
-    if (upload.failedReason) {
-      throw new InvalidDataItem();
-    }
+    const chunkDigestHeaderValue = ctx.req.headers[chunkDigestHeader];
+    const chunkDigest =
+      typeof chunkDigestHeaderValue === "string"
+        ? parseChunkDigestHeader(chunkDigestHeaderValue)
+        : undefined;
 
-    const sizeOfIncomingChunk = +contentLength;
-    const expectedChunkSize = await computeExpectedChunkSize({
-      upload,
-      sizeOfIncomingChunk,
-      logger,
+    await uploadMultipartChunk({
+      uploadId,
+      chunkOffset: +chunkOffset,
+      sizeOfChunk: +contentLength,
+      stream: ctx.req,
+      chunkDigest,
       database,
-    });
-
-    if (chunkOffset % expectedChunkSize !== 0) {
-      /* This can happen when the last chunk is processed first and
-         has a size that is not a multiple of the expected chunk size.
-         Retrying that chunk upload should usually clear that up.
-
-         A problematic case is when the chunk is smaller than the intended
-         chunk size but is a multiple of it. In this case, we can't tell
-         if the chunk size is wrong or if the chunk is the last one. But
-         two outcomes are possible there:
-         1) The computed part number is large, but sufficiently higher than
-            the preceding chunk's will be. If so, the upload can still complete.
-         2) The part number chosen is too large, and the chunk upload will fail,
-            but might succeed on a successive try. Forcing the part number to
-            the max allowed in this case is not worth the risk of getting it wrong.
-      */
-
-      // TODO: Could also check db again for updated chunk size from other chunks
-      inFlightUploadCache.remove(uploadId); // Precautionary measure
-      throw new InvalidChunk();
-    }
-
-    const partNumber = Math.floor(chunkOffset / expectedChunkSize) + 1; // + 1 due to 1-indexing of part numbers
-    if (partNumber > maxAllowablePartNumber) {
-      // This can happen if the user chose a chunk size too small for the number of chunks their upload needs
-      logger.error("Part number exceeds maximum allowable part number", {
-        uploadId,
-        partNumber,
-        chunkOffset,
-        expectedChunkSize,
-        sizeOfIncomingChunk,
-      });
-      throw new InvalidChunk();
-    }
-
-    // Need to give content length here for last chunk or s3 will wait for more data
-    const etag = await uploadPart({
       objectStore,
-      uploadKey: upload.uploadKey,
-      stream: ctx.req,
-      uploadId,
-      partNumber,
-      sizeOfChunk: sizeOfIncomingChunk,
-    });
-    logger.info("Uploaded part", {
-      uploadId,
-      partNumber,
-      etag,
-      sizeOfChunk: sizeOfIncomingChunk,
+      logger,
     });
 
     ctx.status = 200;
@@ -458,6 +532,155 @@ export async function postDataItemChunk(ctx: KoaContext) {
   return; // do not return next();
 }
 
+/**
+ * Stores a chunk as the part of the upload at its offset. Shared by the bespoke chunk route and
+ * the tus PATCH route. Throws when the upload has failed or the chunk cannot be placed
+ */
+export async function uploadMultipartChunk({
+  uploadId,
+  chunkOffset,
+  sizeOfChunk,
+  stream,
+  chunkDigest,
+  database,
+  objectStore,
+  logger,
+}: {
+  uploadId: UploadId;
+  chunkOffset: number;
+  sizeOfChunk: number;
+  stream: Readable;
+  chunkDigest?: ChunkDigest;
+  database: Database;
+  objectStore: ObjectStore;
+  logger: winston.Logger;
+}): Promise<string> {
+  const upload = await inFlightUploadCache.get(uploadId, database);
+  logger.debug("Got multipart upload", { ...upload });
+
+  // No need to proceed if this upload has already failed
+  if (upload.failedReason) {
+    throw new InvalidDataItem();
+  }
+
+  const expectedChunkSize = await computeExpectedChunkSize({
+    upload,
+    sizeOfIncomingChunk: sizeOfChunk,
+    logger,
+    database,
+  });
+
+  if (chunkOffset % expectedChunkSize !== 0) {
+    /* This can happen when the last chunk is processed first and
+       has a size that is not a multiple of the expected chunk size.
+       Retrying that chunk upload should usually clear that up.
+
+       A problematic case is when the chunk is smaller than the intended
+       chunk size but is a multiple of it. In this case, we can't tell
+       if the chunk size is wrong or if the chunk is the last one. But
+       two outcomes are possible there:
+       1) The computed part number is large, but sufficiently higher than
+          the preceding chunk's will be. If so, the upload can still complete.
+       2) The part number chosen is too large, and the chunk upload will fail,
+          but might succeed on a successive try. Forcing the part number to
+          the max allowed in this case is not worth the risk of getting it wrong.
+    */
+
+    // TODO: Could also check db again for updated chunk size from other chunks
+    inFlightUploadCache.remove(uploadId); // Precautionary measure
+    throw new InvalidChunk();
+  }
+
+  const partNumber = Math.floor(chunkOffset / expectedChunkSize) + 1; // + 1 due to 1-indexing of part numbers
+  if (partNumber > maxAllowablePartNumber) {
+    // This can happen if the user chose a chunk size too small for the number of chunks their upload needs
+    logger.error("Part number exceeds maximum allowable part number", {
+      uploadId,
+      partNumber,
+      chunkOffset,
+      expectedChunkSize,
+      sizeOfChunk,
+    });
+    throw new InvalidChunk();
+  }
+
+  // Verify the chunk while it streams so that a corrupted one fails before its part is committed
+  const digestVerifier = chunkDigest
+    ? chunkDigestVerifier(chunkDigest)
+    : undefined;
+
+  let etag: string;
+  try {
+    // Need to give content length here for last chunk or s3 will wait for more data
+    etag = await uploadPart({
+      objectStore,
+      uploadKey: upload.uploadKey,
+      stream: digestVerifier
+        ? pipeline(stream, digestVerifier, () => undefined)
+        : stream,
+      uploadId,
+      partNumber,
+      sizeOfChunk,
+      // Lets object stores that support SHA-256 checksums reject a corrupted part themselves
+      checksumSHA256:
+        chunkDigest?.algorithm === "sha256"
+          ? chunkDigest.digest.toString("base64")
+          : undefined,
+    });
+  } catch (error) {
+    // Object stores may wrap the stream error, so check the verifier itself
+    if (
+      digestVerifier?.errored instanceof ChunkDigestMismatch ||
+      (error as Error).name === "BadDigest"
+    ) {
+      logger.warn("Chunk does not match its digest", {
+        uploadId,
+        partNumber,
+      });
+      throw new ChunkDigestMismatch();
+    }
+    throw error;
+  }
+
+  if (digestVerifier) {
+    // The store can take the whole chunk before the verifier has compared its digest
+    try {
+      await finished(digestVerifier, { readable: false });
+    } catch (error) {
+      if (!(error instanceof ChunkDigestMismatch)) {
+        throw error;
+      }
+      logger.warn("Stored chunk does not match its digest", {
+        uploadId,
+        partNumber,
+      });
+      // Overwrite the part so the corrupted chunk is never assembled into the upload
+      await uploadPart({
+        objectStore,
+        uploadKey: upload.uploadKey,
+        stream: Readable.from([]),
+        uploadId,
+        partNumber,
+        sizeOfChunk: 0,
+      }).catch((overwriteError) => {
+        logger.error("Failed to overwrite the part of a corrupted chunk", {
+          uploadId,
+          partNumber,
+          error: overwriteError,
+        });
+      });
+      throw error;
+    }
+  }
+  logger.info("Uploaded part", {
+    uploadId,
+    partNumber,
+    etag,
+    sizeOfChunk,
+  });
+  return etag;
+}
+
 async function computeExpectedChunkSize({
   upload,
   logger,
@@ -544,22 +767,7 @@ export async function finalizeMultipartUploadWithQueueMessage({
 
 export async function finalizeMultipartUploadWithHttpRequest(ctx: KoaContext) {
   const { uploadId, token } = ctx.params;
-
-  const paidBys: string[] = [];
-  ctx.request.req.rawHeaders.forEach((header, index) => {
-    if (header === "x-paid-by") {
-      // get x-paid-by values from raw headers
-      const rawPaidBy = ctx.request.req.rawHeaders[index + 1];
-      if (rawPaidBy) {
-        // split by comma and trim whitespace
-        const paidByAddresses = rawPaidBy
-          .split(",")
-          .map((address) => address.trim());
-        paidBys.push(...paidByAddresses);
-      }
-    }
-  });
-  const paidBy = paidBys.length > 0 ? paidBys : undefined;
+  const paidBy = paidByFromRawHeaders(ctx.request.req.rawHeaders);
 
   const asyncValidation = ctx.state.asyncValidation ? true : false;
   const {
@@ -630,6 +838,26 @@ export async function finalizeMultipartUploadWithHttpRequest(ctx: KoaContext) {
   }
 }
 
+export function paidByFromRawHeaders(
+  rawHeaders: string[]
+): NativeAddress[] | undefined {
+  const paidBys: string[] = [];
+  rawHeaders.forEach((header, index) => {
+    if (header === "x-paid-by") {
+      // get x-paid-by values from raw headers
+      const rawPaidBy = rawHeaders[index + 1];
+      if (rawPaidBy) {
+        // split by comma and trim whitespace
+        const paidByAddresses = rawPaidBy
+          .split(",")
+          .map((address) => address.trim());
+        paidBys.push(...paidByAddresses);
+      }
+    }
+  });
+  return paidBys.length > 0 ? paidBys : undefined;
+}
+
 type RemainingUploadResponse = {
   dataCaches: string[];
   fastFinalityIndexes: string[];
@@ -944,7 +1172,8 @@ export async function finalizeMPUWithInFlightEntity({
     tags,
     signatureType,
     [], // TODO: get nested data item headers on multi-part uploads
-    targetPublicAddress
+    targetPublicAddress,
+    await getDedicatedBundleTypes(database, fnLogger)
   );
 
   // Prepare the data needed for optical posting and new_data_item insert
@@ -1118,7 +1347,9 @@ export async function finalizeMPUWithValidatedInfo({
         ownerPublicAddress,
         dataItemHeaders.tags,
         signatureType,
-        [] // TODO: get nested data item headers on multi-part uploads
+        [], // TODO: get nested data item headers on multi-part uploads
+        undefined,
+        await getDedicatedBundleTypes(database, fnLogger)
       ),
       signatureType,
       assessedWinstonPrice: W("0"), // Stubbed until new_data_item insert
@@ -1210,7 +1441,8 @@ export async function finalizeMPUWithRawDataItem({
       dataItemHeaders.tags,
       signatureType,
       [], // TODO: get nested data item headers on multi-part uploads
-      targetPublicAddress
+      targetPublicAddress,
+      await getDedicatedBundleTypes(database, logger)
     ),
     signatureType,
     assessedWinstonPrice: W("0"), // Stubbed until new_data_item insert
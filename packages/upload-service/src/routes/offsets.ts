@@ -16,10 +16,11 @@
  */
 import { Next } from "koa";
 
+import { storageTieringEnabled } from "../constants";
 import { KoaContext } from "../server";
 
 export async function offsetsHandler(ctx: KoaContext, next: Next) {
-  const { logger, dataItemOffsetsDB } = ctx.state;
+  const { logger, dataItemOffsetsDB, database } = ctx.state;
 
   try {
     const offset = await dataItemOffsetsDB.getOffset(ctx.params.id);
@@ -29,6 +30,17 @@ export async function offsetsHandler(ctx: KoaContext, next: Next) {
       return next();
     }
 
+    if (storageTieringEnabled) {
+      // Clients look up offsets to read a data item, so each lookup counts towards promoting its archived payload.
+      // A failure to record one must not fail the lookup
+      database.recordDataItemAccess(offset.data_item_id).catch((error) => {
+        logger.error("Failed to record data item access!", {
+          dataItemId: offset.data_item_id,
+          error,
+        });
+      });
+    }
+
     // TODO: Decide whether to use the database to help provide for longer cache durations (e.g. when data is permanent)
     const cacheControlAgeSeconds = 60;
     ctx.set("Cache-Control", `public, max-age=${cacheControlAgeSeconds}`);
@@ -14,51 +14,73 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
-import { DataItem } from "@dha-team/arbundles";
 import { Readable } from "stream";
 
+import { ReserveBalanceResponse } from "../arch/payment";
 import { enqueue } from "../arch/queues";
-import { InMemoryDataItem } from "../bundles/streamingDataItem";
-import { dataCaches, fastFinalityIndexes, jobLabels } from "../constants";
+import { StreamingDataItem } from "../bundles/streamingDataItem";
+import {
+  acceptReceiptVersionHeader,
+  dataCaches,
+  fastFinalityIndexes,
+  jobLabels,
+} from "../constants";
 import { KoaContext } from "../server";
-import { fromB64Url, jwkToPublicArweaveAddress } from "../utils/base64";
+import { NativeAddress } from "../types/types";
+import { W, Winston } from "../types/winston";
+import { jwkToPublicArweaveAddress, toB64Url } from "../utils/base64";
 import { errorResponse } from "../utils/common";
-import { createDataItemFromRaw } from "../utils/createDataItem";
-import { putDataItemRaw } from "../utils/objectStoreUtils";
+import {
+  StagedRawDataPayload,
+  StreamingSignedDataItem,
+  createDataItemFromStagedPayload,
+  removeStagedRawDataPayload,
+  stageRawDataPayload,
+  streamSignedDataItem,
+} from "../utils/createDataItem";
+import {
+  cacheDataItem,
+  streamsForDataItemStorage,
+} from "../utils/dataItemUtils";
+import { InsufficientBalance, RequestBodyTooLarge } from "../utils/errors";
 import {
   encodeTagsForOptical,
   signDataItemHeader,
 } from "../utils/opticalUtils";
-import { parseRawDataRequest, validateRawData } from "../utils/rawDataUtils";
-import { signReceipt } from "../utils/signReceipt";
+import {
+  ParsedRawDataRequest,
+  parseRawDataRequest,
+  validateRawData,
+} from "../utils/rawDataUtils";
+import {
+  UnsignedReceipt,
+  negotiateReceiptVersion,
+  signReceipt,
+} from "../utils/signReceipt";
 
 const rawDataUploadsEnabled = process.env.RAW_DATA_UPLOADS_ENABLED === "true";
 const opticalBridgingEnabled = process.env.OPTICAL_BRIDGING_ENABLED !== "false";
 
 /**
  * Koa route handler wrapper for raw data uploads
- * Buffers the request body and passes to handleRawDataUpload
+ * Passes the request body stream to handleRawDataUpload
  *
  * Used by: POST /x402/upload/unsigned
  */
 export async function rawDataUploadRoute(ctx: KoaContext): Promise<void> {
-  // Buffer the entire request body
-  const chunks: Buffer[] = [];
-  for await (const chunk of ctx.req) {
-    chunks.push(chunk);
-  }
-  const rawBody = Buffer.concat(chunks);
-
-  return handleRawDataUpload(ctx, rawBody);
+  return handleRawDataUpload(ctx, ctx.req);
 }
 
 /**
  * Handle raw data upload with x402 payment
  * This is a simpler flow for AI agents that don't want to create ANS-104 data items
  *
+ * The payload is streamed to a staging file rather than buffered, then signed from its digest and
+ * streamed from the staging file to the data item stores
+ *
  * Used by: POST /x402/upload/unsigned, and internally by dataItemRoute for auto-detected raw data
  */
-export async function handleRawDataUpload(ctx: KoaContext, rawBody: Buffer): Promise<void> {
+export async function handleRawDataUpload(ctx: KoaContext, body: Readable): Promise<void> {
   const { logger } = ctx.state;
 
   // Check if raw data uploads are enabled
@@ -73,11 +95,46 @@ export async function handleRawDataUpload(ctx: KoaContext, rawBody: Buffer): Pro
 
   // Parse the request (supports both binary + headers and JSON envelope)
   const contentType = ctx.req.headers?.["content-type"];
-  const parsedRequest = parseRawDataRequest(rawBody, contentType, ctx.req.headers);
+  const maxSize = 10 * 1024 * 1024 * 1024; // 10 GB
+  let parsedRequest: ParsedRawDataRequest;
+  let payload: StagedRawDataPayload;
+  try {
+    parsedRequest = await parseRawDataRequest(
+      body,
+      contentType,
+      ctx.req.headers
+    );
+    payload = await stageRawDataPayload({
+      data: parsedRequest.data,
+      maxByteCount: maxSize,
+    });
+  } catch (error) {
+    if (error instanceof RequestBodyTooLarge) {
+      return errorResponse(ctx, {
+        errorMessage: error.message,
+        status: 413,
+      });
+    }
+    throw error;
+  }
+
+  try {
+    return await handleStagedRawDataUpload(ctx, parsedRequest, payload);
+  } finally {
+    await removeStagedRawDataPayload(payload);
+  }
+}
+
+async function handleStagedRawDataUpload(
+  ctx: KoaContext,
+  parsedRequest: ParsedRawDataRequest,
+  payload: StagedRawDataPayload
+): Promise<void> {
+  const { logger } = ctx.state;
 
   // Validate raw data
   const maxSize = 10 * 1024 * 1024 * 1024; // 10 GB
-  const validation = validateRawData(parsedRequest.data, maxSize);
+  const validation = validateRawData(payload.byteCount, maxSize);
   if (!validation.valid) {
     return errorResponse(ctx, {
       errorMessage: validation.error || "Invalid data",
@@ -89,11 +146,16 @@ export async function handleRawDataUpload(ctx: KoaContext, rawBody: Buffer): Pro
   const paymentHeaderValue = ctx.headers["x-payment"] as string | undefined;
   const contentLengthHeader = ctx.headers["content-length"];
 
+  // Without an x402 payment, a signed or API key request pays from its account's credit balance
+  if (!paymentHeaderValue && ctx.state.walletAddress) {
+    return handleCreditPaidRawDataUpload(ctx, parsedRequest, payload);
+  }
+
   if (!paymentHeaderValue) {
     // No payment provided - return 402 Payment Required
     return await send402PaymentRequired(
       ctx,
-      parsedRequest.data.length,
+      payload.byteCount,
       parsedRequest.contentType,
       parsedRequest.tags
     );
@@ -143,10 +205,10 @@ export async function handleRawDataUpload(ctx: KoaContext, rawBody: Buffer): Pro
   const totalTagCount = userTagCount + systemTagCount + contentTypeTagCount;
 
   // Estimate final data item size (raw data + ANS-104 overhead with accurate tag count)
-  const estimatedDataItemSize = estimateDataItemSize(parsedRequest.data.length, totalTagCount);
+  const estimatedDataItemSize = estimateDataItemSize(payload.byteCount, totalTagCount);
 
   logger.info("Calculating pricing for x402 upload", {
-    rawDataSize: parsedRequest.data.length,
+    rawDataSize: payload.byteCount,
     userTagCount,
     systemTagCount,
     totalTagCount,
@@ -250,22 +312,15 @@ export async function handleRawDataUpload(ctx: KoaContext, rawBody: Buffer): Pro
   const { randomUUID } = await import("crypto");
   const paymentId = randomUUID();
 
-  // Validate and normalize user tags
-  const validTags = (parsedRequest.tags || []).filter((tag: any) => {
-    if (!tag || typeof tag !== "object") return false;
-    if (typeof tag.name !== "string" || typeof tag.value !== "string") return false;
-    return true;
-  });
-
   // NOW create the data item with TX hash in tags
-  let dataItem: DataItem;
+  let dataItem: StreamingSignedDataItem;
   let rawDataItemWallet;
   try {
     rawDataItemWallet = await ctx.state.getRawDataItemWallet();
-    dataItem = await createDataItemFromRaw(
+    dataItem = await createDataItemFromStagedPayload(
       {
-        data: parsedRequest.data,
-        tags: validTags,
+        payload,
+        tags: validUserTags(parsedRequest),
         contentType: parsedRequest.contentType,
         payerAddress,
         x402Payment: {
@@ -294,32 +349,7 @@ export async function handleRawDataUpload(ctx: KoaContext, rawBody: Buffer): Pro
     });
   }
 
-  const dataItemBuffer = dataItem.getRaw();
-  const byteCount = dataItemBuffer.length;
-
-  // Parse the signed data item to extract signature and payload information
-  const inMemoryDataItem = new InMemoryDataItem(dataItemBuffer);
-
-  const signatureB64Url = await inMemoryDataItem.getSignature();
-  const signature = fromB64Url(signatureB64Url);
-  const target = await inMemoryDataItem.getTarget();
-  const anchor = await inMemoryDataItem.getAnchor();
-  const numTagsBytes = await inMemoryDataItem.getNumTagsBytes();
-
-  const signatureTypeLength = 2;
-  const signatureLength = 512;
-  const ownerLength = 512;
-  const targetLength = target ? 33 : 1;
-  const anchorLength = anchor ? 33 : 1;
-
-  const payloadDataStart =
-    signatureTypeLength +
-    signatureLength +
-    ownerLength +
-    targetLength +
-    anchorLength +
-    16 +
-    numTagsBytes;
+  const { byteCount } = dataItem;
 
   const payloadContentType = parsedRequest.contentType || "application/octet-stream";
 
@@ -344,96 +374,15 @@ export async function handleRawDataUpload(ctx: KoaContext, rawBody: Buffer): Pro
 
   // Store the data item (same flow as signed uploads)
   try {
-    // Store to object store with proper prefix for AR.IO gateway access
-    const dataStream = Readable.from(dataItemBuffer);
-    await putDataItemRaw(
-      ctx.state.objectStore,
-      dataItem.id,
-      dataStream,
-      payloadContentType,
-      payloadDataStart
-    );
-
-    // Get assessed winston price from x402 payment
-    const assessedWinstonPrice = wincPaid;
-
-    // Owner is the raw data item wallet (whitelisted, no credits required)
-    const ownerPublicAddress = jwkToPublicArweaveAddress(rawDataItemWallet);
-
-    // Insert into database
-    await ctx.state.database.insertNewDataItem({
-      dataItemId: dataItem.id,
-      ownerPublicAddress, // Raw data item wallet address (whitelisted)
-      byteCount,
-      assessedWinstonPrice,
-      payloadDataStart,
+    await storeSignedRawDataItem(ctx, {
+      dataItem,
+      payload,
       payloadContentType,
-      uploadedDate: new Date().toISOString(),
-      signatureType: 1, // Arweave signature type (data item is signed with Arweave wallet)
-      deadlineHeight: await ctx.state.arweaveGateway.getCurrentBlockHeight() + 50,
-      failedBundles: [],
-      premiumFeatureType: "default",
-      signature,
+      // Get assessed winston price from x402 payment
+      assessedWinstonPrice: wincPaid,
+      // Owner is the raw data item wallet (whitelisted, no credits required)
+      ownerPublicAddress: jwkToPublicArweaveAddress(rawDataItemWallet),
     });
-
-    // Enqueue for bundling
-    await enqueue(jobLabels.newDataItem, {
-      dataItemId: dataItem.id,
-      byteCount,
-      ownerPublicAddress, // Raw data item wallet address (whitelisted)
-      assessedWinstonPrice,
-      payloadDataStart,
-      payloadContentType,
-      uploadedDate: new Date().toISOString(),
-      signatureType: 1, // Arweave signature type (data item is signed with Arweave wallet)
-      deadlineHeight: await ctx.state.arweaveGateway.getCurrentBlockHeight() + 50,
-      failedBundles: [],
-      premiumFeatureType: "default",
-      signature: signatureB64Url, // Queue expects string
-    });
-
-    logger.info("Data item stored and enqueued", {
-      dataItemId: dataItem.id,
-      queueJob: jobLabels.newDataItem,
-    });
-
-    // Enqueue data item for optical bridging
-    if (opticalBridgingEnabled) {
-      try {
-        logger.debug("Enqueuing raw data item for optical posting...");
-        const uploadTimestamp = Date.now();
-
-        const signedDataItemHeader = await signDataItemHeader(
-          encodeTagsForOptical({
-            id: dataItem.id,
-            signature: signatureB64Url,
-            owner: dataItem.owner,
-            owner_address: ownerPublicAddress,
-            target: dataItem.target || "",
-            content_type: payloadContentType || "application/octet-stream",
-            data_size: byteCount,
-            tags: dataItem.tags,
-          })
-        );
-
-        await enqueue(jobLabels.opticalPost, {
-          ...signedDataItemHeader,
-          uploaded_at: uploadTimestamp,
-        });
-
-        logger.info("Raw data item enqueued for optical posting", {
-          dataItemId: dataItem.id,
-        });
-      } catch (opticalError) {
-        // Soft error, just log
-        logger.error("Error while attempting to enqueue for optical bridging!", {
-          error: opticalError,
-          dataItemId: dataItem.id,
-        });
-      }
-    } else {
-      logger.debug("Optical bridging disabled - skipping optical post");
-    }
   } catch (error) {
     logger.error("Failed to store data item", { error });
     return errorResponse(ctx, {
@@ -446,7 +395,9 @@ export async function handleRawDataUpload(ctx: KoaContext, rawBody: Buffer): Pro
   const unsignedReceipt = {
     id: dataItem.id,
     timestamp: Date.now(),
-    version: "0.2.0",
+    version: negotiateReceiptVersion(
+      ctx.req.headers?.[acceptReceiptVersionHeader] as string | undefined
+    ),
     deadlineHeight: await ctx.state.arweaveGateway.getCurrentBlockHeight() + 50,
     dataCaches,
     fastFinalityIndexes,
@@ -488,6 +439,139 @@ export async function handleRawDataUpload(ctx: KoaContext, rawBody: Buffer): Pro
   });
 }
 
+/**
+ * Handle a raw data upload paid from the credit balance of the request's signer, as verified by the
+ * verifySignature middleware, or of the account of its API key. The uploader is recorded in the
+ * Uploader-Address tag and in the receipt
+ */
+async function handleCreditPaidRawDataUpload(
+  ctx: KoaContext,
+  parsedRequest: ParsedRawDataRequest,
+  payload: StagedRawDataPayload
+): Promise<void> {
+  const { paymentService } = ctx.state;
+  const uploaderAddress = ctx.state.walletAddress as NativeAddress;
+  const uploaderSignatureType = ctx.state.signatureType as number;
+  const logger = ctx.state.logger.child({ uploaderAddress });
+
+  logger.info("Processing raw data upload paid with credits");
+
+  let dataItem: StreamingSignedDataItem;
+  let rawDataItemWallet;
+  try {
+    rawDataItemWallet = await ctx.state.getRawDataItemWallet();
+    dataItem = await createDataItemFromStagedPayload(
+      {
+        payload,
+        tags: validUserTags(parsedRequest),
+        contentType: parsedRequest.contentType,
+        uploadType: "raw-data-credits",
+        uploaderAddress,
+      },
+      rawDataItemWallet
+    );
+  } catch (error) {
+    logger.error("Failed to create data item", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return errorResponse(ctx, {
+      errorMessage: "Failed to create data item from raw data",
+      status: 500,
+    });
+  }
+
+  let paymentResponse: ReserveBalanceResponse;
+  try {
+    paymentResponse = await paymentService.reserveBalanceForData({
+      nativeAddress: uploaderAddress,
+      size: dataItem.byteCount,
+      dataItemId: dataItem.id,
+      signatureType: uploaderSignatureType,
+    });
+  } catch (error) {
+    logger.error("Failed to reserve balance for raw data upload", { error });
+    return errorResponse(ctx, {
+      status: 503,
+      errorMessage: `Data Item: ${dataItem.id}. Upload Service is Unavailable. Payment Service is unreachable`,
+    });
+  }
+
+  if (!paymentResponse.isReserved) {
+    return errorResponse(ctx, {
+      status: 402,
+      error: new InsufficientBalance(),
+    });
+  }
+
+  const assessedWinstonPrice = paymentResponse.costOfDataItem;
+  const ownerPublicAddress = jwkToPublicArweaveAddress(rawDataItemWallet);
+  try {
+    await storeSignedRawDataItem(ctx, {
+      dataItem,
+      payload,
+      payloadContentType:
+        parsedRequest.contentType || "application/octet-stream",
+      assessedWinstonPrice,
+      ownerPublicAddress,
+    });
+  } catch (error) {
+    logger.error("Failed to store data item", { error });
+    if (assessedWinstonPrice.isGreaterThan(W(0))) {
+      await paymentService.refundBalanceForData({
+        nativeAddress: uploaderAddress,
+        signatureType: uploaderSignatureType,
+        winston: assessedWinstonPrice,
+        dataItemId: dataItem.id,
+      });
+    }
+    return errorResponse(ctx, {
+      errorMessage: "Failed to store data item",
+      status: 500,
+    });
+  }
+
+  const unsignedReceipt: UnsignedReceipt = {
+    id: dataItem.id,
+    timestamp: Date.now(),
+    version: negotiateReceiptVersion(
+      ctx.req.headers?.[acceptReceiptVersionHeader] as string | undefined
+    ),
+    deadlineHeight:
+      (await ctx.state.arweaveGateway.getCurrentBlockHeight()) + 50,
+    dataCaches,
+    fastFinalityIndexes,
+    winc: assessedWinstonPrice.toString(),
+    uploader: uploaderAddress,
+  };
+  const signedReceipt = await signReceipt(unsignedReceipt, rawDataItemWallet);
+
+  ctx.status = 201;
+  ctx.body = {
+    id: dataItem.id,
+    owner: ownerPublicAddress, // Raw data item wallet address
+    uploader: uploaderAddress, // The signer whose credits paid (tracked in Uploader-Address tag)
+    winc: unsignedReceipt.winc,
+    dataCaches: unsignedReceipt.dataCaches,
+    fastFinalityIndexes: unsignedReceipt.fastFinalityIndexes,
+    receipt: signedReceipt,
+  };
+
+  logger.info("Raw data upload completed successfully with credits", {
+    dataItemId: dataItem.id,
+    assessedWinstonPrice,
+  });
+}
+
+/** Drops malformed user tags from a raw data request */
+function validUserTags(parsedRequest: ParsedRawDataRequest) {
+  return (parsedRequest.tags || []).filter((tag: any) => {
+    if (!tag || typeof tag !== "object") return false;
+    if (typeof tag.name !== "string" || typeof tag.value !== "string")
+      return false;
+    return true;
+  });
+}
+
 /**
  * Send 402 Payment Required response with x402 payment requirements
  *
@@ -581,3 +665,134 @@ async function send402PaymentRequired(
     error: "Payment required to upload data",
   };
 }
+
+/**
+ * Streams a signed raw data item to the data item stores, then records and enqueues it the same way
+ * as signed uploads
+ */
+async function storeSignedRawDataItem(
+  ctx: KoaContext,
+  {
+    dataItem,
+    payload,
+    payloadContentType,
+    assessedWinstonPrice,
+    ownerPublicAddress,
+  }: {
+    dataItem: StreamingSignedDataItem;
+    payload: StagedRawDataPayload;
+    payloadContentType: string;
+    assessedWinstonPrice: Winston;
+    ownerPublicAddress: string;
+  }
+): Promise<void> {
+  const { logger } = ctx.state;
+  const { byteCount, payloadDataStart, signature } = dataItem;
+  const signatureB64Url = toB64Url(signature);
+
+  // Stream the header and staged payload to the same durable stores as signed uploads
+  const dataItemStream = streamSignedDataItem(dataItem, payload);
+  dataItemStream.pause();
+  const { cacheServiceStream, fsBackupStream, objStoreStream } =
+    await streamsForDataItemStorage({
+      inputStream: dataItemStream,
+      contentLength: byteCount,
+      logger,
+      cacheService: ctx.state.cacheService,
+    });
+  const streamingDataItem = new StreamingDataItem(dataItemStream, logger);
+  dataItemStream.resume();
+
+  await cacheDataItem({
+    streamingDataItem,
+    rawContentLength: byteCount,
+    payloadContentType,
+    payloadDataStart,
+    cacheService: ctx.state.cacheService,
+    objectStore: ctx.state.objectStore,
+    cacheServiceStream,
+    fsBackupStream,
+    objStoreStream,
+    logger,
+  });
+  if (!(await streamingDataItem.isValid())) {
+    throw new Error("Signed raw data item failed validation");
+  }
+
+  // Insert into database
+  await ctx.state.database.insertNewDataItem({
+    dataItemId: dataItem.id,
+    ownerPublicAddress, // Raw data item wallet address (whitelisted)
+    byteCount,
+    assessedWinstonPrice,
+    payloadDataStart,
+    payloadContentType,
+    uploadedDate: new Date().toISOString(),
+    signatureType: 1, // Arweave signature type (data item is signed with Arweave wallet)
+    deadlineHeight:
+      (await ctx.state.arweaveGateway.getCurrentBlockHeight()) + 50,
+    failedBundles: [],
+    premiumFeatureType: "default",
+    signature,
+  });
+
+  // Enqueue for bundling
+  await enqueue(jobLabels.newDataItem, {
+    dataItemId: dataItem.id,
+    byteCount,
+    ownerPublicAddress, // Raw data item wallet address (whitelisted)
+    assessedWinstonPrice,
+    payloadDataStart,
+    payloadContentType,
+    uploadedDate: new Date().toISOString(),
+    signatureType: 1, // Arweave signature type (data item is signed with Arweave wallet)
+    deadlineHeight:
+      (await ctx.state.arweaveGateway.getCurrentBlockHeight()) + 50,
+    failedBundles: [],
+    premiumFeatureType: "default",
+    signature: signatureB64Url, // Queue expects string
+  });
+
+  logger.info("Data item stored and enqueued", {
+    dataItemId: dataItem.id,
+    queueJob: jobLabels.newDataItem,
+  });
+
+  // Enqueue data item for optical bridging
+  if (opticalBridgingEnabled) {
+    try {
+      logger.debug("Enqueuing raw data item for optical posting...");
+      const uploadTimestamp = Date.now();
+
+      const signedDataItemHeader = await signDataItemHeader(
+        encodeTagsForOptical({
+          id: dataItem.id,
+          signature: signatureB64Url,
+          owner: dataItem.owner,
+          owner_address: ownerPublicAddress,
+          target: dataItem.target || "",
+          content_type: payloadContentType || "application/octet-stream",
+          data_size: byteCount,
+          tags: dataItem.tags,
+        })
+      );
+
+      await enqueue(jobLabels.opticalPost, {
+        ...signedDataItemHeader,
+        uploaded_at: uploadTimestamp,
+      });
+
+      logger.info("Raw data item enqueued for optical posting", {
+        dataItemId: dataItem.id,
+      });
+    } catch (opticalError) {
+      // Soft error, just log
+      logger.error("Error while attempting to enqueue for optical bridging!", {
+        error: opticalError,
+        dataItemId: dataItem.id,
+      });
+    }
+  } else {
+    logger.debug("Optical bridging disabled - skipping optical post");
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { Next } from "koa";
+
+import { KoaContext } from "../server";
+import { isValidArweaveBase64URL } from "../utils/base64";
+import {
+  BundlerWallet,
+  bundlerSigningKeyInfo,
+  bundlerWalletFromJwk,
+  bundlerWalletStatus,
+} from "../utils/bundlerWallets";
+import { readJsonRequestBody } from "../utils/common";
+import { RequestBodyTooLarge } from "../utils/errors";
+import { SignedReceipt } from "../utils/signReceipt";
+import { verifyReceipt } from "../utils/verifyReceipt";
+import { dataItemStatusBody } from "./status";
+
+// Receipts are a few hundred bytes, leave room for long dataCaches lists
+const maxReceiptRequestByteCount = 16 * 1024;
+
+function isSignedReceipt(receipt: unknown): receipt is SignedReceipt {
+  if (typeof receipt !== "object" || receipt === null) {
+    return false;
+  }
+  const {
+    id,
+    version,
+    deadlineHeight,
+    timestamp,
+    public: publicKey,
+    signature,
+  } = receipt as Record<string, unknown>;
+  return (
+    typeof id === "string" &&
+    isValidArweaveBase64URL(id) &&
+    typeof version === "string" &&
+    typeof deadlineHeight === "number" &&
+    typeof timestamp === "number" &&
+    typeof publicKey === "string" &&
+    typeof signature === "string"
+  );
+}
+
+/**
+ * Receipts are signed by the bundler wallets, and receipts of raw data uploads by the raw data item
+ * wallet when one is configured
+ */
+async function receiptSigningWallets(
+  ctx: KoaContext
+): Promise<BundlerWallet[]> {
+  const bundlerWallets = ctx.state
+    .getBundlerWalletRegistry()
+    .publishedWallets();
+
+  let rawDataItemWallet: BundlerWallet;
+  try {
+    rawDataItemWallet = bundlerWalletFromJwk(
+      await ctx.state.getRawDataItemWallet()
+    );
+  } catch {
+    // Raw data uploads are disabled without a raw data item wallet
+    return bundlerWallets;
+  }
+
+  return bundlerWallets.some(
+    ({ publicKey }) => publicKey === rawDataItemWallet.publicKey
+  )
+    ? bundlerWallets
+    : [...bundlerWallets, rawDataItemWallet];
+}
+
+/**
+ * Checks the signature of a submitted receipt, that it was signed by a receipt signing key active at
+ * the receipt's timestamp, and that its data item is known to this bundler, reporting the item's status
+ */
+export async function verifyReceiptHandler(ctx: KoaContext, next: Next) {
+  const { logger, database, dataItemOffsetsDB } = ctx.state;
+
+  let receipt: unknown;
+  try {
+    receipt = await readJsonRequestBody(ctx, maxReceiptRequestByteCount);
+  } catch (error) {
+    ctx.status = error instanceof RequestBodyTooLarge ? 413 : 400;
+    ctx.body = (error as Error).message;
+    return next();
+  }
+
+  if (!isSignedReceipt(receipt)) {
+    ctx.status = 400;
+    ctx.body =
+      "Request body must be a signed receipt with id, version, deadlineHeight, timestamp, public and signature";
+    return next();
+  }
+
+  let signatureValid: boolean;
+  try {
+    signatureValid = await verifyReceipt(receipt);
+  } catch (error) {
+    // Malformed public keys or signatures fail verification rather than the request
+    logger.debug("Receipt signature could not be verified.", { error });
+    signatureValid = false;
+  }
+
+  const signerPublicKey = receipt.public;
+  const signerWallet = (await receiptSigningWallets(ctx)).find(
+    ({ publicKey }) => publicKey === signerPublicKey
+  );
+  const signerActiveAtTimestamp =
+    signerWallet !== undefined &&
+    bundlerWalletStatus(signerWallet, new Date(receipt.timestamp)) === "active";
+
+  try {
+    const [offset, info] = await Promise.all([
+      dataItemOffsetsDB.getOffset(receipt.id),
+      database.getDataItemInfo(receipt.id),
+    ]);
+
+    ctx.body = {
+      id: receipt.id,
+      valid: signatureValid && signerActiveAtTimestamp && info !== undefined,
+      signatureValid,
+      signer: signerWallet ? bundlerSigningKeyInfo(signerWallet) : null,
+      signerActiveAtTimestamp,
+      dataItemExists: info !== undefined,
+      dataItemStatus: info ? dataItemStatusBody(info, offset, logger) : null,
+    };
+  } catch (error) {
+    logger.error(`Error verifying receipt: ${error}`);
+    ctx.status = 503;
+    ctx.body = "Internal Server Error";
+  }
+
+  return next();
+}
+
+/**
+ * Lists the public keys of every active and retired bundler wallet and of the raw data item wallet,
+ * which are the keys receipts have been signed with, along with the period each key signed within
+ */
+export async function receiptKeysHandler(ctx: KoaContext, next: Next) {
+  const keys = (await receiptSigningWallets(ctx)).map((wallet) =>
+    bundlerSigningKeyInfo(wallet)
+  );
+
+  ctx.set("Cache-Control", "public, max-age=60");
+  ctx.body = { keys };
+  return next();
+}
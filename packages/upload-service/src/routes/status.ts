@@ -15,13 +15,81 @@
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
 import { Next } from "koa";
+import winston from "winston";
 
+import { DataItemOffset } from "../arch/db/dataItemOffsets";
+import { maxBatchStatusDataItemCount } from "../constants";
 import { KoaContext } from "../server";
+import { DataItemInfo } from "../types/dbTypes";
 import { DataItemOffsetsInfo } from "../types/types";
+import { isValidArweaveBase64URL } from "../utils/base64";
+import { readJsonRequestBody } from "../utils/common";
+import { RequestBodyTooLarge } from "../utils/errors";
 
 const pendingCacheAgeSeconds = 15;
 const permanentCacheAgeSeconds = 86_400; // 1 day in seconds
 
+// Generous upper bound for a JSON array of max count base64url data item IDs
+const maxBatchStatusRequestByteCount = maxBatchStatusDataItemCount * 64 + 1024;
+
+export function dataItemStatusBody(
+  info: DataItemInfo,
+  offset: DataItemOffset | undefined,
+  logger: winston.Logger
+) {
+  // Map PostgreSQL column names to camelCase and excise dataItemId and rootBundleId from the response
+  let offsetsInfo:
+    | Omit<DataItemOffsetsInfo, "dataItemId" | "rootBundleId">
+    | undefined;
+  if (offset) {
+    const maybeOffsetsInfo: DataItemOffsetsInfo = {
+      dataItemId: offset.data_item_id,
+      rootBundleId: offset.root_bundle_id,
+      rawContentLength: offset.raw_content_length,
+      payloadContentType:
+        offset.payload_content_type ?? "application/octet-stream",
+      payloadDataStart: offset.payload_data_start,
+      startOffsetInRootBundle: offset.start_offset_in_root_bundle,
+      parentDataItemId: offset.parent_data_item_id,
+      startOffsetInParentDataItemPayload:
+        offset.start_offset_in_parent_data_item_payload,
+    };
+    const { dataItemId, rootBundleId, ...rest } = maybeOffsetsInfo;
+    offsetsInfo = rest;
+
+    // Validate that info db and offsets db agree on the root bundle ID
+    if (rootBundleId !== info.bundleId) {
+      logger.warn(`Root bundle ID mismatch!`, {
+        dataItemId,
+        dbRootBundleId: info.bundleId,
+        offsetsRootBundleId: rootBundleId,
+      });
+      // Excise the startOffsetInRootBundle since it may not be accurate
+      const { startOffsetInRootBundle, ...restWithoutStartOffset } =
+        offsetsInfo;
+      offsetsInfo = restWithoutStartOffset;
+    }
+  }
+
+  return {
+    status:
+      info.status === "permanent"
+        ? "FINALIZED"
+        : info.status === "failed"
+        ? "FAILED"
+        : "CONFIRMED",
+    bundleId: info.bundleId,
+    info: info.status,
+    ...offsetsInfo,
+    payloadContentLength: offsetsInfo
+      ? offsetsInfo.rawContentLength - offsetsInfo.payloadDataStart
+      : undefined,
+    winc: info.assessedWinstonPrice,
+    reason: info.failedReason,
+    deadlineHeight: info.deadlineHeight,
+  };
+}
+
 export async function statusHandler(ctx: KoaContext, next: Next) {
   const { logger, database, dataItemOffsetsDB } = ctx.state;
 
@@ -44,55 +112,7 @@ export async function statusHandler(ctx: KoaContext, next: Next) {
         : pendingCacheAgeSeconds;
     ctx.set("Cache-Control", `public, max-age=${cacheControlAgeSeconds}`);
 
-    // Map PostgreSQL column names to camelCase and excise dataItemId and rootBundleId from the response
-    let offsetsInfo:
-      | Omit<DataItemOffsetsInfo, "dataItemId" | "rootBundleId">
-      | undefined;
-    if (offset) {
-      const maybeOffsetsInfo: DataItemOffsetsInfo = {
-        dataItemId: offset.data_item_id,
-        rootBundleId: offset.root_bundle_id,
-        rawContentLength: offset.raw_content_length,
-        payloadContentType: offset.payload_content_type ?? "application/octet-stream",
-        payloadDataStart: offset.payload_data_start,
-        startOffsetInRootBundle: offset.start_offset_in_root_bundle,
-        parentDataItemId: offset.parent_data_item_id,
-        startOffsetInParentDataItemPayload:
-          offset.start_offset_in_parent_data_item_payload,
-      };
-      const { dataItemId, rootBundleId, ...rest } = maybeOffsetsInfo;
-      offsetsInfo = rest;
-
-      // Validate that info db and offsets db agree on the root bundle ID
-      if (rootBundleId !== info.bundleId) {
-        logger.warn(`Root bundle ID mismatch!`, {
-          dataItemId,
-          dbRootBundleId: info.bundleId,
-          offsetsRootBundleId: rootBundleId,
-        });
-        // Excise the startOffsetInRootBundle since it may not be accurate
-        const { startOffsetInRootBundle, ...restWithoutStartOffset } =
-          offsetsInfo;
-        offsetsInfo = restWithoutStartOffset;
-      }
-    }
-
-    ctx.body = {
-      status:
-        info.status === "permanent"
-          ? "FINALIZED"
-          : info.status === "failed"
-          ? "FAILED"
-          : "CONFIRMED",
-      bundleId: info.bundleId,
-      info: info.status,
-      ...offsetsInfo,
-      payloadContentLength: offsetsInfo
-        ? offsetsInfo.rawContentLength - offsetsInfo.payloadDataStart
-        : undefined,
-      winc: info.assessedWinstonPrice,
-      reason: info.failedReason,
-    };
+    ctx.body = dataItemStatusBody(info, offset, logger);
   } catch (error) {
     logger.error(`Error getting data item status: ${error}`);
     ctx.status = 503;
@@ -101,3 +121,69 @@ export async function statusHandler(ctx: KoaContext, next: Next) {
 
   return next();
 }
+
+/**
+ * Responds with the status of each requested data item ID, keyed by ID, with null for unknown IDs.
+ * Does not call next() so that the POST /tx/:token upload route is not matched with a "status" token
+ */
+export async function batchStatusHandler(ctx: KoaContext) {
+  const { logger, database, dataItemOffsetsDB } = ctx.state;
+
+  let dataItemIds: unknown;
+  try {
+    dataItemIds = await readJsonRequestBody(
+      ctx,
+      maxBatchStatusRequestByteCount
+    );
+  } catch (error) {
+    ctx.status = error instanceof RequestBodyTooLarge ? 413 : 400;
+    ctx.body = (error as Error).message;
+    return;
+  }
+
+  if (
+    !Array.isArray(dataItemIds) ||
+    dataItemIds.some(
+      (id) => typeof id !== "string" || !isValidArweaveBase64URL(id)
+    )
+  ) {
+    ctx.status = 400;
+    ctx.body = "Request body must be a JSON array of data item IDs";
+    return;
+  }
+
+  if (dataItemIds.length > maxBatchStatusDataItemCount) {
+    ctx.status = 400;
+    ctx.body = `Too many data item IDs! Maximum is ${maxBatchStatusDataItemCount}`;
+    return;
+  }
+
+  const uniqueDataItemIds: string[] = [...new Set<string>(dataItemIds)];
+
+  try {
+    const [offsets, infos] = await Promise.all([
+      dataItemOffsetsDB.getOffsets(uniqueDataItemIds),
+      database.getDataItemInfos(uniqueDataItemIds),
+    ]);
+    const offsetsById = new Map<string, DataItemOffset>(
+      offsets.map((offset) => [offset.data_item_id, offset])
+    );
+
+    ctx.set("Cache-Control", `public, max-age=${pendingCacheAgeSeconds}`);
+    ctx.body = Object.fromEntries(
+      uniqueDataItemIds.map((dataItemId) => {
+        const info = infos[dataItemId];
+        return [
+          dataItemId,
+          info
+            ? dataItemStatusBody(info, offsetsById.get(dataItemId), logger)
+            : null,
+        ];
+      })
+    );
+  } catch (error) {
+    logger.error(`Error getting batch data item status: ${error}`);
+    ctx.status = 503;
+    ctx.body = "Internal Server Error";
+  }
+}
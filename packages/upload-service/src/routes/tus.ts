@@ -0,0 +1,355 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { Next } from "koa";
+
+import {
+  maxSingleDataItemByteCount,
+  multipartDefaultChunkSize,
+} from "../constants";
+import { KoaContext } from "../server";
+import { InFlightMultiPartUpload } from "../types/dbTypes";
+import {
+  BlocklistedAddressError,
+  ChunkDigestMismatch,
+  DataItemExistsWarning,
+  EnqueuedForValidationError,
+  InsufficientBalance,
+  InvalidChunk,
+  InvalidChunkSize,
+  InvalidDataItem,
+  MultiPartUploadNotFound,
+} from "../utils/errors";
+import {
+  missingChunkRanges,
+  parseUploadChecksumHeader,
+  tusChecksumAlgorithms,
+} from "../utils/multipartChunks";
+import { getMultipartUploadParts } from "../utils/objectStoreUtils";
+import {
+  createInFlightMultipartUpload,
+  finalizeMultipartUpload,
+  paidByFromRawHeaders,
+  terminateMultipartUpload,
+  uploadMultipartChunk,
+  uploadedChunkRanges,
+} from "./multiPartUploads";
+
+// tus 1.0 (https://tus.io/protocols/resumable-upload) on top of the multipart upload machinery.
+// Each PATCH becomes one part of the object store multipart upload, so PATCH bodies must keep
+// the same size except for the last one, and at least the object store's minimum part size
+const tusVersion = "1.0.0";
+const tusExtensions = ["creation", "termination", "checksum"];
+const tusOffsetContentType = "application/offset+octet-stream";
+const checksumMismatchStatus = 460;
+
+function parseNonNegativeIntegerHeader(
+  value: string | string[] | undefined
+): number | undefined {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    return undefined;
+  }
+  return +value;
+}
+
+/** Rejects requests for other tus versions and marks every response with the version in use */
+export async function tusResumable(ctx: KoaContext, next: Next) {
+  ctx.set("Tus-Resumable", tusVersion);
+  if (ctx.method === "OPTIONS") {
+    return next();
+  }
+
+  if (ctx.get("Tus-Resumable") !== tusVersion) {
+    ctx.status = 412;
+    ctx.set("Tus-Version", tusVersion);
+    ctx.message = `Tus-Resumable header must be ${tusVersion}.`;
+    return;
+  }
+  return next();
+}
+
+export async function tusOptions(ctx: KoaContext) {
+  ctx.set("Tus-Version", tusVersion);
+  ctx.set("Tus-Extension", tusExtensions.join(","));
+  ctx.set("Tus-Max-Size", maxSingleDataItemByteCount.toString());
+  ctx.set("Tus-Checksum-Algorithm", tusChecksumAlgorithms.join(","));
+  ctx.status = 204;
+}
+
+export async function tusCreateUpload(ctx: KoaContext) {
+  const { database, objectStore, logger } = ctx.state;
+
+  if (ctx.get("Upload-Defer-Length")) {
+    ctx.status = 400;
+    ctx.message = "Deferred upload length is not supported.";
+    return;
+  }
+
+  const uploadLength = parseNonNegativeIntegerHeader(
+    ctx.req.headers["upload-length"]
+  );
+  if (!uploadLength) {
+    ctx.status = 400;
+    ctx.message = "Upload-Length header must be a positive integer.";
+    return;
+  }
+  if (uploadLength > maxSingleDataItemByteCount) {
+    ctx.status = 413;
+    ctx.message = `Upload-Length exceeds the maximum of ${maxSingleDataItemByteCount} bytes.`;
+    return;
+  }
+
+  try {
+    // Upload-Metadata is ignored, the data item carries its own tags
+    const uploadId = await createInFlightMultipartUpload({
+      database,
+      objectStore,
+      logger,
+      uploadLength,
+    });
+
+    ctx.status = 201;
+    ctx.set("Location", `${ctx.path.replace(/\/$/, "")}/${uploadId}`);
+  } catch (error) {
+    logger.error("Error creating tus upload", {
+      error: error instanceof Error ? error.message : error,
+    });
+    ctx.status = 503;
+    ctx.message = "Internal Server Error";
+  }
+}
+
+/** The offset a tus client resumes from: the end of the contiguous bytes uploaded from the start */
+async function uploadOffset(
+  ctx: KoaContext,
+  upload: InFlightMultiPartUpload & { uploadLength: number }
+): Promise<number> {
+  const chunks = await getMultipartUploadParts(
+    ctx.state.objectStore,
+    upload.uploadKey,
+    upload.uploadId
+  );
+  const [firstMissingRange] = missingChunkRanges({
+    chunks: uploadedChunkRanges(
+      chunks,
+      upload.chunkSize || multipartDefaultChunkSize
+    ),
+    totalByteCount: upload.uploadLength,
+  });
+  return firstMissingRange ? firstMissingRange[0] : upload.uploadLength;
+}
+
+/** Gets the in-flight upload, which must have been created through tus to have a known length */
+async function getTusUpload(
+  ctx: KoaContext
+): Promise<InFlightMultiPartUpload & { uploadLength: number }> {
+  const { uploadId } = ctx.params;
+  const upload = await ctx.state.database.getInflightMultiPartUpload(uploadId);
+  if (upload.uploadLength === undefined) {
+    throw new MultiPartUploadNotFound(uploadId);
+  }
+  return { ...upload, uploadLength: upload.uploadLength };
+}
+
+export async function tusGetUploadOffset(ctx: KoaContext) {
+  const { uploadId } = ctx.params;
+  const { database, logger } = ctx.state;
+
+  ctx.set("Cache-Control", "no-store");
+  try {
+    const upload = await getTusUpload(ctx);
+    ctx.set("Upload-Length", upload.uploadLength.toString());
+    ctx.set("Upload-Offset", (await uploadOffset(ctx, upload)).toString());
+    ctx.status = 200;
+  } catch (error) {
+    if (error instanceof MultiPartUploadNotFound) {
+      // Once finalized, the upload is complete from the client's point of view
+      const finalizedUpload = await database
+        .getFinalizedMultiPartUpload(uploadId)
+        .catch(() => undefined);
+      if (finalizedUpload?.uploadLength !== undefined) {
+        const uploadLength = finalizedUpload.uploadLength.toString();
+        ctx.set("Upload-Length", uploadLength);
+        ctx.set("Upload-Offset", uploadLength);
+        ctx.status = 200;
+        return;
+      }
+      ctx.status = 404;
+      return;
+    }
+    logger.error("Error getting tus upload offset", {
+      uploadId,
+      error: error instanceof Error ? error.message : error,
+    });
+    ctx.status = 503;
+  }
+}
+
+export async function tusPatchUpload(ctx: KoaContext) {
+  const { uploadId, token } = ctx.params;
+  const {
+    database,
+    objectStore,
+    logger,
+    paymentService,
+    arweaveGateway,
+    getArweaveWallet,
+  } = ctx.state;
+
+  if (ctx.get("Content-Type") !== tusOffsetContentType) {
+    ctx.status = 415;
+    ctx.message = `Content-Type must be ${tusOffsetContentType}.`;
+    return;
+  }
+
+  const requestOffset = parseNonNegativeIntegerHeader(
+    ctx.req.headers["upload-offset"]
+  );
+  const contentLength = parseNonNegativeIntegerHeader(
+    ctx.req.headers["content-length"]
+  );
+  if (requestOffset === undefined || !contentLength) {
+    ctx.status = 400;
+    ctx.message =
+      "Upload-Offset and Content-Length headers must be integers and the body must not be empty.";
+    return;
+  }
+
+  let nextOffset: number;
+  let uploadComplete: boolean;
+  try {
+    const checksumHeaderValue = ctx.get("Upload-Checksum");
+    const chunkDigest = checksumHeaderValue
+      ? parseUploadChecksumHeader(checksumHeaderValue)
+      : undefined;
+
+    const upload = await getTusUpload(ctx);
+    const currentOffset = await uploadOffset(ctx, upload);
+    if (requestOffset !== currentOffset) {
+      ctx.status = 409;
+      ctx.message = `Upload-Offset does not match the current offset of ${currentOffset}.`;
+      return;
+    }
+    nextOffset = requestOffset + contentLength;
+    if (nextOffset > upload.uploadLength) {
+      ctx.status = 400;
+      ctx.message = "Chunk exceeds the Upload-Length of the upload.";
+      return;
+    }
+
+    await uploadMultipartChunk({
+      uploadId,
+      chunkOffset: requestOffset,
+      sizeOfChunk: contentLength,
+      stream: ctx.req,
+      chunkDigest,
+      database,
+      objectStore,
+      logger,
+    });
+    uploadComplete = nextOffset === upload.uploadLength;
+  } catch (error) {
+    logger.error("Error patching tus upload", {
+      uploadId,
+      error: error instanceof Error ? error.message : error,
+    });
+    if (error instanceof MultiPartUploadNotFound) {
+      ctx.status = 404;
+    } else if (error instanceof ChunkDigestMismatch) {
+      ctx.status = checksumMismatchStatus;
+      ctx.message = "Checksum Mismatch";
+    } else if (
+      error instanceof InvalidChunk ||
+      error instanceof InvalidChunkSize ||
+      error instanceof InvalidDataItem
+    ) {
+      ctx.status = 400;
+      ctx.message = error.message;
+    } else {
+      ctx.status = 503;
+      ctx.message = "Internal Server Error";
+    }
+    return;
+  }
+
+  if (uploadComplete) {
+    // The last PATCH finalizes like POST /chunks/:token/:uploadId/finalize, the client
+    // follows validation through GET /chunks/:token/:uploadId/status
+    try {
+      await finalizeMultipartUpload({
+        uploadId,
+        paymentService,
+        objectStore,
+        database,
+        arweaveGateway,
+        getArweaveWallet,
+        logger,
+        asyncValidation: true,
+        token: token ?? "arweave",
+        paidBy: paidByFromRawHeaders(ctx.request.req.rawHeaders),
+      });
+    } catch (error) {
+      if (
+        !(error instanceof EnqueuedForValidationError) &&
+        !(error instanceof DataItemExistsWarning)
+      ) {
+        logger.error("Error finalizing tus upload", {
+          uploadId,
+          error: error instanceof Error ? error.message : error,
+        });
+        if (error instanceof InvalidDataItem) {
+          ctx.status = 400;
+          ctx.message = error.message;
+        } else if (error instanceof InsufficientBalance) {
+          ctx.status = 402;
+          ctx.message = error.message;
+        } else if (error instanceof BlocklistedAddressError) {
+          ctx.status = 403;
+          ctx.message = error.message;
+        } else {
+          ctx.status = 503;
+          ctx.message = "Internal Server Error";
+        }
+        return;
+      }
+    }
+  }
+
+  ctx.set("Upload-Offset", nextOffset.toString());
+  ctx.status = 204;
+}
+
+export async function tusTerminateUpload(ctx: KoaContext) {
+  const { uploadId } = ctx.params;
+  const { database, logger } = ctx.state;
+
+  try {
+    await getTusUpload(ctx);
+    await terminateMultipartUpload({ uploadId, database });
+    logger.info("Terminated tus upload", { uploadId });
+    ctx.status = 204;
+  } catch (error) {
+    if (error instanceof MultiPartUploadNotFound) {
+      ctx.status = 404;
+      return;
+    }
+    logger.error("Error terminating tus upload", {
+      uploadId,
+      error: error instanceof Error ? error.message : error,
+    });
+    ctx.status = 503;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { Next } from "koa";
+
+import { KoaContext } from "../server";
+import { readJsonRequestBody } from "../utils/common";
+import { RequestBodyTooLarge } from "../utils/errors";
+import { isValidWebhookUrl } from "../utils/webhooks";
+
+const maxWebhookRequestByteCount = 4096;
+
+function requireSignedRequest(ctx: KoaContext): string | undefined {
+  const ownerPublicAddress = ctx.state.ownerPublicAddress as string | undefined;
+  if (!ownerPublicAddress) {
+    ctx.status = 401;
+    ctx.body =
+      "Webhook registrations require a signed request (x-signature, x-public-key and x-nonce headers)";
+  }
+  return ownerPublicAddress;
+}
+
+export async function getWebhookRegistration(ctx: KoaContext, next: Next) {
+  const { logger, database } = ctx.state;
+  const ownerPublicAddress = requireSignedRequest(ctx);
+  if (!ownerPublicAddress) {
+    return next();
+  }
+
+  try {
+    const registration = await database.getWebhookRegistration(
+      ownerPublicAddress
+    );
+    if (!registration) {
+      ctx.status = 404;
+      ctx.body = "No webhook registered for this wallet";
+      return next();
+    }
+    ctx.body = registration;
+  } catch (error) {
+    logger.error("Error getting webhook registration!", { error });
+    ctx.status = 503;
+    ctx.body = "Internal Server Error";
+  }
+  return next();
+}
+
+export async function putWebhookRegistration(ctx: KoaContext, next: Next) {
+  const { logger, database } = ctx.state;
+  const ownerPublicAddress = requireSignedRequest(ctx);
+  if (!ownerPublicAddress) {
+    return next();
+  }
+
+  let webhookUrl: unknown;
+  try {
+    const body = await readJsonRequestBody(ctx, maxWebhookRequestByteCount);
+    webhookUrl = (body as { url?: unknown } | null)?.url;
+  } catch (error) {
+    ctx.status = error instanceof RequestBodyTooLarge ? 413 : 400;
+    ctx.body = (error as Error).message;
+    return next();
+  }
+
+  if (typeof webhookUrl !== "string" || !isValidWebhookUrl(webhookUrl)) {
+    ctx.status = 400;
+    ctx.body = "Invalid webhook url";
+    return next();
+  }
+
+  try {
+    ctx.body = await database.putWebhookRegistration({
+      ownerPublicAddress,
+      webhookUrl,
+    });
+    logger.info("Webhook registered.", { ownerPublicAddress, webhookUrl });
+  } catch (error) {
+    logger.error("Error putting webhook registration!", { error });
+    ctx.status = 503;
+    ctx.body = "Internal Server Error";
+  }
+  return next();
+}
+
+export async function deleteWebhookRegistration(ctx: KoaContext, next: Next) {
+  const { logger, database } = ctx.state;
+  const ownerPublicAddress = requireSignedRequest(ctx);
+  if (!ownerPublicAddress) {
+    return next();
+  }
+
+  try {
+    if (!(await database.deleteWebhookRegistration(ownerPublicAddress))) {
+      ctx.status = 404;
+      ctx.body = "No webhook registered for this wallet";
+      return next();
+    }
+    ctx.status = 204;
+    logger.info("Webhook registration deleted.", { ownerPublicAddress });
+  } catch (error) {
+    logger.error("Error deleting webhook registration!", { error });
+    ctx.status = 503;
+    ctx.body = "Internal Server Error";
+  }
+  return next();
+}
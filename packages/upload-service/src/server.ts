@@ -97,6 +97,9 @@ export async function createServer(
     arch.getArweaveWallet ?? defaultArchitecture.getArweaveWallet;
   const getRawDataItemWallet =
     arch.getRawDataItemWallet ?? defaultArchitecture.getRawDataItemWallet;
+  const getBundlerWalletRegistry =
+    arch.getBundlerWalletRegistry ??
+    defaultArchitecture.getBundlerWalletRegistry;
   const arweaveGateway =
     arch.arweaveGateway ?? defaultArchitecture.arweaveGateway;
   const tracer =
@@ -123,6 +126,7 @@ export async function createServer(
       arweaveGateway,
       getArweaveWallet,
       getRawDataItemWallet,
+      getBundlerWalletRegistry,
       tracer,
     })
   );
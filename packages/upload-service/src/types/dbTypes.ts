@@ -15,11 +15,14 @@
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
 import {
+  BundlePlanSlaTrigger,
   ByteCount,
   DataItemId,
   PublicArweaveAddress,
+  StorageTier,
   TransactionId,
   UploadId,
+  WebhookPayload,
   Winston,
 } from "./types";
 
@@ -83,6 +86,8 @@ export interface NewBundle extends BundlePlan {
   bundleId: TransactionId;
   signedDate: Timestamp;
   reward: Winston;
+  /** Reward signed at prepare time, below `reward` when post-bundle re-signed the bundle at the network reward */
+  preparedReward?: Winston;
 
   transactionByteCount?: ByteCount;
   headerByteCount?: ByteCount;
@@ -98,6 +103,14 @@ export interface InsertNewBundleParams {
   payloadByteCount: ByteCount;
 }
 
+export interface UpdateNewBundleRewardParams {
+  planId: PlanId;
+  bundleId: TransactionId;
+  rePricedBundleId: TransactionId;
+  reward: Winston;
+  transactionByteCount: ByteCount;
+}
+
 export interface PostedBundle extends NewBundle {
   postedDate: Timestamp;
 }
@@ -228,6 +241,7 @@ export interface FailedDataItemDBResult extends FailedDataItemDBInsert {
 
 export interface BundlePlanDBInsert {
   plan_id: string;
+  sla_trigger?: BundlePlanSlaTrigger | null;
 }
 
 export interface BundlePlanDBResult
@@ -239,6 +253,7 @@ export interface BundlePlanDBResult
 interface NewBundleDB extends BundlePlanDBResult {
   bundle_id: string;
   reward: string;
+  prepared_reward?: string | null;
 }
 
 export interface NewBundleDBInsert extends NewBundleDB {
@@ -312,6 +327,7 @@ export interface InFlightMultiPartUploadDBInsert {
   created_at: string;
   expires_at: string;
   chunk_size?: string;
+  upload_length?: string;
   failed_reason?: string;
 }
 
@@ -332,6 +348,7 @@ export interface InFlightMultiPartUploadParams {
   uploadId: UploadId;
   uploadKey: string;
   chunkSize?: number;
+  uploadLength?: number;
 }
 
 export interface InFlightMultiPartUpload {
@@ -340,6 +357,8 @@ export interface InFlightMultiPartUpload {
   createdAt: Timestamp;
   expiresAt: Timestamp;
   chunkSize?: number;
+  /** Total byte count declared when the upload was created, only known for tus uploads */
+  uploadLength?: number;
   failedReason?: MultipartUploadFailedReason;
 }
 
@@ -361,6 +380,220 @@ export type DataItemDbResults =
   | PermanentDataItemDBResult
   | FailedDataItemDBResult;
 
+export type DataItemStatus = "new" | "pending" | "permanent" | "failed";
+
+export interface DataItemInfo {
+  status: DataItemStatus;
+  assessedWinstonPrice: Winston;
+  bundleId?: TransactionId;
+  uploadedTimestamp: number;
+  deadlineHeight?: number;
+  failedReason?: DataItemFailedReason;
+  owner: string;
+}
+
+export interface DataItemInfoDBResult {
+  data_item_id: string;
+  status: DataItemStatus;
+  assessed_winston_price: string;
+  uploaded_date: string;
+  deadline_height: string | null;
+  owner_public_address: string;
+  bundle_id: string | null;
+  failed_reason: string | null;
+}
+
+export interface DataItemUpload {
+  dataItemId: TransactionId;
+  status: DataItemStatus;
+  byteCount: ByteCount;
+  assessedWinstonPrice: Winston;
+  bundleId?: TransactionId;
+  uploadedTimestamp: number;
+  failedReason?: DataItemFailedReason;
+}
+
+export interface DataItemUploadDBResult {
+  data_item_id: string;
+  status: DataItemStatus;
+  byte_count: string;
+  assessed_winston_price: string;
+  uploaded_date: string;
+  /** uploaded_date as text to keep the microsecond precision needed by pagination cursors */
+  uploaded_date_cursor: string;
+  bundle_id: string | null;
+  failed_reason: string | null;
+}
+
+/** Position after the last data item of a page of uploads, which are sorted by newest first */
+export interface DataItemUploadsCursor {
+  uploadedDate: string;
+  dataItemId: TransactionId;
+}
+
+export type BundleState =
+  | "planned"
+  | "new"
+  | "posted"
+  | "seeded"
+  | "permanent"
+  | "failed";
+
+/** When a bundle reached each state it has passed through, as milliseconds since epoch */
+export interface BundleTimeline {
+  plannedTimestamp: number;
+  signedTimestamp?: number;
+  postedTimestamp?: number;
+  seededTimestamp?: number;
+  permanentTimestamp?: number;
+  failedTimestamp?: number;
+}
+
+export interface BundleLifecycle {
+  planId: PlanId;
+  state: BundleState;
+  /** Not yet assigned while the bundle is only planned */
+  bundleId?: TransactionId;
+  slaTrigger?: BundlePlanSlaTrigger;
+  reward?: Winston;
+  preparedReward?: Winston;
+  transactionByteCount?: ByteCount;
+  headerByteCount?: ByteCount;
+  payloadByteCount?: ByteCount;
+  usdToArRate?: number;
+  blockHeight?: BlockHeight;
+  indexedOnGQL?: boolean;
+  failedReason?: BundleFailedReason;
+  timeline: BundleTimeline;
+}
+
+export interface BundleLifecycleDBResult {
+  plan_id: string;
+  state: BundleState;
+  bundle_id: string | null;
+  sla_trigger: string | null;
+  reward: string | null;
+  prepared_reward: string | null;
+  transaction_byte_count: string | null;
+  header_byte_count: string | null;
+  payload_byte_count: string | null;
+  usd_to_ar_rate: string | null;
+  block_height: string | null;
+  indexed_on_gql: boolean | null;
+  failed_reason: string | null;
+  planned_date: string;
+  /** planned_date as text to keep the microsecond precision needed by pagination cursors */
+  planned_date_cursor: string;
+  signed_date: string | null;
+  posted_date: string | null;
+  seeded_date: string | null;
+  permanent_date: string | null;
+  failed_date: string | null;
+}
+
+/** Position after the last bundle of a page of bundles, which are sorted by newest plan first */
+export interface BundleLifecyclesCursor {
+  plannedDate: string;
+  planId: PlanId;
+}
+
+export interface BundleDataItem {
+  dataItemId: TransactionId;
+  status: DataItemStatus;
+  ownerPublicAddress: PublicArweaveAddress;
+  byteCount: ByteCount;
+  assessedWinstonPrice: Winston;
+  premiumFeatureType?: string;
+  uploadedTimestamp: number;
+  failedReason?: DataItemFailedReason;
+}
+
+export interface BundleDataItemDBResult {
+  data_item_id: string;
+  status: DataItemStatus;
+  owner_public_address: string;
+  byte_count: string;
+  assessed_winston_price: string;
+  premium_feature_type: string | null;
+  uploaded_date: string;
+  failed_reason: string | null;
+}
+
+export interface ConfigDBResult {
+  key: string;
+  value: string;
+  description: string | null;
+  updated_at: string;
+}
+
+export interface WebhookRegistration {
+  ownerPublicAddress: PublicArweaveAddress;
+  webhookUrl: string;
+  createdDate: Timestamp;
+  updatedDate: Timestamp;
+}
+
+export interface WebhookRegistrationDBResult {
+  owner_public_address: string;
+  webhook_url: string;
+  created_date: string;
+  updated_date: string;
+}
+
+export interface DataItemWebhookDBInsert {
+  data_item_id: string;
+  webhook_url: string;
+}
+
+export interface DataItemWebhookDBResult extends DataItemWebhookDBInsert {
+  created_date: string;
+}
+
+export interface WebhookDeadLetter {
+  webhookUrl: string;
+  payload: WebhookPayload;
+  failedReason: string;
+  attemptsMade: number;
+}
+
+export interface WebhookDeadLetterDBInsert {
+  data_item_id: string;
+  webhook_url: string;
+  event: string;
+  payload: string;
+  failed_reason: string;
+  attempts_made: number;
+}
+
+export interface DataItemStorageLocationDBResult {
+  data_item_id: string;
+  storage_tier: StorageTier;
+  tiered_date: string;
+  last_accessed_date: string | null;
+  access_count: number;
+}
+
+/** A permanent data item whose payload may need to move to another storage tier */
+export interface StorageTieringCandidate {
+  dataItemId: TransactionId;
+  uploadedDate: Timestamp;
+  /** Undefined while the payload is still where it was stored on upload */
+  storageTier?: StorageTier;
+  tieredDate?: Timestamp;
+  lastAccessedDate?: Timestamp;
+  /** Reads of the payload since it was last moved */
+  accessCount: number;
+}
+
+export interface StorageTieringCandidateDBResult {
+  data_item_id: string;
+  uploaded_date: string;
+  storage_tier: StorageTier | null;
+  tiered_date: string | null;
+  last_accessed_date: string | null;
+  access_count: number | null;
+}
+
 // x402 Payment Types
 export interface X402Payment {
   paymentId: string;
@@ -75,3 +75,98 @@ export interface DataItemOffsetsInfo {
   parentDataItemId?: TransactionId;
   startOffsetInParentDataItemPayload?: number;
 }
+
+/**
+ * A tag match rule for a dedicated bundle type. The rule matches a tag with the
+ * given name whose value equals `value` or starts with `valueStartsWith`. When
+ * neither is provided, any tag with the given name will match
+ */
+export interface DedicatedBundleTagRule {
+  name: string;
+  value?: string;
+  valueStartsWith?: string;
+}
+
+export interface DedicatedBundleType {
+  allowedWallets: string[];
+  bundlerAppName?: string;
+  allowedProcesses?: string[];
+  /** When provided, a data item must include at least one matching tag to be packed into this bundle type */
+  mustHaveOneOfTags?: DedicatedBundleTagRule[];
+  /** Overrides of the default bundle planning SLA for this bundle type */
+  planningSla?: Partial<BundlePlanningSla>;
+  /** Priority lanes keep being planned while the wallet reserve forecast pauses the other lanes */
+  priority?: boolean;
+}
+
+export type DedicatedBundleTypes = Record<string, DedicatedBundleType>;
+
+/** Service level targets used when planning the bundles of a premium feature type */
+export interface BundlePlanningSla {
+  /** Max time a data item may wait in new_data_item before its bundle plan is expedited */
+  maxWaitMs: number;
+  /** Fraction (0 - 1) of the max bundle byte count or data item count a plan must reach before it is prepared */
+  minFillRatio: number;
+  /** Max total data item byte count to pack into a single bundle */
+  maxBundleByteCount: ByteCount;
+}
+
+export type BundlePlanSlaTrigger = "max_wait" | "min_fill_ratio";
+
+/**
+ * Tier holding the payload of a permanent data item after the tier-storage job has moved it.
+ * `arweave` means no copy is held by the bundler and the payload is only retrievable from Arweave
+ */
+export type StorageTier = "object_store" | "archive" | "arweave";
+
+/** Thresholds of the policy that moves the payloads of permanent data items between storage tiers */
+export interface StorageTieringPolicy {
+  /** Age after which a payload is moved out of the FS backup and kept in the object store */
+  fsBackupMaxAgeMs: number;
+  /** Age after which a payload is moved from the object store to the archive */
+  objectStoreMaxAgeMs: number;
+  /** Time since a payload was last read, or last moved, before it can be archived */
+  archiveMinIdleMs: number;
+  /** Reads of an archived payload that promote it back to the object store */
+  promoteMinAccessCount: number;
+}
+
+/**
+ * A bundle signing wallet in the BUNDLER_WALLETS_FILE rotation schedule. The wallet signs bundles and
+ * receipts from activeFrom until activeUntil, ISO 8601 timestamps which are unbounded when omitted
+ */
+export interface BundlerWalletConfig {
+  jwkFile: string;
+  activeFrom?: string;
+  activeUntil?: string;
+}
+
+/** How prepare-bundle picks among several active bundle signing wallets */
+export type BundlerWalletSelectionStrategy = "round-robin" | "balance";
+
+/** Data item lifecycle transitions that are delivered to registered webhooks */
+export type WebhookEventType = "permanent" | "failed" | "requeued";
+
+export interface WebhookPayload {
+  event: WebhookEventType;
+  dataItemId: DataItemId;
+  /** Unix timestamp (ms) of the lifecycle transition */
+  timestamp: number;
+  bundleId?: TransactionId;
+  blockHeight?: number;
+  failedReason?: string;
+}
+
+/** Forecast of the bundler wallets' AR reserve, computed by the forecast-wallet-reserve job */
+export interface WalletReserveForecast {
+  /** Summed balance of the active bundler wallets, in winston */
+  balance: string;
+  /** Rewards of bundles signed but not yet posted, in winston */
+  pendingRewards: string;
+  /** Winston spent per hour on the rewards of bundles posted within the forecast window */
+  burnRatePerHour: string;
+  /** Hours until the balance left after pending rewards is spent. Null when nothing was spent within the window */
+  hoursRemaining: number | null;
+  nonPriorityLanesPaused: boolean;
+  forecastedAt: string;
+}
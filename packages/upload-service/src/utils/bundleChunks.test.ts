@@ -0,0 +1,65 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { expect } from "chai";
+
+import { chunkByteRanges, sampleChunkIndexes } from "./bundleChunks";
+
+const KiB = 1024;
+
+describe("chunkByteRanges function", () => {
+  it("returns a single chunk for data smaller than the max chunk size", () => {
+    expect(chunkByteRanges(1211)).to.deep.equal([
+      { minByteRange: 0, maxByteRange: 1211 },
+    ]);
+  });
+
+  it("splits data into max size chunks followed by the remainder", () => {
+    expect(chunkByteRanges(256 * KiB * 2 + 100 * KiB)).to.deep.equal([
+      { minByteRange: 0, maxByteRange: 256 * KiB },
+      { minByteRange: 256 * KiB, maxByteRange: 512 * KiB },
+      { minByteRange: 512 * KiB, maxByteRange: 612 * KiB },
+    ]);
+  });
+
+  it("balances the last two chunks when the remainder is below the min chunk size", () => {
+    expect(chunkByteRanges(256 * KiB + 10 * KiB)).to.deep.equal([
+      { minByteRange: 0, maxByteRange: 133 * KiB },
+      { minByteRange: 133 * KiB, maxByteRange: 266 * KiB },
+    ]);
+  });
+
+  it("does not return an empty chunk for data that is a multiple of the max chunk size", () => {
+    expect(chunkByteRanges(256 * KiB * 2)).to.deep.equal([
+      { minByteRange: 0, maxByteRange: 256 * KiB },
+      { minByteRange: 256 * KiB, maxByteRange: 512 * KiB },
+    ]);
+  });
+});
+
+describe("sampleChunkIndexes function", () => {
+  it("returns every chunk index when the sample size is 0 or covers every chunk", () => {
+    expect(sampleChunkIndexes(4, 0)).to.deep.equal([0, 1, 2, 3]);
+    expect(sampleChunkIndexes(4, 10)).to.deep.equal([0, 1, 2, 3]);
+  });
+
+  it("always samples the first and last chunks", () => {
+    const randomValues = [0.5, 0.5, 0.25];
+    expect(
+      sampleChunkIndexes(100, 4, () => randomValues.shift() ?? 0)
+    ).to.deep.equal([0, 25, 50, 99]);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { ByteCount } from "../types/types";
+
+// Chunk sizes of the Arweave data chunking scheme
+const maxChunkByteCount = 256 * 1024;
+const minChunkByteCount = 32 * 1024;
+
+export interface ChunkByteRange {
+  minByteRange: number;
+  maxByteRange: number;
+}
+
+/**
+ * Splits transaction data into the byte ranges of its Arweave chunks, matching the layout used to
+ * compute the data root: full size chunks, with the last two balanced when the final one would be
+ * smaller than the minimum chunk size
+ */
+export function chunkByteRanges(dataSize: ByteCount): ChunkByteRange[] {
+  const byteRanges: ChunkByteRange[] = [];
+  let cursor = 0;
+  let rest = dataSize;
+
+  while (rest >= maxChunkByteCount) {
+    let chunkByteCount = maxChunkByteCount;
+    const nextChunkByteCount = rest - maxChunkByteCount;
+    if (nextChunkByteCount > 0 && nextChunkByteCount < minChunkByteCount) {
+      chunkByteCount = Math.ceil(rest / 2);
+    }
+    byteRanges.push({
+      minByteRange: cursor,
+      maxByteRange: cursor + chunkByteCount,
+    });
+    cursor += chunkByteCount;
+    rest -= chunkByteCount;
+  }
+  if (rest > 0) {
+    byteRanges.push({ minByteRange: cursor, maxByteRange: cursor + rest });
+  }
+  return byteRanges;
+}
+
+/** Picks the chunk indexes to check: always the first and last chunks, plus random others up to the sample size */
+export function sampleChunkIndexes(
+  chunkCount: number,
+  sampleSize: number,
+  random: () => number = Math.random
+): number[] {
+  if (sampleSize <= 0 || sampleSize >= chunkCount) {
+    return [...Array(chunkCount).keys()];
+  }
+
+  const sampledIndexes = new Set([0, chunkCount - 1]);
+  while (sampledIndexes.size < sampleSize) {
+    sampledIndexes.add(Math.floor(random() * chunkCount));
+  }
+  return [...sampledIndexes].sort((a, b) => a - b);
+}
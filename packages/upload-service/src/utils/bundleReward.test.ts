@@ -0,0 +1,38 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { expect } from "chai";
+
+import { W } from "../types/winston";
+import { bundleRewardIsStale } from "./bundleReward";
+
+describe("bundleRewardIsStale function", () => {
+  it("returns false when the network reward is below the signed reward", () => {
+    expect(bundleRewardIsStale(W(1000), W(900), 0.1)).to.be.false;
+  });
+
+  it("returns false when the network reward rose within the tolerance", () => {
+    expect(bundleRewardIsStale(W(1000), W(1100), 0.1)).to.be.false;
+  });
+
+  it("returns true when the network reward rose beyond the tolerance", () => {
+    expect(bundleRewardIsStale(W(1000), W(1101), 0.1)).to.be.true;
+  });
+
+  it("treats any rise as stale with a zero tolerance", () => {
+    expect(bundleRewardIsStale(W(1000), W(1001), 0)).to.be.true;
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { bundleRewardRepriceTolerance } from "../constants";
+import { Winston } from "../types/winston";
+
+/**
+ * A bundle reward is stale once the network reward for the bundle rises more than the tolerance
+ * above it, leaving the transaction likely to be dropped before it is mined
+ */
+export function bundleRewardIsStale(
+  signedReward: Winston,
+  networkReward: Winston,
+  tolerance: number = bundleRewardRepriceTolerance
+): boolean {
+  return networkReward.isGreaterThan(signedReward.times(1 + tolerance));
+}
@@ -0,0 +1,212 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { expect } from "chai";
+import { readFileSync } from "fs";
+
+import { testArweaveJWK } from "../../tests/test_helpers";
+import { W, Winston } from "../types/winston";
+import {
+  BundlerWalletRegistry,
+  bundlerSigningKeyInfo,
+  bundlerWalletFromJwk,
+  bundlerWalletStatus,
+} from "./bundlerWallets";
+
+const secondJwk = JSON.parse(
+  readFileSync(
+    // cspell:disable
+    "tests/stubFiles/blocklistedWallet.xnbLpqfiRIInqrxkhV7M-iSr8YUtm9aoezGjSnXnOFo.json", // cspell:enable
+    "utf-8"
+  )
+);
+
+const now = new Date("2026-10-19T00:00:00.000Z");
+
+function stubGateway(balances: Record<string, Winston>) {
+  return {
+    getBalanceForWallet: async (address: string) => balances[address] ?? W(0),
+  };
+}
+
+describe("bundlerWalletStatus function", () => {
+  it("reports pending, active and retired wallets from their schedule", () => {
+    const schedule = {
+      activeFrom: new Date("2026-10-01T00:00:00.000Z"),
+      activeUntil: new Date("2026-11-01T00:00:00.000Z"),
+    };
+
+    expect(
+      bundlerWalletStatus(schedule, new Date("2026-09-30T00:00:00.000Z"))
+    ).to.equal("pending");
+    expect(bundlerWalletStatus(schedule, now)).to.equal("active");
+    expect(
+      bundlerWalletStatus(schedule, new Date("2026-11-01T00:00:00.000Z"))
+    ).to.equal("retired");
+    expect(bundlerWalletStatus({}, now)).to.equal("active");
+  });
+});
+
+describe("bundlerSigningKeyInfo function", () => {
+  it("describes the key and schedule of a wallet", () => {
+    const wallet = bundlerWalletFromJwk(testArweaveJWK, {
+      activeUntil: "2026-10-01T00:00:00.000Z",
+    });
+
+    expect(bundlerSigningKeyInfo(wallet, now)).to.deep.equal({
+      // cspell:disable
+      address: "8wgRDgvYOrtSaWEIV21g0lTuWDUnTu4_iYj4hmA7PI0", // cspell:enable
+      publicKey: testArweaveJWK.n,
+      status: "retired",
+      activeFrom: undefined,
+      activeUntil: "2026-10-01T00:00:00.000Z",
+    });
+  });
+});
+
+describe("BundlerWalletRegistry class", () => {
+  const oldWallet = bundlerWalletFromJwk(testArweaveJWK, {
+    activeUntil: "2026-10-20T00:00:00.000Z",
+  });
+  const newWallet = bundlerWalletFromJwk(secondJwk, {
+    activeFrom: "2026-10-18T00:00:00.000Z",
+  });
+  const reward = W(1000);
+
+  it("signs receipts with the most recently activated wallet during an overlap window", () => {
+    const registry = new BundlerWalletRegistry([oldWallet, newWallet]);
+
+    expect(registry.activeWallets(now)).to.have.length(2);
+    expect(registry.primaryWallet(now).address).to.equal(newWallet.address);
+  });
+
+  it("publishes retired wallets but does not sign with them", () => {
+    const registry = new BundlerWalletRegistry([oldWallet, newWallet]);
+    const afterRotation = new Date("2026-10-21T00:00:00.000Z");
+
+    expect(registry.activeWallets(afterRotation)).to.deep.equal([newWallet]);
+    expect(
+      registry.publishedWallets(afterRotation).map(({ address }) => address)
+    ).to.deep.equal([oldWallet.address, newWallet.address]);
+  });
+
+  it("does not publish wallets before their activeFrom", () => {
+    const registry = new BundlerWalletRegistry([oldWallet, newWallet]);
+    const beforeRotation = new Date("2026-10-17T00:00:00.000Z");
+
+    expect(registry.publishedWallets(beforeRotation)).to.deep.equal([
+      oldWallet,
+    ]);
+    expect(registry.primaryWallet(beforeRotation)).to.equal(oldWallet);
+  });
+
+  it("finds published wallets by public key", () => {
+    const registry = new BundlerWalletRegistry([oldWallet, newWallet]);
+    const beforeRotation = new Date("2026-10-17T00:00:00.000Z");
+
+    expect(registry.findPublishedWallet(newWallet.publicKey, now)).to.equal(
+      newWallet
+    );
+    expect(registry.findPublishedWallet(newWallet.publicKey, beforeRotation)).to
+      .be.undefined;
+  });
+
+  it("selects active wallets round-robin", async () => {
+    const registry = new BundlerWalletRegistry([oldWallet, newWallet]);
+    const arweaveGateway = stubGateway({
+      [oldWallet.address]: W(5000),
+      [newWallet.address]: W(5000),
+    });
+
+    const selected: string[] = [];
+    for (let i = 0; i < 4; i++) {
+      selected.push(
+        (
+          await registry.selectBundleSigningWallet({
+            reward,
+            arweaveGateway,
+            now,
+          })
+        ).address
+      );
+    }
+
+    expect(selected).to.deep.equal([
+      oldWallet.address,
+      newWallet.address,
+      oldWallet.address,
+      newWallet.address,
+    ]);
+  });
+
+  it("skips wallets that cannot cover the reward when selecting round-robin", async () => {
+    const registry = new BundlerWalletRegistry([oldWallet, newWallet]);
+    const arweaveGateway = stubGateway({
+      [oldWallet.address]: W(10),
+      [newWallet.address]: W(5000),
+    });
+
+    for (let i = 0; i < 2; i++) {
+      const { address } = await registry.selectBundleSigningWallet({
+        reward,
+        arweaveGateway,
+        now,
+      });
+      expect(address).to.equal(newWallet.address);
+    }
+  });
+
+  it("selects the wallet with the highest balance with the balance strategy", async () => {
+    const registry = new BundlerWalletRegistry(
+      [oldWallet, newWallet],
+      "balance"
+    );
+    const arweaveGateway = stubGateway({
+      [oldWallet.address]: W(9000),
+      [newWallet.address]: W(5000),
+    });
+
+    const { address } = await registry.selectBundleSigningWallet({
+      reward,
+      arweaveGateway,
+      now,
+    });
+    expect(address).to.equal(oldWallet.address);
+  });
+
+  it("findFundedWallet returns another active wallet able to cover the reward", async () => {
+    const registry = new BundlerWalletRegistry([oldWallet, newWallet]);
+
+    expect(
+      (
+        await registry.findFundedWallet({
+          reward,
+          arweaveGateway: stubGateway({ [newWallet.address]: W(5000) }),
+          excludeAddress: oldWallet.address,
+          now,
+        })
+      )?.address
+    ).to.equal(newWallet.address);
+    expect(
+      await registry.findFundedWallet({
+        reward,
+        arweaveGateway: stubGateway({ [oldWallet.address]: W(5000) }),
+        excludeAddress: oldWallet.address,
+        now,
+      })
+    ).to.be.undefined;
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import * as fs from "fs";
+import winston from "winston";
+
+import { Gateway } from "../arch/arweaveGateway";
+import {
+  bundlerWalletSelectionStrategy,
+  bundlerWalletsConfig,
+  turboLocalJwk,
+} from "../constants";
+import defaultLogger from "../logger";
+import { JWKInterface } from "../types/jwkTypes";
+import {
+  BundlerWalletConfig,
+  BundlerWalletSelectionStrategy,
+  PublicArweaveAddress,
+} from "../types/types";
+import { Winston } from "../types/winston";
+import { jwkToPublicArweaveAddress } from "./base64";
+import { getPublicKeyFromJwk } from "./common";
+
+export interface BundlerWallet {
+  jwk: JWKInterface;
+  address: PublicArweaveAddress;
+  /** RSA modulus (base64url), which verifies the bundles and receipts signed by this wallet */
+  publicKey: string;
+  activeFrom?: Date;
+  activeUntil?: Date;
+}
+
+/** A wallet is pending before its activeFrom, and retired from its activeUntil */
+export type BundlerWalletStatus = "pending" | "active" | "retired";
+
+export function bundlerWalletStatus(
+  {
+    activeFrom,
+    activeUntil,
+  }: Pick<BundlerWallet, "activeFrom" | "activeUntil">,
+  now: Date = new Date()
+): BundlerWalletStatus {
+  if (activeFrom && now < activeFrom) {
+    return "pending";
+  }
+  if (activeUntil && now >= activeUntil) {
+    return "retired";
+  }
+  return "active";
+}
+
+export function bundlerWalletFromJwk(
+  jwk: JWKInterface,
+  { activeFrom, activeUntil }: Omit<BundlerWalletConfig, "jwkFile"> = {}
+): BundlerWallet {
+  return {
+    jwk,
+    address: jwkToPublicArweaveAddress(jwk),
+    publicKey: getPublicKeyFromJwk(jwk),
+    activeFrom: activeFrom ? new Date(activeFrom) : undefined,
+    activeUntil: activeUntil ? new Date(activeUntil) : undefined,
+  };
+}
+
+export interface BundlerSigningKeyInfo {
+  address: PublicArweaveAddress;
+  publicKey: string;
+  status: BundlerWalletStatus;
+  activeFrom?: string;
+  activeUntil?: string;
+}
+
+/** Public description of a bundler wallet's key and the period it signs within */
+export function bundlerSigningKeyInfo(
+  wallet: BundlerWallet,
+  now: Date = new Date()
+): BundlerSigningKeyInfo {
+  return {
+    address: wallet.address,
+    publicKey: wallet.publicKey,
+    status: bundlerWalletStatus(wallet, now),
+    activeFrom: wallet.activeFrom?.toISOString(),
+    activeUntil: wallet.activeUntil?.toISOString(),
+  };
+}
+
+/**
+ * Holds the bundle signing wallets and their rotation schedule. Several wallets can be active at
+ * once, e.g. during the overlap window of a rotation, and prepare-bundle spreads bundles across them.
+ * Receipts are signed by the primary wallet, the most recently activated one
+ */
+export class BundlerWalletRegistry {
+  private nextRoundRobinIndex = 0;
+
+  constructor(
+    private readonly wallets: BundlerWallet[],
+    private readonly selectionStrategy: BundlerWalletSelectionStrategy = "round-robin"
+  ) {}
+
+  public activeWallets(now: Date = new Date()): BundlerWallet[] {
+    return this.wallets.filter(
+      (wallet) => bundlerWalletStatus(wallet, now) === "active"
+    );
+  }
+
+  /** Wallets whose signatures can currently be encountered: the active and the retired ones */
+  public publishedWallets(now: Date = new Date()): BundlerWallet[] {
+    return this.wallets.filter(
+      (wallet) => bundlerWalletStatus(wallet, now) !== "pending"
+    );
+  }
+
+  /** Finds the published wallet with the given public key, if any */
+  public findPublishedWallet(
+    publicKey: string,
+    now: Date = new Date()
+  ): BundlerWallet | undefined {
+    return this.publishedWallets(now).find(
+      (wallet) => wallet.publicKey === publicKey
+    );
+  }
+
+  public primaryWallet(now: Date = new Date()): BundlerWallet {
+    const activeWallets = this.activeWallets(now);
+    if (activeWallets.length === 0) {
+      throw new Error("No active bundler wallet! Check BUNDLER_WALLETS_FILE");
+    }
+    return activeWallets.reduce((primary, wallet) =>
+      (wallet.activeFrom?.getTime() ?? 0) >=
+      (primary.activeFrom?.getTime() ?? 0)
+        ? wallet
+        : primary
+    );
+  }
+
+  /**
+   * Picks the active wallet to sign the next bundle with. Round-robin skips wallets that cannot
+   * cover the reward, balance-aware selection picks the wallet with the highest balance
+   */
+  public async selectBundleSigningWallet({
+    reward,
+    arweaveGateway,
+    logger = defaultLogger,
+    now = new Date(),
+  }: {
+    reward: Winston;
+    arweaveGateway: Pick<Gateway, "getBalanceForWallet">;
+    logger?: winston.Logger;
+    now?: Date;
+  }): Promise<BundlerWallet> {
+    const activeWallets = this.activeWallets(now);
+    if (activeWallets.length <= 1) {
+      return this.primaryWallet(now);
+    }
+
+    if (this.selectionStrategy === "balance") {
+      const balances = await Promise.all(
+        activeWallets.map(({ address }) =>
+          arweaveGateway.getBalanceForWallet(address)
+        )
+      );
+      const maxBalance = Winston.max(...balances);
+      return activeWallets[balances.indexOf(maxBalance)];
+    }
+
+    const startIndex = this.nextRoundRobinIndex++ % activeWallets.length;
+    for (let i = 0; i < activeWallets.length; i++) {
+      const wallet = activeWallets[(startIndex + i) % activeWallets.length];
+      const balance = await arweaveGateway.getBalanceForWallet(wallet.address);
+      if (balance.isGreaterThanOrEqualTo(reward)) {
+        return wallet;
+      }
+      logger.warn(
+        "Skipping bundler wallet without enough balance for reward.",
+        {
+          address: wallet.address,
+          balance,
+          reward,
+        }
+      );
+    }
+    return activeWallets[startIndex];
+  }
+
+  /** Finds another active wallet able to cover a bundle reward */
+  public async findFundedWallet({
+    reward,
+    arweaveGateway,
+    excludeAddress,
+    now = new Date(),
+  }: {
+    reward: Winston;
+    arweaveGateway: Pick<Gateway, "getBalanceForWallet">;
+    excludeAddress?: PublicArweaveAddress;
+    now?: Date;
+  }): Promise<BundlerWallet | undefined> {
+    for (const wallet of this.activeWallets(now)) {
+      if (wallet.address === excludeAddress) {
+        continue;
+      }
+      const balance = await arweaveGateway.getBalanceForWallet(wallet.address);
+      if (balance.isGreaterThanOrEqualTo(reward)) {
+        return wallet;
+      }
+    }
+    return undefined;
+  }
+}
+
+let bundlerWalletRegistry: BundlerWalletRegistry | undefined;
+
+/** Registry of the wallets in BUNDLER_WALLETS_FILE, or of the TURBO_JWK_FILE wallet when it is not set */
+export function getBundlerWalletRegistry(): BundlerWalletRegistry {
+  if (!bundlerWalletRegistry) {
+    let wallets: BundlerWallet[];
+    if (bundlerWalletsConfig) {
+      wallets = bundlerWalletsConfig.map(({ jwkFile, ...schedule }) =>
+        bundlerWalletFromJwk(
+          JSON.parse(fs.readFileSync(jwkFile, "utf-8")),
+          schedule
+        )
+      );
+    } else if (turboLocalJwk) {
+      wallets = [bundlerWalletFromJwk(turboLocalJwk)];
+    } else {
+      throw new Error(
+        "Local JWK wallet not configured. Please set TURBO_JWK_FILE or BUNDLER_WALLETS_FILE in .env"
+      );
+    }
+    bundlerWalletRegistry = new BundlerWalletRegistry(
+      wallets,
+      bundlerWalletSelectionStrategy
+    );
+  }
+  return bundlerWalletRegistry;
+}
@@ -250,6 +250,74 @@ describe("getPremiumFeatureType function", () => {
     ).to.equal("ario_dedicated_bundles");
   });
 
+  describe("with runtime dedicated bundle types", () => {
+    const runtimeBundleTypes = {
+      ...dedicatedBundleTypes,
+      new_customer_dedicated_bundles: {
+        allowedWallets: [ownerPublicAddress],
+        bundlerAppName: "New Customer",
+      },
+      tagged_dedicated_bundles: {
+        allowedWallets: [],
+        mustHaveOneOfTags: [{ name: "App-Name", value: "Tagged-App" }],
+      },
+    };
+
+    it("returns an operator defined premium feature type for an allowed wallet", () => {
+      expect(
+        getPremiumFeatureType(
+          ownerPublicAddress,
+          [],
+          signatureType,
+          [],
+          undefined,
+          runtimeBundleTypes
+        )
+      ).to.equal("new_customer_dedicated_bundles");
+    });
+
+    it("returns an operator defined premium feature type for a matching tag from any wallet", () => {
+      expect(
+        getPremiumFeatureType(
+          "some other wallet",
+          [{ name: "App-Name", value: "Tagged-App" }],
+          signatureType,
+          [],
+          undefined,
+          runtimeBundleTypes
+        )
+      ).to.equal("tagged_dedicated_bundles");
+    });
+
+    it("prefers wallet restricted premium feature types over tag only premium feature types", () => {
+      expect(
+        getPremiumFeatureType(
+          ownerPublicAddress,
+          [{ name: "App-Name", value: "ArDrive-Web" }],
+          signatureType,
+          [],
+          undefined,
+          runtimeBundleTypes
+        )
+      ).to.equal("new_customer_dedicated_bundles");
+    });
+
+    it("returns the default premium feature type when a compile-time bundle type has been disabled", () => {
+      const { ardrive_dedicated_bundles: _, ...withoutArDrive } =
+        dedicatedBundleTypes;
+      expect(
+        getPremiumFeatureType(
+          ownerPublicAddress,
+          [{ name: "App-Name", value: "ArDrive-CLI" }],
+          signatureType,
+          [],
+          undefined,
+          withoutArDrive
+        )
+      ).to.equal("default");
+    });
+  });
+
   describe("getErrorCodeFromErrorObject function", () => {
     it("returns the error code when error is an object with a string code property", () => {
       const error = { code: "ENOENT", message: "File not found" };
@@ -21,26 +21,26 @@ import winston from "winston";
 
 import {
   aoDedicatedBundlesPremiumFeatureType,
-  arDriveDedicatedBundlesPremiumFeatureType,
   arioDedicatedBundlesPremiumFeatureType,
   dedicatedBundleTypes,
   defaultPremiumFeatureType,
   kyveDedicatedBundlesPremiumFeatureType,
   octetStreamContentType,
-  premiumPaidFeatureTypes,
   rePostDataItemThresholdNumberOfBlocks,
-  warpDedicatedBundlesPremiumFeatureType,
 } from "../constants";
 import defaultLogger from "../logger";
 import { KoaContext } from "../server";
 import { JWKInterface } from "../types/jwkTypes";
 import {
   ByteCount,
+  DedicatedBundleTypes,
   ParsedDataItemHeader,
   PayloadInfo,
   SignatureConfig,
   TransactionId,
 } from "../types/types";
+import { tagsMatchDedicatedBundleType } from "./dedicatedBundleTypes";
+import { InvalidRequestBody, RequestBodyTooLarge } from "./errors";
 
 export function isTestEnv(): boolean {
   return process.env.NODE_ENV === "test";
@@ -155,19 +155,37 @@ export function getPremiumFeatureType(
   tags: Tag[],
   signatureType: SignatureConfig,
   nestedDataItemHeaders: ParsedDataItemHeader[],
-  targetPublicAddress?: string | undefined
+  targetPublicAddress?: string | undefined,
+  bundleTypes: DedicatedBundleTypes = dedicatedBundleTypes
 ): string {
-  if (signatureType === SignatureConfig.KYVE) {
+  if (
+    signatureType === SignatureConfig.KYVE &&
+    bundleTypes[kyveDedicatedBundlesPremiumFeatureType] !== undefined
+  ) {
     return kyveDedicatedBundlesPremiumFeatureType;
   }
 
-  for (const premiumFeatureType of premiumPaidFeatureTypes) {
-    const { allowedWallets } = dedicatedBundleTypes[premiumFeatureType];
-    if (allowedWallets.includes(ownerPublicAddress)) {
-      if (premiumFeatureType === aoDedicatedBundlesPremiumFeatureType) {
-        const arioProcesses =
-          dedicatedBundleTypes[arioDedicatedBundlesPremiumFeatureType]
-            .allowedProcesses ?? [];
+  const arioProcesses =
+    bundleTypes[arioDedicatedBundlesPremiumFeatureType]?.allowedProcesses ?? [];
+
+  // Bundle types restricted to specific wallets take precedence over those matched by tags alone
+  const bundleTypeEntries = Object.entries(bundleTypes);
+  const walletBundleTypes = bundleTypeEntries.filter(
+    ([, { allowedWallets }]) => allowedWallets.length > 0
+  );
+  const tagOnlyBundleTypes = bundleTypeEntries.filter(
+    ([, { allowedWallets, mustHaveOneOfTags }]) =>
+      allowedWallets.length === 0 &&
+      mustHaveOneOfTags !== undefined &&
+      mustHaveOneOfTags.length > 0
+  );
+
+  for (const [premiumFeatureType, bundleType] of walletBundleTypes) {
+    if (bundleType.allowedWallets.includes(ownerPublicAddress)) {
+      if (
+        premiumFeatureType === aoDedicatedBundlesPremiumFeatureType &&
+        bundleTypes[arioDedicatedBundlesPremiumFeatureType] !== undefined
+      ) {
         if (
           targetPublicAddress !== undefined &&
           arioProcesses.includes(targetPublicAddress)
@@ -215,37 +233,23 @@ export function getPremiumFeatureType(
         }
       }
 
-      if (premiumFeatureType !== warpDedicatedBundlesPremiumFeatureType) {
+      if (tagsMatchDedicatedBundleType(tags, bundleType)) {
         return premiumFeatureType;
       }
-
-      // TODO: Include optional `mustHaveOneOfTags` (or similar) on `dedicatedBundleTypes` to
-      // allow for more tag checks from other clients.  For now, only Warp needs this check
-      const hasSmartWeaveActionTag = tags
-        .filter((t) => t.name === "App-Name")
-        .some((t) => t.value === "SmartWeaveAction");
-      const hasWarpSequencerTag = tags
-        .filter((t) => t.name === "Sequencer")
-        .some((t) => t.value === "Warp");
-
-      if (hasSmartWeaveActionTag || hasWarpSequencerTag) {
-        return warpDedicatedBundlesPremiumFeatureType;
-      }
     }
   }
 
-  const hasAppNameArDriveTag = tags
-    .filter((t) => t.name === "App-Name")
-    .some((t) => t.value.startsWith("ArDrive"));
-  if (hasAppNameArDriveTag) {
-    return arDriveDedicatedBundlesPremiumFeatureType;
+  for (const [premiumFeatureType, bundleType] of tagOnlyBundleTypes) {
+    if (tagsMatchDedicatedBundleType(tags, bundleType)) {
+      return premiumFeatureType;
+    }
   }
 
   if (
     targetPublicAddress !== undefined &&
-    dedicatedBundleTypes[
+    bundleTypes[
       arioDedicatedBundlesPremiumFeatureType
-    ].allowedWallets.includes(targetPublicAddress) &&
+    ]?.allowedWallets.includes(targetPublicAddress) &&
     tags.some((t) => t.name === "Action" && t.value === "Eval")
   ) {
     // If the target is an AR.IO Network process and the action is Eval, we pack into AR.IO dedicated bundles
@@ -378,3 +382,30 @@ export function getErrorCodeFromErrorObject(error: unknown): string {
     ? error.code
     : "unknown";
 }
+
+/** Reads and parses a JSON request body, without buffering more than maxByteCount bytes */
+export async function readJsonRequestBody(
+  ctx: KoaContext,
+  maxByteCount: number
+): Promise<unknown> {
+  const contentLength = ctx.req.headers["content-length"];
+  if (contentLength !== undefined && +contentLength > maxByteCount) {
+    throw new RequestBodyTooLarge(maxByteCount);
+  }
+
+  const chunks: Buffer[] = [];
+  let byteCount = 0;
+  for await (const chunk of ctx.req) {
+    byteCount += chunk.length;
+    if (byteCount > maxByteCount) {
+      throw new RequestBodyTooLarge(maxByteCount);
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString());
+  } catch (error) {
+    throw new InvalidRequestBody("Expected JSON.");
+  }
+}
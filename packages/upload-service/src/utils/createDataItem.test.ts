@@ -0,0 +1,140 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { DataItem } from "@dha-team/arbundles";
+import { expect } from "chai";
+import { existsSync } from "fs";
+import { mkdtemp, readFile, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { Readable } from "stream";
+
+import { testArweaveJWK } from "../../tests/test_helpers";
+import {
+  createDataItemFromStagedPayload,
+  removeStagedRawDataPayload,
+  stageRawDataPayload,
+  streamSignedDataItem,
+} from "./createDataItem";
+import { RequestBodyTooLarge } from "./errors";
+import { streamToBuffer } from "./streamToBuffer";
+
+describe("streaming raw data item creation", () => {
+  const payloadBytes = Buffer.from("some raw data to be signed by the bundler");
+  let stagingDir: string;
+
+  beforeEach(async () => {
+    stagingDir = await mkdtemp(path.join(tmpdir(), "raw-data-staging-"));
+  });
+
+  afterEach(async () => {
+    await rm(stagingDir, { recursive: true, force: true });
+  });
+
+  it("stageRawDataPayload writes the payload to the staging dir with its byte count", async () => {
+    const payload = await stageRawDataPayload({
+      data: Readable.from(payloadBytes),
+      maxByteCount: 1024,
+      stagingDir,
+    });
+
+    expect(payload.byteCount).to.equal(payloadBytes.byteLength);
+    expect(await readFile(payload.filePath)).to.deep.equal(payloadBytes);
+
+    await removeStagedRawDataPayload(payload);
+    expect(existsSync(payload.filePath)).to.be.false;
+  });
+
+  it("stageRawDataPayload rejects payloads over the max byte count and removes the staged file", async () => {
+    let error: unknown;
+    try {
+      await stageRawDataPayload({
+        data: Readable.from(payloadBytes),
+        maxByteCount: 10,
+        stagingDir,
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).to.be.instanceOf(RequestBodyTooLarge);
+    expect(await readdir(stagingDir)).to.be.empty;
+  });
+
+  it("createDataItemFromStagedPayload signs a valid data item for the staged payload", async () => {
+    const payload = await stageRawDataPayload({
+      data: Readable.from(payloadBytes),
+      maxByteCount: 1024,
+      stagingDir,
+    });
+
+    const signedDataItem = await createDataItemFromStagedPayload(
+      {
+        payload,
+        tags: [{ name: "App-Name", value: "Streaming-Test" }],
+        contentType: "text/plain",
+        payerAddress: "0xabc",
+      },
+      testArweaveJWK
+    );
+    const raw = await streamToBuffer(
+      streamSignedDataItem(signedDataItem, payload)
+    );
+    const dataItem = new DataItem(raw);
+
+    expect(await DataItem.verify(raw)).to.be.true;
+    expect(dataItem.id).to.equal(signedDataItem.id);
+    expect(raw.byteLength).to.equal(signedDataItem.byteCount);
+    expect(raw.subarray(signedDataItem.payloadDataStart).equals(payloadBytes))
+      .to.be.true;
+    expect(dataItem.tags).to.deep.include({
+      name: "App-Name",
+      value: "Streaming-Test",
+    });
+    expect(dataItem.tags).to.deep.include({
+      name: "Content-Type",
+      value: "text/plain",
+    });
+  });
+
+  it("createDataItemFromStagedPayload records the uploader of a credit paid upload", async () => {
+    const payload = await stageRawDataPayload({
+      data: Readable.from(payloadBytes),
+      maxByteCount: 1024,
+      stagingDir,
+    });
+
+    const signedDataItem = await createDataItemFromStagedPayload(
+      {
+        payload,
+        uploadType: "raw-data-credits",
+        uploaderAddress: "uploader-native-address",
+      },
+      testArweaveJWK
+    );
+
+    expect(signedDataItem.tags).to.deep.include({
+      name: "Upload-Type",
+      value: "raw-data-credits",
+    });
+    expect(signedDataItem.tags).to.deep.include({
+      name: "Uploader-Address",
+      value: "uploader-native-address",
+    });
+    expect(signedDataItem.tags.find((tag) => tag.name === "Payer-Address")).to
+      .be.undefined;
+  });
+});
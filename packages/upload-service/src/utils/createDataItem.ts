@@ -16,12 +16,28 @@
  */
 import { ArweaveSigner, createData, DataItem, Tag } from "@dha-team/arbundles";
 import { JWKInterface } from "arweave/node/lib/wallet";
+import { createHash, randomUUID } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, rm } from "fs/promises";
+import path from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+
+import { sha256B64Url } from "./base64";
+import { RequestBodyTooLarge } from "./errors";
+import { UPLOAD_DATA_PATH } from "./fileSystemUtils";
+
+/** How a server-signed raw upload was paid for, recorded in its Upload-Type tag */
+export type RawDataUploadType = "raw-data-x402" | "raw-data-credits";
 
 export interface CreateDataItemOptions {
   data: Buffer;
   tags?: Tag[];
   contentType?: string;
+  uploadType?: RawDataUploadType;
   payerAddress?: string;
+  /** Native address of the signed request whose credit balance paid for the upload */
+  uploaderAddress?: string;
   paymentMetadata?: {
     nonce: string;
     validAfter: string;
@@ -44,6 +60,28 @@ export async function createDataItemFromRaw(
   options: CreateDataItemOptions,
   wallet: JWKInterface
 ): Promise<DataItem> {
+  const tags = rawDataItemTags(options);
+
+  // Create signer
+  const signer = new ArweaveSigner(wallet);
+
+  // Create data item with options
+  const dataItem = createData(options.data, signer, {
+    tags,
+    target: options.target,
+    anchor: options.anchor,
+  });
+
+  // Sign the data item
+  await dataItem.sign(signer);
+
+  return dataItem;
+}
+
+/**
+ * Builds the tags of a server-signed raw data item: the user's tags followed by the attribution tags
+ */
+function rawDataItemTags(options: Omit<CreateDataItemOptions, "data">): Tag[] {
   const tags: Tag[] = [];
 
   // Add Content-Type tag if provided
@@ -65,7 +103,7 @@ export async function createDataItemFromRaw(
 
   tags.push({
     name: "Upload-Type",
-    value: "raw-data-x402",
+    value: options.uploadType ?? "raw-data-x402",
   });
 
   // Add payer address for attribution (who actually paid for this upload)
@@ -77,6 +115,14 @@ export async function createDataItemFromRaw(
     });
   }
 
+  // Add the signer of the request whose credits paid for this upload
+  if (options.uploaderAddress) {
+    tags.push({
+      name: "Uploader-Address",
+      value: options.uploaderAddress,
+    });
+  }
+
   // Add x402 payment authorization metadata (if pre-settlement)
   if (options.paymentMetadata) {
     tags.push({
@@ -122,20 +168,163 @@ export async function createDataItemFromRaw(
     }
   });
 
-  // Create signer
+  return tags;
+}
+
+const rawDataStagingDir = path.join(UPLOAD_DATA_PATH, "raw-data-staging");
+
+/**
+ * A raw data payload written to disk while it streamed in. The signature of an ANS-104 data item
+ * only depends on the payload through its SHA-384 digest and byte count, so the payload never has
+ * to be held in memory to sign it
+ */
+export interface StagedRawDataPayload {
+  filePath: string;
+  byteCount: number;
+  sha384Digest: Buffer;
+}
+
+/**
+ * Streamed variant of the data item returned by createDataItemFromRaw: the signed header,
+ * which is followed by the staged payload in the raw data item
+ */
+export interface StreamingSignedDataItem {
+  id: string;
+  header: Buffer;
+  signature: Buffer;
+  owner: string;
+  target?: string;
+  tags: Tag[];
+  byteCount: number;
+  payloadDataStart: number;
+}
+
+/** Streams a raw data payload to the staging directory, hashing it on the way */
+export async function stageRawDataPayload({
+  data,
+  maxByteCount,
+  stagingDir = rawDataStagingDir,
+}: {
+  data: Readable;
+  maxByteCount: number;
+  stagingDir?: string;
+}): Promise<StagedRawDataPayload> {
+  await mkdir(stagingDir, { recursive: true });
+  const filePath = path.join(stagingDir, `${Date.now()}.${randomUUID()}`);
+
+  const hash = createHash("sha384");
+  let byteCount = 0;
+  try {
+    await pipeline(
+      data,
+      new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          byteCount += chunk.byteLength;
+          if (byteCount > maxByteCount) {
+            callback(new RequestBodyTooLarge(maxByteCount));
+            return;
+          }
+          hash.update(chunk);
+          callback(null, chunk);
+        },
+      }),
+      createWriteStream(filePath)
+    );
+  } catch (error) {
+    await rm(filePath, { force: true });
+    throw error;
+  }
+
+  return { filePath, byteCount, sha384Digest: hash.digest() };
+}
+
+/** Streams the raw signed data item: its header followed by the staged payload */
+export function streamSignedDataItem(
+  dataItem: StreamingSignedDataItem,
+  payload: StagedRawDataPayload
+): Readable {
+  return Readable.from(
+    (async function* () {
+      yield dataItem.header;
+      yield* createReadStream(payload.filePath);
+    })(),
+    { objectMode: false }
+  );
+}
+
+export async function removeStagedRawDataPayload(
+  payload: StagedRawDataPayload
+): Promise<void> {
+  await rm(payload.filePath, { force: true });
+}
+
+function sha384(data: Buffer): Buffer {
+  return createHash("sha384").update(data).digest();
+}
+
+/** Arweave deep hash of a blob, given the SHA-384 digest of its contents */
+function deepHashBlob(byteCount: number, digest: Buffer): Buffer {
+  return sha384(
+    Buffer.concat([sha384(Buffer.from(`blob${byteCount}`)), digest])
+  );
+}
+
+/** Arweave deep hash of a list, given the deep hashes of its items */
+function deepHashList(itemDeepHashes: Buffer[]): Buffer {
+  return itemDeepHashes.reduce(
+    (acc, itemDeepHash) => sha384(Buffer.concat([acc, itemDeepHash])),
+    sha384(Buffer.from(`list${itemDeepHashes.length}`))
+  );
+}
+
+/**
+ * Signs a raw data item for a staged payload. Produces the same data item as createDataItemFromRaw
+ * would for the same payload, tags and timestamp
+ */
+export async function createDataItemFromStagedPayload(
+  options: Omit<CreateDataItemOptions, "data"> & {
+    payload: StagedRawDataPayload;
+  },
+  wallet: JWKInterface
+): Promise<StreamingSignedDataItem> {
+  const tags = rawDataItemTags(options);
   const signer = new ArweaveSigner(wallet);
 
-  // Create data item with options
-  const dataItem = createData(options.data, signer, {
+  // An empty data item serializes every header field, only its signature is left to fill in
+  const unsignedDataItem = createData(new Uint8Array(0), signer, {
     tags,
     target: options.target,
     anchor: options.anchor,
   });
 
-  // Sign the data item
-  await dataItem.sign(signer);
+  // Same signature data as DataItem.getSignatureData, with the payload hashed while it was staged
+  const signatureData = deepHashList([
+    ...[
+      Buffer.from("dataitem"),
+      Buffer.from("1"),
+      Buffer.from(unsignedDataItem.signatureType.toString()),
+      unsignedDataItem.rawOwner,
+      unsignedDataItem.rawTarget,
+      unsignedDataItem.rawAnchor,
+      unsignedDataItem.rawTags,
+    ].map((field) => deepHashBlob(field.byteLength, sha384(field))),
+    deepHashBlob(options.payload.byteCount, options.payload.sha384Digest),
+  ]);
+  const signature = Buffer.from(await signer.sign(signatureData));
 
-  return dataItem;
+  const header = Buffer.from(unsignedDataItem.getRaw());
+  header.set(signature, 2); // after the 2 byte signature type
+
+  return {
+    id: sha256B64Url(signature),
+    header,
+    signature,
+    owner: unsignedDataItem.owner,
+    target: unsignedDataItem.target || undefined,
+    tags,
+    byteCount: header.byteLength + options.payload.byteCount,
+    payloadDataStart: header.byteLength,
+  };
 }
 
 /**
@@ -0,0 +1,209 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { expect } from "chai";
+
+import { dedicatedBundleTypes } from "../constants";
+import {
+  mergeDedicatedBundleTypes,
+  parseDedicatedBundleTypeOverrides,
+  tagsMatchDedicatedBundleType,
+} from "./dedicatedBundleTypes";
+
+describe("parseDedicatedBundleTypeOverrides function", () => {
+  it("parses well formed dedicated bundle types", () => {
+    const overrides = parseDedicatedBundleTypeOverrides(
+      JSON.stringify({
+        new_customer_dedicated_bundles: {
+          allowedWallets: ["wallet1"],
+          allowedProcesses: ["process1"],
+          bundlerAppName: "New Customer",
+          mustHaveOneOfTags: [{ name: "App-Name", value: "New-App" }],
+        },
+      })
+    );
+
+    expect(overrides).to.deep.equal({
+      new_customer_dedicated_bundles: {
+        allowedWallets: ["wallet1"],
+        allowedProcesses: ["process1"],
+        bundlerAppName: "New Customer",
+        mustHaveOneOfTags: [{ name: "App-Name", value: "New-App" }],
+      },
+    });
+  });
+
+  it("defaults allowed wallets to an empty array", () => {
+    const overrides = parseDedicatedBundleTypeOverrides(
+      JSON.stringify({
+        tag_only_dedicated_bundles: {
+          mustHaveOneOfTags: [{ name: "App-Name", valueStartsWith: "Tag" }],
+        },
+      })
+    );
+
+    expect(overrides.tag_only_dedicated_bundles?.allowedWallets).to.deep.equal(
+      []
+    );
+  });
+
+  it("parses planning SLA overrides", () => {
+    const overrides = parseDedicatedBundleTypeOverrides(
+      JSON.stringify({
+        fast_lane: {
+          allowedWallets: ["wallet1"],
+          planningSla: { maxWaitMs: 30_000, minFillRatio: 0 },
+        },
+        bad_fill_ratio: {
+          allowedWallets: ["wallet1"],
+          planningSla: { minFillRatio: 2 },
+        },
+      })
+    );
+
+    expect(overrides).to.deep.equal({
+      fast_lane: {
+        allowedWallets: ["wallet1"],
+        planningSla: { maxWaitMs: 30_000, minFillRatio: 0 },
+      },
+    });
+  });
+
+  it("parses the priority flag", () => {
+    const overrides = parseDedicatedBundleTypeOverrides(
+      JSON.stringify({
+        priority_lane: { allowedWallets: ["wallet1"], priority: true },
+        bad_priority: { allowedWallets: ["wallet1"], priority: "yes" },
+      })
+    );
+
+    expect(overrides).to.deep.equal({
+      priority_lane: { allowedWallets: ["wallet1"], priority: true },
+    });
+  });
+
+  it("keeps null entries so compile-time bundle types can be disabled", () => {
+    expect(
+      parseDedicatedBundleTypeOverrides(
+        JSON.stringify({ warp_dedicated_bundles: null })
+      )
+    ).to.deep.equal({ warp_dedicated_bundles: null });
+  });
+
+  it("skips malformed entries and the reserved default premium feature type", () => {
+    const overrides = parseDedicatedBundleTypeOverrides(
+      JSON.stringify({
+        default: { allowedWallets: ["wallet1"] },
+        bad_wallets: { allowedWallets: "wallet1" },
+        bad_tags: { allowedWallets: [], mustHaveOneOfTags: [{ value: "x" }] },
+        bad_app_name: { allowedWallets: [], bundlerAppName: 42 },
+        good: { allowedWallets: ["wallet1"] },
+      })
+    );
+
+    expect(Object.keys(overrides)).to.deep.equal(["good"]);
+  });
+
+  it("returns no overrides for invalid JSON or non-object values", () => {
+    expect(parseDedicatedBundleTypeOverrides("{not json")).to.deep.equal({});
+    expect(parseDedicatedBundleTypeOverrides("[]")).to.deep.equal({});
+    expect(parseDedicatedBundleTypeOverrides("null")).to.deep.equal({});
+  });
+});
+
+describe("mergeDedicatedBundleTypes function", () => {
+  it("adds new bundle types, replaces existing ones, and removes disabled ones", () => {
+    const merged = mergeDedicatedBundleTypes(dedicatedBundleTypes, {
+      new_customer_dedicated_bundles: { allowedWallets: ["wallet1"] },
+      redstone_oracle_dedicated_bundles: {
+        allowedWallets: ["wallet2"],
+        bundlerAppName: "Redstone",
+      },
+      warp_dedicated_bundles: null,
+    });
+
+    expect(merged.new_customer_dedicated_bundles).to.deep.equal({
+      allowedWallets: ["wallet1"],
+    });
+    expect(
+      merged.redstone_oracle_dedicated_bundles.allowedWallets
+    ).to.deep.equal(["wallet2"]);
+    expect(merged.warp_dedicated_bundles).to.be.undefined;
+    expect(merged.ao_dedicated_bundles).to.deep.equal(
+      dedicatedBundleTypes.ao_dedicated_bundles
+    );
+  });
+
+  it("does not mutate the provided bundle types", () => {
+    mergeDedicatedBundleTypes(dedicatedBundleTypes, {
+      warp_dedicated_bundles: null,
+    });
+    expect(dedicatedBundleTypes.warp_dedicated_bundles).to.exist;
+  });
+});
+
+describe("tagsMatchDedicatedBundleType function", () => {
+  it("matches any tags when the bundle type has no tag rules", () => {
+    expect(tagsMatchDedicatedBundleType([], { allowedWallets: [] })).to.be.true;
+  });
+
+  it("matches on exact tag values", () => {
+    const bundleType = {
+      allowedWallets: [],
+      mustHaveOneOfTags: [{ name: "Sequencer", value: "Warp" }],
+    };
+    expect(
+      tagsMatchDedicatedBundleType(
+        [{ name: "Sequencer", value: "Warp" }],
+        bundleType
+      )
+    ).to.be.true;
+    expect(
+      tagsMatchDedicatedBundleType(
+        [{ name: "Sequencer", value: "Warp2" }],
+        bundleType
+      )
+    ).to.be.false;
+  });
+
+  it("matches on tag value prefixes", () => {
+    const bundleType = {
+      allowedWallets: [],
+      mustHaveOneOfTags: [{ name: "App-Name", valueStartsWith: "ArDrive" }],
+    };
+    expect(
+      tagsMatchDedicatedBundleType(
+        [{ name: "App-Name", value: "ArDrive-Web" }],
+        bundleType
+      )
+    ).to.be.true;
+    expect(
+      tagsMatchDedicatedBundleType(
+        [{ name: "Other-Tag", value: "ArDrive-Web" }],
+        bundleType
+      )
+    ).to.be.false;
+  });
+
+  it("matches on tag name alone when no value rule is provided", () => {
+    expect(
+      tagsMatchDedicatedBundleType([{ name: "Data-Protocol", value: "ao" }], {
+        allowedWallets: [],
+        mustHaveOneOfTags: [{ name: "Data-Protocol" }],
+      })
+    ).to.be.true;
+  });
+});
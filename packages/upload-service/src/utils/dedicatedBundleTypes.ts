@@ -0,0 +1,271 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { ReadThroughPromiseCache } from "@ardrive/ardrive-promise-cache";
+import { Tag } from "@dha-team/arbundles";
+import winston from "winston";
+
+import { Database } from "../arch/db/database";
+import {
+  dedicatedBundleTypes,
+  dedicatedBundleTypesCacheTtlMs,
+  dedicatedBundleTypesConfigKey,
+  defaultPremiumFeatureType,
+} from "../constants";
+import defaultLogger from "../logger";
+import { MetricRegistry } from "../metricRegistry";
+import {
+  BundlePlanningSla,
+  DedicatedBundleTagRule,
+  DedicatedBundleType,
+  DedicatedBundleTypes,
+} from "../types/types";
+
+/**
+ * Dedicated bundle types as stored in the `config` table. Entries replace the compile-time
+ * bundle type of the same name, new names define new bundle types, and a `null` entry
+ * disables a compile-time bundle type entirely
+ */
+export type DedicatedBundleTypeOverrides = Record<
+  string,
+  DedicatedBundleType | null
+>;
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function isDedicatedBundleTagRule(
+  value: unknown
+): value is DedicatedBundleTagRule {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const {
+    name,
+    value: tagValue,
+    valueStartsWith,
+  } = value as Record<string, unknown>;
+  return (
+    typeof name === "string" &&
+    name.length > 0 &&
+    (tagValue === undefined || typeof tagValue === "string") &&
+    (valueStartsWith === undefined || typeof valueStartsWith === "string")
+  );
+}
+
+function isPlanningSlaOverride(
+  value: unknown
+): value is Partial<BundlePlanningSla> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const { maxWaitMs, minFillRatio, maxBundleByteCount } = value as Record<
+    string,
+    unknown
+  >;
+  const isNonNegativeNumber = (v: unknown) =>
+    v === undefined || (typeof v === "number" && v >= 0);
+  return (
+    isNonNegativeNumber(maxWaitMs) &&
+    isNonNegativeNumber(maxBundleByteCount) &&
+    (minFillRatio === undefined ||
+      (typeof minFillRatio === "number" &&
+        minFillRatio >= 0 &&
+        minFillRatio <= 1))
+  );
+}
+
+function toDedicatedBundleType(
+  value: unknown
+): DedicatedBundleType | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+  const {
+    allowedWallets = [],
+    allowedProcesses,
+    bundlerAppName,
+    mustHaveOneOfTags,
+    planningSla,
+    priority,
+  } = value as Record<string, unknown>;
+
+  if (
+    !isStringArray(allowedWallets) ||
+    (allowedProcesses !== undefined && !isStringArray(allowedProcesses)) ||
+    (bundlerAppName !== undefined && typeof bundlerAppName !== "string") ||
+    (mustHaveOneOfTags !== undefined &&
+      (!Array.isArray(mustHaveOneOfTags) ||
+        !mustHaveOneOfTags.every(isDedicatedBundleTagRule))) ||
+    (planningSla !== undefined && !isPlanningSlaOverride(planningSla)) ||
+    (priority !== undefined && typeof priority !== "boolean")
+  ) {
+    return undefined;
+  }
+
+  return {
+    allowedWallets,
+    ...(allowedProcesses !== undefined && { allowedProcesses }),
+    ...(bundlerAppName !== undefined && { bundlerAppName }),
+    ...(mustHaveOneOfTags !== undefined && { mustHaveOneOfTags }),
+    ...(planningSla !== undefined && { planningSla }),
+    ...(priority !== undefined && { priority }),
+  };
+}
+
+/**
+ * Parses the JSON value of the `dedicated_bundle_types` config entry. Malformed bundle
+ * types are skipped with a warning so that a single bad entry can't disable every lane
+ */
+export function parseDedicatedBundleTypeOverrides(
+  configValue: string,
+  logger: winston.Logger = defaultLogger
+): DedicatedBundleTypeOverrides {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(configValue);
+  } catch (error) {
+    logger.error("Dedicated bundle types config value is not valid JSON!", {
+      error,
+    });
+    return {};
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    logger.error("Dedicated bundle types config value must be a JSON object!", {
+      configValue,
+    });
+    return {};
+  }
+
+  const overrides: DedicatedBundleTypeOverrides = {};
+  for (const [premiumFeatureType, value] of Object.entries(parsed)) {
+    if (premiumFeatureType === defaultPremiumFeatureType) {
+      logger.warn(
+        `Skipping dedicated bundle type that uses the reserved '${defaultPremiumFeatureType}' name!`
+      );
+      continue;
+    }
+
+    if (value === null) {
+      overrides[premiumFeatureType] = null;
+      continue;
+    }
+
+    const bundleType = toDedicatedBundleType(value);
+    if (bundleType === undefined) {
+      logger.warn("Skipping malformed dedicated bundle type!", {
+        premiumFeatureType,
+        value,
+      });
+      continue;
+    }
+    overrides[premiumFeatureType] = bundleType;
+  }
+  return overrides;
+}
+
+export function mergeDedicatedBundleTypes(
+  bundleTypes: DedicatedBundleTypes,
+  overrides: DedicatedBundleTypeOverrides
+): DedicatedBundleTypes {
+  const merged: DedicatedBundleTypes = { ...bundleTypes };
+  for (const [premiumFeatureType, bundleType] of Object.entries(overrides)) {
+    if (bundleType === null) {
+      delete merged[premiumFeatureType];
+    } else {
+      merged[premiumFeatureType] = bundleType;
+    }
+  }
+  return merged;
+}
+
+export function tagMatchesRule(
+  tag: Tag,
+  { name, value, valueStartsWith }: DedicatedBundleTagRule
+): boolean {
+  if (tag.name !== name) {
+    return false;
+  }
+  if (value !== undefined && tag.value !== value) {
+    return false;
+  }
+  if (valueStartsWith !== undefined && !tag.value.startsWith(valueStartsWith)) {
+    return false;
+  }
+  return true;
+}
+
+export function tagsMatchDedicatedBundleType(
+  tags: Tag[],
+  { mustHaveOneOfTags }: DedicatedBundleType
+): boolean {
+  if (mustHaveOneOfTags === undefined || mustHaveOneOfTags.length === 0) {
+    return true;
+  }
+  return tags.some((tag) =>
+    mustHaveOneOfTags.some((rule) => tagMatchesRule(tag, rule))
+  );
+}
+
+const dedicatedBundleTypesCache = new ReadThroughPromiseCache<
+  string, // cache key is the config table key
+  DedicatedBundleTypes,
+  { database: Database; logger: winston.Logger }
+>({
+  cacheParams: {
+    cacheCapacity: 1,
+    cacheTTLMillis: dedicatedBundleTypesCacheTtlMs,
+  },
+  readThroughFunction: async (_, { database, logger }) => {
+    const overrides = await database.getDedicatedBundleTypeOverrides();
+    logger.debug("Loaded dedicated bundle type overrides from database.", {
+      overrides,
+    });
+    return mergeDedicatedBundleTypes(dedicatedBundleTypes, overrides);
+  },
+  metricsConfig: {
+    cacheName: "dedicated_bundle_types_cache",
+    registry: MetricRegistry.getInstance().getRegistry(),
+    labels: {
+      env: process.env.NODE_ENV ?? "local",
+    },
+  },
+});
+
+/**
+ * Returns the compile-time dedicated bundle types merged with any operator defined
+ * bundle types from the `config` table. Results are cached in memory for
+ * DEDICATED_BUNDLE_TYPES_CACHE_TTL_MS so changes are honored without a restart
+ */
+export async function getDedicatedBundleTypes(
+  database: Database,
+  logger: winston.Logger = defaultLogger
+): Promise<DedicatedBundleTypes> {
+  try {
+    return await dedicatedBundleTypesCache.get(dedicatedBundleTypesConfigKey, {
+      database,
+      logger,
+    });
+  } catch (error) {
+    logger.error(
+      "Failed to load dedicated bundle types from database! Falling back to compile-time dedicated bundle types...",
+      { error }
+    );
+    return dedicatedBundleTypes;
+  }
+}
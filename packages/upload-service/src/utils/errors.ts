@@ -58,6 +58,12 @@ export class InvalidChunk extends BaseError {
   }
 }
 
+export class ChunkDigestMismatch extends InvalidChunk {
+  constructor() {
+    super("Chunk does not match its digest");
+  }
+}
+
 export class InvalidDataItem extends BaseError {
   constructor(message?: string) {
     super(`Invalid Data Item! ${message ? message : ""}`);
@@ -119,8 +125,40 @@ export class DataItemsStillPendingWarning extends BaseError {
   }
 }
 
+export class GatewayConsensusError extends BaseError {
+  constructor(check: string, quorum: number) {
+    super(`Fewer than ${quorum} verification gateways agree on ${check}!`);
+  }
+}
+
 export class PaymentServiceReturnedError extends BaseError {
   constructor(message: string) {
     super(message);
   }
 }
+
+/** The payment service refused an API key, with the status to respond with */
+export class ApiKeyRejected extends BaseError {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export class RequestBodyTooLarge extends BaseError {
+  constructor(maxByteCount: number) {
+    super(`Request body exceeds the ${maxByteCount} byte limit!`);
+  }
+}
+
+export class InvalidRequestBody extends BaseError {
+  constructor(message?: string) {
+    super(`Invalid request body! ${message ? message : ""}`);
+  }
+}
+
+/** Webhooks are not delivered to hosts resolving to loopback, link-local or private addresses */
+export class NonPublicWebhookHost extends BaseError {
+  constructor(hostname: string) {
+    super(`Webhook host ${hostname} does not resolve to a public address!`);
+  }
+}
@@ -415,6 +415,20 @@ export async function quarantineDataItemFromBackupFs({
   });
 }
 
+export async function deleteDataItemFromBackupFs(
+  dataItemId: TransactionId
+): Promise<void> {
+  await fsBreaker.fire(async () => {
+    const backupDir = backupDirForDataItem(dataItemId);
+    await fs.rm(filenameForRawDataItem({ dataItemId, backupDir }), {
+      force: true,
+    });
+    await fs.rm(filenameForMetadata({ dataItemId, backupDir }), {
+      force: true,
+    });
+  });
+}
+
 export async function fsBackupNestedDataItemInfo({
   dataItemId,
   parentDataItemId,
@@ -17,19 +17,19 @@
 import { ArweaveSigner } from "@dha-team/arbundles";
 import { Base64UrlString } from "arweave/node/lib/utils";
 
-import { rawDataItemJwk, setRawDataItemWalletAddress, turboLocalJwk } from "../constants";
+import { rawDataItemJwk, setRawDataItemWalletAddress } from "../constants";
 import logger from "../logger";
 import { JWKInterface } from "../types/jwkTypes";
 import { jwkToPublicArweaveAddress } from "./base64";
+import { getBundlerWalletRegistry } from "./bundlerWallets";
 
 // AWS Secrets Manager integration removed - using local wallet.json only
 
+/** The primary bundler wallet, which signs receipts. Bundles are signed by any active bundler wallet */
 export async function getArweaveWallet(): Promise<JWKInterface> {
-  if (!turboLocalJwk) {
-    throw new Error("Local JWK wallet not configured. Please set TURBO_JWK_FILE in .env");
-  }
-  logger.debug("Using local JWK for Turbo wallet");
-  return turboLocalJwk;
+  const { jwk, address } = getBundlerWalletRegistry().primaryWallet();
+  logger.debug("Using local JWK for Turbo wallet", { address });
+  return jwk;
 }
 
 export async function getRawDataItemWallet(): Promise<JWKInterface> {
@@ -48,17 +48,13 @@ export async function getRawDataItemWallet(): Promise<JWKInterface> {
 }
 
 export async function getOpticalWallet(): Promise<JWKInterface> {
-  if (!turboLocalJwk) {
-    throw new Error("Local JWK wallet not configured. Please set TURBO_JWK_FILE in .env");
-  }
   logger.debug("Using local JWK for Turbo optical wallet");
-  return turboLocalJwk;
+  return getBundlerWalletRegistry().primaryWallet().jwk;
 }
 
 export async function getOpticalPubKey(): Promise<Base64UrlString> {
-  if (!turboLocalJwk) {
-    throw new Error("Local JWK wallet not configured. Please set TURBO_JWK_FILE in .env");
-  }
   logger.debug("Using local JWK for Turbo optical pub key");
-  return new ArweaveSigner(turboLocalJwk).publicKey.toString("base64url");
+  return new ArweaveSigner(
+    getBundlerWalletRegistry().primaryWallet().jwk
+  ).publicKey.toString("base64url");
 }
@@ -0,0 +1,171 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { expect } from "chai";
+import { createHash } from "crypto";
+import { Readable } from "stream";
+
+import { expectAsyncErrorThrow } from "../../tests/test_helpers";
+import { InvalidChunk } from "./errors";
+import {
+  chunkDigestVerifier,
+  chunkMatchesDigest,
+  missingChunkRanges,
+  parseChunkDigestHeader,
+  parseUploadChecksumHeader,
+} from "./multipartChunks";
+
+describe("parseChunkDigestHeader function", () => {
+  const chunk = Buffer.from("a chunk of a multipart upload");
+  const sha256 = createHash("sha256").update(chunk).digest("base64");
+  const sha512 = createHash("sha512").update(chunk).digest("base64");
+
+  it("parses a sha-256 digest", () => {
+    const chunkDigest = parseChunkDigestHeader(`sha-256=:${sha256}:`);
+
+    expect(chunkDigest.algorithm).to.equal("sha256");
+    expect(chunkDigest.digest.toString("base64")).to.equal(sha256);
+    expect(chunkMatchesDigest(chunk, chunkDigest)).to.be.true;
+  });
+
+  it("prefers the strongest supported digest when several are given", () => {
+    const chunkDigest = parseChunkDigestHeader(
+      `sha-256=:${sha256}:, sha-512=:${sha512}:`
+    );
+
+    expect(chunkDigest.algorithm).to.equal("sha512");
+    expect(chunkMatchesDigest(chunk, chunkDigest)).to.be.true;
+  });
+
+  it("throws an InvalidChunk error for unsupported algorithms", () => {
+    expect(() => parseChunkDigestHeader(`md5=:${sha256}:`)).to.throw(
+      InvalidChunk
+    );
+  });
+
+  it("throws an InvalidChunk error for malformed digests", () => {
+    expect(() => parseChunkDigestHeader(`sha-256=${sha256}`)).to.throw(
+      InvalidChunk
+    );
+  });
+});
+
+describe("parseUploadChecksumHeader function", () => {
+  it("parses a tus checksum", () => {
+    const chunk = Buffer.from("a chunk of a tus upload");
+    const chunkDigest = parseUploadChecksumHeader(
+      `sha1 ${createHash("sha1").update(chunk).digest("base64")}`
+    );
+
+    expect(chunkDigest.algorithm).to.equal("sha1");
+    expect(chunkMatchesDigest(chunk, chunkDigest)).to.be.true;
+  });
+
+  it("throws an InvalidChunk error for unsupported algorithms", () => {
+    expect(() => parseUploadChecksumHeader("md5 aGVsbG8=")).to.throw(
+      InvalidChunk
+    );
+  });
+});
+
+describe("chunkMatchesDigest function", () => {
+  it("returns false when the chunk does not match the digest", () => {
+    const chunkDigest = parseChunkDigestHeader(
+      `sha-256=:${createHash("sha256")
+        .update(Buffer.from("expected"))
+        .digest("base64")}:`
+    );
+
+    expect(chunkMatchesDigest(Buffer.from("corrupted"), chunkDigest)).to.be
+      .false;
+  });
+});
+
+describe("chunkDigestVerifier function", () => {
+  const chunkDigest = parseChunkDigestHeader(
+    `sha-256=:${createHash("sha256")
+      .update(Buffer.from("expected"))
+      .digest("base64")}:`
+  );
+
+  async function streamThroughVerifier(data: string[]): Promise<Buffer> {
+    const streamedChunks: Buffer[] = [];
+    for await (const streamedChunk of Readable.from(
+      data.map((part) => Buffer.from(part))
+    ).pipe(chunkDigestVerifier(chunkDigest))) {
+      streamedChunks.push(streamedChunk);
+    }
+    return Buffer.concat(streamedChunks);
+  }
+
+  it("passes through a chunk that matches the digest", async () => {
+    const streamedChunk = await streamThroughVerifier(["expe", "cted"]);
+
+    expect(streamedChunk.toString()).to.equal("expected");
+  });
+
+  it("errors instead of ending when the chunk does not match the digest", async () => {
+    await expectAsyncErrorThrow({
+      promiseToError: streamThroughVerifier(["corr", "upted"]),
+      errorType: "ChunkDigestMismatch",
+      errorMessage: "Invalid chunk. Chunk does not match its digest.",
+    });
+  });
+});
+
+describe("missingChunkRanges function", () => {
+  it("returns the gaps between uploaded chunks regardless of their order", () => {
+    expect(
+      missingChunkRanges({
+        chunks: [
+          [30, 10],
+          [0, 10],
+          [60, 10],
+        ],
+      })
+    ).to.deep.equal([
+      [10, 20],
+      [40, 20],
+    ]);
+  });
+
+  it("returns the trailing gap when the total byte count is given", () => {
+    expect(
+      missingChunkRanges({
+        chunks: [[0, 10]],
+        totalByteCount: 25,
+      })
+    ).to.deep.equal([[10, 15]]);
+  });
+
+  it("returns the whole upload when no chunks have been uploaded", () => {
+    expect(
+      missingChunkRanges({ chunks: [], totalByteCount: 25 })
+    ).to.deep.equal([[0, 25]]);
+  });
+
+  it("returns no gaps for a complete upload", () => {
+    expect(
+      missingChunkRanges({
+        chunks: [
+          [0, 10],
+          [10, 5],
+        ],
+        totalByteCount: 15,
+      })
+    ).to.deep.equal([]);
+  });
+});
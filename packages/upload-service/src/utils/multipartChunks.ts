@@ -0,0 +1,126 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { createHash } from "crypto";
+import { Transform } from "stream";
+
+import { ChunkDigestMismatch, InvalidChunk } from "./errors";
+
+/** Content-Digest algorithms accepted for chunks, keyed by their RFC 9530 names and ordered strongest first */
+const chunkDigestAlgorithms: Record<string, string> = {
+  "sha-512": "sha512",
+  "sha-256": "sha256",
+};
+
+export interface ChunkDigest {
+  algorithm: string;
+  digest: Buffer;
+}
+
+/**
+ * Parses an RFC 9530 Content-Digest header value, e.g. "sha-256=:<base64 digest>:".
+ * When several digests are given, the strongest supported one is used
+ */
+export function parseChunkDigestHeader(headerValue: string): ChunkDigest {
+  const digests: Record<string, string> = {};
+  for (const member of headerValue.split(",")) {
+    const match = member.trim().match(/^([a-z0-9-]+)=:([A-Za-z0-9+/=]*):$/);
+    if (!match) {
+      throw new InvalidChunk(`Malformed chunk digest "${member.trim()}"`);
+    }
+    digests[match[1]] = match[2];
+  }
+
+  for (const [name, algorithm] of Object.entries(chunkDigestAlgorithms)) {
+    if (digests[name] !== undefined) {
+      return { algorithm, digest: Buffer.from(digests[name], "base64") };
+    }
+  }
+  throw new InvalidChunk(
+    `Chunk digest must use one of: ${Object.keys(chunkDigestAlgorithms).join(
+      ", "
+    )}`
+  );
+}
+
+/** Checksum algorithms of the tus checksum extension, named as in the Upload-Checksum header */
+export const tusChecksumAlgorithms = ["sha1", "sha256", "sha512"];
+
+/** Parses a tus Upload-Checksum header value, e.g. "sha256 <base64 digest>" */
+export function parseUploadChecksumHeader(headerValue: string): ChunkDigest {
+  const [algorithm, digest] = headerValue.trim().split(" ");
+  if (!tusChecksumAlgorithms.includes(algorithm) || !digest) {
+    throw new InvalidChunk(
+      `Upload checksum must use one of: ${tusChecksumAlgorithms.join(", ")}`
+    );
+  }
+  return { algorithm, digest: Buffer.from(digest, "base64") };
+}
+
+export function chunkMatchesDigest(
+  chunk: Buffer,
+  { algorithm, digest }: ChunkDigest
+): boolean {
+  return createHash(algorithm).update(chunk).digest().equals(digest);
+}
+
+/**
+ * Passes a chunk through while hashing it, failing with ChunkDigestMismatch instead of
+ * ending when the streamed chunk does not match its digest
+ */
+export function chunkDigestVerifier({
+  algorithm,
+  digest,
+}: ChunkDigest): Transform {
+  const hash = createHash(algorithm);
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+    flush(callback) {
+      callback(hash.digest().equals(digest) ? null : new ChunkDigestMismatch());
+    },
+  });
+}
+
+/**
+ * Computes the byte ranges of an upload that have no chunk yet as [offset, byteCount] pairs.
+ * The trailing range can only be known when the total byte count of the upload is given
+ */
+export function missingChunkRanges({
+  chunks,
+  totalByteCount,
+}: {
+  chunks: [offset: number, byteCount: number][];
+  totalByteCount?: number;
+}): [offset: number, byteCount: number][] {
+  const missingRanges: [number, number][] = [];
+  let nextExpectedOffset = 0;
+  for (const [offset, byteCount] of [...chunks].sort((a, b) => a[0] - b[0])) {
+    if (offset > nextExpectedOffset) {
+      missingRanges.push([nextExpectedOffset, offset - nextExpectedOffset]);
+    }
+    nextExpectedOffset = Math.max(nextExpectedOffset, offset + byteCount);
+  }
+  if (totalByteCount !== undefined && totalByteCount > nextExpectedOffset) {
+    missingRanges.push([
+      nextExpectedOffset,
+      totalByteCount - nextExpectedOffset,
+    ]);
+  }
+  return missingRanges;
+}
@@ -19,14 +19,20 @@ import Transaction from "arweave/node/lib/transaction";
 import MultiStream from "multistream";
 import { PassThrough, Readable, pipeline } from "stream";
 
+import {
+  AzureBlobError,
+  AzureBlobObjectStore,
+} from "../arch/azureBlobObjectStore";
+import { Database } from "../arch/db/database";
 import { ObjectStore } from "../arch/objectStore";
 import { S3ObjectStore } from "../arch/s3ObjectStore";
+import { TieredObjectStore } from "../arch/tieredObjectStore";
 import "../bundles/assembleBundleHeader";
 import {
   BundleHeaderInfo,
   bundleHeaderInfoFromBuffer,
 } from "../bundles/assembleBundleHeader";
-import { DataItemOffsets } from "../constants";
+import { DataItemOffsets, storageTieringEnabled } from "../constants";
 import { octetStreamContentType } from "../constants";
 import logger from "../logger";
 import { PlanId } from "../types/dbTypes";
@@ -36,6 +42,7 @@ import {
   TransactionId,
   UploadId,
 } from "../types/types";
+import { ChunkByteRange } from "./bundleChunks";
 import { streamToBuffer } from "./streamToBuffer";
 
 export const dataItemPrefix =
@@ -63,6 +70,82 @@ export function getS3ObjectStore(): ObjectStore {
   return s3ObjectStore;
 }
 
+let azureBlobObjectStore: AzureBlobObjectStore | undefined;
+
+export function getAzureBlobObjectStore(): ObjectStore {
+  if (!azureBlobObjectStore) {
+    azureBlobObjectStore = new AzureBlobObjectStore({
+      /* eslint-disable @typescript-eslint/no-non-null-assertion */
+      accountName: process.env.AZURE_STORAGE_ACCOUNT_NAME!,
+      accountKey: process.env.AZURE_STORAGE_ACCOUNT_KEY!,
+      containerName: process.env.DATA_ITEM_BUCKET!,
+      /* eslint-enable @typescript-eslint/no-non-null-assertion */
+      endpoint: process.env.AZURE_BLOB_ENDPOINT,
+    });
+  }
+  return azureBlobObjectStore;
+}
+
+/** Gets the object store of the backend selected by OBJECT_STORE_TYPE, defaulting to S3 */
+export function getHotObjectStore(): ObjectStore {
+  const objectStoreType = process.env.OBJECT_STORE_TYPE ?? "s3";
+  switch (objectStoreType) {
+    case "s3":
+      return getS3ObjectStore();
+    case "azure-blob":
+      return getAzureBlobObjectStore();
+    default:
+      throw new Error(`Unsupported OBJECT_STORE_TYPE: ${objectStoreType}`);
+  }
+}
+
+let archiveObjectStore: ObjectStore | undefined;
+
+/** Gets the cold storage tier: the ARCHIVE_DATA_ITEM_BUCKET bucket or container on the OBJECT_STORE_TYPE backend */
+export function getArchiveObjectStore(): ObjectStore {
+  if (!archiveObjectStore) {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const archiveBucketName = process.env.ARCHIVE_DATA_ITEM_BUCKET!;
+    const objectStoreType = process.env.OBJECT_STORE_TYPE ?? "s3";
+    switch (objectStoreType) {
+      case "s3":
+        archiveObjectStore = new S3ObjectStore({
+          bucketName: archiveBucketName,
+        });
+        break;
+      case "azure-blob":
+        archiveObjectStore = new AzureBlobObjectStore({
+          /* eslint-disable @typescript-eslint/no-non-null-assertion */
+          accountName: process.env.AZURE_STORAGE_ACCOUNT_NAME!,
+          accountKey: process.env.AZURE_STORAGE_ACCOUNT_KEY!,
+          /* eslint-enable @typescript-eslint/no-non-null-assertion */
+          containerName: archiveBucketName,
+          endpoint: process.env.AZURE_BLOB_ENDPOINT,
+        });
+        break;
+      default:
+        throw new Error(`Unsupported OBJECT_STORE_TYPE: ${objectStoreType}`);
+    }
+  }
+  return archiveObjectStore;
+}
+
+/**
+ * Gets the object store used by the service. With storage tiering enabled, raw data item reads
+ * are routed to the tier that the given database records for each data item
+ */
+export function getObjectStore(database: Database): ObjectStore {
+  if (!storageTieringEnabled) {
+    return getHotObjectStore();
+  }
+  return new TieredObjectStore({
+    objectStore: getHotObjectStore(),
+    archiveObjectStore: getArchiveObjectStore(),
+    database,
+    dataItemKeyPrefix: dataItemPrefix,
+  });
+}
+
 /** strip CR/LF and the rest of the C0 control block (plus DEL 0x7F) */
 // eslint-disable-next-line no-control-regex
 const controlRegexp = new RegExp("[\\x00-\\x1F\\x7F]", "g"); // not a regex *literal*
@@ -167,7 +250,31 @@ export async function rawDataItemObjectExists(
   return objectStore
     .headObject(key)
     .then(() => true)
-    .catch(() => false);
+    .catch((error) => {
+      // Throttling, outages and network errors say nothing about whether the object exists
+      if (isObjectNotFoundError(error)) {
+        return false;
+      }
+      throw error;
+    });
+}
+
+/** Whether an object store request failed because the object does not exist */
+export function isObjectNotFoundError(error: unknown): boolean {
+  if (error instanceof AzureBlobError) {
+    return error.status === 404;
+  }
+  const { name, code, $metadata } = error as {
+    name?: string;
+    code?: string;
+    $metadata?: { httpStatusCode?: number };
+  };
+  return (
+    ["NotFound", "NoSuchKey"].includes(name ?? "") ||
+    $metadata?.httpStatusCode === 404 ||
+    // The file system store
+    code === "ENOENT"
+  );
 }
 
 export function putBundlePayload(
@@ -341,11 +448,19 @@ export async function getBundleTx(
 
 export async function getBundlePayload(
   objectStore: ObjectStore,
-  planId: string
+  planId: string,
+  byteRange?: ChunkByteRange
 ): Promise<Readable> {
   const storeKey = `${bundlePayloadPrefix}/${planId}`;
 
-  return objectStore.getObject(storeKey).then(({ readable }) => readable);
+  return objectStore
+    .getObject(
+      storeKey,
+      byteRange
+        ? `bytes=${byteRange.minByteRange}-${byteRange.maxByteRange - 1}`
+        : undefined
+    )
+    .then(({ readable }) => readable);
 }
 
 export function createMultipartUpload(
@@ -362,6 +477,7 @@ export function uploadPart({
   uploadId,
   partNumber,
   sizeOfChunk,
+  checksumSHA256,
 }: {
   objectStore: ObjectStore;
   uploadKey: string;
@@ -369,13 +485,15 @@ export function uploadPart({
   uploadId: UploadId;
   partNumber: number;
   sizeOfChunk: number;
+  checksumSHA256?: string;
 }): Promise<string> {
   return objectStore.uploadPart(
     `${multiPartPrefix}/${uploadKey}`,
     stream,
     uploadId,
     partNumber,
-    sizeOfChunk
+    sizeOfChunk,
+    checksumSHA256
   );
 }
 
@@ -14,42 +14,4 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
-import { pubkeyToAddress } from "@cosmjs/amino";
-import { Secp256k1 } from "@cosmjs/crypto";
-import { toBase64 } from "@cosmjs/encoding";
-import { computePublicKey } from "@ethersproject/signing-key";
-import bs58 from "bs58";
-import { computeAddress } from "ethers";
-
-import { sigNameToSigInfo } from "../constants";
-import { SignatureType } from "../types/dbTypes";
-import { NativeAddress, SignatureConfig } from "../types/types";
-import { fromB64Url, ownerToNormalizedB64Address } from "./base64";
-
-export function ownerToNativeAddress(
-  owner: string,
-  signatureType: SignatureType
-): NativeAddress {
-  sigNameToSigInfo;
-  switch (signatureType) {
-    case SignatureConfig.ED25519:
-    case SignatureConfig.SOLANA:
-      return bs58.encode(fromB64Url(owner));
-
-    case SignatureConfig.ETHEREUM:
-      return computeAddress(computePublicKey(fromB64Url(owner)));
-
-    case SignatureConfig.KYVE:
-      return pubkeyToAddress(
-        {
-          type: "tendermint/PubKeySecp256k1",
-          value: toBase64(Secp256k1.compressPubkey(fromB64Url(owner))),
-        },
-        "kyve"
-      );
-
-    case SignatureConfig.ARWEAVE:
-    default:
-      return ownerToNormalizedB64Address(owner);
-  }
-}
+export { ownerToNativeAddress } from "@ar-io-bundler/shared";
@@ -17,7 +17,13 @@
 import { expect } from "chai";
 
 import { BundlePacker } from "../bundles/bundlePacker";
-import { dataItemIsOverdue, factorBundlesByTargetSize } from "./planningUtils";
+import { defaultBundlePlanningSla } from "../constants";
+import {
+  dataItemIsOverdue,
+  factorBundlesByTargetSize,
+  getBundlePlanningSla,
+  planDataItemsBySla,
+} from "./planningUtils";
 
 describe("factorBundlesByTargetSize function", () => {
   const testBundlePacker = new BundlePacker({});
@@ -99,6 +105,119 @@ describe("factorBundlesByTargetSize function", () => {
   });
 });
 
+describe("factorBundlesByTargetSize function with a min fill ratio", () => {
+  it("sends plans that meet the packer's min fill ratio for preparation", () => {
+    const halfFullPacker = new BundlePacker({
+      maxTotalDataItemsByteCount: 100,
+      maxDataItemsCount: 10,
+      minFillRatio: 0.5,
+    });
+    const underweightPlan = {
+      dataItemIds: ["stub"],
+      totalByteCount: 49,
+      containsOverdueDataItems: false,
+      dataItemSizes: {},
+    };
+    const halfFullPlan = {
+      dataItemIds: ["stub"],
+      totalByteCount: 50,
+      containsOverdueDataItems: false,
+      dataItemSizes: {},
+    };
+
+    const { underweightBundlePlans, bundlePlans } = factorBundlesByTargetSize(
+      [underweightPlan, halfFullPlan],
+      halfFullPacker
+    );
+
+    expect(underweightBundlePlans).to.deep.equal([underweightPlan]);
+    expect(bundlePlans).to.deep.equal([halfFullPlan]);
+  });
+});
+
+describe("getBundlePlanningSla function", () => {
+  it("returns the default SLA for premium feature types without overrides", () => {
+    expect(getBundlePlanningSla("default", {})).to.deep.equal(
+      defaultBundlePlanningSla
+    );
+    expect(
+      getBundlePlanningSla("no_sla", { no_sla: { allowedWallets: [] } })
+    ).to.deep.equal(defaultBundlePlanningSla);
+  });
+
+  it("merges the dedicated bundle type's overrides over the default SLA", () => {
+    expect(
+      getBundlePlanningSla("fast_lane", {
+        fast_lane: { allowedWallets: [], planningSla: { maxWaitMs: 30_000 } },
+      })
+    ).to.deep.equal({ ...defaultBundlePlanningSla, maxWaitMs: 30_000 });
+  });
+});
+
+describe("planDataItemsBySla function", () => {
+  const bundlePacker = new BundlePacker({
+    maxTotalDataItemsByteCount: 100,
+    maxDataItemsCount: 10,
+  });
+  const nowMs = new Date("2024-01-01T00:01:00.000Z").getTime();
+  const uploadedDate = "2024-01-01T00:00:00.000Z"; // one minute before nowMs
+
+  it("plans each premium feature type lane with its own SLA", () => {
+    const { bundlePlans, underweightBundlePlans } = planDataItemsBySla({
+      dataItems: [
+        {
+          dataItemId: "fast",
+          byteCount: 10,
+          uploadedDate,
+          premiumFeatureType: "fast_lane",
+        },
+        {
+          dataItemId: "full",
+          byteCount: 100,
+          uploadedDate,
+          premiumFeatureType: "default",
+        },
+        {
+          dataItemId: "waiting",
+          byteCount: 10,
+          uploadedDate,
+          premiumFeatureType: "unknown_lane",
+        },
+      ],
+      bundlePacker,
+      bundleTypes: {
+        fast_lane: { allowedWallets: [], planningSla: { maxWaitMs: 30_000 } },
+      },
+      nowMs,
+    });
+
+    expect(
+      bundlePlans.map(({ dataItemIds, premiumFeatureType, slaTrigger }) => ({
+        dataItemIds,
+        premiumFeatureType,
+        slaTrigger,
+      }))
+    ).to.have.deep.members([
+      {
+        dataItemIds: ["full"],
+        premiumFeatureType: "default",
+        slaTrigger: "min_fill_ratio",
+      },
+      {
+        dataItemIds: ["fast"],
+        premiumFeatureType: "fast_lane",
+        slaTrigger: "max_wait",
+      },
+    ]);
+    expect(underweightBundlePlans.length).to.equal(1);
+    expect(underweightBundlePlans[0]).to.include({
+      premiumFeatureType: "default",
+      fillRatio: 0.1,
+    });
+    expect(underweightBundlePlans[0].dataItemIds).to.deep.equal(["waiting"]);
+  });
+});
+
 describe("dataItemIsOverdue function", () => {
   it("returns false when data item is not overdue", () => {
     const dataItem = {
@@ -113,4 +232,11 @@ describe("dataItemIsOverdue function", () => {
     };
     expect(dataItemIsOverdue(dataItem, 30_000)).to.equal(true);
   });
+
+  it("judges data items as of the provided time", () => {
+    const dataItem = { uploadedDate: "2024-01-01T00:00:00.000Z" };
+    const nowMs = new Date("2024-01-01T00:00:30.000Z").getTime();
+    expect(dataItemIsOverdue(dataItem, 30_000, nowMs)).to.equal(true);
+    expect(dataItemIsOverdue(dataItem, 30_001, nowMs)).to.equal(false);
+  });
 });
@@ -14,8 +14,136 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
-import { BundlePacker, PackerBundlePlan } from "../bundles/bundlePacker";
+import {
+  BundlePacker,
+  PackerBundlePlan,
+  PackerDataItem,
+} from "../bundles/bundlePacker";
+import {
+  defaultBundlePlanningSla,
+  defaultPremiumFeatureType,
+} from "../constants";
 import { Timestamp } from "../types/dbTypes";
+import {
+  BundlePlanSlaTrigger,
+  BundlePlanningSla,
+  DedicatedBundleTypes,
+} from "../types/types";
+
+export interface SlaBundlePlan extends PackerBundlePlan {
+  premiumFeatureType: string;
+  slaTrigger: BundlePlanSlaTrigger;
+}
+
+export interface UnderweightSlaBundlePlan extends PackerBundlePlan {
+  premiumFeatureType: string;
+  fillRatio: number;
+}
+
+/** Resolves the planning SLA of a premium feature type, falling back to the default SLA for any unset targets */
+export function getBundlePlanningSla(
+  premiumFeatureType: string,
+  bundleTypes: DedicatedBundleTypes
+): BundlePlanningSla {
+  return {
+    ...defaultBundlePlanningSla,
+    ...bundleTypes[premiumFeatureType]?.planningSla,
+  };
+}
+
+/** Resolves the planning SLA of the default bundles and of every dedicated bundle type */
+export function getBundlePlanningSlas(
+  bundleTypes: DedicatedBundleTypes
+): Record<string, BundlePlanningSla> {
+  const planningSlas: Record<string, BundlePlanningSla> = {
+    [defaultPremiumFeatureType]: getBundlePlanningSla(
+      defaultPremiumFeatureType,
+      bundleTypes
+    ),
+  };
+  for (const premiumFeatureType of Object.keys(bundleTypes)) {
+    planningSlas[premiumFeatureType] = getBundlePlanningSla(
+      premiumFeatureType,
+      bundleTypes
+    );
+  }
+  return planningSlas;
+}
+
+/**
+ * Packs data items into bundle plans per premium feature type lane. Plans containing data items past
+ * the lane's max wait are expedited, the rest must reach the lane's min fill ratio to be prepared
+ */
+export function planDataItemsBySla({
+  dataItems,
+  bundlePacker,
+  bundleTypes,
+  nowMs = new Date().getTime(),
+}: {
+  dataItems: (PackerDataItem & { premiumFeatureType: string })[];
+  bundlePacker: BundlePacker;
+  bundleTypes: DedicatedBundleTypes;
+  nowMs?: number;
+}): {
+  bundlePlans: SlaBundlePlan[];
+  underweightBundlePlans: UnderweightSlaBundlePlan[];
+} {
+  const planningSlas = getBundlePlanningSlas(bundleTypes);
+  const dataItemsByFeatureType = dataItems.reduce(
+    (acc, dataItem) => {
+      const premiumFeatureType = Object.keys(bundleTypes).includes(
+        dataItem.premiumFeatureType
+      )
+        ? dataItem.premiumFeatureType
+        : defaultPremiumFeatureType;
+      acc[premiumFeatureType]
+        ? acc[premiumFeatureType].push(dataItem)
+        : (acc[premiumFeatureType] = [dataItem]);
+      return acc;
+    },
+    { [defaultPremiumFeatureType]: [] } as Record<string, PackerDataItem[]>
+  );
+
+  const bundlePlans: SlaBundlePlan[] = [];
+  const underweightBundlePlans: UnderweightSlaBundlePlan[] = [];
+  for (const premiumFeatureType in dataItemsByFeatureType) {
+    const lanePacker = bundlePacker.withPlanningSla(
+      planningSlas[premiumFeatureType]
+    );
+    const lanePlans = lanePacker.packDataItemsIntoBundlePlans(
+      dataItemsByFeatureType[premiumFeatureType],
+      nowMs
+    );
+
+    const {
+      underweightBundlePlans: laneUnderweightPlans,
+      bundlePlans: filledPlans,
+    } = factorBundlesByTargetSize(
+      lanePlans.filter((plan) => !plan.containsOverdueDataItems),
+      lanePacker
+    );
+
+    for (const plan of filledPlans) {
+      bundlePlans.push({
+        ...plan,
+        premiumFeatureType,
+        slaTrigger: "min_fill_ratio",
+      });
+    }
+    for (const plan of lanePlans.filter((p) => p.containsOverdueDataItems)) {
+      bundlePlans.push({ ...plan, premiumFeatureType, slaTrigger: "max_wait" });
+    }
+    for (const plan of laneUnderweightPlans) {
+      underweightBundlePlans.push({
+        ...plan,
+        premiumFeatureType,
+        fillRatio: lanePacker.planFillRatio(plan),
+      });
+    }
+  }
+
+  return { bundlePlans, underweightBundlePlans };
+}
 
 export function factorBundlesByTargetSize(
   plans: PackerBundlePlan[],
@@ -26,10 +154,10 @@ export function factorBundlesByTargetSize(
 } {
   return plans.reduce(
     (acc, plan) => {
-      if (bundlePacker.planHasCapacity(plan)) {
-        acc.underweightBundlePlans.push(plan);
-      } else {
+      if (bundlePacker.planMeetsMinFillRatio(plan)) {
         acc.bundlePlans.push(plan);
+      } else {
+        acc.underweightBundlePlans.push(plan);
       }
       return acc;
     },
@@ -42,10 +170,11 @@ export function factorBundlesByTargetSize(
 
 export function dataItemIsOverdue(
   dataItem: { uploadedDate: Timestamp },
-  overdueThresholdMs: number
+  overdueThresholdMs: number,
+  nowMs: number = new Date().getTime()
 ): boolean {
   const msSinceDataItemUploaded =
-    new Date().getTime() - new Date(dataItem.uploadedDate).getTime();
+    nowMs - new Date(dataItem.uploadedDate).getTime();
   return msSinceDataItemUploaded >= overdueThresholdMs;
 }
 
@@ -15,7 +15,10 @@
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
 import { Tag } from "@dha-team/arbundles";
+import { Readable } from "stream";
+
 import { SignatureConfig } from "../types/types";
+import { RequestBodyTooLarge } from "./errors";
 
 /**
  * Checks if a buffer contains a valid ANS-104 data item
@@ -44,6 +47,25 @@ export function isANS104DataItem(buffer: Buffer): boolean {
   return validSignatureTypes.includes(signatureType);
 }
 
+// JSON envelopes carry base64 data that has to be decoded in memory, so they are capped well below binary uploads
+export const rawDataJsonEnvelopeMaxByteCount = 100 * 1024 * 1024; // 100 MiB
+
+async function readBoundedBody(
+  body: Readable,
+  maxByteCount: number
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let byteCount = 0;
+  for await (const chunk of body) {
+    byteCount += chunk.length;
+    if (byteCount > maxByteCount) {
+      throw new RequestBodyTooLarge(maxByteCount);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
 /**
  * Convert kebab-case to proper case for tag names
  * Examples:
@@ -88,29 +110,31 @@ export function extractTagsFromHeaders(headers: Record<string, string | string[]
 /**
  * Parse raw data request body and headers
  * Supports both:
- * 1. Binary upload with X-Tag-* headers
- * 2. JSON envelope with data and tags
+ * 1. Binary upload with X-Tag-* headers, whose body is passed through as a stream
+ * 2. JSON envelope with data and tags, which is buffered up to jsonEnvelopeMaxByteCount bytes
  */
 export interface ParsedRawDataRequest {
-  data: Buffer;
+  data: Readable;
   tags: Tag[];
   contentType?: string;
 }
 
-export function parseRawDataRequest(
-  rawBody: Buffer,
+export async function parseRawDataRequest(
+  body: Readable,
   contentType?: string,
-  headers?: Record<string, string | string[] | undefined>
-): ParsedRawDataRequest {
+  headers?: Record<string, string | string[] | undefined>,
+  jsonEnvelopeMaxByteCount = rawDataJsonEnvelopeMaxByteCount
+): Promise<ParsedRawDataRequest> {
   // Try JSON envelope format first
   if (contentType?.includes("application/json")) {
+    const rawBody = await readBoundedBody(body, jsonEnvelopeMaxByteCount);
     try {
       const json = JSON.parse(rawBody.toString("utf8"));
 
       if (json.data) {
         // JSON envelope format: { data: "base64...", tags: [...] }
         return {
-          data: Buffer.from(json.data, "base64"),
+          data: Readable.from(Buffer.from(json.data, "base64")),
           tags: json.tags || [],
           contentType: json.contentType,
         };
@@ -119,11 +143,12 @@ export function parseRawDataRequest(
       // Not valid JSON or doesn't have expected structure
       // Fall through to binary handling
     }
+    body = Readable.from(rawBody);
   }
 
   // Binary upload with X-Tag-* headers
   return {
-    data: rawBody,
+    data: body,
     tags: headers ? extractTagsFromHeaders(headers) : [],
     contentType: contentType && contentType !== "application/octet-stream" ? contentType : undefined,
   };
@@ -132,13 +157,13 @@ export function parseRawDataRequest(
 /**
  * Validate that raw data meets requirements
  */
-export function validateRawData(data: Buffer, maxSize: number): { valid: boolean; error?: string } {
-  if (data.length === 0) {
+export function validateRawData(byteCount: number, maxSize: number): { valid: boolean; error?: string } {
+  if (byteCount === 0) {
     return { valid: false, error: "Data cannot be empty" };
   }
 
-  if (data.length > maxSize) {
-    return { valid: false, error: `Data size ${data.length} exceeds maximum of ${maxSize} bytes` };
+  if (byteCount > maxSize) {
+    return { valid: false, error: `Data size ${byteCount} exceeds maximum of ${maxSize} bytes` };
   }
 
   return { valid: true };
@@ -17,7 +17,12 @@
 import { expect } from "chai";
 
 import { testArweaveJWK } from "../../tests/test_helpers";
-import { UnsignedReceipt, signReceipt } from "./signReceipt";
+import { fullySignedReceiptVersion, receiptVersion } from "../constants";
+import {
+  UnsignedReceipt,
+  negotiateReceiptVersion,
+  signReceipt,
+} from "./signReceipt";
 import { verifyReceipt } from "./verifyReceipt";
 
 describe("signReceipt", () => {
@@ -45,4 +50,65 @@ describe("signReceipt", () => {
     expect(await verifyReceipt({ ...receipt, signature, public: privateKey.n }))
       .to.be.true;
   });
+
+  const unsignedReceipt: UnsignedReceipt = {
+    id: "QpmY8mZmFEC8RxNsgbxSV6e36OF6quIYaPRKzvUco0o",
+    deadlineHeight: 1310000,
+    timestamp: 1700590909589,
+    version: receiptVersion,
+    dataCaches: ["arweave.net"],
+    fastFinalityIndexes: ["arweave.net"],
+    winc: "1000",
+  };
+
+  it("should not authenticate winc, dataCaches and fastFinalityIndexes on legacy receipts", async () => {
+    const signedReceipt = await signReceipt(unsignedReceipt, testArweaveJWK);
+
+    expect(await verifyReceipt(signedReceipt)).to.be.true;
+    expect(await verifyReceipt({ ...signedReceipt, winc: "1" })).to.be.true;
+    expect(await verifyReceipt({ ...signedReceipt, deadlineHeight: 1 })).to.be
+      .false;
+  });
+
+  it("should authenticate every field on fully signed receipts", async () => {
+    const signedReceipt = await signReceipt(
+      { ...unsignedReceipt, version: fullySignedReceiptVersion },
+      testArweaveJWK
+    );
+
+    expect(await verifyReceipt(signedReceipt)).to.be.true;
+    expect(await verifyReceipt({ ...signedReceipt, winc: "1" })).to.be.false;
+    expect(await verifyReceipt({ ...signedReceipt, dataCaches: ["evil.net"] }))
+      .to.be.false;
+    expect(await verifyReceipt({ ...signedReceipt, fastFinalityIndexes: [] }))
+      .to.be.false;
+    expect(await verifyReceipt({ ...signedReceipt, uploader: "someone" })).to.be
+      .false;
+  });
+
+  it("should not verify a fully signed receipt downgraded to the legacy version", async () => {
+    const signedReceipt = await signReceipt(
+      { ...unsignedReceipt, version: fullySignedReceiptVersion },
+      testArweaveJWK
+    );
+
+    expect(await verifyReceipt({ ...signedReceipt, version: receiptVersion }))
+      .to.be.false;
+  });
+});
+
+describe("negotiateReceiptVersion", () => {
+  it("should default to the legacy receipt version", () => {
+    expect(negotiateReceiptVersion(undefined)).to.equal(receiptVersion);
+    expect(negotiateReceiptVersion("9.9.9")).to.equal(receiptVersion);
+  });
+
+  it("should pick the fully signed receipt version when it is accepted", () => {
+    expect(negotiateReceiptVersion("0.3.0")).to.equal(
+      fullySignedReceiptVersion
+    );
+    expect(negotiateReceiptVersion("0.2.0, 0.3.0")).to.equal(
+      fullySignedReceiptVersion
+    );
+  });
 });
@@ -18,6 +18,7 @@ import { deepHash, stringToBuffer } from "@dha-team/arbundles";
 import { DeepHashChunk } from "@dha-team/arbundles/build/node/esm/src/deepHash";
 import Arweave from "arweave";
 
+import { fullySignedReceiptVersion, receiptVersion } from "../constants";
 import { JWKInterface } from "../types/jwkTypes";
 import { toB64Url } from "./base64";
 import { getPublicKeyFromJwk } from "./common";
@@ -31,6 +32,8 @@ export type UnsignedReceipt = {
   fastFinalityIndexes: string[];
   // Added in v0.2.0
   winc: string;
+  // Signer of the request for server-signed raw uploads paid with credits
+  uploader?: string;
 };
 
 export type IrysUnsignedReceipt = Omit<
@@ -48,21 +51,40 @@ export type IrysSignedReceipt = IrysUnsignedReceipt & {
   signature: string;
 };
 
-// TODO: Add receipt version input and use it to prepare hashes for different versions
+/**
+ * Picks the version to sign a receipt with from an Accept-Receipt-Version request header, a comma
+ * separated list of versions. Falls back to the default version when no listed version is supported
+ */
+export function negotiateReceiptVersion(
+  acceptReceiptVersion: string | undefined
+): string {
+  const acceptedVersions = (acceptReceiptVersion ?? "")
+    .split(",")
+    .map((version) => version.trim());
+  return acceptedVersions.includes(fullySignedReceiptVersion)
+    ? fullySignedReceiptVersion
+    : receiptVersion;
+}
+
 export function prepareHash(receipt: UnsignedReceipt): DeepHashChunk {
-  return [
+  const irysCompatibleChunks = [
     stringToBuffer("Bundlr"),
     stringToBuffer(receipt.version),
     stringToBuffer(receipt.id),
     stringToBuffer(receipt.deadlineHeight.toString()),
     stringToBuffer(receipt.timestamp.toString()),
+  ];
+  if (receipt.version !== fullySignedReceiptVersion) {
+    // Legacy receipts leave the remaining fields unsigned, matching Irys receipts
+    return irysCompatibleChunks;
+  }
 
-    /**
-     * Temporarily excluded for irys migration
-     */
-    // stringToBuffer(receipt.dataCaches.join(",")),
-    // stringToBuffer(receipt.fastFinalityIndexes.join(",")),
-    // stringToBuffer(receipt.winc),
+  return [
+    ...irysCompatibleChunks,
+    stringToBuffer(receipt.dataCaches.join(",")),
+    stringToBuffer(receipt.fastFinalityIndexes.join(",")),
+    stringToBuffer(receipt.winc),
+    stringToBuffer(receipt.uploader ?? ""),
   ];
 }
 
@@ -0,0 +1,170 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { expect } from "chai";
+
+import { StorageTieringCandidate } from "../types/dbTypes";
+import { StorageTieringPolicy } from "../types/types";
+import { nextStorageTier, storageTieringCutoffs } from "./storageTiering";
+
+const oneDayMs = 24 * 60 * 60 * 1000;
+const nowMs = new Date("2026-10-19T00:00:00.000Z").getTime();
+
+const testPolicy: StorageTieringPolicy = {
+  fsBackupMaxAgeMs: 7 * oneDayMs,
+  objectStoreMaxAgeMs: 90 * oneDayMs,
+  archiveMinIdleMs: 30 * oneDayMs,
+  promoteMinAccessCount: 3,
+};
+
+function daysAgo(days: number): string {
+  return new Date(nowMs - days * oneDayMs).toISOString();
+}
+
+function candidate(
+  overrides: Partial<StorageTieringCandidate>
+): StorageTieringCandidate {
+  return {
+    dataItemId: "Xx4DHBtmvzQ2BnSfyBJOTqIZ0Nm9ukhEqV5zYt5gRpY",
+    uploadedDate: daysAgo(1),
+    accessCount: 0,
+    ...overrides,
+  };
+}
+
+describe("nextStorageTier function", () => {
+  it("keeps recent payloads where they were stored on upload", () => {
+    expect(nextStorageTier(candidate({}), testPolicy, nowMs)).to.be.undefined;
+  });
+
+  it("moves payloads past the FS backup max age to the object store", () => {
+    expect(
+      nextStorageTier(
+        candidate({ uploadedDate: daysAgo(8) }),
+        testPolicy,
+        nowMs
+      )
+    ).to.equal("object_store");
+  });
+
+  it("archives payloads still in their upload placement once they are past the object store max age", () => {
+    expect(
+      nextStorageTier(
+        candidate({ uploadedDate: daysAgo(100) }),
+        testPolicy,
+        nowMs
+      )
+    ).to.equal("archive");
+  });
+
+  it("archives idle payloads past the object store max age", () => {
+    expect(
+      nextStorageTier(
+        candidate({
+          uploadedDate: daysAgo(100),
+          storageTier: "object_store",
+          tieredDate: daysAgo(93),
+          lastAccessedDate: daysAgo(31),
+          accessCount: 2,
+        }),
+        testPolicy,
+        nowMs
+      )
+    ).to.equal("archive");
+  });
+
+  it("keeps recently read payloads in the object store", () => {
+    expect(
+      nextStorageTier(
+        candidate({
+          uploadedDate: daysAgo(100),
+          storageTier: "object_store",
+          tieredDate: daysAgo(93),
+          lastAccessedDate: daysAgo(2),
+          accessCount: 1,
+        }),
+        testPolicy,
+        nowMs
+      )
+    ).to.be.undefined;
+  });
+
+  it("keeps recently promoted payloads in the object store until they are idle", () => {
+    expect(
+      nextStorageTier(
+        candidate({
+          uploadedDate: daysAgo(200),
+          storageTier: "object_store",
+          tieredDate: daysAgo(5),
+        }),
+        testPolicy,
+        nowMs
+      )
+    ).to.be.undefined;
+  });
+
+  it("promotes archived payloads read at least the promote min access count", () => {
+    expect(
+      nextStorageTier(
+        candidate({
+          uploadedDate: daysAgo(200),
+          storageTier: "archive",
+          tieredDate: daysAgo(50),
+          lastAccessedDate: daysAgo(1),
+          accessCount: 3,
+        }),
+        testPolicy,
+        nowMs
+      )
+    ).to.equal("object_store");
+  });
+
+  it("keeps rarely read payloads in the archive", () => {
+    expect(
+      nextStorageTier(
+        candidate({
+          uploadedDate: daysAgo(200),
+          storageTier: "archive",
+          tieredDate: daysAgo(50),
+          accessCount: 2,
+        }),
+        testPolicy,
+        nowMs
+      )
+    ).to.be.undefined;
+  });
+
+  it("never moves payloads only held by Arweave", () => {
+    expect(
+      nextStorageTier(
+        candidate({ uploadedDate: daysAgo(200), storageTier: "arweave" }),
+        testPolicy,
+        nowMs
+      )
+    ).to.be.undefined;
+  });
+});
+
+describe("storageTieringCutoffs function", () => {
+  it("subtracts each policy threshold from now", () => {
+    expect(storageTieringCutoffs(testPolicy, nowMs)).to.deep.equal({
+      fsBackupCutoff: new Date(daysAgo(7)),
+      objectStoreCutoff: new Date(daysAgo(90)),
+      idleCutoff: new Date(daysAgo(30)),
+      promoteMinAccessCount: 3,
+    });
+  });
+});
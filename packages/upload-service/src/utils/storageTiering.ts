@@ -0,0 +1,70 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { GetStorageTieringCandidatesParams } from "../arch/db/database";
+import { StorageTieringCandidate } from "../types/dbTypes";
+import { StorageTier, StorageTieringPolicy } from "../types/types";
+
+/** Converts the thresholds of a tiering policy into the cutoffs used to query for candidates */
+export function storageTieringCutoffs(
+  policy: StorageTieringPolicy,
+  nowMs: number = Date.now()
+): Omit<GetStorageTieringCandidatesParams, "limit"> {
+  return {
+    fsBackupCutoff: new Date(nowMs - policy.fsBackupMaxAgeMs),
+    objectStoreCutoff: new Date(nowMs - policy.objectStoreMaxAgeMs),
+    idleCutoff: new Date(nowMs - policy.archiveMinIdleMs),
+    promoteMinAccessCount: policy.promoteMinAccessCount,
+  };
+}
+
+/**
+ * Decides the tier a permanent data item's payload should move to, or undefined when it should stay put.
+ * Payloads go from their upload placement to the object store, then to the archive once old and idle,
+ * and come back to the object store when archived payloads are read often
+ */
+export function nextStorageTier(
+  candidate: StorageTieringCandidate,
+  policy: StorageTieringPolicy,
+  nowMs: number = Date.now()
+): StorageTier | undefined {
+  const ageMs = nowMs - new Date(candidate.uploadedDate).getTime();
+  const idleMs =
+    nowMs -
+    new Date(
+      candidate.lastAccessedDate ??
+        candidate.tieredDate ??
+        candidate.uploadedDate
+    ).getTime();
+  const isDueForArchive =
+    ageMs >= policy.objectStoreMaxAgeMs && idleMs >= policy.archiveMinIdleMs;
+
+  switch (candidate.storageTier) {
+    case undefined:
+      if (isDueForArchive) {
+        return "archive";
+      }
+      return ageMs >= policy.fsBackupMaxAgeMs ? "object_store" : undefined;
+    case "object_store":
+      return isDueForArchive ? "archive" : undefined;
+    case "archive":
+      return candidate.accessCount >= policy.promoteMinAccessCount
+        ? "object_store"
+        : undefined;
+    case "arweave":
+      return undefined;
+  }
+}
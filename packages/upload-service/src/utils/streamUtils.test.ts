@@ -0,0 +1,43 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { expect } from "chai";
+import { Readable } from "stream";
+
+import { streamToBuffer } from "./streamToBuffer";
+import { peekStream } from "./streamUtils";
+
+describe("peekStream function", () => {
+  it("returns the head of the stream without consuming it", async () => {
+    const readable = Readable.from([Buffer.from("abc"), Buffer.from("def")], {
+      objectMode: false,
+    });
+
+    const { head, stream } = await peekStream(readable, 2);
+
+    expect(head.toString()).to.equal("ab");
+    expect((await streamToBuffer(stream)).toString()).to.equal("abcdef");
+  });
+
+  it("returns a replacement stream when the source ends before the peeked byte count", async () => {
+    const readable = Readable.from([Buffer.from("a")], { objectMode: false });
+
+    const { head, stream } = await peekStream(readable, 2);
+
+    expect(head.toString()).to.equal("a");
+    expect((await streamToBuffer(stream)).toString()).to.equal("a");
+  });
+});
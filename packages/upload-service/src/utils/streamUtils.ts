@@ -68,3 +68,52 @@ export function waitForStreamToEnd(stream: Readable): Promise<void> {
     stream.once("close", onClose);
   });
 }
+
+/**
+ * Reads the first byteCount bytes of a stream without consuming them. The peeked bytes are pushed
+ * back onto the stream, or a replacement stream is returned when the source has already ended
+ */
+export async function peekStream(
+  readable: Readable,
+  byteCount: number
+): Promise<{ head: Buffer; stream: Readable }> {
+  const chunks: Buffer[] = [];
+  let peekedByteCount = 0;
+  const sourceEnded = await new Promise<boolean>((resolve, reject) => {
+    let cleanup: (() => void) | undefined = undefined;
+    const onData = (chunk: Buffer) => {
+      chunks.push(chunk);
+      peekedByteCount += chunk.byteLength;
+      if (peekedByteCount >= byteCount) {
+        readable.pause();
+        cleanup?.();
+        resolve(false);
+      }
+    };
+    const onEnd = () => {
+      cleanup?.();
+      resolve(true);
+    };
+    const onError = (err: Error) => {
+      cleanup?.();
+      reject(err);
+    };
+    cleanup = () => {
+      readable.off("data", onData);
+      readable.off("end", onEnd);
+      readable.off("error", onError);
+    };
+
+    readable.on("data", onData);
+    readable.once("end", onEnd);
+    readable.once("error", onError);
+  });
+
+  const peeked = Buffer.concat(chunks);
+  const head = peeked.subarray(0, byteCount);
+  if (sourceEnded) {
+    return { head, stream: Readable.from(peeked) };
+  }
+  readable.unshift(peeked);
+  return { head, stream: readable };
+}
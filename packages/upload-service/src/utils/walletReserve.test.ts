@@ -0,0 +1,134 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { expect } from "chai";
+
+import { MetricRegistry } from "../metricRegistry";
+import { W } from "../types/winston";
+import {
+  forecastWalletReserve,
+  priorityPremiumFeatureTypes,
+  resetWalletReserveGauges,
+  setWalletReserveGauges,
+} from "./walletReserve";
+
+describe("forecastWalletReserve function", () => {
+  const now = new Date("2026-10-19T00:00:00.000Z");
+  const windowMs = 24 * 60 * 60 * 1000;
+
+  it("forecasts the hours left after pending rewards at the recent burn rate", () => {
+    const forecast = forecastWalletReserve({
+      balance: W(10_000),
+      pendingRewards: W(400),
+      recentRewards: W(2_400),
+      windowMs,
+      minReserveHours: 48,
+      now,
+    });
+
+    expect(forecast).to.deep.equal({
+      balance: "10000",
+      pendingRewards: "400",
+      burnRatePerHour: "100",
+      hoursRemaining: 96,
+      nonPriorityLanesPaused: false,
+      forecastedAt: "2026-10-19T00:00:00.000Z",
+    });
+  });
+
+  it("pauses non-priority lanes when the reserve is forecast to last less than the minimum", () => {
+    const forecast = forecastWalletReserve({
+      balance: W(4_000),
+      pendingRewards: W(400),
+      recentRewards: W(2_400),
+      windowMs,
+      minReserveHours: 48,
+      now,
+    });
+
+    expect(forecast.hoursRemaining).to.equal(36);
+    expect(forecast.nonPriorityLanesPaused).to.be.true;
+  });
+
+  it("pauses non-priority lanes when pending rewards exceed the balance, even without recent burn", () => {
+    const forecast = forecastWalletReserve({
+      balance: W(100),
+      pendingRewards: W(400),
+      recentRewards: W(0),
+      windowMs,
+      minReserveHours: 48,
+      now,
+    });
+
+    expect(forecast.hoursRemaining).to.be.null;
+    expect(forecast.nonPriorityLanesPaused).to.be.true;
+  });
+
+  it("does not pause planning when nothing was spent and balance remains", () => {
+    const forecast = forecastWalletReserve({
+      balance: W(100),
+      pendingRewards: W(0),
+      recentRewards: W(0),
+      windowMs,
+      minReserveHours: 48,
+      now,
+    });
+
+    expect(forecast.hoursRemaining).to.be.null;
+    expect(forecast.nonPriorityLanesPaused).to.be.false;
+  });
+});
+
+describe("priorityPremiumFeatureTypes function", () => {
+  it("returns the dedicated bundle types flagged as priority", () => {
+    expect(
+      priorityPremiumFeatureTypes({
+        priority_lane: { allowedWallets: [], priority: true },
+        bulk_lane: { allowedWallets: [], priority: false },
+        other_lane: { allowedWallets: [] },
+      })
+    ).to.deep.equal(["priority_lane"]);
+  });
+});
+
+describe("resetWalletReserveGauges function", () => {
+  it("stops exporting the last forecast and flags the forecast as stale", async () => {
+    setWalletReserveGauges({
+      balance: "10000",
+      pendingRewards: "400",
+      burnRatePerHour: "100",
+      hoursRemaining: 96,
+      nonPriorityLanesPaused: true,
+      forecastedAt: "2026-10-19T00:00:00.000Z",
+    });
+    expect(
+      (await MetricRegistry.walletReserveForecastStale.get()).values[0].value
+    ).to.equal(0);
+
+    resetWalletReserveGauges();
+
+    expect(
+      (await MetricRegistry.walletReserveHoursRemaining.get()).values[0].value
+    ).to.equal(0);
+    expect(
+      (await MetricRegistry.walletReserveNonPriorityLanesPaused.get()).values[0]
+        .value
+    ).to.equal(0);
+    expect(
+      (await MetricRegistry.walletReserveForecastStale.get()).values[0].value
+    ).to.equal(1);
+  });
+});
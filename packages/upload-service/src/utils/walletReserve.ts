@@ -0,0 +1,129 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import winston from "winston";
+
+import { Database } from "../arch/db/database";
+import { walletReserveForecastMaxAgeMs } from "../constants";
+import defaultLogger from "../logger";
+import { MetricRegistry } from "../metricRegistry";
+import { DedicatedBundleTypes, WalletReserveForecast } from "../types/types";
+import { W, Winston } from "../types/winston";
+
+const oneHourMs = 60 * 60 * 1000;
+
+/**
+ * Forecasts how long the bundler wallets' balance lasts at the burn rate of recently posted
+ * bundles, after the rewards of bundles already signed are paid. Non-priority lanes are paused
+ * once the forecast drops below the minimum reserve, or when nothing is left after pending rewards
+ */
+export function forecastWalletReserve({
+  balance,
+  pendingRewards,
+  recentRewards,
+  windowMs,
+  minReserveHours,
+  now = new Date(),
+}: {
+  balance: Winston;
+  pendingRewards: Winston;
+  /** Rewards of the bundles posted within the forecast window */
+  recentRewards: Winston;
+  windowMs: number;
+  minReserveHours: number;
+  now?: Date;
+}): WalletReserveForecast {
+  const availableBalance = pendingRewards.isGreaterThan(balance)
+    ? W(0)
+    : balance.minus(pendingRewards);
+  const burnRatePerHour = recentRewards.times(oneHourMs).dividedBy(windowMs);
+
+  const hoursRemaining = burnRatePerHour.isGreaterThan(W(0))
+    ? +availableBalance / +burnRatePerHour
+    : null;
+
+  return {
+    balance: balance.toString(),
+    pendingRewards: pendingRewards.toString(),
+    burnRatePerHour: burnRatePerHour.toString(),
+    hoursRemaining,
+    nonPriorityLanesPaused:
+      !availableBalance.isGreaterThan(W(0)) ||
+      (hoursRemaining !== null && hoursRemaining < minReserveHours),
+    forecastedAt: now.toISOString(),
+  };
+}
+
+/** Premium feature types of the dedicated bundle types that keep being planned on a low wallet reserve */
+export function priorityPremiumFeatureTypes(
+  bundleTypes: DedicatedBundleTypes
+): string[] {
+  return Object.entries(bundleTypes)
+    .filter(([, { priority }]) => priority === true)
+    .map(([premiumFeatureType]) => premiumFeatureType);
+}
+
+export function setWalletReserveGauges(forecast: WalletReserveForecast) {
+  MetricRegistry.walletReserveBalance.set(+forecast.balance);
+  MetricRegistry.walletReservePendingRewards.set(+forecast.pendingRewards);
+  MetricRegistry.walletReserveBurnRate.set(+forecast.burnRatePerHour);
+  MetricRegistry.walletReserveHoursRemaining.set(forecast.hoursRemaining ?? -1);
+  MetricRegistry.walletReserveNonPriorityLanesPaused.set(
+    forecast.nonPriorityLanesPaused ? 1 : 0
+  );
+  MetricRegistry.walletReserveForecastStale.set(0);
+}
+
+/** Resets the wallet reserve gauges when there is no recent forecast, so the last one isn't exported forever */
+export function resetWalletReserveGauges() {
+  MetricRegistry.walletReserveBalance.reset();
+  MetricRegistry.walletReservePendingRewards.reset();
+  MetricRegistry.walletReserveBurnRate.reset();
+  MetricRegistry.walletReserveHoursRemaining.reset();
+  MetricRegistry.walletReserveNonPriorityLanesPaused.reset();
+  MetricRegistry.walletReserveForecastStale.set(1);
+}
+
+/**
+ * Gets the latest wallet reserve forecast, or undefined when none was stored within
+ * WALLET_RESERVE_FORECAST_MAX_AGE_MINUTES
+ */
+export async function getRecentWalletReserveForecast(
+  database: Database,
+  logger: winston.Logger = defaultLogger,
+  nowMs: number = Date.now()
+): Promise<WalletReserveForecast | undefined> {
+  try {
+    const forecast = await database.getWalletReserveForecast();
+    if (forecast === undefined) {
+      return undefined;
+    }
+    if (
+      nowMs - new Date(forecast.forecastedAt).getTime() >
+      walletReserveForecastMaxAgeMs
+    ) {
+      logger.warn("Ignoring stale wallet reserve forecast!", {
+        forecastedAt: forecast.forecastedAt,
+      });
+      return undefined;
+    }
+    return forecast;
+  } catch (error) {
+    // Fail open so that a forecast read failure doesn't halt planning
+    logger.error("Failed to get wallet reserve forecast!", { error });
+    return undefined;
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { expect } from "chai";
+
+import {
+  expectAsyncErrorThrow,
+  testArweaveJWK,
+} from "../../tests/test_helpers";
+import { retryLimitForFailedDataItems } from "../constants";
+import {
+  isPublicIpAddress,
+  isValidWebhookUrl,
+  permanentWebhookNotifications,
+  rePackedWebhookNotifications,
+  resolvePublicWebhookAddress,
+  signWebhookBody,
+  verifyWebhookSignature,
+} from "./webhooks";
+
+describe("isValidWebhookUrl", () => {
+  it("accepts https urls", () => {
+    expect(isValidWebhookUrl("https://example.com/webhook")).to.be.true;
+  });
+
+  it("rejects malformed urls, other protocols and overly long urls", () => {
+    expect(isValidWebhookUrl("not a url")).to.be.false;
+    expect(isValidWebhookUrl("http://example.com/webhook")).to.be.false;
+    expect(isValidWebhookUrl("ftp://example.com/webhook")).to.be.false;
+    expect(isValidWebhookUrl(`https://example.com/${"a".repeat(2048)}`)).to.be
+      .false;
+  });
+});
+
+describe("isPublicIpAddress", () => {
+  it("accepts public IPv4 and IPv6 addresses", () => {
+    expect(isPublicIpAddress("93.184.216.34")).to.be.true;
+    expect(isPublicIpAddress("2606:2800:220:1:248:1893:25c8:1946")).to.be.true;
+  });
+
+  it("rejects loopback, link-local and private addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.16.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "::",
+      "fe80::1",
+      "fd00::1",
+      "::ffff:127.0.0.1",
+    ]) {
+      expect(isPublicIpAddress(address), address).to.be.false;
+    }
+  });
+
+  it("rejects values that are not IP addresses", () => {
+    expect(isPublicIpAddress("example.com")).to.be.false;
+  });
+});
+
+describe("resolvePublicWebhookAddress", () => {
+  it("returns the resolved address of a public host", async () => {
+    expect(
+      await resolvePublicWebhookAddress(
+        "https://example.com/webhook",
+        async () => [{ address: "93.184.216.34", family: 4 }]
+      )
+    ).to.deep.equal({ address: "93.184.216.34", family: 4 });
+  });
+
+  it("throws when any resolved address of the host is not public", async () => {
+    await expectAsyncErrorThrow({
+      promiseToError: resolvePublicWebhookAddress(
+        "https://rebound.example.com/webhook",
+        async () => [
+          { address: "93.184.216.34", family: 4 },
+          { address: "10.0.0.1", family: 4 },
+        ]
+      ),
+      errorType: "NonPublicWebhookHost",
+    });
+  });
+
+  it("checks IPv6 literal hosts without their brackets", async () => {
+    const lookedUpHostnames: string[] = [];
+    await expectAsyncErrorThrow({
+      promiseToError: resolvePublicWebhookAddress(
+        "https://[::1]:8443/webhook",
+        async (hostname) => {
+          lookedUpHostnames.push(hostname);
+          return [{ address: hostname, family: 6 }];
+        }
+      ),
+      errorType: "NonPublicWebhookHost",
+    });
+    expect(lookedUpHostnames).to.deep.equal(["::1"]);
+  });
+});
+
+describe("signWebhookBody", () => {
+  it("signs a body that can be verified with the wallet's public key", async () => {
+    const body = JSON.stringify({ event: "permanent", dataItemId: "stub" });
+    const signature = await signWebhookBody(body, testArweaveJWK);
+
+    expect(
+      await verifyWebhookSignature({
+        body,
+        signature,
+        publicKey: testArweaveJWK.n,
+      })
+    ).to.be.true;
+    expect(
+      await verifyWebhookSignature({
+        body: body + " ",
+        signature,
+        publicKey: testArweaveJWK.n,
+      })
+    ).to.be.false;
+  });
+});
+
+describe("permanentWebhookNotifications", () => {
+  it("notifies each data item of its bundle and block height", () => {
+    expect(
+      permanentWebhookNotifications(
+        [{ dataItemId: "stub id", ownerPublicAddress: "stub owner" }],
+        { bundleId: "stub bundle id", blockHeight: 1 },
+        1700000000000
+      )
+    ).to.deep.equal([
+      {
+        ownerPublicAddress: "stub owner",
+        payload: {
+          event: "permanent",
+          dataItemId: "stub id",
+          timestamp: 1700000000000,
+          bundleId: "stub bundle id",
+          blockHeight: 1,
+        },
+      },
+    ]);
+  });
+});
+
+describe("rePackedWebhookNotifications", () => {
+  it("notifies data items under the retry limit as requeued and the rest as failed", () => {
+    const notifications = rePackedWebhookNotifications(
+      [
+        {
+          dataItemId: "requeued id",
+          ownerPublicAddress: "stub owner",
+          failedBundles: [],
+        },
+        {
+          dataItemId: "failed id",
+          ownerPublicAddress: "stub owner",
+          failedBundles: new Array(retryLimitForFailedDataItems - 1).fill(
+            "stub failed bundle id"
+          ),
+        },
+      ],
+      "stub bundle id",
+      1700000000000
+    );
+
+    expect(notifications.map(({ payload }) => payload)).to.deep.equal([
+      {
+        event: "requeued",
+        dataItemId: "requeued id",
+        timestamp: 1700000000000,
+        bundleId: "stub bundle id",
+      },
+      {
+        event: "failed",
+        dataItemId: "failed id",
+        timestamp: 1700000000000,
+        bundleId: "stub bundle id",
+        failedReason: "too_many_failures",
+      },
+    ]);
+  });
+});
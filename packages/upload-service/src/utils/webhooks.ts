@@ -0,0 +1,177 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import Arweave from "arweave";
+import { LookupAddress, promises as dns } from "dns";
+import { BlockList, isIP } from "net";
+
+import {
+  maxWebhookUrlLength,
+  retryLimitForFailedDataItems,
+} from "../constants";
+import { PlannedDataItem } from "../types/dbTypes";
+import { JWKInterface } from "../types/jwkTypes";
+import { TransactionId, WebhookPayload } from "../types/types";
+import { fromB64Url, toB64Url } from "./base64";
+import { NonPublicWebhookHost } from "./errors";
+
+/** A lifecycle transition of a data item, to be delivered if the data item or its owner has a webhook */
+export interface WebhookNotification {
+  ownerPublicAddress: string;
+  payload: WebhookPayload;
+}
+
+export function isValidWebhookUrl(webhookUrl: string): boolean {
+  if (webhookUrl.length > maxWebhookUrlLength) {
+    return false;
+  }
+  try {
+    return new URL(webhookUrl).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+// Loopback, link-local, private and other non-routable ranges webhooks are never delivered to. IPv4
+// mapped IPv6 addresses are checked against the IPv4 ranges
+const nonPublicAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicIpAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !nonPublicAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+export type WebhookHostLookup = (hostname: string) => Promise<LookupAddress[]>;
+
+const dnsWebhookHostLookup: WebhookHostLookup = (hostname) =>
+  dns.lookup(hostname, { all: true, verbatim: true });
+
+/**
+ * Resolves the host of a webhook url at delivery time, so a host can't be pointed at an internal
+ * address after it was registered. Throws when any of its addresses is not public
+ */
+export async function resolvePublicWebhookAddress(
+  webhookUrl: string,
+  lookup: WebhookHostLookup = dnsWebhookHostLookup
+): Promise<LookupAddress> {
+  // IPv6 literals keep their brackets in URL hostnames
+  const hostname = new URL(webhookUrl).hostname.replace(/^\[(.*)\]$/, "$1");
+  const addresses = await lookup(hostname);
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address }) => !isPublicIpAddress(address))
+  ) {
+    throw new NonPublicWebhookHost(hostname);
+  }
+  return addresses[0];
+}
+
+/** Signs the exact JSON body of a webhook delivery with the bundler's Arweave wallet */
+export async function signWebhookBody(
+  body: string,
+  privateKey: JWKInterface
+): Promise<string> {
+  const signature = await Arweave.crypto.sign(privateKey, Buffer.from(body));
+  return toB64Url(Buffer.from(signature));
+}
+
+export async function verifyWebhookSignature({
+  body,
+  signature,
+  publicKey,
+}: {
+  body: string;
+  signature: string;
+  publicKey: string;
+}): Promise<boolean> {
+  return Arweave.crypto.verify(
+    publicKey,
+    Buffer.from(body),
+    fromB64Url(signature)
+  );
+}
+
+export function permanentWebhookNotifications(
+  dataItems: Pick<PlannedDataItem, "dataItemId" | "ownerPublicAddress">[],
+  { bundleId, blockHeight }: { bundleId: TransactionId; blockHeight: number },
+  timestamp = Date.now()
+): WebhookNotification[] {
+  return dataItems.map(({ dataItemId, ownerPublicAddress }) => ({
+    ownerPublicAddress,
+    payload: {
+      event: "permanent",
+      dataItemId,
+      timestamp,
+      bundleId,
+      blockHeight,
+    },
+  }));
+}
+
+/**
+ * Data items of a dropped bundle are requeued to be packed into a new bundle, unless they have
+ * reached the retry limit and are moved to failed instead (as in `updateDataItemsToBeRePacked`)
+ */
+export function rePackedWebhookNotifications(
+  dataItems: Pick<
+    PlannedDataItem,
+    "dataItemId" | "ownerPublicAddress" | "failedBundles"
+  >[],
+  bundleId: TransactionId,
+  timestamp = Date.now()
+): WebhookNotification[] {
+  return dataItems.map(({ dataItemId, ownerPublicAddress, failedBundles }) => ({
+    ownerPublicAddress,
+    payload:
+      failedBundles.length + 1 >= retryLimitForFailedDataItems
+        ? {
+            event: "failed",
+            dataItemId,
+            timestamp,
+            bundleId,
+            failedReason: "too_many_failures",
+          }
+        : { event: "requeued", dataItemId, timestamp, bundleId },
+  }));
+}
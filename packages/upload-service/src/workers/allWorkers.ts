@@ -22,10 +22,13 @@ import { getWriterConfig } from "../arch/db/knexConfig";
 import {
   EnqueuedNewDataItem,
   EnqueuedOffsetsBatch,
+  EnqueuedVerifyChunksJob,
   EnqueueFinalizeUpload,
+  EnqueuedWebhookDelivery,
 } from "../arch/queues";
 import { jobLabels } from "../constants";
 import { handler as cleanupFsHandler } from "../jobs/cleanup-fs";
+import { forecastWalletReserveHandler } from "../jobs/forecast-wallet-reserve";
 import { finalizeMultipartUpload } from "../routes/multiPartUploads";
 import { UnbundleBDIMessageBody, unbundleBDIBatchHandler } from "../jobs/unbundle-bdi";
 import { opticalPostHandler } from "../jobs/optical-post";
@@ -34,7 +37,10 @@ import { postBundleHandler } from "../jobs/post";
 import { prepareBundleHandler } from "../jobs/prepare";
 import { putOffsetsHandler } from "../jobs/putOffsets";
 import { seedBundleHandler } from "../jobs/seed";
+import { handler as tierStorageHandler } from "../jobs/tier-storage";
 import { verifyBundleHandler } from "../jobs/verify";
+import { verifyChunksHandler } from "../jobs/verify-chunks";
+import { webhookDeliveryHandler } from "../jobs/webhookDelivery";
 import { newDataItemBatchInsertHandler } from "../jobs/newDataItemBatchInsert";
 import logger from "../logger";
 import { createWorker, setupGracefulShutdown } from "./workerUtils";
@@ -100,12 +106,24 @@ const verifyWorker = createWorker<{ planId: string }>(
     await verifyBundleHandler({
       database,
       objectStore: defaultArchitecture.objectStore,
-      arweaveGateway: defaultArchitecture.arweaveGateway,
     });
   },
   { concurrency: parseInt(process.env.VERIFY_WORKER_CONCURRENCY || "3", 10) }
 );
 
+// Verify Chunks Worker - Checks seeded bundle chunks on the upload node and reseeds missing chunks
+const verifyChunksWorker = createWorker<EnqueuedVerifyChunksJob>(
+  jobLabels.verifyChunks,
+  async (job: Job<EnqueuedVerifyChunksJob>) => {
+    await verifyChunksHandler({
+      database,
+      objectStore: defaultArchitecture.objectStore,
+      bundleIds: job.data.bundleIds,
+    });
+  },
+  { concurrency: 1 }
+);
+
 // Put Offsets Worker - Writes offsets to PostgreSQL
 const putOffsetsWorker = createWorker<EnqueuedOffsetsBatch>(
   jobLabels.putOffsets,
@@ -148,7 +166,8 @@ const unbundleWorker = createWorker<UnbundleBDIMessageBody>(
     await unbundleBDIBatchHandler(
       [{ Body: JSON.stringify(job.data) } as any],
       logger,
-      defaultArchitecture.cacheService
+      defaultArchitecture.cacheService,
+      defaultArchitecture.objectStore
     );
   },
   { concurrency: 2 }
@@ -183,18 +202,60 @@ const cleanupWorker = createWorker(
   { concurrency: 1 }
 );
 
+// Tier Storage Worker - Moves permanent data item payloads between storage tiers
+const tierStorageWorker = createWorker(
+  jobLabels.tierStorage,
+  async () => {
+    await tierStorageHandler();
+  },
+  { concurrency: 1 }
+);
+
+// Forecast Wallet Reserve Worker - Forecasts bundler wallet AR burn and pauses non-priority lanes when low
+const forecastWalletReserveWorker = createWorker(
+  jobLabels.forecastWalletReserve,
+  async () => {
+    await forecastWalletReserveHandler({
+      database,
+      arweaveGateway: defaultArchitecture.arweaveGateway,
+      bundlerWalletRegistry: defaultArchitecture.getBundlerWalletRegistry(),
+      logger,
+    });
+  },
+  { concurrency: 1 }
+);
+
+// Webhook Delivery Worker - Delivers signed data item lifecycle callbacks to uploaders
+const webhookDeliveryWorker = createWorker<EnqueuedWebhookDelivery>(
+  jobLabels.webhookDelivery,
+  async (job: Job<EnqueuedWebhookDelivery>) => {
+    await webhookDeliveryHandler(job.data, {
+      database,
+      getArweaveWallet: defaultArchitecture.getArweaveWallet,
+      logger,
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.opts.attempts ?? 1,
+    });
+  },
+  { concurrency: parseInt(process.env.WEBHOOK_WORKER_CONCURRENCY || "10", 10) }
+);
+
 const allWorkers = [
   planWorker,
   prepareWorker,
   postWorker,
   seedWorker,
   verifyWorker,
+  verifyChunksWorker,
   putOffsetsWorker,
   newDataItemWorker,
   opticalWorker,
   unbundleWorker,
   finalizeWorker,
   cleanupWorker,
+  tierStorageWorker,
+  forecastWalletReserveWorker,
+  webhookDeliveryWorker,
 ];
 
 setupGracefulShutdown(allWorkers, logger);
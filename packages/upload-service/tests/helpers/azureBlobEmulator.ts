@@ -0,0 +1,360 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { createHash } from "crypto";
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+import { AddressInfo } from "net";
+
+import { azureSharedKeyAuthorization } from "../../src/arch/azureBlobObjectStore";
+import { streamToBuffer } from "../../src/utils/streamToBuffer";
+
+// Well known development storage credentials, as used by the Azurite emulator
+export const emulatorAccountName = "devstoreaccount1";
+export const emulatorAccountKey = // cspell:disable
+  "Eby8vdM02xNOcqFlqUwJPLlmEtlCDXJ1OUzFT50uSRZ6IFsuFq2UVErCz4I6tq/K1SZFPTOtr/KBHBeksoGMGw=="; // cspell:enable
+
+interface EmulatedBlob {
+  data: Buffer;
+  etag: string;
+  contentType: string;
+  metadata: Record<string, string>;
+}
+
+function metadataFromHeaders(req: IncomingMessage): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(req.headers)
+      .filter(([name]) => name.startsWith("x-ms-meta-"))
+      .map(([name, value]) => [name.slice("x-ms-meta-".length), `${value}`])
+  );
+}
+
+/**
+ * In-process stand-in for the subset of the Azure Blob Storage REST API used by AzureBlobObjectStore.
+ * Like Azurite, it serves path style URLs (/<account>/<container>/<blob>) and checks Shared Key signatures
+ */
+export class AzureBlobEmulator {
+  private server: Server | undefined;
+  private readonly blobs = new Map<string, EmulatedBlob>();
+  private readonly uncommittedBlocks = new Map<string, Map<string, Buffer>>();
+  private etagCounter = 0;
+
+  public async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.sendError(res, 500, "InternalError", `${error}`);
+      });
+    });
+    await new Promise<void>((resolve) =>
+      this.server?.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/${emulatorAccountName}`;
+  }
+
+  public async stop(): Promise<void> {
+    await new Promise<void>((resolve) =>
+      this.server ? this.server.close(() => resolve()) : resolve()
+    );
+  }
+
+  private nextEtag(): string {
+    return `"0x8D${(++this.etagCounter).toString(16).padStart(12, "0")}"`;
+  }
+
+  private sendError(
+    res: ServerResponse,
+    status: number,
+    code: string,
+    message: string
+  ) {
+    res.writeHead(status, {
+      "x-ms-error-code": code,
+      "content-type": "application/xml",
+    });
+    res.end(
+      `<?xml version="1.0" encoding="utf-8"?><Error><Code>${code}</Code><Message>${message}</Message></Error>`
+    );
+  }
+
+  private blobNameFromPath(pathname: string): string | undefined {
+    // Drop the account segment, keeping "<container>/<blob>" as the blob's name
+    const [, account, ...rest] = pathname.split("/");
+    return account === emulatorAccountName && rest.length >= 2
+      ? rest.map(decodeURIComponent).join("/")
+      : undefined;
+  }
+
+  private isAuthorized(req: IncomingMessage, url: URL): boolean {
+    const headers = Object.fromEntries(
+      Object.entries(req.headers)
+        .filter(([name]) => name !== "authorization")
+        .map(([name, value]) => [name, `${value}`])
+    );
+    return (
+      req.headers.authorization ===
+      azureSharedKeyAuthorization({
+        accountName: emulatorAccountName,
+        accountKey: emulatorAccountKey,
+        method: req.method ?? "",
+        url,
+        headers,
+      })
+    );
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? "/", "http://127.0.0.1");
+    if (!this.isAuthorized(req, url)) {
+      return this.sendError(
+        res,
+        403,
+        "AuthenticationFailed",
+        "Server failed to authenticate the request."
+      );
+    }
+
+    const blobName = this.blobNameFromPath(url.pathname);
+    if (!blobName) {
+      return this.sendError(res, 400, "InvalidUri", "Invalid blob path.");
+    }
+    const comp = url.searchParams.get("comp");
+    const body = await streamToBuffer(req);
+
+    switch (`${req.method} ${comp ?? ""}`) {
+      case "PUT block":
+        return this.putBlock(res, blobName, url, body);
+      case "PUT blocklist":
+        return this.putBlockList(req, res, blobName, body);
+      case "GET blocklist":
+        return this.getBlockList(res, blobName, url);
+      case "PUT properties":
+        return this.setProperties(req, res, blobName);
+      case "PUT ":
+        return req.headers["x-ms-copy-source"]
+          ? this.copyBlob(req, res, blobName)
+          : this.putBlob(req, res, blobName, body);
+      case "GET ":
+      case "HEAD ":
+        return this.getBlob(req, res, blobName);
+      case "DELETE ":
+        return this.deleteBlob(res, blobName);
+      default:
+        return this.sendError(
+          res,
+          400,
+          "UnsupportedHttpVerb",
+          `${req.method} ${comp} is not emulated.`
+        );
+    }
+  }
+
+  private putBlock(
+    res: ServerResponse,
+    blobName: string,
+    url: URL,
+    body: Buffer
+  ) {
+    const blockId = url.searchParams.get("blockid");
+    if (!blockId) {
+      return this.sendError(res, 400, "InvalidQueryParameterValue", "blockid");
+    }
+    const blocks = this.uncommittedBlocks.get(blobName) ?? new Map();
+    blocks.set(blockId, body);
+    this.uncommittedBlocks.set(blobName, blocks);
+    res.writeHead(201, {
+      "content-md5": createHash("md5").update(body).digest("base64"),
+    });
+    res.end();
+  }
+
+  private putBlockList(
+    req: IncomingMessage,
+    res: ServerResponse,
+    blobName: string,
+    body: Buffer
+  ) {
+    const blockIds = [
+      ...body.toString().matchAll(/<Latest>([^<]*)<\/Latest>/g),
+    ].map(([, blockId]) => blockId);
+    const blocks = this.uncommittedBlocks.get(blobName) ?? new Map();
+    if (blockIds.some((blockId) => !blocks.has(blockId))) {
+      return this.sendError(
+        res,
+        400,
+        "InvalidBlockList",
+        "The specified block list is invalid."
+      );
+    }
+
+    const etag = this.nextEtag();
+    this.blobs.set(blobName, {
+      data: Buffer.concat(blockIds.map((blockId) => blocks.get(blockId))),
+      etag,
+      contentType:
+        req.headers["x-ms-blob-content-type"]?.toString() ??
+        "application/octet-stream",
+      metadata: metadataFromHeaders(req),
+    });
+    // Committing a block list discards the blob's remaining uncommitted blocks
+    this.uncommittedBlocks.delete(blobName);
+    res.writeHead(201, { etag });
+    res.end();
+  }
+
+  private getBlockList(res: ServerResponse, blobName: string, url: URL) {
+    const blocks = this.uncommittedBlocks.get(blobName);
+    if (!blocks && !this.blobs.has(blobName)) {
+      return this.sendError(
+        res,
+        404,
+        "BlobNotFound",
+        "The specified blob does not exist."
+      );
+    }
+    const uncommittedBlocksXml =
+      url.searchParams.get("blocklisttype") === "committed"
+        ? ""
+        : [...(blocks ?? new Map<string, Buffer>()).entries()]
+            .map(
+              ([blockId, data]) =>
+                `<Block><Name>${blockId}</Name><Size>${data.byteLength}</Size></Block>`
+            )
+            .join("");
+    res.writeHead(200, { "content-type": "application/xml" });
+    res.end(
+      `<?xml version="1.0" encoding="utf-8"?><BlockList><CommittedBlocks /><UncommittedBlocks>${uncommittedBlocksXml}</UncommittedBlocks></BlockList>`
+    );
+  }
+
+  private setProperties(
+    req: IncomingMessage,
+    res: ServerResponse,
+    blobName: string
+  ) {
+    const blob = this.blobs.get(blobName);
+    if (!blob) {
+      return this.sendError(
+        res,
+        404,
+        "BlobNotFound",
+        "The specified blob does not exist."
+      );
+    }
+    blob.contentType =
+      req.headers["x-ms-blob-content-type"]?.toString() ??
+      "application/octet-stream";
+    blob.etag = this.nextEtag();
+    res.writeHead(200, { etag: blob.etag });
+    res.end();
+  }
+
+  private copyBlob(
+    req: IncomingMessage,
+    res: ServerResponse,
+    blobName: string
+  ) {
+    const sourceName = this.blobNameFromPath(
+      new URL(`${req.headers["x-ms-copy-source"]}`).pathname
+    );
+    const source = sourceName ? this.blobs.get(sourceName) : undefined;
+    if (!source) {
+      return this.sendError(
+        res,
+        404,
+        "CannotVerifyCopySource",
+        "The specified blob does not exist."
+      );
+    }
+    const metadata = metadataFromHeaders(req);
+    const etag = this.nextEtag();
+    this.blobs.set(blobName, {
+      ...source,
+      data: Buffer.from(source.data),
+      etag,
+      metadata: Object.keys(metadata).length > 0 ? metadata : source.metadata,
+    });
+    res.writeHead(202, { etag, "x-ms-copy-status": "success" });
+    res.end();
+  }
+
+  private putBlob(
+    req: IncomingMessage,
+    res: ServerResponse,
+    blobName: string,
+    body: Buffer
+  ) {
+    const etag = this.nextEtag();
+    this.blobs.set(blobName, {
+      data: body,
+      etag,
+      contentType:
+        req.headers["x-ms-blob-content-type"]?.toString() ??
+        "application/octet-stream",
+      metadata: metadataFromHeaders(req),
+    });
+    res.writeHead(201, { etag });
+    res.end();
+  }
+
+  private getBlob(req: IncomingMessage, res: ServerResponse, blobName: string) {
+    const blob = this.blobs.get(blobName);
+    if (!blob) {
+      return req.method === "HEAD"
+        ? (res.writeHead(404, { "x-ms-error-code": "BlobNotFound" }), res.end())
+        : this.sendError(
+            res,
+            404,
+            "BlobNotFound",
+            "The specified blob does not exist."
+          );
+    }
+
+    let data = blob.data;
+    const range = (req.headers["x-ms-range"] ?? req.headers.range)?.toString();
+    const rangeMatch = range?.match(/^bytes=(\d+)-(\d*)$/);
+    if (rangeMatch) {
+      const start = +rangeMatch[1];
+      const end = rangeMatch[2] ? +rangeMatch[2] : blob.data.byteLength - 1;
+      data = blob.data.subarray(start, end + 1);
+    }
+
+    res.writeHead(rangeMatch ? 206 : 200, {
+      etag: blob.etag,
+      "content-type": blob.contentType,
+      "content-length": data.byteLength,
+      ...Object.fromEntries(
+        Object.entries(blob.metadata).map(([name, value]) => [
+          `x-ms-meta-${name}`,
+          value,
+        ])
+      ),
+    });
+    res.end(req.method === "HEAD" ? undefined : data);
+  }
+
+  private deleteBlob(res: ServerResponse, blobName: string) {
+    if (!this.blobs.delete(blobName)) {
+      return this.sendError(
+        res,
+        404,
+        "BlobNotFound",
+        "The specified blob does not exist."
+      );
+    }
+    res.writeHead(202);
+    res.end();
+  }
+}
@@ -56,12 +56,14 @@ function stubNewDataItemInsert({
   byte_count = stubByteCount.toString(),
   signature = stubDataItemBufferSignature,
   failedBundles = [],
+  premiumFeatureType = "test",
+  ownerPublicAddress = stubOwnerAddress,
 }: InsertStubNewDataItemParams): NewDataItemDBInsert & {
   uploaded_date: string | undefined;
 } {
   return {
     data_item_id: dataItemId,
-    owner_public_address: stubOwnerAddress,
+    owner_public_address: ownerPublicAddress,
     byte_count,
     assessed_winston_price: stubWinstonPrice.toString(),
     uploaded_date: uploadedDate,
@@ -69,7 +71,7 @@ function stubNewDataItemInsert({
     signature_type: 1,
     failed_bundles: failedBundles.join(","),
     content_type: "text/plain",
-    premium_feature_type: "test",
+    premium_feature_type: premiumFeatureType,
     signature,
     deadline_height: "200",
   };
@@ -81,11 +83,17 @@ export function stubPlannedDataItemInsert({
   plannedDate = stubDates.earliestDate,
   signature,
   failedBundles = [],
+  ownerPublicAddress,
 }: InsertStubPlannedDataItemParams): PlannedDataItemDBInsert & {
   planned_date: string | undefined;
 } {
   return {
-    ...stubNewDataItemInsert({ dataItemId, signature, failedBundles }),
+    ...stubNewDataItemInsert({
+      dataItemId,
+      signature,
+      failedBundles,
+      ownerPublicAddress,
+    }),
     plan_id: planId ?? stubPlanId,
     uploaded_date: stubDates.earliestDate,
     planned_date: plannedDate,
@@ -111,10 +119,11 @@ function stubPermanentDataItemInsert({
   planId,
   bundleId,
   byte_count = stubByteCount.toString(),
+  ownerPublicAddress = stubOwnerAddress,
 }: InsertStubPermanentDataItemParams): PermanentDataItemDBInsert {
   return {
     data_item_id: dataItemId,
-    owner_public_address: stubOwnerAddress,
+    owner_public_address: ownerPublicAddress,
     byte_count,
     assessed_winston_price: stubWinstonPrice.toString(),
     uploaded_date: stubDates.earliestDate,
@@ -420,6 +429,8 @@ interface InsertStubNewDataItemParams {
   byte_count?: string;
   signature?: Buffer;
   failedBundles?: string[];
+  premiumFeatureType?: string;
+  ownerPublicAddress?: string;
 }
 
 interface InsertStubPlannedDataItemParams
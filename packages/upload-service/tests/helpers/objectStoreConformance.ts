@@ -0,0 +1,260 @@
+/**
+ * Copyright (C) 2022-2024 Permanent Data Solutions, Inc. All Rights Reserved.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+import { expect } from "chai";
+import { randomBytes, randomUUID } from "crypto";
+import { Readable } from "stream";
+
+import { ObjectStore } from "../../src/arch/objectStore";
+import {
+  assembleBundleHeader,
+  bundleHeaderInfoFromBuffer,
+} from "../../src/bundles/assembleBundleHeader";
+import { isObjectNotFoundError } from "../../src/utils/objectStoreUtils";
+import { streamToBuffer } from "../../src/utils/streamToBuffer";
+
+async function getObjectBuffer(
+  objectStore: ObjectStore,
+  Key: string,
+  Range?: string
+): Promise<Buffer> {
+  const { readable } = await objectStore.getObject(Key, Range);
+  return streamToBuffer(readable);
+}
+
+/** Error types differ between stores, so only the rejection itself is part of the contract */
+async function expectRejection(promise: Promise<unknown>): Promise<void> {
+  let error: unknown;
+  try {
+    await promise;
+  } catch (err) {
+    error = err;
+  }
+  expect(error).to.be.instanceOf(Error);
+}
+
+/**
+ * Behavior every ObjectStore implementation must share. Call from a test file with a
+ * function returning the store under test, which is only invoked once its suite runs
+ */
+export function describeObjectStoreConformance(
+  storeName: string,
+  getObjectStore: () => ObjectStore
+) {
+  describe(`${storeName} object store conformance`, () => {
+    let objectStore: ObjectStore;
+    // Keys live under the prefixes the service uses so that stores with fixed directories accept them
+    const uniqueKey = (prefix: string) =>
+      `${prefix}/conformance-${randomUUID()}`;
+
+    before(() => {
+      objectStore = getObjectStore();
+    });
+
+    it("puts and gets an object with its byte count and etag", async () => {
+      const Key = uniqueKey("raw-data-item");
+      const data = randomBytes(1024);
+
+      await objectStore.putObject(Key, Readable.from(data));
+
+      const { readable, etag } = await objectStore.getObject(Key);
+      expect(await streamToBuffer(readable)).to.deep.equal(data);
+      expect(etag).to.be.a("string").that.is.not.empty;
+      expect(await objectStore.getObjectByteCount(Key)).to.equal(1024);
+
+      const head = await objectStore.headObject(Key);
+      expect(head.ContentLength).to.equal(1024);
+      expect(head.etag).to.be.a("string").that.is.not.empty;
+    });
+
+    it("gets inclusive byte ranges of an object", async () => {
+      const Key = uniqueKey("raw-data-item");
+      const data = randomBytes(256);
+      await objectStore.putObject(Key, Readable.from(data));
+
+      expect(
+        await getObjectBuffer(objectStore, Key, "bytes=0-0")
+      ).to.deep.equal(data.subarray(0, 1));
+      expect(
+        await getObjectBuffer(objectStore, Key, "bytes=10-99")
+      ).to.deep.equal(data.subarray(10, 100));
+      expect(
+        await getObjectBuffer(objectStore, Key, "bytes=200-255")
+      ).to.deep.equal(data.subarray(200));
+    });
+
+    it("stores payload info as object metadata", async () => {
+      const Key = uniqueKey("raw-data-item");
+      await objectStore.putObject(Key, Readable.from(randomBytes(64)), {
+        payloadInfo: {
+          payloadDataStart: 1100,
+          payloadContentType: "application/json",
+        },
+      });
+
+      expect(await objectStore.getObjectPayloadInfo(Key)).to.deep.equal({
+        payloadDataStart: 1100,
+        payloadContentType: "application/json",
+      });
+    });
+
+    it("rejects getting payload info of an object stored without it", async () => {
+      const Key = uniqueKey("raw-data-item");
+      await objectStore.putObject(Key, Readable.from(randomBytes(64)));
+
+      await expectRejection(objectStore.getObjectPayloadInfo(Key));
+    });
+
+    it("moves an object to a new key with new payload info", async () => {
+      const sourceKey = uniqueKey("multipart-uploads");
+      const destinationKey = uniqueKey("raw-data-item");
+      const data = randomBytes(512);
+      await objectStore.putObject(sourceKey, Readable.from(data));
+
+      await objectStore.moveObject({
+        sourceKey,
+        destinationKey,
+        Options: {
+          payloadInfo: {
+            payloadDataStart: 42,
+            payloadContentType: "text/plain",
+          },
+        },
+      });
+
+      expect(await getObjectBuffer(objectStore, destinationKey)).to.deep.equal(
+        data
+      );
+      expect(
+        await objectStore.getObjectPayloadInfo(destinationKey)
+      ).to.deep.equal({
+        payloadDataStart: 42,
+        payloadContentType: "text/plain",
+      });
+      await expectRejection(getObjectBuffer(objectStore, sourceKey));
+    });
+
+    it("rejects moving an object that does not exist", async () => {
+      await expectRejection(
+        objectStore.moveObject({
+          sourceKey: uniqueKey("multipart-uploads"),
+          destinationKey: uniqueKey("raw-data-item"),
+          Options: {},
+        })
+      );
+    });
+
+    it("deletes an object and its payload info", async () => {
+      const Key = uniqueKey("raw-data-item");
+      await objectStore.putObject(Key, Readable.from(randomBytes(64)), {
+        payloadInfo: {
+          payloadDataStart: 10,
+          payloadContentType: "text/plain",
+        },
+      });
+
+      await objectStore.deleteObject(Key);
+
+      await expectRejection(getObjectBuffer(objectStore, Key));
+      await expectRejection(objectStore.getObjectPayloadInfo(Key));
+    });
+
+    it("rejects heading an object that does not exist with a not found error", async () => {
+      const error = await objectStore
+        .headObject(uniqueKey("raw-data-item"))
+        .catch((error) => error);
+
+      expect(isObjectNotFoundError(error)).to.be.true;
+    });
+
+    it("resolves deleting an object that does not exist", async () => {
+      await objectStore.deleteObject(uniqueKey("raw-data-item"));
+    });
+
+    it("lists uploaded multipart parts in part order and assembles them on completion", async () => {
+      const Key = uniqueKey("multipart-uploads");
+      const firstPart = randomBytes(300);
+      const secondPart = randomBytes(200);
+
+      const uploadId = await objectStore.createMultipartUpload(Key);
+      expect(uploadId).to.be.a("string").that.is.not.empty;
+
+      // Parts may arrive out of order
+      expect(
+        await objectStore.uploadPart(
+          Key,
+          Readable.from(secondPart),
+          uploadId,
+          2,
+          secondPart.byteLength
+        )
+      ).to.be.a("string");
+      expect(
+        await objectStore.uploadPart(
+          Key,
+          Readable.from(firstPart),
+          uploadId,
+          1,
+          firstPart.byteLength
+        )
+      ).to.be.a("string");
+
+      expect(
+        await objectStore.getMultipartUploadParts(Key, uploadId)
+      ).to.deep.equal([
+        { partNumber: 1, size: 300 },
+        { partNumber: 2, size: 200 },
+      ]);
+
+      const etag = await objectStore.completeMultipartUpload(Key, uploadId);
+      expect(etag).to.be.a("string").that.is.not.empty;
+      expect(await getObjectBuffer(objectStore, Key)).to.deep.equal(
+        Buffer.concat([firstPart, secondPart])
+      );
+    });
+
+    it("lists no parts for a new multipart upload", async () => {
+      const Key = uniqueKey("multipart-uploads");
+      const uploadId = await objectStore.createMultipartUpload(Key);
+
+      expect(
+        await objectStore.getMultipartUploadParts(Key, uploadId)
+      ).to.deep.equal([]);
+    });
+
+    it("reads bundle header info from the start of a bundle payload", async () => {
+      const Key = uniqueKey("bundle-payload");
+      const dataItems = [
+        { dataItemRawId: randomBytes(32), byteCount: 1464 },
+        { dataItemRawId: randomBytes(32), byteCount: 2048 },
+      ];
+      const headerBuffer = await streamToBuffer(
+        await assembleBundleHeader(dataItems)
+      );
+      await objectStore.putObject(
+        Key,
+        Readable.from(Buffer.concat([headerBuffer, randomBytes(3512)]))
+      );
+
+      expect(
+        await objectStore.getBundleHeaderInfo(
+          Key,
+          `bytes=0-${headerBuffer.byteLength - 1}`
+        )
+      ).to.deep.equal(bundleHeaderInfoFromBuffer(headerBuffer));
+    });
+  });
+}
@@ -17,15 +17,26 @@
 import axios from "axios";
 import { expect } from "chai";
 import { stub } from "sinon";
+import { Readable } from "stream";
 
 import { ArweaveGateway } from "../src/arch/arweaveGateway";
+import { AzureBlobObjectStore } from "../src/arch/azureBlobObjectStore";
 import { columnNames, tableNames } from "../src/arch/db/dbConstants";
 import { PostgresDatabase } from "../src/arch/db/postgres";
 import { FileSystemObjectStore } from "../src/arch/fileSystemObjectStore";
 import { TurboPaymentService } from "../src/arch/payment";
-import { defaultOverdueThresholdMs, gatewayUrl } from "../src/constants";
+import { ArweaveInterface } from "../src/arweaveJs";
+import {
+  defaultOverdueThresholdMs,
+  gatewayUrl,
+  walletReserveForecastConfigKey,
+} from "../src/constants";
+import { forecastWalletReserveHandler } from "../src/jobs/forecast-wallet-reserve";
 import { planBundleHandler } from "../src/jobs/plan";
 import { postBundleHandler } from "../src/jobs/post";
+import { tierStorageHandler } from "../src/jobs/tier-storage";
+import { verifyChunksHandler } from "../src/jobs/verify-chunks";
+import { MetricRegistry } from "../src/metricRegistry";
 import {
   BundlePlanDBResult,
   FailedBundleDBResult,
@@ -35,15 +46,33 @@ import {
   PlannedDataItemDBResult,
   PostedBundleDBResult,
 } from "../src/types/dbTypes";
-import { Winston } from "../src/types/winston";
+import { W, Winston } from "../src/types/winston";
+import {
+  BundlerWalletRegistry,
+  bundlerWalletFromJwk,
+} from "../src/utils/bundlerWallets";
+import {
+  getBundleTx,
+  getDataItemPayloadInfo,
+  putBundlePayload,
+  putDataItemRaw,
+  rawDataItemObjectExists,
+} from "../src/utils/objectStoreUtils";
+import {
+  AzureBlobEmulator,
+  emulatorAccountKey,
+  emulatorAccountName,
+} from "./helpers/azureBlobEmulator";
 import { DbTestHelper } from "./helpers/dbTestHelpers";
 import {
   bundleTxStubOwnerAddress,
   stubDates,
+  stubTxId1,
   stubTxId10,
   stubTxId11,
   stubTxId12,
   stubUsdToArRate,
+  stubWinstonPrice,
   validBundleIdOnFileSystem,
 } from "./stubs";
 import {
@@ -51,6 +80,7 @@ import {
   fundArLocalWalletAddress,
   mineArLocalBlock,
   testArweave,
+  testArweaveJWK,
 } from "./test_helpers";
 
 const db = new PostgresDatabase();
@@ -122,6 +152,37 @@ describe("Plan bundle job handler function integrated with PostgresDatabase clas
     expect(bundlePlanDbResult[0].planned_date).to.exist;
   });
 
+  it("leaves non-priority data items unplanned while a recent wallet reserve forecast pauses their lanes", async () => {
+    await db.putWalletReserveForecast({
+      balance: "100",
+      pendingRewards: "400",
+      burnRatePerHour: "0",
+      hoursRemaining: null,
+      nonPriorityLanesPaused: true,
+      forecastedAt: new Date().toISOString(),
+    });
+
+    try {
+      await planBundleHandler(db);
+
+      expect(
+        (
+          await db["writer"](tableNames.newDataItem).whereIn(
+            columnNames.dataItemId,
+            dataItemIds
+          )
+        ).length
+      ).to.equal(3);
+    } finally {
+      await db["writer"](tableNames.config)
+        .where({ key: walletReserveForecastConfigKey })
+        .del();
+      await db["writer"](tableNames.newDataItem)
+        .whereIn(columnNames.dataItemId, dataItemIds)
+        .del();
+    }
+  });
+
   /**
    * Simulate 2 concurrent executions, which should cause locking errors to occur
    *
@@ -268,6 +329,117 @@ describe("Post bundle job handler function integrated with PostgresDatabase clas
     );
   });
 
+  it("when the network reward rose beyond the tolerance, re-signs the bundle with the network reward and records both rewards", async () => {
+    stub(gateway, "postBundleTx").resolves();
+    stub(gateway, "getWinstonPriceForByteCount").resolves(W("10000000000"));
+    stub(gateway, "getBlockHash").resolves(stubTxId1);
+    stub(paymentService, "getFiatToARConversionRate").resolves(stubUsdToArRate);
+    const bundlerWalletRegistry = new BundlerWalletRegistry([
+      bundlerWalletFromJwk(testArweaveJWK),
+    ]);
+    stub(bundlerWalletRegistry, "findPublishedWallet").returns(
+      bundlerWalletFromJwk(testArweaveJWK)
+    );
+    const bundlePayload = Buffer.alloc(1211, "a");
+    await putBundlePayload(objectStore, planId, Readable.from(bundlePayload));
+    await db["writer"](tableNames.dataItemOffsets).insert(
+      dataItemIds.map((dataItemId, index) => ({
+        data_item_id: dataItemId,
+        root_bundle_id: bundleId,
+        start_offset_in_root_bundle: index * 100,
+        raw_content_length: 100,
+        payload_data_start: 10,
+      }))
+    );
+
+    try {
+      await postBundleHandler(planId, {
+        objectStore,
+        database: db,
+        arweaveGateway: gateway,
+        paymentService,
+        bundlerWalletRegistry,
+      });
+
+      const postedBundleDbResult = await db["writer"]<PostedBundleDBResult>(
+        tableNames.postedBundle
+      ).where(columnNames.planId, planId);
+      expect(postedBundleDbResult.length).to.equal(1);
+      expect(postedBundleDbResult[0].bundle_id).to.not.equal(bundleId);
+      expect(postedBundleDbResult[0].reward).to.equal("10000000000");
+      expect(postedBundleDbResult[0].prepared_reward).to.equal(
+        stubWinstonPrice.toString()
+      );
+
+      const rePricedBundleTx = await getBundleTx(
+        objectStore,
+        postedBundleDbResult[0].bundle_id
+      );
+      expect(rePricedBundleTx.reward).to.equal("10000000000");
+      expect(rePricedBundleTx.last_tx).to.equal(stubTxId1);
+      expect(rePricedBundleTx.data_size).to.equal("1211");
+      expect(rePricedBundleTx.data_root).to.not.be.empty;
+      expect(await testArweave.transactions.verify(rePricedBundleTx)).to.be
+        .true;
+
+      const offsetsDbResult = await db["writer"](
+        tableNames.dataItemOffsets
+      ).whereIn(columnNames.dataItemId, dataItemIds);
+      expect(
+        offsetsDbResult.map(({ root_bundle_id }) => root_bundle_id)
+      ).to.deep.equal(dataItemIds.map(() => postedBundleDbResult[0].bundle_id));
+    } finally {
+      await db["writer"](tableNames.postedBundle)
+        .where(columnNames.planId, planId)
+        .del();
+      await db["writer"](tableNames.dataItemOffsets)
+        .whereIn(columnNames.dataItemId, dataItemIds)
+        .del();
+    }
+  });
+
+  it("when the network reward rose beyond the tolerance but data item offsets are still being written, posts the bundle with the prepared reward", async () => {
+    stub(gateway, "postBundleTx").resolves();
+    stub(gateway, "getWinstonPriceForByteCount").resolves(W("10000000000"));
+    stub(paymentService, "getFiatToARConversionRate").resolves(stubUsdToArRate);
+    const bundlerWalletRegistry = new BundlerWalletRegistry([
+      bundlerWalletFromJwk(testArweaveJWK),
+    ]);
+    stub(bundlerWalletRegistry, "findPublishedWallet").returns(
+      bundlerWalletFromJwk(testArweaveJWK)
+    );
+    await db["writer"](tableNames.dataItemOffsets).insert({
+      data_item_id: dataItemIds[0],
+      root_bundle_id: bundleId,
+      start_offset_in_root_bundle: 0,
+      raw_content_length: 100,
+      payload_data_start: 10,
+    });
+
+    try {
+      await postBundleHandler(planId, {
+        objectStore,
+        database: db,
+        arweaveGateway: gateway,
+        paymentService,
+        bundlerWalletRegistry,
+      });
+
+      const postedBundleDbResult = await db["writer"]<PostedBundleDBResult>(
+        tableNames.postedBundle
+      ).where(columnNames.planId, planId);
+      expect(postedBundleDbResult.length).to.equal(1);
+      expect(postedBundleDbResult[0].bundle_id).to.equal(bundleId);
+      expect(postedBundleDbResult[0].reward).to.equal(
+        stubWinstonPrice.toString()
+      );
+    } finally {
+      await db["writer"](tableNames.dataItemOffsets)
+        .whereIn(columnNames.dataItemId, dataItemIds)
+        .del();
+    }
+  });
+
   it("when post to Arweave fails, promotes new_bundle to failed_bundle and demotes each planned_data_item back to new_data_item", async () => {
     stub(gateway, "postBundleTx").throws();
     stub(paymentService, "getFiatToARConversionRate").resolves(stubUsdToArRate);
@@ -319,6 +491,9 @@ describe("Post bundle job handler function integrated with PostgresDatabase clas
         database: db,
         arweaveGateway: gateway,
         paymentService,
+        bundlerWalletRegistry: new BundlerWalletRegistry([
+          bundlerWalletFromJwk(testArweaveJWK),
+        ]),
       }),
       errorMessage:
         "Wallet does not have enough balance for this bundle post! Current Balance: 0, Reward for Bundle: 2379774852",
@@ -351,4 +526,226 @@ describe("Post bundle job handler function integrated with PostgresDatabase clas
       expect(dataItemIds).to.include(data_item_id)
     );
   });
+
+  it("fails the bundle when post to Arweave fails, the signing wallet is empty, and another bundler wallet can cover the reward", async () => {
+    stub(gateway, "postBundleTx").throws();
+    const balanceStub = stub(gateway, "getBalanceForWallet").resolves(
+      new Winston(1_000_000_000_000)
+    );
+    balanceStub.withArgs(bundleTxStubOwnerAddress).resolves(new Winston(0));
+
+    await postBundleHandler(planId, {
+      objectStore,
+      database: db,
+      arweaveGateway: gateway,
+      paymentService,
+      bundlerWalletRegistry: new BundlerWalletRegistry([
+        bundlerWalletFromJwk(testArweaveJWK),
+      ]),
+    });
+
+    const newBundleDbResult = await db["writer"]<NewBundleDBResult>(
+      tableNames.newBundle
+    ).where(columnNames.bundleId, bundleId);
+
+    expect(newBundleDbResult.length).to.equal(0);
+
+    const failedBundleDbResult = await db["writer"]<FailedBundleDBResult>(
+      tableNames.failedBundle
+    ).where(columnNames.bundleId, bundleId);
+
+    expect(failedBundleDbResult.length).to.equal(1);
+
+    const newDataItemDbResult = await db["writer"]<NewDataItemDBResult>(
+      tableNames.newDataItem
+    ).whereIn(columnNames.dataItemId, dataItemIds);
+
+    expect(newDataItemDbResult.length).to.equal(3);
+  });
+});
+
+describe("Forecast wallet reserve job handler function integrated with PostgresDatabase class", () => {
+  after(async () => {
+    await db["writer"](tableNames.config)
+      .where({ key: walletReserveForecastConfigKey })
+      .del();
+  });
+
+  it("stores the forecast of the active bundler wallets' balance and sets the wallet reserve gauges", async () => {
+    stub(gateway, "getBalanceForWallet").resolves(new Winston(0));
+
+    await forecastWalletReserveHandler({
+      database: db,
+      arweaveGateway: gateway,
+      bundlerWalletRegistry: new BundlerWalletRegistry([
+        bundlerWalletFromJwk(testArweaveJWK),
+      ]),
+    });
+
+    const forecast = await db.getWalletReserveForecast();
+    expect(forecast?.balance).to.equal("0");
+    expect(forecast?.nonPriorityLanesPaused).to.be.true;
+    expect(
+      (await MetricRegistry.walletReserveNonPriorityLanesPaused.get()).values[0]
+        .value
+    ).to.equal(1);
+  });
+});
+
+describe("Verify chunks job handler function integrated with PostgresDatabase class", () => {
+  const bundleId = validBundleIdOnFileSystem;
+  const planId = "Unique Verify Chunks Job Test Plan Id";
+  const arweave = new ArweaveInterface();
+
+  beforeEach(async () => {
+    await dbTestHelper.insertStubSeededBundle({
+      bundleId,
+      planId,
+      usdToArRate: stubUsdToArRate,
+    });
+  });
+
+  afterEach(async () => {
+    await dbTestHelper.cleanUpEntityInDb(tableNames.seededBundle, bundleId);
+  });
+
+  it("reseeds only the chunks missing on the upload node", async () => {
+    // The stub bundle transaction has a single chunk of 1211 bytes
+    stub(gateway, "getTransactionOffset").resolves({
+      offset: 100_000,
+      size: 1211,
+    });
+    const isChunkAvailableStub = stub(gateway, "isChunkAvailable").resolves(
+      false
+    );
+    const reseedChunksStub = stub(arweave, "reseedChunks").resolves();
+
+    await verifyChunksHandler({
+      database: db,
+      objectStore,
+      uploadNode: gateway,
+      arweave,
+      bundleIds: [bundleId],
+    });
+
+    expect(isChunkAvailableStub.calledOnceWith(100_000)).to.be.true;
+    expect(reseedChunksStub.calledOnce).to.be.true;
+    const { bundleTx, chunkIndexes } = reseedChunksStub.firstCall.args[0];
+    expect(bundleTx.id).to.equal(bundleId);
+    expect(chunkIndexes).to.deep.equal([0]);
+  });
+
+  it("does not reseed a bundle whose chunks are all available", async () => {
+    stub(gateway, "getTransactionOffset").resolves({
+      offset: 100_000,
+      size: 1211,
+    });
+    stub(gateway, "isChunkAvailable").resolves(true);
+    const reseedChunksStub = stub(arweave, "reseedChunks").resolves();
+
+    await verifyChunksHandler({
+      database: db,
+      objectStore,
+      uploadNode: gateway,
+      arweave,
+      bundleIds: [bundleId],
+    });
+
+    expect(reseedChunksStub.called).to.be.false;
+  });
+
+  it("skips bundles the upload node has no offset for yet", async () => {
+    stub(gateway, "getTransactionOffset").resolves(undefined);
+    const isChunkAvailableStub = stub(gateway, "isChunkAvailable");
+
+    await verifyChunksHandler({
+      database: db,
+      objectStore,
+      uploadNode: gateway,
+      arweave,
+    });
+
+    expect(isChunkAvailableStub.called).to.be.false;
+  });
+});
+
+describe("Tier storage job handler function integrated with PostgresDatabase class", () => {
+  const dataItemId = "tier storage job test data item";
+  const emulator = new AzureBlobEmulator();
+  let archiveObjectStore: AzureBlobObjectStore;
+
+  before(async () => {
+    archiveObjectStore = new AzureBlobObjectStore({
+      accountName: emulatorAccountName,
+      accountKey: emulatorAccountKey,
+      containerName: "archive",
+      endpoint: await emulator.start(),
+    });
+    await dbTestHelper.insertStubPermanentDataItem({
+      dataItemId,
+      bundleId: "tier storage job test bundle id",
+    });
+    await putDataItemRaw(
+      objectStore,
+      dataItemId,
+      Readable.from(Buffer.from("tier storage job test payload")),
+      "text/plain",
+      10
+    );
+
+    // Leave the permanent data items of other tests where they are
+    const getStorageTieringCandidates = db.getStorageTieringCandidates.bind(db);
+    stub(db, "getStorageTieringCandidates").callsFake(async (params) =>
+      (await getStorageTieringCandidates(params)).filter(
+        (candidate) => candidate.dataItemId === dataItemId
+      )
+    );
+  });
+
+  after(async () => {
+    await emulator.stop();
+    await db["writer"](tableNames.permanentDataItems)
+      .where({ data_item_id: dataItemId })
+      .del();
+    await db["writer"](tableNames.dataItemStorageLocation)
+      .where({ data_item_id: dataItemId })
+      .del();
+  });
+
+  it("archives old idle payloads and promotes them back to the object store once read often", async () => {
+    const policy = {
+      fsBackupMaxAgeMs: 0,
+      objectStoreMaxAgeMs: 0,
+      archiveMinIdleMs: 60 * 60 * 1000,
+      promoteMinAccessCount: 2,
+    };
+    await tierStorageHandler({
+      database: db,
+      objectStore,
+      archiveObjectStore,
+      policy,
+    });
+
+    expect(await db.getDataItemStorageTier(dataItemId)).to.equal("archive");
+    expect(await rawDataItemObjectExists(objectStore, dataItemId)).to.be.false;
+    expect(
+      await getDataItemPayloadInfo(archiveObjectStore, dataItemId)
+    ).to.deep.equal({ payloadDataStart: 10, payloadContentType: "text/plain" });
+
+    await db.recordDataItemAccess(dataItemId);
+    await db.recordDataItemAccess(dataItemId);
+    await tierStorageHandler({
+      database: db,
+      objectStore,
+      archiveObjectStore,
+      policy,
+    });
+
+    expect(await db.getDataItemStorageTier(dataItemId)).to.equal(
+      "object_store"
+    );
+    expect(await rawDataItemObjectExists(objectStore, dataItemId)).to.be.true;
+    expect(await rawDataItemObjectExists(archiveObjectStore, dataItemId)).to.be
+      .false;
+  });
 });
@@ -23,7 +23,11 @@ import {
   plannedDataItemDbResultToPlannedDataItemMap,
 } from "../src/arch/db/dbMaps";
 import { PostgresDatabase } from "../src/arch/db/postgres";
-import { retryLimitForFailedDataItems } from "../src/constants";
+import {
+  dedicatedBundleTypesConfigKey,
+  retryLimitForFailedDataItems,
+  walletReserveForecastConfigKey,
+} from "../src/constants";
 import {
   BundlePlanDBResult,
   FailedBundleDBResult,
@@ -35,6 +39,7 @@ import {
   PostedBundleDBResult,
   SeededBundleDBResult,
 } from "../src/types/dbTypes";
+import { Winston } from "../src/types/winston";
 import { sleep } from "../src/utils/common";
 import { DbTestHelper } from "./helpers/dbTestHelpers";
 import {
@@ -69,6 +74,7 @@ import {
   stubUsdToArRate,
   stubWinstonPrice,
 } from "./stubs";
+import { expectAsyncErrorThrow } from "./test_helpers";
 
 describe("PostgresDatabase class", () => {
   const db = new PostgresDatabase();
@@ -192,6 +198,86 @@ describe("PostgresDatabase class", () => {
     );
   });
 
+  it("getNewDataItems method sorts new_data_item by SLA deadline when provided max waits per premium feature type", async () => {
+    await Promise.all([
+      dbTestHelper.insertStubNewDataItem({
+        dataItemId: stubTxId14,
+        uploadedDate: stubDates.middleDate,
+      }),
+      dbTestHelper.insertStubNewDataItem({
+        dataItemId: stubTxId15,
+        uploadedDate: stubDates.latestDate,
+        premiumFeatureType: "priority",
+      }),
+      dbTestHelper.insertStubNewDataItem({
+        dataItemId: stubTxId16,
+        uploadedDate: stubDates.earliestDate,
+      }),
+    ]);
+
+    const txIds = [stubTxId14, stubTxId15, stubTxId16];
+    const tenDaysMs = 10 * 24 * 60 * 60 * 1000;
+    const newDataItems = await db.getNewDataItems({
+      test: tenDaysMs,
+      priority: 0,
+    });
+
+    const [dataItem1, dataItem2, dataItem3] = newDataItems.filter((d) =>
+      txIds.includes(d.dataItemId)
+    );
+
+    // The latest data item has the earliest deadline as its lane has no max wait
+    expect(dataItem1.dataItemId).to.equal(stubTxId15);
+    expect(dataItem2.dataItemId).to.equal(stubTxId16);
+    expect(dataItem3.dataItemId).to.equal(stubTxId14);
+
+    await Promise.all(
+      txIds.map((id) =>
+        dbTestHelper.cleanUpEntityInDb(tableNames.newDataItem, id)
+      )
+    );
+  });
+
+  it("getNewDataItems method sorts premium feature types without a max wait by the default SLA deadline and only returns the provided premium feature types", async () => {
+    await Promise.all([
+      dbTestHelper.insertStubNewDataItem({
+        dataItemId: stubTxId14,
+        uploadedDate: stubDates.earliestDate,
+        premiumFeatureType: "priority",
+      }),
+      dbTestHelper.insertStubNewDataItem({
+        dataItemId: stubTxId15,
+        uploadedDate: stubDates.latestDate,
+      }),
+      dbTestHelper.insertStubNewDataItem({
+        dataItemId: stubTxId16,
+        uploadedDate: stubDates.middleDate,
+        premiumFeatureType: "bulk",
+      }),
+    ]);
+
+    const txIds = [stubTxId14, stubTxId15, stubTxId16];
+    const tenDaysMs = 10 * 24 * 60 * 60 * 1000;
+    const newDataItems = await db.getNewDataItems({ priority: tenDaysMs }, [
+      "test",
+      "priority",
+    ]);
+
+    const dataItems = newDataItems.filter((d) => txIds.includes(d.dataItemId));
+
+    // The test lane is on the default SLA, so its data item is due before the earlier priority data item
+    expect(dataItems.map((d) => d.dataItemId)).to.deep.equal([
+      stubTxId15,
+      stubTxId14,
+    ]);
+
+    await Promise.all(
+      txIds.map((id) =>
+        dbTestHelper.cleanUpEntityInDb(tableNames.newDataItem, id)
+      )
+    );
+  });
+
   it("insertBundlePlan method adds a bundle_plan, deletes specified new_data_items, and inserts planned_data_items ", async () => {
     await Promise.all([
       // Setup 2 NewDataItem that BundlePlan insert will depend on
@@ -246,6 +332,40 @@ describe("PostgresDatabase class", () => {
     });
   });
 
+  it("insertBundlePlan method records the SLA trigger, which is carried over to new_bundle by insertNewBundle", async () => {
+    const bundleId = "unique bundle ID sla trigger";
+    await dbTestHelper.insertStubNewDataItem({ dataItemId: stubTxId4 });
+
+    await db.insertBundlePlan(stubPlanId, [stubTxId4], "max_wait");
+
+    const bundlePlanDbResult = await db["writer"]<BundlePlanDBResult>(
+      tableNames.bundlePlan
+    ).where({ plan_id: stubPlanId });
+    expect(bundlePlanDbResult[0].sla_trigger).to.equal("max_wait");
+
+    await db.insertNewBundle({
+      bundleId,
+      planId: stubPlanId,
+      reward: stubWinstonPrice,
+      headerByteCount: stubByteCount,
+      payloadByteCount: stubByteCount,
+      transactionByteCount: stubByteCount,
+    });
+
+    const newBundleDbResult = await db["writer"]<NewBundleDBResult>(
+      tableNames.newBundle
+    ).where({ bundle_id: bundleId });
+    expect(newBundleDbResult[0].sla_trigger).to.equal("max_wait");
+
+    await Promise.all([
+      dbTestHelper.cleanUpBundlePlanInDb({
+        planId: stubPlanId,
+        dataItemIds: [stubTxId4],
+      }),
+      dbTestHelper.cleanUpEntityInDb(tableNames.newBundle, bundleId),
+    ]);
+  });
+
   it("insertNewBundle method deletes existing bundle_plan and inserts new_bundle as expected", async () => {
     const bundleId = "unique bundle ID insertNewBundle";
     const planId = stubPlanId;
@@ -683,6 +803,279 @@ describe("PostgresDatabase class", () => {
     });
   });
 
+  describe("getDataItemInfos method", () => {
+    const newDataItemId = "getDataItemInfos new data item";
+    const plannedDataItemId = "getDataItemInfos planned data item";
+    const permanentDataItemId = "getDataItemInfos permanent data item";
+    const failedDataItemId = "getDataItemInfos failed data item";
+    const missingDataItemId = "getDataItemInfos missing data item";
+    const planId = "getDataItemInfos plan id";
+    const postedBundleId = "getDataItemInfos posted bundle id";
+    const permanentBundleId = "getDataItemInfos permanent bundle id";
+
+    before(async () => {
+      await dbTestHelper.insertStubNewDataItem({ dataItemId: newDataItemId });
+      await dbTestHelper.insertStubPlannedDataItem({
+        dataItemId: plannedDataItemId,
+        planId,
+      });
+      await dbTestHelper.insertStubPostedBundle({
+        bundleId: postedBundleId,
+        planId,
+        usdToArRate: stubUsdToArRate,
+      });
+      await dbTestHelper.insertStubPermanentDataItem({
+        dataItemId: permanentDataItemId,
+        planId: stubPlanId3,
+        bundleId: permanentBundleId,
+      });
+      await dbTestHelper.insertStubFailedDataItem({
+        dataItemId: failedDataItemId,
+        failedReason: "missing_from_object_store",
+      });
+    });
+
+    after(async () => {
+      await dbTestHelper.cleanUpEntityInDb(
+        tableNames.newDataItem,
+        newDataItemId
+      );
+      await dbTestHelper.cleanUpEntityInDb(
+        tableNames.plannedDataItem,
+        plannedDataItemId
+      );
+      await dbTestHelper.cleanUpEntityInDb(
+        tableNames.postedBundle,
+        postedBundleId
+      );
+      await dbTestHelper.cleanUpEntityInDb(
+        tableNames.permanentDataItems,
+        permanentDataItemId
+      );
+      await db["writer"](tableNames.failedDataItem)
+        .where({ data_item_id: failedDataItemId })
+        .del();
+    });
+
+    it("returns the info of every known data item in a single lookup", async () => {
+      const infos = await db.getDataItemInfos([
+        newDataItemId,
+        plannedDataItemId,
+        permanentDataItemId,
+        failedDataItemId,
+        missingDataItemId,
+      ]);
+
+      expect(Object.keys(infos)).to.have.length(4);
+      expect(infos[missingDataItemId]).to.be.undefined;
+
+      expect(infos[newDataItemId].status).to.equal("new");
+      expect(infos[newDataItemId].bundleId).to.be.undefined;
+      expect(infos[newDataItemId].assessedWinstonPrice.toString()).to.equal(
+        stubWinstonPrice.toString()
+      );
+
+      expect(infos[plannedDataItemId].status).to.equal("pending");
+      expect(infos[plannedDataItemId].bundleId).to.equal(postedBundleId);
+
+      expect(infos[permanentDataItemId].status).to.equal("permanent");
+      expect(infos[permanentDataItemId].bundleId).to.equal(permanentBundleId);
+
+      expect(infos[failedDataItemId].status).to.equal("failed");
+      expect(infos[failedDataItemId].failedReason).to.equal(
+        "missing_from_object_store"
+      );
+    });
+
+    it("returns an empty record when given no data item IDs", async () => {
+      expect(await db.getDataItemInfos([])).to.deep.equal({});
+    });
+  });
+
+  describe("getDataItemUploadsByOwner method", () => {
+    const ownerPublicAddress = "getDataItemUploadsByOwner test owner";
+    const newDataItemId = "getDataItemUploadsByOwner 4 new";
+    const failedDataItemId = "getDataItemUploadsByOwner 3 failed";
+    const plannedDataItemId = "getDataItemUploadsByOwner 2 planned";
+    const permanentDataItemId = "getDataItemUploadsByOwner 1 permanent";
+    const permanentBundleId = "getDataItemUploadsByOwner bundle id";
+
+    before(async () => {
+      await dbTestHelper.insertStubNewDataItem({
+        dataItemId: newDataItemId,
+        uploadedDate: stubDates.latestDate,
+        ownerPublicAddress,
+      });
+      // The remaining data items share the earliest uploaded date and are ordered by ID
+      await dbTestHelper.insertStubFailedDataItem({
+        dataItemId: failedDataItemId,
+        ownerPublicAddress,
+      });
+      await dbTestHelper.insertStubPlannedDataItem({
+        dataItemId: plannedDataItemId,
+        planId: "getDataItemUploadsByOwner plan id",
+        ownerPublicAddress,
+      });
+      await dbTestHelper.insertStubPermanentDataItem({
+        dataItemId: permanentDataItemId,
+        bundleId: permanentBundleId,
+        ownerPublicAddress,
+      });
+    });
+
+    after(async () => {
+      await dbTestHelper.cleanUpEntityInDb(
+        tableNames.newDataItem,
+        newDataItemId
+      );
+      await db["writer"](tableNames.failedDataItem)
+        .where({ data_item_id: failedDataItemId })
+        .del();
+      await dbTestHelper.cleanUpEntityInDb(
+        tableNames.plannedDataItem,
+        plannedDataItemId
+      );
+      await dbTestHelper.cleanUpEntityInDb(
+        tableNames.permanentDataItems,
+        permanentDataItemId
+      );
+    });
+
+    it("pages through an owner's data items across tables newest first", async () => {
+      const firstPage = await db.getDataItemUploadsByOwner({
+        ownerPublicAddress,
+        limit: 2,
+      });
+      expect(
+        firstPage.uploads.map(({ dataItemId, status }) => [dataItemId, status])
+      ).to.deep.equal([
+        [newDataItemId, "new"],
+        [failedDataItemId, "failed"],
+      ]);
+      expect(firstPage.nextCursor?.dataItemId).to.equal(failedDataItemId);
+
+      const secondPage = await db.getDataItemUploadsByOwner({
+        ownerPublicAddress,
+        limit: 2,
+        cursor: firstPage.nextCursor,
+      });
+      expect(
+        secondPage.uploads.map(({ dataItemId, status }) => [dataItemId, status])
+      ).to.deep.equal([
+        [plannedDataItemId, "pending"],
+        [permanentDataItemId, "permanent"],
+      ]);
+      expect(secondPage.uploads[1].bundleId).to.equal(permanentBundleId);
+      expect(secondPage.uploads[1].byteCount).to.equal(stubByteCount);
+      expect(secondPage.nextCursor).to.be.undefined;
+    });
+
+    it("filters by status and uploaded date", async () => {
+      const { uploads } = await db.getDataItemUploadsByOwner({
+        ownerPublicAddress,
+        limit: 10,
+        statuses: ["new", "permanent"],
+        fromDate: new Date(stubDates.middleDate),
+      });
+      expect(uploads.map(({ dataItemId }) => dataItemId)).to.deep.equal([
+        newDataItemId,
+      ]);
+    });
+  });
+
+  describe("bundle explorer methods", () => {
+    const plannedPlanId = "bundle explorer planned plan id";
+    const plannedDataItemId = "bundle explorer planned data item";
+    const newPlanId = "bundle explorer new plan id";
+    const newBundleId = "bundle explorer new bundle id";
+    // Far future planned dates keep these bundles apart from those of other tests
+    const fromDate = new Date("2099-01-01T00:00:00.000Z");
+
+    before(async () => {
+      await dbTestHelper.insertStubBundlePlan({
+        planId: plannedPlanId,
+        dataItemIds: [plannedDataItemId],
+        plannedDate: "2099-01-03T00:00:00.000Z",
+      });
+      await dbTestHelper.insertStubNewBundle({
+        bundleId: newBundleId,
+        planId: newPlanId,
+        signedDate: stubDates.earliestDate,
+      });
+      await db["writer"](tableNames.newBundle)
+        .where({ bundle_id: newBundleId })
+        .update({ planned_date: "2099-01-02T00:00:00.000Z" });
+    });
+
+    after(async () => {
+      await dbTestHelper.cleanUpBundlePlanInDb({
+        planId: plannedPlanId,
+        dataItemIds: [plannedDataItemId],
+      });
+      await dbTestHelper.cleanUpEntityInDb(tableNames.newBundle, newBundleId);
+    });
+
+    it("getBundleLifecycle gets a bundle by its plan ID or bundle ID", async () => {
+      const newBundle = await db.getBundleLifecycle(newBundleId);
+      expect(newBundle?.state).to.equal("new");
+      expect(newBundle?.planId).to.equal(newPlanId);
+      expect(newBundle?.reward?.toString()).to.equal(
+        stubWinstonPrice.toString()
+      );
+      expect(newBundle?.timeline.signedTimestamp).to.equal(
+        new Date(stubDates.earliestDate).getTime()
+      );
+      expect(newBundle?.timeline.postedTimestamp).to.be.undefined;
+      expect((await db.getBundleLifecycle(newPlanId))?.bundleId).to.equal(
+        newBundleId
+      );
+
+      const plannedBundle = await db.getBundleLifecycle(plannedPlanId);
+      expect(plannedBundle?.state).to.equal("planned");
+      expect(plannedBundle?.bundleId).to.be.undefined;
+
+      expect(await db.getBundleLifecycle("unknown bundle explorer id")).to.be
+        .undefined;
+    });
+
+    it("getBundleLifecycles pages through bundles across state tables newest plan first", async () => {
+      const firstPage = await db.getBundleLifecycles({ limit: 1, fromDate });
+      expect(firstPage.bundles.map(({ planId }) => planId)).to.deep.equal([
+        plannedPlanId,
+      ]);
+      expect(firstPage.nextCursor?.planId).to.equal(plannedPlanId);
+
+      const secondPage = await db.getBundleLifecycles({
+        limit: 1,
+        fromDate,
+        cursor: firstPage.nextCursor,
+      });
+      expect(secondPage.bundles.map(({ planId }) => planId)).to.deep.equal([
+        newPlanId,
+      ]);
+      expect(secondPage.nextCursor).to.be.undefined;
+    });
+
+    it("getBundleLifecycles filters by state", async () => {
+      const { bundles } = await db.getBundleLifecycles({
+        limit: 10,
+        fromDate,
+        states: ["new", "permanent"],
+      });
+      expect(bundles.map(({ bundleId }) => bundleId)).to.deep.equal([
+        newBundleId,
+      ]);
+    });
+
+    it("getBundleDataItems gets the data items of a bundle plan", async () => {
+      const dataItems = await db.getBundleDataItems(plannedPlanId);
+      expect(
+        dataItems.map(({ dataItemId, status }) => [dataItemId, status])
+      ).to.deep.equal([[plannedDataItemId, "pending"]]);
+      expect(dataItems[0].byteCount).to.equal(stubByteCount);
+    });
+  });
+
   describe("updateDataItemBatchAsPermanent method", () => {
     it("updates the expected data items", async () => {
       const dataItemIds = [
@@ -957,4 +1350,347 @@ describe("PostgresDatabase class", () => {
       expect(failedDataItemDbResult[0].failed_date).to.exist;
     });
   });
+
+  describe("getDedicatedBundleTypeOverrides method", () => {
+    afterEach(async () => {
+      await db["writer"](tableNames.config)
+        .where({ key: dedicatedBundleTypesConfigKey })
+        .del();
+    });
+
+    it("returns no overrides when the config table has no dedicated bundle types", async () => {
+      expect(await db.getDedicatedBundleTypeOverrides()).to.deep.equal({});
+    });
+
+    it("returns the dedicated bundle types stored in the config table", async () => {
+      await db["writer"](tableNames.config).insert({
+        key: dedicatedBundleTypesConfigKey,
+        value: JSON.stringify({
+          stub_dedicated_bundles: {
+            allowedWallets: [stubOwnerAddress],
+            bundlerAppName: "Stub",
+          },
+          warp_dedicated_bundles: null,
+        }),
+      });
+
+      expect(await db.getDedicatedBundleTypeOverrides()).to.deep.equal({
+        stub_dedicated_bundles: {
+          allowedWallets: [stubOwnerAddress],
+          allowedProcesses: undefined,
+          bundlerAppName: "Stub",
+          mustHaveOneOfTags: undefined,
+        },
+        warp_dedicated_bundles: null,
+      });
+    });
+  });
+
+  describe("multipart upload methods", () => {
+    it("keeps the upload length of an upload through finalization", async () => {
+      const uploadId = "multipart upload with length";
+      const upload = await db.insertInFlightMultiPartUpload({
+        uploadId,
+        uploadKey: "multipart upload with length key",
+        uploadLength: 123_456_789,
+      });
+      expect(upload.uploadLength).to.equal(123_456_789);
+
+      await db.finalizeMultiPartUpload({
+        uploadId,
+        etag: "stubEtag",
+        dataItemId: stubTxId1,
+      });
+
+      const finalizedUpload = await db.getFinalizedMultiPartUpload(uploadId);
+      expect(finalizedUpload.uploadLength).to.equal(123_456_789);
+    });
+
+    it("deletes an in-flight upload", async () => {
+      const uploadId = "multipart upload to delete";
+      await db.insertInFlightMultiPartUpload({
+        uploadId,
+        uploadKey: "multipart upload to delete key",
+      });
+
+      await db.deleteInflightMultiPartUpload(uploadId);
+
+      await expectAsyncErrorThrow({
+        promiseToError: db.getInflightMultiPartUpload(uploadId),
+        errorType: "MultiPartUploadNotFound",
+      });
+      await expectAsyncErrorThrow({
+        promiseToError: db.deleteInflightMultiPartUpload(uploadId),
+        errorType: "MultiPartUploadNotFound",
+      });
+    });
+  });
+
+  describe("wallet reserve methods", () => {
+    const newBundlePlanId = "wallet reserve new bundle plan id";
+    const postedBundleId = "wallet reserve posted bundle id";
+
+    after(async () => {
+      await db["writer"](tableNames.newBundle)
+        .where({ plan_id: newBundlePlanId })
+        .del();
+      await db["writer"](tableNames.postedBundle)
+        .where({ bundle_id: postedBundleId })
+        .del();
+      await db["writer"](tableNames.config)
+        .where({ key: walletReserveForecastConfigKey })
+        .del();
+    });
+
+    it("getBundleRewardTotals sums the rewards of pending bundles and of bundles posted within the window", async () => {
+      const windowStart = new Date(Date.now() - 60_000);
+      const before = await db.getBundleRewardTotals(windowStart);
+
+      await dbTestHelper.insertStubNewBundle({
+        planId: newBundlePlanId,
+        bundleId: "wallet reserve new bundle id",
+      });
+      await dbTestHelper.insertStubPostedBundle({
+        planId: "wallet reserve posted bundle plan id",
+        bundleId: postedBundleId,
+        postedDate: new Date().toISOString(),
+        usdToArRate: stubUsdToArRate,
+      });
+
+      const after = await db.getBundleRewardTotals(windowStart);
+      expect(
+        Winston.difference(after.pendingRewards, before.pendingRewards)
+      ).to.equal(stubWinstonPrice.toString());
+      expect(
+        Winston.difference(after.postedRewards, before.postedRewards)
+      ).to.equal(stubWinstonPrice.toString());
+
+      const afterWindow = await db.getBundleRewardTotals(
+        new Date(Date.now() + 60_000)
+      );
+      expect(afterWindow.postedRewards.toString()).to.equal("0");
+    });
+
+    it("putWalletReserveForecast replaces the stored forecast returned by getWalletReserveForecast", async () => {
+      const forecast = {
+        balance: "1000",
+        pendingRewards: "100",
+        burnRatePerHour: "10",
+        hoursRemaining: 90,
+        nonPriorityLanesPaused: false,
+        forecastedAt: new Date().toISOString(),
+      };
+
+      await db.putWalletReserveForecast({ ...forecast, balance: "1" });
+      await db.putWalletReserveForecast(forecast);
+
+      expect(await db.getWalletReserveForecast()).to.deep.equal(forecast);
+    });
+  });
+
+  describe("storage tiering methods", () => {
+    const untieredDataItemId = "storage tiering untiered data item";
+    const objectStoreDataItemId = "storage tiering object store data item";
+    const archivedDataItemId = "storage tiering archived data item";
+    const dataItemIds = [
+      untieredDataItemId,
+      objectStoreDataItemId,
+      archivedDataItemId,
+    ];
+
+    before(async () => {
+      for (const dataItemId of dataItemIds) {
+        await dbTestHelper.insertStubPermanentDataItem({
+          dataItemId,
+          bundleId: "storage tiering bundle id",
+        });
+      }
+      await db.putDataItemStorageTier({
+        dataItemId: objectStoreDataItemId,
+        storageTier: "object_store",
+      });
+      await db.putDataItemStorageTier({
+        dataItemId: archivedDataItemId,
+        storageTier: "archive",
+      });
+    });
+
+    after(async () => {
+      await db["writer"](tableNames.permanentDataItems)
+        .whereIn("data_item_id", dataItemIds)
+        .del();
+      await db["writer"](tableNames.dataItemStorageLocation)
+        .whereIn("data_item_id", dataItemIds)
+        .del();
+    });
+
+    it("getDataItemStorageTier returns the recorded tier, or undefined for data items that were never moved", async () => {
+      expect(await db.getDataItemStorageTier(archivedDataItemId)).to.equal(
+        "archive"
+      );
+      expect(await db.getDataItemStorageTier(untieredDataItemId)).to.be
+        .undefined;
+    });
+
+    it("recordDataItemAccess counts reads of tiered data items and getStorageTieringCandidates returns the data items due to move", async () => {
+      for (let i = 0; i < 3; i++) {
+        await db.recordDataItemAccess(archivedDataItemId);
+      }
+      await db.recordDataItemAccess(untieredDataItemId);
+      expect(await db.getDataItemStorageTier(untieredDataItemId)).to.be
+        .undefined;
+
+      const candidates = (
+        await db.getStorageTieringCandidates({
+          fsBackupCutoff: new Date(),
+          objectStoreCutoff: new Date(),
+          idleCutoff: new Date(Date.now() - 60 * 60 * 1000),
+          promoteMinAccessCount: 3,
+          limit: 1000,
+        })
+      ).filter(({ dataItemId }) => dataItemIds.includes(dataItemId));
+
+      // The object store data item was just moved, so it is not idle yet
+      expect(
+        candidates.map(({ dataItemId, storageTier, accessCount }) => [
+          dataItemId,
+          storageTier,
+          accessCount,
+        ])
+      ).to.have.deep.members([
+        [untieredDataItemId, undefined, 0],
+        [archivedDataItemId, "archive", 3],
+      ]);
+      expect(
+        candidates.find(({ dataItemId }) => dataItemId === archivedDataItemId)
+          ?.lastAccessedDate
+      ).to.exist;
+    });
+
+    it("putDataItemStorageTier resets the access count of a moved data item", async () => {
+      await db.recordDataItemAccess(objectStoreDataItemId);
+      await db.putDataItemStorageTier({
+        dataItemId: objectStoreDataItemId,
+        storageTier: "archive",
+      });
+
+      const location = await db["writer"](tableNames.dataItemStorageLocation)
+        .where({ data_item_id: objectStoreDataItemId })
+        .first();
+      expect(location.storage_tier).to.equal("archive");
+      expect(location.access_count).to.equal(0);
+      expect(location.last_accessed_date).to.be.null;
+    });
+  });
+
+  describe("webhook methods", () => {
+    const ownerWithWebhook = "webhook test owner with registration";
+    const ownerWithoutWebhook = "webhook test owner without registration";
+    const walletWebhookUrl = "https://wallet.example.com/webhook";
+    const uploadWebhookUrl = "https://upload.example.com/webhook";
+
+    afterEach(async () => {
+      await db["writer"](tableNames.webhookRegistration)
+        .whereIn("owner_public_address", [
+          ownerWithWebhook,
+          ownerWithoutWebhook,
+        ])
+        .del();
+      await db["writer"](tableNames.dataItemWebhook)
+        .whereIn("data_item_id", [stubTxId1, stubTxId2, stubTxId3])
+        .del();
+      await db["writer"](tableNames.webhookDeadLetter)
+        .where({ data_item_id: stubTxId1 })
+        .del();
+    });
+
+    it("putWebhookRegistration creates and then replaces the webhook of an owner", async () => {
+      const created = await db.putWebhookRegistration({
+        ownerPublicAddress: ownerWithWebhook,
+        webhookUrl: walletWebhookUrl,
+      });
+      expect(created.webhookUrl).to.equal(walletWebhookUrl);
+
+      await db.putWebhookRegistration({
+        ownerPublicAddress: ownerWithWebhook,
+        webhookUrl: uploadWebhookUrl,
+      });
+
+      const registration = await db.getWebhookRegistration(ownerWithWebhook);
+      expect(registration?.ownerPublicAddress).to.equal(ownerWithWebhook);
+      expect(registration?.webhookUrl).to.equal(uploadWebhookUrl);
+    });
+
+    it("deleteWebhookRegistration returns whether an owner had a webhook", async () => {
+      await db.putWebhookRegistration({
+        ownerPublicAddress: ownerWithWebhook,
+        webhookUrl: walletWebhookUrl,
+      });
+
+      expect(await db.deleteWebhookRegistration(ownerWithWebhook)).to.be.true;
+      expect(await db.deleteWebhookRegistration(ownerWithWebhook)).to.be.false;
+      expect(await db.getWebhookRegistration(ownerWithWebhook)).to.be.undefined;
+    });
+
+    it("getWebhookUrlsForDataItems prefers per upload webhooks over wallet webhooks", async () => {
+      await db.putWebhookRegistration({
+        ownerPublicAddress: ownerWithWebhook,
+        webhookUrl: walletWebhookUrl,
+      });
+      await db.insertDataItemWebhook({
+        dataItemId: stubTxId2,
+        webhookUrl: uploadWebhookUrl,
+      });
+
+      const webhookUrls = await db.getWebhookUrlsForDataItems([
+        { dataItemId: stubTxId1, ownerPublicAddress: ownerWithWebhook },
+        { dataItemId: stubTxId2, ownerPublicAddress: ownerWithWebhook },
+        { dataItemId: stubTxId3, ownerPublicAddress: ownerWithoutWebhook },
+      ]);
+
+      expect(webhookUrls).to.deep.equal({
+        [stubTxId1]: walletWebhookUrl,
+        [stubTxId2]: uploadWebhookUrl,
+      });
+    });
+
+    it("deleteDataItemWebhooks removes per upload webhooks", async () => {
+      await db.insertDataItemWebhook({
+        dataItemId: stubTxId1,
+        webhookUrl: uploadWebhookUrl,
+      });
+
+      await db.deleteDataItemWebhooks([stubTxId1]);
+
+      expect(
+        await db.getWebhookUrlsForDataItems([
+          { dataItemId: stubTxId1, ownerPublicAddress: ownerWithoutWebhook },
+        ])
+      ).to.deep.equal({});
+    });
+
+    it("insertWebhookDeadLetter records the failed delivery", async () => {
+      await db.insertWebhookDeadLetter({
+        webhookUrl: uploadWebhookUrl,
+        payload: {
+          event: "permanent",
+          dataItemId: stubTxId1,
+          timestamp: 1700000000000,
+          bundleId: stubTxId2,
+          blockHeight: stubBlockHeight,
+        },
+        failedReason: "Request failed with status code 500",
+        attemptsMade: 8,
+      });
+
+      const deadLetters = await db["writer"](
+        tableNames.webhookDeadLetter
+      ).where({ data_item_id: stubTxId1 });
+      expect(deadLetters.length).to.equal(1);
+      expect(deadLetters[0].event).to.equal("permanent");
+      expect(deadLetters[0].payload.bundleId).to.equal(stubTxId2);
+      expect(deadLetters[0].attempts_made).to.equal(8);
+      expect(deadLetters[0].failed_date).to.exist;
+    });
+  });
 });
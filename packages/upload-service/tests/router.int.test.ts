@@ -14,10 +14,12 @@
  * You should have received a copy of the GNU Affero General Public License
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
+import { SERVICE_NAMES, createRequestNonce } from "@ar-io-bundler/shared";
 import { ArweaveSigner, createData } from "@dha-team/arbundles";
 import Arweave from "arweave";
 import axios from "axios";
 import { expect } from "chai";
+import { createHash } from "crypto";
 import { readFileSync } from "fs";
 import { Server } from "http";
 import { stub } from "sinon";
@@ -26,13 +28,25 @@ import { ArweaveGateway } from "../src/arch/arweaveGateway";
 import { PostgresDatabase } from "../src/arch/db/postgres";
 import { FileSystemObjectStore } from "../src/arch/fileSystemObjectStore";
 import { TurboPaymentService } from "../src/arch/payment";
-import { octetStreamContentType, receiptVersion } from "../src/constants";
+import {
+  fullySignedReceiptVersion,
+  octetStreamContentType,
+  receiptVersion,
+} from "../src/constants";
 import logger from "../src/logger";
+import { decodeUploadsCursor } from "../src/routes/accountUploads";
+import { decodeBundlesCursor } from "../src/routes/adminBundles";
 import { createServer } from "../src/server";
 import { JWKInterface } from "../src/types/jwkTypes";
 import { W } from "../src/types/winston";
-import { MultiPartUploadNotFound } from "../src/utils/errors";
+import { jwkToPublicArweaveAddress, toB64Url } from "../src/utils/base64";
+import {
+  BundlerWalletRegistry,
+  bundlerWalletFromJwk,
+} from "../src/utils/bundlerWallets";
+import { ApiKeyRejected, MultiPartUploadNotFound } from "../src/utils/errors";
 import { getS3ObjectStore } from "../src/utils/objectStoreUtils";
+import { signReceipt } from "../src/utils/signReceipt";
 import { verifyReceipt } from "../src/utils/verifyReceipt";
 import { generateJunkDataItem, signDataItem } from "./helpers/dataItemHelpers";
 import { assertExpectedHeadersWithContentLength } from "./helpers/expectations";
@@ -62,6 +76,8 @@ describe("Router tests", function () {
     before(async () => {
       server = await createServer({
         getArweaveWallet: () => Promise.resolve(testArweaveJWK),
+        getBundlerWalletRegistry: () =>
+          new BundlerWalletRegistry([bundlerWalletFromJwk(testArweaveJWK)]),
       });
     });
 
@@ -69,6 +85,20 @@ describe("Router tests", function () {
       closeServer();
     });
 
+    it("GET / returns the public keys of the bundler signing wallets", async () => {
+      const { status, data } = await axios.get(localTestUrl);
+
+      expect(status).to.equal(200);
+      expect(data.signingKeys).to.deep.equal([
+        {
+          // cspell:disable
+          address: "8wgRDgvYOrtSaWEIV21g0lTuWDUnTu4_iYj4hmA7PI0", //cspell:enable
+          publicKey: testArweaveJWK.n,
+          status: "active",
+        },
+      ]);
+    });
+
     it("GET / returns arweave address, receipt version, and gateway in the body, a 200 status, and the correct content-length", async () => {
       const { status, statusText, headers, data } = await axios.get(
         localTestUrl
@@ -204,6 +234,522 @@ describe("Router tests", function () {
     });
   });
 
+  describe("Batch Data Item Status POST `/v1/tx/status` Route", () => {
+    const testTxId = "G-i10-8jE1Kg1fDuEYGM-MWddAO9sJEKvfZNQuD3AP0";
+    const unknownTxId = "UNIQUEtransactionID43Characters123456789012";
+    const database = new PostgresDatabase({});
+    before(async function () {
+      server = await createServer({
+        database,
+      });
+    });
+
+    after(() => {
+      closeServer();
+    });
+
+    it("returns the status of each requested data item keyed by ID with null for unknown IDs", async () => {
+      stub(database, "getDataItemInfos").resolves({
+        [testTxId]: {
+          assessedWinstonPrice: W("500"),
+          status: "pending",
+          bundleId: "bundleId",
+          uploadedTimestamp: Date.now(),
+          deadlineHeight: 1500,
+          owner: "stubOwner",
+        },
+      });
+
+      const { status, data } = await axios.post(
+        `${localTestUrl}/v1/tx/status`,
+        [testTxId, unknownTxId]
+      );
+
+      expect(status).to.equal(200);
+      expect(data).to.deep.equal({
+        [testTxId]: {
+          status: "CONFIRMED",
+          info: "pending",
+          bundleId: "bundleId",
+          deadlineHeight: 1500,
+          winc: "500",
+          parentDataItemId: "uMguurlEh9a7MKYiauKGlbxG6OjP2xaGmWa1-vrHVh8",
+          payloadContentLength: 11111,
+          payloadContentType: "application/json",
+          payloadDataStart: 1234,
+          rawContentLength: 12345,
+          startOffsetInParentDataItemPayload: 321,
+        },
+        [unknownTxId]: null,
+      });
+    });
+
+    it("returns a 400 when the body is not an array of data item IDs", async () => {
+      const { status } = await axios.post(
+        `${localTestUrl}/v1/tx/status`,
+        ["not a data item id"],
+        { validateStatus: () => true }
+      );
+
+      expect(status).to.equal(400);
+    });
+  });
+
+  describe("Receipt Routes", () => {
+    const testTxId = "G-i10-8jE1Kg1fDuEYGM-MWddAO9sJEKvfZNQuD3AP0";
+    const database = new PostgresDatabase({});
+    // cspell:disable
+    const signerAddress = "8wgRDgvYOrtSaWEIV21g0lTuWDUnTu4_iYj4hmA7PI0"; // cspell:enable
+    const unsignedReceipt = {
+      id: testTxId,
+      deadlineHeight: 1500,
+      timestamp: Date.now(),
+      version: receiptVersion,
+      dataCaches: ["arweave.net"],
+      fastFinalityIndexes: ["arweave.net"],
+      winc: "500",
+    };
+    let rawDataItemJwk: JWKInterface;
+    before(async function () {
+      rawDataItemJwk = await Arweave.init({}).wallets.generate();
+      server = await createServer({
+        database,
+        getBundlerWalletRegistry: () =>
+          new BundlerWalletRegistry([
+            bundlerWalletFromJwk(testArweaveJWK, {
+              activeFrom: "2024-01-01T00:00:00.000Z",
+            }),
+          ]),
+        getRawDataItemWallet: async () => rawDataItemJwk,
+      });
+    });
+
+    after(() => {
+      closeServer();
+    });
+
+    it("POST /v1/receipts/verify verifies a receipt signed by a bundler key and reports the data item status", async () => {
+      stub(database, "getDataItemInfo").resolves({
+        assessedWinstonPrice: W("500"),
+        status: "pending",
+        bundleId: "bundleId",
+        uploadedTimestamp: Date.now(),
+        deadlineHeight: 1500,
+        owner: "stubOwner",
+      });
+      const receipt = await signReceipt(unsignedReceipt, testArweaveJWK);
+
+      const { status, data } = await axios.post(
+        `${localTestUrl}/v1/receipts/verify`,
+        receipt
+      );
+
+      expect(status).to.equal(200);
+      expect(data.id).to.equal(testTxId);
+      expect(data.valid).to.be.true;
+      expect(data.signatureValid).to.be.true;
+      expect(data.signerActiveAtTimestamp).to.be.true;
+      expect(data.signer).to.deep.equal({
+        address: signerAddress,
+        publicKey: testArweaveJWK.n,
+        status: "active",
+        activeFrom: "2024-01-01T00:00:00.000Z",
+      });
+      expect(data.dataItemExists).to.be.true;
+      expect(data.dataItemStatus.status).to.equal("CONFIRMED");
+      expect(data.dataItemStatus.info).to.equal("pending");
+    });
+
+    it("POST /v1/receipts/verify verifies a receipt of a raw data upload signed by the raw data item wallet", async () => {
+      stub(database, "getDataItemInfo").resolves({
+        assessedWinstonPrice: W("500"),
+        status: "pending",
+        bundleId: "bundleId",
+        uploadedTimestamp: Date.now(),
+        deadlineHeight: 1500,
+        owner: "stubOwner",
+      });
+      const receipt = await signReceipt(unsignedReceipt, rawDataItemJwk);
+
+      const { status, data } = await axios.post(
+        `${localTestUrl}/v1/receipts/verify`,
+        receipt
+      );
+
+      expect(status).to.equal(200);
+      expect(data.valid).to.be.true;
+      expect(data.signerActiveAtTimestamp).to.be.true;
+      expect(data.signer).to.deep.equal({
+        address: jwkToPublicArweaveAddress(rawDataItemJwk),
+        publicKey: rawDataItemJwk.n,
+        status: "active",
+      });
+    });
+
+    it("POST /v1/receipts/verify reports a tampered receipt as invalid", async () => {
+      stub(database, "getDataItemInfo").resolves(undefined);
+      const receipt = await signReceipt(unsignedReceipt, testArweaveJWK);
+
+      const { status, data } = await axios.post(
+        `${localTestUrl}/v1/receipts/verify`,
+        { ...receipt, deadlineHeight: 9999 }
+      );
+
+      expect(status).to.equal(200);
+      expect(data.valid).to.be.false;
+      expect(data.signatureValid).to.be.false;
+      expect(data.dataItemExists).to.be.false;
+      expect(data.dataItemStatus).to.be.null;
+    });
+
+    it("POST /v1/receipts/verify reports a receipt timestamped before its signer was active as invalid", async () => {
+      stub(database, "getDataItemInfo").resolves(undefined);
+      const receipt = await signReceipt(
+        { ...unsignedReceipt, timestamp: Date.parse("2023-01-01") },
+        testArweaveJWK
+      );
+
+      const { data } = await axios.post(
+        `${localTestUrl}/v1/receipts/verify`,
+        receipt
+      );
+
+      expect(data.valid).to.be.false;
+      expect(data.signatureValid).to.be.true;
+      expect(data.signerActiveAtTimestamp).to.be.false;
+    });
+
+    it("POST /v1/receipts/verify returns a 400 when the body is not a signed receipt", async () => {
+      const { status } = await axios.post(
+        `${localTestUrl}/v1/receipts/verify`,
+        { id: testTxId },
+        { validateStatus: () => true }
+      );
+
+      expect(status).to.equal(400);
+    });
+
+    it("GET /v1/receipts/keys lists the receipt signing keys with their validity periods", async () => {
+      const { status, data } = await axios.get(
+        `${localTestUrl}/v1/receipts/keys`
+      );
+
+      expect(status).to.equal(200);
+      expect(data).to.deep.equal({
+        keys: [
+          {
+            address: signerAddress,
+            publicKey: testArweaveJWK.n,
+            status: "active",
+            activeFrom: "2024-01-01T00:00:00.000Z",
+          },
+          {
+            address: jwkToPublicArweaveAddress(rawDataItemJwk),
+            publicKey: rawDataItemJwk.n,
+            status: "active",
+          },
+        ],
+      });
+    });
+  });
+
+  describe("Account Uploads GET `/v1/account/uploads` Route", () => {
+    const database = new PostgresDatabase({});
+    // Nonces can only be used once, so every request is signed with a fresh one
+    async function signedHeaders(): Promise<Record<string, string>> {
+      const nonce = createRequestNonce(SERVICE_NAMES.UPLOAD);
+      return {
+        "x-signature": toB64Url(
+          Buffer.from(
+            await Arweave.crypto.sign(testArweaveJWK, Buffer.from(nonce))
+          )
+        ),
+        "x-public-key": testArweaveJWK.n,
+        "x-nonce": nonce,
+      };
+    }
+    before(async function () {
+      server = await createServer({
+        database,
+      });
+    });
+
+    after(() => {
+      closeServer();
+    });
+
+    it("returns a page of the signer's uploads with an encoded next cursor", async () => {
+      const getUploadsStub = stub(
+        database,
+        "getDataItemUploadsByOwner"
+      ).resolves({
+        uploads: [
+          {
+            dataItemId: "stubDataItemId",
+            status: "permanent",
+            byteCount: 1024,
+            assessedWinstonPrice: W("500"),
+            bundleId: "stubBundleId",
+            uploadedTimestamp: 1700000000000,
+          },
+        ],
+        nextCursor: {
+          uploadedDate: "2023-11-14 22:13:20",
+          dataItemId: "stubDataItemId",
+        },
+      });
+
+      const { status, data } = await axios.get(
+        `${localTestUrl}/v1/account/uploads?status=permanent,failed&limit=1`,
+        { headers: await signedHeaders() }
+      );
+
+      expect(status).to.equal(200);
+      expect(data.uploads).to.deep.equal([
+        {
+          dataItemId: "stubDataItemId",
+          status: "permanent",
+          byteCount: 1024,
+          assessedWinstonPrice: "500",
+          bundleId: "stubBundleId",
+          uploadedTimestamp: 1700000000000,
+        },
+      ]);
+      expect(decodeUploadsCursor(data.nextCursor)).to.deep.equal({
+        uploadedDate: "2023-11-14 22:13:20",
+        dataItemId: "stubDataItemId",
+      });
+      expect(getUploadsStub.firstCall.args[0]).to.deep.include({
+        ownerPublicAddress: jwkToPublicArweaveAddress(testArweaveJWK),
+        limit: 1,
+        statuses: ["permanent", "failed"],
+      });
+    });
+
+    it("returns a 400 for a cursor with an invalid uploaded date", async () => {
+      const cursor = toB64Url(
+        Buffer.from(
+          JSON.stringify({ uploadedDate: "x", dataItemId: "stubDataItemId" })
+        )
+      );
+
+      const { status, data } = await axios.get(
+        `${localTestUrl}/v1/account/uploads?cursor=${cursor}`,
+        { headers: await signedHeaders(), validateStatus: () => true }
+      );
+
+      expect(status).to.equal(400);
+      expect(data).to.equal("Invalid cursor");
+    });
+
+    it("returns a 401 for an unsigned request", async () => {
+      const { status } = await axios.get(`${localTestUrl}/v1/account/uploads`, {
+        validateStatus: () => true,
+      });
+
+      expect(status).to.equal(401);
+    });
+
+    it("returns a 403 when listing the uploads of another owner", async () => {
+      const { status } = await axios.get(
+        `${localTestUrl}/v1/account/uploads?owner=someOtherOwner`,
+        { headers: await signedHeaders(), validateStatus: () => true }
+      );
+
+      expect(status).to.equal(403);
+    });
+  });
+
+  describe("Admin Bundle Explorer `/v1/admin/bundles` Routes", () => {
+    const database = new PostgresDatabase({});
+    const paymentService = new TurboPaymentService();
+    const adminPassword = "admin bundles test password";
+    const adminHeaders = {
+      Authorization: `Basic ${Buffer.from(`admin:${adminPassword}`).toString(
+        "base64"
+      )}`,
+    };
+    const stubBundle = {
+      planId: "stubPlanId",
+      state: "permanent" as const,
+      bundleId: "stubBundleId",
+      reward: W("1000"),
+      blockHeight: 1000,
+      indexedOnGQL: true,
+      timeline: {
+        plannedTimestamp: 1700000000000,
+        signedTimestamp: 1700000001000,
+        postedTimestamp: 1700000002000,
+        seededTimestamp: 1700000003000,
+        permanentTimestamp: 1700000004000,
+      },
+    };
+    let previousAdminPassword: string | undefined;
+    before(async function () {
+      previousAdminPassword = process.env.ADMIN_PASSWORD;
+      process.env.ADMIN_PASSWORD = adminPassword;
+      server = await createServer({
+        database,
+        paymentService,
+      });
+    });
+
+    after(() => {
+      if (previousAdminPassword === undefined) {
+        delete process.env.ADMIN_PASSWORD;
+      } else {
+        process.env.ADMIN_PASSWORD = previousAdminPassword;
+      }
+      closeServer();
+    });
+
+    it("returns a bundle's lifecycle with its data items", async () => {
+      stub(database, "getBundleLifecycle").resolves(stubBundle);
+      const getDataItemsStub = stub(database, "getBundleDataItems").resolves([
+        {
+          dataItemId: "stubDataItemId",
+          status: "permanent",
+          ownerPublicAddress: "stubOwner",
+          byteCount: 1024,
+          assessedWinstonPrice: W("500"),
+          uploadedTimestamp: 1690000000000,
+        },
+      ]);
+
+      const { status, data } = await axios.get(
+        `${localTestUrl}/v1/admin/bundles/stubBundleId`,
+        { headers: adminHeaders }
+      );
+
+      expect(status).to.equal(200);
+      expect(data).to.deep.include({
+        planId: "stubPlanId",
+        state: "permanent",
+        reward: "1000",
+        timeline: stubBundle.timeline,
+      });
+      expect(data.dataItems[0].dataItemId).to.equal("stubDataItemId");
+      expect(getDataItemsStub.calledOnceWith("stubPlanId")).to.be.true;
+    });
+
+    it("returns a 404 for an unknown bundle", async () => {
+      stub(database, "getBundleLifecycle").resolves(undefined);
+
+      const { status } = await axios.get(
+        `${localTestUrl}/v1/admin/bundles/unknownBundleId`,
+        { headers: adminHeaders, validateStatus: () => true }
+      );
+
+      expect(status).to.equal(404);
+    });
+
+    it("returns a page of bundles with an encoded next cursor", async () => {
+      const getBundlesStub = stub(database, "getBundleLifecycles").resolves({
+        bundles: [stubBundle],
+        nextCursor: {
+          plannedDate: "2023-11-14 22:13:20",
+          planId: "stubPlanId",
+        },
+      });
+
+      const { status, data } = await axios.get(
+        `${localTestUrl}/v1/admin/bundles?state=posted,seeded&limit=1`,
+        { headers: adminHeaders }
+      );
+
+      expect(status).to.equal(200);
+      expect(data.bundles[0].planId).to.equal("stubPlanId");
+      expect(decodeBundlesCursor(data.nextCursor)).to.deep.equal({
+        plannedDate: "2023-11-14 22:13:20",
+        planId: "stubPlanId",
+      });
+      expect(getBundlesStub.firstCall.args[0]).to.deep.include({
+        limit: 1,
+        states: ["posted", "seeded"],
+      });
+    });
+
+    it("returns a 400 for an unknown state", async () => {
+      const { status } = await axios.get(
+        `${localTestUrl}/v1/admin/bundles?state=lost`,
+        { headers: adminHeaders, validateStatus: () => true }
+      );
+
+      expect(status).to.equal(400);
+    });
+
+    it("returns a 400 for a cursor with an invalid planned date", async () => {
+      const cursor = toB64Url(
+        Buffer.from(JSON.stringify({ plannedDate: "x", planId: "stubPlanId" }))
+      );
+
+      const { status, data } = await axios.get(
+        `${localTestUrl}/v1/admin/bundles?cursor=${cursor}`,
+        { headers: adminHeaders, validateStatus: () => true }
+      );
+
+      expect(status).to.equal(400);
+      expect(data).to.equal("Invalid cursor");
+    });
+
+    it("returns a 401 without the admin credentials", async () => {
+      const { status, headers } = await axios.get(
+        `${localTestUrl}/v1/admin/bundles`,
+        {
+          headers: {
+            Authorization: `Basic ${Buffer.from("admin:wrong").toString(
+              "base64"
+            )}`,
+          },
+          validateStatus: () => true,
+        }
+      );
+
+      expect(status).to.equal(401);
+      expect(headers["www-authenticate"]).to.equal(
+        'Basic realm="AR.IO Bundler Admin"'
+      );
+    });
+
+    it("accepts an admin scoped API key", async () => {
+      const authenticateStub = stub(
+        paymentService,
+        "authenticateApiKey"
+      ).resolves({
+        apiKeyId: "stubApiKeyId",
+        address: "stubAddress",
+        addressType: "arweave",
+        scopes: ["admin"],
+      });
+      stub(database, "getBundleLifecycle").resolves(undefined);
+
+      const { status } = await axios.get(
+        `${localTestUrl}/v1/admin/bundles/unknownBundleId`,
+        { headers: { "x-api-key": "stub.key" }, validateStatus: () => true }
+      );
+
+      expect(status).to.equal(404);
+      expect(authenticateStub.firstCall.args[0]).to.deep.equal({
+        apiKey: "stub.key",
+        scope: "admin",
+      });
+    });
+
+    it("returns the status of an API key rejected by the payment service", async () => {
+      stub(paymentService, "authenticateApiKey").rejects(
+        new ApiKeyRejected(403, "API key is not granted the 'admin' scope")
+      );
+
+      const { status, data } = await axios.get(
+        `${localTestUrl}/v1/admin/bundles`,
+        { headers: { "x-api-key": "stub.key" }, validateStatus: () => true }
+      );
+
+      expect(status).to.equal(403);
+      expect(data).to.equal("API key is not granted the 'admin' scope");
+    });
+  });
+
   describe("Data Item Offsets GET `/v1/tx/:id/offsets` Route", () => {
     const database = new PostgresDatabase({});
     const testTxId = "G-i10-8jE1Kg1fDuEYGM-MWddAO9sJEKvfZNQuD3AP0";
@@ -394,6 +940,25 @@ describe("Router tests", function () {
           expect(data.dataCaches).to.deep.equal(["arweave.net"]);
         });
 
+        it("returns a fully signed receipt when requested with the Accept-Receipt-Version header", async function () {
+          const dataItem = await signDataItem(
+            generateJunkDataItem(512, receiptSigningWallet, [
+              { name: "test", value: "receipt version" },
+            ]),
+            receiptSigningWallet
+          );
+
+          const { status, data } = await postStubDataItem(dataItem, {
+            "Content-Type": octetStreamContentType,
+            "Accept-Receipt-Version": fullySignedReceiptVersion,
+          });
+
+          expect(status).to.equal(200);
+          expect(data.version).to.equal(fullySignedReceiptVersion);
+          expect(await verifyReceipt(data)).to.be.true;
+          expect(await verifyReceipt({ ...data, winc: "0" })).to.be.false;
+        });
+
         it("returns the expected result for an address on the block list", async () => {
           const dataItem = await signDataItem(
             generateJunkDataItem(512, blocklistedJWK, [
@@ -749,4 +1314,269 @@ describe("Router tests", function () {
       );
     });
   });
+
+  describe("Multipart Upload Missing Ranges GET `/chunks/:token/:uploadId/missing` Route", () => {
+    const objectStore = new FileSystemObjectStore();
+    const database = new PostgresDatabase({});
+    before(async () => {
+      server = await createServer({
+        objectStore,
+        database,
+        getArweaveWallet: () => Promise.resolve(testArweaveJWK),
+      });
+    });
+
+    after(() => {
+      closeServer();
+    });
+
+    async function createUpload(chunkSize: number): Promise<string> {
+      const newUploadResponse = await axios.get(
+        `${localTestUrl}/chunks/arweave/-1/-1?chunkSize=${chunkSize}`
+      );
+      return newUploadResponse.data.id;
+    }
+
+    it("should return 404 when the uploadId is not found", async () => {
+      const response = await axios.get(
+        `${localTestUrl}/chunks/arweave/stubUploadId/missing`,
+        {
+          validateStatus: () => true,
+        }
+      );
+      expect(response.status).to.equal(404);
+    });
+
+    it("should return 400 when the total size is not a positive integer", async () => {
+      const response = await axios.get(
+        `${localTestUrl}/chunks/arweave/stubUploadId/missing?size=-5`,
+        {
+          validateStatus: () => true,
+        }
+      );
+      expect(response.status).to.equal(400);
+    });
+
+    it("should return the gaps between uploaded chunks and the trailing gap when the total size is given", async () => {
+      const chunkSize = 5 * 1024 * 1024;
+      stub(objectStore, "createMultipartUpload").resolves("missingRanges");
+      const uploadId = await createUpload(chunkSize);
+      stub(objectStore, "getMultipartUploadParts").resolves([
+        { partNumber: 3, size: chunkSize },
+        { partNumber: 1, size: chunkSize },
+      ]);
+
+      const response = await axios.get(
+        `${localTestUrl}/chunks/arweave/${uploadId}/missing?size=${
+          4 * chunkSize + 100
+        }`
+      );
+
+      expect(response.status).to.equal(200);
+      expect(response.data.id).to.equal(uploadId);
+      expect(response.data.size).to.equal(chunkSize);
+      expect(response.data.missing).to.deep.equal([
+        [chunkSize, chunkSize],
+        [3 * chunkSize, chunkSize + 100],
+      ]);
+    });
+  });
+
+  describe("Multipart Upload Chunk POST `/chunks/:token/:uploadId/:chunkOffset` Route with a Content-Digest header", () => {
+    const objectStore = new FileSystemObjectStore();
+    const database = new PostgresDatabase({});
+    const chunk = Buffer.alloc(5 * 1024 * 1024, "chunk");
+    const chunkDigest = `sha-256=:${createHash("sha256")
+      .update(chunk)
+      .digest("base64")}:`;
+
+    before(async () => {
+      server = await createServer({
+        objectStore,
+        database,
+        getArweaveWallet: () => Promise.resolve(testArweaveJWK),
+      });
+    });
+
+    after(() => {
+      closeServer();
+    });
+
+    async function createUpload(): Promise<string> {
+      const newUploadResponse = await axios.get(
+        `${localTestUrl}/chunks/arweave/-1/-1?chunkSize=${chunk.byteLength}`
+      );
+      return newUploadResponse.data.id;
+    }
+
+    it("should upload a chunk that matches its digest", async () => {
+      stub(objectStore, "createMultipartUpload").resolves("digestMatches");
+      const uploadPartStub = stub(objectStore, "uploadPart").resolves("etag");
+      const uploadId = await createUpload();
+
+      const response = await axios.post(
+        `${localTestUrl}/chunks/arweave/${uploadId}/0`,
+        chunk,
+        {
+          headers: {
+            "Content-Type": "application/octet-stream",
+            "Content-Digest": chunkDigest,
+          },
+          maxBodyLength: Infinity,
+          validateStatus: () => true,
+        }
+      );
+
+      expect(response.status).to.equal(200);
+      expect(uploadPartStub.calledOnce).to.be.true;
+    });
+
+    it("should return 400 and not upload a chunk that does not match its digest", async () => {
+      stub(objectStore, "createMultipartUpload").resolves("digestMismatch");
+      const uploadPartStub = stub(objectStore, "uploadPart").resolves("etag");
+      const uploadId = await createUpload();
+
+      const corruptedChunk = Buffer.from(chunk);
+      corruptedChunk[42] ^= 0xff;
+      const response = await axios.post(
+        `${localTestUrl}/chunks/arweave/${uploadId}/0`,
+        corruptedChunk,
+        {
+          headers: {
+            "Content-Type": "application/octet-stream",
+            "Content-Digest": chunkDigest,
+          },
+          maxBodyLength: Infinity,
+          validateStatus: () => true,
+        }
+      );
+
+      expect(response.status).to.equal(400);
+      expect(uploadPartStub.called).to.be.false;
+    });
+  });
+
+  describe("tus `/tus/:token` Routes", () => {
+    const objectStore = new FileSystemObjectStore();
+    const database = new PostgresDatabase({});
+    const chunk = Buffer.alloc(5 * 1024 * 1024, "tus");
+    const tusHeaders = { "Tus-Resumable": "1.0.0" };
+
+    before(async () => {
+      server = await createServer({
+        objectStore,
+        database,
+        getArweaveWallet: () => Promise.resolve(testArweaveJWK),
+      });
+    });
+
+    after(() => {
+      closeServer();
+    });
+
+    async function createTusUpload(uploadLength: number): Promise<string> {
+      const response = await axios.post(`${localTestUrl}/tus/arweave`, null, {
+        headers: { ...tusHeaders, "Upload-Length": uploadLength.toString() },
+      });
+      expect(response.status).to.equal(201);
+      return `${localTestUrl}${response.headers.location}`;
+    }
+
+    function patchTusUpload(
+      uploadUrl: string,
+      uploadOffset: number,
+      body: Buffer,
+      headers: Record<string, string> = {}
+    ) {
+      return axios.patch(uploadUrl, body, {
+        headers: {
+          ...tusHeaders,
+          "Content-Type": "application/offset+octet-stream",
+          "Upload-Offset": uploadOffset.toString(),
+          ...headers,
+        },
+        maxBodyLength: Infinity,
+        validateStatus: () => true,
+      });
+    }
+
+    it("OPTIONS advertises the supported tus version and extensions", async () => {
+      const response = await axios.options(`${localTestUrl}/tus/arweave`);
+
+      expect(response.status).to.equal(204);
+      expect(response.headers["tus-version"]).to.equal("1.0.0");
+      expect(response.headers["tus-extension"]).to.equal(
+        "creation,termination,checksum"
+      );
+    });
+
+    it("rejects requests without a supported Tus-Resumable header with a 412", async () => {
+      const response = await axios.post(`${localTestUrl}/tus/arweave`, null, {
+        headers: { "Upload-Length": "100" },
+        validateStatus: () => true,
+      });
+
+      expect(response.status).to.equal(412);
+      expect(response.headers["tus-version"]).to.equal("1.0.0");
+    });
+
+    it("creates an upload, reports its offset and accepts a PATCH at that offset", async () => {
+      const uploadLength = 2 * chunk.byteLength;
+      const uploadUrl = await createTusUpload(uploadLength);
+
+      const headResponse = await axios.head(uploadUrl, { headers: tusHeaders });
+      expect(headResponse.headers["upload-offset"]).to.equal("0");
+      expect(headResponse.headers["upload-length"]).to.equal(
+        uploadLength.toString()
+      );
+
+      const patchResponse = await patchTusUpload(uploadUrl, 0, chunk);
+      expect(patchResponse.status).to.equal(204);
+      expect(patchResponse.headers["upload-offset"]).to.equal(
+        chunk.byteLength.toString()
+      );
+
+      const resumedHeadResponse = await axios.head(uploadUrl, {
+        headers: tusHeaders,
+      });
+      expect(resumedHeadResponse.headers["upload-offset"]).to.equal(
+        chunk.byteLength.toString()
+      );
+    });
+
+    it("rejects a PATCH at an offset other than the current one with a 409", async () => {
+      const uploadUrl = await createTusUpload(2 * chunk.byteLength);
+
+      const response = await patchTusUpload(uploadUrl, chunk.byteLength, chunk);
+
+      expect(response.status).to.equal(409);
+    });
+
+    it("rejects a PATCH that does not match its Upload-Checksum with a 460", async () => {
+      const uploadUrl = await createTusUpload(2 * chunk.byteLength);
+
+      const response = await patchTusUpload(uploadUrl, 0, chunk, {
+        "Upload-Checksum": `sha256 ${createHash("sha256")
+          .update("not the chunk")
+          .digest("base64")}`,
+      });
+
+      expect(response.status).to.equal(460);
+    });
+
+    it("terminates an upload", async () => {
+      const uploadUrl = await createTusUpload(2 * chunk.byteLength);
+
+      const deleteResponse = await axios.delete(uploadUrl, {
+        headers: tusHeaders,
+      });
+      expect(deleteResponse.status).to.equal(204);
+
+      const headResponse = await axios.head(uploadUrl, {
+        headers: tusHeaders,
+        validateStatus: () => true,
+      });
+      expect(headResponse.status).to.equal(404);
+    });
+  });
 });
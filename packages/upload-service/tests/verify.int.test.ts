@@ -24,6 +24,7 @@ import { stubCacheService } from "../src/arch/cacheServiceTypes";
 import { columnNames, tableNames } from "../src/arch/db/dbConstants";
 import { PostgresDatabase } from "../src/arch/db/postgres";
 import { FileSystemObjectStore } from "../src/arch/fileSystemObjectStore";
+import { GatewayConsensus } from "../src/arch/gatewayConsensus";
 import { BundleHeaderInfo } from "../src/bundles/assembleBundleHeader";
 import { gatewayUrl } from "../src/constants";
 import { verifyBundleHandler } from "../src/jobs/verify";
@@ -131,6 +132,74 @@ describe("Verify bundle job handler function integrated with PostgresDatabase cl
       expect(permanentDataItemDbResult.length).to.equal(3);
     });
 
+    it("marks the permanent bundle as indexed on GQL when the gateway has indexed its first and last data items", async () => {
+      stub(gateway, "getTransactionStatus").resolves({
+        status: "found",
+        transactionStatus: {
+          block_height: 100000,
+          block_indep_hash: "",
+          number_of_confirmations: 80,
+        },
+      });
+      const indexedStub = stub(
+        gateway,
+        "getDataItemIdsIndexedInBundle"
+      ).resolves([stubTxId14, stubTxId16]);
+
+      await verifyBundleHandler({
+        database: db,
+        arweaveGateway: gateway,
+        objectStore,
+      });
+
+      expect(indexedStub.firstCall.args).to.deep.equal([
+        bundleId,
+        [stubTxId14, stubTxId16],
+      ]);
+      const permanentBundleDbResult = await dbTestHelper
+        .knex<PermanentBundleDBResult>(tableNames.permanentBundle)
+        .where(columnNames.bundleId, bundleId);
+      expect(permanentBundleDbResult.length).to.equal(1);
+      expect(permanentBundleDbResult[0].indexed_on_gql).to.be.true;
+    });
+
+    it("does not mark any bundle as permanent when the verification gateways do not reach a quorum", async () => {
+      const disagreeingGateway = new ArweaveGateway({ endpoint: gatewayUrl });
+      stub(gateway, "getTransactionStatus").resolves({
+        status: "found",
+        transactionStatus: {
+          block_height: 100000,
+          block_indep_hash: "",
+          number_of_confirmations: 80,
+        },
+      });
+      stub(disagreeingGateway, "getTransactionStatus").resolves({
+        status: "not found",
+      });
+
+      await verifyBundleHandler({
+        database: db,
+        arweaveGateway: new GatewayConsensus(
+          [
+            { name: "agreeing", gateway },
+            { name: "disagreeing", gateway: disagreeingGateway },
+          ],
+          2
+        ),
+        objectStore,
+      });
+
+      const permanentBundleDbResult = await dbTestHelper
+        .knex<PermanentBundleDBResult>(tableNames.permanentBundle)
+        .where(columnNames.bundleId, bundleId);
+      expect(permanentBundleDbResult.length).to.equal(0);
+
+      const seededBundleDbResult = await dbTestHelper
+        .knex<PermanentBundleDBResult>(tableNames.seededBundle)
+        .where(columnNames.bundleId, bundleId);
+      expect(seededBundleDbResult.length).to.equal(1);
+    });
+
     it("inserts failed_bundle and moves data items back to new_data_item if bundle tx could not be found and the tx anchor block height and current block height difference is > 50", async () => {
       stub(gateway, "getTransactionStatus").resolves({
         status: "not found",
@@ -0,0 +1,20 @@
+#!/usr/bin/env node
+/**
+ * Cron script to trigger wallet reserve forecasting
+ * Run this periodically (e.g. every 10 minutes) to track the bundler wallet balance against bundle rewards
+ */
+
+require('dotenv').config();
+const { enqueue } = require('./lib/arch/queues');
+const { jobLabels } = require('./lib/constants');
+
+(async () => {
+  try {
+    await enqueue(jobLabels.forecastWalletReserve, {});
+    console.log(`[${new Date().toISOString()}] ✅ Forecast wallet reserve job enqueued`);
+    setTimeout(() => process.exit(0), 1000);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] ❌ Error:`, error.message);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,20 @@
+#!/usr/bin/env node
+/**
+ * Cron script to trigger storage tiering
+ * Run this periodically to move permanent data item payloads between storage tiers
+ */
+
+require('dotenv').config();
+const { enqueue } = require('./lib/arch/queues');
+const { jobLabels } = require('./lib/constants');
+
+(async () => {
+  try {
+    await enqueue(jobLabels.tierStorage, {});
+    console.log(`[${new Date().toISOString()}] ✅ Tier storage job enqueued`);
+    setTimeout(() => process.exit(0), 1000);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] ❌ Error:`, error.message);
+    process.exit(1);
+  }
+})();
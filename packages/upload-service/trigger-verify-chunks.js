@@ -0,0 +1,32 @@
+#!/usr/bin/env node
+/**
+ * Cron script to trigger chunk verification of seeded bundles
+ * Run this periodically (e.g. every 30 minutes) to sample seeded bundle chunks on the upload node
+ *
+ * Pass bundle IDs to check every chunk of those bundles and reseed any missing chunks:
+ *   node trigger-verify-chunks.js <bundle-id> [<bundle-id> ...]
+ */
+
+require('dotenv').config();
+const { enqueue } = require('./lib/arch/queues');
+const { jobLabels } = require('./lib/constants');
+
+const bundleIds = process.argv.slice(2);
+
+(async () => {
+  try {
+    await enqueue(
+      jobLabels.verifyChunks,
+      bundleIds.length > 0 ? { bundleIds } : {}
+    );
+    console.log(
+      `[${new Date().toISOString()}] ✅ Verify chunks job enqueued${
+        bundleIds.length > 0 ? ` for ${bundleIds.length} bundle(s)` : ''
+      }`
+    );
+    setTimeout(() => process.exit(0), 1000);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] ❌ Error:`, error.message);
+    process.exit(1);
+  }
+})();